@@ -3,10 +3,11 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
-import { clerkMiddleware } from '@clerk/express';
 
 import { errorHandler } from './middleware/errorHandler.js';
 import { requestLogger } from './middleware/requestLogger.js';
+import { auditTrail } from './middleware/audit.js';
+import { identityMiddleware } from './services/identityService.js';
 import casesRouter from './routes/cases.js';
 import documentsRouter from './routes/documents.js';
 import generationRouter from './routes/generation.js';
@@ -15,6 +16,23 @@ import firmRouter from './routes/firm.js';
 import healthRouter from './routes/health.js';
 import medicalEventsRouter from './routes/medicalEvents.js';
 import chronologyRouter from './routes/chronology.js';
+import jobsRouter from './routes/jobs.js';
+import searchRouter from './routes/search.js';
+import settlementRouter from './routes/settlement.js';
+import auditRouter from './routes/audit.js';
+import usersRouter from './routes/users.js';
+import invitationsRouter from './routes/invitations.js';
+import onboardingRouter from './routes/onboarding.js';
+import storageRouter from './routes/storage.js';
+import usageRouter from './routes/usage.js';
+import inboundRouter from './routes/inbound.js';
+import { registerJobHandlers } from './services/jobHandlers.js';
+import { startJobWorker } from './services/jobQueue.js';
+import { backfillSearchVectors } from './services/searchService.js';
+import { ensureAuditLogAppendOnly } from './services/auditService.js';
+import { backfillCaseTeams } from './services/caseTeamService.js';
+import { getStorage } from './services/storage.js';
+import { registerUsageMetering } from './services/usageService.js';
 import { logger } from './utils/logger.js';
 
 dotenv.config();
@@ -43,7 +61,15 @@ const corsOptions: cors.CorsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: [
+    'Content-Type',
+    'Authorization',
+    'X-Requested-With',
+    // Local auth stand-in (AUTH_PROVIDER=local)
+    'X-Local-User-Id',
+    'X-Local-User-Email',
+    'X-Local-User-Name',
+  ],
 };
 
 app.use(cors(corsOptions));
@@ -62,16 +88,25 @@ app.use(helmet({
   crossOriginResourcePolicy: { policy: 'cross-origin' },
 }));
 
-// Body parsing - needed before Clerk
+// Body parsing - needed before auth
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Clerk authentication middleware (only for API routes that need it)
-app.use('/api/cases', clerkMiddleware());
-app.use('/api/documents', clerkMiddleware());
-app.use('/api/generate', clerkMiddleware());
-app.use('/api/export', clerkMiddleware());
-app.use('/api/firm', clerkMiddleware());
+// Email-in webhook: authenticated by a shared secret, not a session, and
+// ahead of the rate limiter so a burst of forwarded mail isn't refused
+app.use('/api/inbound', inboundRouter);
+
+// Clerk (or local stand-in) authentication middleware (only for API routes that need it)
+app.use('/api/cases', identityMiddleware());
+app.use('/api/documents', identityMiddleware());
+app.use('/api/generate', identityMiddleware());
+app.use('/api/export', identityMiddleware());
+app.use('/api/firm', identityMiddleware());
+app.use('/api/admin', identityMiddleware());
+app.use('/api/search', identityMiddleware());
+app.use('/api/settlement', identityMiddleware());
+app.use('/api/onboarding', identityMiddleware());
+app.use('/api/usage', identityMiddleware());
 
 // Rate limiting
 const limiter = rateLimit({
@@ -84,12 +119,31 @@ app.use('/api', limiter);
 // Request logging
 app.use(requestLogger);
 
+// Audit trail for routes that touch case data (recorded once the response is sent)
+app.use('/api/cases', auditTrail('case'));
+app.use('/api/documents', auditTrail('document'));
+app.use('/api/generate', auditTrail('generated_document'));
+app.use('/api/export', auditTrail('export'));
+app.use('/api/settlement', auditTrail('settlement'));
+app.use('/api/search', auditTrail('search'));
+app.use('/api/admin/users', auditTrail('user'));
+app.use('/api/admin/invitations', auditTrail('invitation'));
+
 // API routes
 app.use('/api/cases', casesRouter);
 app.use('/api/documents', documentsRouter);
 app.use('/api/generate', generationRouter);
 app.use('/api/export', exportRouter);
 app.use('/api/firm', firmRouter);
+app.use('/api/admin/jobs', jobsRouter);
+app.use('/api/admin/audit', auditRouter);
+app.use('/api/admin/users', usersRouter);
+app.use('/api/admin/invitations', invitationsRouter);
+app.use('/api/onboarding', onboardingRouter);
+app.use('/api/storage', storageRouter);
+app.use('/api/usage', usageRouter);
+app.use('/api/search', searchRouter);
+app.use('/api/settlement', settlementRouter);
 app.use('/api', medicalEventsRouter);
 app.use('/api', chronologyRouter);
 
@@ -112,6 +166,33 @@ process.on('unhandledRejection', (reason) => {
   logger.error(`Unhandled rejection: ${reason}`);
 });
 
+// Meter every model call against its firm and enforce monthly AI limits
+registerUsageMetering();
+
+// Background job worker (document processing, chronology, generation)
+registerJobHandlers();
+if (process.env.JOB_WORKER_ENABLED !== 'false') {
+  startJobWorker();
+}
+
+// Keep the audit log append-only at the database level
+ensureAuditLogAppendOnly().catch((error) => {
+  logger.error(`Audit log trigger setup failed: ${error.message}`);
+});
+
+// Index documents and medical events created before full-text search
+backfillSearchVectors().catch((error) => {
+  logger.error(`Search index backfill failed: ${error.message}`);
+});
+
+// Fail fast on a bad STORAGE_DRIVER or missing local signing secret
+getStorage();
+
+// Put creators on the teams of cases opened before case teams
+backfillCaseTeams().catch((error) => {
+  logger.error(`Case team backfill failed: ${error.message}`);
+});
+
 app.listen(PORT, '0.0.0.0', () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -0,0 +1,87 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.js';
+import { AuditChanges, recordAuditEvent } from '../services/auditService.js';
+
+/**
+ * Details a handler can attach to the audit event for its request. Anything
+ * not set is derived from the route.
+ */
+export interface AuditDetails {
+  action?: string;
+  resourceType?: string;
+  resourceId?: string;
+  caseId?: string;
+  changes?: AuditChanges;
+  metadata?: Record<string, unknown>;
+  /** Don't record this request, e.g. status polling that exposes no case data */
+  skip?: boolean;
+}
+
+const METHOD_VERBS: Record<string, string> = {
+  GET: 'view',
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+const ID_PATTERN = /^[a-z0-9]{20,}$/i;
+
+export function setAuditDetails(res: Response, details: AuditDetails): void {
+  res.locals.audit = { ...(res.locals.audit as AuditDetails | undefined), ...details };
+}
+
+/**
+ * Label requests under a path with a more specific resource type than the
+ * mount point's, e.g. medical events under /api/cases.
+ */
+export function auditResource(resourceType: string) {
+  return (_req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    setAuditDetails(res, { resourceType });
+    next();
+  };
+}
+
+/**
+ * Record an AuditEvent for every authenticated request under a mount point
+ * once the response has been sent.
+ */
+export function auditTrail(resourceType: string) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (req.method === 'OPTIONS' || req.method === 'HEAD') {
+      return next();
+    }
+
+    // The first segment under each audited mount is the case id; params are
+    // gone by the time failed requests finish, so keep it as a fallback
+    const leadingSegment = req.path.split('/')[1];
+    const fallbackCaseId = leadingSegment && ID_PATTERN.test(leadingSegment) ? leadingSegment : undefined;
+
+    res.on('finish', () => {
+      const details = (res.locals.audit as AuditDetails | undefined) ?? {};
+      if (details.skip || !req.auth) return;
+
+      const params = (req.params ?? {}) as Record<string, string>;
+      const paramIds = Object.values(params).filter(Boolean);
+      const resolvedType = details.resourceType ?? resourceType;
+
+      void recordAuditEvent({
+        firmId: req.auth.firm.id,
+        actor: { id: req.auth.user.id, email: req.auth.user.email, name: req.auth.user.name },
+        action: details.action ?? `${resolvedType}.${METHOD_VERBS[req.method] ?? req.method.toLowerCase()}`,
+        resourceType: resolvedType,
+        resourceId: details.resourceId ?? paramIds[paramIds.length - 1] ?? null,
+        caseId: details.caseId ?? params.caseId ?? fallbackCaseId ?? null,
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        statusCode: res.statusCode,
+        changes: details.changes,
+        metadata: details.metadata,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null,
+      });
+    });
+
+    next();
+  };
+}
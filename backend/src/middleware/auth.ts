@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
-import { clerkClient, getAuth } from '@clerk/express';
+import { clerkClient } from '@clerk/express';
 import { UnauthorizedError, ForbiddenError } from '../utils/errors.js';
 import prisma from '../db/client.js';
 import { logger } from '../utils/logger.js';
+import { Permission, resolvePermissions } from '../services/permissionService.js';
+import { Identity, resolveIdentity } from '../services/identityService.js';
 
 export interface AuthenticatedRequest extends Request {
   auth?: {
@@ -21,7 +23,25 @@ export interface AuthenticatedRequest extends Request {
       name: string;
       slug: string;
     };
+    /** The user's role permissions after the firm's overrides */
+    permissions: Permission[];
   };
+  /** Set by requireIdentity for routes used before the user joins a firm */
+  identity?: Identity;
+}
+
+/**
+ * Require a signed-in identity without requiring a User row, for onboarding
+ * routes that create one.
+ */
+export function requireIdentity(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+  const identity = resolveIdentity(req);
+  if (!identity) {
+    return next(new UnauthorizedError('Not authenticated'));
+  }
+
+  req.identity = identity;
+  next();
 }
 
 export async function requireAuth(
@@ -30,27 +50,31 @@ export async function requireAuth(
   next: NextFunction
 ): Promise<void> {
   try {
-    // Use Clerk's getAuth to get authentication info from the request
-    const authInfo = getAuth(req);
+    // Clerk session, or the local stand-in's headers in development
+    const identity = resolveIdentity(req);
 
-    if (!authInfo || !authInfo.userId) {
+    if (!identity) {
       throw new UnauthorizedError('Not authenticated');
     }
 
-    // Get or create user in our database
     const user = await prisma.user.findUnique({
-      where: { clerkId: authInfo.userId },
+      where: { clerkId: identity.userId },
       include: { firm: true },
     });
 
     if (!user) {
-      // User exists in Clerk but not in our DB - they need to be onboarded
+      // Signed in but not yet in a firm - they need to be onboarded
       throw new UnauthorizedError('User not found. Please complete onboarding.');
     }
 
+    if (user.deactivatedAt) {
+      throw new ForbiddenError('Your account has been deactivated');
+    }
+
+    req.identity = identity;
     req.auth = {
       userId: user.id,
-      sessionId: authInfo.sessionId || '',
+      sessionId: identity.sessionId,
       user: {
         id: user.id,
         clerkId: user.clerkId,
@@ -64,6 +88,7 @@ export async function requireAuth(
         name: user.firm.name,
         slug: user.firm.slug,
       },
+      permissions: resolvePermissions(user.role, user.firm.rolePermissions),
     };
 
     next();
@@ -91,5 +116,23 @@ export function requireRole(...roles: string[]) {
   };
 }
 
+/**
+ * Require every listed permission from the firm's role matrix.
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.auth) {
+      return next(new UnauthorizedError('Not authenticated'));
+    }
+
+    const missing = permissions.filter((permission) => !req.auth!.permissions.includes(permission));
+    if (missing.length > 0) {
+      return next(new ForbiddenError(`Missing permission: ${missing.join(', ')}`));
+    }
+
+    next();
+  };
+}
+
 // Re-export clerkClient for use elsewhere
 export { clerkClient };
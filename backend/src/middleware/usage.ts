@@ -0,0 +1,18 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.js';
+import { assertWithinUsageQuota } from '../services/usageService.js';
+
+/**
+ * Refuse to queue AI work once the firm is over its hard monthly limit, so
+ * the user gets a 402 now instead of a failed job later.
+ */
+export function requireUsageQuota() {
+  return async (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+    try {
+      await assertWithinUsageQuota(req.auth!.firm.id);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,6 +1,4 @@
-export const CLASSIFICATION_PROMPT = `You are a document classification expert for personal injury cases. Analyze the provided document text and classify it into one of the following categories.
-
-## Categories
+const CATEGORY_DEFINITIONS = `## Categories
 
 - **MEDICAL_RECORDS**: Clinical notes, progress notes, consultation reports, operative reports, discharge summaries, diagnostic test results
 - **MEDICAL_BILLS**: Itemized statements, invoices, EOBs, billing summaries from healthcare providers
@@ -12,7 +10,11 @@ export const CLASSIFICATION_PROMPT = `You are a document classification expert f
 - **EXPERT_REPORT**: Medical expert opinions, accident reconstruction reports, vocational expert reports
 - **PRIOR_MEDICAL_RECORDS**: Medical records from before the incident date
 - **LIEN_LETTER**: Letters of protection, medical liens, subrogation notices
-- **OTHER**: Documents that don't fit the above categories
+- **OTHER**: Documents that don't fit the above categories`;
+
+export const CLASSIFICATION_PROMPT = `You are a document classification expert for personal injury cases. Analyze the provided document text and classify it into one of the following categories.
+
+${CATEGORY_DEFINITIONS}
 
 ## Classification Guidelines
 
@@ -41,3 +43,19 @@ Return ONLY valid JSON:
 Medical record indicator: "HISTORY OF PRESENT ILLNESS", "PHYSICAL EXAMINATION"
 Bill indicator: "ITEMIZED STATEMENT", "Total Charges:", "$"
 Police report indicator: "TRAFFIC COLLISION REPORT", "CHP 555"`;
+
+export const SEGMENTATION_PROMPT = `You are a records analyst for personal injury cases. The pages below come from one PDF that may combine several separate documents, such as an emergency room chart, imaging reports, physical therapy notes and itemized bills. Find where each separate document begins.
+
+${CATEGORY_DEFINITIONS}
+
+## Boundary Guidelines
+
+1. **A new document starts** where the provider, facility, date of service or document type changes: a new letterhead, a new report title, a new patient statement or a new "Page 1 of N"
+2. **Continuation pages are not new documents**: "Page 2 of 5", continued tables, addenda and signature pages belong with the pages before them
+3. **Keep related pages together**: one ER visit's triage, physician and nursing notes are one document; a bill and its itemization are one document
+4. **Fax cover sheets and blank pages** belong with the document that follows them
+5. **Each page's text is abbreviated**; judge from headers, titles and dates
+
+## Output
+
+List every page where a document begins, in page order, with that document's category, subcategory, date and provider. If the first page shown continues a document from earlier pages (noted below the page range), do not list it.`;
@@ -240,3 +240,37 @@ export const WAGE_DOCUMENTATION_EXTRACTION_PROMPT = `Extract all wage and employ
 3. Include all compensation types (base, overtime, bonuses)
 4. Document any benefits that may be affected
 5. Calculate total wage loss if data allows`;
+
+export const LIEN_LETTER_EXTRACTION_PROMPT = `Extract the lien or reimbursement claim from this lien letter into structured JSON.
+
+## Required Output Structure
+
+{
+  "lienHolder": {
+    "name": "Organization asserting the lien",
+    "address": "Address",
+    "phone": "Phone",
+    "contactPerson": "Recovery agent or representative"
+  },
+  "lienType": "medical_provider|health_insurer|medicare|medi_cal|erisa|other",
+  "claimNumber": "Lien, claim or reference number",
+  "patientName": "Patient/member name",
+  "amountClaimed": 1234.56,
+  "datesOfService": {
+    "from": "YYYY-MM-DD",
+    "to": "YYYY-MM-DD"
+  },
+  "letterDate": "YYYY-MM-DD",
+  "legalBasis": "Statute, plan provision or contract cited (e.g. 42 U.S.C. 1395y(b), Civil Code 3045.1)",
+  "responseDeadline": "YYYY-MM-DD or null",
+  "notes": "Any conditions, reduction offers or payoff instructions"
+}
+
+## Extraction Rules
+
+1. amountClaimed is the total currently asserted; use the most recent figure if the letter updates a prior amount
+2. Use medicare for Medicare, Medicare Advantage and CMS/BCRC conditional payment letters
+3. Use medi_cal for Medi-Cal or other state Medicaid recovery letters
+4. Use erisa for self-funded employer plans citing ERISA or plan reimbursement provisions
+5. Use health_insurer for other health plans, and medical_provider for hospitals, doctors and other providers
+6. Use null for missing information; do not invent amounts`;
@@ -0,0 +1,371 @@
+import { z } from 'zod';
+import { DocumentCategory } from '@prisma/client';
+
+/**
+ * Schemas for every structured model output. Each is sent to the model as a
+ * tool's input schema and used to validate what comes back. Fields the model
+ * may legitimately not find are nullish, objects pass unknown keys through,
+ * and numbers written as "$1,234.56" are accepted.
+ */
+
+const numeric = z.preprocess((value) => {
+  if (typeof value !== 'string') return value;
+  const cleaned = value.replace(/[$,\s]/g, '');
+  return cleaned !== '' && Number.isFinite(Number(cleaned)) ? Number(cleaned) : value;
+}, z.number());
+
+const amount = numeric.nullish();
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD')
+  .nullish();
+
+const text = z.string().nullish();
+
+const stringList = z.array(z.string()).nullish();
+
+// Drop null properties at any depth so "use null for missing data" reads as absent
+function dropNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(dropNulls);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== null)
+        .map(([k, v]) => [k, dropNulls(v)])
+    );
+  }
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Classification
+// ---------------------------------------------------------------------------
+
+export const classificationSchema = z.object({
+  category: z.nativeEnum(DocumentCategory),
+  subcategory: text,
+  confidence: numeric.pipe(z.number().min(0).max(1)),
+  documentDate: isoDate,
+  providerName: text,
+});
+
+export const documentBoundariesSchema = z.object({
+  documents: z.array(
+    z.object({
+      startPage: numeric.pipe(z.number().int().min(1)),
+      category: z.nativeEnum(DocumentCategory),
+      subcategory: text,
+      documentDate: isoDate,
+      providerName: text,
+    })
+  ),
+});
+
+// ---------------------------------------------------------------------------
+// Structured extraction, one schema per document category
+// ---------------------------------------------------------------------------
+
+const medicalRecordsSchema = z
+  .object({
+    patient: z
+      .object({ name: text, dateOfBirth: isoDate, medicalRecordNumber: text })
+      .passthrough()
+      .nullish(),
+    visits: z.array(
+      z
+        .object({
+          date: isoDate,
+          providerName: text,
+          facilityName: text,
+          visitType: text,
+          chiefComplaint: text,
+          diagnoses: z
+            .array(z.object({ icd10Code: text, description: z.string(), isPrimary: z.boolean().nullish() }).passthrough())
+            .nullish(),
+          procedures: z.array(z.object({ cptCode: text, description: z.string() }).passthrough()).nullish(),
+          objectiveFindings: text,
+          subjectiveComplaints: text,
+          treatmentProvided: text,
+          medicationsPrescribed: stringList,
+          workRestrictions: text,
+          followUpInstructions: text,
+        })
+        .passthrough()
+    ),
+    imagingSummary: z
+      .array(
+        z.object({ date: isoDate, type: text, bodyPart: text, findings: text, impression: text }).passthrough()
+      )
+      .nullish(),
+    preExistingConditions: stringList,
+    futureTreatmentRecommendations: stringList,
+  })
+  .passthrough();
+
+const medicalBillsSchema = z
+  .object({
+    provider: z.object({ name: text, address: text, npi: text, taxId: text }).passthrough().nullish(),
+    patient: z.object({ name: text, accountNumber: text }).passthrough().nullish(),
+    charges: z.array(
+      z
+        .object({
+          dateOfService: isoDate,
+          cptCode: text,
+          description: text,
+          quantity: amount,
+          amountBilled: amount,
+          insuranceAdjustment: amount,
+          insurancePaid: amount,
+          patientResponsibility: amount,
+          balanceDue: amount,
+        })
+        .passthrough()
+    ),
+    summary: z
+      .object({
+        totalBilled: amount,
+        totalAdjustments: amount,
+        totalInsurancePaid: amount,
+        totalPatientPaid: amount,
+        totalDue: amount,
+      })
+      .passthrough()
+      .nullish(),
+    insuranceInfo: z.object({ primaryInsurance: text, claimNumber: text }).passthrough().nullish(),
+  })
+  .passthrough();
+
+const policeReportSchema = z
+  .object({
+    reportInfo: z
+      .object({
+        reportNumber: text,
+        dateOfIncident: isoDate,
+        timeOfIncident: text,
+        reportingOfficer: text,
+        agency: text,
+      })
+      .passthrough()
+      .nullish(),
+    location: z.record(z.string().nullable()).nullish(),
+    parties: z.array(
+      z
+        .object({
+          role: text,
+          name: text,
+          dateOfBirth: isoDate,
+          vehicle: z.record(z.string().nullable()).nullish(),
+          insurance: z.object({ company: text, policyNumber: text }).passthrough().nullish(),
+          injuries: text,
+          citationsIssued: stringList,
+        })
+        .passthrough()
+    ),
+    narrative: text,
+    faultDetermination: z
+      .object({ atFaultParty: text, violations: stringList, contributingFactors: stringList })
+      .passthrough()
+      .nullish(),
+    witnesses: z.array(z.object({ name: text, phone: text, statement: text }).passthrough()).nullish(),
+    diagrams: text,
+  })
+  .passthrough();
+
+const wageDocumentationSchema = z
+  .object({
+    employer: z.object({ name: text, address: text, phone: text, contactPerson: text }).passthrough().nullish(),
+    employee: z
+      .object({ name: text, position: text, department: text, startDate: isoDate, employmentType: text })
+      .passthrough()
+      .nullish(),
+    compensation: z
+      .object({
+        payType: text,
+        baseRate: amount,
+        rateUnit: text,
+        averageHoursPerWeek: amount,
+        averageWeeklyGross: amount,
+        averageMonthlyGross: amount,
+        averageAnnualGross: amount,
+      })
+      .passthrough()
+      .nullish(),
+    payPeriods: z
+      .array(
+        z
+          .object({
+            startDate: isoDate,
+            endDate: isoDate,
+            hoursWorked: amount,
+            grossPay: amount,
+            netPay: amount,
+            overtime: amount,
+          })
+          .passthrough()
+      )
+      .nullish(),
+    missedWork: z
+      .object({ totalDaysMissed: amount, startDate: isoDate, returnDate: text, partialDays: amount })
+      .passthrough()
+      .nullish(),
+    wageLoss: z
+      .object({ dailyRate: amount, totalDaysMissed: amount, totalWageLoss: amount, calculationMethod: text })
+      .passthrough()
+      .nullish(),
+    benefits: z.record(z.unknown()).nullish(),
+  })
+  .passthrough();
+
+const lienLetterSchema = z
+  .object({
+    lienHolder: z
+      .object({ name: z.string().nullable(), address: text, phone: text, contactPerson: text })
+      .passthrough(),
+    lienType: z.enum(['medical_provider', 'health_insurer', 'medicare', 'medi_cal', 'erisa', 'other']),
+    claimNumber: text,
+    patientName: text,
+    amountClaimed: amount,
+    datesOfService: z.object({ from: isoDate, to: isoDate }).passthrough().nullish(),
+    letterDate: isoDate,
+    legalBasis: text,
+    responseDeadline: isoDate,
+    notes: text,
+  })
+  .passthrough();
+
+export const extractionSchemas = {
+  MEDICAL_RECORDS: medicalRecordsSchema,
+  MEDICAL_BILLS: medicalBillsSchema,
+  POLICE_REPORT: policeReportSchema,
+  WAGE_DOCUMENTATION: wageDocumentationSchema,
+  LIEN_LETTER: lienLetterSchema,
+} satisfies Partial<Record<DocumentCategory, z.ZodTypeAny>>;
+
+export type ExtractionCategory = keyof typeof extractionSchemas;
+
+// ---------------------------------------------------------------------------
+// Medical events
+// ---------------------------------------------------------------------------
+
+const rawCitationSchema = z.object({
+  field: z.enum(['date_of_service', 'chief_complaint', 'diagnoses', 'pain_score', 'key_quotes', 'causation_statements', 'charges']),
+  value: z.coerce.string(),
+  page: numeric.nullish(),
+  quote: text,
+});
+
+export const medicalEventSchema = z.preprocess(
+  dropNulls,
+  z
+    .object({
+      date_of_service: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD'),
+      provider_name: z.string().optional(),
+      provider_type: z.string().optional(),
+      facility_name: z.string().optional(),
+      document_type: z.string().optional(),
+      chief_complaint: z.string().optional(),
+      diagnoses: z
+        .array(z.object({ diagnosis_name: z.string(), icd_code: z.string().optional(), body_part: z.string().optional() }))
+        .optional(),
+      treatments_procedures: z.array(z.string()).optional(),
+      medications: z
+        .array(
+          z.object({
+            medication_name: z.string(),
+            dosage: z.string().optional(),
+            frequency: z.string().optional(),
+            purpose: z.string().optional(),
+          })
+        )
+        .optional(),
+      imaging_tests: z
+        .array(
+          z.object({
+            test_type: z.string(),
+            body_part: z.string().optional(),
+            findings: z.string().optional(),
+            impression: z.string().optional(),
+          })
+        )
+        .optional(),
+      vital_signs: z
+        .object({
+          blood_pressure: z.string().optional(),
+          heart_rate: z.string().optional(),
+          temperature: z.string().optional(),
+          pain_score: numeric.pipe(z.number().min(0).max(10)).optional(),
+          pain_location: z.string().optional(),
+        })
+        .optional(),
+      subjective_findings: z.string().optional(),
+      objective_findings: z.string().optional(),
+      assessment: z.string().optional(),
+      plan: z.string().optional(),
+      work_status: z.string().optional(),
+      work_restrictions: z.string().optional(),
+      functional_limitations: z.array(z.string()).optional(),
+      prognosis: z.string().optional(),
+      permanency_statements: z.string().optional(),
+      future_treatment_recommended: z.array(z.string()).optional(),
+      pre_existing_mentioned: z
+        .array(z.object({ condition: z.string(), context: z.string().optional(), relevance: z.string().optional() }))
+        .optional(),
+      costs: z
+        .object({
+          total_charge: numeric.optional(),
+          insurance_paid: numeric.optional(),
+          patient_responsibility: numeric.optional(),
+        })
+        .optional(),
+      key_quotes: z.array(z.string()).optional(),
+      red_flags: z.array(z.string()).optional(),
+      causation_statements: z.array(z.string()).optional(),
+      source_citations: z.array(rawCitationSchema).optional(),
+    })
+    .passthrough()
+);
+
+/** Tool input must be an object, so the event list is wrapped */
+export const medicalEventsOutputSchema = z.object({
+  events: z.array(medicalEventSchema),
+});
+
+// ---------------------------------------------------------------------------
+// Chronology and generation
+// ---------------------------------------------------------------------------
+
+export const gapExplanationsSchema = z.object({
+  gaps: z.array(
+    z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      durationDays: numeric,
+      explanation: z.string(),
+      impact: z.string(),
+    })
+  ),
+});
+
+const letterWarningSchema = z
+  .object({
+    severity: z.enum(['critical', 'moderate', 'minor']),
+    category: z.string(),
+    message: z.string(),
+    recommendation: z.string().nullish(),
+  })
+  .passthrough();
+
+export const demandLetterSchema = z
+  .object({
+    demandLetter: z.string().min(1, 'The letter is empty'),
+    summary: z.record(z.unknown()).nullish(),
+    warnings: z.array(letterWarningSchema),
+    missingInformation: z.array(z.string()).nullish(),
+  })
+  .passthrough();
+
+export const sectionRegenerationSchema = z.object({
+  section: z.string().min(1, 'The section is empty'),
+  warnings: z.array(letterWarningSchema),
+});
@@ -90,6 +90,7 @@ Generate a separate warnings array for issues requiring attorney attention:
 - Causation challenges
 
 ### 3. CALCULATE DAMAGES ACCURATELY
+- When a Damages Calculation is provided, use its figures and demand amount exactly
 - Use only documented amounts from medical bills
 - Do not estimate or round amounts
 - Clearly note if bills are missing
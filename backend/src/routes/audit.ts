@@ -0,0 +1,155 @@
+import { Router, Response, NextFunction } from 'express';
+import prisma from '../db/client.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { BadRequestError } from '../utils/errors.js';
+import {
+  AUDIT_EXPORT_LIMIT,
+  AuditEventFilters,
+  auditCsvHeader,
+  auditEventToCsvRow,
+  buildAuditWhere,
+  iterateAuditEvents,
+  recordAuditEvent,
+} from '../services/auditService.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes (requires audit:view)
+router.use(requireAuth);
+router.use(requirePermission('audit:view'));
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestError(`Invalid ${name} date`);
+  }
+  return date;
+}
+
+function parseFilters(query: Record<string, unknown>): AuditEventFilters {
+  const to = parseDate(query.to, 'to');
+  // A bare date for `to` includes the whole day
+  if (to && /^\d{4}-\d{2}-\d{2}$/.test(query.to as string)) {
+    to.setUTCHours(23, 59, 59, 999);
+  }
+
+  return {
+    actorId: query.actorId as string | undefined,
+    action: query.action as string | undefined,
+    resourceType: query.resourceType as string | undefined,
+    caseId: query.caseId as string | undefined,
+    from: parseDate(query.from, 'from'),
+    to,
+  };
+}
+
+// GET /api/admin/audit - List audit events for the firm
+router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { page = '1', limit = '50' } = req.query;
+    const pageNum = Math.max(parseInt(page as string, 10) || 1, 1);
+    const limitNum = Math.min(parseInt(limit as string, 10) || 50, 200);
+    const where = buildAuditWhere(req.auth!.firm.id, parseFilters(req.query));
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: events,
+      meta: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/admin/audit/facets - Actors and resource types for the viewer's filters
+router.get('/facets', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const firmId = req.auth!.firm.id;
+
+    const [actors, resourceTypes] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where: { firmId, actorId: { not: null } },
+        distinct: ['actorId'],
+        select: { actorId: true, actorName: true, actorEmail: true },
+        orderBy: { actorId: 'asc' },
+      }),
+      prisma.auditEvent.findMany({
+        where: { firmId },
+        distinct: ['resourceType'],
+        select: { resourceType: true },
+        orderBy: { resourceType: 'asc' },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        actors,
+        resourceTypes: resourceTypes.map((row) => row.resourceType),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/admin/audit/export - Download matching audit events as CSV
+router.get('/export', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const filters = parseFilters(req.query);
+    const where = buildAuditWhere(req.auth!.firm.id, filters);
+
+    // Exporting the log is itself an auditable access
+    await recordAuditEvent({
+      firmId: req.auth!.firm.id,
+      actor: { id: req.auth!.user.id, email: req.auth!.user.email, name: req.auth!.user.name },
+      action: 'audit_log.export',
+      resourceType: 'audit_log',
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      statusCode: 200,
+      metadata: { filters: { ...filters }, limit: AUDIT_EXPORT_LIMIT },
+      ipAddress: req.ip ?? null,
+      userAgent: req.get('user-agent') ?? null,
+    });
+
+    const filename = `audit_log_${new Date().toISOString().split('T')[0]}.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.write(auditCsvHeader());
+
+    try {
+      for await (const event of iterateAuditEvents(where)) {
+        res.write(auditEventToCsvRow(event));
+      }
+    } catch (error) {
+      // Headers are already sent, so abort the connection: ending normally
+      // would hand over a truncated CSV that looks complete
+      logger.error(`Audit export failed: ${(error as Error).message}`);
+      res.destroy(error as Error);
+      return;
+    }
+    res.end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
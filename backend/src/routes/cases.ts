@@ -1,9 +1,31 @@
 import { Router, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import { CaseTeamRole, DefendantType } from '@prisma/client';
 import prisma from '../db/client.js';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
 import { validateBody } from '../middleware/validation.js';
-import { NotFoundError } from '../utils/errors.js';
+import { setAuditDetails } from '../middleware/audit.js';
+import { canBypassEthicalWall, caseAccessWhere } from '../services/caseAccessService.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { isDamagesCalculation, recalculateCaseDamages } from '../services/damagesService.js';
+import {
+  calculateStatuteOfLimitations,
+  DEADLINE_INACTIVE_STATUSES,
+  deadlineWarnings,
+  getCaseDeadlines,
+  isDeadlineTracked,
+  statuteInputFor,
+  StatuteCaseFields,
+} from '../services/statuteService.js';
+import { diffChanges } from '../services/auditService.js';
+import {
+  defaultTeamRole,
+  listCaseTeam,
+  reassignTeamMember,
+  removeTeamMember,
+  teamMemberInclude,
+  upsertTeamMember,
+} from '../services/caseTeamService.js';
 
 const router = Router();
 
@@ -23,34 +45,137 @@ const createCaseSchema = z.object({
   incidentLocation: z.string().optional(),
   incidentDescription: z.string().optional(),
   defendantName: z.string().optional(),
+  defendantType: z.nativeEnum(DefendantType).default('PRIVATE'),
   defendantInsuranceCompany: z.string().optional(),
   claimNumber: z.string().optional(),
   jurisdiction: z.string().default('CA'),
+  // A date overrides the computed deadline; null restores the computed one
+  statuteOfLimitations: z.string().datetime().nullable().optional(),
+  governmentClaimFiledAt: z.string().datetime().nullable().optional(),
+  governmentClaimRejectedAt: z.string().datetime().nullable().optional(),
 });
 
 const updateCaseSchema = createCaseSchema.partial();
 
+const teamMemberSchema = z.object({
+  userId: z.string().min(1),
+  role: z.nativeEnum(CaseTeamRole),
+});
+
+const teamRoleSchema = teamMemberSchema.pick({ role: true });
+
+const reassignSchema = z.object({
+  fromUserId: z.string().min(1),
+  toUserId: z.string().min(1),
+});
+
+const restrictionSchema = z.object({
+  restricted: z.boolean(),
+});
+
+const rangeSchema = z
+  .object({
+    low: z.number().min(0),
+    target: z.number().min(0),
+    high: z.number().min(0),
+  })
+  .refine((range) => range.low <= range.target && range.target <= range.high, {
+    message: 'Low must not exceed target, and target must not exceed high',
+  });
+
+const lineItemSchema = z.object({
+  description: z.string().min(1).max(200),
+  amount: z.number().min(0),
+});
+
+const damagesInputsSchema = z.object({
+  method: z.enum(['multiplier', 'per_diem', 'blended']).optional(),
+  multiplierBase: z.enum(['billed', 'paid']).optional(),
+  multiplier: rangeSchema.optional(),
+  perDiem: z
+    .object({
+      dailyRate: rangeSchema,
+      days: z.number().int().min(0).max(36500).nullable(),
+    })
+    .optional(),
+  futureMedical: z.array(lineItemSchema).max(50).optional(),
+  otherSpecials: z.array(lineItemSchema).max(50).optional(),
+  wageLossOverride: z.number().min(0).nullable().optional(),
+});
+
+/**
+ * Date fields that may be cleared with null.
+ */
+function optionalDate(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) return undefined;
+  return value === null ? null : new Date(value);
+}
+
+/**
+ * Statute fields to write for a create or update. Manual deadlines are kept
+ * until cleared; otherwise the deadline follows the incident date,
+ * jurisdiction, client date of birth and defendant type.
+ */
+function resolveStatuteOfLimitations(
+  body: Record<string, any>,
+  existing?: StatuteCaseFields & { statuteOfLimitationsManual: boolean }
+): { statuteOfLimitations?: Date | null; statuteOfLimitationsManual?: boolean } {
+  if (body.statuteOfLimitations) {
+    return { statuteOfLimitations: new Date(body.statuteOfLimitations), statuteOfLimitationsManual: true };
+  }
+  if (existing?.statuteOfLimitationsManual && body.statuteOfLimitations === undefined) {
+    return {};
+  }
+
+  const rejectedAt = optionalDate(body.governmentClaimRejectedAt);
+  const computed = calculateStatuteOfLimitations(
+    statuteInputFor({
+      incidentDate: body.incidentDate ? new Date(body.incidentDate) : existing!.incidentDate,
+      jurisdiction: body.jurisdiction ?? existing!.jurisdiction,
+      incidentType: body.incidentType ?? existing!.incidentType,
+      clientDateOfBirth: body.clientDateOfBirth
+        ? new Date(body.clientDateOfBirth)
+        : existing?.clientDateOfBirth ?? null,
+      defendantType: body.defendantType ?? existing!.defendantType,
+      governmentClaimRejectedAt: rejectedAt !== undefined ? rejectedAt : existing?.governmentClaimRejectedAt ?? null,
+    })
+  );
+  return { statuteOfLimitations: computed?.deadline ?? null, statuteOfLimitationsManual: false };
+}
+
 // GET /api/cases - List cases
 router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    const { page = '1', limit = '10', status, search } = req.query;
+    const { page = '1', limit = '10', status, search, mine } = req.query;
     const pageNum = parseInt(page as string, 10);
     const limitNum = parseInt(limit as string, 10);
     const skip = (pageNum - 1) * limitNum;
 
     const where: Record<string, unknown> = {
-      firmId: req.auth!.firm.id,
+      ...caseAccessWhere(req.auth!),
     };
 
     if (status) {
       where.status = status;
     }
 
+    // "My cases": any case the user is on the team of, or only those they're responsible for
+    if (mine === 'team') {
+      where.team = { some: { userId: req.auth!.user.id } };
+    } else if (mine === 'responsible') {
+      where.team = { some: { userId: req.auth!.user.id, role: 'RESPONSIBLE_ATTORNEY' } };
+    }
+
     if (search) {
-      where.OR = [
-        { clientFirstName: { contains: search as string, mode: 'insensitive' } },
-        { clientLastName: { contains: search as string, mode: 'insensitive' } },
-        { caseNumber: { contains: search as string, mode: 'insensitive' } },
+      // The access filter already uses OR
+      where.AND = [
+        {
+          OR: [
+            { clientFirstName: { contains: search as string, mode: 'insensitive' } },
+            { clientLastName: { contains: search as string, mode: 'insensitive' } },
+            { caseNumber: { contains: search as string, mode: 'insensitive' } },
+          ],
+        },
       ];
     }
 
@@ -67,6 +192,10 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
               generatedDocuments: true,
             },
           },
+          team: {
+            where: { role: 'RESPONSIBLE_ATTORNEY' },
+            include: teamMemberInclude,
+          },
         },
       }),
       prisma.case.count({ where }),
@@ -87,13 +216,62 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
   }
 });
 
+// GET /api/cases/deadlines - Upcoming filing deadlines across the firm's open cases
+router.get('/deadlines', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const withinDays = Math.min(parseInt((req.query.days as string) || '180', 10) || 180, 3650);
+
+    const cases = await prisma.case.findMany({
+      where: {
+        ...caseAccessWhere(req.auth!),
+        status: { notIn: DEADLINE_INACTIVE_STATUSES },
+      },
+      select: {
+        id: true,
+        caseNumber: true,
+        clientFirstName: true,
+        clientLastName: true,
+        status: true,
+        incidentDate: true,
+        incidentType: true,
+        jurisdiction: true,
+        clientDateOfBirth: true,
+        defendantType: true,
+        statuteOfLimitations: true,
+        statuteOfLimitationsManual: true,
+        governmentClaimFiledAt: true,
+        governmentClaimRejectedAt: true,
+      },
+    });
+
+    const deadlines = cases
+      .flatMap((caseData) =>
+        getCaseDeadlines(caseData).map((deadline) => ({
+          ...deadline,
+          caseId: caseData.id,
+          caseNumber: caseData.caseNumber,
+          clientName: `${caseData.clientFirstName} ${caseData.clientLastName}`,
+        }))
+      )
+      .filter((deadline) => !deadline.completed && deadline.daysRemaining <= withinDays)
+      .sort((a, b) => a.daysRemaining - b.daysRemaining);
+
+    res.json({
+      success: true,
+      data: deadlines,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/cases/:id - Get case details
 router.get('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const caseData = await prisma.case.findFirst({
       where: {
         id: req.params.id as string,
-        firmId: req.auth!.firm.id,
+        ...caseAccessWhere(req.auth!),
       },
       include: {
         documents: {
@@ -116,18 +294,146 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFu
       throw new NotFoundError('Case not found');
     }
 
+    const team = await listCaseTeam(caseData.id);
+
+    // Deadlines are computed per request so countdowns stay current
+    const deadlines = getCaseDeadlines(caseData);
+
     res.json({
       success: true,
-      data: caseData,
+      data: {
+        ...caseData,
+        team,
+        deadlines,
+        deadlineWarnings: isDeadlineTracked(caseData.status) ? deadlineWarnings(deadlines, caseData) : [],
+      },
     });
   } catch (error) {
     next(error);
   }
 });
 
+// GET /api/cases/:id/jobs - List background jobs for a case
+router.get('/:id/jobs', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const caseData = await prisma.case.findFirst({
+      where: {
+        id: req.params.id as string,
+        ...caseAccessWhere(req.auth!),
+      },
+    });
+
+    if (!caseData) {
+      throw new NotFoundError('Case not found');
+    }
+
+    const { status, type } = req.query;
+    const where: Record<string, unknown> = { caseId: caseData.id };
+
+    if (status) {
+      where.status = { in: (status as string).split(',') };
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    const jobs = await prisma.job.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+
+    // Polled while documents process; job status exposes no case data
+    setAuditDetails(res, { skip: true });
+
+    res.json({
+      success: true,
+      data: jobs,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/cases/:id/damages - Get the damages calculation, computing it if missing
+router.get('/:id/damages', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    // Verify case belongs to firm
+    const caseData = await prisma.case.findFirst({
+      where: {
+        id: req.params.id as string,
+        ...caseAccessWhere(req.auth!),
+      },
+      select: { id: true, damagesCalculation: true },
+    });
+
+    if (!caseData) {
+      throw new NotFoundError('Case not found');
+    }
+
+    const calculation = isDamagesCalculation(caseData.damagesCalculation)
+      ? caseData.damagesCalculation
+      : await recalculateCaseDamages(caseData.id);
+
+    res.json({
+      success: true,
+      data: calculation,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/cases/:id/damages - Update damages inputs and recalculate
+router.put(
+  '/:id/damages',
+  requirePermission('case:edit'),
+  validateBody(damagesInputsSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: req.params.id as string,
+          ...caseAccessWhere(req.auth!),
+        },
+        select: { id: true, damagesCalculation: true },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      // Unspecified inputs keep their saved values
+      const previous = isDamagesCalculation(caseData.damagesCalculation)
+        ? caseData.damagesCalculation.inputs
+        : {};
+      const calculation = await recalculateCaseDamages(caseData.id, { ...previous, ...req.body });
+
+      setAuditDetails(res, {
+        action: 'case.damages.update',
+        changes: diffChanges(
+          previous as Record<string, unknown>,
+          calculation.inputs as unknown as Record<string, unknown>,
+          Object.keys(req.body)
+        ),
+      });
+
+      res.json({
+        success: true,
+        data: calculation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // POST /api/cases - Create new case
 router.post(
   '/',
+  requirePermission('case:create'),
   validateBody(createCaseSchema),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -138,11 +444,24 @@ router.post(
           clientDateOfBirth: req.body.clientDateOfBirth
             ? new Date(req.body.clientDateOfBirth)
             : null,
+          governmentClaimFiledAt: optionalDate(req.body.governmentClaimFiledAt),
+          governmentClaimRejectedAt: optionalDate(req.body.governmentClaimRejectedAt),
+          ...resolveStatuteOfLimitations(req.body),
           firmId: req.auth!.firm.id,
           createdById: req.auth!.user.id,
+          // Whoever opens the case starts on its team
+          team: {
+            create: {
+              userId: req.auth!.user.id,
+              role: defaultTeamRole(req.auth!.user.role),
+              addedById: req.auth!.user.id,
+            },
+          },
         },
       });
 
+      setAuditDetails(res, { resourceId: newCase.id, caseId: newCase.id });
+
       res.status(201).json({
         success: true,
         data: newCase,
@@ -156,6 +475,7 @@ router.post(
 // PUT /api/cases/:id - Update case
 router.put(
   '/:id',
+  requirePermission('case:edit'),
   validateBody(updateCaseSchema),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -163,7 +483,7 @@ router.put(
       const existingCase = await prisma.case.findFirst({
         where: {
           id: req.params.id as string,
-          firmId: req.auth!.firm.id,
+          ...caseAccessWhere(req.auth!),
         },
       });
 
@@ -181,9 +501,16 @@ router.put(
           clientDateOfBirth: req.body.clientDateOfBirth
             ? new Date(req.body.clientDateOfBirth)
             : undefined,
+          governmentClaimFiledAt: optionalDate(req.body.governmentClaimFiledAt),
+          governmentClaimRejectedAt: optionalDate(req.body.governmentClaimRejectedAt),
+          ...resolveStatuteOfLimitations(req.body, existingCase),
         },
       });
 
+      setAuditDetails(res, {
+        changes: diffChanges(existingCase, updatedCase, Object.keys(req.body)),
+      });
+
       res.json({
         success: true,
         data: updatedCase,
@@ -195,12 +522,12 @@ router.put(
 );
 
 // DELETE /api/cases/:id - Delete case (soft delete by setting status to CLOSED)
-router.delete('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.delete('/:id', requirePermission('case:close'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const existingCase = await prisma.case.findFirst({
       where: {
         id: req.params.id as string,
-        firmId: req.auth!.firm.id,
+        ...caseAccessWhere(req.auth!),
       },
     });
 
@@ -213,6 +540,11 @@ router.delete('/:id', async (req: AuthenticatedRequest, res: Response, next: Nex
       data: { status: 'CLOSED' },
     });
 
+    setAuditDetails(res, {
+      action: 'case.close',
+      changes: diffChanges({ status: existingCase.status }, { status: 'CLOSED' }),
+    });
+
     res.json({
       success: true,
       message: 'Case closed successfully',
@@ -222,4 +554,207 @@ router.delete('/:id', async (req: AuthenticatedRequest, res: Response, next: Nex
   }
 });
 
+async function findTeamCase(req: AuthenticatedRequest) {
+  // Verify case belongs to firm
+  const caseData = await prisma.case.findFirst({
+    where: {
+      id: req.params.id as string,
+      ...caseAccessWhere(req.auth!),
+    },
+    select: { id: true, restricted: true },
+  });
+
+  if (!caseData) {
+    throw new NotFoundError('Case not found');
+  }
+  return caseData;
+}
+
+// GET /api/cases/:id/team - List the case team
+router.get('/:id/team', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const caseData = await findTeamCase(req);
+    const team = await listCaseTeam(caseData.id);
+
+    res.json({
+      success: true,
+      data: team,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/cases/:id/team - Add a firm member to the case team
+router.post(
+  '/:id/team',
+  requirePermission('case:edit'),
+  validateBody(teamMemberSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const caseData = await findTeamCase(req);
+      const member = await upsertTeamMember(
+        caseData.id,
+        req.auth!.firm.id,
+        req.body.userId,
+        req.body.role,
+        req.auth!.user.id
+      );
+
+      setAuditDetails(res, {
+        action: 'case.team.add',
+        resourceType: 'case_team_member',
+        resourceId: member.userId,
+        metadata: { userName: member.user.name, role: member.role },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: member,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/cases/:id/team/:userId - Change a team member's role on the case
+router.put(
+  '/:id/team/:userId',
+  requirePermission('case:edit'),
+  validateBody(teamRoleSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const caseData = await findTeamCase(req);
+      const existing = await prisma.caseTeamMember.findUnique({
+        where: { caseId_userId: { caseId: caseData.id, userId: req.params.userId as string } },
+      });
+
+      if (!existing) {
+        throw new NotFoundError('Team member not found');
+      }
+
+      const member = await upsertTeamMember(
+        caseData.id,
+        req.auth!.firm.id,
+        existing.userId,
+        req.body.role,
+        req.auth!.user.id
+      );
+
+      setAuditDetails(res, {
+        action: 'case.team.update',
+        resourceType: 'case_team_member',
+        changes: diffChanges({ role: existing.role }, { role: member.role }),
+      });
+
+      res.json({
+        success: true,
+        data: member,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/cases/:id/team/:userId - Remove a member from the case team
+router.delete(
+  '/:id/team/:userId',
+  requirePermission('case:edit'),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const caseData = await findTeamCase(req);
+      const member = await removeTeamMember(caseData.id, req.params.userId as string);
+
+      setAuditDetails(res, {
+        action: 'case.team.remove',
+        resourceType: 'case_team_member',
+        metadata: { userName: member.user.name, role: member.role },
+      });
+
+      res.json({
+        success: true,
+        message: 'Team member removed',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/cases/:id/team/reassign - Hand a member's role on the case to someone else
+router.post(
+  '/:id/team/reassign',
+  requirePermission('case:edit'),
+  validateBody(reassignSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const caseData = await findTeamCase(req);
+      const member = await reassignTeamMember(
+        caseData.id,
+        req.auth!.firm.id,
+        req.body.fromUserId,
+        req.body.toUserId,
+        req.auth!.user.id
+      );
+
+      setAuditDetails(res, {
+        action: 'case.team.reassign',
+        resourceType: 'case_team_member',
+        resourceId: member.userId,
+        metadata: { fromUserId: req.body.fromUserId, toUserId: member.userId, role: member.role },
+      });
+
+      res.json({
+        success: true,
+        data: member,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/cases/:id/restriction - Turn the ethical wall on or off
+router.put(
+  '/:id/restriction',
+  requirePermission('case:edit'),
+  validateBody(restrictionSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const caseData = await findTeamCase(req);
+      const { restricted } = req.body as z.infer<typeof restrictionSchema>;
+
+      // Don't let someone wall themselves out of a case they are working on
+      if (restricted && !canBypassEthicalWall(req.auth!)) {
+        const onTeam = await prisma.caseTeamMember.count({
+          where: { caseId: caseData.id, userId: req.auth!.user.id },
+        });
+        if (!onTeam) {
+          throw new BadRequestError('Add yourself to the case team before restricting it');
+        }
+      }
+
+      const updatedCase = await prisma.case.update({
+        where: { id: caseData.id },
+        data: { restricted },
+        select: { id: true, restricted: true },
+      });
+
+      setAuditDetails(res, {
+        action: restricted ? 'case.restrict' : 'case.unrestrict',
+        changes: diffChanges(caseData, updatedCase, ['restricted']),
+      });
+
+      res.json({
+        success: true,
+        data: updatedCase,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
@@ -1,20 +1,25 @@
 import { Router } from 'express';
 import { prisma } from '../db/client';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { requireUsageQuota } from '../middleware/usage';
+import { auditResource } from '../middleware/audit';
+import { caseAccessWhere } from '../services/caseAccessService';
 import { logger } from '../utils/logger';
 import {
-  generateChronology,
   getChronology,
   getTimelineData,
 } from '../services/chronologyService';
+import { enqueueChronologyGeneration } from '../services/documentProcessor';
 
 const router = Router();
 
+router.use('/cases/:caseId/chronology', auditResource('chronology'));
+
 /**
  * POST /api/cases/:caseId/chronology/generate
- * Generate or regenerate the medical chronology
+ * Queue generation (or regeneration) of the medical chronology
  */
-router.post('/cases/:caseId/chronology/generate', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post('/cases/:caseId/chronology/generate', requireAuth, requirePermission('chronology:generate'), requireUsageQuota(), async (req: AuthenticatedRequest, res) => {
   try {
     const { caseId } = req.params;
 
@@ -22,7 +27,7 @@ router.post('/cases/:caseId/chronology/generate', requireAuth, async (req: Authe
     const caseRecord = await prisma.case.findFirst({
       where: {
         id: caseId as string,
-        firmId: req.auth!.user.firmId,
+        ...caseAccessWhere(req.auth!),
       }
     });
 
@@ -42,17 +47,17 @@ router.post('/cases/:caseId/chronology/generate', requireAuth, async (req: Authe
       });
     }
 
-    const chronology = await generateChronology(caseId as string);
+    const job = await enqueueChronologyGeneration(caseId as string);
 
-    res.json({
+    res.status(202).json({
       success: true,
-      data: chronology
+      data: job
     });
   } catch (error) {
-    logger.error('Error generating chronology:', error);
+    logger.error('Error queueing chronology generation:', error);
     res.status(500).json({
       success: false,
-      error: { code: 'INTERNAL_ERROR', message: 'Failed to generate chronology' }
+      error: { code: 'INTERNAL_ERROR', message: 'Failed to queue chronology generation' }
     });
   }
 });
@@ -69,7 +74,7 @@ router.get('/cases/:caseId/chronology', requireAuth, async (req: AuthenticatedRe
     const caseRecord = await prisma.case.findFirst({
       where: {
         id: caseId as string,
-        firmId: req.auth!.user.firmId,
+        ...caseAccessWhere(req.auth!),
       }
     });
 
@@ -114,7 +119,7 @@ router.get('/cases/:caseId/chronology/timeline', requireAuth, async (req: Authen
     const caseRecord = await prisma.case.findFirst({
       where: {
         id: caseId as string,
-        firmId: req.auth!.user.firmId,
+        ...caseAccessWhere(req.auth!),
       }
     });
 
@@ -152,7 +157,7 @@ router.get('/cases/:caseId/chronology/gaps', requireAuth, async (req: Authentica
     const caseRecord = await prisma.case.findFirst({
       where: {
         id: caseId as string,
-        firmId: req.auth!.user.firmId,
+        ...caseAccessWhere(req.auth!),
       }
     });
 
@@ -193,7 +198,7 @@ router.get('/cases/:caseId/chronology/pain-history', requireAuth, async (req: Au
     const caseRecord = await prisma.case.findFirst({
       where: {
         id: caseId as string,
-        firmId: req.auth!.user.firmId,
+        ...caseAccessWhere(req.auth!),
       }
     });
 
@@ -231,7 +236,7 @@ router.get('/cases/:caseId/chronology/costs', requireAuth, async (req: Authentic
     const caseRecord = await prisma.case.findFirst({
       where: {
         id: caseId as string,
-        firmId: req.auth!.user.firmId,
+        ...caseAccessWhere(req.auth!),
       }
     });
 
@@ -312,7 +317,7 @@ router.get('/cases/:caseId/chronology/narrative', requireAuth, async (req: Authe
     const caseRecord = await prisma.case.findFirst({
       where: {
         id: caseId as string,
-        firmId: req.auth!.user.firmId,
+        ...caseAccessWhere(req.auth!),
       }
     });
 
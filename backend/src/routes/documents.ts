@@ -1,12 +1,38 @@
-import { Router, Response, NextFunction } from 'express';
+import { readFile, unlink } from 'fs/promises';
+import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
 import prisma from '../db/client.js';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
-import { NotFoundError, BadRequestError } from '../utils/errors.js';
-import { uploadToS3, deleteFromS3, getSignedUrl } from '../services/storage.js';
-import { processDocument } from '../services/documentProcessor.js';
-import { logger } from '../utils/logger.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { requireUsageQuota } from '../middleware/usage.js';
+import { validateBody } from '../middleware/validation.js';
+import { NotFoundError, BadRequestError, ConflictError, PayloadTooLargeError } from '../utils/errors.js';
+import { putFile, deleteFile, getSignedUrl } from '../services/storage.js';
+import { enqueueDocumentProcessing } from '../services/documentProcessor.js';
+import { setAuditDetails } from '../middleware/audit.js';
+import { caseAccessWhere } from '../services/caseAccessService.js';
+import { hashContent, releaseDuplicates } from '../services/duplicateService.js';
+import { folderHints, ImportReport, streamImport } from '../services/importService.js';
+import {
+  ensureInboundEmailAddress,
+  ingestEmail,
+  isEmailFile,
+  parseEmailFile,
+  resetInboundEmailAddress,
+} from '../services/emailIngestionService.js';
+import {
+  detectStructuredRecord,
+  isStructuredRecordFile,
+  STRUCTURED_RECORD_MIME_TYPES,
+} from '../services/structuredRecordService.js';
+import {
+  applyDocumentSplit,
+  getSplitSegments,
+  removeDocumentSplit,
+  segmentsFromSplitPoints,
+} from '../services/splitService.js';
+import { PageMapEntry } from '../services/textExtraction.js';
 
 const router = Router();
 
@@ -24,20 +50,48 @@ const upload = multer({
       'image/jpg',
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     ];
-    if (allowedMimes.includes(file.mimetype)) {
+    // Browsers often send .msg files without a type, so emails are also allowed by extension;
+    // XML and JSON are checked for C-CDA or FHIR content once received
+    if (
+      allowedMimes.includes(file.mimetype) ||
+      isEmailFile(file.originalname, file.mimetype) ||
+      isStructuredRecordFile(file.originalname, file.mimetype)
+    ) {
       cb(null, true);
     } else {
-      cb(new BadRequestError('Invalid file type. Allowed: PDF, PNG, JPG, DOCX'));
+      cb(new BadRequestError('Invalid file type. Allowed: PDF, PNG, JPG, DOCX, EML, MSG, C-CDA XML, FHIR JSON'));
     }
   },
 });
 
+// Bulk imports take archives and whole folders; unsupported files are reported, not rejected.
+// They are written to temp files as they arrive rather than held in memory.
+const MAX_IMPORT_REQUEST_SIZE = 1024 * 1024 * 1024; // 1GB per import
+const importUpload = multer({
+  storage: multer.diskStorage({}),
+  preservePath: true,
+  limits: {
+    fileSize: 500 * 1024 * 1024, // 500MB per archive
+    files: 5000,
+  },
+});
+
+// Rejects an oversized import from its Content-Length before any of it is received
+function limitImportSize(req: Request, _res: Response, next: NextFunction) {
+  if (Number(req.headers['content-length']) > MAX_IMPORT_REQUEST_SIZE) {
+    next(new PayloadTooLargeError('Imports are limited to 1GB; split the folder or archive into smaller batches'));
+    return;
+  }
+  next();
+}
+
 // Apply auth middleware to all routes
 router.use(requireAuth);
 
 // POST /api/cases/:caseId/documents - Upload documents
 router.post(
   '/:caseId',
+  requirePermission('document:upload'),
   upload.any(),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -52,7 +106,7 @@ router.post(
       const caseData = await prisma.case.findFirst({
         where: {
           id: caseId as string,
-          firmId: req.auth!.firm.id,
+          ...caseAccessWhere(req.auth!),
         },
       });
 
@@ -60,12 +114,49 @@ router.post(
         throw new NotFoundError('Case not found');
       }
 
+      const emailFiles = files.filter((file) => isEmailFile(file.originalname, file.mimetype));
+      const documentFiles = files.filter((file) => !emailFiles.includes(file));
+
+      // Emails are parsed and checked against the case before anything is stored,
+      // so a message filed earlier rejects the upload without leaving documents behind
+      const parsedEmails = emailFiles.map((file) => ({ file, email: parseEmailFile(file.buffer) }));
+      const messageFiles = new Map<string, string>();
+      for (const { file, email } of parsedEmails) {
+        if (!email.messageId) continue;
+        const duplicate = messageFiles.get(email.messageId);
+        if (duplicate) {
+          throw new BadRequestError(`${file.originalname} is the same email as ${duplicate}`);
+        }
+        messageFiles.set(email.messageId, file.originalname);
+      }
+      if (messageFiles.size > 0) {
+        const filed = await prisma.inboundEmail.findFirst({
+          where: { caseId: caseId as string, messageId: { in: [...messageFiles.keys()] } },
+          select: { messageId: true },
+        });
+        if (filed) {
+          throw new ConflictError(`${messageFiles.get(filed.messageId!)} is already filed on this case`);
+        }
+      }
+
+      // C-CDA and FHIR records are stored under their format's type so processing maps them directly
+      const mimeTypes = new Map<Express.Multer.File, string>();
+      for (const file of documentFiles) {
+        if (!isStructuredRecordFile(file.originalname, file.mimetype)) continue;
+        const format = detectStructuredRecord(file.buffer);
+        if (!format) {
+          throw new BadRequestError(`${file.originalname} is not a C-CDA document or FHIR resource`);
+        }
+        mimeTypes.set(file, STRUCTURED_RECORD_MIME_TYPES[format]);
+      }
+
       const documents = await Promise.all(
-        files.map(async (file) => {
+        documentFiles.map(async (file) => {
           const fileKey = `${req.auth!.firm.id}/${caseId}/${uuidv4()}-${file.originalname}`;
+          const mimeType = mimeTypes.get(file) ?? file.mimetype;
 
-          // Upload to S3
-          const fileUrl = await uploadToS3(file.buffer, fileKey, file.mimetype);
+          // Upload to storage
+          const fileUrl = await putFile(file.buffer, fileKey, mimeType);
 
           // Create document record
           const document = await prisma.document.create({
@@ -74,28 +165,53 @@ router.post(
               originalFilename: file.originalname,
               fileUrl,
               fileSize: file.size,
-              mimeType: file.mimetype,
+              contentHash: hashContent(file.buffer),
+              mimeType,
               category: 'OTHER', // Will be classified by AI
               caseId: caseId as string,
               processingStatus: 'PENDING',
             },
           });
 
-          // Trigger async processing
-          processDocument(document.id).catch((err) => {
-            logger.error(`Failed to process document ${document.id}:`, err);
+          // Queue durable background processing
+          await enqueueDocumentProcessing(document.id, {
+            firmId: req.auth!.firm.id,
+            caseId: caseId as string,
           });
 
           return document;
         })
       );
 
+      // An email is filed as its text plus one document per attachment
+      const emails: Array<{ id: string; filename: string; skipped: unknown[] }> = [];
+      for (const { file, email } of parsedEmails) {
+        const result = await ingestEmail({
+          caseId: caseId as string,
+          firmId: req.auth!.firm.id,
+          email,
+          source: 'UPLOAD',
+        });
+        // Filed by a concurrent upload or the email-in address since the check above
+        if (result.alreadyFiled) continue;
+        emails.push({ id: result.inboundEmail.id, filename: file.originalname, skipped: result.skipped });
+        documents.push(...result.documents);
+      }
+
       // Update case status
       await prisma.case.update({
         where: { id: caseId as string },
         data: { status: 'DOCUMENTS_UPLOADED' },
       });
 
+      setAuditDetails(res, {
+        action: 'document.upload',
+        metadata: {
+          documents: documents.map((doc) => ({ id: doc.id, filename: doc.originalFilename })),
+          ...(emails.length > 0 && { emails }),
+        },
+      });
+
       res.status(201).json({
         success: true,
         data: documents,
@@ -106,6 +222,208 @@ router.post(
   }
 );
 
+// POST /api/cases/:caseId/documents/import - Import ZIP archives and folders as one batch
+router.post(
+  '/:caseId/import',
+  requirePermission('document:upload'),
+  limitImportSize,
+  importUpload.any(),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const uploads = (req.files as Express.Multer.File[] | undefined) ?? [];
+    try {
+      const { caseId } = req.params;
+
+      if (uploads.length === 0) {
+        throw new BadRequestError('No files uploaded');
+      }
+      // Chunked requests carry no Content-Length to check up front
+      if (uploads.reduce((total, file) => total + file.size, 0) > MAX_IMPORT_REQUEST_SIZE) {
+        throw new PayloadTooLargeError('Imports are limited to 1GB; split the folder or archive into smaller batches');
+      }
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      // Uploads are read from their temp files one at a time and each document
+      // is stored as soon as it is extracted, so its bytes can be released
+      const report: ImportReport = { skipped: [], archives: [] };
+      const stored: Array<{
+        path: string;
+        filename: string;
+        mimeType: string;
+        size: number;
+        contentHash: string;
+        fileKey: string;
+        fileUrl: string;
+      }> = [];
+      try {
+        const sources = uploads.map((file) => ({ path: file.originalname, read: () => readFile(file.path) }));
+        for await (const file of streamImport(sources, report)) {
+          const fileKey = `${req.auth!.firm.id}/${caseId}/${uuidv4()}-${file.filename}`;
+          const fileUrl = await putFile(file.buffer, fileKey, file.mimeType);
+          stored.push({
+            path: file.path,
+            filename: file.filename,
+            mimeType: file.mimeType,
+            size: file.buffer.length,
+            contentHash: hashContent(file.buffer),
+            fileKey,
+            fileUrl,
+          });
+        }
+      } catch (error) {
+        await Promise.all(stored.map(({ fileKey }) => deleteFile(fileKey).catch(() => undefined)));
+        throw error;
+      }
+      const { skipped, archives } = report;
+
+      let documents;
+      try {
+        documents = await prisma.$transaction(
+          stored.map((file) =>
+            prisma.document.create({
+              data: {
+                filename: file.fileKey,
+                originalFilename: file.filename,
+                fileUrl: file.fileUrl,
+                fileSize: file.size,
+                contentHash: file.contentHash,
+                mimeType: file.mimeType,
+                // Folder hint until the document is classified
+                category: folderHints(file.path).category ?? 'OTHER',
+                sourcePath: file.path,
+                caseId: caseId as string,
+                processingStatus: 'PENDING',
+              },
+            })
+          )
+        );
+      } catch (error) {
+        await Promise.all(stored.map(({ fileKey }) => deleteFile(fileKey).catch(() => undefined)));
+        throw error;
+      }
+
+      for (const document of documents) {
+        await enqueueDocumentProcessing(document.id, {
+          firmId: req.auth!.firm.id,
+          caseId: caseId as string,
+        });
+      }
+
+      if (documents.length > 0) {
+        await prisma.case.update({
+          where: { id: caseId as string },
+          data: { status: 'DOCUMENTS_UPLOADED' },
+        });
+      }
+
+      setAuditDetails(res, {
+        action: 'document.import',
+        metadata: {
+          archives,
+          documents: documents.map((doc) => ({ id: doc.id, filename: doc.originalFilename, path: doc.sourcePath })),
+          skipped,
+        },
+      });
+
+      res.status(documents.length > 0 ? 201 : 200).json({
+        success: true,
+        data: { documents, skipped, archives },
+      });
+    } catch (error) {
+      next(error);
+    } finally {
+      await Promise.all(uploads.map((file) => unlink(file.path).catch(() => undefined)));
+    }
+  }
+);
+
+// GET /api/cases/:caseId/documents/inbound-email - Case email-in address and recently received emails
+router.get(
+  '/:caseId/inbound-email',
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId } = req.params;
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      const [address, emails] = await Promise.all([
+        ensureInboundEmailAddress(caseId as string),
+        prisma.inboundEmail.findMany({
+          where: { caseId: caseId as string },
+          orderBy: { createdAt: 'desc' },
+          take: 20,
+          include: { _count: { select: { documents: true } } },
+        }),
+      ]);
+
+      res.json({
+        success: true,
+        data: { address, emails },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/cases/:caseId/documents/inbound-email/reset - Replace the case's email-in address
+router.post(
+  '/:caseId/inbound-email/reset',
+  requirePermission('case:edit'),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId } = req.params;
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      const address = await resetInboundEmailAddress(caseId as string);
+
+      setAuditDetails(res, {
+        action: 'case.inbound_address_reset',
+        resourceType: 'case',
+        resourceId: caseId as string,
+      });
+
+      res.json({
+        success: true,
+        data: { address },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // GET /api/cases/:caseId/documents - List case documents
 router.get(
   '/:caseId',
@@ -117,7 +435,7 @@ router.get(
       const caseData = await prisma.case.findFirst({
         where: {
           id: caseId as string,
-          firmId: req.auth!.firm.id,
+          ...caseAccessWhere(req.auth!),
         },
       });
 
@@ -127,6 +445,11 @@ router.get(
 
       const documents = await prisma.document.findMany({
         where: { caseId: caseId as string },
+        include: {
+          duplicateOf: { select: { id: true, originalFilename: true } },
+          parentDocument: { select: { id: true, originalFilename: true } },
+          inboundEmail: { select: { id: true, subject: true, from: true, sentAt: true } },
+        },
         orderBy: { createdAt: 'desc' },
       });
 
@@ -151,7 +474,7 @@ router.get(
       const caseData = await prisma.case.findFirst({
         where: {
           id: caseId as string,
-          firmId: req.auth!.firm.id,
+          ...caseAccessWhere(req.auth!),
         },
       });
 
@@ -173,6 +496,11 @@ router.get(
       // Generate signed URL for download
       const downloadUrl = await getSignedUrl(document.filename);
 
+      setAuditDetails(res, {
+        action: 'document.signed_url',
+        metadata: { filename: document.originalFilename },
+      });
+
       res.json({
         success: true,
         data: {
@@ -189,6 +517,7 @@ router.get(
 // DELETE /api/cases/:caseId/documents/:docId - Delete document
 router.delete(
   '/:caseId/:docId',
+  requirePermission('document:delete'),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const { caseId, docId } = req.params;
@@ -197,7 +526,7 @@ router.delete(
       const caseData = await prisma.case.findFirst({
         where: {
           id: caseId as string,
-          firmId: req.auth!.firm.id,
+          ...caseAccessWhere(req.auth!),
         },
       });
 
@@ -216,14 +545,37 @@ router.delete(
         throw new NotFoundError('Document not found');
       }
 
-      // Delete from S3
-      await deleteFromS3(document.filename);
+      // A part shares its parent's file; it's removed by changing the split
+      if (document.parentDocumentId) {
+        throw new ConflictError('This document is part of a combined file; adjust the split instead');
+      }
+
+      // Copies held against this document or its parts become documents in their own right
+      const parts = await prisma.document.findMany({
+        where: { parentDocumentId: document.id },
+        select: { id: true },
+      });
+      const releasedCopies: string[] = [];
+      for (const id of [document.id, ...parts.map((part) => part.id)]) {
+        releasedCopies.push(...(await releaseDuplicates(id)));
+      }
+
+      // Delete from storage
+      await deleteFile(document.filename);
 
       // Delete from database
       await prisma.document.delete({
         where: { id: docId as string },
       });
 
+      await Promise.all(
+        releasedCopies.map((copyId) =>
+          enqueueDocumentProcessing(copyId, { firmId: req.auth!.firm.id, caseId: caseId as string })
+        )
+      );
+
+      setAuditDetails(res, { metadata: { filename: document.originalFilename } });
+
       res.json({
         success: true,
         message: 'Document deleted successfully',
@@ -234,9 +586,179 @@ router.delete(
   }
 );
 
+const duplicateDecisionSchema = z.object({
+  action: z.enum(['merge', 'ignore']),
+});
+
+// POST /api/cases/:caseId/documents/:docId/duplicate - Merge a possible duplicate into its original, or keep it as distinct
+router.post(
+  '/:caseId/:docId/duplicate',
+  requirePermission('document:reprocess'),
+  validateBody(duplicateDecisionSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId, docId } = req.params;
+      const { action } = req.body as { action: 'merge' | 'ignore' };
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      const document = await prisma.document.findFirst({
+        where: {
+          id: docId as string,
+          caseId: caseId as string,
+        },
+        include: { duplicateOf: { select: { id: true, originalFilename: true } } },
+      });
+
+      if (!document) {
+        throw new NotFoundError('Document not found');
+      }
+
+      if (document.duplicateStatus !== 'POSSIBLE' || !document.duplicateOf) {
+        throw new ConflictError('Document is not awaiting a duplicate decision');
+      }
+
+      const updated = await prisma.document.update({
+        where: { id: document.id },
+        data: { duplicateStatus: action === 'merge' ? 'MERGED' : 'IGNORED' },
+      });
+
+      // An identical copy has nothing the original lacks; anything else is
+      // processed so its own events (or, when merged, just the new ones) are kept
+      if (action === 'ignore' || (document.duplicateScore ?? 0) < 1) {
+        await enqueueDocumentProcessing(document.id, {
+          firmId: req.auth!.firm.id,
+          caseId: caseId as string,
+        });
+      }
+
+      setAuditDetails(res, {
+        action: action === 'merge' ? 'document.duplicate_merged' : 'document.duplicate_ignored',
+        metadata: {
+          filename: document.originalFilename,
+          originalId: document.duplicateOf.id,
+          originalFilename: document.duplicateOf.originalFilename,
+          score: document.duplicateScore,
+        },
+      });
+
+      res.json({
+        success: true,
+        data: updated,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const splitSchema = z.object({
+  splitPoints: z.array(z.number().int().min(2)).max(500),
+});
+
+// PUT /api/cases/:caseId/documents/:docId/split - Set where a combined PDF divides into separate documents
+router.put(
+  '/:caseId/:docId/split',
+  requirePermission('document:reprocess'),
+  requireUsageQuota(),
+  validateBody(splitSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId, docId } = req.params;
+      const { splitPoints } = req.body as z.infer<typeof splitSchema>;
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      const document = await prisma.document.findFirst({
+        where: {
+          id: docId as string,
+          caseId: caseId as string,
+        },
+      });
+
+      if (!document) {
+        throw new NotFoundError('Document not found');
+      }
+
+      if (document.parentDocumentId) {
+        throw new ConflictError('Adjust the split on the combined file this document was cut from');
+      }
+
+      const pageMap = document.pageMap as unknown as PageMapEntry[] | null;
+      if (document.mimeType !== 'application/pdf' || document.processingStatus !== 'COMPLETED' || !pageMap || pageMap.length < 2) {
+        throw new ConflictError('Only processed PDFs with more than one page can be split');
+      }
+
+      const firstPage = pageMap[0].page;
+      const lastPage = pageMap[pageMap.length - 1].page;
+      if (splitPoints.some((page) => page <= firstPage || page > lastPage)) {
+        throw new BadRequestError(`Split points must be between pages ${firstPage + 1} and ${lastPage}`);
+      }
+
+      const segments = segmentsFromSplitPoints(splitPoints, firstPage, lastPage, await getSplitSegments(document.id));
+
+      let toProcess: string[];
+      if (segments.length > 1) {
+        toProcess = await applyDocumentSplit(document.id, segments);
+      } else {
+        // No split points: the file is one document again
+        toProcess = [...(await removeDocumentSplit(document.id)), document.id];
+      }
+
+      const updated = await prisma.document.update({
+        where: { id: document.id },
+        data: { splitEditedAt: new Date() },
+      });
+
+      await Promise.all(
+        toProcess.map((id) =>
+          enqueueDocumentProcessing(id, { firmId: req.auth!.firm.id, caseId: caseId as string })
+        )
+      );
+
+      setAuditDetails(res, {
+        action: 'document.split_edited',
+        metadata: {
+          filename: document.originalFilename,
+          parts: segments.map((segment) => ({ pageStart: segment.pageStart, pageEnd: segment.pageEnd })),
+        },
+      });
+
+      res.json({
+        success: true,
+        data: updated,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // POST /api/cases/:caseId/documents/process - Trigger reprocessing of all documents
 router.post(
   '/:caseId/process',
+  requirePermission('document:reprocess'),
+  requireUsageQuota(),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const { caseId } = req.params;
@@ -245,7 +767,7 @@ router.post(
       const caseData = await prisma.case.findFirst({
         where: {
           id: caseId as string,
-          firmId: req.auth!.firm.id,
+          ...caseAccessWhere(req.auth!),
         },
       });
 
@@ -267,16 +789,20 @@ router.post(
         data: { status: 'PROCESSING' },
       });
 
-      // Trigger processing for each document
-      documents.forEach((doc) => {
-        processDocument(doc.id).catch((err) => {
-          logger.error(`Failed to process document ${doc.id}:`, err);
-        });
-      });
+      // Queue processing for each document
+      const jobs = await Promise.all(
+        documents.map((doc) =>
+          enqueueDocumentProcessing(doc.id, {
+            firmId: req.auth!.firm.id,
+            caseId: caseId as string,
+          })
+        )
+      );
 
       res.json({
         success: true,
-        message: `Processing triggered for ${documents.length} documents`,
+        data: jobs,
+        message: `Processing queued for ${documents.length} documents`,
       });
     } catch (error) {
       next(error);
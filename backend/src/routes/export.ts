@@ -1,17 +1,34 @@
 import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { Prisma } from '@prisma/client';
 import prisma from '../db/client.js';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
-import { NotFoundError } from '../utils/errors.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validation.js';
+import { NotFoundError, BadRequestError } from '../utils/errors.js';
 import { generateDocx, generatePdf } from '../services/exportService.js';
+import { putFile, getFileStream, pipeToResponse } from '../services/storage.js';
+import { buildExhibitPacket, applyExhibitIndex, ExhibitEntry } from '../services/exhibitPacketService.js';
+import { setAuditDetails } from '../middleware/audit.js';
+import { caseAccessWhere } from '../services/caseAccessService.js';
 
 const router = Router();
 
 // Apply auth middleware to all routes
 router.use(requireAuth);
 
+// Validation schemas
+const exhibitPacketSchema = z.object({
+  documentIds: z.array(z.string()).min(1),
+  batesPrefix: z.string().max(20).regex(/^[A-Za-z0-9_-]*$/).optional(),
+  batesStartNumber: z.number().int().min(1).optional(),
+  generatedDocumentId: z.string().optional(),
+});
+
 // GET /api/export/:caseId/:genId/docx - Export to Word
 router.get(
   '/:caseId/:genId/docx',
+  requirePermission('export'),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const { caseId, genId } = req.params;
@@ -20,7 +37,7 @@ router.get(
       const caseData = await prisma.case.findFirst({
         where: {
           id: caseId as string,
-          firmId: req.auth!.firm.id,
+          ...caseAccessWhere(req.auth!),
         },
         include: {
           firm: true,
@@ -46,6 +63,12 @@ router.get(
 
       const filename = `${caseData.clientLastName}_${caseData.clientFirstName}_${document.documentType}_v${document.version}.docx`;
 
+      setAuditDetails(res, {
+        action: 'export.docx',
+        resourceType: 'generated_document',
+        metadata: { documentType: document.documentType, version: document.version },
+      });
+
       res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
       res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
       res.send(docxBuffer);
@@ -58,6 +81,7 @@ router.get(
 // GET /api/export/:caseId/:genId/pdf - Export to PDF
 router.get(
   '/:caseId/:genId/pdf',
+  requirePermission('export'),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const { caseId, genId } = req.params;
@@ -66,7 +90,7 @@ router.get(
       const caseData = await prisma.case.findFirst({
         where: {
           id: caseId as string,
-          firmId: req.auth!.firm.id,
+          ...caseAccessWhere(req.auth!),
         },
         include: {
           firm: true,
@@ -88,10 +112,18 @@ router.get(
         throw new NotFoundError('Generated document not found');
       }
 
-      const pdfBuffer = await generatePdf(document.content, caseData.firm);
+      const pdfBuffer = await generatePdf(document.content, caseData.firm, {
+        title: `${caseData.clientFirstName} ${caseData.clientLastName} - ${document.documentType.replace(/_/g, ' ')}`,
+      });
 
       const filename = `${caseData.clientLastName}_${caseData.clientFirstName}_${document.documentType}_v${document.version}.pdf`;
 
+      setAuditDetails(res, {
+        action: 'export.pdf',
+        resourceType: 'generated_document',
+        metadata: { documentType: document.documentType, version: document.version },
+      });
+
       res.setHeader('Content-Type', 'application/pdf');
       res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
       res.send(pdfBuffer);
@@ -101,4 +133,226 @@ router.get(
   }
 );
 
+// GET /api/export/:caseId/exhibit-packets - List exhibit packets for a case
+router.get(
+  '/:caseId/exhibit-packets',
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId } = req.params;
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      const packets = await prisma.exhibitPacket.findMany({
+        where: { caseId: caseId as string },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          createdBy: {
+            select: { id: true, name: true },
+          },
+        },
+      });
+
+      res.json({
+        success: true,
+        data: packets,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/export/:caseId/exhibit-packets - Build a Bates-stamped exhibit packet
+router.post(
+  '/:caseId/exhibit-packets',
+  requirePermission('export'),
+  validateBody(exhibitPacketSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId } = req.params;
+      const { documentIds, batesPrefix, batesStartNumber, generatedDocumentId } = req.body as z.infer<
+        typeof exhibitPacketSchema
+      >;
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+        include: {
+          firm: true,
+        },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      if (new Set(documentIds).size !== documentIds.length) {
+        throw new BadRequestError('Each document can only appear once in a packet');
+      }
+
+      const documents = await prisma.document.findMany({
+        where: {
+          id: { in: documentIds },
+          caseId: caseId as string,
+        },
+      });
+
+      if (documents.length !== documentIds.length) {
+        throw new NotFoundError('One or more documents not found');
+      }
+
+      const letter = generatedDocumentId
+        ? await prisma.generatedDocument.findFirst({
+            where: { id: generatedDocumentId, caseId: caseId as string },
+          })
+        : null;
+
+      if (generatedDocumentId && !letter) {
+        throw new NotFoundError('Generated document not found');
+      }
+
+      // Keep the exhibits in the order the user selected them
+      const ordered = documentIds.map((id) => documents.find((doc) => doc.id === id)!);
+      const bates = {
+        prefix: batesPrefix ?? caseData.firm.batesPrefix,
+        startNumber: batesStartNumber ?? caseData.firm.batesStartNumber,
+        digits: caseData.firm.batesDigits,
+      };
+
+      const result = await buildExhibitPacket(ordered, bates, {
+        clientName: `${caseData.clientFirstName} ${caseData.clientLastName}`,
+        defendantName: caseData.defendantName,
+        claimNumber: caseData.claimNumber,
+      });
+
+      const fileKey = `${req.auth!.firm.id}/${caseId}/exhibits/${uuidv4()}.pdf`;
+      await putFile(result.buffer, fileKey, 'application/pdf');
+
+      const packet = await prisma.exhibitPacket.create({
+        data: {
+          caseId: caseId as string,
+          createdById: req.auth!.user.id,
+          fileKey,
+          fileSize: result.buffer.length,
+          pageCount: result.pageCount,
+          batesPrefix: bates.prefix,
+          batesStart: result.batesStart,
+          batesEnd: result.batesEnd,
+          batesDigits: bates.digits,
+          exhibits: result.exhibits as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      // Cross-reference the Bates ranges in the letter as a new version
+      let generatedDocument = null;
+      if (letter) {
+        const latest = await prisma.generatedDocument.findFirst({
+          where: { caseId: caseId as string, documentType: letter.documentType },
+          orderBy: { version: 'desc' },
+        });
+
+        generatedDocument = await prisma.generatedDocument.create({
+          data: {
+            caseId: caseId as string,
+            documentType: letter.documentType,
+            version: (latest?.version || 0) + 1,
+            tone: letter.tone,
+            parameters: {
+              ...((letter.parameters as Record<string, unknown>) || {}),
+              exhibitPacketId: packet.id,
+            } as Prisma.InputJsonValue,
+            content: applyExhibitIndex(letter.content, result.exhibits),
+            warnings: (letter.warnings ?? undefined) as Prisma.InputJsonValue | undefined,
+            source: 'USER',
+            editNote: 'Added exhibit index',
+            parentId: letter.id,
+            createdById: req.auth!.user.id,
+          },
+        });
+      }
+
+      setAuditDetails(res, {
+        action: 'exhibit_packet.create',
+        resourceType: 'exhibit_packet',
+        resourceId: packet.id,
+        metadata: { documentIds, generatedDocumentId: generatedDocument?.id ?? null },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          packet,
+          generatedDocument,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/export/:caseId/exhibit-packets/:packetId/pdf - Download an exhibit packet
+router.get(
+  '/:caseId/exhibit-packets/:packetId/pdf',
+  requirePermission('export'),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId, packetId } = req.params;
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      const packet = await prisma.exhibitPacket.findFirst({
+        where: {
+          id: packetId as string,
+          caseId: caseId as string,
+        },
+      });
+
+      if (!packet) {
+        throw new NotFoundError('Exhibit packet not found');
+      }
+
+      const pdf = await getFileStream(packet.fileKey);
+      const exhibits = packet.exhibits as unknown as ExhibitEntry[];
+      const range = exhibits.length > 0 ? `_${exhibits[0].batesRange.split('–')[0]}` : '';
+      const filename = `${caseData.clientLastName}_${caseData.clientFirstName}_Exhibits${range}.pdf`;
+
+      setAuditDetails(res, {
+        action: 'export.exhibit_packet',
+        resourceType: 'exhibit_packet',
+        metadata: { exhibitCount: exhibits.length },
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      await pipeToResponse(pdf, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
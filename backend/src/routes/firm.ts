@@ -2,9 +2,18 @@ import { Router, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import multer from 'multer';
 import prisma from '../db/client.js';
-import { requireAuth, requireRole, AuthenticatedRequest } from '../middleware/auth.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
 import { validateBody } from '../middleware/validation.js';
-import { uploadToS3 } from '../services/storage.js';
+import { putFile } from '../services/storage.js';
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSION_LABELS,
+  PERMISSIONS,
+  isLockedPermission,
+  normalizeOverrides,
+  resolvePermissionMatrix,
+} from '../services/permissionService.js';
+import { diffChanges, recordAuditEvent } from '../services/auditService.js';
 
 const router = Router();
 
@@ -33,8 +42,32 @@ const updateFirmSchema = z.object({
   primaryColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
   letterheadHtml: z.string().optional(),
   settings: z.record(z.unknown()).optional(),
+  batesPrefix: z.string().max(20).regex(/^[A-Za-z0-9_-]*$/).optional(),
+  batesStartNumber: z.number().int().min(1).optional(),
+  batesDigits: z.number().int().min(3).max(10).optional(),
 });
 
+const rolePermissionsSchema = z.object({
+  overrides: z.record(
+    z.enum(['ADMIN', 'ATTORNEY', 'PARALEGAL', 'VIEWER']),
+    z.record(z.enum(PERMISSIONS), z.boolean())
+  ),
+});
+
+function permissionMatrix(overrides: unknown) {
+  const roles = Object.keys(DEFAULT_ROLE_PERMISSIONS) as (keyof typeof DEFAULT_ROLE_PERMISSIONS)[];
+  return {
+    permissions: PERMISSIONS.map((key) => ({
+      key,
+      label: PERMISSION_LABELS[key],
+      locked: roles.filter((role) => isLockedPermission(role, key)),
+    })),
+    defaults: DEFAULT_ROLE_PERMISSIONS,
+    overrides: normalizeOverrides(overrides),
+    effective: resolvePermissionMatrix(overrides),
+  };
+}
+
 // GET /api/firm - Get firm details
 router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
@@ -59,10 +92,113 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
   }
 });
 
-// PUT /api/firm - Update firm settings (admin only)
+// GET /api/firm/me - Current user, role and effective permissions
+router.get('/me', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        user: req.auth!.user,
+        firm: req.auth!.firm,
+        permissions: req.auth!.permissions,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/firm/members - Active firm member directory for assigning case teams
+router.get('/members', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const members = await prisma.user.findMany({
+      where: { firmId: req.auth!.firm.id, deactivatedAt: null },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: members,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/firm/permissions - Role permission matrix with the firm's overrides
+router.get('/permissions', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const firm = await prisma.firm.findUniqueOrThrow({
+      where: { id: req.auth!.firm.id },
+      select: { rolePermissions: true },
+    });
+
+    res.json({
+      success: true,
+      data: permissionMatrix(firm.rolePermissions),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/firm/permissions - Replace the firm's role permission overrides (requires firm:manage)
+router.put(
+  '/permissions',
+  requirePermission('firm:manage'),
+  validateBody(rolePermissionsSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      // Stored minimal: locked permissions and values matching the defaults are dropped
+      const overrides = normalizeOverrides(req.body.overrides);
+
+      const previous = await prisma.firm.findUniqueOrThrow({
+        where: { id: req.auth!.firm.id },
+        select: { rolePermissions: true },
+      });
+
+      await prisma.firm.update({
+        where: { id: req.auth!.firm.id },
+        data: { rolePermissions: overrides },
+      });
+
+      await recordAuditEvent({
+        firmId: req.auth!.firm.id,
+        actor: { id: req.auth!.user.id, email: req.auth!.user.email, name: req.auth!.user.name },
+        action: 'firm.permissions.update',
+        resourceType: 'firm',
+        resourceId: req.auth!.firm.id,
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        statusCode: 200,
+        changes: diffChanges(
+          resolvePermissionMatrix(previous.rolePermissions),
+          resolvePermissionMatrix(overrides)
+        ),
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null,
+      });
+
+      res.json({
+        success: true,
+        data: permissionMatrix(overrides),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/firm - Update firm settings (requires firm:manage)
 router.put(
   '/',
-  requireRole('ADMIN'),
+  requirePermission('firm:manage'),
   validateBody(updateFirmSchema),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -81,10 +217,10 @@ router.put(
   }
 );
 
-// POST /api/firm/logo - Upload firm logo (admin only)
+// POST /api/firm/logo - Upload firm logo (requires firm:manage)
 router.post(
   '/logo',
-  requireRole('ADMIN'),
+  requirePermission('firm:manage'),
   upload.single('logo'),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -97,7 +233,7 @@ router.post(
       }
 
       const fileKey = `firms/${req.auth!.firm.id}/logo-${Date.now()}.${file.mimetype.split('/')[1]}`;
-      const logoUrl = await uploadToS3(file.buffer, fileKey, file.mimetype);
+      const logoUrl = await putFile(file.buffer, fileKey, file.mimetype);
 
       const updatedFirm = await prisma.firm.update({
         where: { id: req.auth!.firm.id },
@@ -114,37 +250,4 @@ router.post(
   }
 );
 
-// GET /api/firm/users - List firm users (admin only)
-router.get(
-  '/users',
-  requireRole('ADMIN'),
-  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    try {
-      const users = await prisma.user.findMany({
-        where: { firmId: req.auth!.firm.id },
-        select: {
-          id: true,
-          email: true,
-          name: true,
-          role: true,
-          createdAt: true,
-          _count: {
-            select: {
-              cases: true,
-            },
-          },
-        },
-        orderBy: { createdAt: 'desc' },
-      });
-
-      res.json({
-        success: true,
-        data: users,
-      });
-    } catch (error) {
-      next(error);
-    }
-  }
-);
-
 export default router;
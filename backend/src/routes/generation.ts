@@ -1,10 +1,16 @@
 import { Router, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import prisma from '../db/client.js';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { requireUsageQuota } from '../middleware/usage.js';
 import { validateBody } from '../middleware/validation.js';
 import { NotFoundError, BadRequestError } from '../utils/errors.js';
-import { generateDemandLetter, generateDocument } from '../services/generationService.js';
+import { enqueueJob, JOB_TYPES } from '../services/jobQueue.js';
+import { saveEditedVersion } from '../services/generationService.js';
+import { getVersionRedline } from '../services/redlineService.js';
+import { LETTER_SECTIONS, parseLetterSections } from '../services/letterSectionService.js';
+import { setAuditDetails } from '../middleware/audit.js';
+import { caseAccessWhere } from '../services/caseAccessService.js';
 import { logger } from '../utils/logger.js';
 
 const router = Router();
@@ -20,14 +26,27 @@ const generateSchema = z.object({
     'GAP_ANALYSIS',
     'TREATMENT_TIMELINE',
     'DAMAGES_WORKSHEET',
+    'GOVERNMENT_CLAIM',
   ]),
   tone: z.enum(['cooperative', 'moderate', 'aggressive', 'litigation-ready']).default('moderate'),
   parameters: z.record(z.unknown()).optional(),
 });
 
-// POST /api/cases/:caseId/generate - Generate document
+const regenerateSectionSchema = z.object({
+  instructions: z.string().max(2000).optional(),
+  tone: z.string().min(1).max(50).optional(),
+});
+
+const editSchema = z.object({
+  content: z.string().min(1, 'Content is required'),
+  editNote: z.string().max(500).optional(),
+});
+
+// POST /api/cases/:caseId/generate - Queue document generation
 router.post(
   '/:caseId',
+  requirePermission('letter:generate'),
+  requireUsageQuota(),
   validateBody(generateSchema),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -38,7 +57,7 @@ router.post(
       const caseData = await prisma.case.findFirst({
         where: {
           id: caseId as string,
-          firmId: req.auth!.firm.id,
+          ...caseAccessWhere(req.auth!),
         },
         include: {
           documents: {
@@ -55,51 +74,36 @@ router.post(
         throw new BadRequestError('No processed documents available. Please upload and process documents first.');
       }
 
-      // Get latest version number
-      const latestDoc = await prisma.generatedDocument.findFirst({
-        where: { caseId: caseId as string, documentType },
-        orderBy: { version: 'desc' },
-      });
-
-      const version = (latestDoc?.version || 0) + 1;
-
-      logger.info(`Generating ${documentType} for case ${caseId}, version ${version}`);
-
-      // Generate the document - cast caseData to any to satisfy service type
-      let result;
-      if (documentType === 'DEMAND_LETTER') {
-        result = await generateDemandLetter(caseData as any, tone);
-      } else {
-        result = await generateDocument(caseData as any, documentType, tone);
+      if (documentType === 'GOVERNMENT_CLAIM' && caseData.defendantType === 'PRIVATE') {
+        throw new BadRequestError('Government claims can only be generated when the defendant is a public entity.');
       }
 
-      // Save to database
-      const generatedDoc = await prisma.generatedDocument.create({
-        data: {
+      logger.info(`Queueing ${documentType} generation for case ${caseId}`);
+
+      const job = await enqueueJob(
+        JOB_TYPES.GENERATE_DOCUMENT,
+        {
+          caseId,
+          userId: req.auth!.user.id,
           documentType,
-          version,
           tone,
           parameters,
-          content: result.content,
-          contentHtml: result.contentHtml,
-          warnings: result.warnings,
-          caseId: caseId as string,
-          createdById: req.auth!.user.id,
         },
-      });
+        {
+          firmId: req.auth!.firm.id,
+          caseId: caseId as string,
+          maxAttempts: 3,
+        }
+      );
 
-      // Update case status
-      await prisma.case.update({
-        where: { id: caseId as string },
-        data: {
-          status: 'DRAFT_READY',
-          attorneyWarnings: result.warnings,
-        },
+      setAuditDetails(res, {
+        action: 'generated_document.generate',
+        metadata: { documentType, tone, jobId: job.id },
       });
 
-      res.status(201).json({
+      res.status(202).json({
         success: true,
-        data: generatedDoc,
+        data: job,
       });
     } catch (error) {
       next(error);
@@ -118,7 +122,7 @@ router.get(
       const caseData = await prisma.case.findFirst({
         where: {
           id: caseId as string,
-          firmId: req.auth!.firm.id,
+          ...caseAccessWhere(req.auth!),
         },
       });
 
@@ -136,6 +140,12 @@ router.get(
               name: true,
             },
           },
+          finalizedBy: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
         },
       });
 
@@ -160,7 +170,7 @@ router.get(
       const caseData = await prisma.case.findFirst({
         where: {
           id: caseId as string,
-          firmId: req.auth!.firm.id,
+          ...caseAccessWhere(req.auth!),
         },
       });
 
@@ -180,6 +190,12 @@ router.get(
               name: true,
             },
           },
+          finalizedBy: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
         },
       });
 
@@ -197,9 +213,11 @@ router.get(
   }
 );
 
-// POST /api/cases/:caseId/generated/:genId/regenerate - Regenerate document
+// POST /api/cases/:caseId/generated/:genId/regenerate - Queue regeneration as a new version
 router.post(
   '/:caseId/generated/:genId/regenerate',
+  requirePermission('letter:generate'),
+  requireUsageQuota(),
   validateBody(generateSchema.partial()),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -218,16 +236,187 @@ router.post(
         throw new NotFoundError('Generated document not found');
       }
 
-      // Get case with documents
+      // Verify case belongs to firm
       const caseData = await prisma.case.findFirst({
         where: {
           id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      const job = await enqueueJob(
+        JOB_TYPES.GENERATE_DOCUMENT,
+        {
+          caseId,
+          userId: req.auth!.user.id,
+          documentType: existingDoc.documentType,
+          tone: tone || existingDoc.tone,
+          parameters: parameters || existingDoc.parameters,
+        },
+        {
           firmId: req.auth!.firm.id,
+          caseId: caseId as string,
+          maxAttempts: 3,
+        }
+      );
+
+      setAuditDetails(res, {
+        action: 'generated_document.regenerate',
+        metadata: { documentType: existingDoc.documentType, jobId: job.id },
+      });
+
+      res.status(202).json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/generate/:caseId/generated/:genId/edits - Save an edited draft as a new version
+router.post(
+  '/:caseId/generated/:genId/edits',
+  requirePermission('letter:edit'),
+  validateBody(editSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId, genId } = req.params;
+      const { content, editNote } = req.body;
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
         },
-        include: {
-          documents: {
-            where: { processingStatus: 'COMPLETED' },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      const parent = await prisma.generatedDocument.findFirst({
+        where: {
+          id: genId as string,
+          caseId: caseId as string,
+        },
+      });
+
+      if (!parent) {
+        throw new NotFoundError('Generated document not found');
+      }
+
+      if (content.trim() === parent.content.trim()) {
+        throw new BadRequestError('No changes to save');
+      }
+
+      const document = await saveEditedVersion({
+        parent,
+        userId: req.auth!.user.id,
+        content,
+        editNote,
+      });
+
+      setAuditDetails(res, {
+        action: 'generated_document.edit',
+        resourceId: document.id,
+        metadata: { parentId: parent.id, editNote },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: document,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/generate/:caseId/generated/:genId/finalize - Mark a version as the one to send
+router.post(
+  '/:caseId/generated/:genId/finalize',
+  requirePermission('letter:finalize'),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId, genId } = req.params;
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      const document = await prisma.generatedDocument.findFirst({
+        where: {
+          id: genId as string,
+          caseId: caseId as string,
+        },
+      });
+
+      if (!document) {
+        throw new NotFoundError('Generated document not found');
+      }
+
+      // Only one final version per document type
+      const [, finalized] = await prisma.$transaction([
+        prisma.generatedDocument.updateMany({
+          where: {
+            caseId: caseId as string,
+            documentType: document.documentType,
+            finalizedAt: { not: null },
           },
+          data: { finalizedAt: null, finalizedById: null },
+        }),
+        prisma.generatedDocument.update({
+          where: { id: document.id },
+          data: { finalizedAt: new Date(), finalizedById: req.auth!.user.id },
+          include: {
+            createdBy: { select: { id: true, name: true } },
+            finalizedBy: { select: { id: true, name: true } },
+          },
+        }),
+      ]);
+
+      setAuditDetails(res, {
+        action: 'generated_document.finalize',
+        metadata: { documentType: document.documentType, version: document.version },
+      });
+
+      res.json({
+        success: true,
+        data: finalized,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/generate/:caseId/generated/:genId/diff?base=:baseId - Redline between two versions
+router.get(
+  '/:caseId/generated/:genId/diff',
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId, genId } = req.params;
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
         },
       });
 
@@ -235,35 +424,169 @@ router.post(
         throw new NotFoundError('Case not found');
       }
 
-      const newTone = tone || existingDoc.tone;
-      const documentType = existingDoc.documentType;
+      let baseId = typeof req.query.base === 'string' ? req.query.base : undefined;
+
+      // Default to the version this one was edited from, or the previous version
+      if (!baseId) {
+        const target = await prisma.generatedDocument.findFirst({
+          where: { id: genId as string, caseId: caseId as string },
+        });
+
+        if (!target) {
+          throw new NotFoundError('Generated document not found');
+        }
+
+        const previous = target.parentId
+          ? { id: target.parentId }
+          : await prisma.generatedDocument.findFirst({
+              where: {
+                caseId: caseId as string,
+                documentType: target.documentType,
+                version: { lt: target.version },
+              },
+              orderBy: { version: 'desc' },
+              select: { id: true },
+            });
+
+        if (!previous) {
+          throw new BadRequestError('No earlier version to compare against');
+        }
+
+        baseId = previous.id;
+      }
+
+      const redline = await getVersionRedline(caseId as string, baseId, genId as string);
+
+      res.json({
+        success: true,
+        data: redline,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/generate/:caseId/generated/:genId/sections - List the letter's regenerable sections
+router.get(
+  '/:caseId/generated/:genId/sections',
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId, genId } = req.params;
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+      });
 
-      // Generate new version - cast caseData to any to satisfy service type
-      let result;
-      if (documentType === 'DEMAND_LETTER') {
-        result = await generateDemandLetter(caseData as any, newTone);
-      } else {
-        result = await generateDocument(caseData as any, documentType, newTone);
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
       }
 
-      // Save new version
-      const generatedDoc = await prisma.generatedDocument.create({
-        data: {
-          documentType,
-          version: existingDoc.version + 1,
-          tone: newTone,
-          parameters: parameters || existingDoc.parameters,
-          content: result.content,
-          contentHtml: result.contentHtml,
-          warnings: result.warnings,
+      const document = await prisma.generatedDocument.findFirst({
+        where: {
+          id: genId as string,
           caseId: caseId as string,
-          createdById: req.auth!.user.id,
         },
       });
 
-      res.status(201).json({
+      if (!document) {
+        throw new NotFoundError('Generated document not found');
+      }
+
+      const sections = document.documentType === 'DEMAND_LETTER' ? parseLetterSections(document.content) : [];
+
+      res.json({
+        success: true,
+        data: sections.map((section) => ({
+          key: section.key,
+          label: section.label,
+          heading: section.heading,
+          start: section.start,
+          end: section.end,
+          regenerable: section.key !== null,
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/generate/:caseId/generated/:genId/sections/:sectionKey/regenerate - Queue regeneration of one section
+router.post(
+  '/:caseId/generated/:genId/sections/:sectionKey/regenerate',
+  requirePermission('letter:generate'),
+  requireUsageQuota(),
+  validateBody(regenerateSectionSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { caseId, genId, sectionKey } = req.params;
+      const { instructions, tone } = req.body;
+
+      // Verify case belongs to firm
+      const caseData = await prisma.case.findFirst({
+        where: {
+          id: caseId as string,
+          ...caseAccessWhere(req.auth!),
+        },
+      });
+
+      if (!caseData) {
+        throw new NotFoundError('Case not found');
+      }
+
+      const document = await prisma.generatedDocument.findFirst({
+        where: {
+          id: genId as string,
+          caseId: caseId as string,
+        },
+      });
+
+      if (!document) {
+        throw new NotFoundError('Generated document not found');
+      }
+
+      if (document.documentType !== 'DEMAND_LETTER') {
+        throw new BadRequestError('Section regeneration is only available for demand letters');
+      }
+
+      if (!LETTER_SECTIONS.some((section) => section.key === sectionKey)) {
+        throw new BadRequestError(`Unknown section: ${sectionKey}`);
+      }
+
+      if (!parseLetterSections(document.content).some((section) => section.key === sectionKey)) {
+        throw new BadRequestError('Section not found in this letter');
+      }
+
+      const job = await enqueueJob(
+        JOB_TYPES.REGENERATE_SECTION,
+        {
+          generatedDocumentId: document.id,
+          userId: req.auth!.user.id,
+          sectionKey,
+          instructions,
+          tone,
+        },
+        {
+          firmId: req.auth!.firm.id,
+          caseId: caseId as string,
+          maxAttempts: 3,
+        }
+      );
+
+      setAuditDetails(res, {
+        action: 'generated_document.regenerate_section',
+        resourceId: document.id,
+        metadata: { sectionKey, jobId: job.id },
+      });
+
+      res.status(202).json({
         success: true,
-        data: generatedDoc,
+        data: job,
       });
     } catch (error) {
       next(error);
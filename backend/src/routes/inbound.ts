@@ -0,0 +1,99 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { BadRequestError, NotFoundError, UnauthorizedError } from '../utils/errors.js';
+import { findCaseByRecipients, ingestEmail, parseEmailFile } from '../services/emailIngestionService.js';
+import { recordAuditEvent } from '../services/auditService.js';
+import { parseAddresses } from '../utils/mime.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+let inboundSecret: string | null = null;
+
+function getInboundSecret(): string {
+  if (!inboundSecret) {
+    if (process.env.INBOUND_EMAIL_SECRET) {
+      inboundSecret = process.env.INBOUND_EMAIL_SECRET;
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new Error('INBOUND_EMAIL_SECRET must be set to receive email in production');
+    } else {
+      // Nothing can authenticate, so posting a test message needs the variable set
+      logger.warn('INBOUND_EMAIL_SECRET is not set; inbound email is disabled');
+      inboundSecret = randomBytes(32).toString('hex');
+    }
+  }
+  return inboundSecret;
+}
+
+function verifyInboundSecret(req: Request): void {
+  const header = req.headers.authorization ?? '';
+  const provided = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+  const expected = Buffer.from(getInboundSecret());
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw new UnauthorizedError('Invalid inbound email secret');
+  }
+}
+
+// POST /api/inbound/email - Receive a raw MIME message from the mail service
+// Authenticated with INBOUND_EMAIL_SECRET rather than a session. The envelope
+// recipient can be passed as ?to= when the service doesn't add Delivered-To.
+router.post(
+  '/email',
+  express.raw({ type: () => true, limit: '60mb' }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      verifyInboundSecret(req);
+
+      const raw = req.body as Buffer;
+      if (!Buffer.isBuffer(raw) || raw.length === 0) {
+        throw new BadRequestError('The request body must be the raw email message');
+      }
+
+      const email = parseEmailFile(raw);
+      const envelope = typeof req.query.to === 'string' ? parseAddresses(req.query.to) : [];
+      const caseData = await findCaseByRecipients([...envelope, ...email.deliveredTo, ...email.to, ...email.cc]);
+      if (!caseData) {
+        throw new NotFoundError('No case uses this inbound address');
+      }
+
+      const result = await ingestEmail({ caseId: caseData.id, firmId: caseData.firmId, email, source: 'EMAIL_IN' });
+
+      if (!result.alreadyFiled) {
+        void recordAuditEvent({
+          firmId: caseData.firmId,
+          actor: null,
+          action: 'document.email_received',
+          resourceType: 'document',
+          resourceId: result.inboundEmail.id,
+          caseId: caseData.id,
+          method: req.method,
+          path: req.originalUrl.split('?')[0],
+          statusCode: 201,
+          metadata: {
+            from: email.from,
+            subject: email.subject,
+            documents: result.documents.map((doc) => ({ id: doc.id, filename: doc.originalFilename })),
+            skipped: result.skipped,
+          },
+          ipAddress: req.ip ?? null,
+          userAgent: req.get('user-agent') ?? null,
+        });
+      }
+
+      res.status(result.alreadyFiled ? 200 : 201).json({
+        success: true,
+        data: {
+          emailId: result.inboundEmail.id,
+          caseId: caseData.id,
+          documents: result.documents.map((doc) => ({ id: doc.id, filename: doc.originalFilename })),
+          skipped: result.skipped,
+          alreadyFiled: result.alreadyFiled,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,99 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import prisma from '../db/client.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validation.js';
+import { setAuditDetails } from '../middleware/audit.js';
+import {
+  createInvitation,
+  invitationInclude,
+  revokeInvitation,
+  serializeInvitation,
+} from '../services/invitationService.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes (requires firm:manage)
+router.use(requireAuth);
+router.use(requirePermission('firm:manage'));
+
+const createInvitationSchema = z.object({
+  email: z.string().trim().email(),
+  role: z.nativeEnum(UserRole).default('ATTORNEY'),
+});
+
+// GET /api/admin/invitations - List the firm's invitations, newest first
+router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { status } = req.query;
+    const where: Record<string, unknown> = { firmId: req.auth!.firm.id };
+
+    if (status) {
+      where.status = { in: (status as string).split(',') };
+    }
+
+    const invitations = await prisma.invitation.findMany({
+      where,
+      include: invitationInclude,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    res.json({
+      success: true,
+      data: invitations.map(serializeInvitation),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/invitations - Email an invitation to join the firm with a role
+router.post(
+  '/',
+  validateBody(createInvitationSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const invitation = await createInvitation({
+        firmId: req.auth!.firm.id,
+        email: req.body.email,
+        role: req.body.role,
+        invitedById: req.auth!.user.id,
+      });
+
+      setAuditDetails(res, {
+        resourceId: invitation.id,
+        metadata: { email: invitation.email, role: invitation.role },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: serializeInvitation(invitation),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/admin/invitations/:id - Revoke a pending invitation
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const invitation = await revokeInvitation(req.params.id as string, req.auth!.firm.id);
+
+    setAuditDetails(res, {
+      action: 'invitation.revoke',
+      metadata: { email: invitation.email, role: invitation.role },
+    });
+
+    res.json({
+      success: true,
+      data: serializeInvitation(invitation),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
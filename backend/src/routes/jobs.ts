@@ -0,0 +1,134 @@
+import { Router, Response, NextFunction } from 'express';
+import prisma from '../db/client.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { NotFoundError, ConflictError } from '../utils/errors.js';
+import { retryJob, cancelJob } from '../services/jobQueue.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes (requires firm:manage)
+router.use(requireAuth);
+router.use(requirePermission('firm:manage'));
+
+async function findFirmJob(jobId: string, firmId: string) {
+  const job = await prisma.job.findFirst({
+    where: { id: jobId, firmId },
+  });
+
+  if (!job) {
+    throw new NotFoundError('Job not found');
+  }
+
+  return job;
+}
+
+// GET /api/admin/jobs - List background jobs for the firm
+router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { page = '1', limit = '25', status, type, caseId } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: Record<string, unknown> = {
+      firmId: req.auth!.firm.id,
+    };
+
+    if (status) {
+      where.status = { in: (status as string).split(',') };
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (caseId) {
+      where.caseId = caseId;
+    }
+
+    const [jobs, total, counts] = await Promise.all([
+      prisma.job.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.job.count({ where }),
+      prisma.job.groupBy({
+        by: ['status'],
+        where: { firmId: req.auth!.firm.id },
+        _count: { _all: true },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: jobs,
+      meta: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        statusCounts: Object.fromEntries(counts.map((c) => [c.status, c._count._all])),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/admin/jobs/:id - Get job details
+router.get('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const job = await findFirmJob(req.params.id as string, req.auth!.firm.id);
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/jobs/:id/retry - Requeue a dead or cancelled job
+router.post('/:id/retry', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const job = await findFirmJob(req.params.id as string, req.auth!.firm.id);
+
+    if (job.status === 'RUNNING' || job.status === 'SUCCEEDED') {
+      throw new ConflictError(`Cannot retry a job that is ${job.status.toLowerCase()}`);
+    }
+
+    const updatedJob = await retryJob(job.id);
+
+    res.json({
+      success: true,
+      data: updatedJob,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/jobs/:id/cancel - Cancel a queued or running job
+router.post('/:id/cancel', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const job = await findFirmJob(req.params.id as string, req.auth!.firm.id);
+
+    if (job.status !== 'QUEUED' && job.status !== 'RUNNING') {
+      throw new ConflictError(`Cannot cancel a job that is ${job.status.toLowerCase()}`);
+    }
+
+    const updatedJob = await cancelJob(job.id);
+
+    res.json({
+      success: true,
+      data: updatedJob,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
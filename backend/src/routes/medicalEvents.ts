@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { prisma } from '../db/client';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { auditResource, setAuditDetails } from '../middleware/audit';
+import { caseAccessWhere } from '../services/caseAccessService';
+import { diffChanges } from '../services/auditService';
 import { logger } from '../utils/logger';
 import {
   getMedicalEventsForCase,
@@ -10,6 +13,8 @@ import {
 
 const router = Router();
 
+router.use('/cases/:caseId/medical-events', auditResource('medical_event'));
+
 /**
  * GET /api/cases/:caseId/medical-events
  * List all medical events for a case
@@ -23,7 +28,7 @@ router.get('/cases/:caseId/medical-events', requireAuth, async (req: Authenticat
     const caseRecord = await prisma.case.findFirst({
       where: {
         id: caseId as string,
-        firmId: req.auth!.user.firmId,
+        ...caseAccessWhere(req.auth!),
       }
     });
 
@@ -106,7 +111,7 @@ router.get('/cases/:caseId/medical-events/:eventId', requireAuth, async (req: Au
     const caseRecord = await prisma.case.findFirst({
       where: {
         id: caseId as string,
-        firmId: req.auth!.user.firmId,
+        ...caseAccessWhere(req.auth!),
       }
     });
 
@@ -158,7 +163,7 @@ router.get('/cases/:caseId/medical-events/:eventId', requireAuth, async (req: Au
  * PUT /api/cases/:caseId/medical-events/:eventId
  * Update a medical event (attorney corrections)
  */
-router.put('/cases/:caseId/medical-events/:eventId', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.put('/cases/:caseId/medical-events/:eventId', requireAuth, requirePermission('medical_event:edit'), async (req: AuthenticatedRequest, res) => {
   try {
     const { caseId, eventId } = req.params;
     const updateData = req.body;
@@ -167,7 +172,7 @@ router.put('/cases/:caseId/medical-events/:eventId', requireAuth, async (req: Au
     const caseRecord = await prisma.case.findFirst({
       where: {
         id: caseId as string,
-        firmId: req.auth!.user.firmId,
+        ...caseAccessWhere(req.auth!),
       }
     });
 
@@ -197,7 +202,8 @@ router.put('/cases/:caseId/medical-events/:eventId', requireAuth, async (req: Au
       'vitalSigns', 'subjectiveFindings', 'objectiveFindings', 'assessment', 'plan',
       'workStatus', 'workRestrictions', 'functionalLimitations', 'prognosis',
       'permanencyStatements', 'futureTreatment', 'preExistingMentions', 'keyQuotes',
-      'redFlags', 'causationStatements', 'totalCharge', 'insurancePaid', 'patientResponsibility'
+      'redFlags', 'causationStatements', 'totalCharge', 'insurancePaid', 'patientResponsibility',
+      'citations'
     ];
 
     const filteredData: Record<string, unknown> = {};
@@ -214,6 +220,10 @@ router.put('/cases/:caseId/medical-events/:eventId', requireAuth, async (req: Au
 
     const updatedEvent = await updateMedicalEvent(eventId as string, filteredData);
 
+    setAuditDetails(res, {
+      changes: diffChanges(existingEvent, updatedEvent as unknown as Record<string, unknown>, Object.keys(filteredData)),
+    });
+
     res.json({
       success: true,
       data: updatedEvent
@@ -231,7 +241,7 @@ router.put('/cases/:caseId/medical-events/:eventId', requireAuth, async (req: Au
  * DELETE /api/cases/:caseId/medical-events/:eventId
  * Delete a medical event
  */
-router.delete('/cases/:caseId/medical-events/:eventId', requireAuth, async (req: AuthenticatedRequest, res) => {
+router.delete('/cases/:caseId/medical-events/:eventId', requireAuth, requirePermission('medical_event:edit'), async (req: AuthenticatedRequest, res) => {
   try {
     const { caseId, eventId } = req.params;
 
@@ -239,7 +249,7 @@ router.delete('/cases/:caseId/medical-events/:eventId', requireAuth, async (req:
     const caseRecord = await prisma.case.findFirst({
       where: {
         id: caseId as string,
-        firmId: req.auth!.user.firmId,
+        ...caseAccessWhere(req.auth!),
       }
     });
 
@@ -264,6 +274,14 @@ router.delete('/cases/:caseId/medical-events/:eventId', requireAuth, async (req:
 
     await deleteMedicalEvent(eventId as string);
 
+    setAuditDetails(res, {
+      metadata: {
+        providerName: existingEvent.providerName,
+        dateOfService: existingEvent.dateOfService,
+        documentId: existingEvent.documentId,
+      },
+    });
+
     res.json({
       success: true,
       message: 'Medical event deleted'
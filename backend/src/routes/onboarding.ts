@@ -0,0 +1,145 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import prisma from '../db/client.js';
+import { requireIdentity, AuthenticatedRequest } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validation.js';
+import { getIdentityProfile } from '../services/identityService.js';
+import {
+  acceptInvitation,
+  findPendingInvitationsForEmail,
+  findUsableInvitation,
+  serializeInvitation,
+} from '../services/invitationService.js';
+import { createFirmWithAdmin } from '../services/userService.js';
+import { recordAuditEvent } from '../services/auditService.js';
+
+const router = Router();
+
+// Signed in with the identity provider, but not necessarily in a firm yet
+router.use(requireIdentity);
+
+const createFirmSchema = z.object({
+  firmName: z.string().trim().min(1, 'Firm name is required').max(200),
+  name: z.string().trim().max(200).optional(),
+});
+
+function auditRequest(req: AuthenticatedRequest) {
+  return {
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    statusCode: 200,
+    ipAddress: req.ip ?? null,
+    userAgent: req.get('user-agent') ?? null,
+  };
+}
+
+// GET /api/onboarding/status - Whether the signed-in identity is in a firm, and invitations waiting for it
+router.get('/status', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { clerkId: req.identity!.userId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        deactivatedAt: true,
+        firm: { select: { id: true, name: true } },
+      },
+    });
+
+    if (user) {
+      res.json({
+        success: true,
+        data: { status: user.deactivatedAt ? 'deactivated' : 'active', user, invitations: [] },
+      });
+      return;
+    }
+
+    const profile = await getIdentityProfile(req, req.identity!);
+    const invitations = profile.email ? await findPendingInvitationsForEmail(profile.email) : [];
+
+    res.json({
+      success: true,
+      data: {
+        status: 'needs_onboarding',
+        profile,
+        // The identity owns the invited address, so it may accept without the emailed link
+        invitations: invitations.map((invitation) => ({ ...serializeInvitation(invitation), token: invitation.token })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/onboarding/firm - Create a firm with the signed-in identity as its admin
+router.post(
+  '/firm',
+  validateBody(createFirmSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const profile = await getIdentityProfile(req, req.identity!);
+      const { firm, user } = await createFirmWithAdmin(req.identity!.userId, profile, req.body);
+
+      await recordAuditEvent({
+        ...auditRequest(req),
+        firmId: firm.id,
+        actor: { id: user.id, email: user.email, name: user.name },
+        action: 'firm.create',
+        resourceType: 'firm',
+        resourceId: firm.id,
+        statusCode: 201,
+        metadata: { firmName: firm.name },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { firm, user },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/onboarding/invitations/:token - Preview an invitation before accepting it
+router.get('/invitations/:token', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const invitation = await findUsableInvitation(req.params.token as string);
+
+    res.json({
+      success: true,
+      data: serializeInvitation(invitation),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/onboarding/invitations/:token/accept - Join the inviting firm with the invited role
+router.post('/invitations/:token/accept', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const profile = await getIdentityProfile(req, req.identity!);
+    const { user, invitation } = await acceptInvitation(req.params.token as string, req.identity!.userId, profile);
+
+    await recordAuditEvent({
+      ...auditRequest(req),
+      firmId: invitation.firmId,
+      actor: { id: user.id, email: user.email, name: user.name },
+      action: 'invitation.accept',
+      resourceType: 'invitation',
+      resourceId: invitation.id,
+      metadata: { role: invitation.role, invitedById: invitation.invitedById },
+    });
+
+    res.json({
+      success: true,
+      data: { user, firm: invitation.firm },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,56 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { DocumentCategory } from '@prisma/client';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
+import { ValidationError } from '../utils/errors.js';
+import { searchFirm } from '../services/searchService.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(requireAuth);
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, 'Search query must be at least 2 characters').max(200),
+  type: z.enum(['all', 'documents', 'events']).default('all'),
+  caseId: z.string().optional(),
+  category: z.nativeEnum(DocumentCategory).optional(),
+  provider: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// GET /api/search - Full-text search across firm documents and medical events
+router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const parsed = searchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new ValidationError('Invalid search query', parsed.error.flatten().fieldErrors);
+    }
+
+    const { q, type, caseId, category, provider, from, to, limit, offset } = parsed.data;
+
+    const { results, total } = await searchFirm(req.auth!, q, {
+      type,
+      filters: { caseId, category, provider, dateFrom: from, dateTo: to },
+      limit,
+      offset,
+    });
+
+    res.json({
+      success: true,
+      data: results,
+      meta: {
+        total,
+        limit,
+        offset,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
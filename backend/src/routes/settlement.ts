@@ -0,0 +1,269 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { LienStatus, LienType, Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validation.js';
+import { NotFoundError } from '../utils/errors.js';
+import { buildSettlementWorksheet } from '../services/settlementService.js';
+import { generateSettlementWorksheetDocx } from '../services/exportService.js';
+import { auditResource, setAuditDetails } from '../middleware/audit.js';
+import { diffChanges } from '../services/auditService.js';
+import { CaseViewer, caseAccessWhere } from '../services/caseAccessService.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(requireAuth);
+router.use('/:caseId/liens', auditResource('lien'));
+router.use('/:caseId/worksheet', auditResource('settlement_worksheet'));
+
+// Validation schemas
+const amountSchema = z.number().min(0).max(1_000_000_000);
+
+const createLienSchema = z.object({
+  holderName: z.string().min(1, 'Lien holder is required').max(200),
+  type: z.nativeEnum(LienType),
+  status: z.nativeEnum(LienStatus).default('ASSERTED'),
+  amountClaimed: amountSchema,
+  negotiatedAmount: amountSchema.nullable().optional(),
+  claimNumber: z.string().max(100).nullable().optional(),
+  notes: z.string().max(5000).nullable().optional(),
+});
+
+const updateLienSchema = createLienSchema.partial();
+
+const worksheetSchema = z.object({
+  settlementAmount: amountSchema.optional(),
+  attorneyFeePercent: z.number().min(0).max(100).optional(),
+  costs: z
+    .array(
+      z.object({
+        description: z.string().min(1).max(200),
+        amount: amountSchema,
+      })
+    )
+    .max(100)
+    .optional(),
+});
+
+async function findFirmCase(caseId: string, viewer: CaseViewer) {
+  // Verify case belongs to firm
+  const caseData = await prisma.case.findFirst({
+    where: { id: caseId, ...caseAccessWhere(viewer) },
+  });
+
+  if (!caseData) {
+    throw new NotFoundError('Case not found');
+  }
+  return caseData;
+}
+
+// GET /api/settlement/:caseId/liens - List liens for a case
+router.get('/:caseId/liens', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const caseData = await findFirmCase(req.params.caseId as string, req.auth!);
+
+    const liens = await prisma.lien.findMany({
+      where: { caseId: caseData.id },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        sourceDocument: {
+          select: { id: true, originalFilename: true },
+        },
+      },
+    });
+
+    res.json({
+      success: true,
+      data: liens,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/settlement/:caseId/liens - Add a lien manually
+router.post(
+  '/:caseId/liens',
+  requirePermission('settlement:edit'),
+  validateBody(createLienSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const caseData = await findFirmCase(req.params.caseId as string, req.auth!);
+
+      const lien = await prisma.lien.create({
+        data: {
+          ...req.body,
+          amountClaimed: new Prisma.Decimal(req.body.amountClaimed),
+          negotiatedAmount:
+            req.body.negotiatedAmount == null ? null : new Prisma.Decimal(req.body.negotiatedAmount),
+          caseId: caseData.id,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: lien,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/settlement/:caseId/liens/:lienId - Update a lien (negotiation, status)
+router.put(
+  '/:caseId/liens/:lienId',
+  requirePermission('settlement:edit'),
+  validateBody(updateLienSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const caseData = await findFirmCase(req.params.caseId as string, req.auth!);
+
+      const existing = await prisma.lien.findFirst({
+        where: { id: req.params.lienId as string, caseId: caseData.id },
+      });
+
+      if (!existing) {
+        throw new NotFoundError('Lien not found');
+      }
+
+      const { amountClaimed, negotiatedAmount, ...fields } = req.body;
+      const lien = await prisma.lien.update({
+        where: { id: existing.id },
+        data: {
+          ...fields,
+          amountClaimed: amountClaimed === undefined ? undefined : new Prisma.Decimal(amountClaimed),
+          negotiatedAmount:
+            negotiatedAmount === undefined
+              ? undefined
+              : negotiatedAmount === null
+                ? null
+                : new Prisma.Decimal(negotiatedAmount),
+        },
+      });
+
+      setAuditDetails(res, {
+        changes: diffChanges(existing, lien as unknown as Record<string, unknown>, Object.keys(req.body)),
+      });
+
+      res.json({
+        success: true,
+        data: lien,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/settlement/:caseId/liens/:lienId - Remove a lien
+router.delete(
+  '/:caseId/liens/:lienId',
+  requirePermission('settlement:edit'),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const caseData = await findFirmCase(req.params.caseId as string, req.auth!);
+
+      const existing = await prisma.lien.findFirst({
+        where: { id: req.params.lienId as string, caseId: caseData.id },
+      });
+
+      if (!existing) {
+        throw new NotFoundError('Lien not found');
+      }
+
+      await prisma.lien.delete({ where: { id: existing.id } });
+
+      setAuditDetails(res, {
+        metadata: { holderName: existing.holderName, amountClaimed: existing.amountClaimed },
+      });
+
+      res.json({
+        success: true,
+        message: 'Lien deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/settlement/:caseId/worksheet - Compute the disbursement worksheet
+router.get('/:caseId/worksheet', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const caseData = await findFirmCase(req.params.caseId as string, req.auth!);
+
+    const worksheet = await buildSettlementWorksheet(caseData.id);
+
+    res.json({
+      success: true,
+      data: worksheet,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/settlement/:caseId/worksheet - Save worksheet inputs and recompute
+router.put(
+  '/:caseId/worksheet',
+  requirePermission('settlement:edit'),
+  validateBody(worksheetSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const caseData = await findFirmCase(req.params.caseId as string, req.auth!);
+
+      const worksheet = await buildSettlementWorksheet(caseData.id, req.body);
+
+      await prisma.case.update({
+        where: { id: caseData.id },
+        data: { settlementWorksheet: worksheet.inputs as unknown as Prisma.InputJsonValue },
+      });
+
+      res.json({
+        success: true,
+        data: worksheet,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/settlement/:caseId/worksheet/docx - Export the disbursement statement to Word
+router.get(
+  '/:caseId/worksheet/docx',
+  requirePermission('export'),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const caseData = await findFirmCase(req.params.caseId as string, req.auth!);
+      const firm = await prisma.firm.findUniqueOrThrow({ where: { id: caseData.firmId } });
+
+      const worksheet = await buildSettlementWorksheet(caseData.id);
+      const docxBuffer = await generateSettlementWorksheetDocx(
+        worksheet,
+        {
+          clientName: `${caseData.clientFirstName} ${caseData.clientLastName}`,
+          caseNumber: caseData.caseNumber,
+          claimNumber: caseData.claimNumber,
+          defendantInsuranceCompany: caseData.defendantInsuranceCompany,
+        },
+        firm
+      );
+
+      const filename = `${caseData.clientLastName}_${caseData.clientFirstName}_SETTLEMENT_WORKSHEET.docx`;
+
+      setAuditDetails(res, { action: 'export.settlement_worksheet' });
+
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(docxBuffer);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,78 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import prisma from '../db/client.js';
+import { ForbiddenError, NotFoundError } from '../utils/errors.js';
+import { getFileStream, getStorageDriver, pipeToResponse } from '../services/storage.js';
+import { verifyLocalSignature } from '../services/localStorageProvider.js';
+import { recordAuditEvent } from '../services/auditService.js';
+
+const router = Router();
+
+/** The document stored under a key; document keys start with the firm and case ids */
+async function findStoredDocument(key: string) {
+  const [firmId, caseId] = key.split('/');
+  if (!firmId || !caseId) return null;
+
+  return prisma.document.findFirst({
+    where: { filename: key, caseId, case: { firmId } },
+    select: { id: true, caseId: true, originalFilename: true, case: { select: { firmId: true } } },
+  });
+}
+
+// GET /api/storage/local/* - Serve a locally stored file from a signed download link
+// The signature stands in for a session: links are opened in new tabs and
+// iframes, which can't send the API's bearer token. Links are short-lived
+// and each document download is audited, since whoever holds a link can
+// use it.
+router.get('/local/*', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (getStorageDriver() !== 'local') {
+      throw new NotFoundError('Not found');
+    }
+
+    const key = (req.params as Record<string, string>)[0];
+    const expires = Number(req.query.expires);
+    const signature = typeof req.query.signature === 'string' ? req.query.signature : '';
+
+    if (!key || !verifyLocalSignature(key, expires, signature)) {
+      throw new ForbiddenError('This download link is invalid or has expired');
+    }
+
+    let object;
+    try {
+      object = await getFileStream(key);
+    } catch {
+      throw new NotFoundError('File not found');
+    }
+
+    const document = await findStoredDocument(key);
+    if (document) {
+      void recordAuditEvent({
+        firmId: document.case.firmId,
+        actor: null,
+        action: 'document.download',
+        resourceType: 'document',
+        resourceId: document.id,
+        caseId: document.caseId,
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        statusCode: 200,
+        metadata: { filename: document.originalFilename, linkExpiresAt: new Date(expires * 1000).toISOString() },
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null,
+      });
+    }
+
+    // Documents are previewed in an iframe on the frontend's origin; nothing
+    // served here may run script
+    res.removeHeader('X-Frame-Options');
+    res.setHeader('Content-Security-Policy', "script-src 'none'");
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.setHeader('Content-Disposition', 'inline');
+
+    await pipeToResponse(object, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
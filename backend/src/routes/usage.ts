@@ -0,0 +1,109 @@
+import { Router, Response, NextFunction } from 'express';
+import prisma from '../db/client.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { caseAccessWhere } from '../services/caseAccessService.js';
+import {
+  UsageInterval,
+  getUsageBreakdown,
+  getUsageQuota,
+  getUsageSeries,
+  startOfMonth,
+} from '../services/usageService.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes (requires usage:view)
+router.use(requireAuth);
+router.use(requirePermission('usage:view'));
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestError(`Invalid ${name} date`);
+  }
+  return date;
+}
+
+// GET /api/usage/summary - This month's AI spend against the plan quota, with activity counts
+router.get('/summary', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const firmId = req.auth!.firm.id;
+    const periodStart = startOfMonth();
+
+    const [quota, breakdown, casesCreated, lettersGenerated, teamMembers] = await Promise.all([
+      getUsageQuota(firmId),
+      getUsageBreakdown(firmId, { from: periodStart, to: new Date() }, 5),
+      prisma.case.count({ where: { firmId, createdAt: { gte: periodStart } } }),
+      prisma.generatedDocument.count({
+        where: { case: { firmId }, source: 'AI', createdAt: { gte: periodStart } },
+      }),
+      prisma.user.count({ where: { firmId, deactivatedAt: null } }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        quota,
+        ...breakdown,
+        activity: {
+          casesCreated,
+          documentsProcessed: breakdown.documentsProcessed,
+          lettersGenerated,
+          teamMembers,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/usage - AI usage over time, optionally for one case
+router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const firmId = req.auth!.firm.id;
+    const interval = (req.query.interval as string) || 'day';
+    if (interval !== 'day' && interval !== 'month') {
+      throw new BadRequestError('interval must be "day" or "month"');
+    }
+
+    const to = parseDate(req.query.to, 'to') ?? new Date();
+    // A bare date for `to` includes the whole day
+    if (req.query.to && /^\d{4}-\d{2}-\d{2}$/.test(req.query.to as string)) {
+      to.setUTCHours(23, 59, 59, 999);
+    }
+    const defaultFrom =
+      interval === 'day'
+        ? new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000)
+        : new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth() - 11, 1));
+    const from = parseDate(req.query.from, 'from') ?? defaultFrom;
+
+    const caseId = req.query.caseId as string | undefined;
+    if (caseId) {
+      const caseRecord = await prisma.case.findFirst({
+        where: { id: caseId, ...caseAccessWhere(req.auth!) },
+        select: { id: true },
+      });
+      if (!caseRecord) {
+        throw new NotFoundError('Case not found');
+      }
+    }
+
+    const filters = { from, to, caseId };
+    const [series, breakdown] = await Promise.all([
+      getUsageSeries(firmId, filters, interval as UsageInterval),
+      getUsageBreakdown(firmId, filters),
+    ]);
+
+    res.json({
+      success: true,
+      data: { from, to, interval, series, ...breakdown },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
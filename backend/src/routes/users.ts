@@ -0,0 +1,125 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import prisma from '../db/client.js';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validation.js';
+import { setAuditDetails } from '../middleware/audit.js';
+import { diffChanges } from '../services/auditService.js';
+import { changeUserRole, deactivateUser, reactivateUser } from '../services/userService.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes (requires firm:manage)
+router.use(requireAuth);
+router.use(requirePermission('firm:manage'));
+
+const userRoleSchema = z.object({
+  role: z.nativeEnum(UserRole),
+});
+
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  deactivatedAt: true,
+  createdAt: true,
+  _count: {
+    select: {
+      cases: true,
+    },
+  },
+} as const;
+
+// GET /api/admin/users - List firm users, including deactivated ones
+router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const users = await prisma.user.findMany({
+      where: { firmId: req.auth!.firm.id },
+      select: userSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: users,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/admin/users/:id/role - Change a user's firm role
+router.put(
+  '/:id/role',
+  validateBody(userRoleSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { before, after } = await changeUserRole(
+        req.params.id as string,
+        req.auth!.firm.id,
+        req.body.role,
+        req.auth!.user.id
+      );
+
+      setAuditDetails(res, {
+        action: 'user.role.update',
+        changes: diffChanges(before, after, ['role']),
+      });
+
+      const user = await prisma.user.findUniqueOrThrow({ where: { id: after.id }, select: userSelect });
+
+      res.json({
+        success: true,
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/admin/users/:id/deactivate - Block a user from signing in
+router.post('/:id/deactivate', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const deactivated = await deactivateUser(req.params.id as string, req.auth!.firm.id, req.auth!.user.id);
+
+    setAuditDetails(res, {
+      action: 'user.deactivate',
+      metadata: { email: deactivated.email, role: deactivated.role },
+    });
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: deactivated.id }, select: userSelect });
+
+    res.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/users/:id/reactivate - Restore a deactivated user's access
+router.post('/:id/reactivate', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const reactivated = await reactivateUser(req.params.id as string, req.auth!.firm.id);
+
+    setAuditDetails(res, {
+      action: 'user.reactivate',
+      metadata: { email: reactivated.email, role: reactivated.role },
+    });
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: reactivated.id }, select: userSelect });
+
+    res.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyDamagesFigures, buildDamagesTable, calculateDamages } from '../damagesService.js';
+import { parseLetterSections } from '../letterSectionService.js';
+
+const INJURIES_TABLE = `| Provider | Charges |
+|---|---|
+| ER | $1,000.00 |`;
+
+const LETTER = `**RE: CLAIM FOR PERSONAL INJURIES**
+**Claimant:** Jane Doe
+
+## I. INTRODUCTION
+
+We represent Jane Doe.
+
+## IV. INJURIES AND MEDICAL TREATMENT
+
+### Medical Specials and Damages Summary
+
+${INJURIES_TABLE}
+
+## VI. DAMAGES BREAKDOWN
+
+The damages are itemized below.
+
+| Category | Amount |
+|---|---|
+| Medical | $999,999.00 |
+
+## VII. SETTLEMENT DEMAND
+
+We demand $1.00.
+`;
+
+const calculation = calculateDamages({
+  incidentDate: new Date('2025-01-02'),
+  documents: [],
+  medicalEvents: [
+    {
+      dateOfService: new Date('2025-01-02'),
+      providerName: 'County ER',
+      totalCharge: 4200,
+      insurancePaid: 3000,
+      patientResponsibility: 200,
+    },
+  ],
+});
+
+describe('applyDamagesFigures', () => {
+  const { content } = applyDamagesFigures(LETTER, calculation);
+  const sections = parseLetterSections(content);
+  const byKey = (key: string) => sections.find((section) => section.key === key)!;
+
+  it('replaces the table in the Damages section with the computed one', () => {
+    const damages = byKey('damages');
+    expect(damages.heading).toBe('## VI. DAMAGES BREAKDOWN');
+    expect(damages.content).toContain(buildDamagesTable(calculation));
+    expect(damages.content).toContain('The damages are itemized below.');
+    expect(content).not.toContain('$999,999.00');
+
+    const lastTable = content.match(/(^\|.*\|[ \t]*$\n?)+/gm)!.pop()!.trimEnd();
+    expect(lastTable).toBe(buildDamagesTable(calculation));
+  });
+
+  it('leaves tables under damages sub-headings in other sections alone', () => {
+    const injuries = byKey('injuries');
+    expect(injuries.content).toContain('### Medical Specials and Damages Summary');
+    expect(injuries.content).toContain(INJURIES_TABLE);
+    expect(injuries.content).not.toContain('Total Special Damages');
+  });
+
+  it('adds the table to the Damages section when it has none', () => {
+    const withoutTable = LETTER.replace(/\| Category[\s\S]*?\$999,999\.00 \|\n/, '');
+    const damages = parseLetterSections(applyDamagesFigures(withoutTable, calculation).content).find(
+      (section) => section.key === 'damages'
+    )!;
+    expect(damages.content).toContain(buildDamagesTable(calculation));
+    expect(damages.content).not.toContain('SETTLEMENT DEMAND');
+  });
+
+  it('warns when the demand does not state the calculated amount', () => {
+    const { warnings } = applyDamagesFigures(LETTER, calculation);
+    expect(warnings).toEqual([expect.objectContaining({ severity: 'critical', category: 'credibility' })]);
+  });
+});
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Document, Prisma } from '@prisma/client';
+
+type Row = Record<string, unknown>;
+const documents: Row[] = [];
+
+// Enough of Prisma's filters for the duplicate queries: equality, lt, in,
+// notIn, `not: DbNull` and OR
+function matches(row: Row, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (field === 'OR') return (condition as Record<string, unknown>[]).some((branch) => matches(row, branch));
+    const value = row[field] ?? null;
+    if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+      return String(value) === String(condition ?? null);
+    }
+    const filter = condition as Record<string, unknown>;
+    if ('not' in filter && filter.not === Prisma.DbNull) return value !== null;
+    if ('lt' in filter) return value !== null && (value as number) < (filter.lt as number);
+    if ('in' in filter) return (filter.in as unknown[]).includes(value);
+    if ('notIn' in filter) return !(filter.notIn as unknown[]).includes(value);
+    return false;
+  });
+}
+
+function applyData(row: Row, data: Row) {
+  for (const [field, value] of Object.entries(data)) {
+    row[field] = value === Prisma.DbNull ? null : value;
+  }
+}
+
+const client = {
+  document: {
+    findFirst: async ({ where }: { where: Row }) => documents.find((row) => matches(row, where)) ?? null,
+    findMany: async ({ where }: { where: Row }) =>
+      documents.filter((row) => matches(row, where)).map((row) => ({ ...row, _count: { parts: 0 } })),
+    findUniqueOrThrow: async ({ where }: { where: Row }) => documents.find((row) => row.id === where.id)!,
+    update: async ({ where, data }: { where: Row; data: Row }) => {
+      const row = documents.find((candidate) => candidate.id === where.id)!;
+      applyData(row, data);
+      return row;
+    },
+    updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+      const rows = documents.filter((row) => matches(row, where));
+      rows.forEach((row) => applyData(row, data));
+      return { count: rows.length };
+    },
+  },
+  medicalEvent: { deleteMany: async () => ({ count: 0 }) },
+  $executeRaw: async () => 0,
+  $transaction: async (work: unknown): Promise<unknown> =>
+    typeof work === 'function' ? (work as (tx: unknown) => unknown)(client) : Promise.all(work as unknown[]),
+};
+
+jest.mock('../../db/client.js', () => ({ __esModule: true, default: client }));
+
+import {
+  findExactDuplicate,
+  fingerprintPages,
+  hashContent,
+  holdNearDuplicate,
+  markPossibleDuplicate,
+  refreshDuplicateCopies,
+} from '../duplicateService.js';
+
+const RECORD = Array.from({ length: 60 }, (_, index) => `visit note line ${index} cervical strain reviewed`).join(' ');
+const uploadedAt = new Date('2025-03-01T12:00:00Z');
+
+function upload(id: string, fields: Row = {}): Document {
+  const row: Row = {
+    id,
+    caseId: 'case-1',
+    parentDocumentId: null,
+    originalFilename: `${id}.pdf`,
+    createdAt: uploadedAt,
+    duplicateStatus: null,
+    duplicateOfId: null,
+    duplicateScore: null,
+    processingStatus: 'PENDING',
+    category: 'OTHER',
+    subcategory: null,
+    documentDate: null,
+    providerName: null,
+    extractedText: null,
+    pageCount: null,
+    pageMap: null,
+    ocrConfidence: null,
+    pageFingerprints: null,
+    contentHash: null,
+    ...fields,
+  };
+  documents.push(row);
+  return row as unknown as Document;
+}
+
+const row = (id: string) => documents.find((candidate) => candidate.id === id)!;
+
+beforeEach(() => {
+  documents.length = 0;
+});
+
+describe('two identical files in one upload', () => {
+  const contentHash = hashContent(Buffer.from('%PDF-1.4 county er records'));
+
+  it('holds the second as a copy of the first while the first is still processing', async () => {
+    const first = upload('doc-a', { contentHash });
+    const second = upload('doc-b', { contentHash });
+
+    expect(await findExactDuplicate(first, contentHash)).toBeNull();
+    const match = await findExactDuplicate(second, contentHash);
+    expect(match?.original.id).toBe('doc-a');
+
+    await markPossibleDuplicate(second, match!);
+    expect(row('doc-b')).toMatchObject({ duplicateStatus: 'POSSIBLE', duplicateOfId: 'doc-a', extractedText: null });
+
+    // The first finishes processing after its copy was held
+    Object.assign(row('doc-a'), {
+      processingStatus: 'COMPLETED',
+      category: 'MEDICAL_RECORDS',
+      providerName: 'County ER',
+      extractedText: RECORD,
+      pageCount: 3,
+    });
+    await refreshDuplicateCopies('doc-a');
+
+    expect(row('doc-b')).toMatchObject({
+      category: 'MEDICAL_RECORDS',
+      providerName: 'County ER',
+      extractedText: RECORD,
+      pageCount: 3,
+      processingStatus: 'COMPLETED',
+    });
+  });
+
+  it('holds a copy read before its original once the original is read', async () => {
+    const fingerprints = fingerprintPages(RECORD);
+    const first = upload('doc-a', { processingStatus: 'EXTRACTING_TEXT' });
+    const second = upload('doc-b', { processingStatus: 'EXTRACTING_TEXT' });
+
+    // The second upload's text is read first; the first has no pages to compare yet
+    row('doc-b').pageFingerprints = fingerprints;
+    expect(await holdNearDuplicate(second, fingerprints, { firstRead: true })).toBeNull();
+
+    row('doc-a').pageFingerprints = fingerprints;
+    const match = await holdNearDuplicate(first, fingerprints, { firstRead: true });
+
+    expect(match).toMatchObject({ original: { id: 'doc-b' }, score: 1 });
+    expect(row('doc-a')).toMatchObject({ duplicateStatus: 'POSSIBLE', duplicateOfId: 'doc-b' });
+    expect(row('doc-b').duplicateStatus).toBeNull();
+  });
+
+  it('only compares with earlier uploads when a document is read again', async () => {
+    const fingerprints = fingerprintPages(RECORD);
+    const first = upload('doc-a', { processingStatus: 'COMPLETED', pageFingerprints: fingerprints });
+    upload('doc-b', { processingStatus: 'COMPLETED', pageFingerprints: fingerprints, duplicateStatus: 'IGNORED' });
+
+    expect(await holdNearDuplicate(first, fingerprints, { firstRead: false })).toBeNull();
+    expect(row('doc-a').duplicateStatus).toBeNull();
+  });
+});
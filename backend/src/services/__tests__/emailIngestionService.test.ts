@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { buildDocx } from './zipFixture.js';
+
+const documentCreate = jest.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: `doc-${data.originalFilename}`, ...data }));
+const tx = {
+  inboundEmail: { create: jest.fn(async () => ({ id: 'email-1' })) },
+  document: { create: documentCreate },
+  case: { update: jest.fn(async () => ({})) },
+};
+
+jest.mock('../../db/client.js', () => ({
+  __esModule: true,
+  default: {
+    inboundEmail: { findFirst: jest.fn(async () => null) },
+    case: {
+      findUniqueOrThrow: jest.fn(async () => ({ claimNumber: null, defendantPolicyNumber: null, defendantAdjusterEmail: null })),
+    },
+    $transaction: jest.fn(async (callback: (client: typeof tx) => unknown) => callback(tx)),
+  },
+}));
+jest.mock('../storage.js', () => ({
+  putFile: jest.fn(async (_buffer: Buffer, key: string) => `https://files.test/${key}`),
+  deleteFile: jest.fn(async () => undefined),
+}));
+jest.mock('../documentProcessor.js', () => ({ enqueueDocumentProcessing: jest.fn(async () => undefined) }));
+jest.mock('../pdfRenderer.js', () => ({ renderEmailToPdf: jest.fn(async () => Buffer.from('%PDF-1.4\n')) }));
+
+import { ingestEmail } from '../emailIngestionService.js';
+import { parseMimeMessage } from '../../utils/mime.js';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+function emailWithAttachment(filename: string, contentType: string, content: Buffer): Buffer {
+  return Buffer.from(
+    [
+      'From: Dr Smith <records@clinic.test>',
+      'To: case-abc@inbound.localhost',
+      'Subject: Narrative report',
+      'Message-ID: <report-1@clinic.test>',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      'The narrative report is attached.',
+      '--b1',
+      `Content-Type: ${contentType}; name="${filename}"`,
+      `Content-Disposition: attachment; filename="${filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      content.toString('base64').replace(/.{76}/g, '$&\r\n'),
+      '--b1--',
+      '',
+    ].join('\r\n')
+  );
+}
+
+describe('ingestEmail', () => {
+  beforeEach(() => {
+    documentCreate.mockClear();
+  });
+
+  it('files a DOCX attachment as a document of its own', async () => {
+    const docx = buildDocx('Narrative report');
+    const email = parseMimeMessage(emailWithAttachment('narrative.docx', DOCX_MIME_TYPE, docx));
+
+    const result = await ingestEmail({ caseId: 'case-1', firmId: 'firm-1', email, source: 'EMAIL_IN' });
+
+    expect(result.skipped).toEqual([]);
+    expect(result.documents).toHaveLength(2);
+    const created = documentCreate.mock.calls.map(([{ data }]) => data);
+    expect(created[0]).toMatchObject({ isEmailBody: true, mimeType: 'application/pdf', inboundEmailId: 'email-1' });
+    expect(created[1]).toMatchObject({
+      originalFilename: 'narrative.docx',
+      mimeType: DOCX_MIME_TYPE,
+      fileSize: docx.length,
+      isEmailBody: false,
+      inboundEmailId: 'email-1',
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { expandImport, ImportReport, streamImport } from '../importService.js';
+import { buildDocx, buildZip } from './zipFixture.js';
+
+const PDF = Buffer.from('%PDF-1.4\n%%EOF\n');
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+describe('expandImport', () => {
+  it('imports a DOCX next to a PDF instead of unpacking it', () => {
+    const docx = buildDocx('Narrative report');
+    const result = expandImport([
+      { path: 'Records/Dr Smith/report.docx', buffer: docx },
+      { path: 'Records/Dr Smith/visit.pdf', buffer: PDF },
+    ]);
+
+    expect(result.archives).toEqual([]);
+    expect(result.skipped).toEqual([]);
+    expect(result.files).toEqual([
+      expect.objectContaining({ path: 'Records/Dr Smith/report.docx', mimeType: DOCX_MIME_TYPE, buffer: docx }),
+      expect.objectContaining({ path: 'Records/Dr Smith/visit.pdf', mimeType: 'application/pdf' }),
+    ]);
+  });
+
+  it('keeps a DOCX inside an archive whole', () => {
+    const docx = buildDocx('Narrative report');
+    const result = expandImport([
+      { path: 'records.zip', buffer: buildZip({ 'Billing/ledger.docx': docx, 'Billing/ub04.pdf': PDF }) },
+    ]);
+
+    expect(result.archives).toEqual(['records.zip']);
+    expect(result.files.map((file) => [file.path, file.mimeType])).toEqual([
+      ['Billing/ledger.docx', DOCX_MIME_TYPE],
+      ['Billing/ub04.pdf', 'application/pdf'],
+    ]);
+  });
+
+  it('unpacks ZIP content sent without a .zip name', () => {
+    const result = expandImport([{ path: 'download', buffer: buildZip({ 'visit.pdf': PDF }) }]);
+
+    expect(result.archives).toEqual(['download']);
+    expect(result.files.map((file) => file.path)).toEqual(['visit.pdf']);
+  });
+});
+
+describe('streamImport', () => {
+  it('reads each upload only once the files before it have been handed over', async () => {
+    const reads: string[] = [];
+    const source = (path: string, buffer: Buffer) => ({
+      path,
+      read: async () => {
+        reads.push(path);
+        return buffer;
+      },
+    });
+    const report: ImportReport = { skipped: [], archives: [] };
+
+    const seen: string[] = [];
+    for await (const file of streamImport(
+      [
+        source('records.zip', buildZip({ 'ER/visit.pdf': PDF, 'ER/notes.txt': 'notes' })),
+        source('Bills/ub04.pdf', PDF),
+      ],
+      report
+    )) {
+      seen.push(`${file.path} after ${reads.join(', ')}`);
+    }
+
+    expect(seen).toEqual(['ER/visit.pdf after records.zip', 'Bills/ub04.pdf after records.zip, Bills/ub04.pdf']);
+    expect(report).toEqual({
+      archives: ['records.zip'],
+      skipped: [{ path: 'ER/notes.txt', reason: 'Unsupported file type (.txt)' }],
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseLetterSections, replaceLetterSection } from '../letterSectionService.js';
+import { applyExhibitIndex, ExhibitEntry } from '../exhibitPacketService.js';
+
+const LETTER = `March 4, 2025
+
+Acme Insurance Company
+123 Main Street
+
+**RE: CLAIM FOR PERSONAL INJURIES**
+**Claimant:** Jane Doe
+**Date of Loss:** January 2, 2025
+
+## I. INTRODUCTION
+
+We represent Jane Doe.
+
+## II. FACTUAL BACKGROUND
+
+Ms. Doe was stopped at a red light.
+
+## III. LIABILITY ANALYSIS
+
+Your insured rear-ended her.
+
+## IV. INJURIES AND MEDICAL TREATMENT
+
+### Emergency Care
+
+She was taken to the ER.
+
+### Medical Specials and Damages Summary
+
+| Provider | Charges |
+|---|---|
+| ER | $1,000.00 |
+
+## V. IMPACT ON LIFE
+
+She could not lift her children.
+
+## VI. DAMAGES BREAKDOWN
+
+| Category | Amount |
+|---|---|
+| Medical | $1,000.00 |
+
+## VII. SETTLEMENT DEMAND
+
+We demand $50,000.
+`;
+
+describe('parseLetterSections', () => {
+  const sections = parseLetterSections(LETTER);
+  const byKey = (key: string) => sections.find((section) => section.key === key);
+
+  it('keeps the RE: line in the header', () => {
+    const header = byKey('header')!;
+    expect(header.content).toContain('RE: CLAIM FOR PERSONAL INJURIES');
+    expect(header.content).toContain('Date of Loss');
+    expect(byKey('injuries')!.heading).toBe('## IV. INJURIES AND MEDICAL TREATMENT');
+  });
+
+  it('keeps sub-headings with their section', () => {
+    const injuries = byKey('injuries')!;
+    expect(injuries.content).toContain('### Medical Specials and Damages Summary');
+    expect(injuries.content).toContain('### Emergency Care');
+    expect(injuries.content).not.toContain('IMPACT ON LIFE');
+  });
+
+  it('starts the damages section at its top-level heading', () => {
+    const damages = byKey('damages')!;
+    expect(damages.heading).toBe('## VI. DAMAGES BREAKDOWN');
+    expect(damages.content).toContain('| Medical | $1,000.00 |');
+    expect(damages.content).not.toContain('SETTLEMENT DEMAND');
+    expect(byKey('impact')!.content).not.toContain('DAMAGES BREAKDOWN');
+  });
+
+  it('finds every section in order', () => {
+    expect(sections.map((section) => section.key)).toEqual([
+      'header',
+      'introduction',
+      'factual_background',
+      'liability',
+      'injuries',
+      'impact',
+      'damages',
+      'demand',
+    ]);
+  });
+
+  it('ignores a letter title above the section headings', () => {
+    const titled = parseLetterSections(`# DEMAND FOR SETTLEMENT\n\n${LETTER}`);
+    expect(titled.find((section) => section.key === 'demand')!.heading).toBe('## VII. SETTLEMENT DEMAND');
+    expect(titled.find((section) => section.key === 'header')!.content).toContain('# DEMAND FOR SETTLEMENT');
+  });
+
+  it('splits letters that use bold headings, skipping the header reference lines', () => {
+    const bold = [
+      '**RE: CLAIM FOR PERSONAL INJURIES**',
+      '',
+      '**INTRODUCTION**',
+      'We represent Jane Doe.',
+      '',
+      '**INJURIES AND MEDICAL TREATMENT**',
+      'Cervical strain.',
+      '',
+      '**DAMAGES**',
+      'Medical: $1,000.00',
+    ].join('\n');
+    const boldSections = parseLetterSections(bold);
+    expect(boldSections.map((section) => section.key)).toEqual(['header', 'introduction', 'injuries', 'damages']);
+    expect(boldSections[0].content).toContain('RE: CLAIM FOR PERSONAL INJURIES');
+  });
+
+  describe('with an exhibit index appended', () => {
+    const exhibits: ExhibitEntry[] = [
+      {
+        exhibitNumber: 1,
+        documentId: 'doc-1',
+        title: 'County ER records',
+        documentDate: '2025-01-02',
+        batesStart: 1,
+        batesEnd: 12,
+        batesRange: 'DOE000001-DOE000012',
+        pageCount: 12,
+      },
+    ];
+    const keys = (letter: string) => parseLetterSections(letter).map((section) => section.key);
+
+    it('still splits a bold-heading letter into its sections', () => {
+      const bold = applyExhibitIndex(
+        [
+          '**RE: CLAIM FOR PERSONAL INJURIES**',
+          '',
+          '**INTRODUCTION**',
+          'We represent Jane Doe.',
+          '',
+          '**INJURIES AND MEDICAL TREATMENT**',
+          'Cervical strain.',
+          '',
+          '**SETTLEMENT DEMAND**',
+          'We demand $50,000.',
+        ].join('\n'),
+        exhibits
+      );
+      expect(keys(bold)).toEqual(['header', 'introduction', 'injuries', 'demand', null]);
+      expect(parseLetterSections(bold).pop()!.heading).toBe('## EXHIBIT INDEX');
+    });
+
+    it('keeps the index out of the demand in a letter with ### section headings', () => {
+      const deeper = applyExhibitIndex(
+        LETTER.replace(/^## /gm, '### ').replace(/^### (Emergency|Medical Specials)/gm, '#### $1'),
+        exhibits
+      );
+      const sections = parseLetterSections(deeper);
+      expect(sections.map((section) => section.key)).toEqual([
+        'header',
+        'introduction',
+        'factual_background',
+        'liability',
+        'injuries',
+        'impact',
+        'damages',
+        'demand',
+        null,
+      ]);
+
+      const demand = sections.find((section) => section.key === 'demand')!;
+      expect(demand.content).not.toContain('EXHIBIT INDEX');
+      const regenerated = replaceLetterSection(deeper, demand, '### VII. SETTLEMENT DEMAND\n\nWe demand $75,000.');
+      expect(regenerated).toContain('## EXHIBIT INDEX');
+      expect(regenerated).toContain('DOE000001-DOE000012');
+    });
+  });
+});
+
+describe('replaceLetterSection', () => {
+  it('rewrites only the chosen section', () => {
+    const injuries = parseLetterSections(LETTER).find((section) => section.key === 'injuries')!;
+    const updated = replaceLetterSection(LETTER, injuries, '## IV. INJURIES AND MEDICAL TREATMENT\n\nRewritten.');
+    expect(updated).toContain('**RE: CLAIM FOR PERSONAL INJURIES**');
+    expect(updated).toContain('Rewritten.');
+    expect(updated).not.toContain('### Emergency Care');
+    expect(updated).toContain('## V. IMPACT ON LIFE');
+  });
+});
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { completeLlm, completeLlmStructured, LLM_TASKS, LlmTask } from '../llmGateway.js';
+import {
+  classificationSchema,
+  demandLetterSchema,
+  documentBoundariesSchema,
+  extractionSchemas,
+  ExtractionCategory,
+  gapExplanationsSchema,
+  medicalEventsOutputSchema,
+  sectionRegenerationSchema,
+} from '../../prompts/outputSchemas.js';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../../fixtures/llm');
+
+const STRUCTURED_TASKS: Partial<Record<LlmTask, z.ZodTypeAny>> = {
+  classification: classificationSchema,
+  segmentation: documentBoundariesSchema,
+  extraction: extractionSchemas.MEDICAL_RECORDS,
+  medical_events: medicalEventsOutputSchema,
+  gap_explanations: gapExplanationsSchema,
+  demand_letter: demandLetterSchema,
+  section_regeneration: sectionRegenerationSchema,
+};
+
+const TOOL = { name: 'record_output', description: 'Record the output' };
+
+describe('LLM fixtures', () => {
+  const env = { ...process.env };
+
+  beforeAll(() => {
+    process.env.LLM_PROVIDER = 'fake';
+    process.env.LLM_FIXTURES_DIR = FIXTURES_DIR;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('has a default fixture for every task', () => {
+    for (const task of LLM_TASKS) {
+      expect(fs.existsSync(path.join(FIXTURES_DIR, task, 'default.json'))).toBe(true);
+    }
+  });
+
+  it.each(Object.keys(STRUCTURED_TASKS) as LlmTask[])('replays a valid %s default', async (task) => {
+    const { validation } = await completeLlmStructured({ task, prompt: 'Any prompt', schema: STRUCTURED_TASKS[task], tool: TOOL });
+
+    expect(validation.status).toBe('valid');
+  });
+
+  it.each(LLM_TASKS.filter((task) => !STRUCTURED_TASKS[task]))('replays a %s default with text', async (task) => {
+    const result = await completeLlm({ task, prompt: 'Any prompt' });
+
+    expect(result.text.trim()).not.toBe('');
+  });
+
+  it.each(Object.keys(extractionSchemas) as ExtractionCategory[])('replays valid %s extraction', async (category) => {
+    const { validation } = await completeLlmStructured({
+      task: 'extraction',
+      prompt: 'Any prompt',
+      schema: extractionSchemas[category],
+      tool: TOOL,
+      fixture: category.toLowerCase(),
+    });
+
+    expect(validation.status).toBe('valid');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  calculateGovernmentClaimDeadline,
+  calculateStatuteOfLimitations,
+  deadlineLevel,
+  getCaseDeadlines,
+} from '../statuteService.js';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+const isoDate = (date: Date | undefined) => date?.toISOString().split('T')[0];
+
+describe('calculateStatuteOfLimitations', () => {
+  it('runs the period from the incident date', () => {
+    const result = calculateStatuteOfLimitations({ incidentDate: day('2025-03-15'), jurisdiction: 'CA' });
+    expect(isoDate(result?.deadline)).toBe('2027-03-15');
+    expect(result?.citation).toBe('Cal. Civ. Proc. Code § 335.1');
+  });
+
+  it('ends a leap-day incident on February 28, not March 1', () => {
+    const result = calculateStatuteOfLimitations({ incidentDate: day('2024-02-29'), jurisdiction: 'CA' });
+    expect(isoDate(result?.deadline)).toBe('2026-02-28');
+  });
+
+  it('keeps a leap-day incident on February 29 when the deadline year has one', () => {
+    const result = calculateStatuteOfLimitations({ incidentDate: day('2024-02-29'), jurisdiction: 'MO' });
+    expect(isoDate(result?.deadline)).toBe('2029-02-28');
+    const fourYears = calculateStatuteOfLimitations({ incidentDate: day('2024-02-29'), jurisdiction: 'NE' });
+    expect(isoDate(fourYears?.deadline)).toBe('2028-02-29');
+  });
+
+  it('keeps month-end incidents in their month', () => {
+    const result = calculateStatuteOfLimitations({ incidentDate: day('2025-08-31'), jurisdiction: 'CA' });
+    expect(isoDate(result?.deadline)).toBe('2027-08-31');
+  });
+
+  it('tolls a minor from a leap-day birthday to February 28 of the majority year', () => {
+    const result = calculateStatuteOfLimitations({
+      incidentDate: day('2020-06-01'),
+      jurisdiction: 'CA',
+      clientDateOfBirth: day('2008-02-29'),
+    });
+    expect(result?.tolledForMinority).toBe(true);
+    expect(isoDate(result?.deadline)).toBe('2028-02-28');
+  });
+
+  it('returns null for a jurisdiction without a rule', () => {
+    expect(calculateStatuteOfLimitations({ incidentDate: day('2025-01-01'), jurisdiction: 'ZZ' })).toBeNull();
+  });
+});
+
+describe('calculateGovernmentClaimDeadline', () => {
+  it('ends a 6-month claim period for an incident on the 31st at the end of the sixth month', () => {
+    const result = calculateGovernmentClaimDeadline({
+      incidentDate: day('2025-08-31'),
+      jurisdiction: 'CA',
+      defendantType: 'CITY',
+    });
+    expect(isoDate(result?.deadline)).toBe('2026-02-28');
+    expect(result?.citation).toBe('Cal. Gov. Code § 911.2');
+  });
+
+  it('counts day-based claim periods in days', () => {
+    const result = calculateGovernmentClaimDeadline({ incidentDate: day('2025-01-31'), jurisdiction: 'NY', defendantType: 'CITY' });
+    expect(isoDate(result?.deadline)).toBe('2025-05-01');
+  });
+
+  it('has no claim deadline for a private defendant', () => {
+    expect(
+      calculateGovernmentClaimDeadline({ incidentDate: day('2025-08-31'), jurisdiction: 'CA', defendantType: 'PRIVATE' })
+    ).toBeNull();
+  });
+
+  it('runs the 6-month suit period from a rejection on the 31st to the end of the sixth month', () => {
+    const result = calculateStatuteOfLimitations({
+      incidentDate: day('2025-05-01'),
+      jurisdiction: 'CA',
+      defendantType: 'COUNTY',
+      governmentClaimRejectedAt: day('2025-08-31'),
+    });
+    expect(isoDate(result?.deadline)).toBe('2026-02-28');
+    expect(result?.basis).toContain('6 months from claim rejection');
+  });
+
+  it('lists the claim deadline first for a public-entity case', () => {
+    const deadlines = getCaseDeadlines(
+      {
+        incidentDate: day('2025-08-31'),
+        incidentType: 'auto_accident',
+        jurisdiction: 'CA',
+        clientDateOfBirth: null,
+        defendantType: 'STATE',
+        statuteOfLimitations: null,
+        statuteOfLimitationsManual: false,
+        governmentClaimFiledAt: null,
+        governmentClaimRejectedAt: null,
+      },
+      day('2025-09-01')
+    );
+    expect(deadlines.map((deadline) => [deadline.type, deadline.dueDate])).toEqual([
+      ['government_claim', '2026-02-28'],
+      ['statute_of_limitations', '2027-08-31'],
+    ]);
+  });
+});
+
+describe('getCaseDeadlines', () => {
+  it('counts down to a month-end deadline and sets the alert level', () => {
+    const deadlines = getCaseDeadlines(
+      {
+        incidentDate: day('2024-02-29'),
+        incidentType: 'slip_and_fall',
+        jurisdiction: 'CA',
+        clientDateOfBirth: null,
+        defendantType: 'PRIVATE',
+        statuteOfLimitations: null,
+        statuteOfLimitationsManual: false,
+        governmentClaimFiledAt: null,
+        governmentClaimRejectedAt: null,
+      },
+      day('2026-02-01')
+    );
+
+    expect(deadlines).toEqual([
+      expect.objectContaining({ type: 'statute_of_limitations', dueDate: '2026-02-28', daysRemaining: 27, level: 'critical' }),
+    ]);
+  });
+
+  it('escalates alerts at 180, 90 and 30 days', () => {
+    expect([181, 180, 90, 30, -1].map(deadlineLevel)).toEqual(['ok', 'notice', 'warning', 'critical', 'expired']);
+  });
+});
@@ -0,0 +1,79 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { LlmProvider } from './llmGateway.js';
+import { RetryableLlmError } from './llmGateway.js';
+
+// 529 is Anthropic's "overloaded"
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+function retryAfterMs(headers: Record<string, string | null | undefined> | undefined): number | null {
+  const value = headers?.['retry-after'];
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function createAnthropicLlmProvider(): LlmProvider {
+  // Retries are the gateway's job so they're logged and counted in one place
+  const client = new Anthropic({
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    maxRetries: 0,
+  });
+
+  return {
+    name: 'anthropic',
+
+    async complete(request) {
+      try {
+        const response = await client.messages.create(
+          {
+            model: request.model,
+            max_tokens: request.maxTokens,
+            ...(request.temperature !== null && { temperature: request.temperature }),
+            ...(request.system && { system: request.system }),
+            ...(request.tool && {
+              tools: [
+                {
+                  name: request.tool.name,
+                  description: request.tool.description,
+                  input_schema: request.tool.inputSchema as Anthropic.Tool.InputSchema,
+                },
+              ],
+              tool_choice: { type: 'tool' as const, name: request.tool.name },
+            }),
+            messages: request.messages,
+          },
+          { timeout: request.timeoutMs }
+        );
+
+        const text = response.content
+          .map((block) => (block.type === 'text' ? block.text : ''))
+          .join('');
+        const toolUse = response.content.find((block) => block.type === 'tool_use');
+        if (!text && !toolUse) {
+          throw new Error('Unexpected response type');
+        }
+
+        return {
+          text,
+          toolInput: toolUse?.type === 'tool_use' ? toolUse.input : undefined,
+          model: response.model,
+          stopReason: response.stop_reason,
+          usage: {
+            inputTokens: response.usage.input_tokens,
+            outputTokens: response.usage.output_tokens,
+          },
+        };
+      } catch (error) {
+        if (error instanceof Anthropic.APIConnectionError) {
+          throw new RetryableLlmError(error.message, null);
+        }
+        if (error instanceof Anthropic.APIError && error.status && RETRYABLE_STATUSES.has(error.status)) {
+          throw new RetryableLlmError(error.message, error.status, retryAfterMs(error.headers));
+        }
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,202 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { logger } from '../utils/logger.js';
+
+/** Field-level changes for an edit: { field: { before, after } } */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEventInput {
+  firmId: string;
+  actor?: { id: string; email: string; name: string } | null;
+  action: string;
+  resourceType: string;
+  resourceId?: string | null;
+  caseId?: string | null;
+  method: string;
+  path: string;
+  statusCode: number;
+  changes?: AuditChanges | null;
+  metadata?: Record<string, unknown> | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AuditEventFilters {
+  actorId?: string;
+  action?: string;
+  resourceType?: string;
+  caseId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/** Most rows a single CSV export will write */
+export const AUDIT_EXPORT_LIMIT = 50_000;
+
+const EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Normalize values so dates, decimals and nested JSON compare and store
+ * consistently.
+ */
+function toAuditValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Changed fields between two versions of a record. Only fields present in
+ * `after` (or listed in `fields`) are compared, so partial updates diff
+ * against what they actually touched.
+ */
+export function diffChanges(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  fields?: string[]
+): AuditChanges {
+  const keys = fields ?? Object.keys(after ?? before ?? {});
+  const changes: AuditChanges = {};
+
+  for (const key of keys) {
+    if (key === 'updatedAt') continue;
+    const previous = toAuditValue(before?.[key]);
+    const next = toAuditValue(after?.[key]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Append an event to the audit log. Failures are logged rather than thrown so
+ * auditing never breaks the request it records.
+ */
+export async function recordAuditEvent(input: AuditEventInput): Promise<void> {
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        firmId: input.firmId,
+        actorId: input.actor?.id ?? null,
+        actorEmail: input.actor?.email ?? null,
+        actorName: input.actor?.name ?? null,
+        action: input.action,
+        resourceType: input.resourceType,
+        resourceId: input.resourceId ?? null,
+        caseId: input.caseId ?? null,
+        method: input.method,
+        path: input.path,
+        statusCode: input.statusCode,
+        changes:
+          input.changes && Object.keys(input.changes).length > 0
+            ? (input.changes as Prisma.InputJsonValue)
+            : Prisma.DbNull,
+        metadata: input.metadata ? (input.metadata as Prisma.InputJsonValue) : Prisma.DbNull,
+        ipAddress: input.ipAddress ?? null,
+        userAgent: input.userAgent?.slice(0, 500) ?? null,
+      },
+    });
+  } catch (error) {
+    logger.error(`Failed to record audit event ${input.action}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Reject UPDATE and DELETE on the audit table at the database level so the
+ * log stays append-only regardless of which code path touches it.
+ */
+export async function ensureAuditLogAppendOnly(): Promise<void> {
+  await prisma.$executeRawUnsafe(`
+    CREATE OR REPLACE FUNCTION audit_event_append_only() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'AuditEvent rows are append-only';
+    END;
+    $$ LANGUAGE plpgsql`);
+  await prisma.$executeRawUnsafe(`DROP TRIGGER IF EXISTS audit_event_append_only ON "AuditEvent"`);
+  await prisma.$executeRawUnsafe(`
+    CREATE TRIGGER audit_event_append_only
+    BEFORE UPDATE OR DELETE ON "AuditEvent"
+    FOR EACH ROW EXECUTE FUNCTION audit_event_append_only()`);
+}
+
+export function buildAuditWhere(firmId: string, filters: AuditEventFilters): Prisma.AuditEventWhereInput {
+  return {
+    firmId,
+    actorId: filters.actorId || undefined,
+    action: filters.action ? { startsWith: filters.action } : undefined,
+    resourceType: filters.resourceType || undefined,
+    caseId: filters.caseId || undefined,
+    createdAt: filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+  };
+}
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'actorName',
+  'actorEmail',
+  'action',
+  'resourceType',
+  'resourceId',
+  'caseId',
+  'method',
+  'path',
+  'statusCode',
+  'ipAddress',
+  'userAgent',
+  'changes',
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  // Quote every cell and neutralize spreadsheet formulas
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function auditCsvHeader(): string {
+  return CSV_COLUMNS.join(',') + '\n';
+}
+
+export function auditEventToCsvRow(event: Prisma.AuditEventGetPayload<object>): string {
+  const row: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+    timestamp: event.createdAt.toISOString(),
+    actorName: event.actorName,
+    actorEmail: event.actorEmail,
+    action: event.action,
+    resourceType: event.resourceType,
+    resourceId: event.resourceId,
+    caseId: event.caseId,
+    method: event.method,
+    path: event.path,
+    statusCode: event.statusCode,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    changes: event.changes,
+  };
+  return CSV_COLUMNS.map((column) => csvCell(row[column])).join(',') + '\n';
+}
+
+/**
+ * Page through matching events oldest-first in fixed batches, for streaming
+ * exports without loading the whole log into memory.
+ */
+export async function* iterateAuditEvents(where: Prisma.AuditEventWhereInput, limit = AUDIT_EXPORT_LIMIT) {
+  let cursor: string | undefined;
+  let remaining = limit;
+
+  while (remaining > 0) {
+    const batch = await prisma.auditEvent.findMany({
+      where,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: Math.min(EXPORT_BATCH_SIZE, remaining),
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (batch.length === 0) return;
+
+    yield* batch;
+    remaining -= batch.length;
+    cursor = batch[batch.length - 1].id;
+  }
+}
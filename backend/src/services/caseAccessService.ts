@@ -0,0 +1,45 @@
+import { Prisma } from '@prisma/client';
+import { Permission } from './permissionService.js';
+
+/** The parts of an authenticated request that decide which cases are visible */
+export interface CaseViewer {
+  user: { id: string };
+  firm: { id: string };
+  permissions: Permission[];
+}
+
+/**
+ * Firm members who manage the firm can see every case so a restricted case
+ * can never be orphaned; everyone else only sees restricted cases they are
+ * on the team of.
+ */
+export function canBypassEthicalWall(viewer: CaseViewer): boolean {
+  return viewer.permissions.includes('firm:manage');
+}
+
+/**
+ * Where clause for the cases a user can see. Spread it into any case lookup
+ * in place of a bare firmId filter.
+ */
+export function caseAccessWhere(viewer: CaseViewer): Prisma.CaseWhereInput {
+  if (canBypassEthicalWall(viewer)) {
+    return { firmId: viewer.firm.id };
+  }
+
+  return {
+    firmId: viewer.firm.id,
+    OR: [{ restricted: false }, { team: { some: { userId: viewer.user.id } } }],
+  };
+}
+
+/** The same rule as caseAccessWhere for raw SQL over an aliased Case table */
+export function caseAccessSql(viewer: CaseViewer, alias = 'c'): Prisma.Sql {
+  const table = Prisma.raw(`"${alias}"`);
+  if (canBypassEthicalWall(viewer)) {
+    return Prisma.sql`${table}."firmId" = ${viewer.firm.id}`;
+  }
+
+  return Prisma.sql`${table}."firmId" = ${viewer.firm.id} AND (${table}."restricted" = false OR EXISTS (
+    SELECT 1 FROM "CaseTeamMember" ctm WHERE ctm."caseId" = ${table}."id" AND ctm."userId" = ${viewer.user.id}
+  ))`;
+}
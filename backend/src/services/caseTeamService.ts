@@ -0,0 +1,179 @@
+import { CaseTeamRole, Prisma, UserRole } from '@prisma/client';
+import prisma from '../db/client.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+export const teamMemberInclude = {
+  user: { select: { id: true, name: true, email: true, role: true } },
+} satisfies Prisma.CaseTeamMemberInclude;
+
+export type CaseTeamMemberWithUser = Prisma.CaseTeamMemberGetPayload<{ include: typeof teamMemberInclude }>;
+
+// Who is on the team, most senior role first
+const TEAM_ROLE_ORDER: CaseTeamRole[] = ['RESPONSIBLE_ATTORNEY', 'ATTORNEY', 'PARALEGAL', 'STAFF'];
+
+/** The case role a firm member gets when they open a case themselves */
+export function defaultTeamRole(userRole: UserRole | string): CaseTeamRole {
+  switch (userRole) {
+    case 'ADMIN':
+    case 'ATTORNEY':
+      return 'RESPONSIBLE_ATTORNEY';
+    case 'PARALEGAL':
+      return 'PARALEGAL';
+    default:
+      return 'STAFF';
+  }
+}
+
+export async function listCaseTeam(caseId: string): Promise<CaseTeamMemberWithUser[]> {
+  const members = await prisma.caseTeamMember.findMany({
+    where: { caseId },
+    include: teamMemberInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+  return members.sort((a, b) => TEAM_ROLE_ORDER.indexOf(a.role) - TEAM_ROLE_ORDER.indexOf(b.role));
+}
+
+async function findFirmUser(userId: string, firmId: string) {
+  const user = await prisma.user.findFirst({ where: { id: userId, firmId, deactivatedAt: null } });
+  if (!user) {
+    throw new BadRequestError('User is not an active member of this firm');
+  }
+  return user;
+}
+
+// A case has one responsible attorney; handing the role to someone else
+// keeps the previous holder on the team as an attorney
+async function demoteResponsibleAttorney(tx: Prisma.TransactionClient, caseId: string, exceptUserId: string) {
+  await tx.caseTeamMember.updateMany({
+    where: { caseId, role: 'RESPONSIBLE_ATTORNEY', userId: { not: exceptUserId } },
+    data: { role: 'ATTORNEY' },
+  });
+}
+
+/**
+ * Add a firm member to a case team, or change their role if they are
+ * already on it.
+ */
+export async function upsertTeamMember(
+  caseId: string,
+  firmId: string,
+  userId: string,
+  role: CaseTeamRole,
+  addedById: string
+): Promise<CaseTeamMemberWithUser> {
+  await findFirmUser(userId, firmId);
+
+  return prisma.$transaction(async (tx) => {
+    if (role === 'RESPONSIBLE_ATTORNEY') {
+      await demoteResponsibleAttorney(tx, caseId, userId);
+    }
+
+    return tx.caseTeamMember.upsert({
+      where: { caseId_userId: { caseId, userId } },
+      create: { caseId, userId, role, addedById },
+      update: { role },
+      include: teamMemberInclude,
+    });
+  });
+}
+
+/**
+ * Take a member off a case team. The last member can't be removed; reassign
+ * the case instead so it always has someone working it.
+ */
+export async function removeTeamMember(caseId: string, userId: string): Promise<CaseTeamMemberWithUser> {
+  const member = await prisma.caseTeamMember.findUnique({
+    where: { caseId_userId: { caseId, userId } },
+    include: teamMemberInclude,
+  });
+  if (!member) {
+    throw new NotFoundError('Team member not found');
+  }
+
+  const teamSize = await prisma.caseTeamMember.count({ where: { caseId } });
+  if (teamSize <= 1) {
+    throw new BadRequestError('A case needs at least one team member; reassign it instead');
+  }
+
+  await prisma.caseTeamMember.delete({ where: { id: member.id } });
+  return member;
+}
+
+/**
+ * Hand one member's place on a case team to another firm member, e.g. when
+ * an attorney leaves or a paralegal's caseload is rebalanced. The new member
+ * takes over the role; if they were already on the team they keep whichever
+ * role is more senior.
+ */
+export async function reassignTeamMember(
+  caseId: string,
+  firmId: string,
+  fromUserId: string,
+  toUserId: string,
+  addedById: string
+): Promise<CaseTeamMemberWithUser> {
+  if (fromUserId === toUserId) {
+    throw new BadRequestError('Choose a different team member to reassign to');
+  }
+  await findFirmUser(toUserId, firmId);
+
+  return prisma.$transaction(async (tx) => {
+    const from = await tx.caseTeamMember.findUnique({
+      where: { caseId_userId: { caseId, userId: fromUserId } },
+    });
+    if (!from) {
+      throw new NotFoundError('Team member not found');
+    }
+
+    const existing = await tx.caseTeamMember.findUnique({
+      where: { caseId_userId: { caseId, userId: toUserId } },
+    });
+    const role =
+      existing && TEAM_ROLE_ORDER.indexOf(existing.role) < TEAM_ROLE_ORDER.indexOf(from.role)
+        ? existing.role
+        : from.role;
+
+    await tx.caseTeamMember.delete({ where: { id: from.id } });
+
+    return tx.caseTeamMember.upsert({
+      where: { caseId_userId: { caseId, userId: toUserId } },
+      create: { caseId, userId: toUserId, role, addedById },
+      update: { role },
+      include: teamMemberInclude,
+    });
+  });
+}
+
+/**
+ * Put the creator of each case opened before case teams existed on its team,
+ * so "my cases" includes them.
+ */
+export async function backfillCaseTeams(batchSize: number = 200): Promise<void> {
+  let backfilled = 0;
+
+  for (;;) {
+    const cases = await prisma.case.findMany({
+      where: { team: { none: {} } },
+      select: { id: true, createdById: true, createdBy: { select: { role: true } } },
+      take: batchSize,
+    });
+    if (cases.length === 0) break;
+
+    await prisma.caseTeamMember.createMany({
+      data: cases.map((caseData) => ({
+        caseId: caseData.id,
+        userId: caseData.createdById,
+        role: defaultTeamRole(caseData.createdBy.role),
+        addedById: caseData.createdById,
+      })),
+      skipDuplicates: true,
+    });
+    backfilled += cases.length;
+    if (cases.length < batchSize) break;
+  }
+
+  if (backfilled > 0) {
+    logger.info(`Case teams backfilled for ${backfilled} cases`);
+  }
+}
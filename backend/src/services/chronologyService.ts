@@ -1,10 +1,10 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { prisma } from '../db/client';
 import { MedicalEvent, MedicalChronology, Case, Prisma } from '@prisma/client';
 import { logger } from '../utils/logger';
 import { Decimal } from '@prisma/client/runtime/library';
-
-const anthropic = new Anthropic();
+import { gapExplanationsSchema } from '../prompts/outputSchemas';
+import { completeLlmStructured, completeLlmText, LlmCallContext } from './llmGateway';
+import { assertWithinUsageQuota } from './usageService';
 
 interface TreatmentGap {
   startDate: string;
@@ -63,6 +63,7 @@ export async function generateChronology(caseId: string): Promise<MedicalChronol
   const caseData = await prisma.case.findUnique({
     where: { id: caseId },
     select: {
+      firmId: true,
       clientFirstName: true,
       clientLastName: true,
       incidentDate: true,
@@ -75,6 +76,10 @@ export async function generateChronology(caseId: string): Promise<MedicalChronol
     throw new Error('Case not found');
   }
 
+  // Each AI step below falls back quietly on error, so check the quota once here
+  await assertWithinUsageQuota(caseData.firmId);
+  const llmContext: LlmCallContext = { firmId: caseData.firmId, caseId };
+
   // Calculate summary statistics
   const firstVisitDate = events[0].dateOfService;
   const lastVisitDate = events[events.length - 1].dateOfService;
@@ -93,7 +98,7 @@ export async function generateChronology(caseId: string): Promise<MedicalChronol
   const treatmentGaps = detectTreatmentGaps(events);
 
   // Generate gap explanations using AI
-  const gapsWithExplanations = await generateGapExplanations(treatmentGaps, events, caseData);
+  const gapsWithExplanations = await generateGapExplanations(treatmentGaps, events, caseData, llmContext);
 
   // Extract pain score history
   const painScoreHistory = extractPainScoreHistory(events);
@@ -121,7 +126,8 @@ export async function generateChronology(caseId: string): Promise<MedicalChronol
       treatmentGaps: gapsWithExplanations,
       providersSummary,
       diagnosisSummary,
-    }
+    },
+    llmContext
   );
 
   // Generate executive summary
@@ -133,7 +139,8 @@ export async function generateChronology(caseId: string): Promise<MedicalChronol
       totalVisits,
       totalMedicalCosts,
       diagnosisSummary,
-    }
+    },
+    llmContext
   );
 
   // Upsert the chronology
@@ -264,7 +271,8 @@ function detectTreatmentGaps(events: MedicalEvent[]): TreatmentGap[] {
 async function generateGapExplanations(
   gaps: TreatmentGap[],
   events: MedicalEvent[],
-  caseData: { clientFirstName: string; clientLastName: string }
+  caseData: { clientFirstName: string; clientLastName: string },
+  context: LlmCallContext
 ): Promise<TreatmentGap[]> {
   if (gaps.length === 0) return gaps;
 
@@ -279,34 +287,19 @@ For each gap, provide:
 1. A reasonable explanation (financial constraints, work obligations, symptom improvement followed by flare-up, etc.)
 2. Impact assessment (how this might affect the case)
 
-Return JSON array:
-[
-  {
-    "startDate": "YYYY-MM-DD",
-    "endDate": "YYYY-MM-DD",
-    "durationDays": number,
-    "explanation": "Reasonable explanation for the gap",
-    "impact": "low|medium|high - brief impact assessment"
-  }
-]
+Record one entry per gap with its startDate, endDate and durationDays as given, an explanation, and an impact of "low|medium|high - brief impact assessment".
 
 Be realistic but frame explanations favorably for the plaintiff when possible.`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 2000,
-      messages: [{ role: 'user', content: prompt }]
+    const { data } = await completeLlmStructured({
+      task: 'gap_explanations',
+      prompt,
+      schema: gapExplanationsSchema,
+      tool: { name: 'record_gap_explanations', description: 'Record an explanation and impact for each treatment gap' },
+      context,
     });
-
-    const content = response.content[0];
-    if (content.type === 'text') {
-      let text = content.text.trim();
-      if (text.startsWith('```json')) text = text.slice(7);
-      if (text.startsWith('```')) text = text.slice(3);
-      if (text.endsWith('```')) text = text.slice(0, -3);
-      return JSON.parse(text.trim());
-    }
+    return data.gaps as TreatmentGap[];
   } catch (error) {
     logger.error('Error generating gap explanations:', error);
   }
@@ -459,7 +452,8 @@ function detectMMI(events: MedicalEvent[]): { mmiDate?: Date; mmiNotes?: string;
 async function generateChronologyNarrative(
   events: MedicalEvent[],
   caseData: { clientFirstName: string; clientLastName: string; incidentDate: Date; incidentType: string; incidentDescription?: string | null },
-  stats: { treatmentDurationDays: number; totalVisits: number; totalMedicalCosts: number; treatmentGaps: TreatmentGap[]; providersSummary: ProviderSummary[]; diagnosisSummary: DiagnosisSummary[] }
+  stats: { treatmentDurationDays: number; totalVisits: number; totalMedicalCosts: number; treatmentGaps: TreatmentGap[]; providersSummary: ProviderSummary[]; diagnosisSummary: DiagnosisSummary[] },
+  context: LlmCallContext
 ): Promise<string> {
   const prompt = `Generate a compelling medical treatment narrative for a personal injury demand letter.
 
@@ -509,16 +503,7 @@ Write a compelling, chronological medical treatment narrative that:
 Output ONLY the narrative text in markdown format. No JSON, no additional commentary.`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 4000,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    const content = response.content[0];
-    if (content.type === 'text') {
-      return content.text;
-    }
+    return await completeLlmText({ task: 'chronology_narrative', prompt, context });
   } catch (error) {
     logger.error('Error generating chronology narrative:', error);
   }
@@ -529,7 +514,8 @@ Output ONLY the narrative text in markdown format. No JSON, no additional commen
 async function generateExecutiveSummary(
   events: MedicalEvent[],
   caseData: { clientFirstName: string; clientLastName: string; incidentDate: Date; incidentType: string },
-  stats: { treatmentDurationDays: number; totalVisits: number; totalMedicalCosts: number; diagnosisSummary: DiagnosisSummary[] }
+  stats: { treatmentDurationDays: number; totalVisits: number; totalMedicalCosts: number; diagnosisSummary: DiagnosisSummary[] },
+  context: LlmCallContext
 ): Promise<string> {
   const prompt = `Generate a brief executive summary (3-4 paragraphs) for this personal injury case.
 
@@ -551,16 +537,7 @@ Write a concise executive summary highlighting:
 Output ONLY the summary text. No headers, no JSON.`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 1000,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    const content = response.content[0];
-    if (content.type === 'text') {
-      return content.text;
-    }
+    return await completeLlmText({ task: 'executive_summary', prompt, context });
   } catch (error) {
     logger.error('Error generating executive summary:', error);
   }
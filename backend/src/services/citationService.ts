@@ -0,0 +1,181 @@
+import type { PageMapEntry } from './textExtraction.js';
+
+export type CitationField =
+  | 'date_of_service'
+  | 'chief_complaint'
+  | 'diagnoses'
+  | 'pain_score'
+  | 'key_quotes'
+  | 'causation_statements'
+  | 'charges';
+
+/**
+ * Citation as returned by the extraction model, before it is checked
+ * against the document text.
+ */
+export interface RawCitation {
+  field: CitationField;
+  value: string;
+  page?: number | null;
+  quote?: string | null;
+}
+
+/**
+ * Citation persisted on MedicalEvent.citations. start/end are character
+ * offsets into Document.extractedText when the quote was found verbatim.
+ */
+export interface SourceCitation {
+  field: CitationField;
+  value: string;
+  page: number | null;
+  quote: string | null;
+  start: number | null;
+  end: number | null;
+  verified: boolean;
+}
+
+const PAGE_MARKER_RE = /\[\[PAGE (\d+)\]\]/g;
+
+/**
+ * Insert [[PAGE n]] markers at each page boundary so the model can report
+ * which page a fact came from. Returns the text unchanged without a page map.
+ */
+export function annotatePages(text: string, pageMap: PageMapEntry[] | null | undefined): string {
+  if (!pageMap || pageMap.length === 0) {
+    return text;
+  }
+
+  let annotated = '';
+  let cursor = 0;
+
+  for (const entry of pageMap) {
+    annotated += text.slice(cursor, entry.start);
+    annotated += `[[PAGE ${entry.page}]]\n`;
+    annotated += text.slice(entry.start, entry.end);
+    cursor = entry.end;
+  }
+
+  return annotated + text.slice(cursor);
+}
+
+/**
+ * Carry the current page marker over chunk boundaries so every chunk the
+ * model sees starts with the page it is on.
+ */
+export function continuePageMarkers(chunks: string[]): string[] {
+  let currentPage: string | null = null;
+
+  return chunks.map((chunk) => {
+    const startsWithMarker = /^\s*\[\[PAGE \d+\]\]/.test(chunk);
+    const result = currentPage && !startsWithMarker ? `[[PAGE ${currentPage}]]\n${chunk}` : chunk;
+
+    for (const match of chunk.matchAll(PAGE_MARKER_RE)) {
+      currentPage = match[1];
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Find the page containing a character offset in the extracted text.
+ */
+export function pageForOffset(pageMap: PageMapEntry[] | null | undefined, offset: number): number | null {
+  if (!pageMap || pageMap.length === 0) {
+    return null;
+  }
+
+  for (const entry of pageMap) {
+    if (offset < entry.end) {
+      return entry.page;
+    }
+  }
+
+  return pageMap[pageMap.length - 1].page;
+}
+
+interface NormalizedText {
+  text: string;
+  offsets: number[];
+}
+
+// Lowercase and collapse whitespace, keeping a map back to original offsets
+function normalize(text: string): NormalizedText {
+  let normalized = '';
+  const offsets: number[] = [];
+  let inWhitespace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      if (!inWhitespace && normalized.length > 0) {
+        normalized += ' ';
+        offsets.push(i);
+      }
+      inWhitespace = true;
+      continue;
+    }
+    inWhitespace = false;
+    normalized += char.toLowerCase();
+    offsets.push(i);
+  }
+
+  return { text: normalized, offsets };
+}
+
+/**
+ * Locate model citations in the document text. Quotes found verbatim
+ * (ignoring case and whitespace) take their page from the page map;
+ * otherwise the model's page is kept but marked unverified.
+ */
+export function resolveCitations(
+  citations: RawCitation[] | null | undefined,
+  extractedText: string,
+  pageMap: PageMapEntry[] | null | undefined
+): SourceCitation[] {
+  if (!citations || citations.length === 0) {
+    return [];
+  }
+
+  const source = normalize(extractedText);
+  const maxPage = pageMap && pageMap.length > 0 ? pageMap[pageMap.length - 1].page : null;
+  const resolved: SourceCitation[] = [];
+
+  for (const citation of citations) {
+    if (!citation || !citation.field || citation.value === undefined || citation.value === null) {
+      continue;
+    }
+
+    const quote = citation.quote ? citation.quote.replace(PAGE_MARKER_RE, '').trim() : null;
+    let start: number | null = null;
+    let end: number | null = null;
+    let page: number | null = null;
+
+    if (quote) {
+      const needle = normalize(quote).text;
+      const index = needle ? source.text.indexOf(needle) : -1;
+      if (index >= 0) {
+        start = source.offsets[index];
+        end = source.offsets[index + needle.length - 1] + 1;
+        page = pageForOffset(pageMap, start);
+      }
+    }
+
+    const modelPage = typeof citation.page === 'number' && citation.page >= 1 ? Math.floor(citation.page) : null;
+    if (page === null && modelPage !== null && (maxPage === null || modelPage <= maxPage)) {
+      page = modelPage;
+    }
+
+    resolved.push({
+      field: citation.field,
+      value: String(citation.value),
+      page,
+      quote,
+      start,
+      end,
+      verified: start !== null,
+    });
+  }
+
+  return resolved;
+}
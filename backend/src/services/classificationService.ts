@@ -1,10 +1,8 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { logger } from '../utils/logger.js';
-import { CLASSIFICATION_PROMPT } from '../prompts/classificationPrompt.js';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { CLASSIFICATION_PROMPT, SEGMENTATION_PROMPT } from '../prompts/classificationPrompt.js';
+import { classificationSchema, documentBoundariesSchema } from '../prompts/outputSchemas.js';
+import { completeLlmStructured, LlmCallContext, LlmValidationError, LlmValidationRecord } from './llmGateway.js';
+import { PageMapEntry } from './textExtraction.js';
 
 export interface ClassificationResult {
   category: string;
@@ -14,58 +12,56 @@ export interface ClassificationResult {
   providerName: string | null;
 }
 
-export async function classifyDocument(text: string): Promise<ClassificationResult> {
+/** One logical document within a combined upload, by page range */
+export interface DocumentSegment {
+  pageStart: number;
+  pageEnd: number;
+  category: string;
+  subcategory: string | null;
+  documentDate: string | null;
+  providerName: string | null;
+}
+
+// Pages sent per segmentation call, and how much of each page; boundaries show in headers
+const SEGMENTATION_WINDOW_PAGES = 40;
+const SEGMENTATION_PAGE_CHARS = 1200;
+
+export async function classifyDocument(
+  text: string,
+  validation?: LlmValidationRecord[],
+  context?: LlmCallContext,
+  sourcePath?: string | null
+): Promise<ClassificationResult> {
   try {
     // Truncate text if too long (use first 10k chars for classification)
     const truncatedText = text.substring(0, 10000);
+    // Where an imported file sat in the sender's folders, as a hint only
+    const location = sourcePath
+      ? `Imported from: ${sourcePath}\n(Folder names are the sender's filing and can be wrong; the document text decides.)\n\n`
+      : '';
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 1024,
-      messages: [
-        {
-          role: 'user',
-          content: `${CLASSIFICATION_PROMPT}\n\n---\n\nDocument text:\n${truncatedText}`,
-        },
-      ],
+    const { data, validation: record } = await completeLlmStructured({
+      task: 'classification',
+      prompt: `${CLASSIFICATION_PROMPT}\n\n---\n\n${location}Document text:\n${truncatedText}`,
+      schema: classificationSchema,
+      tool: { name: 'record_classification', description: 'Record the category and metadata of the document' },
+      context,
     });
+    validation?.push(record);
 
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type');
-    }
+    logger.info(`Document classified as: ${data.category} (${data.confidence})`);
 
-    // Parse JSON from response
-    const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
-    }
-
-    const result = JSON.parse(jsonMatch[0]) as ClassificationResult;
-
-    // Validate category
-    const validCategories = [
-      'MEDICAL_RECORDS',
-      'MEDICAL_BILLS',
-      'POLICE_REPORT',
-      'PHOTOS',
-      'WAGE_DOCUMENTATION',
-      'INSURANCE_CORRESPONDENCE',
-      'WITNESS_STATEMENT',
-      'EXPERT_REPORT',
-      'PRIOR_MEDICAL_RECORDS',
-      'LIEN_LETTER',
-      'OTHER',
-    ];
-
-    if (!validCategories.includes(result.category)) {
-      result.category = 'OTHER';
-    }
-
-    logger.info(`Document classified as: ${result.category} (${result.confidence})`);
-
-    return result;
+    return {
+      category: data.category,
+      subcategory: data.subcategory ?? null,
+      confidence: data.confidence,
+      documentDate: data.documentDate ?? null,
+      providerName: data.providerName ?? null,
+    };
   } catch (error) {
+    if (error instanceof LlmValidationError) {
+      validation?.push(error.record);
+    }
     logger.error('Classification error:', error);
     // Return default classification on error
     return {
@@ -77,3 +73,83 @@ export async function classifyDocument(text: string): Promise<ClassificationResu
     };
   }
 }
+
+/**
+ * Page-level classification of a combined upload: find the pages where each
+ * separate document begins and classify each one. Long files are read in
+ * windows of pages; a window's first page only starts a document if the model
+ * says so. Returns a single segment when nothing could be detected.
+ */
+export async function detectDocumentSegments(
+  text: string,
+  pageMap: PageMapEntry[],
+  validation?: LlmValidationRecord[],
+  context?: LlmCallContext
+): Promise<DocumentSegment[]> {
+  const firstPage = pageMap[0].page;
+  const lastPage = pageMap[pageMap.length - 1].page;
+  const starts: Array<Omit<DocumentSegment, 'pageEnd'>> = [];
+
+  try {
+    for (let i = 0; i < pageMap.length; i += SEGMENTATION_WINDOW_PAGES) {
+      const window = pageMap.slice(i, i + SEGMENTATION_WINDOW_PAGES);
+      const windowFirst = window[0].page;
+      const windowLast = window[window.length - 1].page;
+
+      const pages = window
+        .map((entry) => {
+          const pageText = text.slice(entry.start, entry.end).trim();
+          const preview =
+            pageText.length > SEGMENTATION_PAGE_CHARS ? `${pageText.slice(0, SEGMENTATION_PAGE_CHARS)} [...]` : pageText;
+          return `--- Page ${entry.page} ---\n${preview || '[blank page]'}`;
+        })
+        .join('\n\n');
+
+      const range = `Pages ${windowFirst}-${windowLast} of ${lastPage}.`;
+      const continuation =
+        i > 0 ? ` Page ${windowFirst} may continue a document that began on an earlier page.` : '';
+
+      const { data, validation: record } = await completeLlmStructured({
+        task: 'segmentation',
+        prompt: `${SEGMENTATION_PROMPT}\n\n---\n\n${range}${continuation}\n\n${pages}`,
+        schema: documentBoundariesSchema,
+        tool: { name: 'record_document_boundaries', description: 'Record where each separate document begins' },
+        context,
+      });
+      validation?.push(record);
+
+      for (const found of data.documents) {
+        if (found.startPage < windowFirst || found.startPage > windowLast) continue;
+        if (starts.some((start) => start.pageStart === found.startPage)) continue;
+        starts.push({
+          pageStart: found.startPage,
+          category: found.category,
+          subcategory: found.subcategory ?? null,
+          documentDate: found.documentDate ?? null,
+          providerName: found.providerName ?? null,
+        });
+      }
+    }
+  } catch (error) {
+    if (error instanceof LlmValidationError) {
+      validation?.push(error.record);
+    }
+    logger.error('Segmentation error:', error);
+    starts.length = 0;
+  }
+
+  starts.sort((a, b) => a.pageStart - b.pageStart);
+  if (starts.length === 0) {
+    return [{ pageStart: firstPage, pageEnd: lastPage, category: 'OTHER', subcategory: null, documentDate: null, providerName: null }];
+  }
+  // Pages before the first boundary belong to the first document
+  starts[0].pageStart = firstPage;
+
+  const segments = starts.map((start, index) => ({
+    ...start,
+    pageEnd: index < starts.length - 1 ? starts[index + 1].pageStart - 1 : lastPage,
+  }));
+
+  logger.info(`Detected ${segments.length} document(s) in ${pageMap.length} pages`);
+  return segments;
+}
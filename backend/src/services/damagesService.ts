@@ -0,0 +1,484 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { logger } from '../utils/logger.js';
+import { parseLetterSections, replaceLetterSection } from './letterSectionService.js';
+import { CANONICAL_DOCUMENT_WHERE } from './duplicateService.js';
+
+export type GeneralDamagesMethod = 'multiplier' | 'per_diem' | 'blended';
+
+export interface DamagesRangeValues {
+  low: number;
+  target: number;
+  high: number;
+}
+
+export interface DamagesLineItem {
+  description: string;
+  amount: number;
+}
+
+/**
+ * Attorney-adjustable assumptions. Stored with every calculation so the
+ * numbers can always be reproduced.
+ */
+export interface DamagesInputs {
+  method: GeneralDamagesMethod;
+  /** Which medical figure the multiplier is applied to */
+  multiplierBase: 'billed' | 'paid';
+  multiplier: DamagesRangeValues;
+  perDiem: {
+    dailyRate: DamagesRangeValues;
+    /** Days of pain and suffering; defaults to incident date through last treatment */
+    days: number | null;
+  };
+  futureMedical: DamagesLineItem[];
+  otherSpecials: DamagesLineItem[];
+  /** Replaces the wage loss extracted from wage documentation */
+  wageLossOverride: number | null;
+}
+
+export interface ItemizedCharge {
+  provider: string;
+  date: string | null;
+  description: string;
+  billed: number;
+  paid: number;
+  adjustments: number;
+  outstanding: number;
+}
+
+export interface SpecialDamages {
+  /** Total billed charges */
+  medicalBills: number;
+  medicalPaid: number;
+  medicalAdjustments: number;
+  medicalOutstanding: number;
+  futureMedical: number;
+  wageLoss: number;
+  otherSpecials: number;
+  /** Billed past medical + future medical + wage loss + other specials */
+  total: number;
+}
+
+export interface DamagesRangeEntry {
+  generalDamages: number;
+  specialDamages: number;
+  total: number;
+}
+
+export interface DamagesCalculation {
+  calculatedAt: string;
+  inputs: DamagesInputs;
+  specialDamages: SpecialDamages;
+  generalDamages: {
+    method: GeneralDamagesMethod;
+    multiplierBase: number;
+    multiplier: DamagesRangeValues;
+    perDiem: DamagesRangeValues & { days: number; dailyRate: DamagesRangeValues };
+    /** Target general damages */
+    total: number;
+  };
+  range: {
+    low: DamagesRangeEntry;
+    target: DamagesRangeEntry;
+    high: DamagesRangeEntry;
+  };
+  /** Opening demand: the high end of the range */
+  demandAmount: number;
+  /** Target total, kept for older readers of damagesCalculation */
+  total: number;
+  treatment: {
+    firstDate: string | null;
+    lastDate: string | null;
+    days: number;
+  };
+  itemizedCharges: ItemizedCharge[];
+}
+
+export const DEFAULT_DAMAGES_INPUTS: DamagesInputs = {
+  method: 'multiplier',
+  multiplierBase: 'billed',
+  multiplier: { low: 1.5, target: 3, high: 5 },
+  perDiem: {
+    dailyRate: { low: 50, target: 100, high: 150 },
+    days: null,
+  },
+  futureMedical: [],
+  otherSpecials: [],
+  wageLossOverride: null,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LEVELS = ['low', 'target', 'high'] as const;
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toNumber(value: unknown): number {
+  const number = typeof value === 'string' ? parseFloat(value.replace(/[$,]/g, '')) : Number(value);
+  return Number.isFinite(number) ? number : 0;
+}
+
+function sumItems(items: DamagesLineItem[]): number {
+  return items.reduce((sum, item) => sum + toNumber(item.amount), 0);
+}
+
+/**
+ * Fill in any missing inputs from the defaults, e.g. for calculations saved
+ * before an input existed.
+ */
+export function normalizeDamagesInputs(inputs?: Partial<DamagesInputs> | null): DamagesInputs {
+  return {
+    ...DEFAULT_DAMAGES_INPUTS,
+    ...(inputs || {}),
+    multiplier: { ...DEFAULT_DAMAGES_INPUTS.multiplier, ...(inputs?.multiplier || {}) },
+    perDiem: {
+      dailyRate: { ...DEFAULT_DAMAGES_INPUTS.perDiem.dailyRate, ...(inputs?.perDiem?.dailyRate || {}) },
+      days: inputs?.perDiem?.days ?? null,
+    },
+    futureMedical: inputs?.futureMedical || [],
+    otherSpecials: inputs?.otherSpecials || [],
+    wageLossOverride: inputs?.wageLossOverride ?? null,
+  };
+}
+
+export interface DamagesSourceData {
+  incidentDate: Date;
+  /** Extracted data from completed documents */
+  documents: Array<{ category: string; data: unknown }>;
+  /** Billing totals from medical events, used when no bills were itemized */
+  medicalEvents: Array<{
+    dateOfService: Date;
+    providerName: string | null;
+    totalCharge: Prisma.Decimal | number | null;
+    insurancePaid: Prisma.Decimal | number | null;
+    patientResponsibility: Prisma.Decimal | number | null;
+  }>;
+}
+
+function collectCharges(source: DamagesSourceData): ItemizedCharge[] {
+  const charges: ItemizedCharge[] = [];
+
+  for (const item of source.documents) {
+    if (item.category !== 'MEDICAL_BILLS' || !item.data) continue;
+
+    const data = item.data as Record<string, unknown>;
+    const providers = (data.providers as Array<Record<string, string>>) || [];
+    const provider = (data.provider as Record<string, string>)?.name || providers[0]?.name || 'Unknown';
+
+    for (const charge of (data.charges as Array<Record<string, unknown>>) || []) {
+      const billed = toNumber(charge.amountBilled);
+      const paid = toNumber(charge.insurancePaid) + Math.max(
+        0,
+        toNumber(charge.patientResponsibility) - toNumber(charge.balanceDue)
+      );
+      charges.push({
+        provider,
+        date: (charge.dateOfService as string) || null,
+        description: (charge.description as string) || '',
+        billed,
+        paid,
+        adjustments: toNumber(charge.insuranceAdjustment),
+        outstanding: toNumber(charge.balanceDue),
+      });
+    }
+  }
+
+  if (charges.length > 0) {
+    return charges;
+  }
+
+  // Fall back to per-visit charges captured on medical events
+  for (const event of source.medicalEvents) {
+    if (!event.totalCharge) continue;
+    charges.push({
+      provider: event.providerName || 'Unknown',
+      date: event.dateOfService.toISOString().split('T')[0],
+      description: 'Medical services',
+      billed: toNumber(event.totalCharge),
+      paid: toNumber(event.insurancePaid),
+      adjustments: 0,
+      outstanding: toNumber(event.patientResponsibility),
+    });
+  }
+
+  return charges;
+}
+
+function extractedWageLoss(source: DamagesSourceData): number {
+  let total = 0;
+  for (const item of source.documents) {
+    if (item.category !== 'WAGE_DOCUMENTATION' || !item.data) continue;
+    const data = item.data as Record<string, unknown>;
+    const wageLoss = data.wageLoss as Record<string, unknown> | undefined;
+    total += toNumber(wageLoss?.totalWageLoss ?? data.totalWageLoss);
+  }
+  return total;
+}
+
+function treatmentPeriod(source: DamagesSourceData, charges: ItemizedCharge[]) {
+  const dates = [
+    ...source.medicalEvents.map((event) => event.dateOfService.getTime()),
+    ...charges.map((charge) => (charge.date ? new Date(charge.date).getTime() : NaN)),
+  ].filter((time) => Number.isFinite(time));
+
+  if (dates.length === 0) {
+    return { firstDate: null, lastDate: null, days: 0 };
+  }
+
+  const first = Math.min(...dates);
+  const last = Math.max(...dates);
+  const start = Math.min(source.incidentDate.getTime(), first);
+
+  return {
+    firstDate: new Date(first).toISOString().split('T')[0],
+    lastDate: new Date(last).toISOString().split('T')[0],
+    days: Math.floor((last - start) / DAY_MS) + 1,
+  };
+}
+
+/**
+ * Compute special and general damages and the low/target/high range.
+ * Pure and deterministic: the same source data and inputs always give the
+ * same numbers.
+ */
+export function calculateDamages(source: DamagesSourceData, rawInputs?: Partial<DamagesInputs> | null): DamagesCalculation {
+  const inputs = normalizeDamagesInputs(rawInputs);
+  const itemizedCharges = collectCharges(source);
+  const treatment = treatmentPeriod(source, itemizedCharges);
+
+  const medicalBills = roundCents(itemizedCharges.reduce((sum, charge) => sum + charge.billed, 0));
+  const medicalPaid = roundCents(itemizedCharges.reduce((sum, charge) => sum + charge.paid, 0));
+  const medicalAdjustments = roundCents(itemizedCharges.reduce((sum, charge) => sum + charge.adjustments, 0));
+  const medicalOutstanding = roundCents(itemizedCharges.reduce((sum, charge) => sum + charge.outstanding, 0));
+  const futureMedical = roundCents(sumItems(inputs.futureMedical));
+  const wageLoss = roundCents(inputs.wageLossOverride ?? extractedWageLoss(source));
+  const otherSpecials = roundCents(sumItems(inputs.otherSpecials));
+
+  const specialDamages: SpecialDamages = {
+    medicalBills,
+    medicalPaid,
+    medicalAdjustments,
+    medicalOutstanding,
+    futureMedical,
+    wageLoss,
+    otherSpecials,
+    total: roundCents(medicalBills + futureMedical + wageLoss + otherSpecials),
+  };
+
+  // General damages scale with medical specials (past and future)
+  const multiplierBase = roundCents((inputs.multiplierBase === 'paid' ? medicalPaid : medicalBills) + futureMedical);
+  const perDiemDays = inputs.perDiem.days ?? treatment.days;
+
+  const multiplierValues = {} as DamagesRangeValues;
+  const perDiemValues = {} as DamagesRangeValues;
+  const range = {} as DamagesCalculation['range'];
+
+  for (const level of LEVELS) {
+    multiplierValues[level] = roundCents(multiplierBase * inputs.multiplier[level]);
+    perDiemValues[level] = roundCents(perDiemDays * inputs.perDiem.dailyRate[level]);
+
+    const general =
+      inputs.method === 'multiplier'
+        ? multiplierValues[level]
+        : inputs.method === 'per_diem'
+          ? perDiemValues[level]
+          : roundCents((multiplierValues[level] + perDiemValues[level]) / 2);
+
+    range[level] = {
+      generalDamages: general,
+      specialDamages: specialDamages.total,
+      total: roundCents(general + specialDamages.total),
+    };
+  }
+
+  return {
+    calculatedAt: new Date().toISOString(),
+    inputs,
+    specialDamages,
+    generalDamages: {
+      method: inputs.method,
+      multiplierBase,
+      multiplier: multiplierValues,
+      perDiem: { ...perDiemValues, days: perDiemDays, dailyRate: inputs.perDiem.dailyRate },
+      total: range.target.generalDamages,
+    },
+    range,
+    demandAmount: range.high.total,
+    total: range.target.total,
+    treatment,
+    itemizedCharges,
+  };
+}
+
+/**
+ * Recalculate and persist a case's damages from its processed documents and
+ * medical events. Inputs default to those saved with the previous calculation.
+ */
+export async function recalculateCaseDamages(
+  caseId: string,
+  inputs?: Partial<DamagesInputs>
+): Promise<DamagesCalculation> {
+  const caseData = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: {
+      incidentDate: true,
+      damagesCalculation: true,
+      documents: {
+        // Copies awaiting a duplicate decision or merged away don't count twice
+        where: { processingStatus: 'COMPLETED', ...CANONICAL_DOCUMENT_WHERE },
+        select: { category: true, extractedData: true },
+      },
+      medicalEvents: {
+        select: {
+          dateOfService: true,
+          providerName: true,
+          totalCharge: true,
+          insurancePaid: true,
+          patientResponsibility: true,
+        },
+      },
+    },
+  });
+
+  if (!caseData) {
+    throw new Error(`Case ${caseId} not found`);
+  }
+
+  const previous = caseData.damagesCalculation as Partial<DamagesCalculation> | null;
+  const calculation = calculateDamages(
+    {
+      incidentDate: caseData.incidentDate,
+      documents: caseData.documents
+        .filter((doc) => doc.extractedData)
+        .map((doc) => ({ category: doc.category, data: doc.extractedData })),
+      medicalEvents: caseData.medicalEvents,
+    },
+    inputs ?? previous?.inputs
+  );
+
+  await prisma.case.update({
+    where: { id: caseId },
+    data: { damagesCalculation: calculation as unknown as Prisma.InputJsonValue },
+  });
+
+  logger.info(`Damages calculated for case ${caseId}: target ${calculation.total}, demand ${calculation.demandAmount}`);
+  return calculation;
+}
+
+export function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * True when a stored damagesCalculation came from this engine rather than
+ * the older billed-charges-only summary.
+ */
+export function isDamagesCalculation(value: unknown): value is DamagesCalculation {
+  return !!value && typeof value === 'object' && 'range' in value && 'demandAmount' in value;
+}
+
+const METHOD_LABELS: Record<GeneralDamagesMethod, string> = {
+  multiplier: 'multiplier',
+  per_diem: 'per diem',
+  blended: 'blended multiplier and per diem',
+};
+
+/**
+ * Itemized damages table for the letter. Rows with no amount are left out,
+ * except medical expenses which are always shown.
+ */
+export function buildDamagesTable(calculation: DamagesCalculation): string {
+  const { specialDamages, range } = calculation;
+  const rows: Array<[string, number]> = [
+    ['Past Medical Expenses', specialDamages.medicalBills],
+    ['Future Medical Expenses', specialDamages.futureMedical],
+    ['Lost Wages', specialDamages.wageLoss],
+    ...calculation.inputs.otherSpecials.map((item): [string, number] => [item.description, item.amount]),
+  ];
+
+  return [
+    '| Category | Amount |',
+    '|----------|--------|',
+    ...rows
+      .filter(([, amount], index) => index === 0 || amount > 0)
+      .map(([label, amount]) => `| ${label.replace(/\|/g, '/')} | ${formatMoney(amount)} |`),
+    `| **Total Special Damages** | **${formatMoney(specialDamages.total)}** |`,
+    `| General Damages (pain and suffering) | ${formatMoney(range.high.generalDamages)} |`,
+    `| **Total Damages** | **${formatMoney(range.high.total)}** |`,
+  ].join('\n');
+}
+
+/**
+ * Context block giving the generator the exact figures it must use.
+ */
+export function buildDamagesContext(calculation: DamagesCalculation): string {
+  const { specialDamages, generalDamages, range } = calculation;
+  return `### Damages Calculation (authoritative)
+Use these figures exactly as written. Do not calculate, estimate or round any damages amount yourself.
+- Past Medical Expenses (billed): ${formatMoney(specialDamages.medicalBills)}
+- Paid by insurance/patient: ${formatMoney(specialDamages.medicalPaid)}
+- Outstanding medical balance: ${formatMoney(specialDamages.medicalOutstanding)}
+- Future Medical Expenses: ${formatMoney(specialDamages.futureMedical)}
+${calculation.inputs.futureMedical.map((item) => `  - ${item.description}: ${formatMoney(item.amount)}`).join('\n')}
+- Lost Wages: ${formatMoney(specialDamages.wageLoss)}
+${calculation.inputs.otherSpecials.map((item) => `- ${item.description}: ${formatMoney(item.amount)}`).join('\n')}
+- Total Special Damages: ${formatMoney(specialDamages.total)}
+- General Damages (${METHOD_LABELS[generalDamages.method]} method): ${formatMoney(range.high.generalDamages)}
+- Settlement Demand Amount: ${formatMoney(calculation.demandAmount)}`
+    .replace(/\n+/g, '\n');
+}
+
+/**
+ * Ways an amount may be written in the letter, e.g. "$45,000.00" and "$45,000".
+ */
+function moneyPatterns(amount: number): string[] {
+  const formatted = formatMoney(amount);
+  return Number.isInteger(amount) ? [formatted, formatted.replace(/\.00$/, '')] : [formatted];
+}
+
+/**
+ * Make a generated letter agree with the damages calculation: the itemized
+ * table in the Damages section is replaced with the computed one, and a
+ * critical warning is returned if the settlement demand doesn't state the
+ * computed demand amount.
+ */
+export function applyDamagesFigures(
+  content: string,
+  calculation: DamagesCalculation
+): { content: string; warnings: unknown[] } {
+  const warnings: unknown[] = [];
+  const table = buildDamagesTable(calculation);
+
+  let result = content;
+  const damagesSection = parseLetterSections(result).find((section) => section.key === 'damages');
+  if (damagesSection) {
+    const existingTable = /(^\|.*\|[ \t]*$\n?)+/m;
+    const sectionText = damagesSection.content.trimEnd();
+    const replaced = existingTable.test(sectionText)
+      ? sectionText.replace(existingTable, () => `${table}\n`).trimEnd()
+      : `${sectionText}\n\n${table}`;
+    result = replaceLetterSection(result, damagesSection, replaced);
+  } else {
+    warnings.push({
+      severity: 'moderate',
+      category: 'missing_doc',
+      message: 'The letter has no Damages section, so the calculated damages table was not inserted.',
+      recommendation: 'Add the damages breakdown before sending the letter.',
+    });
+  }
+
+  const demandSection = parseLetterSections(result).find((section) => section.key === 'demand');
+  const demandText = demandSection?.content || result;
+  if (!moneyPatterns(calculation.demandAmount).some((pattern) => demandText.includes(pattern))) {
+    warnings.push({
+      severity: 'critical',
+      category: 'credibility',
+      message: `The settlement demand does not state the calculated demand amount of ${formatMoney(calculation.demandAmount)}.`,
+      recommendation: 'Correct the demand amount in the Settlement Demand section or adjust the damages inputs.',
+    });
+  }
+
+  return { content: result, warnings };
+}
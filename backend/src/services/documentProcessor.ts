@@ -1,24 +1,61 @@
 import prisma from '../db/client.js';
-import { DocumentCategory, Prisma } from '@prisma/client';
-import { getFileFromS3 } from './storage.js';
-import { extractTextFromPdf, extractTextFromImage, extractTextFromDocx } from './textExtraction.js';
-import { classifyDocument } from './classificationService.js';
+import { Document, DocumentCategory, Prisma } from '@prisma/client';
+import { getFile } from './storage.js';
+import { extractTextFromPdf, extractTextFromDocx, recognizeImage, PageMapEntry } from './textExtraction.js';
+import { classifyDocument, detectDocumentSegments } from './classificationService.js';
 import { extractStructuredData } from './extractionService.js';
 import { extractMedicalEvents, saveMedicalEvents } from './medicalEventService.js';
-import { generateChronology } from './chronologyService.js';
+import { enqueueJob, JOB_TYPES } from './jobQueue.js';
+import { updateDocumentSearchVector } from './searchService.js';
+import { recalculateCaseDamages } from './damagesService.js';
+import { syncLienFromDocument } from './lienService.js';
+import { assertWithinUsageQuota } from './usageService.js';
+import {
+  CANONICAL_DOCUMENT_WHERE,
+  findExactDuplicate,
+  fingerprintPages,
+  hashContent,
+  holdNearDuplicate,
+  markPossibleDuplicate,
+  refreshDuplicateCopies,
+  removeMergedDuplicateEvents,
+} from './duplicateService.js';
+import { folderHints } from './importService.js';
+import { applyDocumentSplit, getSplitSegments, removeDocumentSplit, shouldDetectSegments } from './splitService.js';
+import {
+  parseStructuredRecord,
+  StructuredRecord,
+  STRUCTURED_RECORD_LABELS,
+  structuredRecordData,
+  structuredRecordFormatForMimeType,
+} from './structuredRecordService.js';
+import type { LlmCallContext, LlmValidationRecord } from './llmGateway.js';
 import { logger } from '../utils/logger.js';
 
+/**
+ * Run the full extraction pipeline for one document. Errors are recorded on the
+ * document and rethrown so the job queue can retry with backoff.
+ */
 export async function processDocument(documentId: string): Promise<void> {
   try {
     // Get document from database
     const document = await prisma.document.findUnique({
       where: { id: documentId },
+      include: { case: { select: { firmId: true } } },
     });
 
     if (!document) {
       throw new Error(`Document ${documentId} not found`);
     }
 
+    // Fail up front rather than part-way through when the firm is over its AI
+    // limit; C-CDA and FHIR records are mapped without the model
+    const structuredFormat = structuredRecordFormatForMimeType(document.mimeType);
+    if (!structuredFormat) {
+      await assertWithinUsageQuota(document.case.firmId);
+    }
+    const llmContext: LlmCallContext = { firmId: document.case.firmId, caseId: document.caseId, documentId };
+
     logger.info(`Processing document: ${document.originalFilename}`);
 
     // Update status to extracting
@@ -27,37 +64,150 @@ export async function processDocument(documentId: string): Promise<void> {
       data: { processingStatus: 'EXTRACTING_TEXT' },
     });
 
-    // Get file from S3
-    const fileBuffer = await getFileFromS3(document.filename);
+    // Copies are checked against earlier uploads unless someone already decided
+    const checkDuplicates = document.duplicateStatus === null || document.duplicateStatus === 'POSSIBLE';
 
-    // Extract text based on file type
     let extractedText = '';
     let pageCount = 0;
+    let pageMap: PageMapEntry[] | null = null;
+    let ocrConfidence: number | null = null;
+    let structuredRecord: StructuredRecord | null = null;
+
+    if (document.parentDocumentId) {
+      // Parts of a split upload carry their pages' text, cut from the parent
+      extractedText = document.extractedText ?? '';
+      pageCount = document.pageCount ?? 0;
+      pageMap = document.pageMap as unknown as PageMapEntry[] | null;
+      ocrConfidence = document.ocrConfidence;
+    } else {
+      // Get file from storage
+      const fileBuffer = await getFile(document.filename);
+
+      // An identical file skips text extraction and the model entirely
+      const contentHash = hashContent(fileBuffer);
+      await prisma.document.update({ where: { id: documentId }, data: { contentHash } });
+
+      const exactDuplicate = checkDuplicates ? await findExactDuplicate(document, contentHash) : null;
+      if (exactDuplicate) {
+        await markPossibleDuplicate(document, exactDuplicate);
+        await finishCaseIfComplete(document.caseId);
+        return;
+      }
 
-    if (document.mimeType === 'application/pdf') {
-      const result = await extractTextFromPdf(fileBuffer);
-      extractedText = result.text;
-      pageCount = result.pageCount;
-    } else if (document.mimeType.startsWith('image/')) {
-      extractedText = await extractTextFromImage(fileBuffer);
-      pageCount = 1;
-    } else if (document.mimeType.includes('wordprocessingml')) {
-      extractedText = await extractTextFromDocx(fileBuffer);
-      pageCount = 1; // DOCX doesn't have clear page counts
+      // Extract text based on file type
+      if (document.mimeType === 'application/pdf') {
+        const result = await extractTextFromPdf(fileBuffer);
+        extractedText = result.text;
+        pageCount = result.pageCount;
+        pageMap = result.pageMap.length > 0 ? result.pageMap : null;
+        ocrConfidence = result.ocrConfidence;
+      } else if (document.mimeType.startsWith('image/')) {
+        const result = await recognizeImage(fileBuffer);
+        extractedText = result.text;
+        pageCount = 1;
+        ocrConfidence = Math.round(result.confidence);
+        pageMap = [{ page: 1, method: 'ocr', confidence: ocrConfidence, start: 0, end: extractedText.length }];
+      } else if (document.mimeType.includes('wordprocessingml')) {
+        extractedText = await extractTextFromDocx(fileBuffer);
+        pageCount = 1; // DOCX doesn't have clear page counts
+      } else if (structuredFormat) {
+        structuredRecord = parseStructuredRecord(fileBuffer, structuredFormat);
+        extractedText = structuredRecord.text;
+        pageCount = 1;
+      }
     }
 
+    const pageFingerprints = fingerprintPages(extractedText, pageMap);
+
     // Update with extracted text
     await prisma.document.update({
       where: { id: documentId },
       data: {
         extractedText,
         pageCount,
+        pageMap: pageMap ? (pageMap as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+        ocrConfidence,
+        pageFingerprints,
         processingStatus: 'CLASSIFYING',
       },
     });
 
+    // Most of the pages already uploaded (fax vs portal copy): hold before the model runs
+    if (checkDuplicates) {
+      const nearDuplicate = await holdNearDuplicate(document, pageFingerprints, {
+        firstRead: document.pageFingerprints === null,
+      });
+      if (nearDuplicate) {
+        await finishCaseIfComplete(document.caseId);
+        return;
+      }
+      if (document.duplicateStatus === 'POSSIBLE') {
+        await prisma.document.update({
+          where: { id: documentId },
+          data: { duplicateStatus: null, duplicateOfId: null, duplicateScore: null },
+        });
+      }
+    }
+
+    // Encounters, problems and results come straight from the record's own structure
+    if (structuredRecord) {
+      await completeStructuredRecord(document, structuredRecord);
+      await refreshDuplicateCopies(documentId);
+      await finishCaseIfComplete(document.caseId);
+      return;
+    }
+
+    // Every structured model output is checked against its schema
+    const validation: LlmValidationRecord[] = [];
+
+    // A combined upload (ER chart, imaging, PT notes and bills in one PDF) is
+    // divided into parts that are each processed as a document of their own.
+    // Split points a user has set are kept when the parent is reprocessed.
+    const segments = shouldDetectSegments(document, pageMap)
+      ? await detectDocumentSegments(extractedText, pageMap, validation, llmContext)
+      : document.splitEditedAt
+        ? await getSplitSegments(documentId)
+        : [];
+
+    if (segments.length > 1) {
+      const partIds = await applyDocumentSplit(documentId, segments, { refreshUnchanged: true });
+      await prisma.document.update({
+        where: { id: documentId },
+        data: {
+          validationReport: validation as unknown as Prisma.InputJsonValue,
+          processingStatus: 'COMPLETED',
+        },
+      });
+      await refreshDuplicateCopies(documentId);
+      await Promise.all(
+        partIds.map((id) => enqueueDocumentProcessing(id, { firmId: document.case.firmId, caseId: document.caseId }))
+      );
+      logger.info(`Document ${document.originalFilename} split into ${segments.length} parts`);
+      return;
+    }
+
+    // No longer split (or never was): it's processed whole
+    const releasedCopies = await removeDocumentSplit(documentId);
+    await Promise.all(
+      releasedCopies.map((id) => enqueueDocumentProcessing(id, { firmId: document.case.firmId, caseId: document.caseId }))
+    );
+
     // Classify document
-    const classification = await classifyDocument(extractedText);
+    const classification = await classifyDocument(extractedText, validation, llmContext, document.sourcePath);
+    // An imported file's folders fill in what the model couldn't tell
+    const hints = folderHints(document.sourcePath);
+    if (classification.category === 'OTHER' && hints.category) {
+      classification.category = hints.category;
+    }
+    classification.providerName ??= hints.providerName;
+    // An email's own text is filed as insurance correspondence or OTHER; the
+    // keyword check at intake counts as well as the model
+    if (document.isEmailBody) {
+      classification.category =
+        classification.category === 'INSURANCE_CORRESPONDENCE' || document.category === 'INSURANCE_CORRESPONDENCE'
+          ? 'INSURANCE_CORRESPONDENCE'
+          : 'OTHER';
+    }
 
     await prisma.document.update({
       where: { id: documentId },
@@ -70,81 +220,199 @@ export async function processDocument(documentId: string): Promise<void> {
       },
     });
 
+    // Index text and classification for full-text search
+    await updateDocumentSearchVector(documentId);
+
     // Extract structured data based on category
     const structuredData = await extractStructuredData(
       extractedText,
-      classification.category
+      classification.category,
+      validation,
+      llmContext
     );
 
+    // Replace any events from an earlier run
+    await prisma.medicalEvent.deleteMany({ where: { documentId } });
+
     // For medical documents, also extract medical events
     if (classification.category === 'MEDICAL_RECORDS' || classification.category === 'MEDICAL_BILLS') {
       logger.info(`Extracting medical events from ${document.originalFilename}`);
       try {
-        const medicalEvents = await extractMedicalEvents(document, extractedText);
+        const medicalEvents = await extractMedicalEvents(document, extractedText, pageMap, validation, llmContext);
         if (medicalEvents.length > 0) {
           await saveMedicalEvents(document.caseId, documentId, medicalEvents);
           logger.info(`Saved ${medicalEvents.length} medical events from ${document.originalFilename}`);
         }
+        if (document.duplicateStatus === 'MERGED') {
+          await removeMergedDuplicateEvents(documentId);
+        }
       } catch (eventError) {
         logger.error(`Failed to extract medical events: ${eventError}`);
         // Continue processing - don't fail the whole document
       }
     }
 
+    // Lien letters populate the case's lien list
+    if (classification.category === 'LIEN_LETTER') {
+      try {
+        await syncLienFromDocument(document.caseId, documentId, structuredData);
+      } catch (lienError) {
+        logger.error(`Failed to record lien: ${lienError}`);
+      }
+    }
+
     // Update with final data
     await prisma.document.update({
       where: { id: documentId },
       data: {
         extractedData: structuredData as Prisma.InputJsonValue,
+        validationReport: validation as unknown as Prisma.InputJsonValue,
         processingStatus: 'COMPLETED',
       },
     });
 
     logger.info(`Document processed successfully: ${document.originalFilename}`);
 
-    // Check if all documents for the case are processed
-    const caseDocuments = await prisma.document.findMany({
-      where: { caseId: document.caseId },
-    });
-
-    const allCompleted = caseDocuments.every(
-      (doc) => doc.processingStatus === 'COMPLETED'
-    );
-
-    if (allCompleted) {
-      // Synthesize all document data into case
-      await synthesizeCaseData(document.caseId);
-
-      // Generate medical chronology if there are medical events
-      const eventCount = await prisma.medicalEvent.count({ where: { caseId: document.caseId } });
-      if (eventCount > 0) {
-        logger.info(`Generating chronology for case ${document.caseId}`);
-        try {
-          await generateChronology(document.caseId);
-          logger.info(`Chronology generated for case ${document.caseId}`);
-        } catch (chronoError) {
-          logger.error(`Failed to generate chronology: ${chronoError}`);
-        }
-      }
-    }
+    // Copies held while this document was processed take its results now
+    await refreshDuplicateCopies(documentId);
+    await finishCaseIfComplete(document.caseId);
   } catch (error) {
     logger.error(`Document processing failed for ${documentId}:`, error);
 
-    await prisma.document.update({
+    await prisma.document.updateMany({
       where: { id: documentId },
       data: {
         processingStatus: 'FAILED',
         processingError: error instanceof Error ? error.message : 'Unknown error',
       },
     });
+
+    throw error;
+  }
+}
+
+/**
+ * File a C-CDA or FHIR record as medical records (prior records when its
+ * import folder says so, which like the model path get no events) and save
+ * the events mapped from it, replacing any from an earlier run.
+ */
+async function completeStructuredRecord(document: Document, record: StructuredRecord): Promise<void> {
+  const hints = folderHints(document.sourcePath);
+  const category: DocumentCategory =
+    hints.category === 'PRIOR_MEDICAL_RECORDS' ? 'PRIOR_MEDICAL_RECORDS' : 'MEDICAL_RECORDS';
+
+  await prisma.document.update({
+    where: { id: document.id },
+    data: {
+      category,
+      subcategory: STRUCTURED_RECORD_LABELS[record.format],
+      documentDate: record.documentDate ? new Date(record.documentDate) : null,
+      providerName: record.providerName ?? hints.providerName,
+      processingStatus: 'EXTRACTING_DATA',
+    },
+  });
+  await updateDocumentSearchVector(document.id);
+
+  await prisma.medicalEvent.deleteMany({ where: { documentId: document.id } });
+  if (category === 'MEDICAL_RECORDS') {
+    if (record.events.length > 0) {
+      await saveMedicalEvents(document.caseId, document.id, record.events);
+    }
+    if (document.duplicateStatus === 'MERGED') {
+      await removeMergedDuplicateEvents(document.id);
+    }
+  }
+
+  await prisma.document.update({
+    where: { id: document.id },
+    data: {
+      extractedData: structuredRecordData(record) as Prisma.InputJsonValue,
+      validationReport: [],
+      processingStatus: 'COMPLETED',
+    },
+  });
+
+  logger.info(
+    `Mapped ${record.events.length} medical events from ${STRUCTURED_RECORD_LABELS[record.format]} record ${document.originalFilename}`
+  );
+}
+
+/**
+ * Once every document in the case is processed, synthesize the case data and
+ * queue the chronology.
+ */
+async function finishCaseIfComplete(caseId: string): Promise<void> {
+  // Check if all documents for the case are processed
+  const caseDocuments = await prisma.document.findMany({
+    where: { caseId },
+  });
+
+  const allCompleted = caseDocuments.every(
+    (doc) => doc.processingStatus === 'COMPLETED'
+  );
+
+  if (allCompleted) {
+    // Synthesize all document data into case
+    await synthesizeCaseData(caseId);
+
+    // Generate medical chronology if there are medical events
+    const eventCount = await prisma.medicalEvent.count({ where: { caseId } });
+    if (eventCount > 0) {
+      logger.info(`Queueing chronology generation for case ${caseId}`);
+      await enqueueChronologyGeneration(caseId);
+    }
   }
 }
 
+/**
+ * Queue a document for processing in the background worker.
+ */
+export async function enqueueDocumentProcessing(
+  documentId: string,
+  options: { firmId?: string; caseId?: string } = {}
+) {
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { processingStatus: 'PENDING', processingError: null },
+  });
+
+  return enqueueJob(JOB_TYPES.PROCESS_DOCUMENT, { documentId }, options);
+}
+
+/**
+ * Queue chronology generation unless one is already waiting for this case.
+ */
+export async function enqueueChronologyGeneration(caseId: string) {
+  const pending = await prisma.job.findFirst({
+    where: {
+      type: JOB_TYPES.GENERATE_CHRONOLOGY,
+      caseId,
+      status: 'QUEUED',
+    },
+  });
+
+  if (pending) {
+    return pending;
+  }
+
+  const caseData = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: { firmId: true },
+  });
+
+  return enqueueJob(JOB_TYPES.GENERATE_CHRONOLOGY, { caseId }, {
+    firmId: caseData?.firmId,
+    caseId,
+    maxAttempts: 3,
+  });
+}
+
 async function synthesizeCaseData(caseId: string): Promise<void> {
   const documents = await prisma.document.findMany({
     where: {
       caseId,
       processingStatus: 'COMPLETED',
+      ...CANONICAL_DOCUMENT_WHERE,
     },
   });
 
@@ -159,20 +427,19 @@ async function synthesizeCaseData(caseId: string): Promise<void> {
   // Build treatment timeline
   const treatmentTimeline = buildTreatmentTimeline(allData);
 
-  // Calculate damages
-  const damagesCalculation = calculateDamages(allData);
-
   // Update case with synthesized data
   await prisma.case.update({
     where: { id: caseId },
     data: {
       extractedData: { documents: allData } as Prisma.InputJsonValue,
       treatmentTimeline: treatmentTimeline as Prisma.InputJsonValue,
-      damagesCalculation: damagesCalculation as Prisma.InputJsonValue,
       status: 'EXTRACTION_COMPLETE',
     },
   });
 
+  // Recalculate damages, keeping any inputs the attorney has adjusted
+  await recalculateCaseDamages(caseId);
+
   logger.info(`Case data synthesized: ${caseId}`);
 }
 
@@ -205,46 +472,3 @@ function buildTreatmentTimeline(allData: { category: string; data: unknown }[]):
 
   return timeline;
 }
-
-function calculateDamages(allData: { category: string; data: unknown }[]): unknown {
-  let totalMedicalBills = 0;
-  let totalWageLoss = 0;
-  const itemizedCharges: Array<{
-    provider: string;
-    date: string;
-    amount: number;
-    description: string;
-  }> = [];
-
-  for (const item of allData) {
-    if (item.category === 'MEDICAL_BILLS' && item.data) {
-      const data = item.data as Record<string, unknown>;
-      const charges = (data.charges as Array<Record<string, unknown>>) || [];
-
-      for (const charge of charges) {
-        const amount = (charge.amountBilled as number) || 0;
-        totalMedicalBills += amount;
-        itemizedCharges.push({
-          provider: (data.provider as Record<string, string>)?.name || 'Unknown',
-          date: charge.dateOfService as string,
-          amount,
-          description: charge.description as string,
-        });
-      }
-    }
-
-    if (item.category === 'WAGE_DOCUMENTATION' && item.data) {
-      const data = item.data as Record<string, unknown>;
-      totalWageLoss += (data.totalWageLoss as number) || 0;
-    }
-  }
-
-  return {
-    specialDamages: {
-      medicalBills: totalMedicalBills,
-      wageLoss: totalWageLoss,
-      total: totalMedicalBills + totalWageLoss,
-    },
-    itemizedCharges,
-  };
-}
@@ -0,0 +1,305 @@
+import { createHash } from 'crypto';
+import { Document, Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { PageMapEntry } from './textExtraction.js';
+import { logger } from '../utils/logger.js';
+
+/** Share of a document's pages that must appear in an earlier upload to flag it */
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+// Simhashes this many bits apart still count as the same page; absorbs OCR noise
+// and fax headers between copies of one record
+const MAX_PAGE_DISTANCE = 10;
+
+// Pages with fewer words (blank pages, fax cover sheets) aren't fingerprinted
+const MIN_PAGE_WORDS = 25;
+
+// Word pairs: single words match unrelated notes on the same template, longer
+// shingles let a few OCR errors move the hash too far
+const SHINGLE_SIZE = 2;
+
+// Not a copy awaiting a decision or already merged into its original
+const NOT_A_COPY_WHERE: Prisma.DocumentWhereInput = {
+  OR: [{ duplicateStatus: null }, { duplicateStatus: 'IGNORED' }],
+};
+
+/**
+ * Documents that count toward the case: everything except held or merged
+ * copies, and combined uploads that have been split (their parts count).
+ */
+export const CANONICAL_DOCUMENT_WHERE: Prisma.DocumentWhereInput = {
+  ...NOT_A_COPY_WHERE,
+  parts: { none: {} },
+};
+
+export function hashContent(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+function simhash(words: string[]): string {
+  const weights = new Array<number>(64).fill(0);
+
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    const digest = createHash('md5').update(words.slice(i, i + SHINGLE_SIZE).join(' ')).digest();
+    const hash = digest.readBigUInt64BE(0);
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let result = 0n;
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) result |= 1n << BigInt(bit);
+  }
+  return result.toString(16).padStart(16, '0');
+}
+
+function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * One simhash per page of extracted text, null for pages too short to
+ * compare. Documents without a page map are treated as a single page.
+ */
+export function fingerprintPages(text: string, pageMap?: PageMapEntry[] | null): (string | null)[] {
+  const pages = pageMap?.length ? pageMap.map((entry) => text.slice(entry.start, entry.end)) : [text];
+
+  return pages.map((page) => {
+    const words = page.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+    return words.length >= MIN_PAGE_WORDS ? simhash(words) : null;
+  });
+}
+
+/** Share of `pages` that closely match some page in `originalPages` */
+function pageOverlap(pages: string[], originalPages: string[]): number {
+  if (pages.length === 0 || originalPages.length === 0) return 0;
+  const matched = pages.filter((page) =>
+    originalPages.some((original) => hammingDistance(page, original) <= MAX_PAGE_DISTANCE)
+  );
+  return matched.length / pages.length;
+}
+
+export interface DuplicateMatch {
+  original: Document;
+  score: number;
+}
+
+type DuplicateClient = Prisma.TransactionClient | typeof prisma;
+
+// Other documents in the case that a copy could be held against. Split
+// parents are included so a re-sent combined file is still caught, but a part
+// is never compared with the file it was cut from.
+function otherDocumentsWhere(document: Document): Prisma.DocumentWhereInput {
+  return {
+    caseId: document.caseId,
+    id: { notIn: [document.id, ...(document.parentDocumentId ? [document.parentDocumentId] : [])] },
+    ...NOT_A_COPY_WHERE,
+  };
+}
+
+// Uploads created before this one, so the first copy stays the original.
+// Files created together in one batch share a timestamp; their ids break the tie.
+function earlierThan(document: Document): Prisma.DocumentWhereInput {
+  return {
+    OR: [
+      { createdAt: { lt: document.createdAt } },
+      { createdAt: document.createdAt, id: { lt: document.id } },
+    ],
+  };
+}
+
+/**
+ * An earlier upload of the same file in the same case. Hashes are recorded
+ * when a file is uploaded, so a copy sent in the same batch is caught while
+ * the original is still being processed.
+ */
+export async function findExactDuplicate(document: Document, contentHash: string): Promise<DuplicateMatch | null> {
+  const original = await prisma.document.findFirst({
+    where: { ...otherDocumentsWhere(document), ...earlierThan(document), contentHash },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+  return original ? { original, score: 1 } : null;
+}
+
+/**
+ * The upload sharing the most pages with this one, if enough of this
+ * document's pages appear in it. Catches a faxed copy of a portal download,
+ * or a re-send with a cover sheet added. Earlier uploads are compared once
+ * their text has been read, whether or not they have finished processing. On
+ * a document's first read, later uploads read before it are compared too:
+ * they were checked while this one had no pages to match.
+ */
+export async function findNearDuplicate(
+  document: Document,
+  fingerprints: (string | null)[],
+  options: { firstRead: boolean; client?: DuplicateClient } = { firstRead: false }
+): Promise<DuplicateMatch | null> {
+  const pages = fingerprints.filter((page): page is string => page !== null);
+  if (pages.length === 0) return null;
+
+  const client = options.client ?? prisma;
+  const candidates = await client.document.findMany({
+    where: {
+      ...otherDocumentsWhere(document),
+      ...(!options.firstRead && earlierThan(document)),
+      pageFingerprints: { not: Prisma.DbNull },
+    },
+    include: { _count: { select: { parts: true } } },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  let best: (DuplicateMatch & { isSplit: boolean }) | null = null;
+  for (const { _count, ...candidate } of candidates) {
+    const originalPages = (candidate.pageFingerprints as (string | null)[]).filter(
+      (page): page is string => page !== null
+    );
+    const score = pageOverlap(pages, originalPages);
+    const isSplit = _count.parts > 0;
+    if (score < NEAR_DUPLICATE_THRESHOLD) continue;
+    // On a tie, point at the part rather than the combined file it came from
+    if (!best || score > best.score || (score === best.score && best.isSplit && !isSplit)) {
+      best = { original: candidate, score, isSplit };
+    }
+  }
+  return best && { original: best.original, score: best.score };
+}
+
+// What a held copy takes from its original instead of running the model
+function copiedFromOriginal(original: Document, score: number): Prisma.DocumentUpdateManyMutationInput {
+  return {
+    category: original.category,
+    subcategory: original.subcategory,
+    documentDate: original.documentDate,
+    providerName: original.providerName,
+    ...(score === 1 && {
+      extractedText: original.extractedText,
+      pageCount: original.pageCount,
+      pageMap: original.pageMap ?? Prisma.DbNull,
+      ocrConfidence: original.ocrConfidence,
+      pageFingerprints: original.pageFingerprints ?? Prisma.DbNull,
+    }),
+  };
+}
+
+async function holdAsCopy(client: DuplicateClient, document: Document, match: DuplicateMatch): Promise<void> {
+  const { original, score } = match;
+
+  await client.medicalEvent.deleteMany({ where: { documentId: document.id } });
+  await client.document.update({
+    where: { id: document.id },
+    data: {
+      duplicateOfId: original.id,
+      duplicateStatus: 'POSSIBLE',
+      duplicateScore: score,
+      // An original still being processed passes these on when it completes
+      ...(original.processingStatus === 'COMPLETED' && copiedFromOriginal(original, score)),
+      extractedData: Prisma.DbNull,
+      processingStatus: 'COMPLETED',
+      processingError: null,
+    },
+  });
+
+  logger.info(
+    `Document ${document.originalFilename} held as possible duplicate of ${original.originalFilename} (${Math.round(score * 100)}% of pages)`
+  );
+}
+
+/**
+ * Hold a document as a possible copy of `match.original`: its medical events
+ * are removed and it takes the original's classification without another
+ * model call. Identical files also take the original's extracted text.
+ */
+export async function markPossibleDuplicate(document: Document, match: DuplicateMatch): Promise<void> {
+  await prisma.$transaction((tx) => holdAsCopy(tx, document, match));
+}
+
+/**
+ * Look for a near duplicate of a document whose pages were just read and hold
+ * it as a copy if one is found. Checks in a case run one at a time, so of two
+ * copies read at once the second is held against the first rather than both
+ * missing each other.
+ */
+export async function holdNearDuplicate(
+  document: Document,
+  fingerprints: (string | null)[],
+  options: { firstRead: boolean }
+): Promise<DuplicateMatch | null> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`duplicates:${document.caseId}`}))`;
+    const match = await findNearDuplicate(document, fingerprints, { ...options, client: tx });
+    if (match) await holdAsCopy(tx, document, match);
+    return match;
+  });
+}
+
+/**
+ * Give the copies held against a document its classification, and identical
+ * copies its text, once it has finished processing.
+ */
+export async function refreshDuplicateCopies(originalId: string): Promise<void> {
+  const original = await prisma.document.findUniqueOrThrow({ where: { id: originalId } });
+  const where = { duplicateOfId: originalId, duplicateStatus: 'POSSIBLE' as const };
+
+  await prisma.$transaction([
+    prisma.document.updateMany({ where: { ...where, duplicateScore: { lt: 1 } }, data: copiedFromOriginal(original, 0) }),
+    prisma.document.updateMany({ where: { ...where, duplicateScore: 1 }, data: copiedFromOriginal(original, 1) }),
+  ]);
+}
+
+const eventKey = (event: { dateOfService: Date; providerName: string | null; facilityName: string | null }) =>
+  `${event.dateOfService.toISOString().slice(0, 10)}-${(event.providerName || 'unknown').toLowerCase()}-${(event.facilityName || 'unknown').toLowerCase()}`;
+
+/**
+ * For a document merged into its original, drop the medical events the
+ * original already has (same date, provider and facility) and keep the rest,
+ * e.g. visits on pages only this copy includes.
+ */
+export async function removeMergedDuplicateEvents(documentId: string): Promise<number> {
+  const document = await prisma.document.findUniqueOrThrow({ where: { id: documentId } });
+  if (document.duplicateStatus !== 'MERGED' || !document.duplicateOfId) return 0;
+
+  const select = { id: true, dateOfService: true, providerName: true, facilityName: true };
+  const [events, originalEvents] = await Promise.all([
+    prisma.medicalEvent.findMany({ where: { documentId }, select }),
+    prisma.medicalEvent.findMany({ where: { documentId: document.duplicateOfId }, select }),
+  ]);
+
+  const originalKeys = new Set(originalEvents.map(eventKey));
+  const repeated = events.filter((event) => originalKeys.has(eventKey(event)));
+
+  if (repeated.length > 0) {
+    await prisma.medicalEvent.deleteMany({ where: { id: { in: repeated.map((event) => event.id) } } });
+  }
+  logger.info(`Merged duplicate ${documentId}: kept ${events.length - repeated.length} of ${events.length} medical events`);
+  return repeated.length;
+}
+
+/**
+ * Before an original is deleted, clear the duplicate decisions of its copies
+ * and their events so they can be processed again as documents in their own
+ * right. Returns the copies' ids.
+ */
+export async function releaseDuplicates(originalId: string): Promise<string[]> {
+  const copies = await prisma.document.findMany({
+    where: { duplicateOfId: originalId },
+    select: { id: true },
+  });
+  const ids = copies.map((copy) => copy.id);
+  if (ids.length === 0) return ids;
+
+  await prisma.$transaction([
+    prisma.medicalEvent.deleteMany({ where: { documentId: { in: ids } } }),
+    prisma.document.updateMany({
+      where: { id: { in: ids } },
+      data: { duplicateOfId: null, duplicateStatus: null, duplicateScore: null },
+    }),
+  ]);
+  return ids;
+}
@@ -0,0 +1,343 @@
+import { randomBytes } from 'crypto';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Document, DocumentCategory, InboundEmail, InboundEmailSource, Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { putFile, deleteFile } from './storage.js';
+import { enqueueDocumentProcessing } from './documentProcessor.js';
+import { hashContent } from './duplicateService.js';
+import { expandImport, extensionForMimeType, folderHints, ImportUpload, SkippedImportFile } from './importService.js';
+import { renderEmailToPdf } from './pdfRenderer.js';
+import { describeForwardedMessage, ParsedEmail, parseMimeMessage } from '../utils/mime.js';
+import { isOutlookMessage, parseOutlookMessage } from '../utils/msg.js';
+import { BadRequestError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_INBOUND_DOMAIN = 'inbound.localhost';
+const ADDRESS_PREFIX = 'case-';
+
+// Inline images smaller than this are signature logos and tracking pixels;
+// photos pasted into the message are kept
+const MAX_SKIPPED_INLINE_IMAGE = 20 * 1024;
+
+// Emails attached to emails are unpacked this deep
+const MAX_ATTACHED_EMAIL_DEPTH = 3;
+
+export const EMAIL_FILE_TYPES: Record<string, string> = {
+  '.eml': 'message/rfc822',
+  '.msg': 'application/vnd.ms-outlook',
+};
+
+const INSURANCE_PATTERN =
+  /\b(insurance|insurer|adjuster|claims? (number|no\.?|#|representative|department)|policy ?(number|no\.?|#|holder|limits?)|subrogation|reservation of rights|coverage|declarations page)\b/i;
+
+export interface IngestEmailResult {
+  inboundEmail: InboundEmail;
+  documents: Document[];
+  skipped: SkippedImportFile[];
+  /** The message was filed on the case before; nothing new was created */
+  alreadyFiled: boolean;
+}
+
+interface EmailDocumentFile {
+  filename: string;
+  buffer: Buffer;
+  mimeType: string;
+  sourcePath: string | null;
+  category: DocumentCategory;
+  isEmailBody: boolean;
+}
+
+export function inboundEmailDomain(): string {
+  return (process.env.INBOUND_EMAIL_DOMAIN || DEFAULT_INBOUND_DOMAIN).toLowerCase();
+}
+
+export function inboundEmailAddress(token: string): string {
+  return `${ADDRESS_PREFIX}${token}@${inboundEmailDomain()}`;
+}
+
+/** A case's email-in address, assigning one on first use */
+export async function ensureInboundEmailAddress(caseId: string): Promise<string> {
+  const caseData = await prisma.case.findUniqueOrThrow({
+    where: { id: caseId },
+    select: { inboundEmailToken: true },
+  });
+  if (caseData.inboundEmailToken) {
+    return inboundEmailAddress(caseData.inboundEmailToken);
+  }
+
+  const token = randomBytes(8).toString('hex');
+  const { count } = await prisma.case.updateMany({
+    where: { id: caseId, inboundEmailToken: null },
+    data: { inboundEmailToken: token },
+  });
+  // Another request assigned one first
+  if (count === 0) return ensureInboundEmailAddress(caseId);
+
+  return inboundEmailAddress(token);
+}
+
+/** Give a case a new email-in address; mail to the old one is no longer filed */
+export async function resetInboundEmailAddress(caseId: string): Promise<string> {
+  const token = randomBytes(8).toString('hex');
+  await prisma.case.update({ where: { id: caseId }, data: { inboundEmailToken: token } });
+  return inboundEmailAddress(token);
+}
+
+/**
+ * The case the first matching recipient belongs to. Sub-addressed forms
+ * (intake+case-…@) are accepted so a mailbox rule can forward to them.
+ */
+export async function findCaseByRecipients(addresses: string[]): Promise<{ id: string; firmId: string } | null> {
+  const domain = inboundEmailDomain();
+
+  for (const address of addresses) {
+    const [localPart, host] = address.toLowerCase().split('@');
+    if (host !== domain || !localPart) continue;
+
+    const tag = localPart.split('+').pop()!;
+    if (!tag.startsWith(ADDRESS_PREFIX)) continue;
+
+    const caseData = await prisma.case.findUnique({
+      where: { inboundEmailToken: tag.slice(ADDRESS_PREFIX.length) },
+      select: { id: true, firmId: true },
+    });
+    if (caseData) return caseData;
+  }
+
+  return null;
+}
+
+export function isEmailFile(filename: string, mimeType?: string): boolean {
+  return (
+    path.extname(filename).toLowerCase() in EMAIL_FILE_TYPES ||
+    (!!mimeType && Object.values(EMAIL_FILE_TYPES).includes(mimeType))
+  );
+}
+
+/** Parse an .eml (MIME) or Outlook .msg file */
+export function parseEmailFile(buffer: Buffer): ParsedEmail {
+  try {
+    return isOutlookMessage(buffer) ? parseOutlookMessage(buffer) : parseMimeMessage(buffer);
+  } catch (error) {
+    throw new BadRequestError(`Could not read the email: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function safeFilename(name: string): string {
+  return name.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '-').replace(/\s+/g, ' ').trim().slice(0, 150);
+}
+
+function looksLikeInsuranceCorrespondence(
+  email: ParsedEmail,
+  caseData: { claimNumber: string | null; defendantPolicyNumber: string | null; defendantAdjusterEmail: string | null }
+): boolean {
+  if (caseData.defendantAdjusterEmail && email.fromAddress === caseData.defendantAdjusterEmail.toLowerCase()) {
+    return true;
+  }
+
+  const content = `${email.subject ?? ''}\n${email.text}`;
+  return (
+    (!!caseData.claimNumber && content.includes(caseData.claimNumber)) ||
+    (!!caseData.defendantPolicyNumber && content.includes(caseData.defendantPolicyNumber)) ||
+    INSURANCE_PATTERN.test(content)
+  );
+}
+
+/**
+ * Attachments as import uploads, with emails attached to the message opened
+ * up in turn. Returns the extra body text those attached emails contribute.
+ */
+function collectAttachments(
+  email: ParsedEmail,
+  uploads: ImportUpload[],
+  skipped: SkippedImportFile[],
+  depth: number
+): string[] {
+  const attachedText: string[] = [];
+
+  email.attachments.forEach((attachment, index) => {
+    let filename = safeFilename(attachment.filename ?? '') || `attachment-${index + 1}`;
+    if (!path.extname(filename)) filename += extensionForMimeType(attachment.contentType);
+
+    if (attachment.inline && attachment.content.length < MAX_SKIPPED_INLINE_IMAGE) {
+      skipped.push({ path: filename, reason: 'Inline image (signature or logo)' });
+      return;
+    }
+
+    if (isEmailFile(filename, attachment.contentType)) {
+      if (depth >= MAX_ATTACHED_EMAIL_DEPTH) {
+        skipped.push({ path: filename, reason: 'Attached email nested too deeply' });
+        return;
+      }
+      let attached: ParsedEmail;
+      try {
+        attached = parseEmailFile(attachment.content);
+      } catch {
+        skipped.push({ path: filename, reason: 'Attached email could not be read' });
+        return;
+      }
+      attachedText.push(describeForwardedMessage(attached));
+      attachedText.push(...collectAttachments(attached, uploads, skipped, depth + 1));
+      return;
+    }
+
+    uploads.push({ path: filename, buffer: attachment.content });
+  });
+
+  return attachedText;
+}
+
+/**
+ * File an email on a case: its text becomes a PDF document (insurance
+ * correspondence or OTHER) and each supported attachment a document of its
+ * own, all processed like any upload. ZIP attachments are unpacked and
+ * unsupported files skipped as in a bulk import. A message already filed on
+ * the case (same Message-ID) is not filed again.
+ */
+export async function ingestEmail(options: {
+  caseId: string;
+  firmId: string;
+  email: ParsedEmail;
+  source: InboundEmailSource;
+}): Promise<IngestEmailResult> {
+  const { caseId, firmId, email, source } = options;
+
+  if (email.messageId) {
+    const existing = await prisma.inboundEmail.findFirst({
+      where: { caseId, messageId: email.messageId },
+      include: { documents: true },
+    });
+    if (existing) {
+      return {
+        inboundEmail: existing,
+        documents: existing.documents,
+        skipped: (existing.skipped as unknown as SkippedImportFile[] | null) ?? [],
+        alreadyFiled: true,
+      };
+    }
+  }
+
+  const caseData = await prisma.case.findUniqueOrThrow({
+    where: { id: caseId },
+    select: { claimNumber: true, defendantPolicyNumber: true, defendantAdjusterEmail: true },
+  });
+
+  const uploads: ImportUpload[] = [];
+  const skipped: SkippedImportFile[] = [];
+  const attachedText = collectAttachments(email, uploads, skipped, 0);
+  const expanded = expandImport(uploads);
+  skipped.push(...expanded.skipped);
+
+  const bodyText = [email.text, ...attachedText].filter(Boolean).join('\n\n').trim();
+  const files: EmailDocumentFile[] = [];
+
+  if (bodyText) {
+    const pdf = await renderEmailToPdf({
+      from: email.from,
+      to: email.to,
+      cc: email.cc,
+      subject: email.subject,
+      date: email.date,
+      text: bodyText,
+      attachmentNames: email.attachments
+        .filter((attachment) => !attachment.inline && attachment.filename)
+        .map((attachment) => attachment.filename!),
+    });
+    files.push({
+      filename: `${safeFilename(`Email - ${email.subject || 'no subject'}`)}.pdf`,
+      buffer: pdf,
+      mimeType: 'application/pdf',
+      sourcePath: null,
+      category: looksLikeInsuranceCorrespondence({ ...email, text: bodyText }, caseData)
+        ? 'INSURANCE_CORRESPONDENCE'
+        : 'OTHER',
+      isEmailBody: true,
+    });
+  }
+
+  for (const file of expanded.files) {
+    files.push({
+      filename: file.filename,
+      buffer: file.buffer,
+      mimeType: file.mimeType,
+      // Only files unpacked from an attached archive have folders to keep
+      sourcePath: file.path.includes('/') ? file.path : null,
+      category: folderHints(file.path).category ?? 'OTHER',
+      isEmailBody: false,
+    });
+  }
+
+  // Store every file first so the email and its documents are created together
+  const stored: Array<{ fileKey: string; fileUrl: string }> = [];
+  try {
+    for (const file of files) {
+      const fileKey = `${firmId}/${caseId}/${uuidv4()}-${file.filename}`;
+      stored.push({ fileKey, fileUrl: await putFile(file.buffer, fileKey, file.mimeType) });
+    }
+  } catch (error) {
+    await Promise.all(stored.map(({ fileKey }) => deleteFile(fileKey).catch(() => undefined)));
+    throw error;
+  }
+
+  let inboundEmail: InboundEmail;
+  let documents: Document[];
+  try {
+    [inboundEmail, documents] = await prisma.$transaction(async (tx) => {
+      const created = await tx.inboundEmail.create({
+        data: {
+          source,
+          messageId: email.messageId,
+          from: email.from,
+          fromAddress: email.fromAddress,
+          to: email.to,
+          subject: email.subject,
+          sentAt: email.date,
+          skipped: skipped.length > 0 ? (skipped as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+          caseId,
+        },
+      });
+
+      const createdDocuments: Document[] = [];
+      for (const [index, file] of files.entries()) {
+        createdDocuments.push(
+          await tx.document.create({
+            data: {
+              filename: stored[index].fileKey,
+              originalFilename: file.filename,
+              fileUrl: stored[index].fileUrl,
+              fileSize: file.buffer.length,
+              contentHash: hashContent(file.buffer),
+              mimeType: file.mimeType,
+              category: file.category,
+              sourcePath: file.sourcePath,
+              isEmailBody: file.isEmailBody,
+              inboundEmailId: created.id,
+              caseId,
+              processingStatus: 'PENDING',
+            },
+          })
+        );
+      }
+
+      if (createdDocuments.length > 0) {
+        await tx.case.update({ where: { id: caseId }, data: { status: 'DOCUMENTS_UPLOADED' } });
+      }
+
+      return [created, createdDocuments] as const;
+    });
+  } catch (error) {
+    await Promise.all(stored.map(({ fileKey }) => deleteFile(fileKey).catch(() => undefined)));
+    throw error;
+  }
+
+  for (const document of documents) {
+    await enqueueDocumentProcessing(document.id, { firmId, caseId });
+  }
+
+  logger.info(
+    `Filed email "${email.subject ?? '(no subject)'}" on case ${caseId}: ${documents.length} documents, ${skipped.length} skipped`
+  );
+
+  return { inboundEmail, documents, skipped, alreadyFiled: false };
+}
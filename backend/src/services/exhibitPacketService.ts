@@ -0,0 +1,475 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, degrees, rgb } from 'pdf-lib';
+import sharp from 'sharp';
+import { DocumentCategory } from '@prisma/client';
+import { getFile } from './storage.js';
+import { logger } from '../utils/logger.js';
+
+export interface ExhibitSource {
+  id: string;
+  filename: string;
+  originalFilename: string;
+  mimeType: string;
+  category: DocumentCategory;
+  documentDate: Date | null;
+  providerName: string | null;
+  extractedText: string | null;
+  /** Page range of the parent's file, for parts of a split upload */
+  pageStart?: number | null;
+  pageEnd?: number | null;
+}
+
+/**
+ * Exhibit entry persisted on ExhibitPacket.exhibits and used to
+ * cross-reference Bates ranges in generated letters.
+ */
+export interface ExhibitEntry {
+  exhibitNumber: number;
+  documentId: string;
+  title: string;
+  documentDate: string | null;
+  batesStart: number;
+  batesEnd: number;
+  batesRange: string;
+  pageCount: number;
+}
+
+export interface BatesOptions {
+  prefix: string;
+  startNumber: number;
+  digits: number;
+}
+
+export interface ExhibitPacketResult {
+  buffer: Buffer;
+  exhibits: ExhibitEntry[];
+  pageCount: number;
+  batesStart: number;
+  batesEnd: number;
+}
+
+interface PacketCaption {
+  clientName: string;
+  defendantName?: string | null;
+  claimNumber?: string | null;
+}
+
+const LETTER_WIDTH = 612;
+const LETTER_HEIGHT = 792;
+const MARGIN = 54;
+const STAMP_MARGIN = 18;
+const STAMP_SIZE = 9;
+
+const CATEGORY_LABELS: Record<DocumentCategory, string> = {
+  MEDICAL_RECORDS: 'Medical Records',
+  MEDICAL_BILLS: 'Medical Bills',
+  POLICE_REPORT: 'Police Report',
+  PHOTOS: 'Photographs',
+  WAGE_DOCUMENTATION: 'Wage Documentation',
+  INSURANCE_CORRESPONDENCE: 'Insurance Correspondence',
+  WITNESS_STATEMENT: 'Witness Statement',
+  EXPERT_REPORT: 'Expert Report',
+  PRIOR_MEDICAL_RECORDS: 'Prior Medical Records',
+  LIEN_LETTER: 'Lien Letter',
+  OTHER: 'Other',
+};
+
+export function formatBatesNumber(prefix: string, value: number, digits: number): string {
+  return `${prefix}${String(value).padStart(digits, '0')}`;
+}
+
+export function formatBatesRange(options: Pick<BatesOptions, 'prefix' | 'digits'>, start: number, end: number): string {
+  const first = formatBatesNumber(options.prefix, start, options.digits);
+  if (start === end) return first;
+  return `${first}–${formatBatesNumber(options.prefix, end, options.digits)}`;
+}
+
+/**
+ * Merge the selected documents into one PDF, in order, with an exhibit
+ * index up front and a Bates number stamped on every exhibit page.
+ */
+export async function buildExhibitPacket(
+  documents: ExhibitSource[],
+  bates: BatesOptions,
+  caption: PacketCaption
+): Promise<ExhibitPacketResult> {
+  const packet = await PDFDocument.create();
+  packet.setTitle(`Exhibit Packet - ${caption.clientName}`);
+
+  const regular = await packet.embedFont(StandardFonts.Helvetica);
+  const bold = await packet.embedFont(StandardFonts.HelveticaBold);
+
+  // Load every exhibit first so page counts, and therefore Bates ranges, are known for the index
+  const sources: Array<{ document: ExhibitSource; pdf: PDFDocument }> = [];
+  for (const document of documents) {
+    sources.push({ document, pdf: await loadExhibitPdf(document) });
+  }
+
+  const exhibits: ExhibitEntry[] = [];
+  let nextBates = bates.startNumber;
+
+  sources.forEach(({ document, pdf }, index) => {
+    const pageCount = pdf.getPageCount();
+    const batesStart = nextBates;
+    const batesEnd = nextBates + pageCount - 1;
+    nextBates = batesEnd + 1;
+
+    exhibits.push({
+      exhibitNumber: index + 1,
+      documentId: document.id,
+      title: describeExhibit(document),
+      documentDate: document.documentDate ? document.documentDate.toISOString().split('T')[0] : null,
+      batesStart,
+      batesEnd,
+      batesRange: formatBatesRange(bates, batesStart, batesEnd),
+      pageCount,
+    });
+  });
+
+  drawExhibitIndex(packet, exhibits, caption, { regular, bold });
+
+  for (let i = 0; i < sources.length; i++) {
+    const { pdf } = sources[i];
+    const exhibit = exhibits[i];
+    const copiedPages = await packet.copyPages(pdf, pdf.getPageIndices());
+
+    copiedPages.forEach((page, pageIndex) => {
+      packet.addPage(page);
+      const batesNumber = formatBatesNumber(bates.prefix, exhibit.batesStart + pageIndex, bates.digits);
+      stampPage(page, batesNumber, bold, 'bottom-right');
+      if (pageIndex === 0) {
+        stampPage(page, `Exhibit ${exhibit.exhibitNumber}`, bold, 'bottom-left');
+      }
+    });
+  }
+
+  const bytes = await packet.save();
+  const batesEnd = nextBates - 1;
+
+  return {
+    buffer: Buffer.from(bytes),
+    exhibits,
+    pageCount: packet.getPageCount(),
+    batesStart: bates.startNumber,
+    batesEnd,
+  };
+}
+
+function describeExhibit(document: ExhibitSource): string {
+  const label = CATEGORY_LABELS[document.category] || 'Document';
+  if (document.providerName) {
+    return `${label} - ${document.providerName}`;
+  }
+  return `${label} - ${document.originalFilename}`;
+}
+
+/**
+ * Convert a stored document into a standalone PDF. PDFs are used as-is (a
+ * part of a split upload takes just its pages), images become one page each
+ * and anything else is rendered from its extracted text.
+ */
+async function loadExhibitPdf(document: ExhibitSource): Promise<PDFDocument> {
+  try {
+    const buffer = await getFile(document.filename);
+
+    if (document.mimeType === 'application/pdf') {
+      const pdf = await PDFDocument.load(buffer, { ignoreEncryption: true });
+      return document.pageStart && document.pageEnd
+        ? await extractPageRange(pdf, document.pageStart, document.pageEnd)
+        : pdf;
+    }
+
+    if (document.mimeType.startsWith('image/')) {
+      return await imageToPdf(buffer, document.mimeType);
+    }
+
+    return await textToPdf(document.extractedText || '', document.originalFilename);
+  } catch (error) {
+    logger.error(`Failed to load exhibit ${document.id}, inserting placeholder:`, error);
+    return textToPdf(
+      `This document could not be rendered into the exhibit packet.\nThe original file (${document.originalFilename}) is produced separately.`,
+      document.originalFilename
+    );
+  }
+}
+
+async function extractPageRange(source: PDFDocument, pageStart: number, pageEnd: number): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  const last = Math.min(pageEnd, source.getPageCount());
+  const indices = Array.from({ length: Math.max(last - pageStart + 1, 0) }, (_, i) => pageStart - 1 + i);
+  const pages = await pdf.copyPages(source, indices);
+  pages.forEach((page) => pdf.addPage(page));
+  return pdf;
+}
+
+async function imageToPdf(buffer: Buffer, mimeType: string): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+
+  // pdf-lib only embeds PNG and JPEG; normalize everything else (and EXIF rotation) through sharp
+  let image;
+  if (mimeType === 'image/jpeg' || mimeType === 'image/jpg') {
+    image = await pdf.embedJpg(await sharp(buffer).rotate().jpeg().toBuffer());
+  } else {
+    image = await pdf.embedPng(await sharp(buffer).rotate().png().toBuffer());
+  }
+
+  const maxWidth = LETTER_WIDTH - MARGIN * 2;
+  const maxHeight = LETTER_HEIGHT - MARGIN * 2;
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height, 1);
+  const width = image.width * scale;
+  const height = image.height * scale;
+
+  const page = pdf.addPage([LETTER_WIDTH, LETTER_HEIGHT]);
+  page.drawImage(image, {
+    x: (LETTER_WIDTH - width) / 2,
+    y: (LETTER_HEIGHT - height) / 2,
+    width,
+    height,
+  });
+
+  return pdf;
+}
+
+async function textToPdf(text: string, heading: string): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const fontSize = 10;
+  const lineHeight = 13;
+  const maxWidth = LETTER_WIDTH - MARGIN * 2;
+
+  let page = pdf.addPage([LETTER_WIDTH, LETTER_HEIGHT]);
+  let y = LETTER_HEIGHT - MARGIN;
+
+  page.drawText(toWinAnsi(heading), { x: MARGIN, y, size: 12, font: bold });
+  y -= lineHeight * 2;
+
+  const lines = text
+    .replace(/\r\n/g, '\n')
+    .replace(/\t/g, '    ')
+    .split('\n')
+    .flatMap((line) => wrapText(toWinAnsi(line), font, fontSize, maxWidth));
+
+  for (const line of lines) {
+    if (y < MARGIN) {
+      page = pdf.addPage([LETTER_WIDTH, LETTER_HEIGHT]);
+      y = LETTER_HEIGHT - MARGIN;
+    }
+    page.drawText(line, { x: MARGIN, y, size: fontSize, font });
+    y -= lineHeight;
+  }
+
+  return pdf;
+}
+
+function drawExhibitIndex(
+  packet: PDFDocument,
+  exhibits: ExhibitEntry[],
+  caption: PacketCaption,
+  fonts: { regular: PDFFont; bold: PDFFont }
+): void {
+  const fontSize = 10;
+  const lineHeight = 13;
+  const columns = [
+    { label: 'Exhibit', width: 50 },
+    { label: 'Description', width: 220 },
+    { label: 'Date', width: 70 },
+    { label: 'Bates Range', width: 124 },
+    { label: 'Pages', width: 40 },
+  ];
+
+  let page = packet.addPage([LETTER_WIDTH, LETTER_HEIGHT]);
+  let y = LETTER_HEIGHT - MARGIN;
+
+  const title = 'EXHIBIT INDEX';
+  page.drawText(title, {
+    x: (LETTER_WIDTH - fonts.bold.widthOfTextAtSize(title, 16)) / 2,
+    y,
+    size: 16,
+    font: fonts.bold,
+  });
+  y -= 28;
+
+  const captionLines = [
+    caption.defendantName ? `${caption.clientName} v. ${caption.defendantName}` : caption.clientName,
+    caption.claimNumber ? `Claim No. ${caption.claimNumber}` : null,
+  ].filter((line): line is string => !!line);
+
+  for (const line of captionLines) {
+    page.drawText(toWinAnsi(line), { x: MARGIN, y, size: 11, font: fonts.regular });
+    y -= 15;
+  }
+  y -= 10;
+
+  const drawHeader = () => {
+    let x = MARGIN;
+    page.drawRectangle({
+      x: MARGIN - 4,
+      y: y - 4,
+      width: LETTER_WIDTH - MARGIN * 2 + 8,
+      height: lineHeight + 4,
+      color: rgb(0.9, 0.9, 0.9),
+    });
+    for (const column of columns) {
+      page.drawText(column.label, { x, y, size: fontSize, font: fonts.bold });
+      x += column.width;
+    }
+    y -= lineHeight + 8;
+  };
+
+  drawHeader();
+
+  for (const exhibit of exhibits) {
+    const cells = [
+      [String(exhibit.exhibitNumber)],
+      wrapText(toWinAnsi(exhibit.title), fonts.regular, fontSize, columns[1].width - 8),
+      [exhibit.documentDate || '-'],
+      wrapText(toWinAnsi(exhibit.batesRange), fonts.regular, fontSize, columns[3].width - 4),
+      [String(exhibit.pageCount)],
+    ];
+    const rowHeight = Math.max(...cells.map((cell) => cell.length)) * lineHeight;
+
+    if (y - rowHeight < MARGIN) {
+      page = packet.addPage([LETTER_WIDTH, LETTER_HEIGHT]);
+      y = LETTER_HEIGHT - MARGIN;
+      drawHeader();
+    }
+
+    let x = MARGIN;
+    cells.forEach((cell, columnIndex) => {
+      cell.forEach((line, lineIndex) => {
+        page.drawText(line, { x, y: y - lineIndex * lineHeight, size: fontSize, font: fonts.regular });
+      });
+      x += columns[columnIndex].width;
+    });
+
+    y -= rowHeight + 6;
+  }
+}
+
+type StampCorner = 'bottom-left' | 'bottom-right';
+
+/**
+ * Draw a stamp in a visual corner of the page, accounting for the page's
+ * crop box and /Rotate so the stamp reads upright when displayed.
+ */
+function stampPage(page: PDFPage, text: string, font: PDFFont, corner: StampCorner): void {
+  const box = page.getCropBox();
+  const angle = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = angle === 90 || angle === 270;
+  const displayWidth = sideways ? box.height : box.width;
+  const label = toWinAnsi(text);
+  const textWidth = font.widthOfTextAtSize(label, STAMP_SIZE);
+
+  // Origin of the text in display coordinates (u right, v up)
+  const u = corner === 'bottom-right' ? displayWidth - STAMP_MARGIN - textWidth : STAMP_MARGIN;
+  const v = STAMP_MARGIN;
+
+  let x: number;
+  let y: number;
+  switch (angle) {
+    case 90:
+      x = box.width - v;
+      y = u;
+      break;
+    case 180:
+      x = box.width - u;
+      y = box.height - v;
+      break;
+    case 270:
+      x = v;
+      y = box.height - u;
+      break;
+    default:
+      x = u;
+      y = v;
+  }
+
+  page.drawText(label, {
+    x: box.x + x,
+    y: box.y + y,
+    size: STAMP_SIZE,
+    font,
+    color: rgb(0, 0, 0),
+    rotate: degrees(angle),
+  });
+}
+
+function wrapText(text: string, font: PDFFont, fontSize: number, maxWidth: number): string[] {
+  if (!text) return [''];
+
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, fontSize) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) lines.push(current);
+
+    // Hard-break words longer than the line
+    let remainder = word;
+    while (font.widthOfTextAtSize(remainder, fontSize) > maxWidth && remainder.length > 1) {
+      let cut = remainder.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(remainder.slice(0, cut), fontSize) > maxWidth) cut--;
+      lines.push(remainder.slice(0, cut));
+      remainder = remainder.slice(cut);
+    }
+    current = remainder;
+  }
+
+  lines.push(current);
+  return lines;
+}
+
+// Standard PDF fonts only cover WinAnsi; replace anything else so drawText doesn't throw
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+function toWinAnsi(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.codePointAt(0) || 0;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.has(char)) {
+      result += char;
+    } else if (code < 0x20) {
+      result += ' ';
+    } else {
+      result += '?';
+    }
+  }
+  return result;
+}
+
+/**
+ * Replace (or append) the "Exhibit Index" section of a letter with the
+ * packet's exhibits and Bates ranges so the letter and packet agree.
+ */
+export function applyExhibitIndex(content: string, exhibits: ExhibitEntry[]): string {
+  const table = [
+    '## EXHIBIT INDEX',
+    '',
+    '| Exhibit | Description | Date | Bates Range |',
+    '|---|---|---|---|',
+    ...exhibits.map(
+      (e) => `| ${e.exhibitNumber} | ${e.title.replace(/\|/g, '/')} | ${e.documentDate || '-'} | ${e.batesRange} |`
+    ),
+  ].join('\n');
+
+  const existing = /^##\s+EXHIBIT INDEX\s*$[\s\S]*?(?=^##\s|(?![\s\S]))/im;
+  if (existing.test(content)) {
+    return content.replace(existing, `${table}\n\n`).trimEnd() + '\n';
+  }
+
+  return `${content.trimEnd()}\n\n${table}\n`;
+}
+
+/**
+ * Context block telling the generator how to cite exhibits by Bates range.
+ */
+export function buildExhibitContext(exhibits: ExhibitEntry[]): string {
+  return `### Exhibits (Bates-stamped packet)
+When referencing a supporting document, cite it as (Ex. N, BATES RANGE) using this list:
+${exhibits.map((e) => `- Ex. ${e.exhibitNumber}: ${e.title}${e.documentDate ? ` (${e.documentDate})` : ''} - ${e.batesRange}`).join('\n')}`;
+}
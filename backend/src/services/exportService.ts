@@ -5,8 +5,14 @@ import {
   TextRun,
   HeadingLevel,
   AlignmentType,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
 } from 'docx';
 import { logger } from '../utils/logger.js';
+import { renderMarkdownToPdf, RenderPdfOptions } from './pdfRenderer.js';
+import { SettlementWorksheet } from './settlementService.js';
 
 interface Firm {
   id: string;
@@ -177,50 +183,148 @@ function parseInlineFormatting(text: string): TextRun[] {
 
 export async function generatePdf(
   markdownContent: string,
+  firm: Firm,
+  options: RenderPdfOptions = {}
+): Promise<Buffer> {
+  try {
+    return await renderMarkdownToPdf(markdownContent, firm, {
+      footerText: 'Confidential - For Settlement Purposes Only',
+      ...options,
+    });
+  } catch (error) {
+    logger.error('PDF generation error:', error);
+    throw new Error('Failed to generate PDF document');
+  }
+}
+
+interface WorksheetCaseDetails {
+  clientName: string;
+  caseNumber: string | null;
+  claimNumber: string | null;
+  defendantInsuranceCompany: string | null;
+}
+
+function formatAmount(amount: number): string {
+  const formatted = Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return amount < 0 ? `($${formatted})` : `$${formatted}`;
+}
+
+function worksheetRow(label: string, amount: string, bold = false): TableRow {
+  return new TableRow({
+    children: [
+      new TableCell({
+        width: { size: 70, type: WidthType.PERCENTAGE },
+        children: [new Paragraph({ children: [new TextRun({ text: label, bold })] })],
+      }),
+      new TableCell({
+        width: { size: 30, type: WidthType.PERCENTAGE },
+        children: [
+          new Paragraph({
+            children: [new TextRun({ text: amount, bold })],
+            alignment: AlignmentType.RIGHT,
+          }),
+        ],
+      }),
+    ],
+  });
+}
+
+/**
+ * Settlement disbursement statement: gross settlement, fee, costs, lien
+ * payoffs and net to client, with signature lines for client approval.
+ */
+export async function generateSettlementWorksheetDocx(
+  worksheet: SettlementWorksheet,
+  details: WorksheetCaseDetails,
   firm: Firm
 ): Promise<Buffer> {
-  // For PDF generation, we'd typically use a library like puppeteer or pdf-lib
-  // For now, return a placeholder that indicates PDF generation is not fully implemented
-  logger.warn('PDF generation is not fully implemented - returning placeholder');
-
-  // Create a simple text-based PDF using basic structure
-  // In production, use puppeteer to render HTML to PDF
-  const pdfContent = `%PDF-1.4
-1 0 obj
-<< /Type /Catalog /Pages 2 0 R >>
-endobj
-2 0 obj
-<< /Type /Pages /Kids [3 0 R] /Count 1 >>
-endobj
-3 0 obj
-<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>
-endobj
-4 0 obj
-<< /Length 44 >>
-stream
-BT
-/F1 12 Tf
-100 700 Td
-(${firm.name} - Demand Letter) Tj
-ET
-endstream
-endobj
-5 0 obj
-<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>
-endobj
-xref
-0 6
-0000000000 65535 f
-0000000009 00000 n
-0000000058 00000 n
-0000000115 00000 n
-0000000266 00000 n
-0000000361 00000 n
-trailer
-<< /Size 6 /Root 1 0 R >>
-startxref
-434
-%%EOF`;
-
-  return Buffer.from(pdfContent);
+  try {
+    const rows: TableRow[] = [
+      worksheetRow('Gross Settlement', formatAmount(worksheet.settlementAmount), true),
+      worksheetRow(
+        `Attorney Fee (${worksheet.attorneyFeePercent}%)`,
+        formatAmount(-worksheet.attorneyFee)
+      ),
+      ...worksheet.costs.map((cost) => worksheetRow(`Cost: ${cost.description}`, formatAmount(-cost.amount))),
+      worksheetRow('Total Costs', formatAmount(-worksheet.costsTotal), true),
+      ...worksheet.liens.map((lien) =>
+        worksheetRow(
+          `Lien: ${lien.holderName} (${lien.type.replace(/_/g, ' ').toLowerCase()}; claimed ${formatAmount(lien.amountClaimed)})`,
+          formatAmount(-lien.payoff)
+        )
+      ),
+      worksheetRow('Total Lien Payoffs', formatAmount(-worksheet.lienTotal), true),
+      worksheetRow('Net to Client', formatAmount(worksheet.netToClient), true),
+    ];
+
+    const caseLines = [
+      `Client: ${details.clientName}`,
+      details.caseNumber ? `Case Number: ${details.caseNumber}` : null,
+      details.defendantInsuranceCompany ? `Insurer: ${details.defendantInsuranceCompany}` : null,
+      details.claimNumber ? `Claim Number: ${details.claimNumber}` : null,
+    ].filter((line): line is string => !!line);
+
+    const doc = new Document({
+      sections: [
+        {
+          properties: {
+            page: {
+              margin: { top: 1440, right: 1440, bottom: 1440, left: 1440 },
+            },
+          },
+          children: [
+            new Paragraph({
+              children: [new TextRun({ text: firm.name, bold: true, size: 28 })],
+              alignment: AlignmentType.CENTER,
+              spacing: { after: 200 },
+            }),
+            new Paragraph({
+              text: 'Settlement Disbursement Statement',
+              heading: HeadingLevel.HEADING_1,
+              alignment: AlignmentType.CENTER,
+              spacing: { after: 300 },
+            }),
+            ...caseLines.map((line) => new Paragraph({ children: [new TextRun({ text: line })] })),
+            new Paragraph({ children: [], spacing: { after: 200 } }),
+            new Table({
+              width: { size: 100, type: WidthType.PERCENTAGE },
+              rows,
+            }),
+            new Paragraph({ children: [], spacing: { after: 200 } }),
+            ...(worksheet.lienReductions > 0
+              ? [
+                  new Paragraph({
+                    children: [
+                      new TextRun({
+                        text: `Lien reductions negotiated: ${formatAmount(worksheet.lienReductions)}`,
+                        italics: true,
+                      }),
+                    ],
+                    spacing: { after: 200 },
+                  }),
+                ]
+              : []),
+            new Paragraph({
+              children: [
+                new TextRun({
+                  text: 'I have reviewed this statement and approve the distribution of settlement proceeds as shown above.',
+                }),
+              ],
+              spacing: { before: 400, after: 600 },
+            }),
+            new Paragraph({ children: [new TextRun({ text: '______________________________    Date: ____________' })] }),
+            new Paragraph({ children: [new TextRun({ text: details.clientName })], spacing: { after: 600 } }),
+            new Paragraph({ children: [new TextRun({ text: '______________________________    Date: ____________' })] }),
+            new Paragraph({ children: [new TextRun({ text: `Attorney, ${firm.name}` })] }),
+          ],
+        },
+      ],
+    });
+
+    const buffer = await Packer.toBuffer(doc);
+    return Buffer.from(buffer);
+  } catch (error) {
+    logger.error('Settlement worksheet DOCX error:', error);
+    throw new Error('Failed to generate settlement worksheet');
+  }
 }
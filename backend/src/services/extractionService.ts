@@ -1,21 +1,27 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { logger } from '../utils/logger.js';
 import {
   MEDICAL_RECORDS_EXTRACTION_PROMPT,
   MEDICAL_BILLS_EXTRACTION_PROMPT,
   POLICE_REPORT_EXTRACTION_PROMPT,
   WAGE_DOCUMENTATION_EXTRACTION_PROMPT,
+  LIEN_LETTER_EXTRACTION_PROMPT,
 } from '../prompts/extractionPrompts.js';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { extractionSchemas, ExtractionCategory } from '../prompts/outputSchemas.js';
+import {
+  completeLlmStructured,
+  LlmCallContext,
+  LlmValidationError,
+  LlmValidationRecord,
+  stripInvalidFields,
+} from './llmGateway.js';
 
 const CHUNK_SIZE = 50000; // ~12.5k tokens for Claude
 
 export async function extractStructuredData(
   text: string,
-  category: string
+  category: string,
+  validation?: LlmValidationRecord[],
+  context?: LlmCallContext
 ): Promise<unknown> {
   try {
     const prompt = getPromptForCategory(category);
@@ -25,12 +31,14 @@ export async function extractStructuredData(
       return { rawText: text.substring(0, 5000) };
     }
 
+    const schemaCategory = category as ExtractionCategory;
+
     // For large documents, process in chunks
     if (text.length > CHUNK_SIZE) {
-      return await extractFromChunks(text, prompt, category);
+      return await extractFromChunks(text, prompt, schemaCategory, validation, context);
     }
 
-    return await extractSingleChunk(text, prompt);
+    return await extractSingleChunk(text, prompt, schemaCategory, validation, context);
   } catch (error) {
     logger.error('Extraction error:', error);
     return { error: 'Failed to extract structured data' };
@@ -47,41 +55,53 @@ function getPromptForCategory(category: string): string | null {
       return POLICE_REPORT_EXTRACTION_PROMPT;
     case 'WAGE_DOCUMENTATION':
       return WAGE_DOCUMENTATION_EXTRACTION_PROMPT;
+    case 'LIEN_LETTER':
+      return LIEN_LETTER_EXTRACTION_PROMPT;
     default:
       return null;
   }
 }
 
-async function extractSingleChunk(text: string, prompt: string): Promise<unknown> {
-  const response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-5-20250929',
-    max_tokens: 4096,
-    messages: [
-      {
-        role: 'user',
-        content: `${prompt}\n\n---\n\nDocument text:\n${text}`,
-      },
-    ],
-  });
-
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type');
-  }
-
-  // Parse JSON from response
-  const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No JSON found in response');
+/**
+ * Extract one chunk against its category's schema. Output that still fails
+ * validation after repairs is kept with the offending fields nulled out, and
+ * the failure is recorded for the document.
+ */
+async function extractSingleChunk(
+  text: string,
+  prompt: string,
+  category: ExtractionCategory,
+  validation?: LlmValidationRecord[],
+  context?: LlmCallContext,
+  label?: string
+): Promise<unknown> {
+  try {
+    const { data, validation: record } = await completeLlmStructured({
+      task: 'extraction',
+      prompt: `${prompt}\n\n---\n\nDocument text:\n${text}`,
+      schema: extractionSchemas[category],
+      tool: { name: 'record_extracted_data', description: 'Record the structured data extracted from the document' },
+      fixture: category.toLowerCase(),
+      context,
+    });
+    validation?.push({ ...record, ...(label && { label }) });
+    return data;
+  } catch (error) {
+    if (!(error instanceof LlmValidationError) || !error.output || typeof error.output !== 'object') {
+      throw error;
+    }
+    logger.warn(`Keeping ${category} extraction with ${error.issues.length} invalid fields removed`);
+    validation?.push({ ...error.record, ...(label && { label }) });
+    return stripInvalidFields(error.output, error.issues);
   }
-
-  return JSON.parse(jsonMatch[0]);
 }
 
 async function extractFromChunks(
   text: string,
   prompt: string,
-  category: string
+  category: ExtractionCategory,
+  validation?: LlmValidationRecord[],
+  context?: LlmCallContext
 ): Promise<unknown> {
   const chunks: string[] = [];
 
@@ -95,7 +115,14 @@ async function extractFromChunks(
   // Process each chunk
   const results = await Promise.all(
     chunks.map((chunk, index) =>
-      extractSingleChunk(chunk, `${prompt}\n\nNote: This is chunk ${index + 1} of ${chunks.length}.`)
+      extractSingleChunk(
+        chunk,
+        `${prompt}\n\nNote: This is chunk ${index + 1} of ${chunks.length}.`,
+        category,
+        validation,
+        context,
+        `chunk ${index + 1}/${chunks.length}`
+      )
     )
   );
 
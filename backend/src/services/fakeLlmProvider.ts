@@ -0,0 +1,62 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { LlmProvider, LlmProviderResponse } from './llmGateway.js';
+import { getLlmFixturesDir, llmRequestHash } from './llmGateway.js';
+
+type Fixture = Partial<LlmProviderResponse> & { text: string };
+
+async function readFixture(file: string): Promise<Fixture | null> {
+  try {
+    const fixture = JSON.parse(await fs.readFile(file, 'utf8'));
+    if (typeof fixture?.text !== 'string') {
+      throw new Error(`LLM fixture ${file} has no "text"`);
+    }
+    return fixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Deterministic stand-in for offline runs (LLM_PROVIDER=fake). Responses
+ * are replayed from LLM_FIXTURES_DIR: `<task>/<request hash>.json` for an
+ * exact prompt, then the fixture the caller names (extraction names its
+ * category, e.g. `extraction/medical_bills.json`), then `<task>/default.json`.
+ * Structured tasks read the fixture's `toolInput`, or its text parsed as
+ * JSON. Fixtures can be recorded from real calls with LLM_RECORD_FIXTURES=true.
+ */
+export function createFakeLlmProvider(): LlmProvider {
+  return {
+    name: 'fake',
+
+    async complete(request) {
+      const dir = path.join(getLlmFixturesDir(), request.task);
+      const names = [llmRequestHash(request), request.fixture, 'default'].filter(Boolean);
+      const files = names.map((name) => path.join(dir, `${name}.json`));
+
+      let fixture: Fixture | null = null;
+      for (const file of files) {
+        fixture = await readFixture(file);
+        if (fixture) break;
+      }
+      if (!fixture) {
+        throw new Error(`No LLM fixture for ${request.task}; expected one of ${files.join(', ')}`);
+      }
+
+      return {
+        text: fixture.text,
+        toolInput: fixture.toolInput,
+        model: fixture.model ?? request.model,
+        stopReason: fixture.stopReason ?? 'end_turn',
+        usage: fixture.usage ?? {
+          // Rough 4-characters-per-token estimate keeps usage accounting exercised offline
+          inputTokens: Math.ceil(
+            ((request.system ?? '').length + request.messages.reduce((sum, m) => sum + m.content.length, 0)) / 4
+          ),
+          outputTokens: Math.ceil(fixture.text.length / 4),
+        },
+      };
+    },
+  };
+}
@@ -1,10 +1,15 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { DefendantType, GeneratedDocType, GeneratedDocument, Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
 import { logger } from '../utils/logger.js';
 import { DEMAND_LETTER_SYSTEM_PROMPT } from '../prompts/systemPrompt.js';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { applyExhibitIndex, buildExhibitContext, ExhibitEntry } from './exhibitPacketService.js';
+import { applyDamagesFigures, buildDamagesContext, isDamagesCalculation, recalculateCaseDamages } from './damagesService.js';
+import { LETTER_SECTIONS, LetterSectionKey, parseLetterSections, replaceLetterSection } from './letterSectionService.js';
+import { calculateGovernmentClaimDeadline, isPublicEntity, statuteInputFor } from './statuteService.js';
+import { CANONICAL_DOCUMENT_WHERE } from './duplicateService.js';
+import { demandLetterSchema, sectionRegenerationSchema } from '../prompts/outputSchemas.js';
+import { completeLlmStructured, completeLlmText, LlmStructuredRequest, LlmValidationError } from './llmGateway.js';
 
 interface GenerationResult {
   content: string;
@@ -14,6 +19,7 @@ interface GenerationResult {
 
 interface CaseWithDocuments {
   id: string;
+  firmId: string;
   clientFirstName: string;
   clientLastName: string;
   clientDateOfBirth: Date | null;
@@ -23,9 +29,11 @@ interface CaseWithDocuments {
   incidentDescription: string | null;
   incidentType: string;
   defendantName: string | null;
+  defendantType: DefendantType;
   defendantInsuranceCompany: string | null;
   claimNumber: string | null;
   jurisdiction: string;
+  governmentClaimRejectedAt: Date | null;
   extractedData: unknown;
   treatmentTimeline: unknown;
   damagesCalculation: unknown;
@@ -34,6 +42,247 @@ interface CaseWithDocuments {
     extractedData: unknown;
     extractedText: string | null;
   }>;
+  exhibits?: ExhibitEntry[];
+}
+
+interface CreateGeneratedDocumentInput {
+  caseId: string;
+  userId: string;
+  documentType: GeneratedDocType;
+  tone: string;
+  parameters?: unknown;
+}
+
+/**
+ * Load a case with its processed documents, its damages calculation and the
+ * exhibits from its latest Bates-stamped packet, if one has been built.
+ */
+async function loadCaseForGeneration(caseId: string): Promise<CaseWithDocuments> {
+  const caseData = await prisma.case.findUnique({
+    where: { id: caseId },
+    include: {
+      documents: {
+        where: { processingStatus: 'COMPLETED', ...CANONICAL_DOCUMENT_WHERE },
+      },
+    },
+  });
+
+  if (!caseData) {
+    throw new Error(`Case ${caseId} not found`);
+  }
+
+  const latestPacket = await prisma.exhibitPacket.findFirst({
+    where: { caseId },
+    orderBy: { createdAt: 'desc' },
+  });
+  const exhibits = latestPacket ? (latestPacket.exhibits as unknown as ExhibitEntry[]) : undefined;
+
+  // Cases synthesized before the damages engine only have billed totals
+  const damagesCalculation = isDamagesCalculation(caseData.damagesCalculation)
+    ? caseData.damagesCalculation
+    : await recalculateCaseDamages(caseId);
+
+  // Cast to the service type; Prisma's case row carries extra fields
+  return { ...caseData, damagesCalculation, exhibits } as any;
+}
+
+/**
+ * Generate a document for a case and persist it as the next version.
+ * Runs inside the background job worker.
+ */
+export async function createGeneratedDocument(
+  input: CreateGeneratedDocumentInput
+): Promise<GeneratedDocument> {
+  const { caseId, userId, documentType, tone, parameters } = input;
+
+  const caseData = await loadCaseForGeneration(caseId);
+
+  let result: GenerationResult;
+  if (documentType === 'DEMAND_LETTER') {
+    result = await generateDemandLetter(caseData, tone);
+  } else {
+    result = await generateDocument(caseData, documentType, tone);
+  }
+
+  // Resolve the version after generation so concurrent jobs don't collide
+  const latestDoc = await prisma.generatedDocument.findFirst({
+    where: { caseId, documentType },
+    orderBy: { version: 'desc' },
+  });
+
+  const generatedDoc = await prisma.generatedDocument.create({
+    data: {
+      documentType,
+      version: (latestDoc?.version || 0) + 1,
+      tone,
+      parameters: (parameters ?? undefined) as Prisma.InputJsonValue | undefined,
+      content: result.content,
+      contentHtml: result.contentHtml,
+      warnings: result.warnings as Prisma.InputJsonValue,
+      caseId,
+      createdById: userId,
+    },
+  });
+
+  await prisma.case.update({
+    where: { id: caseId },
+    data: {
+      status: 'DRAFT_READY',
+      attorneyWarnings: result.warnings as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Generated ${documentType} v${generatedDoc.version} for case ${caseId}`);
+  return generatedDoc;
+}
+
+interface SaveEditedVersionInput {
+  parent: GeneratedDocument;
+  userId: string;
+  content: string;
+  editNote?: string;
+}
+
+/**
+ * Save an attorney's edit of a generated document as the next version.
+ * The parent version is left untouched.
+ */
+export async function saveEditedVersion(input: SaveEditedVersionInput): Promise<GeneratedDocument> {
+  const { parent, userId, content, editNote } = input;
+
+  const latestDoc = await prisma.generatedDocument.findFirst({
+    where: { caseId: parent.caseId, documentType: parent.documentType },
+    orderBy: { version: 'desc' },
+  });
+
+  const editedDoc = await prisma.generatedDocument.create({
+    data: {
+      documentType: parent.documentType,
+      version: (latestDoc?.version || 0) + 1,
+      tone: parent.tone,
+      parameters: (parent.parameters ?? undefined) as Prisma.InputJsonValue | undefined,
+      content,
+      warnings: (parent.warnings ?? undefined) as Prisma.InputJsonValue | undefined,
+      source: 'USER',
+      editNote: editNote || null,
+      parentId: parent.id,
+      caseId: parent.caseId,
+      createdById: userId,
+    },
+  });
+
+  logger.info(`Saved edited ${parent.documentType} v${editedDoc.version} for case ${parent.caseId}`);
+  return editedDoc;
+}
+
+// Sections whose rewrite is checked against the damages calculation
+const DAMAGES_SECTION_KEYS: LetterSectionKey[] = ['damages', 'demand'];
+
+interface RegenerateSectionInput {
+  parent: GeneratedDocument;
+  userId: string;
+  sectionKey: LetterSectionKey;
+  instructions?: string;
+  tone?: string;
+}
+
+/**
+ * Rewrite one section of a demand letter and save the result as the next
+ * version. Every other section is copied from the parent verbatim.
+ * Runs inside the background job worker.
+ */
+export async function regenerateLetterSection(input: RegenerateSectionInput): Promise<GeneratedDocument> {
+  const { parent, userId, sectionKey, instructions } = input;
+  const tone = input.tone || parent.tone;
+
+  const section = parseLetterSections(parent.content).find((s) => s.key === sectionKey);
+  if (!section) {
+    throw new Error(`Section ${sectionKey} not found in generated document ${parent.id}`);
+  }
+
+  const label = LETTER_SECTIONS.find((s) => s.key === sectionKey)!.label;
+  const caseData = await loadCaseForGeneration(parent.caseId);
+
+  logger.info(`Regenerating ${label} section of ${parent.id} with tone: ${tone}`);
+
+  const userPrompt = `Rewrite ONLY the "${label}" section of the demand letter below with ${tone} tone.
+
+## Case Information
+${buildCaseContext(caseData)}
+
+## Current Letter
+${parent.content}
+
+## Section To Rewrite
+${section.content.trim()}
+${instructions ? `\n## Attorney Instructions\n${instructions}\n` : ''}
+## Instructions
+1. Rewrite only this section; the rest of the letter is kept exactly as written
+2. Keep it consistent with the other sections (names, dates, amounts, exhibit references)
+3. ${section.heading ? `Start with the same heading line: ${section.heading}` : 'Do not add a section heading'}
+4. Use placeholders like [INSERT DATE] for any missing information
+
+Record your response with the following structure:
+{
+  "section": "Rewritten section in Markdown format",
+  "warnings": [
+    {
+      "severity": "critical|moderate|minor",
+      "category": "treatment_gap|pre_existing|causation|credibility|missing_doc|statute",
+      "message": "",
+      "recommendation": ""
+    }
+  ]
+}`;
+
+  const result = await completeLetterOutput('section', {
+    task: 'section_regeneration',
+    system: DEMAND_LETTER_SYSTEM_PROMPT,
+    prompt: userPrompt,
+    schema: sectionRegenerationSchema,
+    tool: { name: 'record_section', description: 'Record the rewritten section and any attorney warnings' },
+    context: { firmId: caseData.firmId, caseId: caseData.id },
+  });
+  const rewritten = result.section;
+  const sectionWarnings: unknown[] = result.warnings;
+
+  const latestDoc = await prisma.generatedDocument.findFirst({
+    where: { caseId: parent.caseId, documentType: parent.documentType },
+    orderBy: { version: 'desc' },
+  });
+
+  const parentWarnings = Array.isArray(parent.warnings) ? parent.warnings : [];
+
+  let content = replaceLetterSection(parent.content, section, rewritten);
+  // Only the sections that state figures are checked; any other section's
+  // rewrite must leave the rest of the letter, edits included, untouched
+  if (DAMAGES_SECTION_KEYS.includes(sectionKey) && isDamagesCalculation(caseData.damagesCalculation)) {
+    const checked = applyDamagesFigures(content, caseData.damagesCalculation);
+    content = checked.content;
+    sectionWarnings.push(...checked.warnings);
+  }
+
+  const generatedDoc = await prisma.generatedDocument.create({
+    data: {
+      documentType: parent.documentType,
+      version: (latestDoc?.version || 0) + 1,
+      tone: parent.tone,
+      parameters: {
+        ...((parent.parameters as Record<string, unknown>) || {}),
+        regeneratedSection: { key: sectionKey, tone, instructions: instructions || null },
+      } as Prisma.InputJsonValue,
+      content,
+      warnings: [...parentWarnings, ...sectionWarnings] as Prisma.InputJsonValue,
+      source: 'AI',
+      editNote: `Regenerated ${label} section`,
+      parentId: parent.id,
+      caseId: parent.caseId,
+      createdById: userId,
+    },
+  });
+
+  logger.info(`Regenerated ${label} section as v${generatedDoc.version} for case ${parent.caseId}`);
+  return generatedDoc;
 }
 
 export async function generateDemandLetter(
@@ -53,11 +302,11 @@ ${context}
 ## Instructions
 1. Generate a complete demand letter following the structure in your system prompt
 2. Use all available information from the documents
-3. Calculate and present damages clearly
+3. Present damages clearly, using the Damages Calculation figures exactly when provided
 4. Flag any warnings for attorney review
 5. Use placeholders like [INSERT DATE] for any missing information
 
-Return your response as JSON with the following structure:
+Record your response with the following structure:
 {
   "demandLetter": "Full letter in Markdown format",
   "summary": {
@@ -79,40 +328,28 @@ Return your response as JSON with the following structure:
   "missingInformation": []
 }`;
 
-  const response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-5-20250929',
-    max_tokens: 8192,
+  const result = await completeLetterOutput('demandLetter', {
+    task: 'demand_letter',
     system: DEMAND_LETTER_SYSTEM_PROMPT,
-    messages: [
-      {
-        role: 'user',
-        content: userPrompt,
-      },
-    ],
+    prompt: userPrompt,
+    schema: demandLetterSchema,
+    tool: { name: 'record_demand_letter', description: 'Record the demand letter, its summary and attorney warnings' },
+    context: { firmId: caseData.firmId, caseId: caseData.id },
   });
-
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type');
+  let letter = result.demandLetter;
+  const warnings: unknown[] = result.warnings;
+
+  // The computed damages override whatever amounts the model wrote
+  if (isDamagesCalculation(caseData.damagesCalculation)) {
+    const checked = applyDamagesFigures(letter, caseData.damagesCalculation);
+    letter = checked.content;
+    warnings.push(...checked.warnings);
   }
 
-  // Parse JSON from response
-  const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    // If no JSON, treat entire response as the letter
-    return {
-      content: content.text,
-      contentHtml: null,
-      warnings: [],
-    };
-  }
-
-  const result = JSON.parse(jsonMatch[0]);
-
   return {
-    content: result.demandLetter || content.text,
+    content: caseData.exhibits?.length ? applyExhibitIndex(letter, caseData.exhibits) : letter,
     contentHtml: null, // Can be converted to HTML later if needed
-    warnings: result.warnings || [],
+    warnings,
   };
 }
 
@@ -147,6 +384,11 @@ Include: all medical visits, diagnoses, procedures, medications, and follow-up c
 Include: itemized special damages (medical bills, wage loss), calculation methodology, and pain and suffering analysis.`;
       break;
 
+    case 'GOVERNMENT_CLAIM':
+      prompt = `Generate a government tort claim (notice of claim) against the public entity defendant in the following personal injury case, following the claim-presentation statute cited in the case information.
+Include: claimant name and address, address for notices, date, place and circumstances of the occurrence, the public entity and any employees involved, a general description of the injuries and damages known so far, and the amount claimed. Where the statute limits how the amount is stated (e.g. Cal. Gov. Code § 910(f) for claims over $10,000), follow it. End with a signature and verification block.`;
+      break;
+
     default:
       throw new Error(`Unknown document type: ${documentType}`);
   }
@@ -158,29 +400,41 @@ ${context}
 
 Generate a professional document suitable for attorney review. Use Markdown formatting.`;
 
-  const response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-5-20250929',
-    max_tokens: 4096,
-    messages: [
-      {
-        role: 'user',
-        content: userPrompt,
-      },
-    ],
+  const content = await completeLlmText({
+    task: 'document_generation',
+    prompt: userPrompt,
+    context: { firmId: caseData.firmId, caseId: caseData.id },
   });
 
-  const responseContent = response.content[0];
-  if (responseContent.type !== 'text') {
-    throw new Error('Unexpected response type');
-  }
-
   return {
-    content: responseContent.text,
+    content,
     contentHtml: null,
     warnings: [],
   };
 }
 
+/**
+ * Letter output validated against its schema. If the letter text itself is
+ * usable but other fields (usually warnings) still fail after repairs, the
+ * text is kept and the warnings dropped rather than failing the generation.
+ */
+async function completeLetterOutput<T extends z.ZodTypeAny>(
+  textField: string,
+  request: LlmStructuredRequest<T>
+): Promise<z.infer<T>> {
+  try {
+    return (await completeLlmStructured(request)).data;
+  } catch (error) {
+    const output = error instanceof LlmValidationError ? (error.output as Record<string, unknown> | null) : null;
+    const text = output?.[textField];
+    if (typeof text !== 'string' || !text.trim()) {
+      throw error;
+    }
+    logger.warn(`Keeping ${request.task} ${textField} despite invalid fields`);
+    return { ...output, warnings: [] } as z.infer<T>;
+  }
+}
+
 function buildCaseContext(caseData: CaseWithDocuments): string {
   const sections: string[] = [];
 
@@ -205,6 +459,15 @@ function buildCaseContext(caseData: CaseWithDocuments): string {
 - Claim Number: ${caseData.claimNumber || '[UNKNOWN]'}`);
   }
 
+  // Public entity defendants need a notice of claim before suit
+  if (isPublicEntity(caseData.defendantType)) {
+    const governmentClaim = calculateGovernmentClaimDeadline(statuteInputFor(caseData));
+    sections.push(`### Public Entity Defendant
+- Entity Type: ${caseData.defendantType.replace(/_/g, ' ').toLowerCase()}
+- Jurisdiction: ${caseData.jurisdiction}
+- Claim Deadline: ${governmentClaim ? `${governmentClaim.deadline.toISOString().split('T')[0]} (${governmentClaim.citation})` : '[VERIFY LOCAL REQUIREMENTS]'}`);
+  }
+
   // Treatment timeline
   if (caseData.treatmentTimeline) {
     const timeline = caseData.treatmentTimeline as Array<{
@@ -220,7 +483,9 @@ ${timeline.map((t) => `- ${t.date}: ${t.provider} - ${t.type}${t.description ? `
   }
 
   // Damages
-  if (caseData.damagesCalculation) {
+  if (isDamagesCalculation(caseData.damagesCalculation)) {
+    sections.push(buildDamagesContext(caseData.damagesCalculation));
+  } else if (caseData.damagesCalculation) {
     const damages = caseData.damagesCalculation as {
       specialDamages?: {
         medicalBills?: number;
@@ -236,6 +501,11 @@ ${timeline.map((t) => `- ${t.date}: ${t.provider} - ${t.type}${t.description ? `
     }
   }
 
+  // Exhibit packet
+  if (caseData.exhibits && caseData.exhibits.length > 0) {
+    sections.push(buildExhibitContext(caseData.exhibits));
+  }
+
   // Document summaries
   const docsByCategory = new Map<string, unknown[]>();
   for (const doc of caseData.documents) {
@@ -0,0 +1,100 @@
+import { Request, RequestHandler } from 'express';
+import { clerkClient, clerkMiddleware, getAuth } from '@clerk/express';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Who signed in, according to the identity provider. `userId` is the
+ * provider's id, stored as User.clerkId once the identity joins a firm.
+ */
+export interface Identity {
+  userId: string;
+  sessionId: string;
+}
+
+export interface IdentityProfile {
+  email: string | null;
+  name: string | null;
+}
+
+export type AuthProvider = 'clerk' | 'local';
+
+// Headers the local stand-in reads in place of a Clerk session
+export const LOCAL_AUTH_HEADERS = {
+  userId: 'x-local-user-id',
+  email: 'x-local-user-email',
+  name: 'x-local-user-name',
+} as const;
+
+/**
+ * `AUTH_PROVIDER=local` swaps Clerk for a stand-in that trusts the
+ * X-Local-User-* headers, so sign-up, invitations and roles can be exercised
+ * without a Clerk instance. Never enabled in production.
+ */
+export function getAuthProvider(): AuthProvider {
+  if (process.env.AUTH_PROVIDER !== 'local') return 'clerk';
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_PROVIDER=local cannot be used in production');
+  }
+  return 'local';
+}
+
+/** Session parsing for the configured provider, mounted ahead of requireAuth */
+export function identityMiddleware(): RequestHandler {
+  if (getAuthProvider() === 'local') {
+    return (_req, _res, next) => next();
+  }
+  return clerkMiddleware();
+}
+
+export function resolveIdentity(req: Request): Identity | null {
+  if (getAuthProvider() === 'local') {
+    const userId = req.get(LOCAL_AUTH_HEADERS.userId)?.trim();
+    return userId ? { userId, sessionId: `local:${userId}` } : null;
+  }
+
+  const authInfo = getAuth(req);
+  if (!authInfo || !authInfo.userId) return null;
+  return { userId: authInfo.userId, sessionId: authInfo.sessionId || '' };
+}
+
+/** Email and display name for an identity that has no User row yet */
+export async function getIdentityProfile(req: Request, identity: Identity): Promise<IdentityProfile> {
+  if (getAuthProvider() === 'local') {
+    return {
+      email: req.get(LOCAL_AUTH_HEADERS.email)?.trim().toLowerCase() || null,
+      name: req.get(LOCAL_AUTH_HEADERS.name)?.trim() || null,
+    };
+  }
+
+  const clerkUser = await clerkClient.users.getUser(identity.userId);
+  const email = clerkUser.primaryEmailAddress?.emailAddress ?? clerkUser.emailAddresses[0]?.emailAddress ?? null;
+  const name = [clerkUser.firstName, clerkUser.lastName].filter(Boolean).join(' ') || null;
+  return { email: email?.toLowerCase() ?? null, name };
+}
+
+/**
+ * Email an invitation link. Clerk sends its own invitation email that lands
+ * on the link after sign-up; the local stand-in just logs the link.
+ */
+export async function sendInvitationEmail(params: {
+  email: string;
+  firmName: string;
+  acceptUrl: string;
+  expiresAt: Date;
+}): Promise<void> {
+  if (getAuthProvider() === 'local') {
+    logger.info(`Invitation for ${params.email} to join ${params.firmName}: ${params.acceptUrl}`);
+    return;
+  }
+
+  const expiresInDays = Math.max(1, Math.ceil((params.expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+  await clerkClient.invitations.createInvitation({
+    emailAddress: params.email,
+    redirectUrl: params.acceptUrl,
+    publicMetadata: { firmName: params.firmName },
+    expiresInDays,
+    // The address may already have a Clerk account from another firm
+    ignoreExisting: true,
+  });
+}
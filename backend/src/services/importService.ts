@@ -0,0 +1,270 @@
+import path from 'path';
+import { DocumentCategory } from '@prisma/client';
+import { detectStructuredRecord, isStructuredRecordFile, STRUCTURED_RECORD_MIME_TYPES } from './structuredRecordService.js';
+import { isZipBuffer, readZip } from '../utils/zip.js';
+import { logger } from '../utils/logger.js';
+
+/** Same per-file limit as single uploads */
+const MAX_DOCUMENT_SIZE = 50 * 1024 * 1024;
+
+// Guards against archive bombs and runaway vendor dumps
+const MAX_IMPORT_FILES = 2000;
+const MAX_EXPANDED_BYTES = 512 * 1024 * 1024;
+const MAX_ARCHIVE_DEPTH = 3;
+
+const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+/** File extension for an attachment's declared type, for names without one */
+export function extensionForMimeType(mimeType: string): string {
+  if (mimeType === 'application/zip' || mimeType === 'application/x-zip-compressed') return '.zip';
+  if (mimeType === 'image/jpg') return '.jpg';
+  if (mimeType === 'application/xml' || mimeType === 'text/xml') return '.xml';
+  if (mimeType === 'application/json' || mimeType === 'application/fhir+json') return '.json';
+  return Object.entries(DOCUMENT_MIME_TYPES).find(([, type]) => type === mimeType)?.[0] ?? '';
+}
+
+// OS and tool metadata that rides along in archives and folder copies
+const SYSTEM_FILES = new Set(['.ds_store', 'thumbs.db', 'desktop.ini', 'icon\r', '.localized']);
+
+export interface ImportUpload {
+  /** Relative path as sent: a folder path for folder uploads, or an archive's name */
+  path: string;
+  buffer: Buffer;
+}
+
+export interface ImportFile {
+  /** Path within the uploaded folder or archive */
+  path: string;
+  filename: string;
+  buffer: Buffer;
+  mimeType: string;
+}
+
+export interface SkippedImportFile {
+  path: string;
+  reason: string;
+}
+
+export interface ExpandedImport {
+  files: ImportFile[];
+  skipped: SkippedImportFile[];
+  archives: string[];
+}
+
+/** Forward slashes, no leading "./" or "/", and no ".." segments */
+export function normalizeImportPath(value: string): string {
+  return value
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((segment) => segment && segment !== '.' && segment !== '..')
+    .join('/');
+}
+
+function isSystemFile(filePath: string): boolean {
+  const segments = filePath.split('/');
+  const name = segments[segments.length - 1].toLowerCase();
+  return (
+    segments.some((segment) => segment === '__MACOSX' || (segment.startsWith('.') && segment.length > 1)) ||
+    SYSTEM_FILES.has(name) ||
+    // Office lock files
+    name.startsWith('~$')
+  );
+}
+
+export interface ImportSource {
+  /** Relative path as sent, as for ImportUpload */
+  path: string;
+  /** Load the upload's bytes, e.g. from the temp file it was streamed to */
+  read(): Promise<Buffer>;
+}
+
+/** Archives unpacked and files skipped so far, filled in as an import is expanded */
+export type ImportReport = Omit<ExpandedImport, 'files'>;
+
+/**
+ * Sorts files into supported documents (yielded) and skipped files, unpacking
+ * archives as they come. Counts toward the import limits carry across every
+ * upload in the request.
+ */
+function importExpander(report: ImportReport) {
+  let fileCount = 0;
+  let expandedBytes = 0;
+
+  function* add(filePath: string, buffer: Buffer, depth: number): Generator<ImportFile> {
+    const extension = path.extname(filePath).toLowerCase();
+
+    if (isSystemFile(filePath)) {
+      report.skipped.push({ path: filePath, reason: 'System file' });
+      return;
+    }
+
+    // DOCX files are ZIP containers too, so the magic bytes only mark an
+    // archive when the name doesn't already say what the file is
+    const isDocumentType = Boolean(DOCUMENT_MIME_TYPES[extension]) || isStructuredRecordFile(filePath);
+    if (extension === '.zip' || (!isDocumentType && isZipBuffer(buffer))) {
+      if (depth >= MAX_ARCHIVE_DEPTH) {
+        report.skipped.push({ path: filePath, reason: 'Archive nested too deeply' });
+        return;
+      }
+      yield* addArchive(filePath, buffer, depth + 1);
+      return;
+    }
+
+    // XML and JSON are only kept when they are health records; vendor exports
+    // often carry manifests and metadata alongside them
+    let mimeType = DOCUMENT_MIME_TYPES[extension];
+    if (isStructuredRecordFile(filePath) && buffer.length > 0) {
+      const format = detectStructuredRecord(buffer);
+      if (!format) {
+        report.skipped.push({ path: filePath, reason: 'Not a C-CDA or FHIR record' });
+        return;
+      }
+      mimeType = STRUCTURED_RECORD_MIME_TYPES[format];
+    }
+
+    if (!mimeType) {
+      report.skipped.push({ path: filePath, reason: `Unsupported file type${extension ? ` (${extension})` : ''}` });
+    } else if (buffer.length === 0) {
+      report.skipped.push({ path: filePath, reason: 'Empty file' });
+    } else if (buffer.length > MAX_DOCUMENT_SIZE) {
+      report.skipped.push({ path: filePath, reason: 'Larger than 50MB' });
+    } else if (fileCount >= MAX_IMPORT_FILES) {
+      report.skipped.push({ path: filePath, reason: `Import limit of ${MAX_IMPORT_FILES} documents reached` });
+    } else {
+      fileCount++;
+      yield { path: filePath, filename: path.basename(filePath), buffer, mimeType };
+    }
+  }
+
+  function* addArchive(archivePath: string, buffer: Buffer, depth: number): Generator<ImportFile> {
+    let entries;
+    try {
+      entries = readZip(buffer);
+    } catch (error) {
+      report.skipped.push({ path: archivePath, reason: error instanceof Error ? error.message : 'Unreadable archive' });
+      return;
+    }
+    report.archives.push(archivePath);
+
+    // Entries are filed under the archive's folder; the archive's own name is usually just a label
+    const folder = path.posix.dirname(archivePath);
+    const prefix = folder === '.' ? '' : `${folder}/`;
+
+    for (const entry of entries) {
+      const entryPath = normalizeImportPath(`${prefix}${entry.path}`);
+      if (entry.isDirectory || !entryPath) continue;
+
+      if (entry.isEncrypted) {
+        report.skipped.push({ path: entryPath, reason: 'Password-protected' });
+        continue;
+      }
+      // Checked before inflating so an oversized entry is never held in memory
+      if (entry.size > MAX_DOCUMENT_SIZE && path.extname(entryPath).toLowerCase() !== '.zip') {
+        report.skipped.push({ path: entryPath, reason: 'Larger than 50MB' });
+        continue;
+      }
+      if (expandedBytes + entry.size > MAX_EXPANDED_BYTES) {
+        report.skipped.push({ path: entryPath, reason: 'Archive expands past the import size limit' });
+        continue;
+      }
+
+      let data: Buffer;
+      try {
+        data = entry.read();
+      } catch (error) {
+        logger.warn(`Could not extract ${entryPath} from ${archivePath}: ${error}`);
+        report.skipped.push({ path: entryPath, reason: 'Could not be extracted' });
+        continue;
+      }
+      expandedBytes += data.length;
+      yield* add(entryPath, data, depth);
+    }
+  }
+
+  return { add };
+}
+
+/**
+ * Unpack ZIP archives (including archives inside archives) and sort every
+ * file into supported documents and skipped files with a reason. Folder
+ * structure is kept in each path so it can hint at category and provider.
+ */
+export function expandImport(uploads: ImportUpload[]): ExpandedImport {
+  const result: ExpandedImport = { files: [], skipped: [], archives: [] };
+  const expander = importExpander(result);
+
+  for (const upload of uploads) {
+    result.files.push(...expander.add(normalizeImportPath(upload.path), upload.buffer, 0));
+  }
+
+  return result;
+}
+
+/**
+ * Like expandImport, but for large imports: uploads are read one at a time
+ * and each document is handed over as it is extracted, so only the current
+ * archive and document are held in memory. Skipped files and unpacked
+ * archives are recorded on `report` as they are found.
+ */
+export async function* streamImport(sources: ImportSource[], report: ImportReport): AsyncGenerator<ImportFile> {
+  const expander = importExpander(report);
+
+  for (const source of sources) {
+    yield* expander.add(normalizeImportPath(source.path), await source.read(), 0);
+  }
+}
+
+// Folder names that say what's inside, checked in order; "Prior Medical" and
+// "Medical Bills" must win over the generic medical-records patterns
+const CATEGORY_FOLDER_PATTERNS: Array<[RegExp, DocumentCategory]> = [
+  [/\bprior\b|pre[- ]?(accident|incident|existing)/i, 'PRIOR_MEDICAL_RECORDS'],
+  [/bill|invoice|itemi[sz]ed|statement|ledger|\bucb\b|\beobs?\b|\bhcfa\b|\bub-?04\b/i, 'MEDICAL_BILLS'],
+  [/police|collision|crash|accident report|incident report/i, 'POLICE_REPORT'],
+  [/photo|picture|image|\bpics\b/i, 'PHOTOS'],
+  [/wage|payroll|pay ?stubs?|employ|lost (income|earnings)|\bw-?2\b/i, 'WAGE_DOCUMENTATION'],
+  [/lien|subrogation|\blops?\b|letters? of protection/i, 'LIEN_LETTER'],
+  [/insurance|adjuster|\bclaims?\b|correspondence/i, 'INSURANCE_CORRESPONDENCE'],
+  [/witness/i, 'WITNESS_STATEMENT'],
+  [/expert|\bime\b|reconstruction/i, 'EXPERT_REPORT'],
+  [/record|chart|medical|clinical|notes|radiology|imaging|\bmri\b|x-?rays?|therapy|\bpt\b|\ber\b|emergency/i, 'MEDICAL_RECORDS'],
+];
+
+// Folder names that are neither a category nor a provider
+const GENERIC_FOLDER = /^(documents?|docs|files|scans?|misc(ellaneous)?|other|new folder|upload(s|ed)?|[\d\s._-]+)$/i;
+
+export interface FolderHints {
+  category: DocumentCategory | null;
+  providerName: string | null;
+}
+
+/**
+ * What an imported file's folders suggest about it. The deepest folder that
+ * names a category wins; the deepest other folder is taken as the provider,
+ * except the top folder of a deeper tree (usually the vendor's order or the
+ * client's name).
+ */
+export function folderHints(sourcePath: string | null | undefined): FolderHints {
+  const folders = (sourcePath ?? '').split('/').slice(0, -1).filter(Boolean);
+
+  let category: DocumentCategory | null = null;
+  let provider: string | undefined;
+  for (const [index, folder] of folders.entries()) {
+    const match = CATEGORY_FOLDER_PATTERNS.find(([pattern]) => pattern.test(folder));
+    if (match) {
+      category = match[1];
+    } else if (!GENERIC_FOLDER.test(folder) && (index > 0 || folders.length === 1)) {
+      provider = folder;
+    }
+  }
+
+  return {
+    category,
+    providerName: provider ? provider.replace(/_+/g, ' ').replace(/\s+/g, ' ').trim() : null,
+  };
+}
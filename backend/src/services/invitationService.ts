@@ -0,0 +1,165 @@
+import { randomBytes } from 'crypto';
+import { Invitation, Prisma, User, UserRole } from '@prisma/client';
+import prisma from '../db/client.js';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../utils/errors.js';
+import { IdentityProfile, sendInvitationEmail } from './identityService.js';
+
+export const INVITATION_TTL_DAYS = 14;
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+export const invitationInclude = {
+  firm: { select: { id: true, name: true } },
+  invitedBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.InvitationInclude;
+
+export type InvitationWithFirm = Prisma.InvitationGetPayload<{ include: typeof invitationInclude }>;
+
+export function invitationAcceptUrl(token: string): string {
+  return `${APP_URL.replace(/\/$/, '')}/invite/${token}`;
+}
+
+export function isInvitationExpired(invitation: Pick<Invitation, 'expiresAt'>): boolean {
+  return invitation.expiresAt.getTime() <= Date.now();
+}
+
+/** Public view of an invitation; the token is only ever in the emailed link */
+export function serializeInvitation(invitation: InvitationWithFirm) {
+  const { token: _token, ...rest } = invitation;
+  return {
+    ...rest,
+    expired: invitation.status === 'PENDING' && isInvitationExpired(invitation),
+  };
+}
+
+/**
+ * Invite an email address to the firm. A pending invitation for the same
+ * address is replaced so only the latest link works.
+ */
+export async function createInvitation(params: {
+  firmId: string;
+  email: string;
+  role: UserRole;
+  invitedById: string;
+}): Promise<InvitationWithFirm> {
+  const email = params.email.trim().toLowerCase();
+
+  const existingUser = await prisma.user.findFirst({
+    where: { firmId: params.firmId, email: { equals: email, mode: 'insensitive' } },
+  });
+  if (existingUser) {
+    throw new ConflictError(`${email} is already a member of this firm`);
+  }
+
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const invitation = await prisma.$transaction(async (tx) => {
+    await tx.invitation.updateMany({
+      where: { firmId: params.firmId, email, status: 'PENDING' },
+      data: { status: 'REVOKED', revokedAt: new Date() },
+    });
+
+    return tx.invitation.create({
+      data: {
+        firmId: params.firmId,
+        email,
+        role: params.role,
+        token: randomBytes(32).toString('base64url'),
+        invitedById: params.invitedById,
+        expiresAt,
+      },
+      include: invitationInclude,
+    });
+  });
+
+  await sendInvitationEmail({
+    email,
+    firmName: invitation.firm.name,
+    acceptUrl: invitationAcceptUrl(invitation.token),
+    expiresAt,
+  });
+
+  return invitation;
+}
+
+export async function revokeInvitation(invitationId: string, firmId: string): Promise<InvitationWithFirm> {
+  const invitation = await prisma.invitation.findFirst({ where: { id: invitationId, firmId } });
+  if (!invitation) {
+    throw new NotFoundError('Invitation not found');
+  }
+  if (invitation.status !== 'PENDING') {
+    throw new BadRequestError(`Invitation has already been ${invitation.status.toLowerCase()}`);
+  }
+
+  return prisma.invitation.update({
+    where: { id: invitation.id },
+    data: { status: 'REVOKED', revokedAt: new Date() },
+    include: invitationInclude,
+  });
+}
+
+/** Look up an invitation by its emailed token, failing if it can't be used */
+export async function findUsableInvitation(token: string): Promise<InvitationWithFirm> {
+  const invitation = await prisma.invitation.findUnique({ where: { token }, include: invitationInclude });
+  if (!invitation) {
+    throw new NotFoundError('Invitation not found');
+  }
+  if (invitation.status !== 'PENDING') {
+    throw new BadRequestError(`This invitation has been ${invitation.status.toLowerCase()}`);
+  }
+  if (isInvitationExpired(invitation)) {
+    throw new BadRequestError('This invitation has expired; ask an admin to send a new one');
+  }
+  return invitation;
+}
+
+/**
+ * Accept an invitation for a signed-in identity that isn't in a firm yet,
+ * creating its User in the inviting firm with the invited role. The
+ * identity's email must match the invited address.
+ */
+export async function acceptInvitation(
+  token: string,
+  identityUserId: string,
+  profile: IdentityProfile
+): Promise<{ user: User; invitation: InvitationWithFirm }> {
+  const invitation = await findUsableInvitation(token);
+
+  if (!profile.email || profile.email !== invitation.email) {
+    throw new ForbiddenError(`This invitation was sent to ${invitation.email}; sign in with that address to accept it`);
+  }
+
+  const existingUser = await prisma.user.findUnique({ where: { clerkId: identityUserId } });
+  if (existingUser) {
+    throw new ConflictError('Your account already belongs to a firm');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.user.create({
+      data: {
+        clerkId: identityUserId,
+        email: invitation.email,
+        name: profile.name || invitation.email.split('@')[0],
+        role: invitation.role,
+        firmId: invitation.firmId,
+      },
+    });
+
+    const accepted = await tx.invitation.update({
+      where: { id: invitation.id },
+      data: { status: 'ACCEPTED', acceptedAt: new Date(), acceptedById: user.id },
+      include: invitationInclude,
+    });
+
+    return { user, invitation: accepted };
+  });
+}
+
+/** Pending, unexpired invitations addressed to an email */
+export async function findPendingInvitationsForEmail(email: string): Promise<InvitationWithFirm[]> {
+  return prisma.invitation.findMany({
+    where: { email: email.toLowerCase(), status: 'PENDING', expiresAt: { gt: new Date() } },
+    include: invitationInclude,
+    orderBy: { createdAt: 'desc' },
+  });
+}
@@ -0,0 +1,58 @@
+import { GeneratedDocType } from '@prisma/client';
+import prisma from '../db/client.js';
+import { registerJobHandler, JOB_TYPES } from './jobQueue.js';
+import { processDocument } from './documentProcessor.js';
+import { generateChronology } from './chronologyService.js';
+import { createGeneratedDocument, regenerateLetterSection } from './generationService.js';
+import { LetterSectionKey } from './letterSectionService.js';
+
+interface ProcessDocumentPayload {
+  documentId: string;
+}
+
+interface GenerateChronologyPayload {
+  caseId: string;
+}
+
+interface GenerateDocumentPayload {
+  caseId: string;
+  userId: string;
+  documentType: GeneratedDocType;
+  tone: string;
+  parameters?: unknown;
+}
+
+interface RegenerateSectionPayload {
+  generatedDocumentId: string;
+  userId: string;
+  sectionKey: LetterSectionKey;
+  instructions?: string;
+  tone?: string;
+}
+
+export function registerJobHandlers(): void {
+  registerJobHandler(JOB_TYPES.PROCESS_DOCUMENT, async (job) => {
+    const { documentId } = job.payload as unknown as ProcessDocumentPayload;
+    await processDocument(documentId);
+    return { documentId };
+  });
+
+  registerJobHandler(JOB_TYPES.GENERATE_CHRONOLOGY, async (job) => {
+    const { caseId } = job.payload as unknown as GenerateChronologyPayload;
+    const chronology = await generateChronology(caseId);
+    return { chronologyId: chronology.id };
+  });
+
+  registerJobHandler(JOB_TYPES.GENERATE_DOCUMENT, async (job) => {
+    const payload = job.payload as unknown as GenerateDocumentPayload;
+    const generatedDoc = await createGeneratedDocument(payload);
+    return { generatedDocumentId: generatedDoc.id, version: generatedDoc.version };
+  });
+
+  registerJobHandler(JOB_TYPES.REGENERATE_SECTION, async (job) => {
+    const { generatedDocumentId, ...payload } = job.payload as unknown as RegenerateSectionPayload;
+    const parent = await prisma.generatedDocument.findUniqueOrThrow({ where: { id: generatedDocumentId } });
+    const generatedDoc = await regenerateLetterSection({ parent, ...payload });
+    return { generatedDocumentId: generatedDoc.id, version: generatedDoc.version };
+  });
+}
@@ -0,0 +1,253 @@
+import os from 'os';
+import { Job, Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { logger } from '../utils/logger.js';
+
+export const JOB_TYPES = {
+  PROCESS_DOCUMENT: 'process-document',
+  GENERATE_CHRONOLOGY: 'generate-chronology',
+  GENERATE_DOCUMENT: 'generate-document',
+  REGENERATE_SECTION: 'regenerate-section',
+} as const;
+
+export type JobHandler = (job: Job) => Promise<unknown>;
+
+interface EnqueueOptions {
+  firmId?: string | null;
+  caseId?: string | null;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10);
+const LEASE_MS = parseInt(process.env.JOB_LEASE_MS || '300000', 10); // 5 minutes
+const CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2', 10);
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+const handlers = new Map<string, JobHandler>();
+let running = false;
+let activeJobs = 0;
+let pollTimer: NodeJS.Timeout | null = null;
+
+export function registerJobHandler(type: string, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Persist a job so it survives restarts; the worker loop picks it up.
+ */
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, unknown>,
+  options: EnqueueOptions = {}
+): Promise<Job> {
+  const job = await prisma.job.create({
+    data: {
+      type,
+      payload: payload as Prisma.InputJsonValue,
+      firmId: options.firmId ?? null,
+      caseId: options.caseId ?? null,
+      maxAttempts: options.maxAttempts ?? 5,
+      runAt: options.runAt ?? new Date(),
+    },
+  });
+
+  logger.info(`Job enqueued: ${type} (${job.id})`);
+  return job;
+}
+
+/**
+ * Retry delay after the given (1-based) attempt: 30s, 1m, 2m, 4m ... capped at 1h.
+ */
+export function getBackoffDelay(attempt: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempt - 1, 0), BACKOFF_MAX_MS);
+}
+
+export function startJobWorker(): void {
+  if (running) return;
+  running = true;
+  logger.info(`Job worker ${WORKER_ID} started (concurrency ${CONCURRENCY})`);
+  schedulePoll(0);
+}
+
+export function stopJobWorker(): void {
+  running = false;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+}
+
+function schedulePoll(delay: number): void {
+  if (!running) return;
+  pollTimer = setTimeout(() => {
+    poll().catch((error) => {
+      logger.error('Job worker poll error:', error);
+    }).finally(() => schedulePoll(POLL_INTERVAL_MS));
+  }, delay);
+}
+
+async function poll(): Promise<void> {
+  while (running && activeJobs < CONCURRENCY) {
+    const job = await claimNextJob();
+    if (!job) return;
+
+    activeJobs++;
+    runJob(job).finally(() => {
+      activeJobs--;
+    });
+  }
+}
+
+/**
+ * Dead-letter jobs whose lease expired on their last attempt. A job that
+ * keeps crashing its worker never reaches the failure handler, so this is
+ * where its attempt budget is enforced.
+ */
+async function deadLetterExpiredLeases(): Promise<void> {
+  const rows = await prisma.$queryRaw<Pick<Job, 'id' | 'type' | 'attempts'>[]>`
+    UPDATE "Job"
+    SET "status" = 'DEAD'::"JobStatus",
+        "lastError" = 'Lease expired on the final attempt; the worker stopped responding',
+        "lockedBy" = NULL,
+        "lockedUntil" = NULL,
+        "completedAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "status" = 'RUNNING'::"JobStatus"
+      AND "lockedUntil" < NOW()
+      AND "attempts" >= "maxAttempts"
+    RETURNING "id", "type", "attempts"
+  `;
+
+  for (const job of rows) {
+    logger.error(`Job ${job.type} (${job.id}) moved to dead-letter after ${job.attempts} attempts: lease expired`);
+  }
+}
+
+/**
+ * Atomically lease the next runnable job. Jobs whose lease expired (e.g. the
+ * process died mid-run) are reclaimed alongside queued jobs while they have
+ * attempts left.
+ */
+async function claimNextJob(): Promise<Job | null> {
+  await deadLetterExpiredLeases();
+
+  const rows = await prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING'::"JobStatus",
+        "lockedBy" = ${WORKER_ID},
+        "lockedUntil" = NOW() + (${LEASE_MS} * INTERVAL '1 millisecond'),
+        "attempts" = "attempts" + 1,
+        "startedAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "Job"
+      WHERE ("status" = 'QUEUED'::"JobStatus" AND "runAt" <= NOW())
+         OR ("status" = 'RUNNING'::"JobStatus" AND "lockedUntil" < NOW() AND "attempts" < "maxAttempts")
+      ORDER BY "runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  return rows[0] ?? null;
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = handlers.get(job.type);
+
+  // Keep the lease alive while long-running work (OCR, generation) is in flight
+  const heartbeat = setInterval(() => {
+    prisma.job.updateMany({
+      where: { id: job.id, lockedBy: WORKER_ID, status: 'RUNNING' },
+      data: { lockedUntil: new Date(Date.now() + LEASE_MS) },
+    }).catch((error) => logger.error(`Failed to extend lease for job ${job.id}:`, error));
+  }, Math.floor(LEASE_MS / 3));
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type: ${job.type}`);
+    }
+
+    logger.info(`Running job ${job.type} (${job.id}), attempt ${job.attempts}/${job.maxAttempts}`);
+    const result = await handler(job);
+
+    // Guard on lockedBy/status so a cancelled or reclaimed job is not overwritten
+    await prisma.job.updateMany({
+      where: { id: job.id, lockedBy: WORKER_ID, status: 'RUNNING' },
+      data: {
+        status: 'SUCCEEDED',
+        result: (result ?? undefined) as Prisma.InputJsonValue | undefined,
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: null,
+        completedAt: new Date(),
+      },
+    });
+
+    logger.info(`Job succeeded: ${job.type} (${job.id})`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    await prisma.job.updateMany({
+      where: { id: job.id, lockedBy: WORKER_ID, status: 'RUNNING' },
+      data: exhausted
+        ? {
+            status: 'DEAD',
+            lastError: message,
+            lockedBy: null,
+            lockedUntil: null,
+            completedAt: new Date(),
+          }
+        : {
+            status: 'QUEUED',
+            lastError: message,
+            lockedBy: null,
+            lockedUntil: null,
+            runAt: new Date(Date.now() + getBackoffDelay(job.attempts)),
+          },
+    });
+
+    if (exhausted) {
+      logger.error(`Job ${job.type} (${job.id}) moved to dead-letter after ${job.attempts} attempts: ${message}`);
+    } else {
+      logger.warn(`Job ${job.type} (${job.id}) failed, will retry: ${message}`);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Put a dead, cancelled or queued job back at the front of the queue with a
+ * fresh attempt budget.
+ */
+export async function retryJob(jobId: string): Promise<Job> {
+  return prisma.job.update({
+    where: { id: jobId },
+    data: {
+      status: 'QUEUED',
+      attempts: 0,
+      runAt: new Date(),
+      lockedBy: null,
+      lockedUntil: null,
+      completedAt: null,
+    },
+  });
+}
+
+export async function cancelJob(jobId: string): Promise<Job> {
+  return prisma.job.update({
+    where: { id: jobId },
+    data: {
+      status: 'CANCELLED',
+      lockedBy: null,
+      lockedUntil: null,
+      completedAt: new Date(),
+    },
+  });
+}
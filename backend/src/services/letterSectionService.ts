@@ -0,0 +1,190 @@
+/**
+ * Splits a demand letter into the sections defined by the system prompt
+ * (Header through Settlement Demand) so one can be rewritten on its own.
+ */
+
+export type LetterSectionKey =
+  | 'header'
+  | 'introduction'
+  | 'factual_background'
+  | 'liability'
+  | 'injuries'
+  | 'impact'
+  | 'damages'
+  | 'demand';
+
+export interface LetterSectionDefinition {
+  key: LetterSectionKey;
+  label: string;
+  /** Matched against the heading text after numbering and Markdown are stripped */
+  pattern: RegExp | null;
+}
+
+export const LETTER_SECTIONS: LetterSectionDefinition[] = [
+  { key: 'header', label: 'Header', pattern: null },
+  { key: 'introduction', label: 'Introduction', pattern: /^introduction\b/i },
+  { key: 'factual_background', label: 'Factual Background', pattern: /\b(factual background|statement of facts|facts of (the )?(incident|loss|accident))\b/i },
+  { key: 'liability', label: 'Liability', pattern: /\bliability\b/i },
+  { key: 'injuries', label: 'Injuries and Medical Treatment', pattern: /\b(injuries|medical treatment)\b/i },
+  { key: 'impact', label: 'Impact on Life', pattern: /\b(impact|pain and suffering|quality of life)\b/i },
+  { key: 'damages', label: 'Damages', pattern: /\bdamages\b/i },
+  { key: 'demand', label: 'Settlement Demand', pattern: /\b(settlement demand|demand for settlement|^demand$)/i },
+];
+
+export interface LetterSection {
+  /** null for trailing content that isn't a prompt section, e.g. the exhibit index */
+  key: LetterSectionKey | null;
+  label: string;
+  /** Heading line as written in the letter, empty for the header */
+  heading: string;
+  /** Character range in the letter, including the heading line */
+  start: number;
+  end: number;
+  content: string;
+}
+
+// Sections appended after generation that are never regenerated
+const TRAILING_HEADINGS = [/^exhibit index$/i];
+
+const MAX_HEADING_LENGTH = 80;
+
+// "RE: Claim for personal injuries", "Date of Loss: March 3, 2024" - the
+// reference lines of a letter's header, which are not headings
+const REFERENCE_LINE = /^(re|subject|regarding)\b|^[^:]{1,40}:\s*\S/i;
+
+interface HeadingLine {
+  /** Heading words without numbering or Markdown */
+  text: string;
+  /** Markdown heading depth, null for bold or all-caps lines */
+  level: number | null;
+  line: string;
+  start: number;
+}
+
+/**
+ * Reduce a candidate heading line to its words, e.g.
+ * "## IV. LIABILITY ANALYSIS" or "**4. Liability Analysis:**" -> "LIABILITY ANALYSIS".
+ * Returns null for lines that don't look like headings.
+ */
+function headingLine(line: string, start: number): HeadingLine | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > MAX_HEADING_LENGTH) return null;
+
+  const markdownLevel = /^(#{1,6})\s/.exec(trimmed)?.[1].length ?? null;
+  const isBoldLine = /^\*\*[^*]+\*\*:?$/.test(trimmed) || /^__[^_]+__:?$/.test(trimmed);
+  const letters = trimmed.replace(/[^A-Za-z]/g, '');
+  const isUpperCaseLine = letters.length >= 4 && letters === letters.toUpperCase() && !/[.!?]$/.test(trimmed);
+
+  if (!markdownLevel && !isBoldLine && !isUpperCaseLine) return null;
+
+  const text = trimmed
+    .replace(/^#{1,6}\s+/, '')
+    .replace(/^(\*\*|__)|(\*\*|__):?$/g, '')
+    .replace(/^([IVXLC]+|\d+|[A-H])[.)]\s+/, '')
+    .replace(/:$/, '')
+    .trim();
+
+  return { text, level: markdownLevel, line: trimmed, start };
+}
+
+function isTrailingHeading(heading: HeadingLine): boolean {
+  return TRAILING_HEADINGS.some((pattern) => pattern.test(heading.text));
+}
+
+function matchSection(text: string, seen: Set<LetterSectionKey>): LetterSectionKey | 'trailing' | null {
+  if (TRAILING_HEADINGS.some((pattern) => pattern.test(text))) {
+    return 'trailing';
+  }
+
+  // Check the settlement demand first so "Damages and Demand" style headings
+  // don't swallow it, then the remaining sections in letter order
+  const ordered = [...LETTER_SECTIONS.slice(-1), ...LETTER_SECTIONS.slice(0, -1)];
+  for (const section of ordered) {
+    if (section.pattern && !seen.has(section.key) && section.pattern.test(text)) {
+      return section.key;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The headings that can start a section: Markdown headings at the depth the
+ * letter uses for its sections (the one naming the most of them, so a title
+ * above or sub-headings below don't count), or bold and all-caps lines when
+ * the letter has no Markdown section headings. Deeper headings ("### Medical
+ * Specials") belong to the section they sit in. Trailing headings such as the
+ * appended "## EXHIBIT INDEX" don't vote on the depth and always end the
+ * section before them, whatever their level.
+ */
+function sectionHeadingLines(headings: HeadingLine[]): HeadingLine[] {
+  const sectionsByLevel = new Map<number, Set<string>>();
+  for (const heading of headings) {
+    if (heading.level === null || isTrailingHeading(heading)) continue;
+    const match = matchSection(heading.text, new Set());
+    if (!match) continue;
+    const matched = sectionsByLevel.get(heading.level) ?? new Set<string>();
+    matched.add(match);
+    sectionsByLevel.set(heading.level, matched);
+  }
+
+  const sectionLevel =
+    sectionsByLevel.size === 0
+      ? null
+      : [...sectionsByLevel.entries()].sort(
+          ([levelA, matchedA], [levelB, matchedB]) => matchedB.size - matchedA.size || levelA - levelB
+        )[0][0];
+  return headings.filter((heading) => heading.level === sectionLevel || isTrailingHeading(heading));
+}
+
+/**
+ * Split a letter into sections at recognised headings. Text before the
+ * first recognised heading is the header; its reference lines ("RE: Claim
+ * for Personal Injuries") never start a section. Only headings at the
+ * letter's top section depth start one, so sub-headings stay with their
+ * section, as do repeated headings for a section already seen.
+ */
+export function parseLetterSections(content: string): LetterSection[] {
+  const boundaries: Array<{ key: LetterSectionKey | null; label: string; heading: string; start: number }> = [
+    { key: 'header', label: 'Header', heading: '', start: 0 },
+  ];
+  const seen = new Set<LetterSectionKey>(['header']);
+
+  const headings: HeadingLine[] = [];
+  let offset = 0;
+  for (const line of content.split('\n')) {
+    const heading = headingLine(line, offset);
+    if (heading) headings.push(heading);
+    offset += line.length + 1;
+  }
+
+  for (const heading of sectionHeadingLines(headings)) {
+    const inHeader = boundaries.length === 1;
+    if (inHeader && REFERENCE_LINE.test(heading.text)) continue;
+
+    const match = matchSection(heading.text, seen);
+    if (match === 'trailing') {
+      boundaries.push({ key: null, label: heading.text, heading: heading.line, start: heading.start });
+    } else if (match) {
+      seen.add(match);
+      const label = LETTER_SECTIONS.find((section) => section.key === match)!.label;
+      boundaries.push({ key: match, label, heading: heading.line, start: heading.start });
+    }
+  }
+
+  return boundaries
+    .map((boundary, index) => {
+      const end = index + 1 < boundaries.length ? boundaries[index + 1].start : content.length;
+      return { ...boundary, end, content: content.slice(boundary.start, end) };
+    })
+    .filter((section) => section.content.trim().length > 0);
+}
+
+/**
+ * Replace one section's text, keeping every other character of the letter
+ * verbatim. Preserves the blank lines that separated it from the next section.
+ */
+export function replaceLetterSection(content: string, section: LetterSection, replacement: string): string {
+  const trailingWhitespace = section.content.match(/\s*$/)?.[0] || '';
+  return content.slice(0, section.start) + replacement.trim() + (trailingWhitespace || '\n\n') + content.slice(section.end);
+}
@@ -0,0 +1,72 @@
+import { Lien, LienType, Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { logger } from '../utils/logger.js';
+
+// lienType values from LIEN_LETTER_EXTRACTION_PROMPT
+const LIEN_TYPES: Record<string, LienType> = {
+  medical_provider: 'MEDICAL_PROVIDER',
+  health_insurer: 'HEALTH_INSURER',
+  medicare: 'MEDICARE',
+  medi_cal: 'MEDI_CAL',
+  medicaid: 'MEDI_CAL',
+  erisa: 'ERISA',
+  other: 'OTHER',
+};
+
+function parseAmount(value: unknown): number | null {
+  const number = typeof value === 'string' ? parseFloat(value.replace(/[$,]/g, '')) : Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+/**
+ * Create or refresh the lien asserted by a classified lien letter. Fields an
+ * attorney negotiates (status, negotiated amount, notes) are left untouched
+ * when the letter is reprocessed.
+ */
+export async function syncLienFromDocument(
+  caseId: string,
+  documentId: string,
+  extractedData: unknown
+): Promise<Lien | null> {
+  const data = (extractedData || {}) as Record<string, unknown>;
+  const holder = data.lienHolder as Record<string, unknown> | undefined;
+  const holderName = typeof holder?.name === 'string' ? holder.name.trim() : '';
+  const amountClaimed = parseAmount(data.amountClaimed);
+
+  if (!holderName || amountClaimed === null) {
+    logger.info(`No lien holder or amount found in lien letter ${documentId}`);
+    return null;
+  }
+
+  const fields = {
+    holderName,
+    type: LIEN_TYPES[String(data.lienType || '').toLowerCase()] || 'OTHER',
+    amountClaimed: new Prisma.Decimal(amountClaimed),
+    claimNumber: typeof data.claimNumber === 'string' ? data.claimNumber : null,
+  };
+
+  const lien = await prisma.lien.upsert({
+    where: { sourceDocumentId: documentId },
+    create: {
+      ...fields,
+      notes: typeof data.notes === 'string' ? data.notes : null,
+      caseId,
+      sourceDocumentId: documentId,
+    },
+    update: fields,
+  });
+
+  logger.info(`Lien from ${holderName} (${fields.type}) recorded for case ${caseId}`);
+  return lien;
+}
+
+/**
+ * Amount that will be paid out of the settlement: the negotiated amount if
+ * one was agreed, otherwise the full claim. Waived liens pay nothing.
+ */
+export function lienPayoff(lien: Pick<Lien, 'status' | 'amountClaimed' | 'negotiatedAmount'>): number {
+  if (lien.status === 'WAIVED') {
+    return 0;
+  }
+  return Number(lien.negotiatedAmount ?? lien.amountClaimed);
+}
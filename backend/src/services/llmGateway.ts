@@ -0,0 +1,486 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { logger } from '../utils/logger.js';
+import { zodToJsonSchema } from '../utils/zodJsonSchema.js';
+import { createAnthropicLlmProvider } from './anthropicLlmProvider.js';
+import { createFakeLlmProvider } from './fakeLlmProvider.js';
+
+/**
+ * Every model call the app makes, named so each can be tuned separately.
+ */
+export const LLM_TASKS = [
+  'classification',
+  'segmentation',
+  'extraction',
+  'medical_events',
+  'gap_explanations',
+  'chronology_narrative',
+  'executive_summary',
+  'demand_letter',
+  'section_regeneration',
+  'document_generation',
+] as const;
+
+export type LlmTask = (typeof LLM_TASKS)[number];
+
+export interface LlmTaskConfig {
+  model: string;
+  maxTokens: number;
+  temperature: number | null;
+  timeoutMs: number;
+}
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** A tool the model is made to call, so its answer arrives as JSON matching inputSchema */
+export interface LlmTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+/** What a provider is asked to run: the task's resolved config plus the prompt */
+export interface LlmProviderRequest extends LlmTaskConfig {
+  task: LlmTask;
+  system?: string;
+  messages: LlmMessage[];
+  tool?: LlmTool;
+  /** Fixture the fake provider replays before `default.json`, e.g. the extraction category */
+  fixture?: string;
+}
+
+export interface LlmProviderResponse {
+  text: string;
+  /** The forced tool call's input, when the request had a tool */
+  toolInput?: unknown;
+  model: string;
+  stopReason: string | null;
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: 'anthropic' | 'fake';
+  complete(request: LlmProviderRequest): Promise<LlmProviderResponse>;
+}
+
+/** Who a call was made for, so usage can be attributed */
+export interface LlmCallContext {
+  firmId?: string;
+  caseId?: string;
+  documentId?: string;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  system?: string;
+  /** Shorthand for a single user message */
+  prompt?: string;
+  messages?: LlmMessage[];
+  tool?: LlmTool;
+  fixture?: string;
+  context?: LlmCallContext;
+}
+
+export interface LlmResult extends LlmProviderResponse {
+  task: LlmTask;
+  provider: LlmProvider['name'];
+  attempts: number;
+  durationMs: number;
+}
+
+export interface LlmUsageEvent {
+  task: LlmTask;
+  provider: LlmProvider['name'];
+  model: string;
+  usage: LlmUsage;
+  durationMs: number;
+  context: LlmCallContext;
+}
+
+/**
+ * A provider failure that can be retried: rate limits, overload, server
+ * errors and timeouts. Providers wrap their SDK's errors in this.
+ */
+export class RetryableLlmError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | null,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+  }
+}
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public readonly task: LlmTask,
+    public readonly attempts: number
+  ) {
+    super(message);
+  }
+}
+
+export interface LlmValidationIssue {
+  /** Dotted path into the output, e.g. `visits.2.date` */
+  path: string;
+  message: string;
+}
+
+/** How a structured call fared against its schema, kept on the Document it was for */
+export interface LlmValidationRecord {
+  task: LlmTask;
+  status: 'valid' | 'repaired' | 'failed';
+  attempts: number;
+  /** For repaired calls, what the earlier attempts got wrong; for failed ones, what the last still got wrong */
+  issues: LlmValidationIssue[];
+  /** Which part of the document, e.g. "chunk 2/3" */
+  label?: string;
+}
+
+/** Structured output still failed its schema after every repair attempt */
+export class LlmValidationError extends LlmError {
+  constructor(
+    task: LlmTask,
+    attempts: number,
+    public readonly issues: LlmValidationIssue[],
+    /** The last output, for callers that can salvage the valid parts */
+    public readonly output: unknown
+  ) {
+    super(`LLM ${task} output failed validation after ${attempts} attempts`, task, attempts);
+  }
+
+  get record(): LlmValidationRecord {
+    return { task: this.task, status: 'failed', attempts: this.attempts, issues: this.issues };
+  }
+}
+
+const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
+
+const TASK_DEFAULTS: Record<LlmTask, Omit<LlmTaskConfig, 'model'>> = {
+  classification: { maxTokens: 1024, temperature: 0, timeoutMs: 60_000 },
+  segmentation: { maxTokens: 4096, temperature: 0, timeoutMs: 120_000 },
+  extraction: { maxTokens: 4096, temperature: 0, timeoutMs: 120_000 },
+  medical_events: { maxTokens: 8000, temperature: 0, timeoutMs: 300_000 },
+  gap_explanations: { maxTokens: 2000, temperature: null, timeoutMs: 120_000 },
+  chronology_narrative: { maxTokens: 4000, temperature: null, timeoutMs: 180_000 },
+  executive_summary: { maxTokens: 1000, temperature: null, timeoutMs: 60_000 },
+  demand_letter: { maxTokens: 8192, temperature: null, timeoutMs: 300_000 },
+  section_regeneration: { maxTokens: 4096, temperature: null, timeoutMs: 180_000 },
+  document_generation: { maxTokens: 4096, temperature: null, timeoutMs: 180_000 },
+};
+
+function envNumber(name: string): number | null {
+  const value = process.env[name];
+  if (value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Resolve a task's config. LLM_MODEL sets the model for every task; each
+ * setting can be overridden per task, e.g. LLM_CLASSIFICATION_MODEL,
+ * LLM_DEMAND_LETTER_TEMPERATURE, LLM_MEDICAL_EVENTS_MAX_TOKENS or
+ * LLM_EXTRACTION_TIMEOUT_MS.
+ */
+export function getLlmTaskConfig(task: LlmTask): LlmTaskConfig {
+  const prefix = `LLM_${task.toUpperCase()}`;
+  const defaults = TASK_DEFAULTS[task];
+
+  return {
+    model: process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL || DEFAULT_MODEL,
+    maxTokens: envNumber(`${prefix}_MAX_TOKENS`) ?? defaults.maxTokens,
+    temperature: envNumber(`${prefix}_TEMPERATURE`) ?? defaults.temperature,
+    timeoutMs: envNumber(`${prefix}_TIMEOUT_MS`) ?? defaults.timeoutMs,
+  };
+}
+
+let provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    const name = (process.env.LLM_PROVIDER || 'anthropic').toLowerCase();
+    if (name === 'fake') {
+      provider = createFakeLlmProvider();
+    } else if (name === 'anthropic') {
+      provider = createAnthropicLlmProvider();
+    } else {
+      throw new Error(`Unknown LLM_PROVIDER "${name}" (expected "anthropic" or "fake")`);
+    }
+    logger.info(`LLM provider: ${provider.name}`);
+  }
+  return provider;
+}
+
+/**
+ * Stable fingerprint of a prompt, used to name fixtures. Model settings are
+ * left out so retuning a task doesn't invalidate recorded fixtures.
+ */
+export function llmRequestHash(request: Pick<LlmProviderRequest, 'task' | 'system' | 'messages'>): string {
+  return createHash('sha256')
+    .update(JSON.stringify([request.task, request.system ?? null, request.messages]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export function getLlmFixturesDir(): string {
+  return path.resolve(process.env.LLM_FIXTURES_DIR || 'fixtures/llm');
+}
+
+// With LLM_RECORD_FIXTURES=true, real responses are saved for the fake provider to replay
+async function recordFixture(request: LlmProviderRequest, response: LlmProviderResponse): Promise<void> {
+  const file = path.join(getLlmFixturesDir(), request.task, `${llmRequestHash(request)}.json`);
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(response, null, 2));
+  } catch (error) {
+    logger.warn(`LLM fixture could not be recorded: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Usage accounting
+// ---------------------------------------------------------------------------
+
+type UsageListener = (event: LlmUsageEvent) => void | Promise<void>;
+type RequestGuard = (task: LlmTask, context: LlmCallContext) => void | Promise<void>;
+
+const usageListeners: UsageListener[] = [];
+const requestGuards: RequestGuard[] = [];
+const usageTotals = new Map<string, LlmUsage & { task: LlmTask; model: string; calls: number }>();
+
+/** Subscribe to every completed call, e.g. to persist per-firm usage */
+export function onLlmUsage(listener: UsageListener): void {
+  usageListeners.push(listener);
+}
+
+/** Run before every call; a guard that throws blocks the call, e.g. over quota */
+export function onLlmRequest(guard: RequestGuard): void {
+  requestGuards.push(guard);
+}
+
+/** Tokens used by each task and model since the process started */
+export function getLlmUsageTotals() {
+  return Array.from(usageTotals.values());
+}
+
+function recordUsage(event: LlmUsageEvent): void {
+  const key = `${event.task}:${event.model}`;
+  const totals = usageTotals.get(key) ?? { task: event.task, model: event.model, calls: 0, inputTokens: 0, outputTokens: 0 };
+  totals.calls += 1;
+  totals.inputTokens += event.usage.inputTokens;
+  totals.outputTokens += event.usage.outputTokens;
+  usageTotals.set(key, totals);
+
+  for (const listener of usageListeners) {
+    Promise.resolve()
+      .then(() => listener(event))
+      .catch((error) => logger.error(`LLM usage listener failed: ${error instanceof Error ? error.message : error}`));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Completion with retries
+// ---------------------------------------------------------------------------
+
+const MAX_RETRIES = envNumber('LLM_MAX_RETRIES') ?? 3;
+const BASE_BACKOFF_MS = envNumber('LLM_BACKOFF_MS') ?? 1000;
+const MAX_BACKOFF_MS = 60_000;
+
+function backoffDelay(attempt: number, error: RetryableLlmError): number {
+  if (error.retryAfterMs !== null) {
+    return Math.min(error.retryAfterMs, MAX_BACKOFF_MS);
+  }
+  // Exponential with full jitter so parallel workers don't retry in lockstep
+  const ceiling = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run a model call for a task. Rate limits, overload and timeouts are
+ * retried with backoff; other errors are thrown immediately.
+ */
+export async function completeLlm(request: LlmRequest): Promise<LlmResult> {
+  const messages = request.messages ?? [{ role: 'user' as const, content: request.prompt ?? '' }];
+  const providerRequest: LlmProviderRequest = {
+    ...getLlmTaskConfig(request.task),
+    task: request.task,
+    system: request.system,
+    messages,
+    tool: request.tool,
+    fixture: request.fixture,
+  };
+  const llm = getLlmProvider();
+
+  for (const guard of requestGuards) {
+    await guard(request.task, request.context ?? {});
+  }
+
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await llm.complete(providerRequest);
+      const durationMs = Date.now() - startedAt;
+
+      logger.info(
+        `LLM ${request.task} (${response.model}): ${response.usage.inputTokens} in / ${response.usage.outputTokens} out tokens in ${durationMs}ms`
+      );
+      recordUsage({
+        task: request.task,
+        provider: llm.name,
+        model: response.model,
+        usage: response.usage,
+        durationMs,
+        context: request.context ?? {},
+      });
+      if (llm.name !== 'fake' && process.env.LLM_RECORD_FIXTURES === 'true') {
+        await recordFixture(providerRequest, response);
+      }
+
+      return { ...response, task: request.task, provider: llm.name, attempts: attempt, durationMs };
+    } catch (error) {
+      if (!(error instanceof RetryableLlmError)) {
+        throw error;
+      }
+      if (attempt > MAX_RETRIES) {
+        throw new LlmError(`LLM ${request.task} failed after ${attempt} attempts: ${error.message}`, request.task, attempt);
+      }
+
+      const delay = backoffDelay(attempt, error);
+      logger.warn(`LLM ${request.task} attempt ${attempt} failed (${error.message}); retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/** completeLlm for callers that only want the text */
+export async function completeLlmText(request: LlmRequest): Promise<string> {
+  return (await completeLlm(request)).text;
+}
+
+// ---------------------------------------------------------------------------
+// Schema-validated structured output
+// ---------------------------------------------------------------------------
+
+const MAX_REPAIRS = envNumber('LLM_MAX_REPAIRS') ?? 2;
+
+export interface LlmStructuredRequest<T extends z.ZodTypeAny> extends Omit<LlmRequest, 'tool'> {
+  schema: T;
+  tool: { name: string; description: string };
+}
+
+export interface LlmStructuredResult<T> {
+  data: T;
+  validation: LlmValidationRecord;
+}
+
+export function toValidationIssues(error: z.ZodError): LlmValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+  }));
+}
+
+// Fallback for providers that answered in text instead of calling the tool
+function parseJsonText(text: string): unknown {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/, '').replace(/```$/, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    return undefined;
+  }
+}
+
+function repairPrompt(toolName: string, issues: LlmValidationIssue[]): string {
+  return `That ${toolName} call failed validation:
+${issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Call ${toolName} again with the complete, corrected input. Keep every value that was valid.`;
+}
+
+/**
+ * Run a model call whose answer must match a zod schema. The model is made
+ * to call a tool with the schema as its input; output that fails validation
+ * is sent back with the errors for up to LLM_MAX_REPAIRS corrections before
+ * an LlmValidationError is thrown.
+ */
+export async function completeLlmStructured<T extends z.ZodTypeAny>(
+  request: LlmStructuredRequest<T>
+): Promise<LlmStructuredResult<z.infer<T>>> {
+  const { schema, tool, ...rest } = request;
+  const llmTool: LlmTool = { ...tool, inputSchema: zodToJsonSchema(schema) };
+  const messages: LlmMessage[] = [...(rest.messages ?? [{ role: 'user', content: rest.prompt ?? '' }])];
+  const repairedIssues: LlmValidationIssue[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await completeLlm({ ...rest, messages, tool: llmTool });
+    const output = result.toolInput !== undefined ? result.toolInput : parseJsonText(result.text);
+    const parsed = schema.safeParse(output);
+
+    if (parsed.success) {
+      if (attempt > 1) {
+        logger.info(`LLM ${request.task} output repaired after ${attempt} attempts`);
+      }
+      return {
+        data: parsed.data,
+        validation: {
+          task: request.task,
+          status: attempt > 1 ? 'repaired' : 'valid',
+          attempts: attempt,
+          issues: repairedIssues,
+        },
+      };
+    }
+
+    const issues =
+      output === undefined
+        ? [{ path: '(root)', message: `No ${tool.name} call in the response` }]
+        : toValidationIssues(parsed.error);
+
+    if (attempt > MAX_REPAIRS) {
+      throw new LlmValidationError(request.task, attempt, issues, output);
+    }
+
+    logger.warn(`LLM ${request.task} output failed validation (${issues.length} issues); asking for a repair`);
+    repairedIssues.push(...issues);
+    messages.push(
+      { role: 'assistant', content: output === undefined ? result.text || '(no output)' : JSON.stringify(output) },
+      { role: 'user', content: repairPrompt(tool.name, issues) }
+    );
+  }
+}
+
+/**
+ * Null out the values an LlmValidationError flagged, keeping the rest of the
+ * output. For callers that prefer partial data to none.
+ */
+export function stripInvalidFields(output: unknown, issues: LlmValidationIssue[]): unknown {
+  if (!output || typeof output !== 'object') return output;
+  const copy = JSON.parse(JSON.stringify(output));
+
+  for (const issue of issues) {
+    if (issue.path === '(root)') continue;
+    const keys = issue.path.split('.');
+    const parent = keys.slice(0, -1).reduce<unknown>(
+      (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+      copy
+    );
+    if (parent && typeof parent === 'object') {
+      (parent as Record<string, unknown>)[keys[keys.length - 1]] = null;
+    }
+  }
+  return copy;
+}
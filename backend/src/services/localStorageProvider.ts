@@ -0,0 +1,139 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import type { StorageProvider } from './storage.js';
+import { logger } from '../utils/logger.js';
+
+/** Mount point of the signed download route (routes/storage.ts) */
+export const LOCAL_STORAGE_ROUTE = '/api/storage/local';
+
+const META_SUFFIX = '.meta.json';
+
+// Local links work without a session, so they are kept shorter than S3's
+// whatever the caller asks for
+const MAX_LINK_SECONDS = 5 * 60;
+
+let signingSecret: string | null = null;
+
+function getSigningSecret(): string {
+  if (!signingSecret) {
+    if (process.env.STORAGE_SIGNING_SECRET) {
+      signingSecret = process.env.STORAGE_SIGNING_SECRET;
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new Error('STORAGE_SIGNING_SECRET must be set to use local storage in production');
+    } else {
+      // Links stop working on restart, which is fine for development
+      logger.warn('STORAGE_SIGNING_SECRET is not set; using a per-process secret for local storage links');
+      signingSecret = randomBytes(32).toString('hex');
+    }
+  }
+  return signingSecret;
+}
+
+function sign(key: string, expires: number): string {
+  return createHmac('sha256', getSigningSecret()).update(`${key}\n${expires}`).digest('base64url');
+}
+
+/** Check a local download link's signature and expiry (seconds since epoch) */
+export function verifyLocalSignature(key: string, expires: number, signature: string): boolean {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(key, expires));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeURIComponent).join('/');
+}
+
+export function getLocalStorageRoot(): string {
+  return path.resolve(process.env.LOCAL_STORAGE_DIR || 'uploads');
+}
+
+/**
+ * Resolve a key inside the storage root. Keys come from our own routes, but
+ * the download route takes them from the URL, so refuse anything that would
+ * escape the root.
+ */
+export function resolveLocalPath(key: string): string {
+  const root = getLocalStorageRoot();
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep) || filePath.endsWith(META_SUFFIX)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+}
+
+async function readContentType(filePath: string): Promise<string | null> {
+  try {
+    const meta = JSON.parse(await fs.readFile(filePath + META_SUFFIX, 'utf8'));
+    return typeof meta.contentType === 'string' ? meta.contentType : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files on local disk under LOCAL_STORAGE_DIR, for development and on-prem
+ * deployments that can't send client records to S3. The content type is
+ * kept in a sidecar file so downloads are served with it.
+ */
+export function createLocalStorageProvider(): StorageProvider {
+  const baseUrl = `${(process.env.BACKEND_URL || `http://localhost:${process.env.PORT || '3001'}`).replace(/\/$/, '')}${LOCAL_STORAGE_ROUTE}/`;
+
+  // Fail at startup rather than on the first download link
+  getSigningSecret();
+
+  return {
+    name: 'local',
+
+    async put(key, body, contentType) {
+      const filePath = resolveLocalPath(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      // Write then rename so a reader never sees a partial file
+      const tempPath = `${filePath}.${randomBytes(6).toString('hex')}.tmp`;
+      await fs.writeFile(tempPath, body);
+      await fs.rename(tempPath, filePath);
+      await fs.writeFile(filePath + META_SUFFIX, JSON.stringify({ contentType }));
+
+      return `${baseUrl}${encodeKey(key)}`;
+    },
+
+    async get(key) {
+      return fs.readFile(resolveLocalPath(key));
+    },
+
+    async stream(key) {
+      const filePath = resolveLocalPath(key);
+      const stats = await fs.stat(filePath);
+
+      return {
+        body: createReadStream(filePath),
+        contentType: await readContentType(filePath),
+        contentLength: stats.size,
+      };
+    },
+
+    async delete(key) {
+      const filePath = resolveLocalPath(key);
+      await fs.rm(filePath, { force: true });
+      await fs.rm(filePath + META_SUFFIX, { force: true });
+    },
+
+    async signedUrl(key, expiresIn) {
+      resolveLocalPath(key);
+      const expires = Math.floor(Date.now() / 1000) + Math.min(expiresIn, MAX_LINK_SECONDS);
+      return `${baseUrl}${encodeKey(key)}?expires=${expires}&signature=${sign(key, expires)}`;
+    },
+
+    keyFromUrl(url) {
+      if (!url.startsWith(baseUrl)) return null;
+      return url.slice(baseUrl.length).split('?')[0].split('/').map(decodeURIComponent).join('/');
+    },
+  };
+}
@@ -1,9 +1,17 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { prisma } from '../db/client';
-import { Document, MedicalEvent } from '@prisma/client';
+import { Document, MedicalEvent, Prisma } from '@prisma/client';
 import { logger } from '../utils/logger';
-
-const anthropic = new Anthropic();
+import { annotatePages, continuePageMarkers, resolveCitations, RawCitation, SourceCitation } from './citationService';
+import { updateMedicalEventSearchVectors } from './searchService';
+import type { PageMapEntry } from './textExtraction';
+import { medicalEventSchema, medicalEventsOutputSchema } from '../prompts/outputSchemas';
+import {
+  completeLlmStructured,
+  LlmCallContext,
+  LlmValidationError,
+  LlmValidationRecord,
+  stripInvalidFields,
+} from './llmGateway';
 
 // Medical extraction prompt for 20+ fields
 const MEDICAL_EXTRACTION_PROMPT = `You are an expert medical record analyst for personal injury law firms. Extract structured information with extreme accuracy.
@@ -93,7 +101,16 @@ Extract ALL fields below. Use null for missing data. Never guess or hallucinate.
 
     "key_quotes": ["Important quotes supporting injury claim"],
     "red_flags": ["Statements that could weaken case"],
-    "causation_statements": ["Statements linking condition to accident"]
+    "causation_statements": ["Statements linking condition to accident"],
+
+    "source_citations": [
+      {
+        "field": "date_of_service|chief_complaint|diagnoses|pain_score|key_quotes|causation_statements|charges",
+        "value": "The extracted value this supports (diagnosis name, pain score, quote, charge amount)",
+        "page": 37,
+        "quote": "Short verbatim excerpt from the document supporting the value"
+      }
+    ]
   }
 ]
 
@@ -106,10 +123,11 @@ Extract ALL fields below. Use null for missing data. Never guess or hallucinate.
 6. Flag ALL pre-existing condition mentions
 7. Capture ALL pain scores - critical for demand letters
 8. Note ALL work status mentions - important for lost wages
-9. Each visit/encounter should be a separate object in the array
+9. Each visit/encounter should be a separate event
 10. If this is a bill, extract dates and costs but clinical fields can be null
+11. The text contains [[PAGE n]] markers at the start of each page. For every diagnosis, pain score, key quote, causation statement and charge, add a source_citations entry with the page it appears on and a short verbatim quote (copy the text exactly, do not paraphrase, do not include the marker)
 
-## OUTPUT: Valid JSON array only. No markdown, no explanation, no code blocks.`;
+## OUTPUT: Record every event with the record_medical_events tool.`;
 
 export interface ExtractedMedicalEvent {
   date_of_service: string;
@@ -138,6 +156,8 @@ export interface ExtractedMedicalEvent {
   key_quotes?: string[];
   red_flags?: string[];
   causation_statements?: string[];
+  source_citations?: RawCitation[];
+  citations?: SourceCitation[];
 }
 
 /**
@@ -145,37 +165,40 @@ export interface ExtractedMedicalEvent {
  */
 export async function extractMedicalEvents(
   document: Document,
-  extractedText: string
+  extractedText: string,
+  pageMap?: PageMapEntry[] | null,
+  validation?: LlmValidationRecord[],
+  context?: LlmCallContext
 ): Promise<ExtractedMedicalEvent[]> {
   logger.info(`Extracting medical events from document ${document.id}`);
 
   // Chunk large documents (roughly 50 pages worth of text)
   const MAX_CHUNK_SIZE = 100000; // ~50 pages
-  const chunks = chunkText(extractedText, MAX_CHUNK_SIZE);
+  const chunks = continuePageMarkers(chunkText(annotatePages(extractedText, pageMap), MAX_CHUNK_SIZE));
 
   const allEvents: ExtractedMedicalEvent[] = [];
 
   for (let i = 0; i < chunks.length; i++) {
     logger.info(`Processing chunk ${i + 1}/${chunks.length} for document ${document.id}`);
 
+    const label = chunks.length > 1 ? `chunk ${i + 1}/${chunks.length}` : undefined;
+
     try {
-      const response = await anthropic.messages.create({
-        model: 'claude-sonnet-4-5-20250929',
-        max_tokens: 8000,
-        messages: [
-          {
-            role: 'user',
-            content: `${MEDICAL_EXTRACTION_PROMPT}\n\n## DOCUMENT TEXT (Chunk ${i + 1}/${chunks.length}):\n\n${chunks[i]}`
-          }
-        ]
+      const { data, validation: record } = await completeLlmStructured({
+        task: 'medical_events',
+        prompt: `${MEDICAL_EXTRACTION_PROMPT}\n\n## DOCUMENT TEXT (Chunk ${i + 1}/${chunks.length}):\n\n${chunks[i]}`,
+        schema: medicalEventsOutputSchema,
+        tool: { name: 'record_medical_events', description: 'Record every medical visit or encounter found in the text' },
+        context,
       });
-
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const events = parseExtractionResponse(content.text);
-        allEvents.push(...events);
-      }
+      validation?.push({ ...record, ...(label && { label }) });
+      allEvents.push(...(data.events as ExtractedMedicalEvent[]));
     } catch (error) {
+      if (error instanceof LlmValidationError) {
+        validation?.push({ ...error.record, ...(label && { label }) });
+        allEvents.push(...salvageEvents(error));
+        continue;
+      }
       logger.error(`Error extracting from chunk ${i + 1}:`, error);
       // Continue with other chunks
     }
@@ -184,6 +207,11 @@ export async function extractMedicalEvents(
   // Deduplicate events by date and provider
   const dedupedEvents = deduplicateEvents(allEvents);
 
+  // Map each citation back to a page and text span in the source document
+  for (const event of dedupedEvents) {
+    event.citations = resolveCitations(event.source_citations, extractedText, pageMap);
+  }
+
   logger.info(`Extracted ${dedupedEvents.length} medical events from document ${document.id}`);
   return dedupedEvents;
 }
@@ -232,6 +260,7 @@ export async function saveMedicalEvents(
           totalCharge: event.costs?.total_charge,
           insurancePaid: event.costs?.insurance_paid,
           patientResponsibility: event.costs?.patient_responsibility,
+          citations: (event.citations || []) as unknown as Prisma.InputJsonValue,
         }
       });
       savedEvents.push(savedEvent);
@@ -240,6 +269,10 @@ export async function saveMedicalEvents(
     }
   }
 
+  if (savedEvents.length > 0) {
+    await updateMedicalEventSearchVectors({ documentId });
+  }
+
   return savedEvents;
 }
 
@@ -269,10 +302,14 @@ export async function updateMedicalEvent(
   eventId: string,
   data: Partial<MedicalEvent>
 ): Promise<MedicalEvent> {
-  return prisma.medicalEvent.update({
+  const event = await prisma.medicalEvent.update({
     where: { id: eventId },
     data
   });
+
+  await updateMedicalEventSearchVectors({ eventId });
+
+  return event;
 }
 
 /**
@@ -316,35 +353,25 @@ function chunkText(text: string, maxSize: number): string[] {
   return chunks;
 }
 
-function parseExtractionResponse(response: string): ExtractedMedicalEvent[] {
-  try {
-    // Clean up the response - remove markdown code blocks if present
-    let cleaned = response.trim();
-    if (cleaned.startsWith('```json')) {
-      cleaned = cleaned.slice(7);
-    } else if (cleaned.startsWith('```')) {
-      cleaned = cleaned.slice(3);
-    }
-    if (cleaned.endsWith('```')) {
-      cleaned = cleaned.slice(0, -3);
-    }
-    cleaned = cleaned.trim();
-
-    const parsed = JSON.parse(cleaned);
+/**
+ * Keep the events that are valid once the fields flagged by validation are
+ * removed; events missing their date of service are dropped.
+ */
+function salvageEvents(error: LlmValidationError): ExtractedMedicalEvent[] {
+  const output = stripInvalidFields(error.output, error.issues) as { events?: unknown } | null;
+  if (!Array.isArray(output?.events)) {
+    return [];
+  }
 
-    // Handle both array and single object responses
-    if (Array.isArray(parsed)) {
-      return parsed.filter(e => e.date_of_service);
-    } else if (parsed.date_of_service) {
-      return [parsed];
+  const events: ExtractedMedicalEvent[] = [];
+  for (const candidate of output.events) {
+    const parsed = medicalEventSchema.safeParse(candidate);
+    if (parsed.success) {
+      events.push(parsed.data as ExtractedMedicalEvent);
     }
-
-    return [];
-  } catch (error) {
-    logger.error('Error parsing extraction response:', error);
-    logger.debug('Raw response:', response);
-    return [];
   }
+  logger.warn(`Kept ${events.length} of ${output.events.length} medical events after validation failures`);
+  return events;
 }
 
 function deduplicateEvents(events: ExtractedMedicalEvent[]): ExtractedMedicalEvent[] {
@@ -378,6 +405,7 @@ function mergeEvents(existing: ExtractedMedicalEvent, newEvent: ExtractedMedical
     key_quotes: [...new Set([...(existing.key_quotes || []), ...(newEvent.key_quotes || [])])],
     red_flags: [...new Set([...(existing.red_flags || []), ...(newEvent.red_flags || [])])],
     causation_statements: [...new Set([...(existing.causation_statements || []), ...(newEvent.causation_statements || [])])],
+    source_citations: [...(existing.source_citations || []), ...(newEvent.source_citations || [])],
     // Take non-null values from new event if existing is null
     chief_complaint: existing.chief_complaint || newEvent.chief_complaint,
     subjective_findings: existing.subjective_findings || newEvent.subjective_findings,
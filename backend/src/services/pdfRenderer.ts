@@ -0,0 +1,456 @@
+import PDFDocument from 'pdfkit';
+import { logger } from '../utils/logger.js';
+import { getFile, storageKeyFromUrl } from './storage.js';
+import {
+  parseMarkdownBlocks,
+  parseInlineSegments,
+  htmlToTextLines,
+  InlineSegment,
+  MarkdownBlock,
+} from '../utils/markdown.js';
+
+export interface PdfFirm {
+  name: string;
+  logoUrl: string | null;
+  letterheadHtml: string | null;
+  primaryColor: string;
+}
+
+export interface RenderPdfOptions {
+  title?: string;
+  footerText?: string;
+}
+
+type PdfDoc = PDFKit.PDFDocument;
+
+const PAGE_MARGIN = 72; // 1 inch
+const HEADER_HEIGHT = 28;
+const FOOTER_OFFSET = 40;
+const BODY_FONT_SIZE = 11;
+const HEADING_SIZES: Record<number, number> = { 1: 16, 2: 13.5, 3: 12, 4: 11, 5: 11, 6: 11 };
+const TEXT_COLOR = '#1a1a1a';
+const MUTED_COLOR = '#666666';
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+
+const FONTS = {
+  regular: 'Times-Roman',
+  bold: 'Times-Bold',
+  italic: 'Times-Italic',
+  boldItalic: 'Times-BoldItalic',
+};
+
+function fontFor(segment: Pick<InlineSegment, 'bold' | 'italic'>): string {
+  if (segment.bold && segment.italic) return FONTS.boldItalic;
+  if (segment.bold) return FONTS.bold;
+  if (segment.italic) return FONTS.italic;
+  return FONTS.regular;
+}
+
+function safeColor(color: string): string {
+  return /^#[0-9A-Fa-f]{6}$/.test(color) ? color : '#1a365d';
+}
+
+function embeddableImage(buffer: Buffer): Buffer | null {
+  const isPng = buffer.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  const isJpeg = buffer[0] === 0xff && buffer[1] === 0xd8;
+  return isPng || isJpeg ? buffer : null;
+}
+
+/**
+ * Fetch the firm logo. Only PNG and JPEG can be embedded; anything else
+ * (SVG, unreachable URLs) is skipped and the letterhead falls back to text.
+ */
+async function loadLogo(logoUrl: string | null): Promise<Buffer | null> {
+  if (!logoUrl || !/^https?:\/\//.test(logoUrl)) return null;
+
+  // Logos we stored ourselves are read directly; a private bucket or local
+  // disk won't serve them over plain HTTP
+  const storageKey = storageKeyFromUrl(logoUrl);
+  if (storageKey) {
+    try {
+      return embeddableImage(await getFile(storageKey));
+    } catch (error) {
+      logger.warn(`Firm logo could not be loaded: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), LOGO_FETCH_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(logoUrl, { signal: controller.signal });
+    if (!response.ok) {
+      logger.warn(`Firm logo fetch failed (${response.status}): ${logoUrl}`);
+      return null;
+    }
+
+    return embeddableImage(Buffer.from(await response.arrayBuffer()));
+  } catch (error) {
+    logger.warn(`Firm logo could not be loaded: ${error instanceof Error ? error.message : error}`);
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function contentWidth(doc: PdfDoc): number {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+}
+
+function bottomLimit(doc: PdfDoc): number {
+  return doc.page.height - doc.page.margins.bottom;
+}
+
+function ensureSpace(doc: PdfDoc, height: number): void {
+  if (doc.y + height > bottomLimit(doc)) {
+    doc.addPage();
+  }
+}
+
+function writeSegments(
+  doc: PdfDoc,
+  segments: InlineSegment[],
+  options: PDFKit.Mixins.TextOptions & { x?: number } = {}
+): void {
+  const { x, ...textOptions } = options;
+  segments.forEach((segment, index) => {
+    doc.font(fontFor(segment));
+    const continued = index < segments.length - 1;
+    if (index === 0 && x !== undefined) {
+      doc.text(segment.text, x, doc.y, { ...textOptions, continued });
+    } else {
+      doc.text(segment.text, { ...textOptions, continued });
+    }
+  });
+}
+
+function drawLetterhead(doc: PdfDoc, firm: PdfFirm, logo: Buffer | null): void {
+  const color = safeColor(firm.primaryColor);
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const top = doc.y;
+
+  if (logo) {
+    try {
+      doc.image(logo, left, top, { fit: [140, 56] });
+      doc.y = top + 60;
+    } catch (error) {
+      logger.warn('Firm logo could not be embedded in PDF');
+    }
+  }
+
+  doc.fillColor(color).font(FONTS.bold).fontSize(18);
+  doc.text(firm.name, left, doc.y, { width, align: logo ? 'left' : 'center' });
+
+  const letterheadLines = firm.letterheadHtml ? htmlToTextLines(firm.letterheadHtml) : [];
+  if (letterheadLines.length > 0) {
+    doc.fillColor(MUTED_COLOR).font(FONTS.regular).fontSize(9);
+    for (const line of letterheadLines) {
+      doc.text(line, { width, align: logo ? 'left' : 'center' });
+    }
+  }
+
+  doc.moveDown(0.5);
+  doc
+    .moveTo(left, doc.y)
+    .lineTo(left + width, doc.y)
+    .lineWidth(1.5)
+    .strokeColor(color)
+    .stroke();
+  doc.moveDown(1.5);
+  doc.fillColor(TEXT_COLOR);
+}
+
+function drawRunningHeader(doc: PdfDoc, firm: PdfFirm, title?: string): void {
+  const color = safeColor(firm.primaryColor);
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const y = PAGE_MARGIN - HEADER_HEIGHT;
+
+  doc.font(FONTS.bold).fontSize(9).fillColor(color);
+  doc.text(firm.name, left, y, { width, align: 'left', lineBreak: false });
+  if (title) {
+    doc.font(FONTS.regular).fillColor(MUTED_COLOR);
+    doc.text(title, left, y, { width, align: 'right', lineBreak: false });
+  }
+  doc
+    .moveTo(left, y + 13)
+    .lineTo(left + width, y + 13)
+    .lineWidth(0.5)
+    .strokeColor(color)
+    .stroke();
+}
+
+function drawFooter(doc: PdfDoc, pageNumber: number, pageCount: number, footerText?: string): void {
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const y = doc.page.height - FOOTER_OFFSET;
+
+  doc.font(FONTS.regular).fontSize(8.5).fillColor(MUTED_COLOR);
+  if (footerText) {
+    doc.text(footerText, left, y, { width, align: 'left', lineBreak: false });
+  }
+  doc.text(`Page ${pageNumber} of ${pageCount}`, left, y, { width, align: 'right', lineBreak: false });
+}
+
+function renderHeading(doc: PdfDoc, block: Extract<MarkdownBlock, { type: 'heading' }>, color: string): void {
+  const size = HEADING_SIZES[block.level] || BODY_FONT_SIZE;
+  ensureSpace(doc, size * 3);
+  doc.moveDown(block.level <= 2 ? 0.8 : 0.5);
+  doc.fontSize(size).fillColor(block.level <= 2 ? color : TEXT_COLOR);
+  writeSegments(
+    doc,
+    parseInlineSegments(block.text).map((segment) => ({ ...segment, bold: true })),
+    { x: doc.page.margins.left, width: contentWidth(doc) }
+  );
+  doc.moveDown(0.4);
+  doc.fillColor(TEXT_COLOR).fontSize(BODY_FONT_SIZE);
+}
+
+function renderParagraph(doc: PdfDoc, text: string): void {
+  doc.fontSize(BODY_FONT_SIZE).fillColor(TEXT_COLOR);
+  ensureSpace(doc, BODY_FONT_SIZE * 2);
+
+  const lines = text.split('\n');
+  lines.forEach((line) => {
+    writeSegments(doc, parseInlineSegments(line), {
+      x: doc.page.margins.left,
+      width: contentWidth(doc),
+      align: 'justify',
+      lineGap: 2,
+    });
+  });
+  doc.moveDown(0.6);
+}
+
+function renderList(doc: PdfDoc, block: Extract<MarkdownBlock, { type: 'list' }>): void {
+  const indent = 18;
+  const left = doc.page.margins.left;
+  doc.fontSize(BODY_FONT_SIZE).fillColor(TEXT_COLOR);
+
+  block.items.forEach((item, index) => {
+    ensureSpace(doc, BODY_FONT_SIZE * 2);
+    const marker = block.ordered ? `${index + 1}.` : '•';
+    const y = doc.y;
+    doc.font(FONTS.regular).text(marker, left + 4, y, { width: indent, lineBreak: false });
+    doc.y = y;
+    writeSegments(doc, parseInlineSegments(item), {
+      x: left + indent,
+      width: contentWidth(doc) - indent,
+      lineGap: 2,
+    });
+    doc.moveDown(0.2);
+  });
+  doc.moveDown(0.4);
+}
+
+function renderTable(doc: PdfDoc, block: Extract<MarkdownBlock, { type: 'table' }>, color: string): void {
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const columnCount = Math.max(block.header.length, ...block.rows.map((row) => row.length));
+  const columnWidth = width / columnCount;
+  const padding = 5;
+  const fontSize = BODY_FONT_SIZE - 1;
+
+  // Right-align columns that hold currency/number values
+  const numericColumns = Array.from({ length: columnCount }, (_, col) =>
+    block.rows.length > 0 &&
+    block.rows.every((row) => !row[col] || /^\**\s*[-$(]?[\d,]+(\.\d+)?\)?\s*\**$/.test(row[col].replace(/\s/g, '')))
+  );
+
+  const measureRow = (cells: string[], bold: boolean): number => {
+    let height = 0;
+    cells.forEach((cell) => {
+      const plain = parseInlineSegments(cell).map((s) => s.text).join('');
+      doc.font(bold ? FONTS.bold : FONTS.regular).fontSize(fontSize);
+      height = Math.max(height, doc.heightOfString(plain || ' ', { width: columnWidth - padding * 2 }));
+    });
+    return height + padding * 2;
+  };
+
+  const drawRow = (cells: string[], isHeader: boolean, shade: boolean) => {
+    const rowHeight = measureRow(cells, isHeader);
+    if (doc.y + rowHeight > bottomLimit(doc)) {
+      doc.addPage();
+    }
+    const y = doc.y;
+
+    if (isHeader) {
+      doc.rect(left, y, width, rowHeight).fill(color);
+    } else if (shade) {
+      doc.rect(left, y, width, rowHeight).fill('#f4f6f8');
+    }
+
+    for (let col = 0; col < columnCount; col++) {
+      const x = left + col * columnWidth;
+      doc.rect(x, y, columnWidth, rowHeight).lineWidth(0.5).strokeColor('#c8ced6').stroke();
+
+      const segments = parseInlineSegments(cells[col] || '');
+      doc.fontSize(fontSize).fillColor(isHeader ? '#ffffff' : TEXT_COLOR);
+      doc.y = y + padding;
+      writeSegments(
+        doc,
+        isHeader ? segments.map((s) => ({ ...s, bold: true })) : segments,
+        {
+          x: x + padding,
+          width: columnWidth - padding * 2,
+          align: !isHeader && numericColumns[col] ? 'right' : 'left',
+        }
+      );
+    }
+
+    doc.x = left;
+    doc.y = y + rowHeight;
+  };
+
+  doc.moveDown(0.3);
+  drawRow(block.header, true, false);
+  block.rows.forEach((row, index) => drawRow(row, false, index % 2 === 1));
+  doc.fillColor(TEXT_COLOR).fontSize(BODY_FONT_SIZE);
+  doc.moveDown(0.8);
+}
+
+function renderRule(doc: PdfDoc): void {
+  const left = doc.page.margins.left;
+  ensureSpace(doc, 12);
+  doc.moveDown(0.3);
+  doc
+    .moveTo(left, doc.y)
+    .lineTo(left + contentWidth(doc), doc.y)
+    .lineWidth(0.5)
+    .strokeColor('#c8ced6')
+    .stroke();
+  doc.moveDown(0.6);
+}
+
+/**
+ * Render Markdown (as produced by the letter generator) to a paginated PDF
+ * with firm letterhead, running headers and page-numbered footers. Uses the
+ * built-in PDF fonts so no browser or external service is required.
+ */
+export async function renderMarkdownToPdf(
+  markdown: string,
+  firm: PdfFirm,
+  options: RenderPdfOptions = {}
+): Promise<Buffer> {
+  const color = safeColor(firm.primaryColor);
+  const logo = await loadLogo(firm.logoUrl);
+
+  const doc = new PDFDocument({
+    size: 'LETTER',
+    margins: { top: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN, right: PAGE_MARGIN },
+    bufferPages: true,
+    info: {
+      Title: options.title || `${firm.name} Document`,
+      Author: firm.name,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  drawLetterhead(doc, firm, logo);
+
+  for (const block of parseMarkdownBlocks(markdown)) {
+    switch (block.type) {
+      case 'heading':
+        renderHeading(doc, block, color);
+        break;
+      case 'paragraph':
+        renderParagraph(doc, block.text);
+        break;
+      case 'list':
+        renderList(doc, block);
+        break;
+      case 'table':
+        renderTable(doc, block, color);
+        break;
+      case 'rule':
+        renderRule(doc);
+        break;
+      case 'blank':
+        break;
+    }
+  }
+
+  // Headers and footers are drawn after layout so the total page count is known
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const savedMargins = { ...doc.page.margins };
+    doc.page.margins = { ...savedMargins, top: 0, bottom: 0 };
+
+    if (i > range.start) {
+      drawRunningHeader(doc, firm, options.title);
+    }
+    drawFooter(doc, i - range.start + 1, range.count, options.footerText);
+
+    doc.page.margins = savedMargins;
+  }
+
+  doc.end();
+  return finished;
+}
+
+export interface EmailPdfInput {
+  from: string | null;
+  to: string[];
+  cc: string[];
+  subject: string | null;
+  date: Date | null;
+  text: string;
+  attachmentNames: string[];
+}
+
+/**
+ * Render a received email as a PDF, headers first then the body, so it can
+ * be previewed, searched, cited and bundled like any uploaded document.
+ */
+export async function renderEmailToPdf(email: EmailPdfInput): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'LETTER',
+    margins: { top: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN, right: PAGE_MARGIN },
+    info: { Title: email.subject || 'Email' },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+
+  doc.font(FONTS.bold).fontSize(14).fillColor(TEXT_COLOR);
+  doc.text(email.subject || '(no subject)', left, doc.y, { width });
+  doc.moveDown(0.5);
+
+  const headerLines: Array<[string, string | null]> = [
+    ['From', email.from],
+    ['To', email.to.join(', ') || null],
+    ['Cc', email.cc.join(', ') || null],
+    ['Date', email.date ? email.date.toUTCString() : null],
+    ['Attachments', email.attachmentNames.join(', ') || null],
+  ];
+  doc.fontSize(BODY_FONT_SIZE - 1);
+  for (const [label, value] of headerLines) {
+    if (!value) continue;
+    doc.font(FONTS.bold).fillColor(MUTED_COLOR).text(`${label}: `, left, doc.y, { width, continued: true });
+    doc.font(FONTS.regular).fillColor(TEXT_COLOR).text(value);
+  }
+
+  renderRule(doc);
+
+  doc.font(FONTS.regular).fontSize(BODY_FONT_SIZE).fillColor(TEXT_COLOR);
+  doc.text(email.text || '(no message body)', left, doc.y, { width, lineGap: 2 });
+
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,133 @@
+import { UserRole } from '@prisma/client';
+
+/**
+ * Actions gated by role. Reading case data is open to every firm member
+ * (apart from cases restricted to their team); these cover everything that
+ * changes, generates or releases it.
+ */
+export const PERMISSIONS = [
+  'case:create',
+  'case:edit',
+  'case:close',
+  'document:upload',
+  'document:delete',
+  'document:reprocess',
+  'medical_event:edit',
+  'chronology:generate',
+  'letter:generate',
+  'letter:edit',
+  'letter:finalize',
+  'export',
+  'settlement:edit',
+  'firm:manage',
+  'audit:view',
+  'usage:view',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'case:create': 'Create cases',
+  'case:edit': 'Edit case details and damages',
+  'case:close': 'Close cases',
+  'document:upload': 'Upload documents',
+  'document:delete': 'Delete documents',
+  'document:reprocess': 'Reprocess documents',
+  'medical_event:edit': 'Edit and delete medical events',
+  'chronology:generate': 'Generate chronologies',
+  'letter:generate': 'Generate and regenerate letters',
+  'letter:edit': 'Edit letter drafts',
+  'letter:finalize': 'Finalize letters for sending',
+  export: 'Export letters, exhibit packets and worksheets',
+  'settlement:edit': 'Edit liens and settlement worksheets',
+  'firm:manage': 'Manage firm settings and permissions',
+  'audit:view': 'View the audit log',
+  'usage:view': 'View AI usage and billing',
+};
+
+const STAFF_PERMISSIONS: Permission[] = [
+  'case:create',
+  'case:edit',
+  'document:upload',
+  'document:delete',
+  'document:reprocess',
+  'medical_event:edit',
+  'chronology:generate',
+  'letter:generate',
+  'letter:edit',
+  'export',
+  'settlement:edit',
+];
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  ADMIN: [...PERMISSIONS],
+  ATTORNEY: [...STAFF_PERMISSIONS, 'case:close', 'letter:finalize'],
+  PARALEGAL: STAFF_PERMISSIONS,
+  VIEWER: [],
+};
+
+/** Firm overrides layered on the defaults: { ROLE: { permission: granted } } */
+export type RolePermissionOverrides = Partial<Record<UserRole, Partial<Record<Permission, boolean>>>>;
+
+// Admins always keep firm management so a firm can't lock itself out
+const LOCKED_PERMISSIONS: Partial<Record<UserRole, Permission[]>> = {
+  ADMIN: ['firm:manage'],
+};
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function isRole(value: string): value is UserRole {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_ROLE_PERMISSIONS, value);
+}
+
+/**
+ * Keep only known roles and permissions with boolean values, dropping any
+ * override of a locked permission.
+ */
+export function normalizeOverrides(raw: unknown): RolePermissionOverrides {
+  const overrides: RolePermissionOverrides = {};
+  if (!raw || typeof raw !== 'object') return overrides;
+
+  for (const [role, grants] of Object.entries(raw as Record<string, unknown>)) {
+    if (!isRole(role) || !grants || typeof grants !== 'object') continue;
+
+    const cleaned: Partial<Record<Permission, boolean>> = {};
+    for (const [permission, granted] of Object.entries(grants as Record<string, unknown>)) {
+      if (!isPermission(permission) || typeof granted !== 'boolean') continue;
+      if (LOCKED_PERMISSIONS[role]?.includes(permission)) continue;
+      // Only store actual departures from the default
+      if (DEFAULT_ROLE_PERMISSIONS[role].includes(permission) === granted) continue;
+      cleaned[permission] = granted;
+    }
+
+    if (Object.keys(cleaned).length > 0) {
+      overrides[role] = cleaned;
+    }
+  }
+
+  return overrides;
+}
+
+export function resolvePermissions(role: string, rawOverrides?: unknown): Permission[] {
+  if (!isRole(role)) return [];
+
+  const overrides = normalizeOverrides(rawOverrides)[role] ?? {};
+  return PERMISSIONS.filter(
+    (permission) => overrides[permission] ?? DEFAULT_ROLE_PERMISSIONS[role].includes(permission)
+  );
+}
+
+/** Effective permissions for every role, for the settings matrix */
+export function resolvePermissionMatrix(rawOverrides?: unknown): Record<UserRole, Permission[]> {
+  const roles = Object.keys(DEFAULT_ROLE_PERMISSIONS) as UserRole[];
+  return Object.fromEntries(roles.map((role) => [role, resolvePermissions(role, rawOverrides)])) as Record<
+    UserRole,
+    Permission[]
+  >;
+}
+
+export function isLockedPermission(role: UserRole, permission: Permission): boolean {
+  return LOCKED_PERMISSIONS[role]?.includes(permission) ?? false;
+}
@@ -0,0 +1,280 @@
+import { diffArrays } from 'diff';
+import { GeneratedDocSource } from '@prisma/client';
+import prisma from '../db/client.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+
+export interface VersionAuthor {
+  versionId: string;
+  version: number;
+  source: GeneratedDocSource;
+  userName: string | null;
+  createdAt: Date;
+}
+
+export type RedlineChange = 'equal' | 'insert' | 'delete';
+
+export interface RedlineSegment {
+  type: RedlineChange;
+  text: string;
+  /** Version that introduced (insert) or removed (delete) this text */
+  author: VersionAuthor | null;
+}
+
+export interface RedlineParagraph {
+  type: RedlineChange | 'modify';
+  segments: RedlineSegment[];
+}
+
+export interface RedlineCounts {
+  insertedWords: number;
+  deletedWords: number;
+}
+
+export interface Redline {
+  from: VersionAuthor;
+  to: VersionAuthor;
+  /** Intermediate versions whose edits are attributed in the diff */
+  versions: VersionAuthor[];
+  paragraphs: RedlineParagraph[];
+  summary: RedlineCounts & {
+    paragraphsChanged: number;
+    bySource: Record<GeneratedDocSource, RedlineCounts>;
+  };
+}
+
+export interface VersionText {
+  author: VersionAuthor;
+  content: string;
+}
+
+interface TrackedToken {
+  text: string;
+  author: VersionAuthor | null;
+  // Position in the "from" version, or null for text added later
+  baseIndex: number | null;
+}
+
+interface TokenOp {
+  type: RedlineChange;
+  text: string;
+  author: VersionAuthor | null;
+}
+
+const TOKEN_RE = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+const WORD_RE = /[\p{L}\p{N}]/u;
+const PARAGRAPH_BREAK_RE = /\n\s*\n/;
+
+function tokenize(content: string): string[] {
+  return content.replace(/\r\n/g, '\n').match(TOKEN_RE) || [];
+}
+
+/**
+ * Replay each version's edits over the "from" text so every inserted token
+ * knows which version added it and every removed token which version deleted it.
+ */
+function trackChanges(chain: VersionText[]): { base: string[]; final: TrackedToken[]; deletedBy: (VersionAuthor | null)[] } {
+  const base = tokenize(chain[0].content);
+  const deletedBy: (VersionAuthor | null)[] = base.map(() => null);
+  let current: TrackedToken[] = base.map((text, index) => ({ text, author: null, baseIndex: index }));
+
+  for (const step of chain.slice(1)) {
+    const next = tokenize(step.content);
+    const changes = diffArrays(current.map((token) => token.text), next);
+    const updated: TrackedToken[] = [];
+    let oldIndex = 0;
+
+    for (const change of changes) {
+      if (change.added) {
+        for (const text of change.value) {
+          updated.push({ text, author: step.author, baseIndex: null });
+        }
+      } else if (change.removed) {
+        for (let i = 0; i < change.value.length; i++) {
+          const removed = current[oldIndex++];
+          if (removed.baseIndex !== null) {
+            deletedBy[removed.baseIndex] = step.author;
+          }
+        }
+      } else {
+        for (let i = 0; i < change.value.length; i++) {
+          updated.push(current[oldIndex++]);
+        }
+      }
+    }
+
+    current = updated;
+  }
+
+  return { base, final: current, deletedBy };
+}
+
+/**
+ * Interleave surviving, inserted and deleted tokens in document order,
+ * placing deletions ahead of the insertions that replace them.
+ */
+function toOperations(base: string[], final: TrackedToken[], deletedBy: (VersionAuthor | null)[], to: VersionAuthor): TokenOp[] {
+  const ops: TokenOp[] = [];
+  let baseCursor = 0;
+
+  const flushDeletions = (upTo: number) => {
+    for (; baseCursor < upTo; baseCursor++) {
+      ops.push({ type: 'delete', text: base[baseCursor], author: deletedBy[baseCursor] || to });
+    }
+  };
+
+  // Base index of the next surviving token at or after each position
+  const nextSurvivor: number[] = new Array(final.length + 1);
+  nextSurvivor[final.length] = base.length;
+  for (let i = final.length - 1; i >= 0; i--) {
+    nextSurvivor[i] = final[i].baseIndex ?? nextSurvivor[i + 1];
+  }
+
+  final.forEach((token, index) => {
+    if (token.baseIndex !== null) {
+      flushDeletions(token.baseIndex);
+      baseCursor = token.baseIndex + 1;
+      ops.push({ type: 'equal', text: token.text, author: null });
+    } else {
+      flushDeletions(nextSurvivor[index]);
+      ops.push({ type: 'insert', text: token.text, author: token.author || to });
+    }
+  });
+
+  flushDeletions(base.length);
+  return ops;
+}
+
+function groupParagraphs(ops: TokenOp[]): RedlineParagraph[] {
+  const paragraphs: RedlineParagraph[] = [];
+  let segments: RedlineSegment[] = [];
+
+  const closeParagraph = () => {
+    // Trim whitespace-only segments at the paragraph edges
+    while (segments.length > 0 && !segments[0].text.trim()) segments.shift();
+    while (segments.length > 0 && !segments[segments.length - 1].text.trim()) segments.pop();
+    if (segments.length === 0) return;
+
+    const types = new Set(segments.filter((segment) => segment.text.trim()).map((segment) => segment.type));
+    const type = types.size === 1 ? [...types][0] : 'modify';
+    paragraphs.push({ type, segments });
+    segments = [];
+  };
+
+  for (const op of ops) {
+    if (PARAGRAPH_BREAK_RE.test(op.text)) {
+      closeParagraph();
+      continue;
+    }
+
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type && last.author?.versionId === op.author?.versionId) {
+      last.text += op.text;
+    } else {
+      segments.push({ type: op.type, text: op.text, author: op.author });
+    }
+  }
+
+  closeParagraph();
+  return paragraphs;
+}
+
+function countWords(text: string): number {
+  return (text.match(TOKEN_RE) || []).filter((token) => WORD_RE.test(token)).length;
+}
+
+/**
+ * Build a paragraph- and word-level redline from the first version in the
+ * chain to the last, attributing each change to the version that made it.
+ */
+export function buildRedline(chain: VersionText[]): Redline {
+  if (chain.length < 2) {
+    throw new Error('A redline needs at least two versions');
+  }
+
+  const from = chain[0].author;
+  const to = chain[chain.length - 1].author;
+  const { base, final, deletedBy } = trackChanges(chain);
+  const paragraphs = groupParagraphs(toOperations(base, final, deletedBy, to));
+
+  const bySource: Record<GeneratedDocSource, RedlineCounts> = {
+    AI: { insertedWords: 0, deletedWords: 0 },
+    USER: { insertedWords: 0, deletedWords: 0 },
+  };
+  let insertedWords = 0;
+  let deletedWords = 0;
+
+  for (const paragraph of paragraphs) {
+    for (const segment of paragraph.segments) {
+      if (segment.type === 'equal' || !segment.author) continue;
+      const words = countWords(segment.text);
+      if (segment.type === 'insert') {
+        insertedWords += words;
+        bySource[segment.author.source].insertedWords += words;
+      } else {
+        deletedWords += words;
+        bySource[segment.author.source].deletedWords += words;
+      }
+    }
+  }
+
+  return {
+    from,
+    to,
+    versions: chain.slice(1).map((step) => step.author),
+    paragraphs,
+    summary: {
+      insertedWords,
+      deletedWords,
+      paragraphsChanged: paragraphs.filter((paragraph) => paragraph.type !== 'equal').length,
+      bySource,
+    },
+  };
+}
+
+/**
+ * Load two versions of a case's generated document and diff them. When
+ * comparing an older version to a newer one of the same type, every version
+ * in between is replayed so edits are credited to the AI or user who made them.
+ */
+export async function getVersionRedline(caseId: string, fromId: string, toId: string): Promise<Redline> {
+  const include = { createdBy: { select: { name: true } } };
+  const [from, to] = await Promise.all([
+    prisma.generatedDocument.findFirst({ where: { id: fromId, caseId }, include }),
+    prisma.generatedDocument.findFirst({ where: { id: toId, caseId }, include }),
+  ]);
+
+  if (!from || !to) {
+    throw new NotFoundError('Generated document not found');
+  }
+
+  if (from.id === to.id) {
+    throw new BadRequestError('Choose two different versions to compare');
+  }
+
+  let versions = [from, to];
+  if (from.documentType === to.documentType && from.version < to.version) {
+    const between = await prisma.generatedDocument.findMany({
+      where: {
+        caseId,
+        documentType: from.documentType,
+        version: { gt: from.version, lt: to.version },
+      },
+      orderBy: { version: 'asc' },
+      include,
+    });
+    versions = [from, ...between, to];
+  }
+
+  return buildRedline(
+    versions.map((doc) => ({
+      author: {
+        versionId: doc.id,
+        version: doc.version,
+        source: doc.source,
+        userName: doc.createdBy?.name || null,
+        createdAt: doc.createdAt,
+      },
+      content: doc.content,
+    }))
+  );
+}
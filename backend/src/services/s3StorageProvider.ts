@@ -0,0 +1,75 @@
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl as getS3SignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { StorageProvider } from './storage.js';
+
+export function createS3StorageProvider(): StorageProvider {
+  const region = process.env.AWS_REGION || 'us-west-2';
+  const bucket = process.env.AWS_S3_BUCKET || 'demand-letter-docs';
+  const baseUrl = `https://${bucket}.s3.${region}.amazonaws.com/`;
+
+  const client = new S3Client({
+    region,
+    credentials: {
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+    },
+  });
+
+  async function stream(key: string) {
+    const response = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error('Empty response from S3');
+    }
+
+    return {
+      // The Node runtime always returns an IncomingMessage-backed Readable
+      body: response.Body as Readable,
+      contentType: response.ContentType ?? null,
+      contentLength: response.ContentLength ?? null,
+    };
+  }
+
+  return {
+    name: 's3',
+
+    async put(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        })
+      );
+      return `${baseUrl}${key}`;
+    },
+
+    async get(key) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of (await stream(key)).body) {
+        chunks.push(chunk);
+      }
+      return Buffer.concat(chunks);
+    },
+
+    stream,
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+
+    async signedUrl(key, expiresIn) {
+      return getS3SignedUrl(client, new GetObjectCommand({ Bucket: bucket, Key: key }), { expiresIn });
+    },
+
+    keyFromUrl(url) {
+      return url.startsWith(baseUrl) ? url.slice(baseUrl.length) : null;
+    },
+  };
+}
@@ -0,0 +1,346 @@
+import { DocumentCategory, Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { logger } from '../utils/logger.js';
+import { CaseViewer, caseAccessSql } from './caseAccessService.js';
+
+export type SearchType = 'all' | 'documents' | 'events';
+
+export interface SearchFilters {
+  caseId?: string;
+  category?: DocumentCategory;
+  provider?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export interface SearchOptions {
+  type?: SearchType;
+  filters?: SearchFilters;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchResult {
+  type: 'document' | 'medical_event';
+  id: string;
+  documentId: string;
+  caseId: string;
+  caseNumber: string | null;
+  clientName: string;
+  title: string;
+  category: DocumentCategory;
+  providerName: string | null;
+  date: Date | null;
+  rank: number;
+  /** HTML-escaped excerpt with matches wrapped in <mark> */
+  snippet: string;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+}
+
+// tsvector values are capped at 1MB; very long OCR text is truncated before indexing
+const MAX_INDEXED_CHARS = 500000;
+const MAX_HEADLINE_CHARS = 200000;
+
+// Highlight delimiters passed to ts_headline, swapped for <mark> after escaping
+const HL_START = '⟦';
+const HL_END = '⟧';
+const HEADLINE_OPTIONS = `StartSel=${HL_START}, StopSel=${HL_END}, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "`;
+
+const DOCUMENT_VECTOR_SQL = Prisma.sql`
+  setweight(to_tsvector('english', coalesce("originalFilename", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("providerName", '') || ' ' || coalesce("subcategory", '')), 'B') ||
+  setweight(to_tsvector('english', left(coalesce("extractedText", ''), ${MAX_INDEXED_CHARS})), 'C')`;
+
+const EVENT_DIAGNOSES_SQL = Prisma.sql`
+  coalesce((
+    SELECT string_agg(concat_ws(' ', dx->>'diagnosis_name', dx->>'icd_code', dx->>'body_part'), ' ')
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof("diagnoses") = 'array' THEN "diagnoses" ELSE '[]'::jsonb END) dx
+  ), '')`;
+
+const EVENT_BODY_SQL = Prisma.sql`concat_ws(' ',
+  "subjectiveFindings", "objectiveFindings", "plan", "prognosis", "permanencyStatements",
+  "treatmentsProcedures"::text, "keyQuotes"::text, "causationStatements"::text)`;
+
+const EVENT_VECTOR_SQL = Prisma.sql`
+  setweight(to_tsvector('english', concat_ws(' ', "providerName", "facilityName", "providerType")), 'A') ||
+  setweight(to_tsvector('english', concat_ws(' ', "chiefComplaint", "assessment", ${EVENT_DIAGNOSES_SQL})), 'B') ||
+  setweight(to_tsvector('english', ${EVENT_BODY_SQL}), 'C')`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatSnippet(headline: string | null): string {
+  if (!headline) return '';
+  return escapeHtml(headline.replace(/\s+/g, ' ').trim())
+    .split(HL_START).join('<mark>')
+    .split(HL_END).join('</mark>');
+}
+
+/**
+ * Rebuild the search vector for one document after its text or metadata changes.
+ */
+export async function updateDocumentSearchVector(documentId: string): Promise<void> {
+  await prisma.$executeRaw`
+    UPDATE "Document" SET "searchVector" = ${DOCUMENT_VECTOR_SQL}
+    WHERE id = ${documentId}`;
+}
+
+/**
+ * Rebuild search vectors for medical events, either one event or all events
+ * extracted from a document.
+ */
+export async function updateMedicalEventSearchVectors(where: { eventId?: string; documentId?: string }): Promise<void> {
+  const condition = where.eventId
+    ? Prisma.sql`id = ${where.eventId}`
+    : Prisma.sql`"documentId" = ${where.documentId}`;
+
+  await prisma.$executeRaw`
+    UPDATE "MedicalEvent" SET "searchVector" = ${EVENT_VECTOR_SQL}
+    WHERE ${condition}`;
+}
+
+/**
+ * Index rows created before full-text search existed. Runs in batches so a
+ * large backlog doesn't hold one long transaction.
+ */
+export async function backfillSearchVectors(batchSize: number = 200): Promise<void> {
+  let documents = 0;
+  let events = 0;
+
+  for (;;) {
+    const updated = await prisma.$executeRaw`
+      UPDATE "Document" SET "searchVector" = ${DOCUMENT_VECTOR_SQL}
+      WHERE id IN (
+        SELECT id FROM "Document"
+        WHERE "searchVector" IS NULL AND "extractedText" IS NOT NULL
+        LIMIT ${batchSize}
+      )`;
+    documents += updated;
+    if (updated < batchSize) break;
+  }
+
+  for (;;) {
+    const updated = await prisma.$executeRaw`
+      UPDATE "MedicalEvent" SET "searchVector" = ${EVENT_VECTOR_SQL}
+      WHERE id IN (
+        SELECT id FROM "MedicalEvent" WHERE "searchVector" IS NULL LIMIT ${batchSize}
+      )`;
+    events += updated;
+    if (updated < batchSize) break;
+  }
+
+  if (documents > 0 || events > 0) {
+    logger.info(`Search index backfilled: ${documents} documents, ${events} medical events`);
+  }
+}
+
+interface DocumentRow {
+  id: string;
+  caseId: string;
+  caseNumber: string | null;
+  clientFirstName: string;
+  clientLastName: string;
+  originalFilename: string;
+  category: DocumentCategory;
+  providerName: string | null;
+  documentDate: Date | null;
+  rank: number;
+  headline: string | null;
+}
+
+interface EventRow {
+  id: string;
+  documentId: string;
+  caseId: string;
+  caseNumber: string | null;
+  clientFirstName: string;
+  clientLastName: string;
+  originalFilename: string;
+  category: DocumentCategory;
+  providerName: string | null;
+  facilityName: string | null;
+  dateOfService: Date;
+  rank: number;
+  headline: string | null;
+}
+
+async function searchDocuments(
+  caseScope: Prisma.Sql,
+  query: string,
+  filters: SearchFilters,
+  limit: number
+): Promise<{ rows: DocumentRow[]; total: number }> {
+  const conditions: Prisma.Sql[] = [
+    caseScope,
+    Prisma.sql`d."searchVector" @@ q.query`,
+  ];
+
+  if (filters.caseId) conditions.push(Prisma.sql`d."caseId" = ${filters.caseId}`);
+  if (filters.category) conditions.push(Prisma.sql`d.category = ${filters.category}::"DocumentCategory"`);
+  if (filters.provider) conditions.push(Prisma.sql`d."providerName" ILIKE ${`%${filters.provider}%`}`);
+  if (filters.dateFrom) conditions.push(Prisma.sql`d."documentDate" >= ${filters.dateFrom}`);
+  if (filters.dateTo) conditions.push(Prisma.sql`d."documentDate" <= ${filters.dateTo}`);
+
+  const where = Prisma.join(conditions, ' AND ');
+
+  // Rank and limit first so ts_headline only runs on the rows returned
+  const [rows, count] = await Promise.all([
+    prisma.$queryRaw<DocumentRow[]>`
+      SELECT r.id, r."caseId", r."caseNumber", r."clientFirstName", r."clientLastName",
+        r."originalFilename", r.category, r."providerName", r."documentDate", r.rank,
+        ts_headline('english', left(coalesce(src."extractedText", ''), ${MAX_HEADLINE_CHARS}), r.query, ${HEADLINE_OPTIONS}) AS headline
+      FROM (
+        SELECT d.id, d."caseId", c."caseNumber", c."clientFirstName", c."clientLastName",
+          d."originalFilename", d.category::text AS category, d."providerName", d."documentDate",
+          ts_rank_cd(d."searchVector", q.query, 32)::float8 AS rank, q.query
+        FROM "Document" d
+        JOIN "Case" c ON c.id = d."caseId"
+        CROSS JOIN websearch_to_tsquery('english', ${query}) AS q(query)
+        WHERE ${where}
+        ORDER BY rank DESC, d."createdAt" DESC
+        LIMIT ${limit}
+      ) r
+      JOIN "Document" src ON src.id = r.id
+      ORDER BY r.rank DESC`,
+    prisma.$queryRaw<Array<{ count: number }>>`
+      SELECT count(*)::int AS count
+      FROM "Document" d
+      JOIN "Case" c ON c.id = d."caseId"
+      CROSS JOIN websearch_to_tsquery('english', ${query}) AS q(query)
+      WHERE ${where}`,
+  ]);
+
+  return { rows, total: count[0]?.count || 0 };
+}
+
+async function searchMedicalEvents(
+  caseScope: Prisma.Sql,
+  query: string,
+  filters: SearchFilters,
+  limit: number
+): Promise<{ rows: EventRow[]; total: number }> {
+  const conditions: Prisma.Sql[] = [
+    caseScope,
+    Prisma.sql`e."searchVector" @@ q.query`,
+  ];
+
+  if (filters.caseId) conditions.push(Prisma.sql`e."caseId" = ${filters.caseId}`);
+  if (filters.category) conditions.push(Prisma.sql`doc.category = ${filters.category}::"DocumentCategory"`);
+  if (filters.provider) {
+    const pattern = `%${filters.provider}%`;
+    conditions.push(Prisma.sql`(e."providerName" ILIKE ${pattern} OR e."facilityName" ILIKE ${pattern})`);
+  }
+  if (filters.dateFrom) conditions.push(Prisma.sql`e."dateOfService" >= ${filters.dateFrom}`);
+  if (filters.dateTo) conditions.push(Prisma.sql`e."dateOfService" <= ${filters.dateTo}`);
+
+  const where = Prisma.join(conditions, ' AND ');
+
+  const [rows, count] = await Promise.all([
+    prisma.$queryRaw<EventRow[]>`
+      SELECT r.id, r."documentId", r."caseId", r."caseNumber", r."clientFirstName", r."clientLastName",
+        r."originalFilename", r.category, r."providerName", r."facilityName", r."dateOfService", r.rank,
+        ts_headline('english',
+        concat_ws(' ', src."chiefComplaint", src."assessment", ${EVENT_BODY_SQL}), r.query, ${HEADLINE_OPTIONS}) AS headline
+      FROM (
+        SELECT e.id, e."documentId", e."caseId", c."caseNumber", c."clientFirstName", c."clientLastName",
+          doc."originalFilename", doc.category::text AS category, e."providerName", e."facilityName", e."dateOfService",
+          ts_rank_cd(e."searchVector", q.query, 32)::float8 AS rank, q.query
+        FROM "MedicalEvent" e
+        JOIN "Case" c ON c.id = e."caseId"
+        JOIN "Document" doc ON doc.id = e."documentId"
+        CROSS JOIN websearch_to_tsquery('english', ${query}) AS q(query)
+        WHERE ${where}
+        ORDER BY rank DESC, e."dateOfService" DESC
+        LIMIT ${limit}
+      ) r
+      JOIN "MedicalEvent" src ON src.id = r.id
+      ORDER BY r.rank DESC`,
+    prisma.$queryRaw<Array<{ count: number }>>`
+      SELECT count(*)::int AS count
+      FROM "MedicalEvent" e
+      JOIN "Case" c ON c.id = e."caseId"
+      JOIN "Document" doc ON doc.id = e."documentId"
+      CROSS JOIN websearch_to_tsquery('english', ${query}) AS q(query)
+      WHERE ${where}`,
+  ]);
+
+  return { rows, total: count[0]?.count || 0 };
+}
+
+/**
+ * Ranked full-text search over extracted document text and medical events
+ * in the cases a firm member can see. Results from both sources are merged
+ * by rank.
+ */
+export async function searchFirm(
+  viewer: CaseViewer,
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchResponse> {
+  const { type = 'all', filters = {}, limit = 20, offset = 0 } = options;
+
+  // Each source needs offset + limit rows so the merged page is correct
+  const window = offset + limit;
+  const caseScope = caseAccessSql(viewer);
+  const results: SearchResult[] = [];
+  let total = 0;
+
+  if (type === 'all' || type === 'documents') {
+    const documents = await searchDocuments(caseScope, query, filters, window);
+    total += documents.total;
+    results.push(
+      ...documents.rows.map((row) => ({
+        type: 'document' as const,
+        id: row.id,
+        documentId: row.id,
+        caseId: row.caseId,
+        caseNumber: row.caseNumber,
+        clientName: `${row.clientFirstName} ${row.clientLastName}`,
+        title: row.originalFilename,
+        category: row.category,
+        providerName: row.providerName,
+        date: row.documentDate,
+        rank: Number(row.rank),
+        snippet: formatSnippet(row.headline),
+      }))
+    );
+  }
+
+  if (type === 'all' || type === 'events') {
+    const events = await searchMedicalEvents(caseScope, query, filters, window);
+    total += events.total;
+    results.push(
+      ...events.rows.map((row) => ({
+        type: 'medical_event' as const,
+        id: row.id,
+        documentId: row.documentId,
+        caseId: row.caseId,
+        caseNumber: row.caseNumber,
+        clientName: `${row.clientFirstName} ${row.clientLastName}`,
+        title: row.providerName || row.facilityName || row.originalFilename,
+        category: row.category,
+        providerName: row.providerName || row.facilityName,
+        date: row.dateOfService,
+        rank: Number(row.rank),
+        snippet: formatSnippet(row.headline),
+      }))
+    );
+  }
+
+  results.sort((a, b) => b.rank - a.rank);
+
+  return {
+    results: results.slice(offset, offset + limit),
+    total,
+  };
+}
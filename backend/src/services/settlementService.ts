@@ -0,0 +1,120 @@
+import { LienStatus, LienType } from '@prisma/client';
+import prisma from '../db/client.js';
+import { lienPayoff } from './lienService.js';
+
+export const DEFAULT_ATTORNEY_FEE_PERCENT = 33.33;
+
+export interface SettlementCost {
+  description: string;
+  amount: number;
+}
+
+/**
+ * Inputs saved in Case.settlementWorksheet. Liens are read live so the
+ * worksheet always reflects the latest negotiated amounts.
+ */
+export interface SettlementWorksheetInputs {
+  settlementAmount: number;
+  attorneyFeePercent: number;
+  costs: SettlementCost[];
+}
+
+export interface SettlementLienLine {
+  id: string;
+  holderName: string;
+  type: LienType;
+  status: LienStatus;
+  amountClaimed: number;
+  negotiatedAmount: number | null;
+  payoff: number;
+  /** Amount claimed minus payoff */
+  reduction: number;
+}
+
+export interface SettlementWorksheet {
+  inputs: SettlementWorksheetInputs;
+  settlementAmount: number;
+  attorneyFeePercent: number;
+  attorneyFee: number;
+  costs: SettlementCost[];
+  costsTotal: number;
+  liens: SettlementLienLine[];
+  lienTotal: number;
+  lienReductions: number;
+  netToClient: number;
+  /** Percentage of the gross settlement the client receives */
+  clientPercent: number;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Firm-wide default fee from Firm.settings.defaultAttorneyFeePercent.
+ */
+export function defaultFeePercent(firmSettings: unknown): number {
+  const value = (firmSettings as Record<string, unknown> | null)?.defaultAttorneyFeePercent;
+  return typeof value === 'number' && value >= 0 && value <= 100 ? value : DEFAULT_ATTORNEY_FEE_PERCENT;
+}
+
+/**
+ * Compute the disbursement for a case: gross settlement less attorney fee,
+ * case costs and lien payoffs. The fee is taken on the gross amount.
+ */
+export async function buildSettlementWorksheet(
+  caseId: string,
+  overrides?: Partial<SettlementWorksheetInputs>
+): Promise<SettlementWorksheet> {
+  const caseData = await prisma.case.findUniqueOrThrow({
+    where: { id: caseId },
+    select: {
+      settlementWorksheet: true,
+      firm: { select: { settings: true } },
+      liens: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  const saved = (caseData.settlementWorksheet || {}) as Partial<SettlementWorksheetInputs>;
+  const inputs: SettlementWorksheetInputs = {
+    settlementAmount: overrides?.settlementAmount ?? saved.settlementAmount ?? 0,
+    attorneyFeePercent:
+      overrides?.attorneyFeePercent ?? saved.attorneyFeePercent ?? defaultFeePercent(caseData.firm.settings),
+    costs: overrides?.costs ?? saved.costs ?? [],
+  };
+
+  const liens: SettlementLienLine[] = caseData.liens.map((lien) => {
+    const amountClaimed = Number(lien.amountClaimed);
+    const payoff = roundCents(lienPayoff(lien));
+    return {
+      id: lien.id,
+      holderName: lien.holderName,
+      type: lien.type,
+      status: lien.status,
+      amountClaimed,
+      negotiatedAmount: lien.negotiatedAmount === null ? null : Number(lien.negotiatedAmount),
+      payoff,
+      reduction: roundCents(amountClaimed - payoff),
+    };
+  });
+
+  const attorneyFee = roundCents((inputs.settlementAmount * inputs.attorneyFeePercent) / 100);
+  const costsTotal = roundCents(inputs.costs.reduce((sum, cost) => sum + cost.amount, 0));
+  const lienTotal = roundCents(liens.reduce((sum, lien) => sum + lien.payoff, 0));
+  const netToClient = roundCents(inputs.settlementAmount - attorneyFee - costsTotal - lienTotal);
+
+  return {
+    inputs,
+    settlementAmount: inputs.settlementAmount,
+    attorneyFeePercent: inputs.attorneyFeePercent,
+    attorneyFee,
+    costs: inputs.costs,
+    costsTotal,
+    liens,
+    lienTotal,
+    lienReductions: roundCents(liens.reduce((sum, lien) => sum + lien.reduction, 0)),
+    netToClient,
+    clientPercent:
+      inputs.settlementAmount > 0 ? roundCents((netToClient / inputs.settlementAmount) * 100) : 0,
+  };
+}
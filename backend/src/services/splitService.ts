@@ -0,0 +1,202 @@
+import { Document, DocumentCategory, Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { DocumentSegment } from './classificationService.js';
+import { releaseDuplicates } from './duplicateService.js';
+import { PageMapEntry, slicePages } from './textExtraction.js';
+import { logger } from '../utils/logger.js';
+
+/** Shorter PDFs are processed whole without a segmentation call */
+const MIN_SPLIT_PAGES = 3;
+
+/**
+ * Whether a document's pages should be checked for separate documents: PDFs
+ * of a few pages or more that aren't parts themselves, unless a user has
+ * already set the split points.
+ */
+export function shouldDetectSegments(
+  document: Pick<Document, 'mimeType' | 'parentDocumentId' | 'splitEditedAt' | 'duplicateStatus' | 'isEmailBody'>,
+  pageMap: PageMapEntry[] | null
+): pageMap is PageMapEntry[] {
+  return (
+    document.mimeType === 'application/pdf' &&
+    !document.parentDocumentId &&
+    !document.splitEditedAt &&
+    // A merged copy is processed whole so only its new events are kept
+    document.duplicateStatus !== 'MERGED' &&
+    // An email rendered to PDF is one message however long
+    !document.isEmailBody &&
+    !!pageMap &&
+    pageMap.length >= MIN_SPLIT_PAGES
+  );
+}
+
+function partFilename(parentFilename: string, pageStart: number, pageEnd: number): string {
+  const base = parentFilename.replace(/\.pdf$/i, '');
+  const pages = pageStart === pageEnd ? `p. ${pageStart}` : `pp. ${pageStart}-${pageEnd}`;
+  return `${base} (${pages}).pdf`;
+}
+
+/** A split parent's current parts as segments, in page order */
+export async function getSplitSegments(parentId: string): Promise<DocumentSegment[]> {
+  const parts = await prisma.document.findMany({
+    where: { parentDocumentId: parentId },
+    orderBy: { pageStart: 'asc' },
+  });
+
+  return parts.map((part) => ({
+    pageStart: part.pageStart!,
+    pageEnd: part.pageEnd!,
+    category: part.category,
+    subcategory: part.subcategory,
+    documentDate: part.documentDate ? part.documentDate.toISOString().split('T')[0] : null,
+    providerName: part.providerName,
+  }));
+}
+
+/**
+ * Turn user-chosen split points (the first page of every part after the
+ * first) into segments. Each new part starts with the classification of the
+ * existing part it overlaps most, until it's processed.
+ */
+export function segmentsFromSplitPoints(
+  splitPoints: number[],
+  firstPage: number,
+  lastPage: number,
+  existing: DocumentSegment[]
+): DocumentSegment[] {
+  const starts = [firstPage, ...[...new Set(splitPoints)].sort((a, b) => a - b)];
+
+  return starts.map((pageStart, index) => {
+    const pageEnd = index < starts.length - 1 ? starts[index + 1] - 1 : lastPage;
+    const overlap = (segment: DocumentSegment) =>
+      Math.min(segment.pageEnd, pageEnd) - Math.max(segment.pageStart, pageStart) + 1;
+    const closest = existing.reduce<DocumentSegment | null>(
+      (best, segment) => (overlap(segment) > 0 && (!best || overlap(segment) > overlap(best)) ? segment : best),
+      null
+    );
+
+    return {
+      pageStart,
+      pageEnd,
+      category: closest?.category ?? 'OTHER',
+      subcategory: closest?.subcategory ?? null,
+      documentDate: closest?.documentDate ?? null,
+      providerName: closest?.providerName ?? null,
+    };
+  });
+}
+
+/**
+ * Divide a parent into one part per segment. Parts whose page range is
+ * unchanged are kept as they are unless `refreshUnchanged` (the parent's text
+ * was extracted again); the rest are replaced. The parent's own events and
+ * data are cleared since its parts now stand in for it. Returns the ids of
+ * documents to queue for processing: new or refreshed parts, and copies that
+ * were held against removed parts.
+ */
+export async function applyDocumentSplit(
+  parentId: string,
+  segments: DocumentSegment[],
+  options: { refreshUnchanged?: boolean } = {}
+): Promise<string[]> {
+  const parent = await prisma.document.findUniqueOrThrow({
+    where: { id: parentId },
+    include: { parts: true },
+  });
+  const pageMap = (parent.pageMap as unknown as PageMapEntry[] | null) ?? [];
+  const text = parent.extractedText ?? '';
+
+  const sameRange = (part: Document, segment: DocumentSegment) =>
+    part.pageStart === segment.pageStart && part.pageEnd === segment.pageEnd;
+  const removed = parent.parts.filter((part) => !segments.some((segment) => sameRange(part, segment)));
+
+  const released: string[] = [];
+  for (const part of removed) {
+    released.push(...(await releaseDuplicates(part.id)));
+  }
+
+  const toProcess: string[] = [];
+  await prisma.$transaction(async (tx) => {
+    await tx.document.deleteMany({ where: { id: { in: removed.map((part) => part.id) } } });
+
+    for (const segment of segments) {
+      const slice = slicePages(text, pageMap, segment.pageStart, segment.pageEnd);
+      const content = {
+        extractedText: slice.text,
+        pageMap: slice.pageMap as unknown as Prisma.InputJsonValue,
+        pageCount: segment.pageEnd - segment.pageStart + 1,
+        ocrConfidence: slice.ocrConfidence,
+        processingStatus: 'PENDING' as const,
+        processingError: null,
+      };
+
+      const existing = parent.parts.find((part) => sameRange(part, segment));
+      if (existing) {
+        if (options.refreshUnchanged) {
+          await tx.document.update({ where: { id: existing.id }, data: content });
+          toProcess.push(existing.id);
+        }
+        continue;
+      }
+
+      const part = await tx.document.create({
+        data: {
+          ...content,
+          filename: parent.filename,
+          originalFilename: partFilename(parent.originalFilename, segment.pageStart, segment.pageEnd),
+          fileUrl: parent.fileUrl,
+          fileSize: parent.fileSize,
+          mimeType: parent.mimeType,
+          sourcePath: parent.sourcePath,
+          category: segment.category as DocumentCategory,
+          subcategory: segment.subcategory,
+          documentDate: segment.documentDate ? new Date(segment.documentDate) : null,
+          providerName: segment.providerName,
+          caseId: parent.caseId,
+          parentDocumentId: parent.id,
+          pageStart: segment.pageStart,
+          pageEnd: segment.pageEnd,
+        },
+      });
+      toProcess.push(part.id);
+    }
+
+    await tx.medicalEvent.deleteMany({ where: { documentId: parent.id } });
+    await tx.document.update({
+      where: { id: parent.id },
+      data: {
+        category: 'OTHER',
+        subcategory: 'Combined document',
+        documentDate: null,
+        providerName: null,
+        extractedData: Prisma.DbNull,
+      },
+    });
+  });
+
+  logger.info(
+    `Split ${parent.originalFilename} into ${segments.length} parts (${removed.length} replaced, ${toProcess.length} to process)`
+  );
+  return [...toProcess, ...released];
+}
+
+/**
+ * Undo a split so the parent is processed as one document again. Returns the
+ * ids of copies that were held against the removed parts.
+ */
+export async function removeDocumentSplit(parentId: string): Promise<string[]> {
+  const parts = await prisma.document.findMany({
+    where: { parentDocumentId: parentId },
+    select: { id: true },
+  });
+  if (parts.length === 0) return [];
+
+  const released: string[] = [];
+  for (const part of parts) {
+    released.push(...(await releaseDuplicates(part.id)));
+  }
+  await prisma.document.deleteMany({ where: { parentDocumentId: parentId } });
+
+  logger.info(`Removed ${parts.length} parts of document ${parentId}`);
+  return released;
+}
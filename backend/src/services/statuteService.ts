@@ -0,0 +1,600 @@
+import { CaseStatus, DefendantType } from '@prisma/client';
+
+/**
+ * Statute of limitations rules by jurisdiction. Periods run from the incident
+ * date. Where a rule changed recently, `before` gives the period for incidents
+ * before the effective date. These are defaults for attorney verification,
+ * not legal advice; when a period is ambiguous the shorter one is used.
+ */
+interface LimitationPeriod {
+  years?: number;
+  months?: number;
+  days?: number;
+}
+
+interface PublicEntitySuitRule extends LimitationPeriod {
+  citation: string;
+  /** Shorter period that runs from a written rejection of the government claim */
+  afterRejection?: LimitationPeriod;
+  note?: string;
+}
+
+interface JurisdictionSolRule {
+  personalInjury: LimitationPeriod;
+  propertyDamage: LimitationPeriod;
+  citation: string;
+  /** Longer period for motor vehicle claims, where the state has one */
+  motorVehicle?: LimitationPeriod & { citation: string };
+  /** Period for suits against public entities, when it differs from personalInjury */
+  publicEntity?: PublicEntitySuitRule;
+  /** Age at which a minor's tolled period starts to run (default 18) */
+  majorityAge?: number;
+  /** false where minority does not toll the period */
+  minorTolling?: boolean;
+  before?: { date: string; personalInjury: LimitationPeriod; propertyDamage: LimitationPeriod };
+}
+
+const Y = (years: number): LimitationPeriod => ({ years });
+
+export const SOL_RULES: Record<string, JurisdictionSolRule> = {
+  AL: { personalInjury: Y(2), propertyDamage: Y(6), citation: 'Ala. Code § 6-2-38', majorityAge: 19 },
+  AK: { personalInjury: Y(2), propertyDamage: Y(6), citation: 'Alaska Stat. § 09.10.070' },
+  AZ: {
+    personalInjury: Y(2),
+    propertyDamage: Y(2),
+    citation: 'A.R.S. § 12-542',
+    publicEntity: { years: 1, citation: 'A.R.S. § 12-821' },
+  },
+  AR: { personalInjury: Y(3), propertyDamage: Y(3), citation: 'Ark. Code § 16-56-105' },
+  CA: {
+    personalInjury: Y(2),
+    propertyDamage: Y(3),
+    citation: 'Cal. Civ. Proc. Code § 335.1',
+    publicEntity: {
+      years: 2,
+      citation: 'Cal. Gov. Code § 945.6',
+      afterRejection: { months: 6 },
+      note: '2 years applies only when no written rejection is given',
+    },
+  },
+  CO: {
+    personalInjury: Y(2),
+    propertyDamage: Y(2),
+    citation: 'C.R.S. § 13-80-102',
+    motorVehicle: { years: 3, citation: 'C.R.S. § 13-80-101(1)(n)' },
+  },
+  CT: { personalInjury: Y(2), propertyDamage: Y(2), citation: 'Conn. Gen. Stat. § 52-584' },
+  DE: { personalInjury: Y(2), propertyDamage: Y(2), citation: '10 Del. C. § 8119' },
+  DC: { personalInjury: Y(3), propertyDamage: Y(3), citation: 'D.C. Code § 12-301' },
+  FL: {
+    personalInjury: Y(2),
+    propertyDamage: Y(2),
+    citation: 'Fla. Stat. § 95.11(4)(a)',
+    before: { date: '2023-03-24', personalInjury: Y(4), propertyDamage: Y(4) },
+  },
+  GA: { personalInjury: Y(2), propertyDamage: Y(4), citation: 'O.C.G.A. § 9-3-33' },
+  HI: { personalInjury: Y(2), propertyDamage: Y(2), citation: 'Haw. Rev. Stat. § 657-7' },
+  ID: { personalInjury: Y(2), propertyDamage: Y(3), citation: 'Idaho Code § 5-219' },
+  IL: {
+    personalInjury: Y(2),
+    propertyDamage: Y(5),
+    citation: '735 ILCS 5/13-202',
+    publicEntity: { years: 1, citation: '745 ILCS 10/8-101' },
+  },
+  IN: { personalInjury: Y(2), propertyDamage: Y(2), citation: 'Ind. Code § 34-11-2-4' },
+  IA: { personalInjury: Y(2), propertyDamage: Y(5), citation: 'Iowa Code § 614.1' },
+  KS: { personalInjury: Y(2), propertyDamage: Y(2), citation: 'K.S.A. § 60-513' },
+  KY: {
+    personalInjury: Y(1),
+    propertyDamage: Y(2),
+    citation: 'KRS § 413.140',
+    motorVehicle: { years: 2, citation: 'KRS § 304.39-230' },
+  },
+  LA: {
+    personalInjury: Y(2),
+    propertyDamage: Y(2),
+    citation: 'La. Civ. Code art. 3493.1',
+    minorTolling: false,
+    before: { date: '2024-07-01', personalInjury: Y(1), propertyDamage: Y(1) },
+  },
+  ME: { personalInjury: Y(6), propertyDamage: Y(6), citation: '14 M.R.S. § 752' },
+  MD: { personalInjury: Y(3), propertyDamage: Y(3), citation: 'Md. Code, Cts. & Jud. Proc. § 5-101' },
+  MA: { personalInjury: Y(3), propertyDamage: Y(3), citation: 'M.G.L. c. 260, § 2A' },
+  MI: { personalInjury: Y(3), propertyDamage: Y(3), citation: 'MCL § 600.5805' },
+  MN: { personalInjury: Y(6), propertyDamage: Y(6), citation: 'Minn. Stat. § 541.05' },
+  MS: {
+    personalInjury: Y(3),
+    propertyDamage: Y(3),
+    citation: 'Miss. Code § 15-1-49',
+    majorityAge: 21,
+    publicEntity: { years: 1, citation: 'Miss. Code § 11-46-11' },
+  },
+  MO: { personalInjury: Y(5), propertyDamage: Y(5), citation: 'Mo. Rev. Stat. § 516.120', majorityAge: 21 },
+  MT: { personalInjury: Y(3), propertyDamage: Y(2), citation: 'Mont. Code § 27-2-204' },
+  NE: { personalInjury: Y(4), propertyDamage: Y(4), citation: 'Neb. Rev. Stat. § 25-207', majorityAge: 21 },
+  NV: { personalInjury: Y(2), propertyDamage: Y(3), citation: 'NRS § 11.190(4)(e)' },
+  NH: { personalInjury: Y(3), propertyDamage: Y(3), citation: 'RSA 508:4' },
+  NJ: { personalInjury: Y(2), propertyDamage: Y(6), citation: 'N.J.S.A. 2A:14-2' },
+  NM: { personalInjury: Y(3), propertyDamage: Y(4), citation: 'NMSA § 37-1-8' },
+  NY: {
+    personalInjury: Y(3),
+    propertyDamage: Y(3),
+    citation: 'N.Y. C.P.L.R. § 214',
+    publicEntity: { years: 1, days: 90, citation: 'N.Y. Gen. Mun. Law § 50-i' },
+  },
+  NC: { personalInjury: Y(3), propertyDamage: Y(3), citation: 'N.C. Gen. Stat. § 1-52' },
+  ND: { personalInjury: Y(6), propertyDamage: Y(6), citation: 'N.D. Cent. Code § 28-01-16' },
+  OH: { personalInjury: Y(2), propertyDamage: Y(2), citation: 'Ohio Rev. Code § 2305.10' },
+  OK: { personalInjury: Y(2), propertyDamage: Y(2), citation: '12 O.S. § 95' },
+  OR: { personalInjury: Y(2), propertyDamage: Y(6), citation: 'ORS 12.110' },
+  PA: { personalInjury: Y(2), propertyDamage: Y(2), citation: '42 Pa.C.S. § 5524' },
+  RI: { personalInjury: Y(3), propertyDamage: Y(10), citation: 'R.I. Gen. Laws § 9-1-14' },
+  SC: { personalInjury: Y(3), propertyDamage: Y(3), citation: 'S.C. Code § 15-3-530' },
+  SD: { personalInjury: Y(3), propertyDamage: Y(6), citation: 'SDCL § 15-2-14' },
+  TN: { personalInjury: Y(1), propertyDamage: Y(3), citation: 'Tenn. Code § 28-3-104' },
+  TX: { personalInjury: Y(2), propertyDamage: Y(2), citation: 'Tex. Civ. Prac. & Rem. Code § 16.003' },
+  UT: { personalInjury: Y(4), propertyDamage: Y(3), citation: 'Utah Code § 78B-2-307' },
+  VT: { personalInjury: Y(3), propertyDamage: Y(3), citation: '12 V.S.A. § 512' },
+  VA: { personalInjury: Y(2), propertyDamage: Y(5), citation: 'Va. Code § 8.01-243' },
+  WA: { personalInjury: Y(3), propertyDamage: Y(3), citation: 'RCW 4.16.080' },
+  WV: { personalInjury: Y(2), propertyDamage: Y(2), citation: 'W. Va. Code § 55-2-12' },
+  WI: { personalInjury: Y(3), propertyDamage: Y(6), citation: 'Wis. Stat. § 893.54' },
+  WY: { personalInjury: Y(4), propertyDamage: Y(4), citation: 'Wyo. Stat. § 1-3-105' },
+};
+
+interface GovernmentClaimRule extends LimitationPeriod {
+  citation: string;
+  note?: string;
+}
+
+/**
+ * Notice-of-claim (tort claim) deadlines for suits against public entities,
+ * running from the incident date. A claim must be presented, and usually
+ * rejected, before suit can be filed. Where state and local deadlines differ
+ * the shorter is listed; jurisdictions without an entry have no general
+ * statutory notice requirement on file and should be verified locally.
+ */
+export const GOVERNMENT_CLAIM_RULES: Record<string, GovernmentClaimRule> = {
+  AL: { months: 6, citation: 'Ala. Code § 11-47-23', note: 'Municipalities; counties allow 12 months' },
+  AZ: { days: 180, citation: 'A.R.S. § 12-821.01' },
+  CA: { months: 6, citation: 'Cal. Gov. Code § 911.2', note: 'A late-claim application is possible within 1 year (§ 911.4)' },
+  CO: { days: 182, citation: 'C.R.S. § 24-10-109' },
+  CT: { months: 6, citation: 'Conn. Gen. Stat. § 7-101a', note: 'Defective highway claims require notice within 90 days (§ 13a-149)' },
+  DC: { months: 6, citation: 'D.C. Code § 12-309' },
+  FL: { years: 3, citation: 'Fla. Stat. § 768.28(6)' },
+  GA: { months: 6, citation: 'O.C.G.A. § 36-33-5', note: 'Municipalities; counties and the state allow 12 months' },
+  ID: { days: 180, citation: 'Idaho Code § 6-906' },
+  IN: { days: 180, citation: 'Ind. Code § 34-13-3-8', note: 'Political subdivisions; state agencies allow 270 days' },
+  MA: { years: 2, citation: 'M.G.L. c. 258, § 4' },
+  MD: { years: 1, citation: 'Md. Code, Cts. & Jud. Proc. § 5-304' },
+  ME: { days: 365, citation: '14 M.R.S. § 8107' },
+  MI: { days: 120, citation: 'MCL § 691.1404', note: 'Highway defect claims' },
+  MN: { days: 180, citation: 'Minn. Stat. § 466.05' },
+  MS: { years: 1, citation: 'Miss. Code § 11-46-11', note: 'Notice must be served 90 days before suit' },
+  ND: { days: 180, citation: 'N.D. Cent. Code § 32-12.1-10' },
+  NE: { years: 1, citation: 'Neb. Rev. Stat. § 13-919' },
+  NJ: { days: 90, citation: 'N.J.S.A. 59:8-8' },
+  NM: { days: 90, citation: 'NMSA § 41-4-16' },
+  NY: { days: 90, citation: 'N.Y. Gen. Mun. Law § 50-e' },
+  OK: { years: 1, citation: '51 O.S. § 156' },
+  OR: { days: 180, citation: 'ORS 30.275' },
+  PA: { months: 6, citation: '42 Pa.C.S. § 5522' },
+  SD: { days: 180, citation: 'SDCL § 3-21-2' },
+  TX: { months: 6, citation: 'Tex. Civ. Prac. & Rem. Code § 101.101', note: 'City charters may require notice sooner' },
+  UT: { years: 1, citation: 'Utah Code § 63G-7-402' },
+  VA: { months: 6, citation: 'Va. Code § 15.2-209', note: 'Localities; claims against the Commonwealth allow 1 year' },
+  WI: { days: 120, citation: 'Wis. Stat. § 893.80' },
+  WY: { years: 2, citation: 'Wyo. Stat. § 1-39-113' },
+};
+
+/** Federal Tort Claims Act: administrative claim within 2 years, suit within 6 months of denial */
+const FEDERAL_CLAIM_RULE: GovernmentClaimRule = { years: 2, citation: '28 U.S.C. § 2401(b)' };
+const FEDERAL_SUIT_RULE: PublicEntitySuitRule = {
+  citation: '28 U.S.C. § 2401(b)',
+  afterRejection: { months: 6 },
+};
+
+export function isPublicEntity(defendantType?: DefendantType | null): boolean {
+  return !!defendantType && defendantType !== 'PRIVATE';
+}
+
+/** Statuses where suit has been filed or the claim resolved, so deadlines no longer alert */
+export const DEADLINE_INACTIVE_STATUSES: CaseStatus[] = ['LITIGATION', 'SETTLED', 'CLOSED'];
+
+export function isDeadlineTracked(status: CaseStatus): boolean {
+  return !DEADLINE_INACTIVE_STATUSES.includes(status);
+}
+
+/** Days before a deadline at which alerts escalate */
+export const DEADLINE_ALERT_DAYS = { notice: 180, warning: 90, critical: 30 } as const;
+
+export type DeadlineAlertLevel = 'ok' | 'notice' | 'warning' | 'critical' | 'expired';
+
+export type DeadlineType = 'statute_of_limitations' | 'property_damage' | 'government_claim';
+
+export interface CaseDeadline {
+  type: DeadlineType;
+  label: string;
+  dueDate: string;
+  daysRemaining: number;
+  level: DeadlineAlertLevel;
+  citation: string | null;
+  /** How the date was derived, e.g. tolling during minority */
+  basis: string;
+  /** Entered by hand rather than computed */
+  manual: boolean;
+  /** The required filing has been made, so the deadline no longer alerts */
+  completed: boolean;
+}
+
+export interface StatuteCalculation {
+  deadline: Date;
+  citation: string;
+  basis: string;
+  tolledForMinority: boolean;
+}
+
+interface StatuteInput {
+  incidentDate: Date;
+  jurisdiction: string;
+  incidentType?: string | null;
+  clientDateOfBirth?: Date | null;
+  defendantType?: DefendantType | null;
+  /** Written rejection of the government claim, which starts a shorter suit period in some states */
+  governmentClaimRejectedAt?: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Add a period to a date. A day past the end of the target month is clamped
+ * to its last day (Aug 31 + 6 months is Feb 28, Feb 29 + 1 year is Feb 28)
+ * rather than rolling into the next month, so the deadline is never late.
+ */
+function addPeriod(date: Date, period: LimitationPeriod): Date {
+  const months = date.getUTCMonth() + (period.years || 0) * 12 + (period.months || 0);
+  const year = date.getUTCFullYear() + Math.floor(months / 12);
+  const month = ((months % 12) + 12) % 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  const result = new Date(date);
+  result.setUTCFullYear(year, month, Math.min(date.getUTCDate(), lastDay));
+  result.setUTCDate(result.getUTCDate() + (period.days || 0));
+  return result;
+}
+
+function describePeriod(period: LimitationPeriod): string {
+  const parts = [
+    period.years ? `${period.years} year${period.years !== 1 ? 's' : ''}` : null,
+    period.months ? `${period.months} month${period.months !== 1 ? 's' : ''}` : null,
+    period.days ? `${period.days} day${period.days !== 1 ? 's' : ''}` : null,
+  ].filter(Boolean);
+  return parts.join(' ');
+}
+
+function ruleFor(jurisdiction: string): JurisdictionSolRule | null {
+  return SOL_RULES[jurisdiction.toUpperCase()] || null;
+}
+
+/**
+ * Apply minors' tolling: when the client was a minor on the incident date the
+ * period runs from the date they reach majority instead.
+ */
+function applyTolling(
+  input: StatuteInput,
+  rule: JurisdictionSolRule
+): { start: Date; tolled: boolean; majorityAge: number } {
+  const majorityAge = rule.majorityAge || 18;
+  if (rule.minorTolling === false || !input.clientDateOfBirth) {
+    return { start: input.incidentDate, tolled: false, majorityAge };
+  }
+
+  const majorityDate = addPeriod(input.clientDateOfBirth, { years: majorityAge });
+  if (majorityDate <= input.incidentDate) {
+    return { start: input.incidentDate, tolled: false, majorityAge };
+  }
+  return { start: majorityDate, tolled: true, majorityAge };
+}
+
+function hasPeriod(period: LimitationPeriod): boolean {
+  return !!(period.years || period.months || period.days);
+}
+
+/**
+ * Suit deadline against a public entity: a fixed period after a written claim
+ * rejection where the law provides one, otherwise the public-entity period.
+ * Returns undefined when the ordinary rules apply.
+ */
+function calculatePublicEntitySuit(
+  input: StatuteInput,
+  rule: JurisdictionSolRule | null
+): StatuteCalculation | null | undefined {
+  const suitRule = input.defendantType === 'FEDERAL' ? FEDERAL_SUIT_RULE : rule?.publicEntity;
+  if (!suitRule) return undefined;
+
+  if (suitRule.afterRejection && input.governmentClaimRejectedAt) {
+    return {
+      deadline: addPeriod(input.governmentClaimRejectedAt, suitRule.afterRejection),
+      citation: suitRule.citation,
+      basis: `${describePeriod(suitRule.afterRejection)} from claim rejection (${suitRule.citation})`,
+      tolledForMinority: false,
+    };
+  }
+  // Federal claims have no suit deadline until the agency denies the claim
+  if (!hasPeriod(suitRule)) return null;
+
+  // Minority generally does not toll claims against public entities
+  const notes = ['public entity defendant'];
+  if (suitRule.afterRejection) {
+    notes.push(`${describePeriod(suitRule.afterRejection)} from a written claim rejection`);
+  }
+  if (suitRule.note) notes.push(suitRule.note);
+
+  return {
+    deadline: addPeriod(input.incidentDate, suitRule),
+    citation: suitRule.citation,
+    basis: `${describePeriod(suitRule)} from incident (${suitRule.citation}); ${notes.join('; ')}`,
+    tolledForMinority: false,
+  };
+}
+
+function calculate(
+  input: StatuteInput,
+  claim: 'personalInjury' | 'propertyDamage'
+): StatuteCalculation | null {
+  const rule = ruleFor(input.jurisdiction);
+
+  if (isPublicEntity(input.defendantType)) {
+    const publicEntitySuit = calculatePublicEntitySuit(input, rule);
+    if (publicEntitySuit !== undefined) return publicEntitySuit;
+  }
+  if (!rule) return null;
+
+  const useBefore = rule.before && input.incidentDate < new Date(rule.before.date);
+  let period: LimitationPeriod = useBefore ? rule.before![claim] : rule[claim];
+  let citation = rule.citation;
+  const notes: string[] = [];
+
+  if (claim === 'personalInjury' && input.incidentType === 'auto_accident' && rule.motorVehicle) {
+    period = rule.motorVehicle;
+    citation = rule.motorVehicle.citation;
+  }
+
+  const { start, tolled, majorityAge } = applyTolling(input, rule);
+  if (tolled) {
+    notes.push(`tolled until age ${majorityAge}`);
+  }
+  if (isPublicEntity(input.defendantType)) {
+    notes.push('public entity defendant; verify any shorter suit period');
+  }
+  if (input.incidentType === 'medical_malpractice') {
+    notes.push('medical malpractice claims often have a shorter or discovery-based period; verify');
+  }
+
+  const label = claim === 'personalInjury' ? 'personal injury' : 'property damage';
+  return {
+    deadline: addPeriod(start, period),
+    citation,
+    basis: `${describePeriod(period)} for ${label} from ${tolled ? 'majority' : 'incident'} (${citation})${
+      notes.length ? `; ${notes.join('; ')}` : ''
+    }`,
+    tolledForMinority: tolled,
+  };
+}
+
+/**
+ * Deadline to present a notice of claim to a public entity, or null when the
+ * defendant is private or the jurisdiction has no rule on file.
+ */
+export function calculateGovernmentClaimDeadline(input: StatuteInput): StatuteCalculation | null {
+  if (!isPublicEntity(input.defendantType)) return null;
+
+  const rule =
+    input.defendantType === 'FEDERAL'
+      ? FEDERAL_CLAIM_RULE
+      : GOVERNMENT_CLAIM_RULES[input.jurisdiction.toUpperCase()];
+  if (!rule) return null;
+
+  return {
+    deadline: addPeriod(input.incidentDate, rule),
+    citation: rule.citation,
+    basis: `${describePeriod(rule)} from incident to present the claim (${rule.citation})${
+      rule.note ? `; ${rule.note}` : ''
+    }`,
+    tolledForMinority: false,
+  };
+}
+
+/**
+ * Personal injury statute of limitations for a case, or null when the
+ * jurisdiction has no rule on file.
+ */
+export function calculateStatuteOfLimitations(input: StatuteInput): StatuteCalculation | null {
+  return calculate(input, 'personalInjury');
+}
+
+export function deadlineLevel(daysRemaining: number): DeadlineAlertLevel {
+  if (daysRemaining < 0) return 'expired';
+  if (daysRemaining <= DEADLINE_ALERT_DAYS.critical) return 'critical';
+  if (daysRemaining <= DEADLINE_ALERT_DAYS.warning) return 'warning';
+  if (daysRemaining <= DEADLINE_ALERT_DAYS.notice) return 'notice';
+  return 'ok';
+}
+
+function daysUntil(date: Date, now: Date): number {
+  const startOfToday = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.floor((date.getTime() - startOfToday) / DAY_MS);
+}
+
+function toDeadline(
+  fields: Omit<CaseDeadline, 'dueDate' | 'daysRemaining' | 'level' | 'manual' | 'completed'> &
+    Partial<Pick<CaseDeadline, 'manual' | 'completed'>> & { dueDate: Date },
+  now: Date
+): CaseDeadline {
+  const daysRemaining = daysUntil(fields.dueDate, now);
+  const completed = fields.completed ?? false;
+  return {
+    ...fields,
+    dueDate: fields.dueDate.toISOString().split('T')[0],
+    daysRemaining,
+    level: completed ? 'ok' : deadlineLevel(daysRemaining),
+    manual: fields.manual ?? false,
+    completed,
+  };
+}
+
+export interface DeadlineCaseFields {
+  incidentDate: Date;
+  incidentType: string;
+  jurisdiction: string;
+  clientDateOfBirth: Date | null;
+  defendantType: DefendantType;
+  statuteOfLimitations: Date | null;
+  statuteOfLimitationsManual: boolean;
+  governmentClaimFiledAt: Date | null;
+  governmentClaimRejectedAt: Date | null;
+}
+
+export type StatuteCaseFields = Omit<
+  DeadlineCaseFields,
+  'statuteOfLimitations' | 'statuteOfLimitationsManual' | 'governmentClaimFiledAt'
+>;
+
+export function statuteInputFor(caseData: StatuteCaseFields): StatuteInput {
+  return {
+    incidentDate: caseData.incidentDate,
+    jurisdiction: caseData.jurisdiction,
+    incidentType: caseData.incidentType,
+    clientDateOfBirth: caseData.clientDateOfBirth,
+    defendantType: caseData.defendantType,
+    governmentClaimRejectedAt: caseData.governmentClaimRejectedAt,
+  };
+}
+
+/**
+ * All filing deadlines for a case, soonest first.
+ */
+export function getCaseDeadlines(caseData: DeadlineCaseFields, now: Date = new Date()): CaseDeadline[] {
+  const deadlines: CaseDeadline[] = [];
+  const input = statuteInputFor(caseData);
+
+  const governmentClaim = calculateGovernmentClaimDeadline(input);
+  if (governmentClaim) {
+    const filedAt = caseData.governmentClaimFiledAt;
+    deadlines.push(
+      toDeadline(
+        {
+          type: 'government_claim',
+          label: 'Government Claim',
+          dueDate: governmentClaim.deadline,
+          citation: governmentClaim.citation,
+          basis: filedAt ? `Claim filed ${filedAt.toISOString().split('T')[0]}` : governmentClaim.basis,
+          completed: !!filedAt,
+        },
+        now
+      )
+    );
+  }
+
+  const computed = calculateStatuteOfLimitations(input);
+  if (caseData.statuteOfLimitations && caseData.statuteOfLimitationsManual) {
+    deadlines.push(
+      toDeadline(
+        {
+          type: 'statute_of_limitations',
+          label: 'Statute of Limitations',
+          dueDate: caseData.statuteOfLimitations,
+          citation: computed?.citation || null,
+          basis: 'Entered manually',
+          manual: true,
+        },
+        now
+      )
+    );
+  } else if (computed) {
+    deadlines.push(
+      toDeadline(
+        {
+          type: 'statute_of_limitations',
+          label: 'Statute of Limitations',
+          dueDate: computed.deadline,
+          citation: computed.citation,
+          basis: computed.basis,
+        },
+        now
+      )
+    );
+  }
+
+  // Public-entity suit periods already cover property damage
+  if (caseData.incidentType === 'auto_accident' && !isPublicEntity(caseData.defendantType)) {
+    const property = calculate(input, 'propertyDamage');
+    if (property) {
+      deadlines.push(
+        toDeadline(
+          {
+            type: 'property_damage',
+            label: 'Property Damage SOL',
+            dueDate: property.deadline,
+            citation: property.citation,
+            basis: property.basis,
+          },
+          now
+        )
+      );
+    }
+  }
+
+  return deadlines.sort((a, b) => a.daysRemaining - b.daysRemaining);
+}
+
+const WARNING_SEVERITY: Partial<Record<DeadlineAlertLevel, 'critical' | 'moderate' | 'minor'>> = {
+  expired: 'critical',
+  critical: 'critical',
+  warning: 'moderate',
+  notice: 'minor',
+};
+
+/**
+ * Attorney warnings for deadlines inside the 180/90/30-day alert windows, in
+ * the same shape as generated-document warnings. Public-entity cases without
+ * a notice-of-claim rule on file get a standing warning to verify one.
+ */
+export function deadlineWarnings(deadlines: CaseDeadline[], caseData?: DeadlineCaseFields) {
+  const warnings = deadlines
+    .filter((deadline) => !deadline.completed && WARNING_SEVERITY[deadline.level])
+    .map((deadline) => ({
+      severity: WARNING_SEVERITY[deadline.level]!,
+      category: 'statute',
+      message:
+        deadline.level === 'expired'
+          ? `${deadline.label} passed on ${deadline.dueDate} (${-deadline.daysRemaining} days ago)`
+          : `${deadline.label} expires ${deadline.dueDate} (${deadline.daysRemaining} days remaining)`,
+      recommendation:
+        deadline.type === 'government_claim'
+          ? deadline.level === 'expired'
+            ? 'Check whether a late-claim application is available.'
+            : 'Present the notice of claim to the public entity before the deadline.'
+          : deadline.level === 'expired'
+            ? 'Confirm whether any tolling or exception applies before further work on this claim.'
+            : deadline.level === 'critical'
+              ? 'File suit or obtain a tolling agreement immediately.'
+              : 'Calendar the deadline and plan to file if the claim has not settled.',
+    }));
+
+  if (
+    caseData &&
+    isPublicEntity(caseData.defendantType) &&
+    !caseData.governmentClaimFiledAt &&
+    !deadlines.some((deadline) => deadline.type === 'government_claim')
+  ) {
+    warnings.unshift({
+      severity: 'moderate',
+      category: 'statute',
+      message: `No notice-of-claim rule on file for ${caseData.jurisdiction}; the public entity may require a pre-suit claim`,
+      recommendation: 'Check state and local claim-presentation requirements and enter the deadline manually.',
+    });
+  }
+
+  return warnings;
+}
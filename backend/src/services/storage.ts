@@ -1,99 +1,123 @@
-import {
-  S3Client,
-  PutObjectCommand,
-  DeleteObjectCommand,
-  GetObjectCommand,
-} from '@aws-sdk/client-s3';
-import { getSignedUrl as getS3SignedUrl } from '@aws-sdk/s3-request-presigner';
+import { ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { logger } from '../utils/logger.js';
+import { createS3StorageProvider } from './s3StorageProvider.js';
+import { createLocalStorageProvider } from './localStorageProvider.js';
 
-const s3Client = new S3Client({
-  region: process.env.AWS_REGION || 'us-west-2',
-  credentials: {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-  },
-});
+export interface StoredObjectStream {
+  body: Readable;
+  contentType: string | null;
+  contentLength: number | null;
+}
+
+/**
+ * Where uploaded documents, logos and generated files live. Keys are
+ * firm-scoped paths like `<firmId>/<caseId>/<uuid>-<filename>`.
+ */
+export interface StorageProvider {
+  readonly name: 's3' | 'local';
+  /** Store an object and return its canonical (unsigned) URL */
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  get(key: string): Promise<Buffer>;
+  stream(key: string): Promise<StoredObjectStream>;
+  delete(key: string): Promise<void>;
+  /** Time-limited URL a browser can open without further credentials */
+  signedUrl(key: string, expiresIn: number): Promise<string>;
+  /** The key behind a URL returned by put, or null if it isn't one of ours */
+  keyFromUrl(url: string): string | null;
+}
 
-const BUCKET_NAME = process.env.AWS_S3_BUCKET || 'demand-letter-docs';
+export type StorageDriver = StorageProvider['name'];
 
-export async function uploadToS3(
-  buffer: Buffer,
-  key: string,
-  contentType: string
-): Promise<string> {
-  try {
-    await s3Client.send(
-      new PutObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-        Body: buffer,
-        ContentType: contentType,
-      })
-    );
+export function getStorageDriver(): StorageDriver {
+  const driver = (process.env.STORAGE_DRIVER || 's3').toLowerCase();
+  if (driver !== 's3' && driver !== 'local') {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "s3" or "local")`);
+  }
+  return driver;
+}
 
-    const url = `https://${BUCKET_NAME}.s3.${process.env.AWS_REGION || 'us-west-2'}.amazonaws.com/${key}`;
-    logger.info(`File uploaded to S3: ${key}`);
+let provider: StorageProvider | null = null;
+
+export function getStorage(): StorageProvider {
+  if (!provider) {
+    provider = getStorageDriver() === 'local' ? createLocalStorageProvider() : createS3StorageProvider();
+    logger.info(`Storage driver: ${provider.name}`);
+  }
+  return provider;
+}
+
+export async function putFile(buffer: Buffer, key: string, contentType: string): Promise<string> {
+  try {
+    const url = await getStorage().put(key, buffer, contentType);
+    logger.info(`File stored: ${key}`);
     return url;
   } catch (error) {
-    logger.error('S3 upload error:', error);
+    logger.error('Storage upload error:', error);
     throw new Error('Failed to upload file to storage');
   }
 }
 
-export async function deleteFromS3(key: string): Promise<void> {
+export async function deleteFile(key: string): Promise<void> {
   try {
-    await s3Client.send(
-      new DeleteObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-      })
-    );
-    logger.info(`File deleted from S3: ${key}`);
+    await getStorage().delete(key);
+    logger.info(`File deleted from storage: ${key}`);
   } catch (error) {
-    logger.error('S3 delete error:', error);
+    logger.error('Storage delete error:', error);
     throw new Error('Failed to delete file from storage');
   }
 }
 
 export async function getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
   try {
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
-
-    const url = await getS3SignedUrl(s3Client, command, { expiresIn });
-    return url;
+    return await getStorage().signedUrl(key, expiresIn);
   } catch (error) {
-    logger.error('S3 signed URL error:', error);
+    logger.error('Storage signed URL error:', error);
     throw new Error('Failed to generate download URL');
   }
 }
 
-export async function getFileFromS3(key: string): Promise<Buffer> {
+/** Read a whole object into memory, for parsers that need random access */
+export async function getFile(key: string): Promise<Buffer> {
   try {
-    const response = await s3Client.send(
-      new GetObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-      })
-    );
-
-    const stream = response.Body;
-    if (!stream) {
-      throw new Error('Empty response from S3');
-    }
+    return await getStorage().get(key);
+  } catch (error) {
+    logger.error('Storage get file error:', error);
+    throw new Error('Failed to retrieve file from storage');
+  }
+}
 
-    // Convert stream to buffer
-    const chunks: Uint8Array[] = [];
-    // @ts-expect-error - ReadableStream typing
-    for await (const chunk of stream) {
-      chunks.push(chunk);
-    }
-    return Buffer.concat(chunks);
+/** Open an object for streaming, e.g. straight into an HTTP response */
+export async function getFileStream(key: string): Promise<StoredObjectStream> {
+  try {
+    return await getStorage().stream(key);
   } catch (error) {
-    logger.error('S3 get file error:', error);
+    logger.error('Storage stream error:', error);
     throw new Error('Failed to retrieve file from storage');
   }
 }
+
+export function storageKeyFromUrl(url: string): string | null {
+  return getStorage().keyFromUrl(url);
+}
+
+/**
+ * Stream an object into an HTTP response. Content-Type and Content-Length
+ * come from storage unless the caller already set them.
+ */
+export async function pipeToResponse(object: StoredObjectStream, res: ServerResponse): Promise<void> {
+  if (object.contentType && !res.getHeader('Content-Type')) {
+    res.setHeader('Content-Type', object.contentType);
+  }
+  if (object.contentLength !== null) {
+    res.setHeader('Content-Length', object.contentLength);
+  }
+
+  try {
+    await pipeline(object.body, res);
+  } catch (error) {
+    // Usually the client going away mid-download; headers are already sent
+    logger.warn(`Storage stream interrupted: ${error instanceof Error ? error.message : error}`);
+  }
+}
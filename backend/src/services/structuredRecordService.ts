@@ -0,0 +1,1218 @@
+import path from 'path';
+import type { ExtractedMedicalEvent } from './medicalEventService.js';
+import { decodeXml, parseXml, XmlElement, xmlChildren, xmlFind, xmlFindAll, xmlText } from '../utils/xml.js';
+
+export type StructuredRecordFormat = 'CCDA' | 'FHIR';
+
+/** Type each format is stored under, whatever the browser sent */
+export const STRUCTURED_RECORD_MIME_TYPES: Record<StructuredRecordFormat, string> = {
+  CCDA: 'application/xml',
+  FHIR: 'application/fhir+json',
+};
+
+export const STRUCTURED_RECORD_LABELS: Record<StructuredRecordFormat, string> = {
+  CCDA: 'C-CDA',
+  FHIR: 'FHIR',
+};
+
+const STRUCTURED_RECORD_EXTENSIONS = new Set(['.xml', '.json']);
+const STRUCTURED_RECORD_UPLOAD_TYPES = new Set(['application/xml', 'text/xml', 'application/json', 'application/fhir+json']);
+
+// How far into a file to look for the C-CDA root or a FHIR resourceType
+const SNIFF_LENGTH = 64 * 1024;
+
+export interface StructuredRecordPatient {
+  name: string | null;
+  dateOfBirth: string | null;
+  medicalRecordNumber: string | null;
+}
+
+export interface StructuredRecord {
+  format: StructuredRecordFormat;
+  title: string | null;
+  documentDate: string | null;
+  /** The organization that produced the record */
+  providerName: string | null;
+  patient: StructuredRecordPatient | null;
+  /** One event per encounter, plus one per date for entries outside any encounter */
+  events: ExtractedMedicalEvent[];
+  /** Readable rendering of the record, stored as the document's text */
+  text: string;
+}
+
+export class StructuredRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuredRecordError';
+  }
+}
+
+export function isStructuredRecordFile(filename: string, mimeType?: string): boolean {
+  return (
+    STRUCTURED_RECORD_EXTENSIONS.has(path.extname(filename).toLowerCase()) ||
+    (!!mimeType && STRUCTURED_RECORD_UPLOAD_TYPES.has(mimeType))
+  );
+}
+
+export function structuredRecordFormatForMimeType(mimeType: string): StructuredRecordFormat | null {
+  const entry = Object.entries(STRUCTURED_RECORD_MIME_TYPES).find(([, type]) => type === mimeType);
+  return entry ? (entry[0] as StructuredRecordFormat) : null;
+}
+
+/**
+ * Whether a file is a C-CDA document or FHIR JSON, from its opening bytes.
+ * Other XML and JSON (export manifests, stylesheets' companions) is null.
+ */
+export function detectStructuredRecord(buffer: Buffer): StructuredRecordFormat | null {
+  const head = decodeXml(buffer.subarray(0, SNIFF_LENGTH)).replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('<') && /<([\w.-]+:)?ClinicalDocument[\s>]/.test(head)) return 'CCDA';
+  if (head.startsWith('{') && /"resourceType"\s*:\s*"[A-Z][A-Za-z]+"/.test(head)) return 'FHIR';
+  return null;
+}
+
+/**
+ * Map a C-CDA document or FHIR resource (usually a Bundle) to medical events
+ * without a model call. Encounters become events; problems, procedures,
+ * medications, vital signs and results join their encounter, or an event for
+ * their date when the record doesn't link them to one.
+ */
+export function parseStructuredRecord(buffer: Buffer, format?: StructuredRecordFormat): StructuredRecord {
+  const detected = format ?? detectStructuredRecord(buffer);
+  if (!detected) {
+    throw new StructuredRecordError('Not a C-CDA document or FHIR resource');
+  }
+
+  let parsed: ParsedRecord;
+  try {
+    parsed = detected === 'CCDA' ? parseCcda(buffer) : parseFhir(buffer);
+  } catch (error) {
+    if (error instanceof StructuredRecordError) throw error;
+    throw new StructuredRecordError(
+      `Could not read the ${STRUCTURED_RECORD_LABELS[detected]} record: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const { sections, ...record } = parsed;
+  return { ...record, text: renderRecordText(record, sections) };
+}
+
+/**
+ * The document's extracted data, in the shape the medical records extraction
+ * produces so the case timeline reads it the same way.
+ */
+export function structuredRecordData(record: StructuredRecord): Record<string, unknown> {
+  return {
+    format: STRUCTURED_RECORD_LABELS[record.format],
+    title: record.title,
+    patient: record.patient,
+    visits: record.events.map((event) => ({
+      date: event.date_of_service,
+      providerName: event.provider_name ?? null,
+      facilityName: event.facility_name ?? null,
+      visitType: event.document_type ?? event.provider_type ?? null,
+      chiefComplaint: event.chief_complaint ?? null,
+      diagnoses: (event.diagnoses ?? []).map((diagnosis) => ({
+        icd10Code: diagnosis.icd_code ?? null,
+        description: diagnosis.diagnosis_name,
+      })),
+      procedures: (event.treatments_procedures ?? []).map((procedure) => ({ cptCode: null, description: procedure })),
+      objectiveFindings: event.objective_findings ?? null,
+      subjectiveComplaints: event.subjective_findings ?? null,
+      medicationsPrescribed: (event.medications ?? []).map((medication) => medication.medication_name),
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Events shared by both formats
+// ---------------------------------------------------------------------------
+
+interface RecordSection {
+  title: string;
+  text: string;
+}
+
+type ParsedRecord = Omit<StructuredRecord, 'text'> & {
+  /** Narrative sections rendered after the events */
+  sections: RecordSection[];
+};
+
+interface EventGroups {
+  events: ExtractedMedicalEvent[];
+  /** Blood pressure arrives as separate systolic and diastolic readings */
+  bloodPressure: Map<ExtractedMedicalEvent, { systolic?: string; diastolic?: string }>;
+}
+
+interface RecordedObservation {
+  /** LOINC code, when the observation has one */
+  loinc: string | null;
+  name: string;
+  value: string | null;
+  unit: string | null;
+  interpretation: string | null;
+  /** Panel the result was reported in, such as "CBC" */
+  panel: string | null;
+}
+
+const ICD10_SYSTEMS = new Set([
+  '2.16.840.1.113883.6.90',
+  '2.16.840.1.113883.6.3',
+  'http://hl7.org/fhir/sid/icd-10-cm',
+  'http://hl7.org/fhir/sid/icd-10',
+]);
+const CPT_SYSTEMS = new Set(['2.16.840.1.113883.6.12', 'http://www.ama-assn.org/go/cpt']);
+const LOINC_SYSTEMS = new Set(['2.16.840.1.113883.6.1', 'http://loinc.org']);
+
+const SYSTOLIC = '8480-6';
+const DIASTOLIC = '8462-4';
+const BLOOD_PRESSURE_PANELS = new Set(['85354-9', '55284-4', '35094-2']);
+const VITAL_SIGN_FIELDS: Record<string, 'heart_rate' | 'temperature' | 'pain_score'> = {
+  '8867-4': 'heart_rate',
+  '8310-5': 'temperature',
+  '8331-1': 'temperature',
+  '72514-3': 'pain_score',
+  '38208-5': 'pain_score',
+};
+
+const UNIT_LABELS: Record<string, string> = { Cel: '°C', '[degF]': '°F', '1': '', '{score}': '' };
+
+const INTERPRETATIONS: Record<string, string> = {
+  H: 'high',
+  HH: 'critically high',
+  HU: 'very high',
+  L: 'low',
+  LL: 'critically low',
+  LU: 'very low',
+  A: 'abnormal',
+  AA: 'critically abnormal',
+  POS: 'positive',
+};
+
+// Encounter classes (HL7 v3 ActCode) and then type descriptions, checked in order
+const ENCOUNTER_CLASS_PROVIDER_TYPES: Record<string, string> = {
+  EMER: 'Emergency Room',
+  IMP: 'Hospital',
+  ACUTE: 'Hospital',
+  NONAC: 'Hospital',
+  OBSENC: 'Hospital',
+  SS: 'Hospital',
+};
+const PROVIDER_TYPE_PATTERNS: Array<[RegExp, string]> = [
+  [/emergency/i, 'Emergency Room'],
+  [/\b(ED|ER)\b/, 'Emergency Room'],
+  [/urgent care/i, 'Urgent Care'],
+  [/physical therap|rehabilitation|\bPT (eval|visit|session)/i, 'Physical Therapy'],
+  [/chiropract/i, 'Chiropractor'],
+  [/radiology|imaging|\bMRI\b|\bCT\b|x-?ray|ultrasound/i, 'Imaging Center'],
+  [/surgery center|ambulatory surg/i, 'Surgery Center'],
+  [/inpatient|hospital|admission/i, 'Hospital'],
+  [/primary care|family (medicine|practice)|internal medicine|general practice|annual|wellness/i, 'Primary Care'],
+  [/orthop|neurolog|neurosurg|pain (management|medicine)|consult|specialist/i, 'Specialist'],
+];
+
+function providerTypeFor(description: string | null, classCode: string | null): string | undefined {
+  if (classCode && ENCOUNTER_CLASS_PROVIDER_TYPES[classCode]) return ENCOUNTER_CLASS_PROVIDER_TYPES[classCode];
+  if (!description) return undefined;
+  return PROVIDER_TYPE_PATTERNS.find(([pattern]) => pattern.test(description))?.[1];
+}
+
+/** YYYY-MM-DD from a FHIR date/dateTime or an HL7 v3 timestamp; partial dates are null */
+function isoDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(value.trim());
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return Number.isNaN(Date.parse(date)) ? null : date;
+}
+
+function formatQuantity(value: string | number | null | undefined, unit: string | null | undefined): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const label = unit ? (UNIT_LABELS[unit] ?? unit) : '';
+  return label ? `${value} ${label}` : String(value);
+}
+
+/** The event for a date: the first encounter that day, or one for entries outside encounters */
+function eventOn(groups: EventGroups, date: string, documentType: string): ExtractedMedicalEvent {
+  const existing = groups.events.find((event) => event.date_of_service === date);
+  if (existing) return existing;
+  const event: ExtractedMedicalEvent = { date_of_service: date, document_type: documentType };
+  groups.events.push(event);
+  return event;
+}
+
+function addDiagnosis(event: ExtractedMedicalEvent, name: string, icdCode: string | null, bodyPart: string | null) {
+  event.diagnoses ??= [];
+  const key = (icdCode ?? name).toLowerCase();
+  if (event.diagnoses.some((diagnosis) => (diagnosis.icd_code ?? diagnosis.diagnosis_name).toLowerCase() === key)) {
+    return;
+  }
+  event.diagnoses.push({
+    diagnosis_name: name,
+    ...(icdCode && { icd_code: icdCode }),
+    ...(bodyPart && { body_part: bodyPart }),
+  });
+}
+
+function addProcedure(event: ExtractedMedicalEvent, name: string, cptCode: string | null) {
+  const entry = cptCode ? `${name} (CPT ${cptCode})` : name;
+  event.treatments_procedures ??= [];
+  if (!event.treatments_procedures.includes(entry)) event.treatments_procedures.push(entry);
+}
+
+function addMedication(
+  event: ExtractedMedicalEvent,
+  medication: { medication_name: string; dosage?: string; frequency?: string; purpose?: string }
+) {
+  event.medications ??= [];
+  const name = medication.medication_name.toLowerCase();
+  if (!event.medications.some((existing) => existing.medication_name.toLowerCase() === name)) {
+    event.medications.push(medication);
+  }
+}
+
+function appendText(event: ExtractedMedicalEvent, field: 'objective_findings' | 'subjective_findings' | 'assessment' | 'plan', text: string) {
+  const current = event[field];
+  if (current?.split('\n').includes(text)) return;
+  event[field] = current ? `${current}\n${text}` : text;
+}
+
+/** Vital signs fill the event's vitals; anything else is listed with the findings */
+function addObservation(groups: EventGroups, event: ExtractedMedicalEvent, observation: RecordedObservation) {
+  if (observation.loinc === SYSTOLIC || observation.loinc === DIASTOLIC) {
+    if (!observation.value) return;
+    const reading = groups.bloodPressure.get(event) ?? {};
+    reading[observation.loinc === SYSTOLIC ? 'systolic' : 'diastolic'] = observation.value;
+    groups.bloodPressure.set(event, reading);
+    return;
+  }
+
+  const vitalField = observation.loinc ? VITAL_SIGN_FIELDS[observation.loinc] : undefined;
+  if (vitalField && observation.value) {
+    event.vital_signs ??= {};
+    if (vitalField === 'pain_score') {
+      const score = parseFloat(observation.value);
+      if (Number.isFinite(score)) event.vital_signs.pain_score = score;
+    } else if (vitalField === 'temperature') {
+      event.vital_signs.temperature = formatQuantity(observation.value, observation.unit) ?? undefined;
+    } else {
+      event.vital_signs.heart_rate = observation.value;
+    }
+    return;
+  }
+
+  const value = formatQuantity(observation.value, observation.unit);
+  if (!value) return;
+  const line = [
+    observation.panel && observation.panel !== observation.name ? `${observation.panel}: ` : '',
+    `${observation.name} ${value}`,
+    observation.interpretation ? ` (${observation.interpretation})` : '',
+  ].join('');
+  appendText(event, 'objective_findings', line);
+}
+
+function finishEvents(groups: EventGroups): ExtractedMedicalEvent[] {
+  for (const [event, reading] of groups.bloodPressure) {
+    if (reading.systolic && reading.diastolic) {
+      event.vital_signs = { ...event.vital_signs, blood_pressure: `${reading.systolic}/${reading.diastolic}` };
+    }
+  }
+  return [...groups.events].sort((a, b) => a.date_of_service.localeCompare(b.date_of_service));
+}
+
+// ---------------------------------------------------------------------------
+// C-CDA
+// ---------------------------------------------------------------------------
+
+type CcdaSectionKind =
+  | 'encounters'
+  | 'problems'
+  | 'procedures'
+  | 'medications'
+  | 'vitalSigns'
+  | 'results'
+  | 'chiefComplaint'
+  | 'history'
+  | 'exam'
+  | 'assessment'
+  | 'plan';
+
+// Sections by their LOINC code
+const CCDA_SECTION_KINDS: Record<string, CcdaSectionKind> = {
+  '46240-8': 'encounters',
+  '11450-4': 'problems',
+  '11535-2': 'problems', // Hospital discharge diagnosis
+  '46241-6': 'problems', // Hospital admission diagnosis
+  '29548-5': 'problems', // Diagnosis
+  '47519-4': 'procedures',
+  '10160-0': 'medications',
+  '29549-3': 'medications', // Medications administered
+  '10183-2': 'medications', // Hospital discharge medications
+  '42346-7': 'medications', // Admission medications
+  '8716-3': 'vitalSigns',
+  '30954-2': 'results',
+  '10154-3': 'chiefComplaint',
+  '29299-5': 'chiefComplaint', // Reason for visit
+  '46239-0': 'chiefComplaint', // Chief complaint and reason for visit
+  '10164-2': 'history',
+  '29545-1': 'exam',
+  '51848-0': 'assessment',
+  '51847-2': 'assessment', // Assessment and plan
+  '18776-5': 'plan',
+};
+
+const PIVL_UNITS: Record<string, string> = { min: 'minutes', h: 'hours', d: 'days', wk: 'weeks', mo: 'months' };
+
+
+interface CcdaContext {
+  /** Narrative text by ID, for codes whose name is a reference into the section text */
+  narrative: Map<string, string>;
+  groups: EventGroups;
+  /** Where undated entries go: the document's encounter, or its date */
+  fallbackDate: string | null;
+}
+
+function collectNarrative(element: XmlElement, narrative: Map<string, string>) {
+  if (element.attributes.ID) narrative.set(element.attributes.ID, xmlText(element));
+  for (const child of xmlChildren(element)) collectNarrative(child, narrative);
+}
+
+function isNegated(element: XmlElement): boolean {
+  return element.attributes.negationInd === 'true';
+}
+
+function ccdaDate(effectiveTime: XmlElement | null): string | null {
+  if (!effectiveTime) return null;
+  return (
+    isoDate(effectiveTime.attributes.value) ??
+    isoDate(xmlFind(effectiveTime, 'low')?.attributes.value) ??
+    isoDate(xmlFind(effectiveTime, 'center')?.attributes.value)
+  );
+}
+
+function ccdaOriginalText(element: XmlElement | null, context: CcdaContext): string | null {
+  const originalText = xmlFind(element, 'originalText');
+  if (!originalText) return null;
+  const reference = xmlFind(originalText, 'reference')?.attributes.value;
+  if (reference?.startsWith('#')) {
+    const text = context.narrative.get(reference.slice(1));
+    if (text) return text;
+  }
+  return xmlText(originalText) || null;
+}
+
+function ccdaCodeName(code: XmlElement | null, context: CcdaContext): string | null {
+  if (!code) return null;
+  return (
+    code.attributes.displayName?.trim() ||
+    ccdaOriginalText(code, context) ||
+    xmlChildren(code, 'translation')
+      .map((translation) => translation.attributes.displayName?.trim())
+      .find(Boolean) ||
+    null
+  );
+}
+
+function ccdaCodeIn(code: XmlElement | null, systems: Set<string>): string | null {
+  if (!code) return null;
+  const match = [code, ...xmlChildren(code, 'translation')].find(
+    (candidate) => systems.has(candidate.attributes.codeSystem) && candidate.attributes.code
+  );
+  return match?.attributes.code ?? null;
+}
+
+function ccdaPersonName(name: XmlElement | null): string | null {
+  if (!name) return null;
+  const parts = xmlChildren(name);
+  if (parts.length === 0) return xmlText(name) || null;
+  const byPart = (part: string) => parts.filter((child) => child.name === part).map((child) => xmlText(child));
+  const full = [...byPart('prefix'), ...byPart('given'), ...byPart('family')].join(' ');
+  const suffix = byPart('suffix').join(' ');
+  return (suffix ? `${full}, ${suffix}` : full).trim() || null;
+}
+
+function ccdaAssignedName(assignedEntity: XmlElement | null): string | null {
+  return (
+    ccdaPersonName(xmlFind(assignedEntity, 'assignedPerson/name')) ??
+    (xmlText(xmlFind(assignedEntity, 'representedOrganization/name')) || null)
+  );
+}
+
+function ccdaValue(observation: XmlElement, context: CcdaContext): { value: string | null; unit: string | null } {
+  const value = xmlFind(observation, 'value');
+  if (!value) return { value: null, unit: null };
+  if (value.attributes.value !== undefined) {
+    return { value: value.attributes.value, unit: value.attributes.unit ?? null };
+  }
+  return { value: ccdaCodeName(value, context) ?? (xmlText(value) || null), unit: null };
+}
+
+function ccdaObservation(observation: XmlElement, panel: string | null, context: CcdaContext): RecordedObservation | null {
+  const code = xmlFind(observation, 'code');
+  const name = ccdaCodeName(code, context);
+  if (!name) return null;
+  const { value, unit } = ccdaValue(observation, context);
+  const interpretation = xmlFind(observation, 'interpretationCode')?.attributes.code;
+  return {
+    loinc: ccdaCodeIn(code, LOINC_SYSTEMS),
+    name,
+    value,
+    unit,
+    interpretation: interpretation ? (INTERPRETATIONS[interpretation] ?? null) : null,
+    panel,
+  };
+}
+
+/** Every clinical statement in an entry, entryRelationships and organizer components included */
+function ccdaStatements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const walk = (node: XmlElement) => {
+    for (const child of xmlChildren(node)) {
+      if (child.name === name) found.push(child);
+      walk(child);
+    }
+  };
+  walk(element);
+  return found;
+}
+
+function ccdaProblem(
+  observation: XmlElement,
+  context: CcdaContext
+): { name: string; icdCode: string | null; bodyPart: string | null; date: string | null } | null {
+  if (isNegated(observation)) return null;
+  const value = xmlFind(observation, 'value');
+  const name = ccdaCodeName(value, context) ?? ccdaOriginalText(observation, context);
+  if (!name) return null;
+  return {
+    name,
+    icdCode: ccdaCodeIn(value, ICD10_SYSTEMS),
+    bodyPart: ccdaCodeName(xmlFind(observation, 'targetSiteCode'), context),
+    date: ccdaDate(xmlFind(observation, 'effectiveTime')),
+  };
+}
+
+function ccdaEncounterEvent(encounter: XmlElement, context: CcdaContext, documentType?: string | null) {
+  const date = ccdaDate(xmlFind(encounter, 'effectiveTime'));
+  if (!date) return null;
+
+  const code = xmlFind(encounter, 'code');
+  const description = ccdaCodeName(code, context);
+  const event: ExtractedMedicalEvent = {
+    date_of_service: date,
+    provider_name:
+      ccdaAssignedName(xmlFind(encounter, 'performer/assignedEntity')) ??
+      ccdaAssignedName(xmlFind(encounter, 'encounterParticipant/assignedEntity')) ??
+      ccdaAssignedName(xmlFind(encounter, 'responsibleParty/assignedEntity')) ??
+      undefined,
+    provider_type: providerTypeFor(description, code?.attributes.code ?? null),
+    facility_name:
+      (xmlText(xmlFind(encounter, 'participant/participantRole/playingEntity/name')) ||
+        xmlText(xmlFind(encounter, 'location/healthCareFacility/serviceProviderOrganization/name')) ||
+        xmlText(xmlFind(encounter, 'location/healthCareFacility/location/name'))) ||
+      undefined,
+    document_type: documentType ?? description ?? 'Encounter',
+  };
+  context.groups.events.push(event);
+
+  // Reasons for the visit and diagnoses recorded with it
+  for (const relationship of xmlChildren(encounter, 'entryRelationship')) {
+    for (const observation of ccdaStatements(relationship, 'observation')) {
+      if (relationship.attributes.typeCode === 'RSON') {
+        const reason = ccdaCodeName(xmlFind(observation, 'value'), context);
+        if (reason && !isNegated(observation)) {
+          event.chief_complaint = event.chief_complaint ? `${event.chief_complaint}; ${reason}` : reason;
+        }
+        continue;
+      }
+      const problem = ccdaProblem(observation, context);
+      if (problem) addDiagnosis(event, problem.name, problem.icdCode, problem.bodyPart);
+    }
+  }
+  return event;
+}
+
+function ccdaEventFor(context: CcdaContext, date: string | null, documentType: string): ExtractedMedicalEvent | null {
+  const eventDate = date ?? context.fallbackDate;
+  return eventDate ? eventOn(context.groups, eventDate, documentType) : null;
+}
+
+function ccdaMedication(substanceAdministration: XmlElement, context: CcdaContext) {
+  if (isNegated(substanceAdministration)) return;
+  const material = xmlFind(substanceAdministration, 'consumable/manufacturedProduct/manufacturedMaterial');
+  const name = ccdaCodeName(xmlFind(material, 'code'), context) ?? (xmlText(xmlFind(material, 'name')) || null);
+  if (!name) return;
+
+  let date: string | null = null;
+  let frequency: string | undefined;
+  for (const effectiveTime of xmlChildren(substanceAdministration, 'effectiveTime')) {
+    if ((effectiveTime.attributes['xsi:type'] ?? '').includes('PIVL')) {
+      const period = xmlFind(effectiveTime, 'period');
+      if (period?.attributes.value) {
+        frequency = `every ${period.attributes.value} ${PIVL_UNITS[period.attributes.unit] ?? period.attributes.unit ?? ''}`.trim();
+      }
+    } else {
+      date ??= ccdaDate(effectiveTime);
+    }
+  }
+
+  const dose = xmlFind(substanceAdministration, 'doseQuantity');
+  const route = ccdaCodeName(xmlFind(substanceAdministration, 'routeCode'), context);
+  const dosage = [formatQuantity(dose?.attributes.value, dose?.attributes.unit), route].filter(Boolean).join(' ');
+  const indication = xmlChildren(substanceAdministration, 'entryRelationship')
+    .filter((relationship) => relationship.attributes.typeCode === 'RSON')
+    .map((relationship) => ccdaCodeName(xmlFind(relationship, 'observation/value'), context))
+    .find(Boolean);
+
+  const event = ccdaEventFor(context, date, 'Medication List');
+  if (!event) return;
+  addMedication(event, {
+    medication_name: name,
+    ...(dosage && { dosage }),
+    ...(frequency && { frequency }),
+    ...(indication && { purpose: indication }),
+  });
+}
+
+function ccdaSectionEntries(section: XmlElement, kind: CcdaSectionKind, context: CcdaContext) {
+  for (const entry of xmlChildren(section, 'entry')) {
+    const statement = xmlChildren(entry)[0];
+    if (!statement) continue;
+
+    switch (kind) {
+      case 'encounters':
+        if (statement.name === 'encounter' && !isNegated(statement)) ccdaEncounterEvent(statement, context);
+        break;
+
+      case 'problems':
+        for (const observation of statement.name === 'observation' ? [statement] : ccdaStatements(statement, 'observation')) {
+          const problem = ccdaProblem(observation, context);
+          if (!problem) continue;
+          // A concern's own dates cover an observation that has none
+          const date = problem.date ?? ccdaDate(xmlFind(statement, 'effectiveTime'));
+          const event = ccdaEventFor(context, date, 'Problem List');
+          if (event) addDiagnosis(event, problem.name, problem.icdCode, problem.bodyPart);
+        }
+        break;
+
+      case 'procedures': {
+        if (isNegated(statement)) break;
+        const code = xmlFind(statement, 'code');
+        const name = ccdaCodeName(code, context);
+        const event = name && ccdaEventFor(context, ccdaDate(xmlFind(statement, 'effectiveTime')), 'Procedure Note');
+        if (event) addProcedure(event, name, ccdaCodeIn(code, CPT_SYSTEMS));
+        break;
+      }
+
+      case 'medications':
+        if (statement.name === 'substanceAdministration') ccdaMedication(statement, context);
+        break;
+
+      case 'vitalSigns':
+      case 'results': {
+        const panel = statement.name === 'organizer' ? ccdaCodeName(xmlFind(statement, 'code'), context) : null;
+        const panelDate = ccdaDate(xmlFind(statement, 'effectiveTime'));
+        const observations = statement.name === 'observation' ? [statement] : xmlFindAll(statement, 'component/observation');
+        for (const observation of observations) {
+          if (isNegated(observation)) continue;
+          const recorded = ccdaObservation(observation, kind === 'results' ? panel : null, context);
+          const date = ccdaDate(xmlFind(observation, 'effectiveTime')) ?? panelDate;
+          const event = recorded && ccdaEventFor(context, date, kind === 'results' ? 'Lab Results' : 'Vital Signs');
+          if (event) addObservation(context.groups, event, recorded);
+        }
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+}
+
+function ccdaAllSections(element: XmlElement): XmlElement[] {
+  return xmlFindAll(element, 'component/section').flatMap((section) => [section, ...ccdaAllSections(section)]);
+}
+
+function parseCcda(buffer: Buffer): ParsedRecord {
+  const document = parseXml(decodeXml(buffer));
+  if (document.name !== 'ClinicalDocument') {
+    throw new StructuredRecordError('Not a C-CDA document');
+  }
+
+  const narrative = new Map<string, string>();
+  collectNarrative(document, narrative);
+
+  const documentDate = ccdaDate(xmlFind(document, 'effectiveTime'));
+  const encompassingEncounter = xmlFind(document, 'componentOf/encompassingEncounter');
+  const context: CcdaContext = {
+    narrative,
+    groups: { events: [], bloodPressure: new Map() },
+    fallbackDate: ccdaDate(xmlFind(encompassingEncounter, 'effectiveTime')) ?? documentDate,
+  };
+
+  const title = xmlText(xmlFind(document, 'title')) || ccdaCodeName(xmlFind(document, 'code'), context);
+
+  // A note or discharge summary is about one encounter, which is the main event
+  const documentEvent = encompassingEncounter ? ccdaEncounterEvent(encompassingEncounter, context, title) : null;
+
+  const sections = ccdaAllSections(xmlFind(document, 'component/structuredBody') ?? document);
+  const kinds = sections.map((section) => CCDA_SECTION_KINDS[xmlFind(section, 'code')?.attributes.code ?? '']);
+
+  // Encounters first, so entries on the same date join them
+  sections.forEach((section, index) => {
+    if (kinds[index] === 'encounters') ccdaSectionEntries(section, 'encounters', context);
+  });
+  sections.forEach((section, index) => {
+    if (kinds[index] && kinds[index] !== 'encounters') ccdaSectionEntries(section, kinds[index], context);
+  });
+
+  // Narrative-only sections describe the document's own encounter
+  const narrativeEvent =
+    documentEvent ?? (context.fallbackDate ? eventOn(context.groups, context.fallbackDate, title ?? 'Clinical Note') : null);
+  sections.forEach((section, index) => {
+    const text = xmlText(xmlFind(section, 'text'));
+    if (!text || !narrativeEvent) return;
+    switch (kinds[index]) {
+      case 'chiefComplaint':
+        narrativeEvent.chief_complaint ??= text;
+        break;
+      case 'history':
+        appendText(narrativeEvent, 'subjective_findings', text);
+        break;
+      case 'exam':
+        appendText(narrativeEvent, 'objective_findings', text);
+        break;
+      case 'assessment':
+        appendText(narrativeEvent, 'assessment', text);
+        break;
+      case 'plan':
+        appendText(narrativeEvent, 'plan', text);
+        break;
+      default:
+        break;
+    }
+  });
+
+  const narrativeSections = sections
+    .map((section) => ({
+      title: xmlText(xmlFind(section, 'title')) || ccdaCodeName(xmlFind(section, 'code'), context) || 'Section',
+      text: xmlText(xmlFind(section, 'text')),
+    }))
+    .filter((section) => section.text);
+
+  const patientRole = xmlFind(document, 'recordTarget/patientRole');
+  const patient = xmlFind(patientRole, 'patient');
+
+  return {
+    format: 'CCDA',
+    title,
+    documentDate,
+    providerName:
+      (xmlText(xmlFind(document, 'custodian/assignedCustodian/representedCustodianOrganization/name')) ||
+        xmlText(xmlFind(document, 'author/assignedAuthor/representedOrganization/name'))) ||
+      null,
+    patient: patientRole
+      ? {
+          name: ccdaPersonName(xmlFind(patient, 'name')),
+          dateOfBirth: isoDate(xmlFind(patient, 'birthTime')?.attributes.value),
+          medicalRecordNumber:
+            xmlChildren(patientRole, 'id')
+              .map((id) => id.attributes.extension)
+              .find(Boolean) ?? null,
+        }
+      : null,
+    events: finishEvents(context.groups),
+    sections: narrativeSections,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// FHIR (R4, with R5 field names where they differ)
+// ---------------------------------------------------------------------------
+
+interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  text?: string;
+  coding?: Coding[];
+}
+
+interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+interface Period {
+  start?: string;
+  end?: string;
+}
+
+interface Quantity {
+  value?: number;
+  unit?: string;
+  code?: string;
+}
+
+interface HumanName {
+  text?: string;
+  prefix?: string[];
+  given?: string[];
+  family?: string;
+  suffix?: string[];
+}
+
+interface Dosage {
+  text?: string;
+  timing?: { code?: CodeableConcept; repeat?: { frequency?: number; period?: number; periodUnit?: string } };
+  asNeededBoolean?: boolean;
+  route?: CodeableConcept;
+  doseAndRate?: Array<{ doseQuantity?: Quantity }>;
+  dose?: Quantity;
+}
+
+// FHIR JSON is read defensively; fields are cast where they're used
+interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [field: string]: unknown;
+}
+
+const INACTIVE_STATUSES = new Set(['entered-in-error', 'cancelled', 'not-done', 'refuted', 'not-taken']);
+const IMAGING_REPORT_CATEGORIES = new Set(['RAD', 'imaging', 'LP29684-5']);
+const TIMING_UNITS: Record<string, string> = { s: 'seconds', min: 'minutes', h: 'hours', d: 'days', wk: 'weeks', mo: 'months' };
+
+interface FhirContext {
+  index: Map<string, FhirResource>;
+  groups: EventGroups;
+  encounters: Map<FhirResource, ExtractedMedicalEvent>;
+  /** Conditions an Encounter lists as its diagnoses */
+  encounterDiagnoses: Map<FhirResource, FhirResource>;
+  fallbackDate: string | null;
+}
+
+function conceptName(concept: CodeableConcept | undefined): string | null {
+  if (!concept) return null;
+  return concept.text?.trim() || concept.coding?.map((coding) => coding.display?.trim()).find(Boolean) || null;
+}
+
+function conceptCodeIn(concept: CodeableConcept | undefined, systems: Set<string>): string | null {
+  return concept?.coding?.find((coding) => coding.system && systems.has(coding.system) && coding.code)?.code ?? null;
+}
+
+function humanName(names: HumanName[] | undefined): string | null {
+  const name = names?.[0];
+  if (!name) return null;
+  if (name.text) return name.text;
+  const full = [...(name.prefix ?? []), ...(name.given ?? []), name.family ?? ''].join(' ').trim();
+  const suffix = (name.suffix ?? []).join(' ');
+  return (suffix ? `${full}, ${suffix}` : full) || null;
+}
+
+/** Cancelled, not done or recorded in error; a Condition's verification status counts too */
+function isInactive(resource: FhirResource): boolean {
+  const verification = (resource.verificationStatus as CodeableConcept | undefined)?.coding?.[0]?.code;
+  const status = typeof resource.status === 'string' ? resource.status : null;
+  return [verification, status].some((code) => !!code && INACTIVE_STATUSES.has(code));
+}
+
+function firstDate(...values: Array<string | Period | undefined | unknown>): string | null {
+  for (const value of values) {
+    const date = typeof value === 'string' ? isoDate(value) : isoDate((value as Period | undefined)?.start);
+    if (date) return date;
+  }
+  return null;
+}
+
+function resolveReference(
+  context: FhirContext,
+  reference: FhirReference | undefined,
+  from?: FhirResource
+): FhirResource | null {
+  const target = reference?.reference;
+  if (!target) return null;
+  if (target.startsWith('#')) {
+    return ((from?.contained as FhirResource[] | undefined) ?? []).find((resource) => resource.id === target.slice(1)) ?? null;
+  }
+  // Absolute references to a server are matched on their last Type/id
+  return context.index.get(target) ?? context.index.get(target.split('/').slice(-2).join('/')) ?? null;
+}
+
+/** A display name for a referenced practitioner, organization or location */
+function referenceName(context: FhirContext, reference: FhirReference | undefined, from?: FhirResource): string | null {
+  if (reference?.display) return reference.display;
+  const resource = resolveReference(context, reference, from);
+  if (!resource) return null;
+  if (resource.resourceType === 'PractitionerRole') {
+    return referenceName(context, resource.practitioner as FhirReference, resource);
+  }
+  return humanName(resource.name as HumanName[]) ?? (typeof resource.name === 'string' ? resource.name : null);
+}
+
+function collectFhirResources(json: unknown, resources: FhirResource[]) {
+  const resource = json as FhirResource;
+  if (!resource || typeof resource !== 'object' || typeof resource.resourceType !== 'string') return;
+  resources.push(resource);
+  if (resource.resourceType === 'Bundle') {
+    for (const entry of (resource.entry as Array<{ fullUrl?: string; resource?: unknown }>) ?? []) {
+      if (entry.resource && entry.fullUrl) (entry.resource as FhirResource & { fullUrl?: string }).fullUrl = entry.fullUrl;
+      collectFhirResources(entry.resource, resources);
+    }
+  }
+}
+
+function fhirEventFor(
+  context: FhirContext,
+  resource: FhirResource,
+  date: string | null,
+  documentType: string
+): ExtractedMedicalEvent | null {
+  const encounter =
+    resolveReference(context, (resource.encounter ?? resource.context) as FhirReference, resource) ??
+    context.encounterDiagnoses.get(resource);
+  const encounterEvent = encounter && context.encounters.get(encounter);
+  if (encounterEvent) return encounterEvent;
+
+  const eventDate = date ?? context.fallbackDate;
+  return eventDate ? eventOn(context.groups, eventDate, documentType) : null;
+}
+
+function fhirEncounter(context: FhirContext, encounter: FhirResource) {
+  const date = firstDate(encounter.period, encounter.actualPeriod, encounter.plannedStartDate);
+  if (!date || isInactive(encounter)) return;
+
+  const type = conceptName((encounter.type as CodeableConcept[] | undefined)?.[0]);
+  const encounterClass = encounter.class as Coding | CodeableConcept[] | undefined;
+  const classCode = Array.isArray(encounterClass) ? encounterClass[0]?.coding?.[0]?.code : encounterClass?.code;
+
+  const participants = (encounter.participant as Array<{ individual?: FhirReference; actor?: FhirReference }>) ?? [];
+  const reasons = [
+    ...((encounter.reasonCode as CodeableConcept[]) ?? []).map(conceptName),
+    ...((encounter.reason as Array<{ value?: Array<{ concept?: CodeableConcept }> }>) ?? []).flatMap((reason) =>
+      (reason.value ?? []).map((value) => conceptName(value.concept))
+    ),
+  ].filter(Boolean);
+  const location = (encounter.location as Array<{ location?: FhirReference }>)?.[0]?.location;
+
+  const event: ExtractedMedicalEvent = {
+    date_of_service: date,
+    provider_name:
+      participants
+        .map((participant) => referenceName(context, participant.individual ?? participant.actor, encounter))
+        .find(Boolean) ?? undefined,
+    provider_type: providerTypeFor(type, classCode ?? null),
+    facility_name:
+      referenceName(context, encounter.serviceProvider as FhirReference, encounter) ??
+      referenceName(context, location, encounter) ??
+      undefined,
+    document_type: type ?? 'Encounter',
+    ...(reasons.length > 0 && { chief_complaint: reasons.join('; ') }),
+  };
+  context.groups.events.push(event);
+  context.encounters.set(encounter, event);
+
+  for (const diagnosis of (encounter.diagnosis as Array<{ condition?: FhirReference }>) ?? []) {
+    const condition = resolveReference(context, diagnosis.condition, encounter);
+    if (condition) context.encounterDiagnoses.set(condition, encounter);
+  }
+}
+
+function fhirDosage(dosage: Dosage | undefined): { dosage?: string; frequency?: string } {
+  if (!dosage) return {};
+  const dose = dosage.doseAndRate?.[0]?.doseQuantity ?? dosage.dose;
+  const amount = [formatQuantity(dose?.value, dose?.unit ?? dose?.code), conceptName(dosage.route)]
+    .filter(Boolean)
+    .join(' ');
+
+  const repeat = dosage.timing?.repeat;
+  let frequency = conceptName(dosage.timing?.code) ?? undefined;
+  if (!frequency && repeat?.period && repeat.periodUnit) {
+    const unit = TIMING_UNITS[repeat.periodUnit] ?? repeat.periodUnit;
+    frequency =
+      (repeat.frequency ?? 1) > 1
+        ? `${repeat.frequency} times every ${repeat.period} ${unit}`
+        : `every ${repeat.period} ${unit}`;
+  }
+  if (dosage.asNeededBoolean) frequency = frequency ? `${frequency} as needed` : 'as needed';
+
+  return {
+    ...((amount || dosage.text) && { dosage: amount || dosage.text }),
+    ...(frequency && { frequency }),
+  };
+}
+
+function fhirMedication(context: FhirContext, resource: FhirResource) {
+  if (isInactive(resource)) return;
+
+  // R4 has medicationCodeableConcept/medicationReference; R5 a CodeableReference
+  const medication = resource.medication as { concept?: CodeableConcept; reference?: FhirReference } | undefined;
+  const referenced = resolveReference(
+    context,
+    (resource.medicationReference as FhirReference) ?? medication?.reference,
+    resource
+  );
+  const name =
+    conceptName((resource.medicationCodeableConcept as CodeableConcept) ?? medication?.concept) ??
+    conceptName(referenced?.code as CodeableConcept) ??
+    (resource.medicationReference as FhirReference | undefined)?.display;
+  if (!name) return;
+
+  const dosage = ((resource.dosageInstruction ?? resource.dosage) as Dosage[] | Dosage | undefined) ?? undefined;
+  const reason =
+    conceptName((resource.reasonCode as CodeableConcept[] | undefined)?.[0]) ??
+    conceptName((resource.reason as Array<{ concept?: CodeableConcept }> | undefined)?.[0]?.concept);
+
+  // R5 MedicationAdministration spells it "occurence"
+  const date = firstDate(
+    resource.authoredOn,
+    resource.effectiveDateTime,
+    resource.effectivePeriod,
+    resource.occurenceDateTime,
+    resource.occurencePeriod,
+    resource.dateAsserted
+  );
+  const event = fhirEventFor(context, resource, date, 'Medication List');
+  if (!event) return;
+  addMedication(event, {
+    medication_name: name,
+    ...fhirDosage(Array.isArray(dosage) ? dosage[0] : dosage),
+    ...(reason && { purpose: reason }),
+  });
+}
+
+function fhirObservationValue(resource: FhirResource): { value: string | null; unit: string | null } {
+  const quantity = resource.valueQuantity as Quantity | undefined;
+  if (quantity?.value !== undefined) return { value: String(quantity.value), unit: quantity.unit ?? quantity.code ?? null };
+  const concept = conceptName(resource.valueCodeableConcept as CodeableConcept);
+  if (concept) return { value: concept, unit: null };
+  for (const field of ['valueString', 'valueInteger', 'valueBoolean']) {
+    if (resource[field] !== undefined) return { value: String(resource[field]), unit: null };
+  }
+  return { value: null, unit: null };
+}
+
+function fhirObservation(context: FhirContext, resource: FhirResource) {
+  if (isInactive(resource)) return;
+  const code = resource.code as CodeableConcept | undefined;
+  const name = conceptName(code);
+  if (!name) return;
+
+  const categories = ((resource.category as CodeableConcept[]) ?? []).flatMap((category) => category.coding ?? []);
+  const isVitalSign = categories.some((coding) => coding.code === 'vital-signs');
+  const interpretation = (resource.interpretation as CodeableConcept[] | undefined)?.[0]?.coding?.[0]?.code;
+
+  const date = firstDate(resource.effectiveDateTime, resource.effectivePeriod, resource.effectiveInstant, resource.issued);
+  const event = fhirEventFor(context, resource, date, isVitalSign ? 'Vital Signs' : 'Lab Results');
+  if (!event) return;
+
+  const loinc = conceptCodeIn(code, LOINC_SYSTEMS);
+  const components = (resource.component as FhirResource[] | undefined) ?? [];
+  if (components.length > 0 && (BLOOD_PRESSURE_PANELS.has(loinc ?? '') || !fhirObservationValue(resource).value)) {
+    for (const component of components) {
+      const componentCode = component.code as CodeableConcept | undefined;
+      const componentName = conceptName(componentCode);
+      if (!componentName) continue;
+      addObservation(context.groups, event, {
+        loinc: conceptCodeIn(componentCode, LOINC_SYSTEMS),
+        name: componentName,
+        ...fhirObservationValue(component),
+        interpretation: null,
+        panel: isVitalSign ? null : name,
+      });
+    }
+    return;
+  }
+
+  addObservation(context.groups, event, {
+    loinc,
+    name,
+    ...fhirObservationValue(resource),
+    interpretation: interpretation ? (INTERPRETATIONS[interpretation] ?? null) : null,
+    panel: null,
+  });
+}
+
+function fhirDiagnosticReport(context: FhirContext, resource: FhirResource) {
+  const categories = ((resource.category as CodeableConcept[]) ?? []).flatMap((category) => category.coding ?? []);
+  if (isInactive(resource) || !categories.some((coding) => IMAGING_REPORT_CATEGORIES.has(coding.code ?? ''))) return;
+
+  const testType = conceptName(resource.code as CodeableConcept);
+  const conclusion = (resource.conclusion as string | undefined)?.trim();
+  if (!testType) return;
+
+  const date = firstDate(resource.effectiveDateTime, resource.effectivePeriod, resource.issued);
+  const event = fhirEventFor(context, resource, date, 'Imaging Report');
+  if (!event) return;
+  event.imaging_tests ??= [];
+  event.imaging_tests.push({
+    test_type: testType,
+    ...(conclusion && { impression: conclusion }),
+  });
+}
+
+function parseFhir(buffer: Buffer): ParsedRecord {
+  let json: unknown;
+  try {
+    json = JSON.parse(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+  } catch {
+    throw new StructuredRecordError('The FHIR file is not valid JSON');
+  }
+
+  const resources: FhirResource[] = [];
+  collectFhirResources(json, resources);
+  if (resources.length === 0) {
+    throw new StructuredRecordError('Not a FHIR resource');
+  }
+
+  const index = new Map<string, FhirResource>();
+  for (const resource of resources) {
+    const fullUrl = (resource as FhirResource & { fullUrl?: string }).fullUrl;
+    if (fullUrl) index.set(fullUrl, resource);
+    if (resource.id) index.set(`${resource.resourceType}/${resource.id}`, resource);
+  }
+
+  const root = resources[0];
+  const composition = resources.find((resource) => resource.resourceType === 'Composition');
+  const documentDate = firstDate(composition?.date, root.timestamp, (root.meta as { lastUpdated?: string })?.lastUpdated);
+
+  const context: FhirContext = {
+    index,
+    groups: { events: [], bloodPressure: new Map() },
+    encounters: new Map(),
+    encounterDiagnoses: new Map(),
+    fallbackDate: documentDate,
+  };
+
+  const byType = (type: string) => resources.filter((resource) => resource.resourceType === type);
+
+  // Encounters first, so entries on the same date join them
+  byType('Encounter').forEach((encounter) => fhirEncounter(context, encounter));
+
+  for (const condition of byType('Condition')) {
+    if (isInactive(condition)) continue;
+    const code = condition.code as CodeableConcept | undefined;
+    const name = conceptName(code);
+    if (!name) continue;
+    const date = firstDate(condition.onsetDateTime, condition.onsetPeriod, condition.recordedDate);
+    const event = fhirEventFor(context, condition, date, 'Problem List');
+    if (event) {
+      addDiagnosis(
+        event,
+        name,
+        conceptCodeIn(code, ICD10_SYSTEMS),
+        conceptName((condition.bodySite as CodeableConcept[] | undefined)?.[0])
+      );
+    }
+  }
+
+  for (const procedure of byType('Procedure')) {
+    if (isInactive(procedure)) continue;
+    const code = procedure.code as CodeableConcept | undefined;
+    const name = conceptName(code);
+    if (!name) continue;
+    const date = firstDate(procedure.performedDateTime, procedure.performedPeriod, procedure.occurrenceDateTime, procedure.occurrencePeriod);
+    const event = fhirEventFor(context, procedure, date, 'Procedure Note');
+    if (event) addProcedure(event, name, conceptCodeIn(code, CPT_SYSTEMS));
+  }
+
+  for (const type of ['MedicationRequest', 'MedicationStatement', 'MedicationAdministration']) {
+    byType(type).forEach((medication) => fhirMedication(context, medication));
+  }
+  byType('Observation').forEach((observation) => fhirObservation(context, observation));
+  byType('DiagnosticReport').forEach((report) => fhirDiagnosticReport(context, report));
+
+  const patient = byType('Patient')[0];
+  const identifiers = (patient?.identifier as Array<{ type?: CodeableConcept; value?: string }>) ?? [];
+  const custodian = composition && referenceName(context, composition.custodian as FhirReference, composition);
+
+  return {
+    format: 'FHIR',
+    title: (composition?.title as string | undefined) ?? (root.resourceType === 'Bundle' ? null : root.resourceType),
+    documentDate,
+    providerName: custodian ?? (byType('Organization')[0]?.name as string | undefined) ?? null,
+    patient: patient
+      ? {
+          name: humanName(patient.name as HumanName[]),
+          dateOfBirth: isoDate(patient.birthDate as string | undefined),
+          medicalRecordNumber:
+            (identifiers.find((identifier) => identifier.type?.coding?.some((coding) => coding.code === 'MR')) ??
+              identifiers[0])?.value ?? null,
+        }
+      : null,
+    events: finishEvents(context.groups),
+    sections: [],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Text rendering
+// ---------------------------------------------------------------------------
+
+function renderEventText(event: ExtractedMedicalEvent): string[] {
+  const lines = [`== ${event.date_of_service} · ${event.document_type ?? event.provider_type ?? 'Visit'} ==`];
+  const who = [event.provider_name, event.facility_name].filter(Boolean).join(', ');
+  if (who) lines.push(`Provider: ${who}`);
+  if (event.chief_complaint) lines.push(`Chief complaint: ${event.chief_complaint}`);
+
+  if (event.diagnoses?.length) {
+    lines.push('Diagnoses:');
+    for (const diagnosis of event.diagnoses) {
+      lines.push(`- ${diagnosis.diagnosis_name}${diagnosis.icd_code ? ` (${diagnosis.icd_code})` : ''}`);
+    }
+  }
+  if (event.treatments_procedures?.length) {
+    lines.push('Procedures:', ...event.treatments_procedures.map((procedure) => `- ${procedure}`));
+  }
+  if (event.medications?.length) {
+    lines.push('Medications:');
+    for (const medication of event.medications) {
+      const details = [medication.dosage, medication.frequency, medication.purpose && `for ${medication.purpose}`];
+      lines.push(`- ${[medication.medication_name, ...details].filter(Boolean).join(', ')}`);
+    }
+  }
+
+  const vitals = event.vital_signs;
+  if (vitals) {
+    const readings = [
+      vitals.blood_pressure && `BP ${vitals.blood_pressure}`,
+      vitals.heart_rate && `HR ${vitals.heart_rate}`,
+      vitals.temperature && `Temp ${vitals.temperature}`,
+      vitals.pain_score !== undefined && `Pain ${vitals.pain_score}/10`,
+    ].filter(Boolean);
+    if (readings.length > 0) lines.push(`Vital signs: ${readings.join(', ')}`);
+  }
+  for (const imaging of event.imaging_tests ?? []) {
+    lines.push(`Imaging: ${imaging.test_type}${imaging.impression ? ` - ${imaging.impression}` : ''}`);
+  }
+  if (event.subjective_findings) lines.push(`History: ${event.subjective_findings}`);
+  if (event.objective_findings) lines.push('Findings:', event.objective_findings);
+  if (event.assessment) lines.push(`Assessment: ${event.assessment}`);
+  if (event.plan) lines.push(`Plan: ${event.plan}`);
+  return lines;
+}
+
+function renderRecordText(record: Omit<StructuredRecord, 'text'>, sections: RecordSection[]): string {
+  const lines = [`${record.title ?? 'Health record'} (${STRUCTURED_RECORD_LABELS[record.format]})`];
+  if (record.patient?.name) {
+    const details = [
+      record.patient.dateOfBirth && `born ${record.patient.dateOfBirth}`,
+      record.patient.medicalRecordNumber && `MRN ${record.patient.medicalRecordNumber}`,
+    ].filter(Boolean);
+    lines.push(`Patient: ${[record.patient.name, ...details].join(', ')}`);
+  }
+  if (record.providerName) lines.push(`Source: ${record.providerName}`);
+  if (record.documentDate) lines.push(`Date: ${record.documentDate}`);
+
+  for (const event of record.events) {
+    lines.push('', ...renderEventText(event));
+  }
+
+  // The C-CDA's own narrative is what a clinician signed; it's kept in full
+  for (const section of sections) {
+    lines.push('', `== ${section.title} ==`, section.text);
+  }
+
+  return lines.join('\n');
+}
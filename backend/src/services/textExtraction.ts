@@ -1,31 +1,145 @@
+import path from 'path';
 import pdf from 'pdf-parse';
 import Tesseract from 'tesseract.js';
 import mammoth from 'mammoth';
+import type { Canvas, SKRSContext2D } from '@napi-rs/canvas';
 import { logger } from '../utils/logger.js';
 
+export interface PageExtraction {
+  pageNumber: number;
+  text: string;
+  method: 'text' | 'ocr';
+  confidence: number | null;
+}
+
+/**
+ * Per-page entry persisted on Document.pageMap. start/end are character
+ * offsets of the page's text within Document.extractedText.
+ */
+export interface PageMapEntry {
+  page: number;
+  method: 'text' | 'ocr';
+  confidence: number | null;
+  start: number;
+  end: number;
+}
+
 export interface PdfExtractionResult {
   text: string;
   pageCount: number;
+  pages: PageExtraction[];
+  pageMap: PageMapEntry[];
+  ocrConfidence: number | null;
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number;
+}
+
+// Pages with less embedded text than this are treated as scanned images
+const MIN_PAGE_TEXT_CHARS = 50;
+const OCR_RENDER_DPI = parseInt(process.env.OCR_RENDER_DPI || '200', 10);
+const PAGE_SEPARATOR = '\n\n';
+
+type PdfJs = typeof import('pdfjs-dist/legacy/build/pdf.mjs');
+let pdfjsPromise: Promise<PdfJs> | null = null;
+
+function loadPdfJs(): Promise<PdfJs> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist/legacy/build/pdf.mjs');
+  }
+  return pdfjsPromise;
+}
+
+function standardFontDataUrl(): string {
+  const packageDir = path.dirname(require.resolve('pdfjs-dist/package.json'));
+  return path.join(packageDir, 'standard_fonts') + path.sep;
+}
+
+/**
+ * Join pages in order and record where each page's text lands in the
+ * combined string so later steps can map text spans back to page numbers.
+ */
+export function mergePages(pages: PageExtraction[]): { text: string; pageMap: PageMapEntry[] } {
+  const pageMap: PageMapEntry[] = [];
+  let text = '';
+
+  pages.forEach((page, index) => {
+    if (index > 0) text += PAGE_SEPARATOR;
+    const start = text.length;
+    text += page.text;
+    pageMap.push({
+      page: page.pageNumber,
+      method: page.method,
+      confidence: page.confidence,
+      start,
+      end: text.length,
+    });
+  });
+
+  return { text, pageMap };
+}
+
+/**
+ * Cut pages `first`..`last` (inclusive) out of an extracted document. Page
+ * numbers are kept, so citations in the slice still point at pages of the
+ * original file; offsets are rebased onto the slice's text.
+ */
+export function slicePages(
+  text: string,
+  pageMap: PageMapEntry[],
+  first: number,
+  last: number
+): { text: string; pageMap: PageMapEntry[]; ocrConfidence: number | null } {
+  const entries = pageMap.filter((entry) => entry.page >= first && entry.page <= last);
+  if (entries.length === 0) {
+    return { text: '', pageMap: [], ocrConfidence: null };
+  }
+
+  const base = entries[0].start;
+  const ocrPages = entries.filter((entry) => entry.method === 'ocr' && entry.confidence !== null);
+
+  return {
+    text: text.slice(base, entries[entries.length - 1].end),
+    pageMap: entries.map((entry) => ({ ...entry, start: entry.start - base, end: entry.end - base })),
+    ocrConfidence:
+      ocrPages.length > 0
+        ? Math.round(ocrPages.reduce((sum, entry) => sum + (entry.confidence || 0), 0) / ocrPages.length)
+        : null,
+  };
 }
 
 export async function extractTextFromPdf(buffer: Buffer): Promise<PdfExtractionResult> {
   try {
-    const data = await pdf(buffer);
+    const pages = await extractPdfPages(buffer);
+    const { text, pageMap } = mergePages(pages);
 
-    // If text is minimal, it might be a scanned PDF - try OCR
-    if (data.text.trim().length < 100 && data.numpages > 0) {
-      logger.info('PDF appears to be scanned, attempting OCR...');
-      // For scanned PDFs, we'd need to convert to images first
-      // This is a simplified implementation
-      return {
-        text: data.text,
-        pageCount: data.numpages,
-      };
-    }
+    const ocrPages = pages.filter((p) => p.method === 'ocr' && p.confidence !== null);
+    const ocrConfidence = ocrPages.length > 0
+      ? Math.round(ocrPages.reduce((sum, p) => sum + (p.confidence || 0), 0) / ocrPages.length)
+      : null;
+
+    return {
+      text,
+      pageCount: pages.length,
+      pages,
+      pageMap,
+      ocrConfidence,
+    };
+  } catch (error) {
+    logger.warn(`Page-level PDF extraction failed, falling back to pdf-parse: ${error}`);
+  }
+
+  try {
+    const data = await pdf(buffer);
 
     return {
       text: data.text,
       pageCount: data.numpages,
+      pages: [],
+      pageMap: [],
+      ocrConfidence: null,
     };
   } catch (error) {
     logger.error('PDF extraction error:', error);
@@ -33,17 +147,127 @@ export async function extractTextFromPdf(buffer: Buffer): Promise<PdfExtractionR
   }
 }
 
-export async function extractTextFromImage(buffer: Buffer): Promise<string> {
+/**
+ * Extract text page by page. Pages with an embedded text layer are read
+ * directly; image-only pages are rasterized and run through Tesseract.
+ */
+async function extractPdfPages(buffer: Buffer): Promise<PageExtraction[]> {
+  const pdfjs = await loadPdfJs();
+  const pdfDocument = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    standardFontDataUrl: standardFontDataUrl(),
+    isEvalSupported: false,
+    useSystemFonts: false,
+  }).promise;
+
+  const pages: PageExtraction[] = [];
+  let worker: Tesseract.Worker | null = null;
+
   try {
-    const result = await Tesseract.recognize(buffer, 'eng', {
-      logger: (m) => {
-        if (m.status === 'recognizing text') {
-          logger.debug(`OCR progress: ${Math.round(m.progress * 100)}%`);
+    for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+      const page = await pdfDocument.getPage(pageNumber);
+      const embeddedText = await getEmbeddedPageText(page);
+
+      if (embeddedText.trim().length >= MIN_PAGE_TEXT_CHARS) {
+        pages.push({ pageNumber, text: embeddedText, method: 'text', confidence: null });
+        page.cleanup();
+        continue;
+      }
+
+      logger.info(`PDF page ${pageNumber}/${pdfDocument.numPages} appears to be scanned, running OCR`);
+
+      try {
+        if (!worker) {
+          worker = await Tesseract.createWorker('eng');
         }
-      },
-    });
 
-    return result.data.text;
+        const image = await rasterizePage(pdfDocument, page);
+        const ocr = await recognizeImage(image, worker);
+
+        // Keep whichever layer produced more text for mixed pages
+        if (ocr.text.trim().length > embeddedText.trim().length) {
+          pages.push({ pageNumber, text: ocr.text, method: 'ocr', confidence: Math.round(ocr.confidence) });
+        } else {
+          pages.push({ pageNumber, text: embeddedText, method: 'text', confidence: null });
+        }
+      } catch (error) {
+        logger.error(`OCR failed for PDF page ${pageNumber}:`, error);
+        pages.push({ pageNumber, text: embeddedText, method: 'ocr', confidence: 0 });
+      } finally {
+        page.cleanup();
+      }
+    }
+  } finally {
+    if (worker) {
+      await worker.terminate();
+    }
+    await pdfDocument.destroy();
+  }
+
+  return pages;
+}
+
+async function getEmbeddedPageText(page: import('pdfjs-dist/legacy/build/pdf.mjs').PDFPageProxy): Promise<string> {
+  const content = await page.getTextContent();
+  let text = '';
+
+  for (const item of content.items) {
+    if (!('str' in item)) continue;
+    text += item.str;
+    if (item.hasEOL) text += '\n';
+  }
+
+  return text;
+}
+
+async function rasterizePage(
+  pdfDocument: import('pdfjs-dist/legacy/build/pdf.mjs').PDFDocumentProxy,
+  page: import('pdfjs-dist/legacy/build/pdf.mjs').PDFPageProxy
+): Promise<Buffer> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_DPI / 72 });
+  // The Node build of pdf.js draws on @napi-rs/canvas
+  const canvasFactory = pdfDocument.canvasFactory as {
+    create: (width: number, height: number) => { canvas: Canvas; context: SKRSContext2D };
+    destroy: (canvasAndContext: { canvas: Canvas; context: SKRSContext2D }) => void;
+  };
+  const canvasAndContext = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+  try {
+    await page.render({
+      canvasContext: canvasAndContext.context,
+      viewport,
+    }).promise;
+
+    return canvasAndContext.canvas.toBuffer('image/png');
+  } finally {
+    canvasFactory.destroy(canvasAndContext);
+  }
+}
+
+/**
+ * OCR a single image. Pass a worker to reuse it across pages of one document.
+ */
+export async function recognizeImage(buffer: Buffer, worker?: Tesseract.Worker): Promise<OcrResult> {
+  const result = worker
+    ? await worker.recognize(buffer)
+    : await Tesseract.recognize(buffer, 'eng', {
+        logger: (m) => {
+          if (m.status === 'recognizing text') {
+            logger.debug(`OCR progress: ${Math.round(m.progress * 100)}%`);
+          }
+        },
+      });
+
+  return {
+    text: result.data.text,
+    confidence: result.data.confidence,
+  };
+}
+
+export async function extractTextFromImage(buffer: Buffer): Promise<string> {
+  try {
+    const result = await recognizeImage(buffer);
+    return result.text;
   } catch (error) {
     logger.error('Image OCR error:', error);
     throw new Error('Failed to extract text from image');
@@ -0,0 +1,269 @@
+import { FirmPlan, Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { QuotaExceededError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { LlmUsageEvent, onLlmRequest, onLlmUsage } from './llmGateway.js';
+
+export interface PlanDefinition {
+  label: string;
+  monthlyPriceUsd: number | null;
+  /** Monthly AI spend at which admins are warned */
+  softLimitUsd: number;
+  /** Monthly AI spend at which new AI work is refused; null for no cap */
+  hardLimitUsd: number | null;
+}
+
+export const PLANS: Record<FirmPlan, PlanDefinition> = {
+  STARTER: { label: 'Starter', monthlyPriceUsd: 299, softLimitUsd: 80, hardLimitUsd: 100 },
+  PROFESSIONAL: { label: 'Professional', monthlyPriceUsd: 999, softLimitUsd: 400, hardLimitUsd: 500 },
+  ENTERPRISE: { label: 'Enterprise', monthlyPriceUsd: null, softLimitUsd: 2000, hardLimitUsd: null },
+};
+
+// USD per million tokens [input, output] by model-name prefix; more specific prefixes first
+const MODEL_PRICING: Array<[prefix: string, input: number, output: number]> = [
+  ['claude-opus-4-5', 5, 25],
+  ['claude-opus-4', 15, 75],
+  ['claude-sonnet-4', 3, 15],
+  ['claude-haiku-4-5', 1, 5],
+  ['claude-3-7-sonnet', 3, 15],
+  ['claude-3-5-sonnet', 3, 15],
+  ['claude-3-5-haiku', 0.8, 4],
+  ['claude-3-haiku', 0.25, 1.25],
+];
+
+const FALLBACK_PRICING: [number, number] = [3, 15];
+
+const unpricedModels = new Set<string>();
+
+/** Estimated list-price cost of a call; fixture replays are free */
+export function estimateLlmCostUsd(event: Pick<LlmUsageEvent, 'provider' | 'model' | 'usage'>): number {
+  if (event.provider === 'fake') return 0;
+
+  const match = MODEL_PRICING.find(([prefix]) => event.model.startsWith(prefix));
+  if (!match && !unpricedModels.has(event.model)) {
+    unpricedModels.add(event.model);
+    logger.warn(`No pricing for model ${event.model}; estimating at Sonnet rates`);
+  }
+  const [input, output] = match ? [match[1], match[2]] : FALLBACK_PRICING;
+
+  return (event.usage.inputTokens * input + event.usage.outputTokens * output) / 1_000_000;
+}
+
+export function startOfMonth(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+export type QuotaState = 'ok' | 'soft_limit' | 'hard_limit';
+
+export interface UsageQuota {
+  plan: FirmPlan;
+  planLabel: string;
+  monthlyPriceUsd: number | null;
+  softLimitUsd: number;
+  hardLimitUsd: number | null;
+  periodStart: Date;
+  usedUsd: number;
+  state: QuotaState;
+}
+
+/** The firm's limits for this month (plan defaults or its overrides) and spend so far */
+export async function getUsageQuota(firmId: string): Promise<UsageQuota> {
+  const periodStart = startOfMonth();
+  const [firm, spent] = await Promise.all([
+    prisma.firm.findUniqueOrThrow({
+      where: { id: firmId },
+      select: { plan: true, aiSoftLimitUsd: true, aiHardLimitUsd: true },
+    }),
+    prisma.llmUsage.aggregate({
+      where: { firmId, createdAt: { gte: periodStart } },
+      _sum: { costUsd: true },
+    }),
+  ]);
+
+  const plan = PLANS[firm.plan];
+  const softLimitUsd = firm.aiSoftLimitUsd !== null ? Number(firm.aiSoftLimitUsd) : plan.softLimitUsd;
+  const hardLimitUsd = firm.aiHardLimitUsd !== null ? Number(firm.aiHardLimitUsd) : plan.hardLimitUsd;
+  const usedUsd = Number(spent._sum.costUsd ?? 0);
+
+  let state: QuotaState = 'ok';
+  if (hardLimitUsd !== null && usedUsd >= hardLimitUsd) state = 'hard_limit';
+  else if (usedUsd >= softLimitUsd) state = 'soft_limit';
+
+  return {
+    plan: firm.plan,
+    planLabel: plan.label,
+    monthlyPriceUsd: plan.monthlyPriceUsd,
+    softLimitUsd,
+    hardLimitUsd,
+    periodStart,
+    usedUsd,
+    state,
+  };
+}
+
+// Firms already warned about their soft limit, by "firmId:YYYY-MM"
+const softLimitWarned = new Set<string>();
+
+/**
+ * Refuse new AI work once the firm has reached its hard limit for the month.
+ * Crossing the soft limit only logs a warning; the billing tab shows it.
+ */
+export async function assertWithinUsageQuota(firmId: string): Promise<void> {
+  const quota = await getUsageQuota(firmId);
+
+  if (quota.state === 'hard_limit') {
+    throw new QuotaExceededError(
+      `Monthly AI usage limit of $${quota.hardLimitUsd!.toFixed(2)} reached; AI processing resumes next month or when the limit is raised`
+    );
+  }
+
+  const key = `${firmId}:${quota.periodStart.toISOString().slice(0, 7)}`;
+  if (quota.state === 'soft_limit' && !softLimitWarned.has(key)) {
+    softLimitWarned.add(key);
+    logger.warn(`Firm ${firmId} passed its $${quota.softLimitUsd} soft AI usage limit ($${quota.usedUsd.toFixed(2)} used)`);
+  }
+}
+
+async function recordLlmUsage(event: LlmUsageEvent): Promise<void> {
+  if (!event.context.firmId) {
+    logger.warn(`LLM ${event.task} call has no firm in its context; usage not recorded`);
+    return;
+  }
+
+  await prisma.llmUsage.create({
+    data: {
+      firmId: event.context.firmId,
+      caseId: event.context.caseId ?? null,
+      documentId: event.context.documentId ?? null,
+      task: event.task,
+      provider: event.provider,
+      model: event.model,
+      inputTokens: event.usage.inputTokens,
+      outputTokens: event.usage.outputTokens,
+      costUsd: estimateLlmCostUsd(event),
+      durationMs: event.durationMs,
+    },
+  });
+}
+
+/** Persist every model call against its firm and case, and enforce hard limits */
+export function registerUsageMetering(): void {
+  onLlmUsage(recordLlmUsage);
+  onLlmRequest(async (_task, context) => {
+    if (context.firmId) {
+      await assertWithinUsageQuota(context.firmId);
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Reporting
+// ---------------------------------------------------------------------------
+
+export interface UsageFilters {
+  from: Date;
+  to: Date;
+  caseId?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+function usageWhere(firmId: string, filters: UsageFilters): Prisma.LlmUsageWhereInput {
+  return {
+    firmId,
+    createdAt: { gte: filters.from, lte: filters.to },
+    ...(filters.caseId && { caseId: filters.caseId }),
+  };
+}
+
+function toTotals(row: {
+  _count: { _all: number };
+  _sum: { inputTokens: number | null; outputTokens: number | null; costUsd: Prisma.Decimal | null };
+}): UsageTotals {
+  return {
+    calls: row._count._all,
+    inputTokens: row._sum.inputTokens ?? 0,
+    outputTokens: row._sum.outputTokens ?? 0,
+    costUsd: Number(row._sum.costUsd ?? 0),
+  };
+}
+
+const TOTALS_SELECT = {
+  _count: { _all: true },
+  _sum: { inputTokens: true, outputTokens: true, costUsd: true },
+} as const;
+
+/** Totals for a period, broken down by task, model and the costliest cases */
+export async function getUsageBreakdown(firmId: string, filters: UsageFilters, topCases = 10) {
+  const where = usageWhere(firmId, filters);
+
+  const [totals, byTask, byModel, byCase, documents] = await Promise.all([
+    prisma.llmUsage.aggregate({ where, ...TOTALS_SELECT }),
+    prisma.llmUsage.groupBy({ by: ['task'], where, ...TOTALS_SELECT }),
+    prisma.llmUsage.groupBy({ by: ['model'], where, ...TOTALS_SELECT }),
+    prisma.llmUsage.groupBy({
+      by: ['caseId'],
+      where: { ...where, caseId: filters.caseId ?? { not: null } },
+      ...TOTALS_SELECT,
+      orderBy: { _sum: { costUsd: 'desc' } },
+      take: topCases,
+    }),
+    prisma.llmUsage.groupBy({ by: ['documentId'], where: { ...where, documentId: { not: null } } }),
+  ]);
+
+  const cases = await prisma.case.findMany({
+    where: { id: { in: byCase.map((row) => row.caseId!) } },
+    select: { id: true, caseNumber: true, clientFirstName: true, clientLastName: true },
+  });
+  const caseById = new Map(cases.map((c) => [c.id, c]));
+
+  const byCost = (a: UsageTotals, b: UsageTotals) => b.costUsd - a.costUsd;
+
+  return {
+    totals: toTotals(totals),
+    documentsProcessed: documents.length,
+    byTask: byTask.map((row) => ({ task: row.task, ...toTotals(row) })).sort(byCost),
+    byModel: byModel.map((row) => ({ model: row.model, ...toTotals(row) })).sort(byCost),
+    byCase: byCase.map((row) => {
+      const c = caseById.get(row.caseId!);
+      return {
+        caseId: row.caseId!,
+        caseNumber: c?.caseNumber ?? null,
+        clientName: c ? `${c.clientFirstName} ${c.clientLastName}` : null,
+        ...toTotals(row),
+      };
+    }),
+  };
+}
+
+export type UsageInterval = 'day' | 'month';
+
+/** Usage bucketed by UTC day or month, oldest first */
+export async function getUsageSeries(firmId: string, filters: UsageFilters, interval: UsageInterval) {
+  const conditions = [
+    Prisma.sql`"firmId" = ${firmId}`,
+    Prisma.sql`"createdAt" >= ${filters.from}`,
+    Prisma.sql`"createdAt" <= ${filters.to}`,
+  ];
+  if (filters.caseId) conditions.push(Prisma.sql`"caseId" = ${filters.caseId}`);
+
+  const rows = await prisma.$queryRaw<
+    Array<{ period: Date; calls: number; inputTokens: number; outputTokens: number; costUsd: number }>
+  >`
+    SELECT date_trunc(${interval}, "createdAt" AT TIME ZONE 'UTC') AS period,
+      count(*)::int AS calls,
+      sum("inputTokens")::float8 AS "inputTokens",
+      sum("outputTokens")::float8 AS "outputTokens",
+      sum("costUsd")::float8 AS "costUsd"
+    FROM "LlmUsage"
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    GROUP BY period
+    ORDER BY period`;
+
+  return rows.map((row) => ({ ...row, period: row.period.toISOString().slice(0, interval === 'day' ? 10 : 7) }));
+}
@@ -0,0 +1,127 @@
+import { Firm, User, UserRole } from '@prisma/client';
+import prisma from '../db/client.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { IdentityProfile } from './identityService.js';
+
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40) || 'firm'
+  );
+}
+
+async function uniqueFirmSlug(name: string): Promise<string> {
+  const base = slugify(name);
+  let slug = base;
+  for (let suffix = 2; await prisma.firm.findUnique({ where: { slug } }); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+}
+
+/**
+ * First sign-up: create a firm with the signed-in identity as its admin.
+ */
+export async function createFirmWithAdmin(
+  identityUserId: string,
+  profile: IdentityProfile,
+  input: { firmName: string; name?: string }
+): Promise<{ firm: Firm; user: User }> {
+  if (!profile.email) {
+    throw new BadRequestError('Your account has no email address');
+  }
+
+  const existingUser = await prisma.user.findUnique({ where: { clerkId: identityUserId } });
+  if (existingUser) {
+    throw new ConflictError('Your account already belongs to a firm');
+  }
+
+  const slug = await uniqueFirmSlug(input.firmName);
+
+  return prisma.$transaction(async (tx) => {
+    const firm = await tx.firm.create({
+      data: { name: input.firmName.trim(), slug },
+    });
+
+    const user = await tx.user.create({
+      data: {
+        clerkId: identityUserId,
+        email: profile.email!,
+        name: input.name?.trim() || profile.name || profile.email!.split('@')[0],
+        role: 'ADMIN',
+        firmId: firm.id,
+      },
+    });
+
+    return { firm, user };
+  });
+}
+
+async function findFirmMember(userId: string, firmId: string): Promise<User> {
+  const user = await prisma.user.findFirst({ where: { id: userId, firmId } });
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+  return user;
+}
+
+// A firm always keeps at least one active admin who can manage it
+async function assertOtherActiveAdmin(firmId: string, userId: string): Promise<void> {
+  const otherAdmins = await prisma.user.count({
+    where: { firmId, role: 'ADMIN', deactivatedAt: null, id: { not: userId } },
+  });
+  if (otherAdmins === 0) {
+    throw new BadRequestError('The firm needs at least one active admin');
+  }
+}
+
+export async function changeUserRole(
+  userId: string,
+  firmId: string,
+  role: UserRole,
+  actorId: string
+): Promise<{ before: User; after: User }> {
+  if (userId === actorId) {
+    throw new BadRequestError('You cannot change your own role');
+  }
+
+  const before = await findFirmMember(userId, firmId);
+  if (before.role === 'ADMIN' && role !== 'ADMIN' && !before.deactivatedAt) {
+    await assertOtherActiveAdmin(firmId, userId);
+  }
+
+  const after = await prisma.user.update({ where: { id: userId }, data: { role } });
+  return { before, after };
+}
+
+/**
+ * Block a user from signing in. Their cases, letters and audit history stay
+ * attributed to them.
+ */
+export async function deactivateUser(userId: string, firmId: string, actorId: string): Promise<User> {
+  if (userId === actorId) {
+    throw new BadRequestError('You cannot deactivate your own account');
+  }
+
+  const user = await findFirmMember(userId, firmId);
+  if (user.deactivatedAt) {
+    throw new BadRequestError('User is already deactivated');
+  }
+  if (user.role === 'ADMIN') {
+    await assertOtherActiveAdmin(firmId, userId);
+  }
+
+  return prisma.user.update({ where: { id: userId }, data: { deactivatedAt: new Date() } });
+}
+
+export async function reactivateUser(userId: string, firmId: string): Promise<User> {
+  const user = await findFirmMember(userId, firmId);
+  if (!user.deactivatedAt) {
+    throw new BadRequestError('User is already active');
+  }
+
+  return prisma.user.update({ where: { id: userId }, data: { deactivatedAt: null } });
+}
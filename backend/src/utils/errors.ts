@@ -43,6 +43,18 @@ export class ConflictError extends AppError {
   }
 }
 
+export class PayloadTooLargeError extends AppError {
+  constructor(message: string = 'Request too large') {
+    super(message, 413, 'PAYLOAD_TOO_LARGE');
+  }
+}
+
+export class QuotaExceededError extends AppError {
+  constructor(message: string = 'Usage limit reached') {
+    super(message, 402, 'QUOTA_EXCEEDED');
+  }
+}
+
 export class ValidationError extends AppError {
   public errors: Record<string, string[]>;
 
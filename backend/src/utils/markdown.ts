@@ -0,0 +1,177 @@
+export interface InlineSegment {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'rule' }
+  | { type: 'blank' };
+
+const HEADING_RE = /^(#{1,6})\s+(.*)$/;
+const BULLET_RE = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_RE = /^\s*\d+[.)]\s+(.*)$/;
+const RULE_RE = /^\s*(-{3,}|\*{3,}|_{3,})\s*$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+function splitTableRow(line: string): string[] {
+  let trimmed = line.trim();
+  if (trimmed.startsWith('|')) trimmed = trimmed.slice(1);
+  if (trimmed.endsWith('|')) trimmed = trimmed.slice(0, -1);
+  return trimmed.split('|').map((cell) => cell.trim());
+}
+
+/**
+ * Parse the subset of Markdown the letter generator produces into blocks:
+ * headings, paragraphs, bullet/numbered lists, pipe tables and rules.
+ */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      if (blocks.length > 0 && blocks[blocks.length - 1].type !== 'blank') {
+        blocks.push({ type: 'blank' });
+      }
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].trim() });
+      i++;
+      continue;
+    }
+
+    if (RULE_RE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    // Pipe table: header row followed by a separator row
+    if (line.trim().startsWith('|') && i + 1 < lines.length && TABLE_SEPARATOR_RE.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    const bullet = line.match(BULLET_RE);
+    const ordered = line.match(ORDERED_RE);
+    if (bullet || ordered) {
+      const isOrdered = !bullet;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const match = isOrdered ? lines[i].match(ORDERED_RE) : lines[i].match(BULLET_RE);
+        if (!match) break;
+        items.push(match[1].trim());
+        i++;
+      }
+      blocks.push({ type: 'list', ordered: isOrdered, items });
+      continue;
+    }
+
+    // Paragraph: consecutive non-special lines joined with line breaks
+    const paragraphLines: string[] = [line.trim()];
+    i++;
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !HEADING_RE.test(lines[i]) &&
+      !BULLET_RE.test(lines[i]) &&
+      !ORDERED_RE.test(lines[i]) &&
+      !RULE_RE.test(lines[i]) &&
+      !lines[i].trim().startsWith('|')
+    ) {
+      paragraphLines.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraphLines.join('\n') });
+  }
+
+  return blocks;
+}
+
+/**
+ * Split a line into runs of plain, **bold**, *italic* / _italic_ and
+ * ***bold italic*** text. Backslash-escaped markers are kept literally.
+ */
+export function parseInlineSegments(text: string): InlineSegment[] {
+  const segments: InlineSegment[] = [];
+  let current = '';
+  let bold = false;
+  let italic = false;
+
+  const flush = () => {
+    if (current) {
+      segments.push({ text: current, bold, italic });
+      current = '';
+    }
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && '*_\\'.includes(text[i + 1])) {
+      current += text[i + 1];
+      i++;
+      continue;
+    }
+
+    if (text.startsWith('**', i) || text.startsWith('__', i)) {
+      flush();
+      bold = !bold;
+      i++;
+      continue;
+    }
+
+    // Treat underscores inside words (snake_case, file names) as literal text
+    const isWordUnderscore = char === '_' && /\w/.test(text[i - 1] || '') && /\w/.test(text[i + 1] || '');
+    if ((char === '*' || char === '_') && !isWordUnderscore) {
+      flush();
+      italic = !italic;
+      continue;
+    }
+
+    current += char;
+  }
+
+  flush();
+  return segments.length > 0 ? segments : [{ text, bold: false, italic: false }];
+}
+
+/**
+ * Reduce firm letterhead HTML to plain text lines for non-HTML renderers.
+ */
+export function htmlToTextLines(html: string): string[] {
+  const text = html
+    .replace(/<\s*br\s*\/?>/gi, '\n')
+    .replace(/<\/\s*(p|div|h[1-6]|li|tr)\s*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+
+  return text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,339 @@
+import { htmlToTextLines } from './markdown.js';
+
+export interface EmailAttachment {
+  filename: string | null;
+  contentType: string;
+  content: Buffer;
+  /** Shown in the body (signature logos, pasted pictures) rather than attached */
+  inline: boolean;
+}
+
+export interface ParsedEmail {
+  messageId: string | null;
+  /** Sender as written, e.g. "Jane Roe <jroe@insurer.com>" */
+  from: string | null;
+  fromAddress: string | null;
+  to: string[];
+  cc: string[];
+  /** Envelope recipients added by the receiving server (Delivered-To, X-Original-To) */
+  deliveredTo: string[];
+  subject: string | null;
+  date: Date | null;
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+export class MimeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MimeError';
+  }
+}
+
+// Forwarded messages inside forwarded messages; anything deeper is malformed
+const MAX_DEPTH = 10;
+
+type HeaderFields = Map<string, string[]>;
+
+interface HeaderParams {
+  value: string;
+  params: Record<string, string>;
+}
+
+/** Decode bytes in a message's declared charset, falling back to Latin-1 */
+export function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const label = (charset || 'utf-8').split('*')[0].trim().toLowerCase();
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return bytes.toString('latin1');
+  }
+}
+
+function decodeHeaderBytes(bytes: Buffer): string {
+  // Headers should be ASCII, but raw UTF-8 is common
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return bytes.toString('latin1');
+  }
+}
+
+/** RFC 2047 encoded words: =?charset?B?...?= and =?charset?Q?...?= */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const bytes =
+        encoding.toUpperCase() === 'B'
+          ? Buffer.from(text, 'base64')
+          : Buffer.from(
+              text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+              'latin1'
+            );
+      return decodeCharset(bytes, charset);
+    });
+}
+
+function splitEntity(buffer: Buffer): { headers: HeaderFields; body: Buffer } {
+  const crlf = buffer.indexOf('\r\n\r\n');
+  const lf = buffer.indexOf('\n\n');
+  let headerEnd: number;
+  let bodyStart: number;
+  if (crlf !== -1 && (lf === -1 || crlf < lf)) {
+    headerEnd = crlf;
+    bodyStart = crlf + 4;
+  } else if (lf !== -1) {
+    headerEnd = lf;
+    bodyStart = lf + 2;
+  } else {
+    headerEnd = buffer.length;
+    bodyStart = buffer.length;
+  }
+
+  const headers: HeaderFields = new Map();
+  const lines = decodeHeaderBytes(buffer.subarray(0, headerEnd))
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .split(/\r?\n/);
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers.set(name, [...(headers.get(name) ?? []), line.slice(colon + 1).trim()]);
+  }
+
+  return { headers, body: buffer.subarray(bodyStart) };
+}
+
+function header(headers: HeaderFields, name: string): string | undefined {
+  return headers.get(name)?.[0];
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && quoted && i + 1 < value.length) {
+      current += char + value[++i];
+    } else if (char === '"') {
+      quoted = !quoted;
+      current += char;
+    } else if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * A structured header such as Content-Type or Content-Disposition, including
+ * RFC 2231 extended parameters (filename*=utf-8''..., filename*0=...).
+ */
+function parseHeaderParams(value: string): HeaderParams {
+  const [main, ...rest] = splitOutsideQuotes(value, ';');
+  const params: Record<string, string> = {};
+  const extended: Record<string, Array<{ index: number; value: string; encoded: boolean }>> = {};
+
+  for (const part of rest) {
+    const eq = part.indexOf('=');
+    if (eq <= 0) continue;
+    const key = part.slice(0, eq).trim().toLowerCase();
+    let paramValue = part.slice(eq + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"') && paramValue.length >= 2) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    const continued = key.match(/^([^*]+)\*(\d+)(\*)?$/);
+    const encoded = key.match(/^([^*]+)\*$/);
+    if (continued) {
+      (extended[continued[1]] ??= []).push({ index: Number(continued[2]), value: paramValue, encoded: !!continued[3] });
+    } else if (encoded) {
+      (extended[encoded[1]] ??= []).push({ index: 0, value: paramValue, encoded: true });
+    } else {
+      params[key] = decodeEncodedWords(paramValue);
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(extended)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset: string | undefined;
+    const bytes = pieces.map((piece, i) => {
+      let text = piece.value;
+      if (i === 0 && piece.encoded) {
+        const match = text.match(/^([^']*)'[^']*'(.*)$/);
+        if (match) {
+          charset = match[1] || undefined;
+          text = match[2];
+        }
+      }
+      return piece.encoded
+        ? Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1')
+        : Buffer.from(text, 'utf8');
+    });
+    params[name] = decodeCharset(Buffer.concat(bytes), charset);
+  }
+
+  return { value: main.trim().toLowerCase(), params };
+}
+
+/** Email addresses in an address header, lowercased */
+export function parseAddresses(value: string | undefined): string[] {
+  if (!value) return [];
+  return (value.match(/[^\s<>,;:"'()[\]]+@[^\s<>,;:"'()[\]]+/g) ?? []).map((address) => address.toLowerCase());
+}
+
+function decodeTransfer(body: Buffer, encoding: string): Buffer {
+  switch (encoding) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .toString('latin1')
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      );
+    default:
+      return body;
+  }
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const delimiter = Buffer.from(`--${boundary}`, 'latin1');
+  const parts: Buffer[] = [];
+
+  let position = body.indexOf(delimiter);
+  while (position !== -1) {
+    const afterDelimiter = position + delimiter.length;
+    // "--boundary--" closes the multipart
+    if (body[afterDelimiter] === 0x2d && body[afterDelimiter + 1] === 0x2d) break;
+
+    const lineEnd = body.indexOf('\n', afterDelimiter);
+    if (lineEnd === -1) break;
+    const start = lineEnd + 1;
+    const next = body.indexOf(delimiter, start);
+
+    // The line break before a delimiter belongs to the delimiter
+    let end = next === -1 ? body.length : next;
+    if (body[end - 1] === 0x0a) end--;
+    if (body[end - 1] === 0x0d) end--;
+    parts.push(body.subarray(start, Math.max(start, end)));
+
+    position = next;
+  }
+
+  return parts;
+}
+
+/** Plain text from an HTML body, without the style and script blocks */
+export function htmlToText(html: string): string {
+  return htmlToTextLines(html.replace(/<(style|script|head)\b[\s\S]*?<\/\1\s*>/gi, ''))
+    .join('\n')
+    .replace(/&#(\d+);/g, (_m, code: string) => String.fromCodePoint(Number(code)));
+}
+
+/** A forwarded message's headers and text, as it reads in the body of the message that carries it */
+export function describeForwardedMessage(message: ParsedEmail): string {
+  const lines = ['---------- Attached message ----------'];
+  if (message.from) lines.push(`From: ${message.from}`);
+  if (message.date) lines.push(`Date: ${message.date.toUTCString()}`);
+  if (message.subject) lines.push(`Subject: ${message.subject}`);
+  if (message.to.length > 0) lines.push(`To: ${message.to.join(', ')}`);
+  return `${lines.join('\n')}\n\n${message.text}`.trim();
+}
+
+interface BodyParts {
+  text: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+}
+
+function walkEntity(buffer: Buffer, parts: BodyParts, depth: number): void {
+  const { headers, body } = splitEntity(buffer);
+  const type = parseHeaderParams(header(headers, 'content-type') ?? 'text/plain');
+  const disposition = parseHeaderParams(header(headers, 'content-disposition') ?? '');
+  const encoding = (header(headers, 'content-transfer-encoding') ?? '').trim().toLowerCase();
+  const filename = disposition.params.filename ?? type.params.name ?? null;
+
+  if (type.value.startsWith('multipart/') && type.params.boundary) {
+    if (depth >= MAX_DEPTH) return;
+    for (const part of splitMultipart(body, type.params.boundary)) {
+      walkEntity(part, parts, depth + 1);
+    }
+    return;
+  }
+
+  const content = decodeTransfer(body, encoding);
+
+  if (type.value === 'message/rfc822' && depth < MAX_DEPTH) {
+    const forwarded = parseMessage(content, depth + 1);
+    parts.text.push(describeForwardedMessage(forwarded));
+    parts.attachments.push(...forwarded.attachments);
+    return;
+  }
+
+  const isBody =
+    disposition.value !== 'attachment' && !filename && (type.value === 'text/plain' || type.value === 'text/html');
+  if (isBody) {
+    const text = decodeCharset(content, type.params.charset);
+    (type.value === 'text/html' ? parts.html : parts.text).push(text);
+    return;
+  }
+
+  parts.attachments.push({
+    filename,
+    contentType: type.value,
+    content,
+    inline:
+      disposition.value !== 'attachment' &&
+      type.value.startsWith('image/') &&
+      (disposition.value === 'inline' || headers.has('content-id')),
+  });
+}
+
+function parseMessage(buffer: Buffer, depth: number): ParsedEmail {
+  const { headers } = splitEntity(buffer);
+  const parts: BodyParts = { text: [], html: [], attachments: [] };
+  walkEntity(buffer, parts, depth);
+
+  const from = header(headers, 'from');
+  const subject = header(headers, 'subject');
+  const date = header(headers, 'date');
+  const parsedDate = date ? new Date(date) : null;
+
+  return {
+    messageId: header(headers, 'message-id')?.replace(/^<|>$/g, '') || null,
+    from: from ? decodeEncodedWords(from) : null,
+    fromAddress: parseAddresses(from)[0] ?? null,
+    to: parseAddresses(headers.get('to')?.join(', ')),
+    cc: parseAddresses(headers.get('cc')?.join(', ')),
+    deliveredTo: parseAddresses(
+      [...(headers.get('delivered-to') ?? []), ...(headers.get('x-original-to') ?? [])].join(', ')
+    ),
+    subject: subject ? decodeEncodedWords(subject) : null,
+    date: parsedDate && !Number.isNaN(parsedDate.getTime()) ? parsedDate : null,
+    // Prefer the plain-text alternative; HTML-only mail is reduced to text
+    text: (parts.text.length > 0 ? parts.text : parts.html.map(htmlToText)).join('\n\n').trim(),
+    attachments: parts.attachments,
+  };
+}
+
+/**
+ * Parse a raw RFC 822 message (.eml, or the MIME an inbound mail service
+ * posts): headers, the readable body and every attachment, with forwarded
+ * messages' attachments included.
+ */
+export function parseMimeMessage(buffer: Buffer): ParsedEmail {
+  const { headers } = splitEntity(buffer);
+  if (headers.size === 0) {
+    throw new MimeError('Not an email message');
+  }
+  return parseMessage(buffer, 0);
+}
@@ -0,0 +1,321 @@
+import { decodeCharset, describeForwardedMessage, EmailAttachment, htmlToText, parseAddresses, ParsedEmail } from './mime.js';
+
+export class OutlookMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutlookMessageError';
+  }
+}
+
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const END_OF_CHAIN = 0xfffffffe;
+const NO_STREAM = 0xffffffff;
+
+const ENTRY_STORAGE = 1;
+const ENTRY_STREAM = 2;
+const ENTRY_ROOT = 5;
+
+// Outlook nests forwarded messages as attachments
+const MAX_DEPTH = 10;
+
+// MAPI property ids (upper half of a property tag)
+const PROP = {
+  subject: 0x0037,
+  clientSubmitTime: 0x0039,
+  transportHeaders: 0x007d,
+  recipientType: 0x0c15,
+  senderName: 0x0c1a,
+  senderEmail: 0x0c1f,
+  deliveryTime: 0x0e06,
+  body: 0x1000,
+  bodyHtml: 0x1013,
+  messageId: 0x1035,
+  displayName: 0x3001,
+  emailAddress: 0x3003,
+  attachData: 0x3701,
+  attachFilename: 0x3704,
+  attachMethod: 0x3705,
+  attachLongFilename: 0x3707,
+  attachMimeTag: 0x370e,
+  attachContentId: 0x3712,
+  smtpAddress: 0x39fe,
+  senderSmtpAddress: 0x5d01,
+  attachmentHidden: 0x7ffe,
+};
+
+const TYPE_STRING8 = 0x001e;
+const TYPE_UNICODE = 0x001f;
+const TYPE_BINARY = 0x0102;
+const TYPE_OBJECT = 0x000d;
+
+const ATTACH_EMBEDDED_MESSAGE = 5;
+const RECIPIENT_CC = 2;
+
+interface CfbEntry {
+  name: string;
+  type: number;
+  children: CfbEntry[];
+  read(): Buffer;
+}
+
+/**
+ * Read the directory of a Compound File Binary container (the format of
+ * Outlook .msg files) held in memory.
+ */
+function readCompoundFile(buffer: Buffer): CfbEntry {
+  if (buffer.length < 512 || !buffer.subarray(0, 8).equals(CFB_SIGNATURE)) {
+    throw new OutlookMessageError('Not an Outlook message');
+  }
+
+  const sectorSize = 1 << buffer.readUInt16LE(0x1e);
+  const miniSectorSize = 1 << buffer.readUInt16LE(0x20);
+  const firstDirectorySector = buffer.readUInt32LE(0x30);
+  const miniStreamCutoff = buffer.readUInt32LE(0x38);
+  const firstMiniFatSector = buffer.readUInt32LE(0x3c);
+  let difatSector = buffer.readUInt32LE(0x44);
+  const maxSectors = Math.ceil(buffer.length / sectorSize);
+
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+  const readSector = (sector: number) => {
+    const offset = sectorOffset(sector);
+    if (offset + sectorSize > buffer.length) {
+      throw new OutlookMessageError('The message file is truncated');
+    }
+    return buffer.subarray(offset, offset + sectorSize);
+  };
+
+  // The first 109 FAT sectors are listed in the header, the rest in DIFAT sectors
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109; i++) {
+    const sector = buffer.readUInt32LE(0x4c + i * 4);
+    if (sector < END_OF_CHAIN) fatSectors.push(sector);
+  }
+  for (let guard = 0; difatSector < END_OF_CHAIN && guard < maxSectors; guard++) {
+    const data = readSector(difatSector);
+    for (let i = 0; i < sectorSize / 4 - 1; i++) {
+      const sector = data.readUInt32LE(i * 4);
+      if (sector < END_OF_CHAIN) fatSectors.push(sector);
+    }
+    difatSector = data.readUInt32LE(sectorSize - 4);
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const data = readSector(sector);
+    for (let i = 0; i < sectorSize / 4; i++) fat.push(data.readUInt32LE(i * 4));
+  }
+
+  const chain = (start: number, table: number[]) => {
+    const sectors: number[] = [];
+    // A corrupt table can loop; no chain is longer than the file
+    for (let sector = start; sector < END_OF_CHAIN && sectors.length < maxSectors * 64; sector = table[sector]) {
+      if (sector >= table.length) throw new OutlookMessageError('Corrupt message file');
+      sectors.push(sector);
+    }
+    return sectors;
+  };
+  const readChain = (start: number) => Buffer.concat(chain(start, fat).map(readSector));
+
+  const miniFat: number[] = [];
+  if (firstMiniFatSector < END_OF_CHAIN) {
+    const data = readChain(firstMiniFatSector);
+    for (let i = 0; i < data.length / 4; i++) miniFat.push(data.readUInt32LE(i * 4));
+  }
+
+  const directory = readChain(firstDirectorySector);
+  const rawEntries = [];
+  for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+    const nameLength = directory.readUInt16LE(offset + 64);
+    rawEntries.push({
+      name: directory.toString('utf16le', offset, offset + Math.max(0, nameLength - 2)),
+      type: directory[offset + 66],
+      left: directory.readUInt32LE(offset + 68),
+      right: directory.readUInt32LE(offset + 72),
+      child: directory.readUInt32LE(offset + 76),
+      start: directory.readUInt32LE(offset + 116),
+      size: directory.readUInt32LE(offset + 120),
+    });
+  }
+  if (rawEntries[0]?.type !== ENTRY_ROOT) {
+    throw new OutlookMessageError('Corrupt message file');
+  }
+
+  let miniStream: Buffer | null = null;
+  const entries: CfbEntry[] = rawEntries.map((raw) => ({
+    name: raw.name,
+    type: raw.type,
+    children: [],
+    read() {
+      if (raw.type !== ENTRY_STREAM) return Buffer.alloc(0);
+      if (raw.size < miniStreamCutoff) {
+        // Small streams live in the root entry's mini stream
+        miniStream ??= readChain(rawEntries[0].start);
+        const data = Buffer.concat(
+          chain(raw.start, miniFat).map((sector) =>
+            miniStream!.subarray(sector * miniSectorSize, (sector + 1) * miniSectorSize)
+          )
+        );
+        return data.subarray(0, raw.size);
+      }
+      return readChain(raw.start).subarray(0, raw.size);
+    },
+  }));
+
+  // Each storage's children are a tree of siblings under its child entry
+  const visited = new Set<number>();
+  const collect = (id: number, into: CfbEntry[]) => {
+    if (id === NO_STREAM || id >= entries.length || visited.has(id)) return;
+    visited.add(id);
+    collect(rawEntries[id].left, into);
+    into.push(entries[id]);
+    collect(rawEntries[id].right, into);
+  };
+  rawEntries.forEach((raw, index) => {
+    if (raw.type === ENTRY_ROOT || raw.type === ENTRY_STORAGE) collect(raw.child, entries[index].children);
+  });
+
+  return entries[0];
+}
+
+function tagName(id: number, type: number): string {
+  return `__substg1.0_${id.toString(16).toUpperCase().padStart(4, '0')}${type.toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+/** Fixed-size properties of a storage, by property id, as their 8-byte values */
+function readFixedProperties(storage: CfbEntry, headerSize: number): Map<number, Buffer> {
+  const properties = new Map<number, Buffer>();
+  const stream = storage.children.find((child) => child.name === '__properties_version1.0');
+  if (!stream) return properties;
+
+  const data = stream.read();
+  for (let offset = headerSize; offset + 16 <= data.length; offset += 16) {
+    properties.set(data.readUInt32LE(offset) >>> 16, data.subarray(offset + 8, offset + 16));
+  }
+  return properties;
+}
+
+function readString(storage: CfbEntry, id: number): string | null {
+  for (const child of storage.children) {
+    if (child.name === tagName(id, TYPE_UNICODE)) {
+      return child.read().toString('utf16le').replace(/\0+$/, '') || null;
+    }
+    if (child.name === tagName(id, TYPE_STRING8)) {
+      return decodeCharset(child.read(), 'windows-1252').replace(/\0+$/, '') || null;
+    }
+  }
+  return null;
+}
+
+function readBinary(storage: CfbEntry, id: number): Buffer | null {
+  return storage.children.find((child) => child.name === tagName(id, TYPE_BINARY))?.read() ?? null;
+}
+
+function readTime(properties: Map<number, Buffer>, id: number): Date | null {
+  const value = properties.get(id);
+  if (!value) return null;
+  // FILETIME: 100-nanosecond intervals since 1601
+  const milliseconds = Number(value.readBigUInt64LE(0) / 10000n) - 11644473600000;
+  return milliseconds > 0 ? new Date(milliseconds) : null;
+}
+
+function headerValue(headers: string | null, name: string): string | null {
+  const match = headers?.match(new RegExp(`^${name}:[ \\t]*(.*(?:\\r?\\n[ \\t].*)*)`, 'im'));
+  return match ? match[1].replace(/\r?\n[ \t]+/g, ' ').trim() : null;
+}
+
+function parseStorage(storage: CfbEntry, depth: number, isEmbedded: boolean): ParsedEmail {
+  // The top-level property stream has a 32-byte header, embedded messages' 24 bytes
+  const properties = readFixedProperties(storage, isEmbedded ? 24 : 32);
+  const transportHeaders = readString(storage, PROP.transportHeaders);
+
+  const to: string[] = [];
+  const cc: string[] = [];
+  const attachments: EmailAttachment[] = [];
+  const forwarded: string[] = [];
+
+  for (const child of storage.children) {
+    if (child.type !== ENTRY_STORAGE) continue;
+
+    if (child.name.startsWith('__recip_version1.0_')) {
+      const address =
+        readString(child, PROP.smtpAddress) ?? readString(child, PROP.emailAddress) ?? readString(child, PROP.displayName);
+      const type = readFixedProperties(child, 8).get(PROP.recipientType)?.readUInt32LE(0);
+      (type === RECIPIENT_CC ? cc : to).push(...parseAddresses(address ?? undefined));
+    }
+
+    if (child.name.startsWith('__attach_version1.0_')) {
+      const attachProperties = readFixedProperties(child, 8);
+      const method = attachProperties.get(PROP.attachMethod)?.readUInt32LE(0);
+      const embedded = child.children.find((entry) => entry.name === tagName(PROP.attachData, TYPE_OBJECT));
+
+      if (method === ATTACH_EMBEDDED_MESSAGE && embedded && depth < MAX_DEPTH) {
+        const message = parseStorage(embedded, depth + 1, true);
+        forwarded.push(describeForwardedMessage(message));
+        attachments.push(...message.attachments);
+        continue;
+      }
+
+      const content = readBinary(child, PROP.attachData);
+      if (!content) continue;
+      const contentType = (readString(child, PROP.attachMimeTag) ?? 'application/octet-stream').toLowerCase();
+      attachments.push({
+        filename:
+          readString(child, PROP.attachLongFilename) ??
+          readString(child, PROP.attachFilename) ??
+          readString(child, PROP.displayName),
+        contentType,
+        content,
+        inline:
+          contentType.startsWith('image/') &&
+          (!!readString(child, PROP.attachContentId) || attachProperties.get(PROP.attachmentHidden)?.[0] === 1),
+      });
+    }
+  }
+
+  const senderName = readString(storage, PROP.senderName);
+  const senderAddress =
+    readString(storage, PROP.senderSmtpAddress) ?? parseAddresses(readString(storage, PROP.senderEmail) ?? undefined)[0];
+  const headerDate = headerValue(transportHeaders, 'date');
+  const parsedHeaderDate = headerDate ? new Date(headerDate) : null;
+
+  let text = readString(storage, PROP.body) ?? '';
+  if (!text.trim()) {
+    const html = readBinary(storage, PROP.bodyHtml) ?? Buffer.from(readString(storage, PROP.bodyHtml) ?? '', 'utf8');
+    text = html.length > 0 ? htmlToText(decodeCharset(html, 'utf-8')) : '';
+  }
+
+  return {
+    messageId:
+      (readString(storage, PROP.messageId) ?? headerValue(transportHeaders, 'message-id'))?.replace(/^<|>$/g, '') ||
+      null,
+    from: senderName && senderAddress ? `${senderName} <${senderAddress}>` : senderName ?? senderAddress ?? null,
+    fromAddress: senderAddress?.toLowerCase() ?? null,
+    to,
+    cc,
+    deliveredTo: parseAddresses(
+      [headerValue(transportHeaders, 'delivered-to'), headerValue(transportHeaders, 'x-original-to')]
+        .filter(Boolean)
+        .join(', ')
+    ),
+    subject: readString(storage, PROP.subject),
+    date:
+      parsedHeaderDate && !Number.isNaN(parsedHeaderDate.getTime())
+        ? parsedHeaderDate
+        : readTime(properties, PROP.clientSubmitTime) ?? readTime(properties, PROP.deliveryTime),
+    text: [text.trim(), ...forwarded].filter(Boolean).join('\n\n'),
+    attachments,
+  };
+}
+
+export function isOutlookMessage(buffer: Buffer): boolean {
+  return buffer.length >= 8 && buffer.subarray(0, 8).equals(CFB_SIGNATURE);
+}
+
+/**
+ * Parse an Outlook .msg file into the same shape as a MIME message: sender,
+ * recipients, subject, body text and attachments (with those of attached
+ * messages included).
+ */
+export function parseOutlookMessage(buffer: Buffer): ParsedEmail {
+  return parseStorage(readCompoundFile(buffer), 0, false);
+}
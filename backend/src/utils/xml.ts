@@ -0,0 +1,190 @@
+import { decodeCharset } from './mime.js';
+
+export interface XmlElement {
+  /** Tag name without its namespace prefix ("birthTime" for sdtc:birthTime) */
+  name: string;
+  /** Attributes as written, prefixes included ("xsi:type") */
+  attributes: Record<string, string>;
+  /** Elements and text in document order */
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+export class XmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XmlError';
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'", nbsp: ' ' };
+
+// Elements whose text starts on a line of its own when flattened
+const BLOCK_ELEMENTS = new Set(['paragraph', 'p', 'br', 'tr', 'item', 'li', 'list', 'table', 'div', 'caption', 'title']);
+const CELL_ELEMENTS = new Set(['td', 'th']);
+
+const START_TAG = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+
+function localName(qualifiedName: string): string {
+  return qualifiedName.slice(qualifiedName.indexOf(':') + 1);
+}
+
+function decodeEntities(value: string): string {
+  if (!value.includes('&')) return value;
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+/** Decode an XML file's bytes using its byte order mark or declared encoding */
+export function decodeXml(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return decodeCharset(buffer, 'utf-16le');
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return decodeCharset(buffer, 'utf-16be');
+  const declaration = buffer.subarray(0, 200).toString('latin1').match(/^\s*<\?xml[^>]*encoding=["']([\w.:-]+)["']/);
+  return decodeCharset(buffer, declaration?.[1]);
+}
+
+/**
+ * Parse an XML document into its root element. This is a small
+ * non-validating parser: comments, processing instructions and the DOCTYPE
+ * are skipped, CDATA is kept as text and only the predefined and numeric
+ * entities are expanded. Whitespace-only text between elements is dropped.
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end === -1) throw new XmlError(`Unterminated ${what}`);
+    position = end + terminator.length;
+  };
+
+  while (position < source.length) {
+    const tagStart = source.indexOf('<', position);
+    const textEnd = tagStart === -1 ? source.length : tagStart;
+
+    if (textEnd > position) {
+      const text = source.slice(position, textEnd);
+      if (text.trim() && stack.length > 1) {
+        stack[stack.length - 1].children.push(decodeEntities(text));
+      }
+      position = textEnd;
+      if (tagStart === -1) break;
+    }
+
+    if (source.startsWith('<!--', position)) {
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', position)) {
+      const end = source.indexOf(']]>', position);
+      if (end === -1) throw new XmlError('Unterminated CDATA section');
+      stack[stack.length - 1].children.push(source.slice(position + 9, end));
+      position = end + 3;
+    } else if (source.startsWith('<?', position)) {
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!', position)) {
+      // DOCTYPE, stepping over an internal subset in brackets
+      const subsetStart = source.indexOf('[', position);
+      const close = source.indexOf('>', position);
+      if (subsetStart !== -1 && subsetStart < close) {
+        position = subsetStart;
+        skipPast(']', 'DOCTYPE');
+      }
+      skipPast('>', 'DOCTYPE');
+    } else if (source[position + 1] === '/') {
+      const end = source.indexOf('>', position);
+      if (end === -1) throw new XmlError('Unterminated end tag');
+      const name = localName(source.slice(position + 2, end).trim());
+      const open = stack.pop();
+      if (!open || stack.length === 0 || open.name !== name) {
+        throw new XmlError(`Unexpected </${name}>${open && stack.length > 0 ? ` inside <${open.name}>` : ''}`);
+      }
+      position = end + 1;
+    } else {
+      START_TAG.lastIndex = position;
+      const match = START_TAG.exec(source);
+      if (!match) throw new XmlError(`Malformed tag at offset ${position}`);
+
+      const attributes: Record<string, string> = {};
+      for (const [, attribute, double, single] of match[2].matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[attribute] = decodeEntities(double ?? single);
+      }
+
+      const element: XmlElement = { name: localName(match[1]), attributes, children: [] };
+      if (stack.length === 1 && root.children.length > 0) {
+        throw new XmlError('More than one root element');
+      }
+      stack[stack.length - 1].children.push(element);
+      if (!match[3]) stack.push(element);
+      position += match[0].length;
+    }
+  }
+
+  if (stack.length > 1) throw new XmlError(`Unclosed <${stack[stack.length - 1].name}>`);
+  const document = root.children[0];
+  if (!document || typeof document === 'string') throw new XmlError('No root element');
+  return document;
+}
+
+/** Child elements, optionally only those with the given name */
+export function xmlChildren(element: XmlElement | null | undefined, name?: string): XmlElement[] {
+  if (!element) return [];
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name)
+  );
+}
+
+/**
+ * The first element at a slash-separated path of child names below the
+ * element ("component/structuredBody"), searching every branch in order.
+ */
+export function xmlFind(element: XmlElement | null | undefined, path: string): XmlElement | null {
+  return xmlFindAll(element, path)[0] ?? null;
+}
+
+/** Every element at a slash-separated path of child names below the element */
+export function xmlFindAll(element: XmlElement | null | undefined, path: string): XmlElement[] {
+  let current = element ? [element] : [];
+  for (const name of path.split('/')) {
+    current = current.flatMap((candidate) => xmlChildren(candidate, name));
+  }
+  return current;
+}
+
+/**
+ * The element's text with markup removed. Narrative blocks (paragraphs, list
+ * items, table rows) go on lines of their own and table cells are separated
+ * with " | ", so tables of results stay readable.
+ */
+export function xmlText(element: XmlElement | null | undefined): string {
+  if (!element) return '';
+
+  const lines: string[] = [];
+  let line = '';
+  const breakLine = () => {
+    if (line.trim()) lines.push(line.replace(/\s+/g, ' ').trim());
+    line = '';
+  };
+
+  const walk = (node: XmlNode) => {
+    if (typeof node === 'string') {
+      line += node;
+      return;
+    }
+    if (BLOCK_ELEMENTS.has(node.name)) breakLine();
+    if (CELL_ELEMENTS.has(node.name) && line.trim()) line += ' | ';
+    node.children.forEach(walk);
+    if (BLOCK_ELEMENTS.has(node.name)) breakLine();
+    else if (!CELL_ELEMENTS.has(node.name)) line += ' ';
+  };
+
+  walk(element);
+  breakLine();
+  return lines.join('\n');
+}
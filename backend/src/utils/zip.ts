@@ -0,0 +1,108 @@
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  path: string;
+  isDirectory: boolean;
+  isEncrypted: boolean;
+  compressedSize: number;
+  size: number;
+  /** Decompress the entry; throws for encrypted or unsupported entries */
+  read(): Buffer;
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// The end record is 22 bytes plus a comment of up to 64 KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+export function isZipBuffer(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+function findEndRecord(buffer: Buffer): number {
+  const stop = Math.max(0, buffer.length - MAX_END_RECORD_SEARCH);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new ZipError('Not a ZIP archive or the archive is truncated');
+}
+
+/**
+ * List the entries of a ZIP archive held in memory. Stored and deflated
+ * entries are supported, which covers archives from Windows, macOS and the
+ * usual zip tools; ZIP64 archives (over 4 GB or 65,535 entries) are not.
+ */
+export function readZip(buffer: Buffer): ZipEntry[] {
+  const end = findEndRecord(buffer);
+  const entryCount = buffer.readUInt16LE(end + 10);
+  const directorySize = buffer.readUInt32LE(end + 12);
+  const directoryOffset = buffer.readUInt32LE(end + 16);
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ZipError('ZIP64 archives are not supported');
+  }
+  if (directoryOffset + directorySize > buffer.length) {
+    throw new ZipError('The archive is truncated');
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipError('Corrupt ZIP central directory');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+
+    const rawName = buffer.subarray(offset + 46, offset + 46 + nameLength);
+    // Names without the UTF-8 flag are usually CP437; latin1 keeps ASCII intact
+    const path = rawName.toString(flags & FLAG_UTF8 ? 'utf8' : 'latin1').replace(/\\/g, '/');
+    const isEncrypted = (flags & FLAG_ENCRYPTED) !== 0;
+
+    entries.push({
+      path,
+      isDirectory: path.endsWith('/'),
+      isEncrypted,
+      compressedSize,
+      size,
+      read() {
+        if (isEncrypted) throw new ZipError('Entry is password-protected');
+        if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+          throw new ZipError('Corrupt ZIP entry header');
+        }
+        // The local header's name and extra field can differ in length from the central directory's
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) return Buffer.from(data);
+        if (method === 8) return inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+        throw new ZipError(`Unsupported compression method ${method}`);
+      },
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+type JsonSchema = Record<string, unknown>;
+
+function withDescription(schema: z.ZodTypeAny, json: JsonSchema): JsonSchema {
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function nullable(json: JsonSchema): JsonSchema {
+  if (typeof json.type === 'string') {
+    return { ...json, type: [json.type, 'null'] };
+  }
+  return { anyOf: [json, { type: 'null' }] };
+}
+
+/**
+ * Convert a zod schema to JSON Schema for LLM tool definitions. Covers the
+ * subset our output schemas use; anything else becomes an unconstrained
+ * value rather than failing, since zod still validates the result.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.ZodObject<z.ZodRawShape>).shape;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      return withDescription(schema, {
+        type: 'object',
+        properties,
+        ...(required.length > 0 && { required }),
+      });
+    }
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return withDescription(schema, { type: 'array', items: zodToJsonSchema(def.type) });
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return withDescription(schema, { type: 'string' });
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return withDescription(schema, { type: 'number' });
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription(schema, { type: 'boolean' });
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription(schema, { type: 'string', enum: def.values });
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return withDescription(schema, { type: 'string', enum: Object.values(def.values) });
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return withDescription(schema, { const: def.value });
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return withDescription(schema, { anyOf: (def.options as z.ZodTypeAny[]).map(zodToJsonSchema) });
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return withDescription(schema, { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) });
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return withDescription(schema, nullable(zodToJsonSchema(def.innerType)));
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+      return withDescription(schema, zodToJsonSchema(def.innerType));
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return withDescription(schema, zodToJsonSchema(def.schema));
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return withDescription(schema, zodToJsonSchema(def.in));
+    default:
+      return withDescription(schema, {});
+  }
+}
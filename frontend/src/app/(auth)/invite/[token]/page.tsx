@@ -0,0 +1,69 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, Mail } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAcceptInvitation, useInvitation } from '@/hooks/use-onboarding';
+
+export default function InvitePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const router = useRouter();
+  const { data: invitation, isLoading, error } = useInvitation(token);
+  const acceptInvitation = useAcceptInvitation();
+
+  const handleAccept = async () => {
+    try {
+      await acceptInvitation.mutateAsync(token);
+      toast.success(`Welcome to ${invitation?.firm.name}`);
+      router.replace('/dashboard');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to accept invitation');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      {isLoading ? (
+        <Skeleton className="h-48 w-full max-w-md" />
+      ) : !invitation ? (
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Invitation unavailable</CardTitle>
+            <CardDescription>{error instanceof Error ? error.message : 'This invitation could not be found.'}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/onboarding">
+              <Button variant="outline" className="w-full">
+                Continue to setup
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Join {invitation.firm.name}
+            </CardTitle>
+            <CardDescription>
+              {invitation.invitedBy.name} invited {invitation.email} to join as{' '}
+              {invitation.role.charAt(0) + invitation.role.slice(1).toLowerCase()}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full" onClick={handleAccept} disabled={acceptInvitation.isPending}>
+              {acceptInvitation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Accept Invitation
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
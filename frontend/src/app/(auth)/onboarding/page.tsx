@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Building2, Loader2, Mail } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAcceptInvitation, useCreateFirm, useOnboardingStatus } from '@/hooks/use-onboarding';
+
+const roleLabels: Record<string, string> = {
+  ADMIN: 'Admin',
+  ATTORNEY: 'Attorney',
+  PARALEGAL: 'Paralegal',
+  VIEWER: 'Viewer',
+};
+
+export default function OnboardingPage() {
+  const router = useRouter();
+  const { data: status, isLoading } = useOnboardingStatus();
+  const createFirm = useCreateFirm();
+  const acceptInvitation = useAcceptInvitation();
+  const [firmName, setFirmName] = useState('');
+  const [name, setName] = useState('');
+
+  // Already in a firm: nothing to do here
+  useEffect(() => {
+    if (status?.status === 'active') {
+      router.replace('/dashboard');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (status?.profile?.name) {
+      setName((current) => current || status.profile!.name!);
+    }
+  }, [status]);
+
+  const handleCreateFirm = async () => {
+    try {
+      await createFirm.mutateAsync({ firmName, name: name || undefined });
+      toast.success('Your firm is ready');
+      router.replace('/dashboard');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create firm');
+    }
+  };
+
+  const handleAccept = async (token: string) => {
+    try {
+      await acceptInvitation.mutateAsync(token);
+      router.replace('/dashboard');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to accept invitation');
+    }
+  };
+
+  if (isLoading || !status || status.status === 'active') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Skeleton className="h-64 w-full max-w-md" />
+      </div>
+    );
+  }
+
+  if (status.status === 'deactivated') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Account deactivated</CardTitle>
+            <CardDescription>
+              An administrator at {status.user?.firm.name} has deactivated your account. Contact them to restore
+              access.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4 py-12">
+      <div className="w-full max-w-md space-y-6">
+        {status.invitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Mail className="h-5 w-5" />
+                You&apos;ve been invited
+              </CardTitle>
+              <CardDescription>Join your firm to start working on its cases.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {status.invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{invitation.firm.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {roleLabels[invitation.role]} • invited by {invitation.invitedBy.name}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => invitation.token && handleAccept(invitation.token)}
+                    disabled={acceptInvitation.isPending}
+                  >
+                    {acceptInvitation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Join
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              Set up your firm
+            </CardTitle>
+            <CardDescription>
+              {status.invitations.length > 0
+                ? 'Or start a new firm of your own. You will be its admin.'
+                : "Create your firm to get started. You'll be its admin and can invite your team."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleCreateFirm();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="firm-name">Firm name</Label>
+                <Input
+                  id="firm-name"
+                  placeholder="Johnson & Associates"
+                  value={firmName}
+                  onChange={(e) => setFirmName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="your-name">Your name</Label>
+                <Input id="your-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <Button type="submit" className="w-full" disabled={!firmName.trim() || createFirm.isPending}>
+                {createFirm.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Firm
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
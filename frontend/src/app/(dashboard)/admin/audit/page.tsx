@@ -0,0 +1,32 @@
+'use client';
+
+import { PageHeader } from '@/components/layout/page-header';
+import { AuditLogTable } from '@/components/admin';
+import { EmptyState } from '@/components/ui/empty-state';
+import { Skeleton } from '@/components/ui/skeleton';
+import { usePermissions } from '@/hooks/use-permissions';
+import { ShieldAlert } from 'lucide-react';
+
+export default function AuditLogPage() {
+  const { can, isLoading } = usePermissions();
+
+  return (
+    <div className="space-y-6 pb-8">
+      <PageHeader
+        title="Audit Log"
+        description="Who viewed, edited, generated and exported what across the firm's cases"
+      />
+      {isLoading ? (
+        <Skeleton className="h-96 w-full" />
+      ) : can('audit:view') ? (
+        <AuditLogTable />
+      ) : (
+        <EmptyState
+          icon={ShieldAlert}
+          title="Access restricted"
+          description="Ask a firm admin for permission to view the audit log."
+        />
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,10 @@
 import { use, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import { MedicalEvent, MedicalChronology } from '@/types';
+import { Job, MedicalEvent, MedicalChronology } from '@/types';
+import { useCaseJobs } from '@/hooks/use-case-jobs';
+import { useDocument } from '@/hooks/use-documents';
+import { usePermissions } from '@/hooks/use-permissions';
 import { PageHeader } from '@/components/layout/page-header';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -28,6 +31,7 @@ import { PainScoreChart } from '@/components/chronology/pain-score-chart';
 import { CostBreakdown } from '@/components/chronology/cost-breakdown';
 import { TreatmentGapAlert } from '@/components/chronology/treatment-gap-alert';
 import { ChronologySummary } from '@/components/chronology/chronology-summary';
+import { DocumentPreviewModal } from '@/components/documents/document-preview-modal';
 
 interface ChronologyResponse {
   success: boolean;
@@ -55,6 +59,11 @@ export default function ChronologyPage({
   const { id: caseId } = use(params);
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState('timeline');
+  const [citation, setCitation] = useState<{ documentId: string; page: number } | null>(null);
+  const { can } = usePermissions();
+
+  // Source document for an opened "p. N" citation (includes a signed download URL)
+  const { data: citedDocument } = useDocument(caseId, citation?.documentId || '');
 
   // Fetch chronology
   const { data: chronologyData, isLoading: chronologyLoading } = useQuery({
@@ -74,15 +83,19 @@ export default function ChronologyPage({
     },
   });
 
+  // Background jobs (chronology generation runs in the job queue)
+  const { activeJobs } = useCaseJobs(caseId);
+  const isChronologyQueued = activeJobs.some((job) => job.type === 'generate-chronology');
+
   // Generate chronology mutation
   const generateMutation = useMutation({
     mutationFn: async () => {
-      const response = await api.post<MedicalChronology>(`/cases/${caseId}/chronology/generate`);
+      const response = await api.post<Job>(`/cases/${caseId}/chronology/generate`);
       return response.data;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['chronology', caseId] });
-      toast.success('Chronology generated successfully');
+      queryClient.invalidateQueries({ queryKey: ['case-jobs', caseId] });
+      toast.success('Chronology generation queued');
     },
     onError: (error: Error) => {
       toast.error(error.message || 'Failed to generate chronology');
@@ -120,17 +133,21 @@ export default function ChronologyPage({
           : 'Generate a chronology from your medical records'
         }
         actions={
-          <Button
-            onClick={() => generateMutation.mutate()}
-            disabled={generateMutation.isPending || !hasEvents}
-          >
-            {generateMutation.isPending ? (
-              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-            ) : (
-              <RefreshCw className="mr-2 h-4 w-4" />
-            )}
-            {hasChronology ? 'Regenerate' : 'Generate'} Chronology
-          </Button>
+          can('chronology:generate') && (
+            <Button
+              onClick={() => generateMutation.mutate()}
+              disabled={generateMutation.isPending || isChronologyQueued || !hasEvents}
+            >
+              {generateMutation.isPending || isChronologyQueued ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              {isChronologyQueued
+                ? 'Generating Chronology...'
+                : `${hasChronology ? 'Regenerate' : 'Generate'} Chronology`}
+            </Button>
+          )
         }
       />
 
@@ -143,9 +160,11 @@ export default function ChronologyPage({
               Upload and process medical records or bills to generate a medical chronology.
               The system will automatically extract treatment dates, diagnoses, and costs.
             </p>
-            <Button className="mt-4" variant="outline" asChild>
-              <a href={`/cases/${caseId}/documents`}>Upload Documents</a>
-            </Button>
+            {can('document:upload') && (
+              <Button className="mt-4" variant="outline" asChild>
+                <a href={`/cases/${caseId}/documents`}>Upload Documents</a>
+              </Button>
+            )}
           </CardContent>
         </Card>
       )}
@@ -250,11 +269,15 @@ export default function ChronologyPage({
               <MedicalTimeline
                 events={events}
                 gaps={chronology?.treatmentGaps}
+                onCitationClick={(documentId, page) => setCitation({ documentId, page })}
               />
             </TabsContent>
 
             <TabsContent value="table" className="mt-6">
-              <ChronologyTable events={events} />
+              <ChronologyTable
+                events={events}
+                onCitationClick={(documentId, page) => setCitation({ documentId, page })}
+              />
             </TabsContent>
 
             <TabsContent value="pain" className="mt-6">
@@ -272,6 +295,13 @@ export default function ChronologyPage({
               />
             </TabsContent>
           </Tabs>
+
+          <DocumentPreviewModal
+            document={citation && citedDocument?.id === citation.documentId ? citedDocument : null}
+            open={!!citation}
+            onOpenChange={(open) => !open && setCitation(null)}
+            initialPage={citation?.page}
+          />
         </>
       )}
     </div>
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { useQuery } from '@tanstack/react-query';
 import { api } from '@/lib/api';
 import { toast } from 'sonner';
@@ -14,20 +14,27 @@ import {
   DocumentList,
   ProcessingStatus,
   DocumentPreviewModal,
+  SplitEditorDialog,
+  EmailInCard,
 } from '@/components/documents';
 import {
   useDocuments,
   useDeleteDocument,
   useReprocessDocument,
+  useResolveDuplicate,
+  useSplitDocument,
 } from '@/hooks/use-documents';
 import { useDocumentUpload } from '@/hooks/use-document-upload';
-import { Case, Document } from '@/types';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Case, Document, DuplicateAction } from '@/types';
 import { ArrowRight, FileText, Sparkles } from 'lucide-react';
 
 export default function DocumentsPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const caseId = params.id as string;
+  const linkedDocumentId = searchParams.get('document');
 
   // Fetch case data
   const { data: caseData, isLoading: caseLoading } = useQuery({
@@ -48,6 +55,9 @@ export default function DocumentsPage() {
   // Document mutations
   const deleteDocument = useDeleteDocument(caseId);
   const reprocessDocument = useReprocessDocument(caseId);
+  const resolveDuplicate = useResolveDuplicate(caseId);
+  const splitDocument = useSplitDocument(caseId);
+  const { can } = usePermissions();
 
   // Upload state
   const {
@@ -64,7 +74,7 @@ export default function DocumentsPage() {
       refetchDocuments();
     },
     onError: (file, error) => {
-      toast.error(`Failed to upload ${file.file.name}`, {
+      toast.error(`Failed to upload ${file.name}`, {
         description: error.message,
       });
     },
@@ -74,6 +84,9 @@ export default function DocumentsPage() {
   const [previewDocument, setPreviewDocument] = useState<Document | null>(null);
   const [previewIndex, setPreviewIndex] = useState(0);
 
+  // Split editor state
+  const [splittingDocument, setSplittingDocument] = useState<Document | null>(null);
+
   const documents = documentsData?.documents || [];
 
   // Handle file drop
@@ -105,6 +118,16 @@ export default function DocumentsPage() {
     [documents]
   );
 
+  // Open the document linked from global search once documents load
+  useEffect(() => {
+    if (!linkedDocumentId) return;
+    const linked = documents.find((d) => d.id === linkedDocumentId);
+    if (linked) {
+      handlePreview(linked);
+      router.replace(`/cases/${caseId}/documents`, { scroll: false });
+    }
+  }, [linkedDocumentId, documents, handlePreview, router, caseId]);
+
   const handleDownload = useCallback((doc: Document) => {
     window.open(doc.fileUrl, '_blank');
   }, []);
@@ -133,6 +156,36 @@ export default function DocumentsPage() {
     [reprocessDocument]
   );
 
+  const handleResolveDuplicate = useCallback(
+    async (doc: Document, action: DuplicateAction) => {
+      try {
+        await resolveDuplicate.mutateAsync({ documentId: doc.id, action });
+        toast.success(action === 'merge' ? 'Merged into the original document' : 'Kept as a separate document');
+      } catch {
+        toast.error('Failed to resolve duplicate');
+      }
+    },
+    [resolveDuplicate]
+  );
+
+  const handleSaveSplit = useCallback(
+    async (splitPoints: number[]) => {
+      if (!splittingDocument) return;
+      try {
+        await splitDocument.mutateAsync({ documentId: splittingDocument.id, splitPoints });
+        toast.success(
+          splitPoints.length > 0
+            ? `Split into ${splitPoints.length + 1} documents; changed parts are being processed`
+            : 'Kept as one document; it is being processed again'
+        );
+        setSplittingDocument(null);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to split document');
+      }
+    },
+    [splitDocument, splittingDocument]
+  );
+
   // Preview navigation
   const handlePreviousPreview = useCallback(() => {
     if (previewIndex > 0) {
@@ -176,14 +229,15 @@ export default function DocumentsPage() {
     <div className="space-y-6">
       <PageHeader
         title="Documents"
-        description={`Upload and manage documents for ${clientName}`}
+        description={`${can('document:upload') ? 'Upload and manage' : 'Review'} documents for ${clientName}`}
         breadcrumbItems={[
           { label: 'Cases', href: '/cases' },
           { label: clientName, href: `/cases/${caseId}` },
           { label: 'Documents' },
         ]}
         actions={
-          hasMinimumDocuments && (
+          hasMinimumDocuments &&
+          can('letter:generate') && (
             <Button
               onClick={() => router.push(`/cases/${caseId}/generate`)}
               disabled={!isAllProcessed}
@@ -197,18 +251,22 @@ export default function DocumentsPage() {
       />
 
       {/* Upload Zone */}
-      {documents.length === 0 ? (
-        <UploadZone
-          onFilesAdded={handleFilesAdded}
-          disabled={isUploading}
-          className="min-h-[200px]"
-        />
-      ) : (
-        <CompactUploadZone
-          onFilesAdded={handleFilesAdded}
-          disabled={isUploading}
-        />
-      )}
+      {can('document:upload') &&
+        (documents.length === 0 ? (
+          <UploadZone
+            onFilesAdded={handleFilesAdded}
+            disabled={isUploading}
+            className="min-h-[200px]"
+          />
+        ) : (
+          <CompactUploadZone
+            onFilesAdded={handleFilesAdded}
+            disabled={isUploading}
+          />
+        ))}
+
+      {/* Email-in Address */}
+      {can('document:upload') && <EmailInCard caseId={caseId} canReset={can('case:edit')} />}
 
       {/* Upload Progress */}
       <UploadProgress
@@ -240,13 +298,15 @@ export default function DocumentsPage() {
           isLoading={documentsLoading}
           onPreview={handlePreview}
           onDownload={handleDownload}
-          onDelete={handleDelete}
-          onReprocess={handleReprocess}
+          onDelete={can('document:delete') ? handleDelete : undefined}
+          onReprocess={can('document:reprocess') ? handleReprocess : undefined}
+          onResolveDuplicate={can('document:reprocess') ? handleResolveDuplicate : undefined}
+          onEditSplit={can('document:reprocess') ? setSplittingDocument : undefined}
         />
       </div>
 
       {/* Generate CTA when ready */}
-      {hasMinimumDocuments && isAllProcessed && (
+      {hasMinimumDocuments && isAllProcessed && can('letter:generate') && (
         <div className="rounded-lg border bg-gradient-to-r from-primary/5 to-primary/10 p-6 text-center">
           <Sparkles className="h-8 w-8 text-primary mx-auto mb-3" />
           <h3 className="text-lg font-semibold">Ready to Generate</h3>
@@ -272,6 +332,19 @@ export default function DocumentsPage() {
         hasPrevious={previewIndex > 0}
         hasNext={previewIndex < documents.length - 1}
       />
+
+      {/* Split Editor */}
+      {splittingDocument && (
+        <SplitEditorDialog
+          key={splittingDocument.id}
+          document={splittingDocument}
+          parts={documents.filter((d) => d.parentDocumentId === splittingDocument.id)}
+          open
+          onOpenChange={(open) => !open && setSplittingDocument(null)}
+          onSave={handleSaveSplit}
+          isSaving={splitDocument.isPending}
+        />
+      )}
     </div>
   );
 }
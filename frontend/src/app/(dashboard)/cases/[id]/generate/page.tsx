@@ -14,12 +14,19 @@ import {
   DocumentTypeSelector,
   DataSummary,
   LetterPreview,
+  LetterEditor,
+  RedlineView,
   WarningPanel,
   ExportPanel,
+  ExhibitPacketPanel,
+  SectionRegeneratePanel,
   VersionHistory,
 } from '@/components/generation';
 import { useGeneration, toneOptions } from '@/hooks/use-generation';
 import { useDocuments } from '@/hooks/use-documents';
+import { useCaseJobs } from '@/hooks/use-case-jobs';
+import { useFinalizeVersion } from '@/hooks/use-drafts';
+import { usePermissions } from '@/hooks/use-permissions';
 import { Case, GeneratedDocType, GeneratedDocument } from '@/types';
 import {
   Sparkles,
@@ -28,6 +35,9 @@ import {
   ArrowLeft,
   RefreshCw,
   FileText,
+  PencilLine,
+  GitCompare,
+  BadgeCheck,
 } from 'lucide-react';
 
 export default function GeneratePage() {
@@ -39,6 +49,8 @@ export default function GeneratePage() {
   const [selectedType, setSelectedType] = useState<GeneratedDocType>('DEMAND_LETTER');
   const [selectedTone, setSelectedTone] = useState('professional');
   const [selectedVersion, setSelectedVersion] = useState<GeneratedDocument | null>(null);
+  const [viewMode, setViewMode] = useState<'preview' | 'edit' | 'compare'>('preview');
+  const [compareToId, setCompareToId] = useState<string | undefined>();
 
   // Fetch case data
   const { data: caseData, isLoading: caseLoading } = useQuery({
@@ -67,13 +79,24 @@ export default function GeneratePage() {
     getLatestVersion,
   } = useGeneration(caseId);
 
+  // Section regeneration runs as a background job
+  const { activeJobs } = useCaseJobs(caseId);
+  const finalizeVersion = useFinalizeVersion(caseId);
+  const { can } = usePermissions();
+  const isRegeneratingSection = activeJobs.some((job) => job.type === 'regenerate-section');
+
   // Display content (from streaming or selected version)
   const displayContent = selectedVersion?.content || content;
   const displayWarnings = selectedVersion?.warnings || warnings;
 
+  // Saved version behind the preview; streamed content isn't editable until saved
+  const activeVersion = selectedVersion || (isGenerating ? undefined : getLatestVersion(selectedType));
+  const typeVersions = generatedDocuments.filter((doc) => doc.documentType === selectedType);
+
   // Handle generate
   const handleGenerate = useCallback(async () => {
     setSelectedVersion(null);
+    setViewMode('preview');
     await generate({
       documentType: selectedType,
       tone: selectedTone,
@@ -83,8 +106,32 @@ export default function GeneratePage() {
   // Handle version select
   const handleVersionSelect = useCallback((doc: GeneratedDocument) => {
     setSelectedVersion(doc);
+    setViewMode('preview');
+  }, []);
+
+  const handleCompare = useCallback((doc: GeneratedDocument) => {
+    setCompareToId(doc.id);
+    setViewMode('compare');
+  }, []);
+
+  const handleEditSaved = useCallback((doc: GeneratedDocument) => {
+    setSelectedVersion(doc);
+    setViewMode('preview');
   }, []);
 
+  const handleFinalize = useCallback(
+    async (doc: GeneratedDocument) => {
+      try {
+        const finalized = await finalizeVersion.mutateAsync(doc.id);
+        setSelectedVersion((current) => (current ? finalized : current));
+        toast.success(`Version ${doc.version} marked final`);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to finalize version');
+      }
+    },
+    [finalizeVersion]
+  );
+
   // Check document readiness
   const completedDocs = documents.filter((d) => d.processingStatus === 'COMPLETED');
   const hasRequiredDocs = completedDocs.length >= 1;
@@ -148,6 +195,7 @@ export default function GeneratePage() {
                 value={selectedType}
                 onChange={setSelectedType}
                 existingDocuments={generatedDocuments}
+                excludeTypes={caseData?.defendantType === 'PRIVATE' ? ['GOVERNMENT_CLAIM'] : []}
                 disabled={isGenerating}
               />
             </CardContent>
@@ -170,42 +218,44 @@ export default function GeneratePage() {
           )}
 
           {/* Generate Button */}
-          <div className="space-y-3">
-            {isGenerating ? (
-              <Button
-                variant="destructive"
-                className="w-full"
-                onClick={cancel}
-              >
-                <StopCircle className="mr-2 h-4 w-4" />
-                Stop Generation
-              </Button>
-            ) : (
-              <Button
-                className="w-full"
-                size="lg"
-                onClick={handleGenerate}
-                disabled={!hasRequiredDocs}
-              >
-                <Sparkles className="mr-2 h-4 w-4" />
-                Generate {selectedType === 'DEMAND_LETTER' ? 'Demand Letter' : 'Document'}
-              </Button>
-            )}
+          {can('letter:generate') && (
+            <div className="space-y-3">
+              {isGenerating ? (
+                <Button
+                  variant="destructive"
+                  className="w-full"
+                  onClick={cancel}
+                >
+                  <StopCircle className="mr-2 h-4 w-4" />
+                  Stop Generation
+                </Button>
+              ) : (
+                <Button
+                  className="w-full"
+                  size="lg"
+                  onClick={handleGenerate}
+                  disabled={!hasRequiredDocs}
+                >
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  Generate {selectedType === 'DEMAND_LETTER' ? 'Demand Letter' : 'Document'}
+                </Button>
+              )}
 
-            {displayContent && !isGenerating && (
-              <Button
-                variant="outline"
-                className="w-full"
-                onClick={handleGenerate}
-              >
-                <RefreshCw className="mr-2 h-4 w-4" />
-                Regenerate
-              </Button>
-            )}
-          </div>
+              {displayContent && !isGenerating && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleGenerate}
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Regenerate
+                </Button>
+              )}
+            </div>
+          )}
 
           {/* Export Panel */}
-          {displayContent && (
+          {displayContent && can('export') && (
             <ExportPanel
               content={displayContent}
               documentId={selectedVersion?.id || getLatestVersion(selectedType)?.id}
@@ -214,24 +264,110 @@ export default function GeneratePage() {
             />
           )}
 
+          {/* Section Regeneration */}
+          {selectedType === 'DEMAND_LETTER' && activeVersion && can('letter:generate') && (
+            <SectionRegeneratePanel
+              caseId={caseId}
+              document={activeVersion}
+              isRegenerating={isRegeneratingSection}
+              onQueued={() => setSelectedVersion(null)}
+              disabled={isGenerating}
+            />
+          )}
+
+          {/* Exhibit Packet */}
+          {documents.length > 0 && can('export') && (
+            <ExhibitPacketPanel
+              caseId={caseId}
+              documents={documents}
+              letterId={
+                selectedType === 'DEMAND_LETTER'
+                  ? selectedVersion?.id || getLatestVersion('DEMAND_LETTER')?.id
+                  : undefined
+              }
+              disabled={isGenerating}
+            />
+          )}
+
           {/* Version History */}
           {generatedDocuments.length > 0 && (
             <VersionHistory
               documents={generatedDocuments}
               currentType={selectedType}
               onSelect={handleVersionSelect}
+              onCompare={handleCompare}
             />
           )}
         </div>
 
         {/* Right Panel - Preview */}
         <div className="space-y-6 lg:sticky lg:top-6 lg:max-h-[calc(100vh-6rem)]">
-          <LetterPreview
-            content={displayContent}
-            isLoading={isGenerating && !content}
-            isStreaming={isStreaming}
-            className="min-h-[500px] lg:h-[calc(100vh-12rem)]"
-          />
+          {viewMode === 'edit' && activeVersion && can('letter:edit') ? (
+            <LetterEditor
+              key={activeVersion.id}
+              caseId={caseId}
+              document={activeVersion}
+              onSaved={handleEditSaved}
+              onCancel={() => setViewMode('preview')}
+              className="min-h-[500px] lg:h-[calc(100vh-12rem)]"
+            />
+          ) : viewMode === 'compare' && typeVersions.length > 1 ? (
+            <RedlineView
+              key={compareToId}
+              caseId={caseId}
+              versions={typeVersions}
+              initialToId={compareToId}
+              onClose={() => setViewMode('preview')}
+              className="min-h-[500px] lg:h-[calc(100vh-12rem)]"
+            />
+          ) : (
+            <LetterPreview
+              content={displayContent}
+              isLoading={isGenerating && !content}
+              isStreaming={isStreaming}
+              actions={
+                activeVersion && (
+                  <>
+                    {typeVersions.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8"
+                        onClick={() => handleCompare(activeVersion)}
+                      >
+                        <GitCompare className="mr-1 h-4 w-4" />
+                        Compare
+                      </Button>
+                    )}
+                    {can('letter:finalize') && !activeVersion.finalizedAt && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8"
+                        onClick={() => handleFinalize(activeVersion)}
+                        disabled={finalizeVersion.isPending}
+                      >
+                        <BadgeCheck className="mr-1 h-4 w-4" />
+                        Finalize
+                      </Button>
+                    )}
+                    {can('letter:edit') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8"
+                        onClick={() => setViewMode('edit')}
+                      >
+                        <PencilLine className="mr-1 h-4 w-4" />
+                        Edit
+                      </Button>
+                    )}
+                  </>
+                )
+              }
+              className="min-h-[500px] lg:h-[calc(100vh-12rem)]"
+            />
+          )}
 
           {/* Warnings */}
           {displayWarnings.length > 0 && (
@@ -243,15 +379,17 @@ export default function GeneratePage() {
             <Card className="border-destructive bg-destructive/10">
               <CardContent className="py-4">
                 <p className="text-sm text-destructive">{error}</p>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="mt-2"
-                  onClick={handleGenerate}
-                >
-                  <RefreshCw className="mr-2 h-4 w-4" />
-                  Try Again
-                </Button>
+                {can('letter:generate') && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={handleGenerate}
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Try Again
+                  </Button>
+                )}
               </CardContent>
             </Card>
           )}
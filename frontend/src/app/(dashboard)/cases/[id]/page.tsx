@@ -13,6 +13,11 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { EmptyState } from '@/components/ui/empty-state';
+import { DamagesCalculator } from '@/components/damages';
+import { CaseDeadlinesCard, DeadlineBanner, GovernmentClaimTracker } from '@/components/deadlines';
+import { CaseTeamCard } from '@/components/team';
+import { defendantTypes } from '@/lib/schemas/case';
+import { usePermissions } from '@/hooks/use-permissions';
 import { Separator } from '@/components/ui/separator';
 import {
   FileText,
@@ -31,20 +36,9 @@ import {
   Clock,
   CheckCircle2,
   AlertCircle,
+  Landmark,
 } from 'lucide-react';
 
-interface DamagesCalculation {
-  specialDamages?: {
-    medicalBills?: number;
-    wageLoss?: number;
-    total?: number;
-  };
-  generalDamages?: {
-    total?: number;
-  };
-  total?: number;
-}
-
 interface Warning {
   message: string;
   severity: 'critical' | 'moderate' | 'minor';
@@ -57,6 +51,7 @@ export default function CaseDetailPage({
 }) {
   const { id } = use(params);
   const router = useRouter();
+  const { can } = usePermissions();
 
   const { data, isLoading } = useQuery({
     queryKey: ['case', id],
@@ -96,8 +91,13 @@ export default function CaseDetailPage({
   }
 
   const clientName = `${caseData.clientFirstName} ${caseData.clientLastName}`;
-  const damages = caseData.damagesCalculation as DamagesCalculation | undefined;
-  const warnings = caseData.attorneyWarnings as Warning[] | undefined;
+  const damages = caseData.damagesCalculation;
+  const deadlines = caseData.deadlines ?? [];
+  const isPublicDefendant = caseData.defendantType && caseData.defendantType !== 'PRIVATE';
+  const warnings = [
+    ...(caseData.deadlineWarnings ?? []),
+    ...(caseData.attorneyWarnings ?? []),
+  ] as Warning[];
 
   const statusVariants: Record<string, 'intake' | 'processing' | 'ready' | 'review' | 'sent' | 'settled' | 'closed'> = {
     INTAKE: 'intake',
@@ -151,7 +151,7 @@ export default function CaseDetailPage({
             <Link href={`/cases/${id}/generate`}>
               <Button>
                 <Sparkles className="mr-2 h-4 w-4" />
-                Generate Letter
+                {can('letter:generate') ? 'Generate Letter' : 'Letters'}
               </Button>
             </Link>
           </div>
@@ -162,6 +162,8 @@ export default function CaseDetailPage({
         </Badge>
       </PageHeader>
 
+      <DeadlineBanner deadlines={deadlines} />
+
       <div className="grid gap-6 lg:grid-cols-3">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
@@ -242,7 +244,7 @@ export default function CaseDetailPage({
           </Card>
 
           {/* Defendant/Insurance Information */}
-          {(caseData.defendantName || caseData.defendantInsuranceCompany) && (
+          {(caseData.defendantName || caseData.defendantInsuranceCompany || isPublicDefendant) && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2 text-base">
@@ -257,6 +259,14 @@ export default function CaseDetailPage({
                     <p className="font-medium">{caseData.defendantName}</p>
                   </div>
                 )}
+                {isPublicDefendant && (
+                  <div>
+                    <p className="text-sm text-muted-foreground">Defendant Type</p>
+                    <p className="font-medium">
+                      {defendantTypes.find((t) => t.value === caseData.defendantType)?.label}
+                    </p>
+                  </div>
+                )}
                 {caseData.defendantInsuranceCompany && (
                   <div>
                     <p className="text-sm text-muted-foreground">Insurance Company</p>
@@ -277,6 +287,9 @@ export default function CaseDetailPage({
             </Card>
           )}
 
+          {/* Damages Calculator */}
+          {caseData._count?.documents ? <DamagesCalculator caseId={id} /> : null}
+
           {/* Documents Summary */}
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
@@ -313,9 +326,11 @@ export default function CaseDetailPage({
                   description="Upload medical records, bills, and other case documents."
                   size="sm"
                   action={
-                    <Link href={`/cases/${id}/documents`}>
-                      <Button size="sm">Upload Documents</Button>
-                    </Link>
+                    can('document:upload') && (
+                      <Link href={`/cases/${id}/documents`}>
+                        <Button size="sm">Upload Documents</Button>
+                      </Link>
+                    )
                   }
                 />
               )}
@@ -331,12 +346,14 @@ export default function CaseDetailPage({
               <CardTitle className="text-base">Quick Actions</CardTitle>
             </CardHeader>
             <CardContent className="space-y-2">
-              <Link href={`/cases/${id}/documents`} className="block">
-                <Button variant="outline" className="w-full justify-start">
-                  <Upload className="mr-2 h-4 w-4" />
-                  Upload Documents
-                </Button>
-              </Link>
+              {can('document:upload') && (
+                <Link href={`/cases/${id}/documents`} className="block">
+                  <Button variant="outline" className="w-full justify-start">
+                    <Upload className="mr-2 h-4 w-4" />
+                    Upload Documents
+                  </Button>
+                </Link>
+              )}
               <Link href={`/cases/${id}/chronology`} className="block">
                 <Button variant="outline" className="w-full justify-start">
                   <Activity className="mr-2 h-4 w-4" />
@@ -346,10 +363,16 @@ export default function CaseDetailPage({
               <Link href={`/cases/${id}/generate`} className="block">
                 <Button variant="outline" className="w-full justify-start">
                   <Sparkles className="mr-2 h-4 w-4" />
-                  Generate Letter
+                  {can('letter:generate') ? 'Generate Letter' : 'View Letters'}
+                </Button>
+              </Link>
+              <Link href={`/cases/${id}/settlement`} className="block">
+                <Button variant="outline" className="w-full justify-start">
+                  <Landmark className="mr-2 h-4 w-4" />
+                  Liens & Settlement
                 </Button>
               </Link>
-              {caseData._count?.generatedDocuments ? (
+              {caseData._count?.generatedDocuments && can('export') ? (
                 <Button variant="outline" className="w-full justify-start">
                   <Download className="mr-2 h-4 w-4" />
                   Download Latest
@@ -358,6 +381,20 @@ export default function CaseDetailPage({
             </CardContent>
           </Card>
 
+          {/* Case Team */}
+          <CaseTeamCard caseId={id} restricted={caseData.restricted} />
+
+          {/* Filing Deadlines */}
+          <CaseDeadlinesCard deadlines={deadlines} />
+          {isPublicDefendant && (
+            <GovernmentClaimTracker
+              key={`${caseData.governmentClaimFiledAt}-${caseData.governmentClaimRejectedAt}`}
+              caseId={id}
+              filedAt={caseData.governmentClaimFiledAt}
+              rejectedAt={caseData.governmentClaimRejectedAt}
+            />
+          )}
+
           {/* Damages Summary */}
           <Card>
             <CardHeader>
@@ -393,6 +430,14 @@ export default function CaseDetailPage({
                       </div>
                     </>
                   )}
+                  {damages.demandAmount !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="font-medium">Demand</span>
+                      <span className="font-bold text-lg text-primary">
+                        {formatCurrency(damages.demandAmount)}
+                      </span>
+                    </div>
+                  )}
                 </div>
               ) : (
                 <p className="text-sm text-muted-foreground text-center py-4">
@@ -403,7 +448,7 @@ export default function CaseDetailPage({
           </Card>
 
           {/* Warnings */}
-          {warnings && warnings.length > 0 && (
+          {warnings.length > 0 && (
             <Card className="border-warning">
               <CardHeader>
                 <CardTitle className="text-base flex items-center gap-2">
@@ -0,0 +1,65 @@
+'use client';
+
+import { use } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { Case } from '@/types';
+import { PageHeader, PageHeaderSkeleton } from '@/components/layout/page-header';
+import { Button } from '@/components/ui/button';
+import { LienTable, SettlementWorksheetCard } from '@/components/settlement';
+import { ArrowLeft } from 'lucide-react';
+
+export default function SettlementPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id: caseId } = use(params);
+  const router = useRouter();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['case', caseId],
+    queryFn: () => api.get<Case>(`/cases/${caseId}`),
+  });
+
+  const caseData = data?.data;
+
+  if (isLoading) {
+    return <PageHeaderSkeleton showActions />;
+  }
+
+  const clientName = caseData
+    ? `${caseData.clientFirstName} ${caseData.clientLastName}`
+    : 'Case';
+
+  return (
+    <div className="space-y-6 pb-8">
+      <PageHeader
+        title="Liens & Settlement"
+        description={`Track liens and compute the net to ${clientName}`}
+        breadcrumbItems={[
+          { label: 'Cases', href: '/cases' },
+          { label: clientName, href: `/cases/${caseId}` },
+          { label: 'Settlement' },
+        ]}
+        actions={
+          <Button variant="outline" onClick={() => router.push(`/cases/${caseId}`)}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Case
+          </Button>
+        }
+      />
+
+      <div className="grid gap-6 lg:grid-cols-5">
+        <LienTable caseId={caseId} className="lg:col-span-3" />
+        <SettlementWorksheetCard
+          caseId={caseId}
+          clientName={clientName}
+          suggestedAmount={caseData?.damagesCalculation?.range?.target.total}
+          className="lg:col-span-2"
+        />
+      </div>
+    </div>
+  );
+}
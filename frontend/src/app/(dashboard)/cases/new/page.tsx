@@ -14,6 +14,7 @@ import {
   type CreateCaseInput,
   incidentTypes,
   jurisdictions,
+  defendantTypes,
 } from '@/lib/schemas/case';
 import { User, Car, Building2, ArrowRight, Loader2 } from 'lucide-react';
 import { z } from 'zod';
@@ -32,14 +33,17 @@ export default function NewCasePage() {
     clientLastName: '',
     clientEmail: '',
     clientPhone: '',
+    clientDateOfBirth: '',
     incidentDate: '',
     incidentType: 'auto_accident',
     incidentLocation: '',
     incidentDescription: '',
     defendantName: '',
+    defendantType: 'PRIVATE',
     defendantInsuranceCompany: '',
     claimNumber: '',
     jurisdiction: 'CA',
+    statuteOfLimitations: '',
   });
   const [errors, setErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<Set<string>>(new Set());
@@ -49,6 +53,12 @@ export default function NewCasePage() {
       api.post<{ id: string }>('/cases', {
         ...data,
         incidentDate: new Date(data.incidentDate).toISOString(),
+        clientDateOfBirth: data.clientDateOfBirth
+          ? new Date(data.clientDateOfBirth).toISOString()
+          : undefined,
+        statuteOfLimitations: data.statuteOfLimitations
+          ? new Date(data.statuteOfLimitations).toISOString()
+          : undefined,
       }),
     onSuccess: (response: CaseCreateResponse) => {
       toast.success('Case created successfully!', {
@@ -190,6 +200,16 @@ export default function NewCasePage() {
               inputProps={{ placeholder: '(555) 123-4567' }}
               helpText="US phone number format"
             />
+            <FormField
+              name="clientDateOfBirth"
+              label="Date of Birth"
+              type="date"
+              optional
+              value={formData.clientDateOfBirth}
+              onChange={(value) => handleChange('clientDateOfBirth', value)}
+              error={getFieldError('clientDateOfBirth')}
+              helpText="Used to toll the statute of limitations for minors"
+            />
           </FormGrid>
         </FormSection>
 
@@ -269,6 +289,20 @@ export default function NewCasePage() {
               error={getFieldError('defendantName')}
               inputProps={{ placeholder: 'Name of the at-fault party' }}
             />
+            <FormField
+              name="defendantType"
+              label="Defendant Type"
+              type="select"
+              required
+              value={formData.defendantType}
+              onChange={(value) => handleChange('defendantType', value)}
+              error={getFieldError('defendantType')}
+              options={defendantTypes.map((t) => ({
+                value: t.value,
+                label: t.label,
+              }))}
+              helpText="Claims against public entities usually require a notice of claim within months of the incident"
+            />
             <FormGrid columns={2}>
               <FormField
                 name="defendantInsuranceCompany"
@@ -307,6 +341,16 @@ export default function NewCasePage() {
               }))}
               helpText="State where the incident occurred"
             />
+            <FormField
+              name="statuteOfLimitations"
+              label="Statute of Limitations"
+              type="date"
+              optional
+              value={formData.statuteOfLimitations}
+              onChange={(value) => handleChange('statuteOfLimitations', value)}
+              error={getFieldError('statuteOfLimitations')}
+              helpText="Leave blank to calculate it from the jurisdiction, incident date and client age"
+            />
           </div>
         </FormSection>
 
@@ -5,7 +5,7 @@ import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useQuery } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import { Case, CaseStatus } from '@/types';
+import { Case, CaseStatus, MyCasesFilter } from '@/types';
 import { PageHeader } from '@/components/layout/page-header';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -41,8 +41,11 @@ import {
   ChevronLeft,
   ChevronRight,
   X,
+  Lock,
+  UserCheck,
 } from 'lucide-react';
 import { useDebounce } from '@/hooks/use-debounce';
+import { usePermissions } from '@/hooks/use-permissions';
 
 const statusOptions = [
   { value: 'all', label: 'All Statuses' },
@@ -57,19 +60,28 @@ const statusOptions = [
   { value: 'CLOSED', label: 'Closed' },
 ];
 
+const assignmentOptions: { value: MyCasesFilter | 'all'; label: string }[] = [
+  { value: 'all', label: 'All Cases' },
+  { value: 'team', label: 'My Cases' },
+  { value: 'responsible', label: 'Responsible For' },
+];
+
 const ITEMS_PER_PAGE = 10;
 
 export default function CasesPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { can } = usePermissions();
 
   // State from URL params
   const initialSearch = searchParams.get('search') || '';
   const initialStatus = searchParams.get('status') || 'all';
+  const initialMine = searchParams.get('mine') || 'all';
   const initialPage = parseInt(searchParams.get('page') || '1', 10);
 
   const [searchQuery, setSearchQuery] = useState(initialSearch);
   const [statusFilter, setStatusFilter] = useState(initialStatus);
+  const [mineFilter, setMineFilter] = useState(initialMine);
   const [currentPage, setCurrentPage] = useState(initialPage);
 
   // Debounce search
@@ -77,11 +89,12 @@ export default function CasesPage() {
 
   // Fetch cases
   const { data: casesData, isLoading } = useQuery({
-    queryKey: ['cases', { search: debouncedSearch, status: statusFilter, page: currentPage }],
+    queryKey: ['cases', { search: debouncedSearch, status: statusFilter, mine: mineFilter, page: currentPage }],
     queryFn: async () => {
       let url = '/cases?';
       if (debouncedSearch) url += `search=${encodeURIComponent(debouncedSearch)}&`;
       if (statusFilter !== 'all') url += `status=${statusFilter}&`;
+      if (mineFilter !== 'all') url += `mine=${mineFilter}&`;
       url += `page=${currentPage}&limit=${ITEMS_PER_PAGE}`;
 
       const response = await api.get<{ cases: Case[]; total: number }>(url);
@@ -97,10 +110,11 @@ export default function CasesPage() {
   const clearFilters = () => {
     setSearchQuery('');
     setStatusFilter('all');
+    setMineFilter('all');
     setCurrentPage(1);
   };
 
-  const hasFilters = searchQuery || statusFilter !== 'all';
+  const hasFilters = searchQuery || statusFilter !== 'all' || mineFilter !== 'all';
 
   return (
     <div className="space-y-6 pb-8">
@@ -108,12 +122,14 @@ export default function CasesPage() {
         title="Cases"
         description={`${totalCases} total case${totalCases !== 1 ? 's' : ''}`}
         actions={
-          <Link href="/cases/new">
-            <Button>
-              <PlusCircle className="mr-2 h-4 w-4" />
-              New Case
-            </Button>
-          </Link>
+          can('case:create') && (
+            <Link href="/cases/new">
+              <Button>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                New Case
+              </Button>
+            </Link>
+          )
         }
       />
 
@@ -143,6 +159,25 @@ export default function CasesPage() {
               />
             </div>
             <div className="flex items-center gap-2">
+              <Select
+                value={mineFilter}
+                onValueChange={(value) => {
+                  setMineFilter(value);
+                  setCurrentPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <UserCheck className="mr-2 h-4 w-4" />
+                  <SelectValue placeholder="Assignment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignmentOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Select
                 value={statusFilter}
                 onValueChange={(value) => {
@@ -204,12 +239,14 @@ export default function CasesPage() {
                       Clear Filters
                     </Button>
                   ) : (
-                    <Link href="/cases/new">
-                      <Button>
-                        <PlusCircle className="mr-2 h-4 w-4" />
-                        Create Case
-                      </Button>
-                    </Link>
+                    can('case:create') && (
+                      <Link href="/cases/new">
+                        <Button>
+                          <PlusCircle className="mr-2 h-4 w-4" />
+                          Create Case
+                        </Button>
+                      </Link>
+                    )
                   )
                 }
               />
@@ -284,6 +321,7 @@ export default function CasesPage() {
 
 function CaseRow({ caseItem }: { caseItem: Case }) {
   const router = useRouter();
+  const responsibleAttorney = caseItem.team?.find((member) => member.role === 'RESPONSIBLE_ATTORNEY');
 
   const statusVariants: Record<string, 'intake' | 'processing' | 'ready' | 'review' | 'sent' | 'settled' | 'closed'> = {
     INTAKE: 'intake',
@@ -329,6 +367,9 @@ function CaseRow({ caseItem }: { caseItem: Case }) {
               #{caseItem.caseNumber}
             </span>
           )}
+          {caseItem.restricted && (
+            <Lock className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-label="Restricted to case team" />
+          )}
         </div>
         <div className="flex items-center gap-2 text-sm text-muted-foreground">
           <span>{caseItem.incidentType.replace(/_/g, ' ')}</span>
@@ -336,6 +377,12 @@ function CaseRow({ caseItem }: { caseItem: Case }) {
           <span>{formatShortDate(caseItem.incidentDate)}</span>
           <span>•</span>
           <span>{caseItem._count?.documents || 0} docs</span>
+          {responsibleAttorney && (
+            <>
+              <span>•</span>
+              <span className="truncate">{responsibleAttorney.user.name}</span>
+            </>
+          )}
         </div>
       </Link>
       <Badge variant={statusVariants[caseItem.status] || 'secondary'} size="sm">
@@ -10,7 +10,9 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { EmptyState } from '@/components/ui/empty-state';
+import { UpcomingDeadlinesCard } from '@/components/deadlines';
 import { formatDate, formatShortDate } from '@/lib/utils';
+import { usePermissions } from '@/hooks/use-permissions';
 import {
   PlusCircle,
   FileText,
@@ -32,6 +34,8 @@ interface DashboardStats {
 }
 
 export default function DashboardPage() {
+  const { can } = usePermissions();
+
   // Fetch dashboard stats
   const { data: stats, isLoading: statsLoading } = useQuery({
     queryKey: ['dashboard-stats'],
@@ -70,12 +74,14 @@ export default function DashboardPage() {
         description="Welcome back. Here's an overview of your cases."
         showBreadcrumbs={false}
         actions={
-          <Link href="/cases/new">
-            <Button>
-              <PlusCircle className="mr-2 h-4 w-4" />
-              New Case
-            </Button>
-          </Link>
+          can('case:create') && (
+            <Link href="/cases/new">
+              <Button>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                New Case
+              </Button>
+            </Link>
+          )
         }
       />
 
@@ -148,12 +154,14 @@ export default function DashboardPage() {
                 title="No cases yet"
                 description="Create your first case to get started with demand letter generation."
                 action={
-                  <Link href="/cases/new">
-                    <Button>
-                      <PlusCircle className="mr-2 h-4 w-4" />
-                      Create Case
-                    </Button>
-                  </Link>
+                  can('case:create') && (
+                    <Link href="/cases/new">
+                      <Button>
+                        <PlusCircle className="mr-2 h-4 w-4" />
+                        Create Case
+                      </Button>
+                    </Link>
+                  )
                 }
               />
             ) : (
@@ -184,20 +192,24 @@ export default function DashboardPage() {
           </CardContent>
         </Card>
 
-        {/* Quick Actions & Activity */}
+        {/* Deadlines, Quick Actions & Activity */}
         <div className="space-y-6">
+          <UpcomingDeadlinesCard />
+
           {/* Quick Actions */}
           <Card>
             <CardHeader>
               <CardTitle className="text-base">Quick Actions</CardTitle>
             </CardHeader>
             <CardContent className="space-y-2">
-              <Link href="/cases/new">
-                <Button variant="outline" className="w-full justify-start">
-                  <PlusCircle className="mr-2 h-4 w-4" />
-                  Create New Case
-                </Button>
-              </Link>
+              {can('case:create') && (
+                <Link href="/cases/new">
+                  <Button variant="outline" className="w-full justify-start">
+                    <PlusCircle className="mr-2 h-4 w-4" />
+                    Create New Case
+                  </Button>
+                </Link>
+              )}
               <Link href="/cases">
                 <Button variant="outline" className="w-full justify-start">
                   <FolderOpen className="mr-2 h-4 w-4" />
@@ -2,6 +2,7 @@ import { auth } from '@clerk/nextjs/server';
 import { redirect } from 'next/navigation';
 import { Sidebar } from '@/components/layout/sidebar';
 import { Header } from '@/components/layout/header';
+import { OnboardingGate } from '@/components/layout/onboarding-gate';
 
 export default async function DashboardLayout({
   children,
@@ -15,12 +16,14 @@ export default async function DashboardLayout({
   }
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <Sidebar />
-      <div className="lg:pl-64">
-        <Header />
-        <main className="py-6 px-4 sm:px-6 lg:px-8">{children}</main>
+    <OnboardingGate>
+      <div className="min-h-screen bg-gray-50">
+        <Sidebar />
+        <div className="lg:pl-64">
+          <Header />
+          <main className="py-6 px-4 sm:px-6 lg:px-8">{children}</main>
+        </div>
       </div>
-    </div>
+    </OnboardingGate>
   );
 }
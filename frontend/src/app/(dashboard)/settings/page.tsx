@@ -18,26 +18,34 @@ import {
   TabsTriggerUnderlined,
 } from '@/components/ui/tabs';
 import { UserAvatar } from '@/components/ui/avatar';
+import {
+  BatesSettingsCard,
+  InvitationsCard,
+  PlanUsageCard,
+  RolePermissionsCard,
+  TeamMembersCard,
+  UsageHistoryCard,
+} from '@/components/settings';
+import { usePermissions } from '@/hooks/use-permissions';
 import {
   User,
   Building2,
   CreditCard,
   Palette,
   Upload,
-  Check,
   AlertCircle,
-  Zap,
-  FileText,
   Users,
   Mail,
   Phone,
   MapPin,
+  ShieldCheck,
 } from 'lucide-react';
 import { toast } from 'sonner';
 
 export default function SettingsPage() {
   const { user, isLoaded: userLoaded } = useUser();
   const [saving, setSaving] = useState(false);
+  const { can, role } = usePermissions();
 
   // Firm settings state
   const [firmSettings, setFirmSettings] = useState({
@@ -90,10 +98,24 @@ export default function SettingsPage() {
             <Building2 className="h-4 w-4" />
             Firm Settings
           </TabsTriggerUnderlined>
-          <TabsTriggerUnderlined value="billing" className="flex items-center gap-2">
-            <CreditCard className="h-4 w-4" />
-            Billing
-          </TabsTriggerUnderlined>
+          {can('firm:manage') && (
+            <TabsTriggerUnderlined value="team" className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              Team
+            </TabsTriggerUnderlined>
+          )}
+          {can('firm:manage') && (
+            <TabsTriggerUnderlined value="permissions" className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              Permissions
+            </TabsTriggerUnderlined>
+          )}
+          {can('usage:view') && (
+            <TabsTriggerUnderlined value="billing" className="flex items-center gap-2">
+              <CreditCard className="h-4 w-4" />
+              Billing
+            </TabsTriggerUnderlined>
+          )}
         </TabsListUnderlined>
 
         {/* Profile Tab */}
@@ -117,9 +139,11 @@ export default function SettingsPage() {
                   <p className="text-muted-foreground">
                     {user?.primaryEmailAddress?.emailAddress}
                   </p>
-                  <Badge variant="secondary" className="mt-2">
-                    Attorney
-                  </Badge>
+                  {role && (
+                    <Badge variant="secondary" className="mt-2">
+                      {role.charAt(0) + role.slice(1).toLowerCase()}
+                    </Badge>
+                  )}
                 </div>
               </div>
 
@@ -346,6 +370,8 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          <BatesSettingsCard />
+
           <div className="flex justify-end gap-3">
             <Button variant="outline">Cancel</Button>
             <Button onClick={handleSave} disabled={saving}>
@@ -354,131 +380,28 @@ export default function SettingsPage() {
           </div>
         </TabsContent>
 
-        {/* Billing Tab */}
-        <TabsContent value="billing" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>Current Plan</CardTitle>
-              <CardDescription>
-                Manage your subscription and billing
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center justify-between rounded-lg border bg-primary/5 p-6">
-                <div className="flex items-center gap-4">
-                  <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-primary text-primary-foreground">
-                    <Zap className="h-6 w-6" />
-                  </div>
-                  <div>
-                    <div className="flex items-center gap-2">
-                      <h3 className="text-lg font-semibold">Professional Plan</h3>
-                      <Badge variant="success">Active</Badge>
-                    </div>
-                    <p className="text-muted-foreground">
-                      $999/month • Billed monthly
-                    </p>
-                  </div>
-                </div>
-                <Button variant="outline">Manage Subscription</Button>
-              </div>
-            </CardContent>
-          </Card>
+        {/* Team Tab */}
+        {can('firm:manage') && (
+          <TabsContent value="team" className="space-y-6">
+            <TeamMembersCard />
+            <InvitationsCard />
+          </TabsContent>
+        )}
 
-          <Card>
-            <CardHeader>
-              <CardTitle>Usage This Month</CardTitle>
-              <CardDescription>Your usage resets on the 1st of each month</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {[
-                {
-                  label: 'Cases Created',
-                  used: 12,
-                  limit: 50,
-                  icon: FileText,
-                },
-                {
-                  label: 'Documents Processed',
-                  used: 145,
-                  limit: 500,
-                  icon: FileText,
-                },
-                {
-                  label: 'Letters Generated',
-                  used: 28,
-                  limit: 100,
-                  icon: Zap,
-                },
-                {
-                  label: 'Team Members',
-                  used: 3,
-                  limit: 10,
-                  icon: Users,
-                },
-              ].map((item, index) => (
-                <div key={index} className="space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <div className="flex items-center gap-2">
-                      <item.icon className="h-4 w-4 text-muted-foreground" />
-                      <span>{item.label}</span>
-                    </div>
-                    <span className="font-medium">
-                      {item.used} / {item.limit}
-                    </span>
-                  </div>
-                  <div className="h-2 rounded-full bg-muted overflow-hidden">
-                    <div
-                      className="h-full bg-primary rounded-full transition-all"
-                      style={{ width: `${(item.used / item.limit) * 100}%` }}
-                    />
-                  </div>
-                </div>
-              ))}
-            </CardContent>
-          </Card>
+        {/* Permissions Tab */}
+        {can('firm:manage') && (
+          <TabsContent value="permissions" className="space-y-6">
+            <RolePermissionsCard />
+          </TabsContent>
+        )}
 
-          <Card>
-            <CardHeader>
-              <CardTitle>Billing History</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {[
-                  { date: 'Jan 1, 2026', amount: '$999.00', status: 'Paid' },
-                  { date: 'Dec 1, 2025', amount: '$999.00', status: 'Paid' },
-                  { date: 'Nov 1, 2025', amount: '$999.00', status: 'Paid' },
-                ].map((invoice, index) => (
-                  <div
-                    key={index}
-                    className="flex items-center justify-between rounded-lg border p-4"
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-muted">
-                        <FileText className="h-4 w-4 text-muted-foreground" />
-                      </div>
-                      <div>
-                        <p className="font-medium">{invoice.date}</p>
-                        <p className="text-sm text-muted-foreground">
-                          Professional Plan
-                        </p>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-4">
-                      <span className="font-medium">{invoice.amount}</span>
-                      <Badge variant="success" size="sm">
-                        <Check className="mr-1 h-3 w-3" />
-                        {invoice.status}
-                      </Badge>
-                      <Button variant="ghost" size="sm">
-                        Download
-                      </Button>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+        {/* Billing Tab */}
+        {can('usage:view') && (
+          <TabsContent value="billing" className="space-y-6">
+            <PlanUsageCard />
+            <UsageHistoryCard />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,376 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { EmptyState } from '@/components/ui/empty-state';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronDown, ChevronLeft, ChevronRight, Download, Loader2, ScrollText, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { AuditEvent, AuditEventFilters } from '@/types';
+import { downloadAuditLog, useAuditEvents, useAuditFacets } from '@/hooks/use-audit';
+import { useDebounce } from '@/hooks/use-debounce';
+
+const PAGE_SIZE = 50;
+
+const timestampFormat = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function statusVariant(statusCode: number): 'success' | 'warning' | 'destructive' {
+  if (statusCode >= 500) return 'destructive';
+  if (statusCode >= 400) return 'warning';
+  return 'success';
+}
+
+export function AuditLogTable({ className }: { className?: string }) {
+  const [filters, setFilters] = useState<AuditEventFilters>({});
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  // Free-text filters wait for typing to settle
+  const debouncedAction = useDebounce(filters.action ?? '', 300);
+  const debouncedCaseId = useDebounce(filters.caseId ?? '', 300);
+  const queryFilters: AuditEventFilters = {
+    ...filters,
+    action: debouncedAction.trim() || undefined,
+    caseId: debouncedCaseId.trim() || undefined,
+  };
+
+  const { data, isLoading, isFetching } = useAuditEvents(queryFilters, page, PAGE_SIZE);
+  const { data: facets } = useAuditFacets();
+
+  const events = data?.events ?? [];
+  const total = data?.total ?? 0;
+  const totalPages = data?.totalPages ?? 1;
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  const updateFilter = (key: keyof AuditEventFilters, value: string | undefined) => {
+    setFilters((current) => ({ ...current, [key]: value || undefined }));
+    setPage(1);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await downloadAuditLog(queryFilters);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <Card>
+        <CardContent className="grid gap-4 p-4 sm:grid-cols-2 lg:grid-cols-3">
+          <div className="space-y-2">
+            <Label>User</Label>
+            <Select
+              value={filters.actorId ?? 'all'}
+              onValueChange={(value) => updateFilter('actorId', value === 'all' ? undefined : value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="All users" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All users</SelectItem>
+                {facets?.actors.map((actor) => (
+                  <SelectItem key={actor.actorId} value={actor.actorId}>
+                    {actor.actorName || actor.actorEmail || actor.actorId}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Resource</Label>
+            <Select
+              value={filters.resourceType ?? 'all'}
+              onValueChange={(value) => updateFilter('resourceType', value === 'all' ? undefined : value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="All resources" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All resources</SelectItem>
+                {facets?.resourceTypes.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type.replace(/_/g, ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="audit-action">Action</Label>
+            <Input
+              id="audit-action"
+              placeholder="e.g. export or document.delete"
+              value={filters.action ?? ''}
+              onChange={(e) => updateFilter('action', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="audit-case">Case ID</Label>
+            <Input
+              id="audit-case"
+              placeholder="Case ID"
+              value={filters.caseId ?? ''}
+              onChange={(e) => updateFilter('caseId', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from ?? ''}
+              onChange={(e) => updateFilter('from', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.to ?? ''}
+              onChange={(e) => updateFilter('to', e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {total} event{total !== 1 ? 's' : ''}
+          {isFetching && !isLoading && <Loader2 className="ml-2 inline h-3 w-3 animate-spin" />}
+        </p>
+        <div className="flex items-center gap-2">
+          {hasFilters && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setFilters({});
+                setPage(1);
+              }}
+            >
+              <X className="mr-1 h-4 w-4" />
+              Clear filters
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting || total === 0}>
+            {exporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        {isLoading ? (
+          <CardContent className="space-y-2 p-4">
+            {Array.from({ length: 6 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </CardContent>
+        ) : events.length === 0 ? (
+          <EmptyState
+            icon={ScrollText}
+            title="No audit events"
+            description={hasFilters ? 'No events match these filters.' : 'Activity on cases will appear here.'}
+          />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Time</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Resource</TableHead>
+                <TableHead>Case</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>IP address</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <AuditEventRow
+                  key={event.id}
+                  event={event}
+                  expanded={expandedId === event.id}
+                  onToggle={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                />
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+            >
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AuditEventRow({
+  event,
+  expanded,
+  onToggle,
+}: {
+  event: AuditEvent;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const changes = event.changes ? Object.entries(event.changes) : [];
+  const metadata = event.metadata ? Object.entries(event.metadata) : [];
+
+  return (
+    <Fragment>
+      <TableRow className="cursor-pointer" onClick={onToggle}>
+        <TableCell>
+          <ChevronDown
+            className={cn('h-4 w-4 text-muted-foreground transition-transform', !expanded && '-rotate-90')}
+          />
+        </TableCell>
+        <TableCell className="whitespace-nowrap text-muted-foreground">
+          {timestampFormat.format(new Date(event.createdAt))}
+        </TableCell>
+        <TableCell>
+          <div className="font-medium">{event.actorName || '—'}</div>
+          <div className="text-xs text-muted-foreground">{event.actorEmail}</div>
+        </TableCell>
+        <TableCell className="font-mono text-xs">{event.action}</TableCell>
+        <TableCell>
+          <div>{event.resourceType.replace(/_/g, ' ')}</div>
+          {event.resourceId && (
+            <div className="font-mono text-xs text-muted-foreground">{event.resourceId}</div>
+          )}
+        </TableCell>
+        <TableCell className="font-mono text-xs">
+          {event.caseId ? (
+            <Link href={`/cases/${event.caseId}`} className="hover:underline" onClick={(e) => e.stopPropagation()}>
+              {event.caseId}
+            </Link>
+          ) : (
+            '—'
+          )}
+        </TableCell>
+        <TableCell>
+          <Badge variant={statusVariant(event.statusCode)} size="sm">
+            {event.statusCode}
+          </Badge>
+        </TableCell>
+        <TableCell className="font-mono text-xs">{event.ipAddress || '—'}</TableCell>
+      </TableRow>
+      {expanded && (
+        <TableRow className="bg-muted/30 hover:bg-muted/30">
+          <TableCell />
+          <TableCell colSpan={7} className="space-y-3 py-3">
+            <p className="font-mono text-xs text-muted-foreground">
+              {event.method} {event.path}
+            </p>
+            {changes.length > 0 && (
+              <div>
+                <p className="mb-1 text-xs font-semibold uppercase text-muted-foreground">Changes</p>
+                <div className="space-y-1 text-sm">
+                  {changes.map(([field, { before, after }]) => (
+                    <div key={field} className="grid grid-cols-[10rem_1fr] gap-2">
+                      <span className="font-medium">{field}</span>
+                      <span>
+                        <span className="text-destructive line-through">{formatValue(before)}</span>
+                        {' → '}
+                        <span className="text-success">{formatValue(after)}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {metadata.length > 0 && (
+              <div>
+                <p className="mb-1 text-xs font-semibold uppercase text-muted-foreground">Details</p>
+                <div className="space-y-1 text-sm">
+                  {metadata.map(([key, value]) => (
+                    <div key={key} className="grid grid-cols-[10rem_1fr] gap-2">
+                      <span className="font-medium">{key}</span>
+                      <span className="break-all">{formatValue(value)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {event.userAgent && <p className="text-xs text-muted-foreground">{event.userAgent}</p>}
+          </TableCell>
+        </TableRow>
+      )}
+    </Fragment>
+  );
+}
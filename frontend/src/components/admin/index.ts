@@ -0,0 +1 @@
+export { AuditLogTable } from './audit-log-table';
@@ -23,15 +23,28 @@ import {
 } from '@/components/ui/table';
 import { Search, ArrowUpDown, Download } from 'lucide-react';
 import { formatDate, formatCurrency } from '@/lib/utils';
+import { CitationLinks } from './citation-links';
 
 interface ChronologyTableProps {
   events: MedicalEvent[];
+  /** Open the source document at a cited page */
+  onCitationClick?: (documentId: string, page: number) => void;
+}
+
+// e.g. "er-records.pdf pp. 3; 7" for the CSV export
+function formatSourcePages(event: MedicalEvent): string {
+  const pages = Array.from(
+    new Set((event.citations || []).map((c) => c.page).filter((p): p is number => p !== null))
+  ).sort((a, b) => a - b);
+  const filename = event.document?.originalFilename || '';
+  if (pages.length === 0) return filename;
+  return `${filename} ${pages.length === 1 ? 'p.' : 'pp.'} ${pages.join('; ')}`.trim();
 }
 
 type SortField = 'dateOfService' | 'providerName' | 'totalCharge';
 type SortOrder = 'asc' | 'desc';
 
-export function ChronologyTable({ events }: ChronologyTableProps) {
+export function ChronologyTable({ events, onCitationClick }: ChronologyTableProps) {
   const [search, setSearch] = useState('');
   const [providerTypeFilter, setProviderTypeFilter] = useState<string>('all');
   const [sortField, setSortField] = useState<SortField>('dateOfService');
@@ -110,6 +123,7 @@ export function ChronologyTable({ events }: ChronologyTableProps) {
       'Treatments',
       'Pain Score',
       'Charges',
+      'Source',
     ];
     const rows = filteredEvents.map((e) => [
       formatDate(e.dateOfService),
@@ -119,6 +133,7 @@ export function ChronologyTable({ events }: ChronologyTableProps) {
       e.treatmentsProcedures?.join('; ') || '',
       e.vitalSigns?.pain_score?.toString() || '',
       e.totalCharge?.toString() || '',
+      formatSourcePages(e),
     ]);
 
     const csv = [headers, ...rows].map((row) => row.join(',')).join('\n');
@@ -212,68 +227,91 @@ export function ChronologyTable({ events }: ChronologyTableProps) {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredEvents.map((event) => (
-                <TableRow key={event.id}>
-                  <TableCell className="font-medium">
-                    {formatDate(event.dateOfService)}
-                  </TableCell>
-                  <TableCell>
-                    <div>
-                      <p className="font-medium">
-                        {event.providerName || event.facilityName || 'Unknown'}
-                      </p>
-                      {event.facilityName && event.providerName && (
-                        <p className="text-xs text-muted-foreground">
-                          {event.facilityName}
+              {filteredEvents.map((event) => {
+                const openCitation = (page: number) => onCitationClick?.(event.documentId, page);
+
+                return (
+                  <TableRow key={event.id}>
+                    <TableCell className="font-medium">
+                      {formatDate(event.dateOfService)}
+                    </TableCell>
+                    <TableCell>
+                      <div>
+                        <p className="font-medium">
+                          {event.providerName || event.facilityName || 'Unknown'}
                         </p>
+                        {event.facilityName && event.providerName && (
+                          <p className="text-xs text-muted-foreground">
+                            {event.facilityName}
+                          </p>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{event.providerType || 'Visit'}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1 max-w-xs">
+                        {event.diagnoses?.slice(0, 2).map((dx, i) => (
+                          <Badge key={i} variant="secondary" className="text-xs">
+                            {dx.diagnosis_name.length > 30
+                              ? dx.diagnosis_name.substring(0, 30) + '...'
+                              : dx.diagnosis_name}
+                          </Badge>
+                        ))}
+                        {event.diagnoses && event.diagnoses.length > 2 && (
+                          <Badge variant="secondary" className="text-xs">
+                            +{event.diagnoses.length - 2} more
+                          </Badge>
+                        )}
+                        <CitationLinks
+                          citations={event.citations}
+                          field="diagnoses"
+                          onOpen={openCitation}
+                        />
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {event.vitalSigns?.pain_score !== undefined ? (
+                        <div className="flex items-center gap-1">
+                          <Badge
+                            variant={
+                              event.vitalSigns.pain_score >= 7
+                                ? 'destructive'
+                                : event.vitalSigns.pain_score >= 4
+                                ? 'default'
+                                : 'secondary'
+                            }
+                          >
+                            {event.vitalSigns.pain_score}/10
+                          </Badge>
+                          <CitationLinks
+                            citations={event.citations}
+                            field="pain_score"
+                            onOpen={openCitation}
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
                       )}
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <Badge variant="outline">{event.providerType || 'Visit'}</Badge>
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex flex-wrap gap-1 max-w-xs">
-                      {event.diagnoses?.slice(0, 2).map((dx, i) => (
-                        <Badge key={i} variant="secondary" className="text-xs">
-                          {dx.diagnosis_name.length > 30
-                            ? dx.diagnosis_name.substring(0, 30) + '...'
-                            : dx.diagnosis_name}
-                        </Badge>
-                      ))}
-                      {event.diagnoses && event.diagnoses.length > 2 && (
-                        <Badge variant="secondary" className="text-xs">
-                          +{event.diagnoses.length - 2} more
-                        </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {event.totalCharge ? (
+                        <div className="flex flex-col items-end">
+                          {formatCurrency(event.totalCharge)}
+                          <CitationLinks
+                            citations={event.citations}
+                            field="charges"
+                            onOpen={openCitation}
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
                       )}
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    {event.vitalSigns?.pain_score !== undefined ? (
-                      <Badge
-                        variant={
-                          event.vitalSigns.pain_score >= 7
-                            ? 'destructive'
-                            : event.vitalSigns.pain_score >= 4
-                            ? 'default'
-                            : 'secondary'
-                        }
-                      >
-                        {event.vitalSigns.pain_score}/10
-                      </Badge>
-                    ) : (
-                      <span className="text-muted-foreground">—</span>
-                    )}
-                  </TableCell>
-                  <TableCell className="text-right">
-                    {event.totalCharge ? (
-                      formatCurrency(event.totalCharge)
-                    ) : (
-                      <span className="text-muted-foreground">—</span>
-                    )}
-                  </TableCell>
-                </TableRow>
-              ))}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
             </TableBody>
           </Table>
         </div>
@@ -0,0 +1,79 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { CitationField, SourceCitation } from '@/types';
+import { SimpleTooltip } from '@/components/ui/tooltip';
+
+interface CitationLinksProps {
+  citations?: SourceCitation[];
+  field: CitationField;
+  /** Only show citations supporting this value, e.g. one diagnosis */
+  value?: string | number;
+  onOpen?: (page: number) => void;
+  className?: string;
+}
+
+/**
+ * Collapse citations for a field into one entry per page, preferring
+ * verified quotes over pages the model reported without a matching quote.
+ */
+export function getCitationPages(
+  citations: SourceCitation[] | undefined,
+  field: CitationField,
+  value?: string | number
+): SourceCitation[] {
+  if (!citations) return [];
+
+  const target = value !== undefined ? String(value).trim().toLowerCase() : null;
+  const byPage = new Map<number, SourceCitation>();
+
+  for (const citation of citations) {
+    if (citation.field !== field || citation.page === null) continue;
+    if (target !== null && citation.value.trim().toLowerCase() !== target) continue;
+
+    const existing = byPage.get(citation.page);
+    if (!existing || (!existing.verified && citation.verified)) {
+      byPage.set(citation.page, citation);
+    }
+  }
+
+  return Array.from(byPage.values()).sort((a, b) => (a.page || 0) - (b.page || 0));
+}
+
+export function CitationLinks({ citations, field, value, onOpen, className }: CitationLinksProps) {
+  const pages = getCitationPages(citations, field, value);
+
+  if (pages.length === 0) return null;
+
+  return (
+    <span className={cn('inline-flex flex-wrap items-center gap-1', className)}>
+      {pages.map((citation) => (
+        <SimpleTooltip
+          key={citation.page}
+          content={
+            <div className="max-w-xs text-xs">
+              {citation.quote ? `"${citation.quote}"` : `Page ${citation.page}`}
+              {!citation.verified && (
+                <p className="mt-1 opacity-70">Page reported by AI; quote not found verbatim</p>
+              )}
+            </div>
+          }
+        >
+          <button
+            type="button"
+            className={cn(
+              'text-xs font-medium text-primary hover:underline whitespace-nowrap',
+              !citation.verified && 'text-muted-foreground underline decoration-dashed'
+            )}
+            onClick={(e) => {
+              e.stopPropagation();
+              if (citation.page !== null) onOpen?.(citation.page);
+            }}
+          >
+            p. {citation.page}
+          </button>
+        </SimpleTooltip>
+      ))}
+    </span>
+  );
+}
@@ -4,3 +4,4 @@ export { PainScoreChart } from './pain-score-chart';
 export { CostBreakdown } from './cost-breakdown';
 export { TreatmentGapAlert } from './treatment-gap-alert';
 export { ChronologySummary } from './chronology-summary';
+export { CitationLinks, getCitationPages } from './citation-links';
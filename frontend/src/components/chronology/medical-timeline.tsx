@@ -21,10 +21,13 @@ import {
   ChevronUp,
 } from 'lucide-react';
 import { formatDate } from '@/lib/utils';
+import { CitationLinks } from './citation-links';
 
 interface MedicalTimelineProps {
   events: MedicalEvent[];
   gaps?: TreatmentGap[];
+  /** Open the source document at a cited page */
+  onCitationClick?: (documentId: string, page: number) => void;
 }
 
 const providerTypeColors: Record<string, string> = {
@@ -40,7 +43,7 @@ const providerTypeColors: Record<string, string> = {
   'Other': 'bg-gray-500',
 };
 
-export function MedicalTimeline({ events, gaps = [] }: MedicalTimelineProps) {
+export function MedicalTimeline({ events, gaps = [], onCitationClick }: MedicalTimelineProps) {
   const [selectedEvent, setSelectedEvent] = useState<MedicalEvent | null>(null);
   const [expandedEvents, setExpandedEvents] = useState<Set<string>>(new Set());
 
@@ -81,6 +84,14 @@ export function MedicalTimeline({ events, gaps = [] }: MedicalTimelineProps) {
     setExpandedEvents(newExpanded);
   };
 
+  // Close the detail dialog so the document preview isn't stacked on top of it
+  const openSelectedCitation = (page: number) => {
+    if (!selectedEvent) return;
+    const documentId = selectedEvent.documentId;
+    setSelectedEvent(null);
+    onCitationClick?.(documentId, page);
+  };
+
   const getProviderColor = (type?: string) => {
     return providerTypeColors[type || 'Other'] || providerTypeColors['Other'];
   };
@@ -147,6 +158,7 @@ export function MedicalTimeline({ events, gaps = [] }: MedicalTimelineProps) {
                 const isExpanded = expandedEvents.has(event.id);
                 const diagnoses = event.diagnoses || [];
                 const painScore = event.vitalSigns?.pain_score;
+                const openCitation = (page: number) => onCitationClick?.(event.documentId, page);
 
                 return (
                   <div key={event.id} className="relative pl-10">
@@ -179,6 +191,13 @@ export function MedicalTimeline({ events, gaps = [] }: MedicalTimelineProps) {
                                   Pain: {painScore}/10
                                 </Badge>
                               )}
+                              {painScore !== undefined && (
+                                <CitationLinks
+                                  citations={event.citations}
+                                  field="pain_score"
+                                  onOpen={openCitation}
+                                />
+                              )}
                             </div>
                             <p className="text-sm text-muted-foreground mt-1">
                               {event.providerName || event.facilityName || 'Provider'}
@@ -207,14 +226,22 @@ export function MedicalTimeline({ events, gaps = [] }: MedicalTimelineProps) {
                                 </p>
                                 <div className="flex flex-wrap gap-1">
                                   {diagnoses.map((dx, i) => (
-                                    <Badge key={i} variant="secondary" className="text-xs">
-                                      {dx.diagnosis_name}
-                                      {dx.icd_code && (
-                                        <span className="ml-1 opacity-70">
-                                          ({dx.icd_code})
-                                        </span>
-                                      )}
-                                    </Badge>
+                                    <span key={i} className="inline-flex items-center gap-1">
+                                      <Badge variant="secondary" className="text-xs">
+                                        {dx.diagnosis_name}
+                                        {dx.icd_code && (
+                                          <span className="ml-1 opacity-70">
+                                            ({dx.icd_code})
+                                          </span>
+                                        )}
+                                      </Badge>
+                                      <CitationLinks
+                                        citations={event.citations}
+                                        field="diagnoses"
+                                        value={dx.diagnosis_name}
+                                        onOpen={openCitation}
+                                      />
+                                    </span>
                                   ))}
                                 </div>
                               </div>
@@ -248,6 +275,12 @@ export function MedicalTimeline({ events, gaps = [] }: MedicalTimelineProps) {
                                 </p>
                                 <p className="text-sm font-medium">
                                   ${event.totalCharge.toLocaleString()}
+                                  <CitationLinks
+                                    citations={event.citations}
+                                    field="charges"
+                                    onOpen={openCitation}
+                                    className="ml-2"
+                                  />
                                 </p>
                               </div>
                             )}
@@ -326,6 +359,12 @@ export function MedicalTimeline({ events, gaps = [] }: MedicalTimelineProps) {
                           {dx.body_part && (
                             <span className="text-muted-foreground">({dx.body_part})</span>
                           )}
+                          <CitationLinks
+                            citations={selectedEvent.citations}
+                            field="diagnoses"
+                            value={dx.diagnosis_name}
+                            onOpen={openSelectedCitation}
+                          />
                         </div>
                       ))}
                     </div>
@@ -388,6 +427,13 @@ export function MedicalTimeline({ events, gaps = [] }: MedicalTimelineProps) {
                           className="border-l-2 border-primary pl-3 text-sm italic"
                         >
                           "{quote}"
+                          <CitationLinks
+                            citations={selectedEvent.citations}
+                            field="key_quotes"
+                            value={quote}
+                            onOpen={openSelectedCitation}
+                            className="ml-2 not-italic"
+                          />
                         </blockquote>
                       ))}
                     </div>
@@ -0,0 +1,367 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Calculator, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DamagesInputs,
+  DamagesLineItem,
+  DamagesRangeValues,
+  GeneralDamagesMethod,
+} from '@/types';
+import { useDamages, useUpdateDamages } from '@/hooks/use-damages';
+import { usePermissions } from '@/hooks/use-permissions';
+
+interface DamagesCalculatorProps {
+  caseId: string;
+  className?: string;
+}
+
+const METHOD_OPTIONS: Array<{ value: GeneralDamagesMethod; label: string }> = [
+  { value: 'multiplier', label: 'Multiplier' },
+  { value: 'per_diem', label: 'Per diem' },
+  { value: 'blended', label: 'Blended (average of both)' },
+];
+
+const LEVELS = ['low', 'target', 'high'] as const;
+
+const LEVEL_LABELS: Record<(typeof LEVELS)[number], string> = {
+  low: 'Low',
+  target: 'Target',
+  high: 'High (demand)',
+};
+
+function parseAmount(value: string): number {
+  const number = parseFloat(value);
+  return Number.isFinite(number) && number >= 0 ? number : 0;
+}
+
+function RangeInputs({
+  label,
+  values,
+  step,
+  onChange,
+}: {
+  label: string;
+  values: DamagesRangeValues;
+  step: string;
+  onChange: (values: DamagesRangeValues) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <div className="grid grid-cols-3 gap-2">
+        {LEVELS.map((level) => (
+          <Input
+            key={level}
+            type="number"
+            min={0}
+            step={step}
+            value={values[level]}
+            onChange={(e) => onChange({ ...values, [level]: parseAmount(e.target.value) })}
+            aria-label={`${label} (${level})`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function LineItemInputs({
+  label,
+  items,
+  placeholder,
+  onChange,
+}: {
+  label: string;
+  items: DamagesLineItem[];
+  placeholder: string;
+  onChange: (items: DamagesLineItem[]) => void;
+}) {
+  const update = (index: number, item: DamagesLineItem) =>
+    onChange(items.map((existing, i) => (i === index ? item : existing)));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange([...items, { description: '', amount: 0 }])}
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          Add
+        </Button>
+      </div>
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={item.description}
+            placeholder={placeholder}
+            maxLength={200}
+            onChange={(e) => update(index, { ...item, description: e.target.value })}
+          />
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            className="w-32"
+            value={item.amount}
+            onChange={(e) => update(index, { ...item, amount: parseAmount(e.target.value) })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Remove</span>
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function DamagesCalculator({ caseId, className }: DamagesCalculatorProps) {
+  const { data: calculation, isLoading } = useDamages(caseId);
+  const updateDamages = useUpdateDamages(caseId);
+  const { can } = usePermissions();
+  const [inputs, setInputs] = useState<DamagesInputs | null>(null);
+
+  // Reset the form whenever a new calculation is saved
+  useEffect(() => {
+    if (calculation) {
+      setInputs(calculation.inputs);
+    }
+  }, [calculation]);
+
+  if (isLoading || !calculation || !inputs) {
+    return <Skeleton className={cn('h-96 rounded-lg', className)} />;
+  }
+
+  const { specialDamages, generalDamages, range } = calculation;
+  const isDirty = JSON.stringify(inputs) !== JSON.stringify(calculation.inputs);
+
+  const handleSave = async () => {
+    try {
+      await updateDamages.mutateAsync({
+        ...inputs,
+        futureMedical: inputs.futureMedical.filter((item) => item.description.trim()),
+        otherSpecials: inputs.otherSpecials.filter((item) => item.description.trim()),
+      });
+      toast.success('Damages recalculated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to recalculate damages');
+    }
+  };
+
+  const specialRows: Array<[string, number]> = [
+    ['Medical billed', specialDamages.medicalBills],
+    ['Paid (insurance and patient)', specialDamages.medicalPaid],
+    ['Adjustments / write-offs', specialDamages.medicalAdjustments],
+    ['Outstanding balance', specialDamages.medicalOutstanding],
+    ['Future medical', specialDamages.futureMedical],
+    ['Wage loss', specialDamages.wageLoss],
+    ['Other specials', specialDamages.otherSpecials],
+  ];
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Calculator className="h-4 w-4 text-muted-foreground" />
+          Damages Calculator
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Range */}
+        <div className="grid gap-3 sm:grid-cols-3">
+          {LEVELS.map((level) => (
+            <div
+              key={level}
+              className={cn(
+                'rounded-lg border p-3',
+                level === 'high' && 'border-primary bg-primary/5'
+              )}
+            >
+              <p className="text-xs text-muted-foreground">{LEVEL_LABELS[level]}</p>
+              <p className="text-lg font-bold">{formatCurrency(range[level].total)}</p>
+              <p className="text-xs text-muted-foreground">
+                General {formatCurrency(range[level].generalDamages)}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {/* Special damages */}
+        <div className="space-y-1.5 text-sm">
+          {specialRows.map(([label, amount]) => (
+            <div key={label} className="flex justify-between">
+              <span className="text-muted-foreground">{label}</span>
+              <span>{formatCurrency(amount)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-medium pt-1 border-t">
+            <span>Total special damages</span>
+            <span>{formatCurrency(specialDamages.total)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground pt-1">
+            Special damages use billed charges. Multiplier base{' '}
+            {formatCurrency(generalDamages.multiplierBase)}; per diem over{' '}
+            {generalDamages.perDiem.days} day{generalDamages.perDiem.days !== 1 ? 's' : ''}
+            {calculation.treatment.lastDate &&
+              ` (treatment through ${formatDate(calculation.treatment.lastDate)})`}
+            .
+          </p>
+        </div>
+
+        <Separator />
+
+        {/* Inputs (read-only without case:edit) */}
+        <fieldset className="space-y-4" disabled={!can('case:edit')}>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label>General damages method</Label>
+              <Select
+                value={inputs.method}
+                onValueChange={(value) => setInputs({ ...inputs, method: value as GeneralDamagesMethod })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METHOD_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Multiplier applied to</Label>
+              <Select
+                value={inputs.multiplierBase}
+                onValueChange={(value) =>
+                  setInputs({ ...inputs, multiplierBase: value as DamagesInputs['multiplierBase'] })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="billed">Billed medical</SelectItem>
+                  <SelectItem value="paid">Paid medical</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <RangeInputs
+              label="Multiplier (low / target / high)"
+              values={inputs.multiplier}
+              step="0.1"
+              onChange={(multiplier) => setInputs({ ...inputs, multiplier })}
+            />
+            <RangeInputs
+              label="Per diem rate (low / target / high)"
+              values={inputs.perDiem.dailyRate}
+              step="1"
+              onChange={(dailyRate) => setInputs({ ...inputs, perDiem: { ...inputs.perDiem, dailyRate } })}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="per-diem-days">Per diem days</Label>
+              <Input
+                id="per-diem-days"
+                type="number"
+                min={0}
+                step="1"
+                placeholder={`${calculation.treatment.days} (treatment period)`}
+                value={inputs.perDiem.days ?? ''}
+                onChange={(e) =>
+                  setInputs({
+                    ...inputs,
+                    perDiem: {
+                      ...inputs.perDiem,
+                      days: e.target.value === '' ? null : Math.round(parseAmount(e.target.value)),
+                    },
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="wage-loss-override">Wage loss override</Label>
+              <Input
+                id="wage-loss-override"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Use documented wage loss"
+                value={inputs.wageLossOverride ?? ''}
+                onChange={(e) =>
+                  setInputs({
+                    ...inputs,
+                    wageLossOverride: e.target.value === '' ? null : parseAmount(e.target.value),
+                  })
+                }
+              />
+            </div>
+          </div>
+
+          <LineItemInputs
+            label="Future medical"
+            items={inputs.futureMedical}
+            placeholder="e.g. Recommended lumbar fusion"
+            onChange={(futureMedical) => setInputs({ ...inputs, futureMedical })}
+          />
+          <LineItemInputs
+            label="Other special damages"
+            items={inputs.otherSpecials}
+            placeholder="e.g. Property damage"
+            onChange={(otherSpecials) => setInputs({ ...inputs, otherSpecials })}
+          />
+
+          {can('case:edit') && (
+            <div className="flex items-center justify-end gap-2">
+              {isDirty && (
+                <Button variant="ghost" onClick={() => setInputs(calculation.inputs)}>
+                  Reset
+                </Button>
+              )}
+              <Button onClick={handleSave} disabled={!isDirty || updateDamages.isPending}>
+                {updateDamages.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Recalculate
+              </Button>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Generated letters use these exact figures; the demand is the high total.
+          </p>
+        </fieldset>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { DamagesCalculator } from './damages-calculator';
@@ -0,0 +1,92 @@
+'use client';
+
+import { cn, formatDate } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, AlertTriangle, Hourglass } from 'lucide-react';
+import { CaseDeadline } from '@/types';
+import { DeadlineCountdown, formatDaysRemaining, parseDueDate } from './deadline-countdown';
+
+interface CaseDeadlinesProps {
+  deadlines: CaseDeadline[];
+  className?: string;
+}
+
+export function CaseDeadlinesCard({ deadlines, className }: CaseDeadlinesProps) {
+  return (
+    <Card className={cn(className)}>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Hourglass className="h-4 w-4 text-muted-foreground" />
+          Deadlines
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {deadlines.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No deadline rule on file for this case. Enter the statute of limitations manually.
+          </p>
+        ) : (
+          <ul className="space-y-4">
+            {deadlines.map((deadline) => (
+              <li key={deadline.type} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">{deadline.label}</span>
+                  {deadline.completed ? (
+                    <Badge variant="success" size="sm">
+                      Filed
+                    </Badge>
+                  ) : (
+                    <DeadlineCountdown daysRemaining={deadline.daysRemaining} level={deadline.level} />
+                  )}
+                </div>
+                <p className="text-sm">{formatDate(parseDueDate(deadline.dueDate))}</p>
+                <p className="text-xs text-muted-foreground">{deadline.basis}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Banner for deadlines inside the 90-day window; quiet otherwise.
+ */
+export function DeadlineBanner({ deadlines, className }: CaseDeadlinesProps) {
+  const urgent = deadlines.find(
+    (deadline) => !deadline.completed && ['expired', 'critical', 'warning'].includes(deadline.level)
+  );
+  if (!urgent) return null;
+
+  const isCritical = urgent.level !== 'warning';
+  const Icon = isCritical ? AlertCircle : AlertTriangle;
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-3 rounded-lg border p-4 text-sm',
+        isCritical
+          ? 'border-destructive bg-destructive/10 text-destructive'
+          : 'border-warning bg-warning/10 text-warning',
+        className
+      )}
+    >
+      <Icon className="h-5 w-5 shrink-0" />
+      <p>
+        <span className="font-medium">
+          {urgent.label}: {formatDaysRemaining(urgent.daysRemaining)}
+        </span>{' '}
+        (due {formatDate(parseDueDate(urgent.dueDate))}).{' '}
+        {urgent.type === 'government_claim'
+          ? urgent.level === 'expired'
+            ? 'Check whether a late-claim application is available.'
+            : 'Present the notice of claim to the public entity before the deadline.'
+          : urgent.level === 'expired'
+            ? 'Confirm whether tolling or an exception applies.'
+            : 'File suit or obtain a tolling agreement before the deadline.'}
+      </p>
+    </div>
+  );
+}
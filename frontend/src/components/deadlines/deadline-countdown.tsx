@@ -0,0 +1,44 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { DeadlineAlertLevel } from '@/types';
+
+export const deadlineLevelVariants: Record<
+  DeadlineAlertLevel,
+  'secondary' | 'outline' | 'warning' | 'destructive'
+> = {
+  ok: 'secondary',
+  notice: 'outline',
+  warning: 'warning',
+  critical: 'destructive',
+  expired: 'destructive',
+};
+
+/** Due dates are calendar dates; parse them as local midnight so they don't shift a day */
+export function parseDueDate(dueDate: string): Date {
+  return new Date(`${dueDate}T00:00:00`);
+}
+
+export function formatDaysRemaining(daysRemaining: number): string {
+  if (daysRemaining < 0) {
+    const overdue = -daysRemaining;
+    return `Expired ${overdue} day${overdue !== 1 ? 's' : ''} ago`;
+  }
+  if (daysRemaining === 0) return 'Due today';
+  return `${daysRemaining} day${daysRemaining !== 1 ? 's' : ''} left`;
+}
+
+interface DeadlineCountdownProps {
+  daysRemaining: number;
+  level: DeadlineAlertLevel;
+  className?: string;
+}
+
+export function DeadlineCountdown({ daysRemaining, level, className }: DeadlineCountdownProps) {
+  return (
+    <Badge variant={deadlineLevelVariants[level]} size="sm" className={cn('whitespace-nowrap', className)}>
+      {formatDaysRemaining(daysRemaining)}
+    </Badge>
+  );
+}
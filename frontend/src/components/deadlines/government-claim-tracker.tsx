@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Landmark, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useUpdateGovernmentClaim } from '@/hooks/use-deadlines';
+import { usePermissions } from '@/hooks/use-permissions';
+
+interface GovernmentClaimTrackerProps {
+  caseId: string;
+  filedAt?: string | null;
+  rejectedAt?: string | null;
+  className?: string;
+}
+
+function toDateInput(value?: string | null): string {
+  return value ? value.split('T')[0] : '';
+}
+
+function toIsoDate(value: string): string | null {
+  return value ? new Date(`${value}T00:00:00.000Z`).toISOString() : null;
+}
+
+export function GovernmentClaimTracker({ caseId, filedAt, rejectedAt, className }: GovernmentClaimTrackerProps) {
+  const updateClaim = useUpdateGovernmentClaim(caseId);
+  const { can } = usePermissions();
+  const canEdit = can('case:edit');
+  const [filed, setFiled] = useState(toDateInput(filedAt));
+  const [rejected, setRejected] = useState(toDateInput(rejectedAt));
+
+  const isDirty = filed !== toDateInput(filedAt) || rejected !== toDateInput(rejectedAt);
+
+  const handleSave = async () => {
+    try {
+      await updateClaim.mutateAsync({
+        governmentClaimFiledAt: toIsoDate(filed),
+        governmentClaimRejectedAt: toIsoDate(rejected),
+      });
+      toast.success('Government claim updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update government claim');
+    }
+  };
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Landmark className="h-4 w-4 text-muted-foreground" />
+          Government Claim
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="claim-filed">Claim filed</Label>
+          <Input
+            id="claim-filed"
+            type="date"
+            value={filed}
+            disabled={!canEdit}
+            onChange={(e) => setFiled(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="claim-rejected">Rejection received</Label>
+          <Input
+            id="claim-rejected"
+            type="date"
+            value={rejected}
+            disabled={!filed || !canEdit}
+            onChange={(e) => setRejected(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            In some jurisdictions a written rejection starts a shorter period to file suit.
+          </p>
+        </div>
+        {isDirty && canEdit && (
+          <Button size="sm" className="w-full" onClick={handleSave} disabled={updateClaim.isPending}>
+            {updateClaim.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,4 @@
+export { DeadlineCountdown, deadlineLevelVariants, formatDaysRemaining, parseDueDate } from './deadline-countdown';
+export { CaseDeadlinesCard, DeadlineBanner } from './case-deadlines';
+export { UpcomingDeadlinesCard } from './upcoming-deadlines';
+export { GovernmentClaimTracker } from './government-claim-tracker';
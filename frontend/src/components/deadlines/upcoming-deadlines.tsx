@@ -0,0 +1,71 @@
+'use client';
+
+import Link from 'next/link';
+import { cn, formatShortDate } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Hourglass } from 'lucide-react';
+import { useUpcomingDeadlines } from '@/hooks/use-deadlines';
+import { DeadlineCountdown, parseDueDate } from './deadline-countdown';
+
+interface UpcomingDeadlinesCardProps {
+  /** Show deadlines falling within this many days, plus any already expired */
+  withinDays?: number;
+  limit?: number;
+  className?: string;
+}
+
+export function UpcomingDeadlinesCard({
+  withinDays = 180,
+  limit = 8,
+  className,
+}: UpcomingDeadlinesCardProps) {
+  const { data: deadlines = [], isLoading } = useUpcomingDeadlines(withinDays);
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Hourglass className="h-4 w-4 text-muted-foreground" />
+          Upcoming Deadlines
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : deadlines.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No deadlines in the next {withinDays} days
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {deadlines.slice(0, limit).map((deadline) => (
+              <Link
+                key={`${deadline.caseId}-${deadline.type}`}
+                href={`/cases/${deadline.caseId}`}
+                className="flex items-center gap-3 rounded-md p-2 transition-colors hover:bg-muted/50"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{deadline.clientName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {deadline.label} • {formatShortDate(parseDueDate(deadline.dueDate))}
+                  </p>
+                </div>
+                <DeadlineCountdown daysRemaining={deadline.daysRemaining} level={deadline.level} />
+              </Link>
+            ))}
+            {deadlines.length > limit && (
+              <p className="text-xs text-muted-foreground text-center pt-1">
+                +{deadlines.length - limit} more
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
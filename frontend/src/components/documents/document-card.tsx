@@ -25,9 +25,16 @@ import {
   Tag,
   CheckCircle2,
   AlertCircle,
+  AlertTriangle,
+  Copy,
+  FileCode,
+  FolderOpen,
+  Layers,
+  Mail,
+  Scissors,
   Loader2,
 } from 'lucide-react';
-import { Document, DocumentCategory } from '@/types';
+import { Document, DocumentCategory, DuplicateAction } from '@/types';
 import { getCategoryDisplayName, getProcessingStatusDisplay } from '@/hooks/use-documents';
 import { formatDate } from '@/lib/utils';
 
@@ -38,6 +45,10 @@ interface DocumentCardProps {
   onDelete?: () => void;
   onReprocess?: () => void;
   onCategoryChange?: (category: DocumentCategory) => void;
+  onResolveDuplicate?: (action: DuplicateAction) => void;
+  onEditSplit?: () => void;
+  /** Number of parts this upload has been split into */
+  partCount?: number;
   className?: string;
 }
 
@@ -48,6 +59,9 @@ export function DocumentCard({
   onDelete,
   onReprocess,
   onCategoryChange,
+  onResolveDuplicate,
+  onEditSplit,
+  partCount = 0,
   className,
 }: DocumentCardProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -59,6 +73,10 @@ export function DocumentCard({
     if (document.mimeType === 'application/pdf') {
       return <FileText className="h-5 w-5" />;
     }
+    // C-CDA and FHIR records
+    if (document.mimeType === 'application/xml' || document.mimeType === 'application/fhir+json') {
+      return <FileCode className="h-5 w-5" />;
+    }
     return <File className="h-5 w-5" />;
   };
 
@@ -72,7 +90,14 @@ export function DocumentCard({
     document.processingStatus
   );
   const isFailed = document.processingStatus === 'FAILED';
+  // AI output that still failed schema validation after repair retries; invalid fields were dropped
+  const failedValidations = (document.validationReport ?? []).filter((record) => record.status === 'failed');
   const isCompleted = document.processingStatus === 'COMPLETED';
+  // Held out of the chronology and damages until someone merges or ignores it
+  const isPossibleDuplicate = document.duplicateStatus === 'POSSIBLE' && !!document.duplicateOf;
+  const isPart = !!document.parentDocumentId;
+  const canSplit =
+    !isPart && isCompleted && document.mimeType === 'application/pdf' && (document.pageCount ?? 0) > 1;
 
   const statusDisplay = getProcessingStatusDisplay(document.processingStatus);
 
@@ -107,17 +132,34 @@ export function DocumentCard({
                   {document.originalFilename}
                 </p>
                 <div className="flex items-center gap-2 mt-1">
-                  <span className="text-xs text-muted-foreground">
-                    {formatFileSize(document.fileSize)}
-                  </span>
+                  {/* A part's file size is the whole combined file's */}
+                  {!isPart && (
+                    <span className="text-xs text-muted-foreground">
+                      {formatFileSize(document.fileSize)}
+                    </span>
+                  )}
                   {document.pageCount && (
                     <>
-                      <span className="text-xs text-muted-foreground">•</span>
+                      {!isPart && <span className="text-xs text-muted-foreground">•</span>}
                       <span className="text-xs text-muted-foreground">
                         {document.pageCount} page{document.pageCount !== 1 ? 's' : ''}
                       </span>
                     </>
                   )}
+                  {document.ocrConfidence != null && (
+                    <>
+                      <span className="text-xs text-muted-foreground">•</span>
+                      <span
+                        className={cn(
+                          'text-xs',
+                          document.ocrConfidence < 70 ? 'text-warning' : 'text-muted-foreground'
+                        )}
+                        title="Average OCR confidence for scanned pages"
+                      >
+                        OCR {Math.round(document.ocrConfidence)}%
+                      </span>
+                    </>
+                  )}
                   {document.providerName && (
                     <>
                       <span className="text-xs text-muted-foreground">•</span>
@@ -150,20 +192,30 @@ export function DocumentCard({
                     <Download className="mr-2 h-4 w-4" />
                     Download
                   </DropdownMenuItem>
+                  {canSplit && onEditSplit && (
+                    <DropdownMenuItem onClick={onEditSplit}>
+                      <Scissors className="mr-2 h-4 w-4" />
+                      {partCount > 0 ? 'Edit split' : 'Split into documents'}
+                    </DropdownMenuItem>
+                  )}
                   {isFailed && onReprocess && (
                     <DropdownMenuItem onClick={onReprocess}>
                       <RotateCcw className="mr-2 h-4 w-4" />
                       Reprocess
                     </DropdownMenuItem>
                   )}
-                  <DropdownMenuSeparator />
-                  <DropdownMenuItem
-                    onClick={() => setShowDeleteConfirm(true)}
-                    className="text-destructive focus:text-destructive"
-                  >
-                    <Trash2 className="mr-2 h-4 w-4" />
-                    Delete
-                  </DropdownMenuItem>
+                  {onDelete && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        onClick={() => setShowDeleteConfirm(true)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
@@ -180,6 +232,18 @@ export function DocumentCard({
                 <Tag className="mr-1 h-3 w-3" />
                 {getCategoryDisplayName(document.category)}
               </Badge>
+              {failedValidations.length > 0 && (
+                <Badge
+                  variant="warning"
+                  size="sm"
+                  title={failedValidations
+                    .flatMap((record) => record.issues.map((issue) => `${record.label ?? record.task}: ${issue.path} - ${issue.message}`))
+                    .join('\n')}
+                >
+                  <AlertTriangle className="mr-1 h-3 w-3" />
+                  Needs review
+                </Badge>
+              )}
             </div>
 
             {/* Processing Progress */}
@@ -193,6 +257,84 @@ export function DocumentCard({
               </div>
             )}
 
+            {/* Possible Duplicate */}
+            {isPossibleDuplicate && (
+              <div className="mt-3 rounded-md border border-warning/50 bg-warning/5 p-2 text-xs">
+                <p className="flex items-start gap-1.5 text-warning">
+                  <Copy className="mt-0.5 h-3 w-3 shrink-0" />
+                  <span>
+                    Possible duplicate of <span className="font-medium">{document.duplicateOf!.originalFilename}</span>
+                    {document.duplicateScore !== 1 && document.duplicateScore != null &&
+                      ` (${Math.round(document.duplicateScore * 100)}% of pages match)`}
+                  </span>
+                </p>
+                {onResolveDuplicate && (
+                  <div className="mt-2 flex gap-2">
+                    <Button size="sm" variant="outline" className="h-7" onClick={() => onResolveDuplicate('merge')}>
+                      Merge
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-7" onClick={() => onResolveDuplicate('ignore')}>
+                      Not a duplicate
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+            {document.duplicateStatus === 'MERGED' && document.duplicateOf && (
+              <p className="mt-2 flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Copy className="h-3 w-3" />
+                Merged into {document.duplicateOf.originalFilename}
+              </p>
+            )}
+
+            {/* Bulk Import */}
+            {!isPart && document.sourcePath?.includes('/') && (
+              <p className="mt-2 flex items-center gap-1.5 text-xs text-muted-foreground">
+                <FolderOpen className="h-3 w-3 shrink-0" />
+                <span className="truncate" title={document.sourcePath}>
+                  {document.sourcePath.slice(0, document.sourcePath.lastIndexOf('/'))}
+                </span>
+              </p>
+            )}
+
+            {/* Email-in */}
+            {document.inboundEmail && !document.isEmailBody && (
+              <p className="mt-2 flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Mail className="h-3 w-3 shrink-0" />
+                <span className="truncate">
+                  Attached to “{document.inboundEmail.subject || '(no subject)'}”
+                  {document.inboundEmail.from && ` from ${document.inboundEmail.from}`}
+                </span>
+              </p>
+            )}
+
+            {/* Split Upload */}
+            {isPart && document.pageStart != null && (
+              <p className="mt-2 flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Layers className="h-3 w-3 shrink-0" />
+                <span className="truncate">
+                  {document.pageStart === document.pageEnd
+                    ? `Page ${document.pageStart}`
+                    : `Pages ${document.pageStart}–${document.pageEnd}`}
+                  {document.parentDocument && ` of ${document.parentDocument.originalFilename}`}
+                </span>
+              </p>
+            )}
+            {partCount > 0 && (
+              <div className="mt-2 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1.5">
+                  <Layers className="h-3 w-3" />
+                  Split into {partCount} documents
+                </span>
+                {onEditSplit && (
+                  <Button size="sm" variant="ghost" className="h-7" onClick={onEditSplit}>
+                    <Scissors className="mr-1 h-3 w-3" />
+                    Edit split
+                  </Button>
+                )}
+              </div>
+            )}
+
             {/* Error Message */}
             {isFailed && document.processingError && (
               <p className="mt-2 text-xs text-destructive">
@@ -2,7 +2,7 @@
 
 import { useMemo } from 'react';
 import { cn } from '@/lib/utils';
-import { Document, DocumentCategory } from '@/types';
+import { Document, DocumentCategory, DuplicateAction } from '@/types';
 import { DocumentCard, DocumentCardSkeleton } from './document-card';
 import { EmptyState } from '@/components/ui/empty-state';
 import { groupDocumentsByCategory, getCategoryDisplayName } from '@/hooks/use-documents';
@@ -18,6 +18,7 @@ import {
   FolderOpen,
   FileQuestion,
   Link,
+  Layers,
 } from 'lucide-react';
 
 interface DocumentListProps {
@@ -27,6 +28,8 @@ interface DocumentListProps {
   onDownload?: (document: Document) => void;
   onDelete?: (document: Document) => void;
   onReprocess?: (document: Document) => void;
+  onResolveDuplicate?: (document: Document, action: DuplicateAction) => void;
+  onEditSplit?: (document: Document) => void;
   className?: string;
 }
 
@@ -59,6 +62,17 @@ const categoryOrder: DocumentCategory[] = [
   'OTHER',
 ];
 
+// Parts of each split upload, by parent id
+function countParts(documents: Document[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  documents.forEach((doc) => {
+    if (doc.parentDocumentId) {
+      counts.set(doc.parentDocumentId, (counts.get(doc.parentDocumentId) || 0) + 1);
+    }
+  });
+  return counts;
+}
+
 export function DocumentList({
   documents,
   isLoading,
@@ -66,11 +80,30 @@ export function DocumentList({
   onDownload,
   onDelete,
   onReprocess,
+  onResolveDuplicate,
+  onEditSplit,
   className,
 }: DocumentListProps) {
+  const partCounts = useMemo(() => countParts(documents), [documents]);
+  // Split uploads are listed on their own; their parts appear under their categories
+  const combinedDocuments = documents.filter((doc) => partCounts.has(doc.id));
   const groupedDocuments = useMemo(
-    () => groupDocumentsByCategory(documents),
-    [documents]
+    () => groupDocumentsByCategory(documents.filter((doc) => !partCounts.has(doc.id))),
+    [documents, partCounts]
+  );
+
+  const renderCard = (doc: Document) => (
+    <DocumentCard
+      key={doc.id}
+      document={doc}
+      partCount={partCounts.get(doc.id)}
+      onPreview={() => onPreview?.(doc)}
+      onDownload={() => onDownload?.(doc)}
+      onDelete={onDelete && !doc.parentDocumentId ? () => onDelete(doc) : undefined}
+      onReprocess={onReprocess && (() => onReprocess(doc))}
+      onResolveDuplicate={onResolveDuplicate && ((action) => onResolveDuplicate(doc, action))}
+      onEditSplit={onEditSplit && (() => onEditSplit(doc))}
+    />
   );
 
   if (isLoading) {
@@ -102,6 +135,22 @@ export function DocumentList({
 
   return (
     <div className={cn('space-y-8', className)}>
+      {combinedDocuments.length > 0 && (
+        <div className="animate-fade-in">
+          <div className="flex items-center gap-2 mb-4">
+            <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-muted">
+              <Layers className="h-4 w-4" />
+            </div>
+            <h3 className="font-semibold">Combined Files</h3>
+            <span className="text-sm text-muted-foreground">
+              ({combinedDocuments.length})
+            </span>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {combinedDocuments.map(renderCard)}
+          </div>
+        </div>
+      )}
       {categoryOrder
         .filter((category) => groupedDocuments.has(category))
         .map((category) => {
@@ -120,16 +169,7 @@ export function DocumentList({
                 </span>
               </div>
               <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
-                {docs.map((doc) => (
-                  <DocumentCard
-                    key={doc.id}
-                    document={doc}
-                    onPreview={() => onPreview?.(doc)}
-                    onDownload={() => onDownload?.(doc)}
-                    onDelete={() => onDelete?.(doc)}
-                    onReprocess={() => onReprocess?.(doc)}
-                  />
-                ))}
+                {docs.map(renderCard)}
               </div>
             </div>
           );
@@ -146,8 +186,12 @@ export function DocumentListFlat({
   onDownload,
   onDelete,
   onReprocess,
+  onResolveDuplicate,
+  onEditSplit,
   className,
 }: DocumentListProps) {
+  const partCounts = useMemo(() => countParts(documents), [documents]);
+
   if (isLoading) {
     return (
       <div className={cn('grid gap-3 sm:grid-cols-2 lg:grid-cols-3', className)}>
@@ -175,10 +219,13 @@ export function DocumentListFlat({
         <DocumentCard
           key={doc.id}
           document={doc}
+          partCount={partCounts.get(doc.id)}
           onPreview={() => onPreview?.(doc)}
           onDownload={() => onDownload?.(doc)}
-          onDelete={() => onDelete?.(doc)}
-          onReprocess={() => onReprocess?.(doc)}
+          onDelete={onDelete && !doc.parentDocumentId ? () => onDelete(doc) : undefined}
+          onReprocess={onReprocess && (() => onReprocess(doc))}
+          onResolveDuplicate={onResolveDuplicate && ((action) => onResolveDuplicate(doc, action))}
+          onEditSplit={onEditSplit && (() => onEditSplit(doc))}
         />
       ))}
     </div>
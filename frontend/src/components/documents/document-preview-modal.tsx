@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { cn } from '@/lib/utils';
 import {
   Dialog,
@@ -26,6 +26,9 @@ import { Document } from '@/types';
 import { getCategoryDisplayName } from '@/hooks/use-documents';
 import { formatDate } from '@/lib/utils';
 
+// Types the server stores C-CDA and FHIR records under
+const STRUCTURED_RECORD_MIME_TYPES = ['application/xml', 'application/fhir+json'];
+
 interface DocumentPreviewModalProps {
   document: Document | null;
   open: boolean;
@@ -36,6 +39,8 @@ interface DocumentPreviewModalProps {
   onNext?: () => void;
   hasPrevious?: boolean;
   hasNext?: boolean;
+  /** Open a PDF at this page, e.g. from a "p. 37" citation */
+  initialPage?: number;
 }
 
 export function DocumentPreviewModal({
@@ -47,15 +52,30 @@ export function DocumentPreviewModal({
   onNext,
   hasPrevious,
   hasNext,
+  initialPage,
 }: DocumentPreviewModalProps) {
   const [zoom, setZoom] = useState(100);
   const [rotation, setRotation] = useState(0);
   const [activeTab, setActiveTab] = useState('preview');
+  // Parts of a split upload show the parent's file, limited to their pages
+  const firstPage = document?.pageStart ?? 1;
+  const [page, setPage] = useState(initialPage || firstPage);
+
+  // Jump to the requested page whenever a different citation is opened
+  useEffect(() => {
+    setPage(initialPage || firstPage);
+    if (initialPage) setActiveTab('preview');
+  }, [initialPage, document?.id, firstPage]);
 
   if (!document) return null;
 
   const isImage = document.mimeType.startsWith('image/');
   const isPdf = document.mimeType === 'application/pdf';
+  // C-CDA and FHIR files are shown as the readable record built from them
+  const isStructuredRecord = STRUCTURED_RECORD_MIME_TYPES.includes(document.mimeType);
+  const fileUrl = document.downloadUrl || document.fileUrl;
+  const pageCount = document.pageCount || undefined;
+  const lastPage = document.pageEnd ?? pageCount;
 
   const handleZoomIn = () => setZoom((prev) => Math.min(prev + 25, 200));
   const handleZoomOut = () => setZoom((prev) => Math.max(prev - 25, 50));
@@ -106,7 +126,7 @@ export function DocumentPreviewModal({
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => window.open(document.fileUrl, '_blank')}
+                onClick={() => window.open(isPdf ? `${fileUrl}#page=${page}` : fileUrl, '_blank')}
               >
                 <ExternalLink className="h-4 w-4 mr-2" />
                 Open
@@ -164,6 +184,35 @@ export function DocumentPreviewModal({
                     <RotateCw className="h-4 w-4" />
                   </Button>
                 )}
+                {isPdf && (
+                  <>
+                    <div className="mx-2 h-5 w-px bg-border" />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setPage((prev) => Math.max(prev - 1, firstPage))}
+                      disabled={page <= firstPage}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">
+                      Page {page}
+                      {document.pageStart != null
+                        ? ` (pp. ${document.pageStart}–${document.pageEnd})`
+                        : pageCount
+                          ? ` of ${pageCount}`
+                          : ''}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setPage((prev) => (lastPage ? Math.min(prev + 1, lastPage) : prev + 1))}
+                      disabled={!!lastPage && page >= lastPage}
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
               </div>
             )}
 
@@ -171,7 +220,8 @@ export function DocumentPreviewModal({
             <div className="flex-1 overflow-auto bg-muted/20 relative">
               {isPdf ? (
                 <iframe
-                  src={`${document.fileUrl}#view=FitH`}
+                  key={`${document.id}-${page}`}
+                  src={`${fileUrl}#page=${page}&view=FitH`}
                   className="w-full h-full border-0"
                   title={document.originalFilename}
                   style={{ transform: `scale(${zoom / 100})`, transformOrigin: 'top center' }}
@@ -179,7 +229,7 @@ export function DocumentPreviewModal({
               ) : isImage ? (
                 <div className="flex items-center justify-center min-h-full p-4">
                   <img
-                    src={document.fileUrl}
+                    src={fileUrl}
                     alt={document.originalFilename}
                     className="max-w-full max-h-full object-contain transition-transform"
                     style={{
@@ -187,6 +237,8 @@ export function DocumentPreviewModal({
                     }}
                   />
                 </div>
+              ) : isStructuredRecord && document.extractedText ? (
+                <pre className="whitespace-pre-wrap p-6 text-sm font-mono">{document.extractedText}</pre>
               ) : (
                 <div className="flex items-center justify-center h-full">
                   <div className="text-center p-8">
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ChevronDown, ChevronRight, Copy, Mail, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { useInboundEmail, useResetInboundEmail } from '@/hooks/use-documents';
+import { formatShortDate } from '@/lib/utils';
+
+interface EmailInCardProps {
+  caseId: string;
+  /** Whether the user may replace the address */
+  canReset?: boolean;
+}
+
+export function EmailInCard({ caseId, canReset = false }: EmailInCardProps) {
+  const { data, isLoading } = useInboundEmail(caseId);
+  const resetAddress = useResetInboundEmail(caseId);
+  const [showEmails, setShowEmails] = useState(false);
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+  if (!data) return null;
+
+  const copyAddress = async () => {
+    await navigator.clipboard.writeText(data.address);
+    toast.success('Copied to clipboard');
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Replace this address? Email sent to the current address will no longer be filed.')) return;
+    resetAddress.mutate(undefined, {
+      onSuccess: () => toast.success('New email-in address created'),
+      onError: (error) => toast.error('Failed to replace the address', { description: error.message }),
+    });
+  };
+
+  return (
+    <Card className="px-4 py-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-muted">
+          <Mail className="h-4 w-4 text-muted-foreground" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium">Email records to this case</p>
+          <p className="truncate font-mono text-xs text-muted-foreground">{data.address}</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={copyAddress}>
+          <Copy className="mr-2 h-3.5 w-3.5" />
+          Copy
+        </Button>
+        {canReset && (
+          <Button variant="ghost" size="sm" onClick={handleReset} disabled={resetAddress.isPending}>
+            <RefreshCw className="mr-2 h-3.5 w-3.5" />
+            New address
+          </Button>
+        )}
+      </div>
+
+      {data.emails.length > 0 && (
+        <div className="mt-2 border-t pt-2">
+          <button
+            type="button"
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => setShowEmails((prev) => !prev)}
+          >
+            {showEmails ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            {data.emails.length} email{data.emails.length !== 1 ? 's' : ''} filed
+          </button>
+          {showEmails && (
+            <ul className="mt-1 space-y-1">
+              {data.emails.map((email) => (
+                <li key={email.id} className="flex items-center gap-2 text-xs">
+                  <span className="w-20 shrink-0 text-muted-foreground">
+                    {formatShortDate(email.sentAt ?? email.createdAt)}
+                  </span>
+                  <span className="truncate font-medium">{email.subject || '(no subject)'}</span>
+                  <span className="truncate text-muted-foreground">{email.from}</span>
+                  <span className="ml-auto shrink-0 text-muted-foreground">
+                    {email.source === 'UPLOAD' ? 'Uploaded' : 'Received'}
+                    {' · '}
+                    {email._count?.documents ?? 0} document{email._count?.documents !== 1 ? 's' : ''}
+                    {!!email.skipped?.length && `, ${email.skipped.length} skipped`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -4,3 +4,5 @@ export { DocumentCard, DocumentCardSkeleton } from './document-card';
 export { DocumentList, DocumentListFlat } from './document-list';
 export { ProcessingStatus } from './processing-status';
 export { DocumentPreviewModal } from './document-preview-modal';
+export { SplitEditorDialog } from './split-editor-dialog';
+export { EmailInCard } from './email-in-card';
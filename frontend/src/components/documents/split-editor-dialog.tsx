@@ -0,0 +1,174 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Layers, Loader2, Scissors } from 'lucide-react';
+import { Document } from '@/types';
+import { getCategoryDisplayName } from '@/hooks/use-documents';
+
+interface SplitEditorDialogProps {
+  /** The combined upload being split */
+  document: Document | null;
+  /** Its current parts */
+  parts: Document[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (splitPoints: number[]) => void;
+  isSaving?: boolean;
+}
+
+export function SplitEditorDialog({
+  document,
+  parts,
+  open,
+  onOpenChange,
+  onSave,
+  isSaving,
+}: SplitEditorDialogProps) {
+  // The first page of every part after the first
+  const initialPoints = useMemo(
+    () =>
+      parts
+        .map((part) => part.pageStart)
+        .filter((page): page is number => page != null)
+        .sort((a, b) => a - b)
+        .slice(1),
+    [parts]
+  );
+  // Mounted per document, so edits start from the split as it was when opened
+  const [splitPoints, setSplitPoints] = useState<number[]>(initialPoints);
+
+  const pages = useMemo(() => {
+    if (!document) return [];
+    if (document.pageMap?.length) {
+      return document.pageMap.map((entry) => ({
+        page: entry.page,
+        snippet: (document.extractedText ?? '').slice(entry.start, entry.end).replace(/\s+/g, ' ').trim().slice(0, 160),
+      }));
+    }
+    return Array.from({ length: document.pageCount ?? 0 }, (_, i) => ({ page: i + 1, snippet: '' }));
+  }, [document]);
+
+  if (!document) return null;
+
+  const firstPage = pages[0]?.page ?? 1;
+  const lastPage = pages[pages.length - 1]?.page ?? 1;
+  const starts = [firstPage, ...[...splitPoints].sort((a, b) => a - b)];
+  const segments = starts.map((pageStart, index) => {
+    const pageEnd = index < starts.length - 1 ? starts[index + 1] - 1 : lastPage;
+    return {
+      pageStart,
+      pageEnd,
+      part: parts.find((part) => part.pageStart === pageStart && part.pageEnd === pageEnd),
+    };
+  });
+
+  const isChanged =
+    splitPoints.length !== initialPoints.length ||
+    [...splitPoints].sort((a, b) => a - b).some((page, index) => page !== initialPoints[index]);
+
+  const togglePage = (page: number) => {
+    setSplitPoints((prev) => (prev.includes(page) ? prev.filter((p) => p !== page) : [...prev, page]));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Split {document.originalFilename}</DialogTitle>
+          <DialogDescription>
+            Click a page to start a new document there, or click a starting page to join it to the document before.
+            Changed parts are processed again; unchanged parts keep their data.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[55vh] rounded-md border">
+          {pages.map(({ page, snippet }) => {
+            const segment = segments.find((s) => s.pageStart === page);
+            return (
+              <div key={page}>
+                {segment && (
+                  <div className="flex items-center gap-2 border-b bg-muted/50 px-3 py-1.5 text-xs">
+                    <Layers className="h-3.5 w-3.5 text-muted-foreground" />
+                    <span className="font-medium">
+                      {segment.pageStart === segment.pageEnd
+                        ? `Page ${segment.pageStart}`
+                        : `Pages ${segment.pageStart}–${segment.pageEnd}`}
+                    </span>
+                    {segment.part ? (
+                      <>
+                        <Badge variant="outline" size="sm">
+                          {getCategoryDisplayName(segment.part.category)}
+                        </Badge>
+                        {segment.part.providerName && (
+                          <span className="truncate text-muted-foreground">{segment.part.providerName}</span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">New part, classified when saved</span>
+                    )}
+                  </div>
+                )}
+                <button
+                  type="button"
+                  className={cn(
+                    'flex w-full items-start gap-3 border-b px-3 py-2 text-left text-sm transition-colors',
+                    page === firstPage ? 'cursor-default' : 'hover:bg-muted/40'
+                  )}
+                  disabled={page === firstPage}
+                  onClick={() => togglePage(page)}
+                  title={
+                    page === firstPage
+                      ? undefined
+                      : segment
+                        ? 'Join this page to the document before'
+                        : 'Start a new document at this page'
+                  }
+                >
+                  <span className="w-14 shrink-0 text-muted-foreground">p. {page}</span>
+                  <span className="flex-1 truncate">
+                    {snippet || <span className="italic text-muted-foreground">No text on this page</span>}
+                  </span>
+                  {page !== firstPage && (
+                    <Scissors
+                      className={cn('h-4 w-4 shrink-0', segment ? 'text-primary' : 'text-muted-foreground/30')}
+                    />
+                  )}
+                </button>
+              </div>
+            );
+          })}
+        </ScrollArea>
+
+        <DialogFooter className="sm:justify-between">
+          <p className="text-sm text-muted-foreground self-center">
+            {segments.length === 1 ? 'One document' : `${segments.length} documents`}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => setSplitPoints([])} disabled={splitPoints.length === 0}>
+              Clear splits
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => onSave([...splitPoints].sort((a, b) => a - b))} disabled={!isChanged || isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Split
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,14 @@
 'use client';
 
+import { useState } from 'react';
 import { cn } from '@/lib/utils';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import {
+  ChevronDown,
+  ChevronRight,
+  FileArchive,
   FileText,
   X,
   RotateCcw,
@@ -35,20 +39,46 @@ export function UploadProgress({
   const hasCompleted = completedCount > 0;
   const allCompleted = completedCount === files.length;
 
+  // One progress bar for the whole batch, weighted by size
+  const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+  const overallProgress = totalSize
+    ? Math.round(files.reduce((sum, f) => sum + f.progress * f.size, 0) / totalSize)
+    : 0;
+  const isActive = files.some((f) => f.status === 'pending' || f.status === 'uploading');
+  const fileCount = files.reduce((sum, f) => sum + f.files.length, 0);
+  const importedCount = files.reduce(
+    (sum, f) => sum + (f.report ? f.report.documentCount : f.status === 'completed' ? 1 : 0),
+    0
+  );
+  const skippedCount = files.reduce((sum, f) => sum + (f.report?.skipped.length ?? 0), 0);
+
   return (
     <Card className={cn('overflow-hidden', className)}>
-      <div className="flex items-center justify-between border-b px-4 py-3">
-        <h3 className="font-medium">
-          Uploading {files.length} file{files.length !== 1 ? 's' : ''}
-        </h3>
-        {hasCompleted && (
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={onClearCompleted}
-          >
-            Clear completed
-          </Button>
+      <div className="border-b px-4 py-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium">
+            Uploading {fileCount} file{fileCount !== 1 ? 's' : ''}
+            {files.length !== fileCount && (
+              <span className="ml-1 text-sm font-normal text-muted-foreground">
+                in {files.length} item{files.length !== 1 ? 's' : ''}
+              </span>
+            )}
+          </h3>
+          {hasCompleted && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClearCompleted}
+            >
+              Clear completed
+            </Button>
+          )}
+        </div>
+        {isActive && (
+          <div className="mt-2 flex items-center gap-3">
+            <Progress value={overallProgress} size="sm" className="flex-1" />
+            <span className="text-xs text-muted-foreground">{overallProgress}%</span>
+          </div>
         )}
       </div>
       <div className="max-h-64 overflow-y-auto">
@@ -64,7 +94,10 @@ export function UploadProgress({
       {allCompleted && (
         <div className="flex items-center justify-center gap-2 border-t bg-success/10 px-4 py-3 text-success">
           <CheckCircle2 className="h-4 w-4" />
-          <span className="text-sm font-medium">All uploads complete!</span>
+          <span className="text-sm font-medium">
+            All uploads complete! {importedCount} document{importedCount !== 1 ? 's' : ''} added
+            {skippedCount > 0 && `, ${skippedCount} file${skippedCount !== 1 ? 's' : ''} skipped`}
+          </span>
         </div>
       )}
     </Card>
@@ -78,6 +111,8 @@ interface UploadFileItemProps {
 }
 
 function UploadFileItem({ file, onRemove, onRetry }: UploadFileItemProps) {
+  const [showSkipped, setShowSkipped] = useState(false);
+
   const statusIcon = {
     pending: <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />,
     uploading: <Loader2 className="h-4 w-4 animate-spin text-primary" />,
@@ -91,70 +126,125 @@ function UploadFileItem({ file, onRemove, onRetry }: UploadFileItemProps) {
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
+  const isImport = file.kind === 'import';
+  const skipped = file.report?.skipped ?? [];
+
   return (
     <div
       className={cn(
-        'flex items-center gap-3 border-b px-4 py-3 last:border-b-0 transition-colors',
+        'border-b px-4 py-3 last:border-b-0 transition-colors',
         file.status === 'error' && 'bg-destructive/5',
         file.status === 'completed' && 'bg-success/5'
       )}
     >
-      <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-muted">
-        <FileText className="h-4 w-4 text-muted-foreground" />
-      </div>
-
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-2">
-          <p className="text-sm font-medium truncate">{file.file.name}</p>
-          {statusIcon[file.status]}
+      <div className="flex items-center gap-3">
+        <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-muted">
+          {isImport ? (
+            <FileArchive className="h-4 w-4 text-muted-foreground" />
+          ) : (
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          )}
         </div>
-        <div className="flex items-center gap-2 mt-0.5">
-          <span className="text-xs text-muted-foreground">
-            {formatFileSize(file.file.size)}
-          </span>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium truncate">{file.name}</p>
+            {statusIcon[file.status]}
+          </div>
+          <div className="flex items-center gap-2 mt-0.5">
+            <span className="text-xs text-muted-foreground">
+              {formatFileSize(file.size)}
+            </span>
+            {isImport && file.files.length > 1 && (
+              <>
+                <span className="text-xs text-muted-foreground">•</span>
+                <span className="text-xs text-muted-foreground">{file.files.length} files</span>
+              </>
+            )}
+            {file.status === 'uploading' && (
+              <>
+                <span className="text-xs text-muted-foreground">•</span>
+                <span className="text-xs text-primary">
+                  {file.progress >= 95 && isImport ? 'Unpacking…' : `${file.progress}%`}
+                </span>
+              </>
+            )}
+            {file.report && (
+              <>
+                <span className="text-xs text-muted-foreground">•</span>
+                <span
+                  className={cn(
+                    'text-xs',
+                    file.report.documentCount === 0 ? 'text-warning' : 'text-success'
+                  )}
+                >
+                  {file.report.documentCount === 0
+                    ? 'No supported documents found'
+                    : `${file.report.documentCount} document${file.report.documentCount !== 1 ? 's' : ''} imported`}
+                </span>
+              </>
+            )}
+            {file.status === 'error' && file.error && (
+              <span className="text-xs text-destructive">{file.error}</span>
+            )}
+          </div>
           {file.status === 'uploading' && (
-            <>
-              <span className="text-xs text-muted-foreground">•</span>
-              <span className="text-xs text-primary">{file.progress}%</span>
-            </>
+            <Progress
+              value={file.progress}
+              size="sm"
+              className="mt-2"
+            />
           )}
-          {file.status === 'error' && file.error && (
-            <span className="text-xs text-destructive">{file.error}</span>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {file.status === 'error' && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={onRetry}
+            >
+              <RotateCcw className="h-4 w-4" />
+              <span className="sr-only">Retry</span>
+            </Button>
+          )}
+          {file.status !== 'uploading' && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={onRemove}
+            >
+              <X className="h-4 w-4" />
+              <span className="sr-only">Remove</span>
+            </Button>
           )}
         </div>
-        {file.status === 'uploading' && (
-          <Progress
-            value={file.progress}
-            size="sm"
-            className="mt-2"
-          />
-        )}
       </div>
 
-      <div className="flex items-center gap-1">
-        {file.status === 'error' && (
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-8 w-8"
-            onClick={onRetry}
-          >
-            <RotateCcw className="h-4 w-4" />
-            <span className="sr-only">Retry</span>
-          </Button>
-        )}
-        {file.status !== 'uploading' && (
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-8 w-8"
-            onClick={onRemove}
+      {skipped.length > 0 && (
+        <div className="ml-12 mt-2">
+          <button
+            type="button"
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => setShowSkipped((prev) => !prev)}
           >
-            <X className="h-4 w-4" />
-            <span className="sr-only">Remove</span>
-          </Button>
-        )}
-      </div>
+            {showSkipped ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            {skipped.length} file{skipped.length !== 1 ? 's' : ''} skipped
+          </button>
+          {showSkipped && (
+            <ul className="mt-1 space-y-0.5">
+              {skipped.map((item) => (
+                <li key={item.path} className="flex gap-2 text-xs">
+                  <span className="truncate" title={item.path}>{item.path}</span>
+                  <span className="shrink-0 text-muted-foreground">{item.reason}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   );
 }
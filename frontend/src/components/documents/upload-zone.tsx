@@ -1,17 +1,78 @@
 'use client';
 
-import { useCallback } from 'react';
-import { useDropzone } from 'react-dropzone';
+import { useCallback, useRef } from 'react';
+import { FileRejection, useDropzone } from 'react-dropzone';
 import { cn } from '@/lib/utils';
-import { Upload, FileText, X } from 'lucide-react';
+import { Upload, FileText, FolderOpen, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   ALLOWED_FILE_TYPES,
-  MAX_FILE_SIZE,
+  ARCHIVE_FILE_TYPES,
+  getRelativePath,
   validateFile,
 } from '@/hooks/use-document-upload';
 import { toast } from 'sonner';
 
+const ACCEPTED_FILE_TYPES = { ...ALLOWED_FILE_TYPES, ...ARCHIVE_FILE_TYPES };
+
+/**
+ * Sort a drop into files to upload and errors. Files dropped inside a folder
+ * are kept whatever their type: the import reports what it skips.
+ */
+function collectDroppedFiles(acceptedFiles: File[], rejectedFiles: FileRejection[]) {
+  const validFiles: File[] = [];
+  const errors: string[] = [];
+
+  acceptedFiles.forEach((file) => {
+    const validation = validateFile(file);
+    if (validation.valid) {
+      validFiles.push(file);
+    } else {
+      errors.push(`${file.name}: ${validation.error}`);
+    }
+  });
+
+  rejectedFiles.forEach(({ file }) => {
+    if (getRelativePath(file).includes('/')) {
+      validFiles.push(file);
+    } else {
+      errors.push(`${file.name}: File type not supported`);
+    }
+  });
+
+  return { validFiles, errors };
+}
+
+/** A hidden folder picker; the browser gives each file its path in the folder */
+function useFolderInput(onFilesAdded: (files: File[]) => void) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const input = (
+    <input
+      ref={(element) => {
+        inputRef.current = element;
+        element?.setAttribute('webkitdirectory', '');
+      }}
+      type="file"
+      multiple
+      className="hidden"
+      onChange={(event) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (files.length > 0) onFilesAdded(files);
+      }}
+    />
+  );
+
+  const openFolderPicker = (event: React.MouseEvent) => {
+    // Keep the click from also opening the dropzone's file picker
+    event.stopPropagation();
+    inputRef.current?.click();
+  };
+
+  return { input, openFolderPicker };
+}
+
 interface UploadZoneProps {
   onFilesAdded: (files: File[]) => void;
   disabled?: boolean;
@@ -24,24 +85,8 @@ export function UploadZone({
   className,
 }: UploadZoneProps) {
   const onDrop = useCallback(
-    (acceptedFiles: File[], rejectedFiles: any[]) => {
-      // Validate each file
-      const validFiles: File[] = [];
-      const errors: string[] = [];
-
-      acceptedFiles.forEach((file) => {
-        const validation = validateFile(file);
-        if (validation.valid) {
-          validFiles.push(file);
-        } else {
-          errors.push(`${file.name}: ${validation.error}`);
-        }
-      });
-
-      rejectedFiles.forEach((rejection) => {
-        const file = rejection.file;
-        errors.push(`${file.name}: File type not supported`);
-      });
+    (acceptedFiles: File[], rejectedFiles: FileRejection[]) => {
+      const { validFiles, errors } = collectDroppedFiles(acceptedFiles, rejectedFiles);
 
       if (errors.length > 0) {
         toast.error('Some files were rejected', {
@@ -55,12 +100,12 @@ export function UploadZone({
     },
     [onFilesAdded]
   );
+  const { input: folderInput, openFolderPicker } = useFolderInput(onFilesAdded);
 
   const { getRootProps, getInputProps, isDragActive, isDragReject } =
     useDropzone({
       onDrop,
-      accept: ALLOWED_FILE_TYPES,
-      maxSize: MAX_FILE_SIZE,
+      accept: ACCEPTED_FILE_TYPES,
       disabled,
       multiple: true,
     });
@@ -78,6 +123,7 @@ export function UploadZone({
       )}
     >
       <input {...getInputProps()} />
+      {folderInput}
 
       <div
         className={cn(
@@ -104,10 +150,18 @@ export function UploadZone({
             ? isDragReject
               ? 'Some files are not supported'
               : 'Drop files here'
-            : 'Drag & drop files here'}
+            : 'Drag & drop files or folders here'}
         </p>
         <p className="mt-1 text-sm text-muted-foreground">
-          or click to browse
+          or click to browse, or{' '}
+          <button
+            type="button"
+            className="font-medium text-primary hover:underline disabled:pointer-events-none"
+            onClick={openFolderPicker}
+            disabled={disabled}
+          >
+            choose a folder
+          </button>
         </p>
       </div>
 
@@ -123,7 +177,16 @@ export function UploadZone({
           DOC, DOCX
         </span>
         <span className="inline-flex items-center rounded-full bg-muted px-2.5 py-0.5 text-xs font-medium text-muted-foreground">
-          Max 50MB
+          EML, MSG
+        </span>
+        <span className="inline-flex items-center rounded-full bg-muted px-2.5 py-0.5 text-xs font-medium text-muted-foreground">
+          C-CDA, FHIR
+        </span>
+        <span className="inline-flex items-center rounded-full bg-muted px-2.5 py-0.5 text-xs font-medium text-muted-foreground">
+          ZIP
+        </span>
+        <span className="inline-flex items-center rounded-full bg-muted px-2.5 py-0.5 text-xs font-medium text-muted-foreground">
+          Max 50MB per file
         </span>
       </div>
     </div>
@@ -138,21 +201,19 @@ export function CompactUploadZone({
   className,
 }: CompactUploadZoneProps) {
   const onDrop = useCallback(
-    (acceptedFiles: File[]) => {
-      const validFiles = acceptedFiles.filter(
-        (file) => validateFile(file).valid
-      );
+    (acceptedFiles: File[], rejectedFiles: FileRejection[]) => {
+      const { validFiles } = collectDroppedFiles(acceptedFiles, rejectedFiles);
       if (validFiles.length > 0) {
         onFilesAdded(validFiles);
       }
     },
     [onFilesAdded]
   );
+  const { input: folderInput, openFolderPicker } = useFolderInput(onFilesAdded);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: ALLOWED_FILE_TYPES,
-    maxSize: MAX_FILE_SIZE,
+    accept: ACCEPTED_FILE_TYPES,
     disabled,
     multiple: true,
   });
@@ -169,6 +230,7 @@ export function CompactUploadZone({
       )}
     >
       <input {...getInputProps()} />
+      {folderInput}
       <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-muted">
         <Upload className="h-5 w-5 text-muted-foreground" />
       </div>
@@ -177,9 +239,13 @@ export function CompactUploadZone({
           {isDragActive ? 'Drop files here' : 'Add more documents'}
         </p>
         <p className="text-xs text-muted-foreground">
-          Drag & drop or click to upload
+          Drag & drop files, folders or ZIP archives, or click to upload
         </p>
       </div>
+      <Button variant="ghost" size="sm" disabled={disabled} onClick={openFolderPicker}>
+        <FolderOpen className="mr-2 h-4 w-4" />
+        Folder
+      </Button>
       <Button variant="outline" size="sm" disabled={disabled}>
         Browse
       </Button>
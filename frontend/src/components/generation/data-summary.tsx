@@ -33,13 +33,8 @@ export function DataSummary({ caseData, documents, className }: DataSummaryProps
   const completedDocs = documents.filter((d) => d.processingStatus === 'COMPLETED');
   const failedDocs = documents.filter((d) => d.processingStatus === 'FAILED');
 
-  // Calculate totals from extracted data if available
-  const damagesData = caseData.damagesCalculation as {
-    medicalExpenses?: number;
-    lostWages?: number;
-    painAndSuffering?: number;
-    total?: number;
-  } | null;
+  // Figures from the damages calculator; older cases only have special damages
+  const damagesData = caseData.damagesCalculation;
 
   return (
     <Card className={cn('overflow-hidden', className)}>
@@ -145,29 +140,34 @@ export function DataSummary({ caseData, documents, className }: DataSummaryProps
                   Damages Summary
                 </h4>
                 <div className="space-y-1.5 text-sm">
-                  {damagesData.medicalExpenses !== undefined && (
+                  {damagesData.specialDamages?.medicalBills !== undefined && (
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Medical Expenses</span>
-                      <span>{formatCurrency(damagesData.medicalExpenses)}</span>
+                      <span>
+                        {formatCurrency(
+                          damagesData.specialDamages.medicalBills +
+                            (damagesData.specialDamages.futureMedical || 0)
+                        )}
+                      </span>
                     </div>
                   )}
-                  {damagesData.lostWages !== undefined && (
+                  {damagesData.specialDamages?.wageLoss !== undefined && (
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Lost Wages</span>
-                      <span>{formatCurrency(damagesData.lostWages)}</span>
+                      <span>{formatCurrency(damagesData.specialDamages.wageLoss)}</span>
                     </div>
                   )}
-                  {damagesData.painAndSuffering !== undefined && (
+                  {damagesData.range && (
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Pain & Suffering</span>
-                      <span>{formatCurrency(damagesData.painAndSuffering)}</span>
+                      <span>{formatCurrency(damagesData.range.high.generalDamages)}</span>
                     </div>
                   )}
-                  {damagesData.total !== undefined && (
+                  {damagesData.demandAmount !== undefined && (
                     <div className="flex justify-between font-medium pt-1 border-t">
                       <span>Total Demand</span>
                       <span className="text-primary">
-                        {formatCurrency(damagesData.total)}
+                        {formatCurrency(damagesData.demandAmount)}
                       </span>
                     </div>
                   )}
@@ -11,6 +11,7 @@ import {
   AlertTriangle,
   Calendar,
   Calculator,
+  Landmark,
   Check,
   Clock,
 } from 'lucide-react';
@@ -20,6 +21,8 @@ interface DocumentTypeSelectorProps {
   value: GeneratedDocType;
   onChange: (value: GeneratedDocType) => void;
   existingDocuments?: GeneratedDocument[];
+  /** Types that don't apply to this case, e.g. government claims for private defendants */
+  excludeTypes?: GeneratedDocType[];
   disabled?: boolean;
   className?: string;
 }
@@ -30,12 +33,14 @@ const iconMap = {
   AlertTriangle,
   Calendar,
   Calculator,
+  Landmark,
 };
 
 export function DocumentTypeSelector({
   value,
   onChange,
   existingDocuments = [],
+  excludeTypes = [],
   disabled,
   className,
 }: DocumentTypeSelectorProps) {
@@ -45,11 +50,13 @@ export function DocumentTypeSelector({
       .sort((a, b) => b.version - a.version)[0];
   };
 
+  const options = documentTypeOptions.filter((option) => !excludeTypes.includes(option.value));
+
   return (
     <div className={cn('space-y-3', className)}>
       <Label className="text-base font-medium">Document Type</Label>
       <div className="space-y-2">
-        {documentTypeOptions.map((option) => {
+        {options.map((option) => {
           const Icon = iconMap[option.icon as keyof typeof iconMap];
           const isSelected = value === option.value;
           const existingDoc = getExistingDocument(option.value);
@@ -0,0 +1,285 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { cn, formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  ArrowDown,
+  ArrowUp,
+  Download,
+  FileStack,
+  Loader2,
+  Plus,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Document, ExhibitPacket } from '@/types';
+import { useFirm } from '@/hooks/use-firm';
+import {
+  useExhibitPackets,
+  useCreateExhibitPacket,
+  downloadExhibitPacket,
+} from '@/hooks/use-exhibit-packets';
+
+interface ExhibitPacketPanelProps {
+  caseId: string;
+  documents: Document[];
+  /** Letter version to cross-reference Bates ranges into */
+  letterId?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+function formatPacketRange(packet: ExhibitPacket): string {
+  const pad = (n: number) => `${packet.batesPrefix}${String(n).padStart(packet.batesDigits, '0')}`;
+  return `${pad(packet.batesStart)}–${pad(packet.batesEnd)}`;
+}
+
+export function ExhibitPacketPanel({
+  caseId,
+  documents,
+  letterId,
+  disabled,
+  className,
+}: ExhibitPacketPanelProps) {
+  const { data: firm } = useFirm();
+  const { data: packets = [] } = useExhibitPackets(caseId);
+  const createPacket = useCreateExhibitPacket(caseId);
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [batesPrefix, setBatesPrefix] = useState('');
+  const [batesStart, setBatesStart] = useState('1');
+  const [crossReference, setCrossReference] = useState(true);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  // Default the Bates settings from the firm configuration
+  useEffect(() => {
+    if (firm) {
+      setBatesPrefix(firm.batesPrefix);
+      setBatesStart(String(firm.batesStartNumber));
+    }
+  }, [firm]);
+
+  const documentsById = useMemo(
+    () => new Map(documents.map((doc) => [doc.id, doc])),
+    [documents]
+  );
+  const available = documents.filter((doc) => !selectedIds.includes(doc.id));
+
+  const move = (index: number, offset: number) => {
+    setSelectedIds((prev) => {
+      const next = [...prev];
+      const target = index + offset;
+      if (target < 0 || target >= next.length) return prev;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleDownload = async (packet: ExhibitPacket) => {
+    setDownloadingId(packet.id);
+    try {
+      await downloadExhibitPacket(caseId, packet);
+    } catch {
+      toast.error('Download failed. Please try again.');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleBuild = async () => {
+    const startNumber = parseInt(batesStart, 10);
+    if (!Number.isFinite(startNumber) || startNumber < 1) {
+      toast.error('Bates start number must be a positive number');
+      return;
+    }
+
+    try {
+      const result = await createPacket.mutateAsync({
+        documentIds: selectedIds,
+        batesPrefix,
+        batesStartNumber: startNumber,
+        generatedDocumentId: crossReference && letterId ? letterId : undefined,
+      });
+
+      toast.success(
+        result.generatedDocument
+          ? `Exhibit packet built; exhibit index added as version ${result.generatedDocument.version}`
+          : 'Exhibit packet built'
+      );
+      await handleDownload(result.packet);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to build exhibit packet');
+    }
+  };
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <FileStack className="h-4 w-4 text-muted-foreground" />
+          Exhibit Packet
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Selected exhibits, in packet order */}
+        <div className="space-y-2">
+          <Label>Exhibits ({selectedIds.length})</Label>
+          {selectedIds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Add documents below in the order they should appear.
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {selectedIds.map((id, index) => {
+                const doc = documentsById.get(id);
+                if (!doc) return null;
+                return (
+                  <div
+                    key={id}
+                    className="flex items-center gap-2 rounded-md border px-2 py-1.5 text-sm"
+                  >
+                    <Badge variant="secondary" size="sm">
+                      Ex. {index + 1}
+                    </Badge>
+                    <span className="flex-1 truncate" title={doc.originalFilename}>
+                      {doc.originalFilename}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => move(index, 1)}
+                      disabled={index === selectedIds.length - 1}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setSelectedIds((prev) => prev.filter((x) => x !== id))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {available.length > 0 && (
+          <ScrollArea className="max-h-40 rounded-md border">
+            <div className="p-1">
+              {available.map((doc) => (
+                <button
+                  key={doc.id}
+                  type="button"
+                  className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+                  onClick={() => setSelectedIds((prev) => [...prev, doc.id])}
+                >
+                  <Plus className="h-3 w-3 text-muted-foreground" />
+                  <span className="flex-1 truncate">{doc.originalFilename}</span>
+                  {doc.pageCount && (
+                    <span className="text-xs text-muted-foreground">{doc.pageCount} pp.</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {/* Bates settings */}
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="bates-prefix">Bates Prefix</Label>
+            <Input
+              id="bates-prefix"
+              value={batesPrefix}
+              onChange={(e) => setBatesPrefix(e.target.value.toUpperCase())}
+              placeholder="SMITH"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bates-start">Start Number</Label>
+            <Input
+              id="bates-start"
+              type="number"
+              min={1}
+              value={batesStart}
+              onChange={(e) => setBatesStart(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {letterId && (
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={crossReference}
+              onChange={(e) => setCrossReference(e.target.checked)}
+            />
+            Add exhibit index with Bates ranges to the letter
+          </label>
+        )}
+
+        <Button
+          className="w-full"
+          onClick={handleBuild}
+          disabled={disabled || selectedIds.length === 0 || createPacket.isPending}
+        >
+          {createPacket.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <FileStack className="mr-2 h-4 w-4" />
+          )}
+          Build Exhibit Packet
+        </Button>
+
+        {/* Previously built packets */}
+        {packets.length > 0 && (
+          <div className="space-y-1 border-t pt-3">
+            {packets.map((packet) => (
+              <div key={packet.id} className="flex items-center gap-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="truncate font-medium">{formatPacketRange(packet)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {packet.exhibits.length} exhibits • {packet.pageCount} pages •{' '}
+                    {formatDate(packet.createdAt)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDownload(packet)}
+                  disabled={downloadingId === packet.id}
+                >
+                  {downloadingId === packet.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -22,6 +22,7 @@ import {
   Printer,
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { api } from '@/lib/api';
 
 interface ExportPanelProps {
   content: string;
@@ -61,19 +62,7 @@ export function ExportPanel({
     setExporting(format);
 
     try {
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'}/cases/${caseId}/generated-documents/${documentId}/export?format=${format}`,
-        {
-          method: 'GET',
-          credentials: 'include',
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error('Export failed');
-      }
-
-      const blob = await response.blob();
+      const blob = await api.download(`/export/${caseId}/${documentId}/${format}`);
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -229,17 +218,7 @@ export function ExportButton({
     setExporting(format);
 
     try {
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'}/cases/${caseId}/generated-documents/${documentId}/export?format=${format}`,
-        {
-          method: 'GET',
-          credentials: 'include',
-        }
-      );
-
-      if (!response.ok) throw new Error('Export failed');
-
-      const blob = await response.blob();
+      const blob = await api.download(`/export/${caseId}/${documentId}/${format}`);
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
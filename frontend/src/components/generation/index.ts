@@ -5,3 +5,7 @@ export { LetterPreview, LetterPreviewSkeleton } from './letter-preview';
 export { WarningPanel } from './warning-panel';
 export { ExportPanel, ExportButton } from './export-panel';
 export { VersionHistory, VersionBadge } from './version-history';
+export { ExhibitPacketPanel } from './exhibit-packet-panel';
+export { LetterEditor } from './letter-editor';
+export { RedlineView } from './redline-view';
+export { SectionRegeneratePanel } from './section-regenerate-panel';
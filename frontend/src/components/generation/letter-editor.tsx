@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, PencilLine, Save, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { GeneratedDocument } from '@/types';
+import { useSaveDraftEdit } from '@/hooks/use-drafts';
+
+interface LetterEditorProps {
+  caseId: string;
+  /** Version being edited; saving creates a new version from it */
+  document: GeneratedDocument;
+  onSaved?: (document: GeneratedDocument) => void;
+  onCancel?: () => void;
+  className?: string;
+}
+
+export function LetterEditor({
+  caseId,
+  document,
+  onSaved,
+  onCancel,
+  className,
+}: LetterEditorProps) {
+  const [content, setContent] = useState(document.content);
+  const [editNote, setEditNote] = useState('');
+  const saveEdit = useSaveDraftEdit(caseId);
+
+  const hasChanges = content.trim() !== document.content.trim();
+
+  const handleSave = async () => {
+    try {
+      const saved = await saveEdit.mutateAsync({
+        documentId: document.id,
+        content,
+        editNote: editNote.trim(),
+      });
+      toast.success(`Saved as version ${saved.version}`);
+      onSaved?.(saved);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save draft');
+    }
+  };
+
+  const handleCancel = () => {
+    if (hasChanges && !window.confirm('Discard your unsaved changes?')) return;
+    onCancel?.();
+  };
+
+  return (
+    <Card className={cn('flex flex-col h-full', className)}>
+      <CardHeader className="shrink-0 border-b">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <PencilLine className="h-4 w-4 text-muted-foreground" />
+            Edit Draft
+            <Badge variant="outline" size="sm">
+              from v{document.version}
+            </Badge>
+          </CardTitle>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleCancel}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Cancel editing</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="flex-1 flex flex-col gap-3 p-4 min-h-0">
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          className="flex-1 min-h-[400px] resize-none font-mono text-sm leading-relaxed"
+          spellCheck
+        />
+        <div className="flex items-center gap-2">
+          <Input
+            value={editNote}
+            onChange={(e) => setEditNote(e.target.value)}
+            placeholder="Describe your changes (optional)"
+            maxLength={500}
+            className="flex-1"
+          />
+          <Button variant="outline" onClick={handleCancel} disabled={saveEdit.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!hasChanges || saveEdit.isPending}>
+            {saveEdit.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save as New Version
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,6 +21,8 @@ interface LetterPreviewProps {
   content: string;
   isLoading?: boolean;
   isStreaming?: boolean;
+  /** Extra header actions, e.g. edit and compare */
+  actions?: React.ReactNode;
   className?: string;
 }
 
@@ -28,6 +30,7 @@ export function LetterPreview({
   content,
   isLoading,
   isStreaming,
+  actions,
   className,
 }: LetterPreviewProps) {
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -115,6 +118,7 @@ export function LetterPreview({
             )}
           </CardTitle>
           <div className="flex items-center gap-1">
+            {actions}
             <Button
               variant="ghost"
               size="icon"
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { cn, formatDate } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GitCompare, Loader2, X } from 'lucide-react';
+import { GeneratedDocument, RedlineSegment, VersionAuthor } from '@/types';
+import { useVersionRedline } from '@/hooks/use-drafts';
+
+interface RedlineViewProps {
+  caseId: string;
+  /** Versions of one document type to choose from */
+  versions: GeneratedDocument[];
+  /** Version shown on the right; defaults to the latest */
+  initialToId?: string;
+  onClose?: () => void;
+  className?: string;
+}
+
+const DEFAULT_BASE = 'default';
+
+function describeAuthor(author: VersionAuthor): string {
+  const who = author.source === 'AI' ? 'AI draft' : `Edited by ${author.userName || 'user'}`;
+  return `v${author.version} · ${who} · ${formatDate(author.createdAt)}`;
+}
+
+function segmentClassName(segment: RedlineSegment): string | undefined {
+  if (segment.type === 'equal' || !segment.author) return undefined;
+
+  const byUser = segment.author.source === 'USER';
+  if (segment.type === 'insert') {
+    return cn(
+      'rounded-sm underline decoration-2 underline-offset-2',
+      byUser
+        ? 'bg-green-100 decoration-green-600 dark:bg-green-950'
+        : 'bg-blue-100 decoration-blue-600 dark:bg-blue-950'
+    );
+  }
+  return cn(
+    'line-through decoration-2',
+    byUser
+      ? 'text-red-700 decoration-red-600 dark:text-red-400'
+      : 'text-orange-700 decoration-orange-600 dark:text-orange-400'
+  );
+}
+
+export function RedlineView({
+  caseId,
+  versions,
+  initialToId,
+  onClose,
+  className,
+}: RedlineViewProps) {
+  const sorted = [...versions].sort((a, b) => b.version - a.version);
+  const [toId, setToId] = useState(initialToId || sorted[0]?.id);
+  const [baseId, setBaseId] = useState(DEFAULT_BASE);
+
+  const { data: redline, isLoading, error } = useVersionRedline(
+    caseId,
+    toId,
+    baseId === DEFAULT_BASE ? undefined : baseId
+  );
+
+  const bySource = redline?.summary.bySource;
+
+  return (
+    <Card className={cn('flex flex-col h-full', className)}>
+      <CardHeader className="shrink-0 border-b space-y-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <GitCompare className="h-4 w-4 text-muted-foreground" />
+            Compare Versions
+          </CardTitle>
+          {onClose && (
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">Close comparison</span>
+            </Button>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Select value={baseId} onValueChange={setBaseId}>
+            <SelectTrigger className="h-8 w-[200px]">
+              <SelectValue placeholder="Compare from" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_BASE}>Previous version</SelectItem>
+              {sorted
+                .filter((doc) => doc.id !== toId)
+                .map((doc) => (
+                  <SelectItem key={doc.id} value={doc.id}>
+                    v{doc.version} ({doc.source === 'AI' ? 'AI' : 'Edited'})
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <span className="text-muted-foreground">→</span>
+          <Select
+            value={toId}
+            onValueChange={(value) => {
+              setToId(value);
+              if (value === baseId) setBaseId(DEFAULT_BASE);
+            }}
+          >
+            <SelectTrigger className="h-8 w-[200px]">
+              <SelectValue placeholder="Compare to" />
+            </SelectTrigger>
+            <SelectContent>
+              {sorted.map((doc) => (
+                <SelectItem key={doc.id} value={doc.id}>
+                  v{doc.version} ({doc.source === 'AI' ? 'AI' : 'Edited'})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {redline && bySource && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            <span>
+              v{redline.from.version} → v{redline.to.version}: {redline.summary.paragraphsChanged}{' '}
+              paragraph{redline.summary.paragraphsChanged !== 1 ? 's' : ''} changed
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-2.5 w-2.5 rounded-sm bg-blue-200 dark:bg-blue-900" />
+              AI +{bySource.AI.insertedWords} / −{bySource.AI.deletedWords} words
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-2.5 w-2.5 rounded-sm bg-green-200 dark:bg-green-900" />
+              User +{bySource.USER.insertedWords} / −{bySource.USER.deletedWords} words
+            </span>
+          </div>
+        )}
+      </CardHeader>
+      <ScrollArea className="flex-1">
+        <CardContent className="p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              {error instanceof Error ? error.message : 'Failed to load comparison'}
+            </p>
+          ) : redline && redline.summary.paragraphsChanged === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              No differences between these versions
+            </p>
+          ) : (
+            <div className="space-y-3 text-sm leading-relaxed">
+              {redline?.paragraphs.map((paragraph, index) => (
+                <p
+                  key={index}
+                  className={cn(
+                    'whitespace-pre-wrap border-l-2 pl-3',
+                    paragraph.type === 'equal' ? 'border-transparent' : 'border-primary/40'
+                  )}
+                >
+                  {paragraph.segments.map((segment, segmentIndex) => (
+                    <span
+                      key={segmentIndex}
+                      className={segmentClassName(segment)}
+                      title={segment.author ? describeAuthor(segment.author) : undefined}
+                    >
+                      {segment.text}
+                    </span>
+                  ))}
+                </p>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </ScrollArea>
+    </Card>
+  );
+}
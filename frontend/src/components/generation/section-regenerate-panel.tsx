@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, RefreshCw, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { GeneratedDocument, LetterSectionKey } from '@/types';
+import { toneOptions } from '@/hooks/use-generation';
+import { useLetterSections, useRegenerateSection } from '@/hooks/use-letter-sections';
+
+interface SectionRegeneratePanelProps {
+  caseId: string;
+  /** Letter version to rewrite; the result is saved as a new version */
+  document: GeneratedDocument;
+  /** A section regeneration job is queued or running */
+  isRegenerating?: boolean;
+  onQueued?: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const SAME_TONE = 'same';
+
+export function SectionRegeneratePanel({
+  caseId,
+  document,
+  isRegenerating,
+  onQueued,
+  disabled,
+  className,
+}: SectionRegeneratePanelProps) {
+  const { data: sections = [], isLoading } = useLetterSections(caseId, document.id);
+  const regenerateSection = useRegenerateSection(caseId);
+
+  const regenerable = sections.filter((section) => section.regenerable);
+  const [sectionKey, setSectionKey] = useState<LetterSectionKey | ''>('');
+  const [instructions, setInstructions] = useState('');
+  const [tone, setTone] = useState(SAME_TONE);
+
+  // Keep the selection valid when switching letter versions
+  useEffect(() => {
+    if (sectionKey && !regenerable.some((section) => section.key === sectionKey)) {
+      setSectionKey('');
+    }
+  }, [regenerable, sectionKey]);
+
+  const handleRegenerate = async () => {
+    if (!sectionKey) return;
+
+    try {
+      await regenerateSection.mutateAsync({
+        documentId: document.id,
+        sectionKey,
+        instructions: instructions.trim(),
+        tone: tone === SAME_TONE ? undefined : tone,
+      });
+      toast.success('Section regeneration queued; a new version will appear when it finishes');
+      setInstructions('');
+      onQueued?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to regenerate section');
+    }
+  };
+
+  const busy = regenerateSection.isPending || isRegenerating;
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Wand2 className="h-4 w-4 text-muted-foreground" />
+          Regenerate a Section
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!isLoading && regenerable.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No sections were recognized in v{document.version}. Section headings must follow
+            the standard demand letter structure.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <Label>Section</Label>
+              <Select
+                value={sectionKey}
+                onValueChange={(value) => setSectionKey(value as LetterSectionKey)}
+                disabled={isLoading}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={isLoading ? 'Loading sections...' : 'Choose a section'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {regenerable.map((section) => (
+                    <SelectItem key={section.key} value={section.key!}>
+                      {section.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Tone</Label>
+              <Select value={tone} onValueChange={setTone}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SAME_TONE}>Same as letter ({document.tone})</SelectItem>
+                  {toneOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="section-instructions">Instructions</Label>
+              <Textarea
+                id="section-instructions"
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+                placeholder="e.g. Emphasize the MRI findings and shorten the narrative"
+                maxLength={2000}
+                rows={3}
+              />
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Other sections of v{document.version} are kept word for word. The result is saved
+              as a new version.
+            </p>
+
+            <Button
+              className="w-full"
+              variant="outline"
+              onClick={handleRegenerate}
+              disabled={disabled || !sectionKey || busy}
+            >
+              {busy ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              {isRegenerating ? 'Regenerating...' : 'Regenerate Section'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
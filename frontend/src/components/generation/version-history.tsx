@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { History, Eye, Download, Clock, Gauge } from 'lucide-react';
+import { History, Eye, Download, Clock, Gauge, GitCompare, PencilLine, Sparkles, BadgeCheck } from 'lucide-react';
 import { GeneratedDocument, GeneratedDocType } from '@/types';
 import { formatDate } from '@/lib/utils';
 import { documentTypeOptions } from '@/hooks/use-generation';
@@ -14,6 +14,8 @@ interface VersionHistoryProps {
   documents: GeneratedDocument[];
   currentType?: GeneratedDocType;
   onSelect?: (document: GeneratedDocument) => void;
+  /** Show tracked changes from the previous version to this one */
+  onCompare?: (document: GeneratedDocument) => void;
   className?: string;
 }
 
@@ -21,6 +23,7 @@ export function VersionHistory({
   documents,
   currentType,
   onSelect,
+  onCompare,
   className,
 }: VersionHistoryProps) {
   // Filter by current type if specified
@@ -74,12 +77,36 @@ export function VersionHistory({
                         {getDocTypeLabel(doc.documentType)}
                       </Badge>
                     )}
+                    {doc.source === 'USER' ? (
+                      <Badge variant="review" size="sm" className="gap-1">
+                        <PencilLine className="h-2.5 w-2.5" />
+                        Edited
+                      </Badge>
+                    ) : (
+                      <Badge variant="intake" size="sm" className="gap-1">
+                        <Sparkles className="h-2.5 w-2.5" />
+                        AI
+                      </Badge>
+                    )}
                     {index === 0 && (
                       <Badge variant="success" size="sm">
                         Latest
                       </Badge>
                     )}
+                    {doc.finalizedAt && (
+                      <Badge variant="ready" size="sm" className="gap-1">
+                        <BadgeCheck className="h-2.5 w-2.5" />
+                        Final
+                      </Badge>
+                    )}
                   </div>
+                  {doc.source === 'USER' && (doc.createdBy?.name || doc.editNote) && (
+                    <p className="mt-1 truncate text-xs text-muted-foreground">
+                      {doc.createdBy?.name}
+                      {doc.createdBy?.name && doc.editNote && ': '}
+                      {doc.editNote}
+                    </p>
+                  )}
                   <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
                     <span className="flex items-center gap-1">
                       <Clock className="h-3 w-3" />
@@ -96,6 +123,17 @@ export function VersionHistory({
                     )}
                   </div>
                 </div>
+                {onCompare && doc.version > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onCompare(doc)}
+                  >
+                    <GitCompare className="h-4 w-4" />
+                    <span className="sr-only">Compare with previous</span>
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   size="icon"
@@ -1,9 +1,9 @@
 'use client';
 
 import { UserButton } from '@clerk/nextjs';
-import { Bell, Search, Command } from 'lucide-react';
+import { Bell, Search, Command, FileText, Stethoscope, Loader2, Briefcase } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { MobileNav } from './mobile-nav';
 import { useEffect, useState } from 'react';
 import {
@@ -12,14 +12,53 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useRouter } from 'next/navigation';
-import { cn } from '@/lib/utils';
+import { cn, formatDate } from '@/lib/utils';
+import { useSearch, MIN_SEARCH_LENGTH } from '@/hooks/use-search';
+import { getCategoryDisplayName } from '@/hooks/use-documents';
+import { DocumentCategory, SearchResult, SearchType } from '@/types';
+
+const searchTypeOptions: { value: SearchType; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'documents', label: 'Documents' },
+  { value: 'events', label: 'Medical Events' },
+];
+
+const categoryOptions: DocumentCategory[] = [
+  'MEDICAL_RECORDS',
+  'MEDICAL_BILLS',
+  'POLICE_REPORT',
+  'PHOTOS',
+  'WAGE_DOCUMENTATION',
+  'INSURANCE_CORRESPONDENCE',
+  'WITNESS_STATEMENT',
+  'EXPERT_REPORT',
+  'PRIOR_MEDICAL_RECORDS',
+  'LIEN_LETTER',
+  'OTHER',
+];
 
 export function Header() {
   const [searchOpen, setSearchOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchType, setSearchType] = useState<SearchType>('all');
+  const [category, setCategory] = useState<string>('all');
   const router = useRouter();
 
+  const { data: searchData, isFetching: searching } = useSearch(searchQuery, {
+    type: searchType,
+    category: category === 'all' ? undefined : (category as DocumentCategory),
+  });
+  const hasQuery = searchQuery.trim().length >= MIN_SEARCH_LENGTH;
+  const results = hasQuery ? searchData?.results || [] : [];
+
   // Keyboard shortcut for search (Cmd+K)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -36,12 +75,32 @@ export function Header() {
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, []);
 
+  const closeSearch = () => {
+    setSearchOpen(false);
+    setSearchQuery('');
+  };
+
+  const openResult = (result: SearchResult) => {
+    router.push(
+      result.type === 'document'
+        ? `/cases/${result.caseId}/documents?document=${result.documentId}`
+        : `/cases/${result.caseId}/chronology`
+    );
+    closeSearch();
+  };
+
+  const searchCases = () => {
+    router.push(`/cases?search=${encodeURIComponent(searchQuery.trim())}`);
+    closeSearch();
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchQuery.trim()) {
-      router.push(`/cases?search=${encodeURIComponent(searchQuery)}`);
-      setSearchOpen(false);
-      setSearchQuery('');
+    if (!searchQuery.trim()) return;
+    if (results.length > 0) {
+      openResult(results[0]);
+    } else {
+      searchCases();
     }
   };
 
@@ -59,7 +118,7 @@ export function Header() {
               className="flex items-center w-full h-10 px-3 py-2 text-sm text-muted-foreground bg-muted/50 border rounded-lg hover:bg-muted transition-colors"
             >
               <Search className="h-4 w-4 mr-2 shrink-0" />
-              <span className="flex-1 text-left">Search cases...</span>
+              <span className="flex-1 text-left">Search cases, documents, records...</span>
               <kbd className="hidden sm:inline-flex h-5 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium text-muted-foreground">
                 <Command className="h-3 w-3" />K
               </kbd>
@@ -114,31 +173,115 @@ export function Header() {
             <div className="flex items-center border-b px-4">
               <Search className="h-5 w-5 text-muted-foreground shrink-0" />
               <input
-                placeholder="Search cases by name, client, or status..."
+                placeholder="Search documents, medical records, and providers..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="flex-1 h-14 px-4 text-base bg-transparent border-0 outline-none placeholder:text-muted-foreground"
                 autoFocus
               />
-              <kbd className="hidden sm:inline-flex h-6 items-center gap-1 rounded border bg-muted px-2 font-mono text-xs text-muted-foreground">
-                ESC
-              </kbd>
+              {searching ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : (
+                <kbd className="hidden sm:inline-flex h-6 items-center gap-1 rounded border bg-muted px-2 font-mono text-xs text-muted-foreground">
+                  ESC
+                </kbd>
+              )}
             </div>
           </form>
+          <div className="flex items-center gap-2 border-b px-4 py-2">
+            {searchTypeOptions.map((option) => (
+              <Button
+                key={option.value}
+                type="button"
+                variant={searchType === option.value ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7"
+                onClick={() => setSearchType(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+            <div className="flex-1" />
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="h-7 w-[180px] text-xs">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {categoryOptions.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {getCategoryDisplayName(option)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div className="max-h-96 overflow-y-auto p-2">
-            {searchQuery ? (
-              <div className="p-8 text-center text-sm text-muted-foreground">
-                <p>Press Enter to search for &quot;{searchQuery}&quot;</p>
-              </div>
-            ) : (
+            {!hasQuery ? (
               <div className="p-8 text-center text-sm text-muted-foreground">
-                <p>Start typing to search cases...</p>
+                <p>Start typing to search across all cases...</p>
                 <p className="mt-2 text-xs">
-                  Search by case name, client name, or status
+                  Searches document text, medical events, diagnoses, and providers
                 </p>
               </div>
+            ) : results.length === 0 ? (
+              <div className="p-8 text-center text-sm text-muted-foreground">
+                <p>{searching ? 'Searching...' : `No matches for "${searchQuery.trim()}"`}</p>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {results.map((result) => (
+                  <button
+                    key={`${result.type}-${result.id}`}
+                    type="button"
+                    onClick={() => openResult(result)}
+                    className="flex w-full gap-3 rounded-md px-3 py-2 text-left hover:bg-muted"
+                  >
+                    {result.type === 'document' ? (
+                      <FileText className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    ) : (
+                      <Stethoscope className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate text-sm font-medium">{result.title}</span>
+                        <Badge variant="outline" size="sm" className="shrink-0">
+                          {getCategoryDisplayName(result.category)}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {result.clientName}
+                        {result.caseNumber && ` • ${result.caseNumber}`}
+                        {result.date && ` • ${formatDate(result.date)}`}
+                      </p>
+                      {result.snippet && (
+                        <p
+                          className="mt-1 line-clamp-2 text-xs text-muted-foreground [&_mark]:rounded-sm [&_mark]:bg-yellow-200 [&_mark]:px-0.5 [&_mark]:text-foreground dark:[&_mark]:bg-yellow-900"
+                          // Snippets are HTML-escaped by the API; only <mark> tags remain
+                          dangerouslySetInnerHTML={{ __html: result.snippet }}
+                        />
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
             )}
           </div>
+          {hasQuery && (
+            <button
+              type="button"
+              onClick={searchCases}
+              className="flex w-full items-center gap-2 border-t px-4 py-3 text-sm text-muted-foreground hover:bg-muted"
+            >
+              <Briefcase className="h-4 w-4" />
+              Search case names for &quot;{searchQuery.trim()}&quot;
+              {searchData && searchData.total > results.length && (
+                <span className="ml-auto text-xs">
+                  Showing {results.length} of {searchData.total} matches
+                </span>
+              )}
+            </button>
+          )}
         </DialogContent>
       </Dialog>
     </>
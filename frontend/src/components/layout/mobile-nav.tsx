@@ -3,6 +3,8 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Permission } from '@/types';
 import {
   Sheet,
   SheetContent,
@@ -16,15 +18,18 @@ import {
   FolderOpen,
   Settings,
   HelpCircle,
+  ShieldCheck,
   Menu,
   FileText,
   Scale,
+  type LucideIcon,
 } from 'lucide-react';
 import { useState } from 'react';
 
-const navigation = [
+const navigation: { name: string; href: string; icon: LucideIcon; permission?: Permission }[] = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Cases', href: '/cases', icon: FolderOpen },
+  { name: 'Audit Log', href: '/admin/audit', icon: ShieldCheck, permission: 'audit:view' },
   { name: 'Settings', href: '/settings', icon: Settings },
   { name: 'Help', href: '/help', icon: HelpCircle },
 ];
@@ -32,6 +37,7 @@ const navigation = [
 export function MobileNav() {
   const pathname = usePathname();
   const [open, setOpen] = useState(false);
+  const { can } = usePermissions();
 
   return (
     <Sheet open={open} onOpenChange={setOpen}>
@@ -51,7 +57,7 @@ export function MobileNav() {
           </SheetTitle>
         </SheetHeader>
         <nav className="flex flex-col gap-1 p-4">
-          {navigation.map((item) => {
+          {navigation.filter((item) => !item.permission || can(item.permission)).map((item) => {
             const isActive =
               pathname === item.href || pathname.startsWith(item.href + '/');
             return (
@@ -72,22 +78,24 @@ export function MobileNav() {
             );
           })}
         </nav>
-        <div className="absolute bottom-0 left-0 right-0 border-t p-4">
-          <div className="flex items-center gap-3 rounded-lg bg-muted/50 p-3">
-            <FileText className="h-8 w-8 text-primary" />
-            <div className="flex-1 min-w-0">
-              <p className="text-sm font-medium truncate">Quick Start</p>
-              <p className="text-xs text-muted-foreground">Create a new case</p>
+        {can('case:create') && (
+          <div className="absolute bottom-0 left-0 right-0 border-t p-4">
+            <div className="flex items-center gap-3 rounded-lg bg-muted/50 p-3">
+              <FileText className="h-8 w-8 text-primary" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">Quick Start</p>
+                <p className="text-xs text-muted-foreground">Create a new case</p>
+              </div>
+              <Link
+                href="/cases/new"
+                onClick={() => setOpen(false)}
+                className="shrink-0"
+              >
+                <Button size="sm">New</Button>
+              </Link>
             </div>
-            <Link
-              href="/cases/new"
-              onClick={() => setOpen(false)}
-              className="shrink-0"
-            >
-              <Button size="sm">New</Button>
-            </Link>
           </div>
-        </div>
+        )}
       </SheetContent>
     </Sheet>
   );
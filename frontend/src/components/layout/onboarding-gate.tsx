@@ -0,0 +1,23 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useOnboardingStatus } from '@/hooks/use-onboarding';
+
+/**
+ * Send signed-in users who haven't joined a firm (or were deactivated) to
+ * onboarding instead of a dashboard whose API calls would all fail.
+ */
+export function OnboardingGate({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const { data: status } = useOnboardingStatus();
+  const needsOnboarding = !!status && status.status !== 'active';
+
+  useEffect(() => {
+    if (needsOnboarding) {
+      router.replace('/onboarding');
+    }
+  }, [needsOnboarding, router]);
+
+  return needsOnboarding ? null : <>{children}</>;
+}
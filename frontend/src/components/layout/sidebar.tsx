@@ -3,6 +3,8 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Permission } from '@/types';
 import { Button } from '@/components/ui/button';
 import { SimpleTooltip } from '@/components/ui/tooltip';
 import {
@@ -10,10 +12,12 @@ import {
   FolderOpen,
   Settings,
   HelpCircle,
+  ShieldCheck,
   ChevronLeft,
   ChevronRight,
   Plus,
   Scale,
+  type LucideIcon,
 } from 'lucide-react';
 import { useState, createContext, useContext } from 'react';
 
@@ -31,9 +35,10 @@ export function useSidebar() {
   return useContext(SidebarContext);
 }
 
-const navigation = [
+const navigation: { name: string; href: string; icon: LucideIcon; permission?: Permission }[] = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Cases', href: '/cases', icon: FolderOpen },
+  { name: 'Audit Log', href: '/admin/audit', icon: ShieldCheck, permission: 'audit:view' },
   { name: 'Settings', href: '/settings', icon: Settings },
   { name: 'Help', href: '/help', icon: HelpCircle },
 ];
@@ -41,6 +46,7 @@ const navigation = [
 export function Sidebar() {
   const pathname = usePathname();
   const [collapsed, setCollapsed] = useState(false);
+  const { can } = usePermissions();
 
   return (
     <SidebarContext.Provider value={{ collapsed, setCollapsed }}>
@@ -73,28 +79,30 @@ export function Sidebar() {
           </div>
 
           {/* Quick Action */}
-          <div className={cn('px-3 mb-4', collapsed && 'px-2')}>
-            {collapsed ? (
-              <SimpleTooltip content="New Case" side="right">
+          {can('case:create') && (
+            <div className={cn('px-3 mb-4', collapsed && 'px-2')}>
+              {collapsed ? (
+                <SimpleTooltip content="New Case" side="right">
+                  <Link href="/cases/new">
+                    <Button size="icon" className="w-full h-10">
+                      <Plus className="h-5 w-5" />
+                    </Button>
+                  </Link>
+                </SimpleTooltip>
+              ) : (
                 <Link href="/cases/new">
-                  <Button size="icon" className="w-full h-10">
-                    <Plus className="h-5 w-5" />
+                  <Button className="w-full justify-start gap-2">
+                    <Plus className="h-4 w-4" />
+                    New Case
                   </Button>
                 </Link>
-              </SimpleTooltip>
-            ) : (
-              <Link href="/cases/new">
-                <Button className="w-full justify-start gap-2">
-                  <Plus className="h-4 w-4" />
-                  New Case
-                </Button>
-              </Link>
-            )}
-          </div>
+              )}
+            </div>
+          )}
 
           {/* Navigation */}
           <nav className="flex-1 px-2 space-y-1">
-            {navigation.map((item) => {
+            {navigation.filter((item) => !item.permission || can(item.permission)).map((item) => {
               const isActive =
                 pathname === item.href || pathname.startsWith(item.href + '/');
 
@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from 'sonner';
+import { useFirm, useUpdateFirm } from '@/hooks/use-firm';
+import { usePermissions } from '@/hooks/use-permissions';
+
+export function BatesSettingsCard() {
+  const { data: firm, isLoading } = useFirm();
+  const updateFirm = useUpdateFirm();
+  const { can } = usePermissions();
+  const canManage = can('firm:manage');
+
+  const [prefix, setPrefix] = useState('');
+  const [startNumber, setStartNumber] = useState('1');
+  const [digits, setDigits] = useState('6');
+
+  useEffect(() => {
+    if (firm) {
+      setPrefix(firm.batesPrefix);
+      setStartNumber(String(firm.batesStartNumber));
+      setDigits(String(firm.batesDigits));
+    }
+  }, [firm]);
+
+  const preview = `${prefix}${String(parseInt(startNumber, 10) || 1).padStart(
+    parseInt(digits, 10) || 6,
+    '0'
+  )}`;
+
+  const handleSave = async () => {
+    try {
+      await updateFirm.mutateAsync({
+        batesPrefix: prefix,
+        batesStartNumber: parseInt(startNumber, 10),
+        batesDigits: parseInt(digits, 10),
+      });
+      toast.success('Bates numbering saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save Bates numbering');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exhibit Numbering</CardTitle>
+        <CardDescription>
+          Default Bates prefix and starting number for exhibit packets
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          <fieldset className="grid gap-4 sm:grid-cols-3" disabled={!canManage}>
+            <div className="space-y-2">
+              <Label htmlFor="firm-bates-prefix">Prefix</Label>
+              <Input
+                id="firm-bates-prefix"
+                value={prefix}
+                onChange={(e) => setPrefix(e.target.value.toUpperCase())}
+                placeholder="JA"
+                maxLength={20}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="firm-bates-start">Start Number</Label>
+              <Input
+                id="firm-bates-start"
+                type="number"
+                min={1}
+                value={startNumber}
+                onChange={(e) => setStartNumber(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="firm-bates-digits">Digits</Label>
+              <Input
+                id="firm-bates-digits"
+                type="number"
+                min={3}
+                max={10}
+                value={digits}
+                onChange={(e) => setDigits(e.target.value)}
+              />
+            </div>
+          </fieldset>
+        )}
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            First page will be stamped <span className="font-mono">{preview}</span>
+          </p>
+          {canManage && (
+            <Button onClick={handleSave} disabled={isLoading || updateFirm.isPending}>
+              {updateFirm.isPending ? 'Saving...' : 'Save Numbering'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,4 @@
+export { BatesSettingsCard } from './bates-settings-card';
+export { RolePermissionsCard } from './role-permissions-card';
+export { TeamMembersCard, InvitationsCard } from './team-members-card';
+export { PlanUsageCard, UsageHistoryCard } from './usage-cards';
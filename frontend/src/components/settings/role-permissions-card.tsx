@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Lock } from 'lucide-react';
+import { toast } from 'sonner';
+import { Permission, RolePermissionOverrides, UserRole } from '@/types';
+import { useRolePermissions, useUpdateRolePermissions } from '@/hooks/use-permissions';
+
+export const ROLES: { value: UserRole; label: string }[] = [
+  { value: 'ADMIN', label: 'Admin' },
+  { value: 'ATTORNEY', label: 'Attorney' },
+  { value: 'PARALEGAL', label: 'Paralegal' },
+  { value: 'VIEWER', label: 'Viewer' },
+];
+
+export function RolePermissionsCard() {
+  const { data: matrix, isLoading } = useRolePermissions();
+  const updatePermissions = useUpdateRolePermissions();
+  const [overrides, setOverrides] = useState<RolePermissionOverrides>({});
+
+  useEffect(() => {
+    if (matrix) {
+      setOverrides(matrix.overrides);
+    }
+  }, [matrix]);
+
+  const isGranted = (role: UserRole, permission: Permission): boolean =>
+    overrides[role]?.[permission] ?? matrix?.defaults[role].includes(permission) ?? false;
+
+  const toggle = (role: UserRole, permission: Permission) => {
+    if (!matrix) return;
+    const granted = !isGranted(role, permission);
+    const { [permission]: _, ...rest } = overrides[role] ?? {};
+    // Only keep departures from the role's default
+    const roleOverrides =
+      matrix.defaults[role].includes(permission) === granted ? rest : { ...rest, [permission]: granted };
+    setOverrides({ ...overrides, [role]: roleOverrides });
+  };
+
+  const isDirty =
+    !!matrix &&
+    ROLES.some(({ value: role }) =>
+      matrix.permissions.some(({ key }) => isGranted(role, key) !== matrix.effective[role].includes(key))
+    );
+
+  const handleSave = async () => {
+    try {
+      await updatePermissions.mutateAsync(overrides);
+      toast.success('Permissions saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save permissions');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Role Permissions</CardTitle>
+        <CardDescription>
+          What each role can do in this firm. Every member can view cases that aren&apos;t restricted to their team;
+          these control changes, generation and exports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !matrix ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Permission</TableHead>
+                {ROLES.map((role) => (
+                  <TableHead key={role.value} className="text-center">
+                    {role.label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {matrix.permissions.map((permission) => (
+                <TableRow key={permission.key}>
+                  <TableCell>
+                    <div className="font-medium">{permission.label}</div>
+                    <div className="font-mono text-xs text-muted-foreground">{permission.key}</div>
+                  </TableCell>
+                  {ROLES.map(({ value: role, label }) => {
+                    const locked = permission.locked.includes(role);
+                    return (
+                      <TableCell key={role} className="text-center">
+                        {locked ? (
+                          <Lock className="mx-auto h-4 w-4 text-muted-foreground" aria-label="Always granted" />
+                        ) : (
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 accent-primary"
+                            checked={isGranted(role, permission.key)}
+                            onChange={() => toggle(role, permission.key)}
+                            aria-label={`${label}: ${permission.label}`}
+                          />
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <div className="flex items-center justify-end gap-2">
+          {isDirty && (
+            <Button variant="ghost" onClick={() => matrix && setOverrides(matrix.overrides)}>
+              Reset
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={!isDirty || updatePermissions.isPending}>
+            {updatePermissions.isPending ? 'Saving...' : 'Save Permissions'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Mail, Send, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { FirmUser, UserRole } from '@/types';
+import { formatShortDate } from '@/lib/utils';
+import {
+  useCreateInvitation,
+  useFirmUsers,
+  useInvitations,
+  useRevokeInvitation,
+  useSetUserActive,
+  useUpdateUserRole,
+} from '@/hooks/use-firm-users';
+import { useCurrentUser } from '@/hooks/use-permissions';
+import { ROLES } from './role-permissions-card';
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: UserRole;
+  onChange: (role: UserRole) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as UserRole)} disabled={disabled}>
+      <SelectTrigger className="w-[140px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ROLES.map((role) => (
+          <SelectItem key={role.value} value={role.value}>
+            {role.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function TeamMembersCard() {
+  const { data: users, isLoading } = useFirmUsers();
+  const { data: currentUser } = useCurrentUser();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team Members</CardTitle>
+        <CardDescription>
+          Change roles or deactivate people who have left. Deactivated users can&apos;t sign in but their work stays
+          attributed to them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Cases</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead className="text-right">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users?.map((user) => (
+                <TeamMemberRow key={user.id} user={user} isSelf={user.id === currentUser?.user.id} />
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TeamMemberRow({ user, isSelf }: { user: FirmUser; isSelf: boolean }) {
+  const updateRole = useUpdateUserRole();
+  const setActive = useSetUserActive();
+  const active = !user.deactivatedAt;
+
+  const handleRoleChange = async (role: UserRole) => {
+    try {
+      await updateRole.mutateAsync({ userId: user.id, role });
+      toast.success(`${user.name} is now ${ROLES.find((r) => r.value === role)?.label.toLowerCase()}`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to change role'));
+    }
+  };
+
+  const handleToggleActive = async () => {
+    try {
+      await setActive.mutateAsync({ userId: user.id, active: !active });
+      toast.success(active ? `${user.name} deactivated` : `${user.name} reactivated`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to update user'));
+    }
+  };
+
+  return (
+    <TableRow className={active ? undefined : 'opacity-60'}>
+      <TableCell>
+        <div className="font-medium">
+          {user.name}
+          {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+        </div>
+        <div className="text-xs text-muted-foreground">{user.email}</div>
+      </TableCell>
+      <TableCell>
+        <RoleSelect value={user.role} onChange={handleRoleChange} disabled={isSelf || updateRole.isPending} />
+      </TableCell>
+      <TableCell>{user._count.cases}</TableCell>
+      <TableCell className="text-muted-foreground">{formatShortDate(user.createdAt)}</TableCell>
+      <TableCell className="text-right">
+        <div className="flex items-center justify-end gap-2">
+          {!active && (
+            <Badge variant="secondary" size="sm">
+              Deactivated
+            </Badge>
+          )}
+          {!isSelf && (
+            <Button variant="ghost" size="sm" onClick={handleToggleActive} disabled={setActive.isPending}>
+              {active ? 'Deactivate' : 'Reactivate'}
+            </Button>
+          )}
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export function InvitationsCard() {
+  const { data: invitations, isLoading } = useInvitations();
+  const createInvitation = useCreateInvitation();
+  const revokeInvitation = useRevokeInvitation();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserRole>('ATTORNEY');
+
+  const handleInvite = async () => {
+    try {
+      const invitation = await createInvitation.mutateAsync({ email, role });
+      setEmail('');
+      toast.success(`Invitation sent to ${invitation.email}`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to send invitation'));
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    try {
+      await revokeInvitation.mutateAsync(invitationId);
+      toast.success('Invitation revoked');
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to revoke invitation'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Invitations</CardTitle>
+        <CardDescription>
+          Invite colleagues by email. They join with the role you choose once they sign in with that address.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-col gap-2 sm:flex-row"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleInvite();
+          }}
+        >
+          <Input
+            type="email"
+            placeholder="colleague@firm.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            leftIcon={<Mail className="h-4 w-4" />}
+            className="flex-1"
+          />
+          <RoleSelect value={role} onChange={setRole} />
+          <Button type="submit" disabled={!email.trim() || createInvitation.isPending}>
+            {createInvitation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            Invite
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : invitations && invitations.length > 0 ? (
+          <div className="divide-y rounded-lg border">
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center gap-3 p-3 text-sm">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium">{invitation.email}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {ROLES.find((r) => r.value === invitation.role)?.label} • invited by {invitation.invitedBy.name}
+                    {' • '}
+                    {invitation.expired ? 'expired' : `expires ${formatShortDate(invitation.expiresAt)}`}
+                  </p>
+                </div>
+                {invitation.expired && (
+                  <Badge variant="warning" size="sm">
+                    Expired
+                  </Badge>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleRevoke(invitation.id)}
+                  disabled={revokeInvitation.isPending}
+                  aria-label={`Revoke invitation for ${invitation.email}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No pending invitations.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import { useState } from 'react';
+import { cn, formatCurrency } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, FileText, Sparkles, Users, Zap } from 'lucide-react';
+import { useUsageHistory, useUsageSummary } from '@/hooks/use-usage';
+import { UsageQuota } from '@/types';
+
+const TASK_LABELS: Record<string, string> = {
+  classification: 'Document classification',
+  segmentation: 'Combined PDF splitting',
+  extraction: 'Data extraction',
+  medical_events: 'Medical event extraction',
+  gap_explanations: 'Treatment gap explanations',
+  chronology_narrative: 'Chronology narrative',
+  executive_summary: 'Chronology summary',
+  demand_letter: 'Demand letters',
+  section_regeneration: 'Section rewrites',
+  document_generation: 'Other documents',
+};
+
+const formatTokens = (tokens: number) => new Intl.NumberFormat('en-US', { notation: 'compact' }).format(tokens);
+
+function formatPeriod(period: string, interval: 'day' | 'month'): string {
+  const [year, month, day] = period.split('-').map(Number);
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: 'UTC',
+    month: 'short',
+    ...(interval === 'day' ? { day: 'numeric' } : { year: 'numeric' }),
+  }).format(new Date(Date.UTC(year, month - 1, day || 1)));
+}
+
+function QuotaBar({ quota }: { quota: UsageQuota }) {
+  // The bar spans the hard limit, or the soft limit with headroom when there's no cap
+  const scale = quota.hardLimitUsd ?? Math.max(quota.softLimitUsd * 1.25, quota.usedUsd);
+  const percent = (value: number) => Math.min((value / scale) * 100, 100);
+
+  return (
+    <div className="relative h-3 rounded-full bg-muted overflow-hidden">
+      <div
+        className={cn(
+          'h-full rounded-full transition-all',
+          quota.state === 'hard_limit' ? 'bg-destructive' : quota.state === 'soft_limit' ? 'bg-warning' : 'bg-primary'
+        )}
+        style={{ width: `${percent(quota.usedUsd)}%` }}
+      />
+      <div
+        className="absolute inset-y-0 w-0.5 bg-foreground/40"
+        style={{ left: `${percent(quota.softLimitUsd)}%` }}
+        title={`Soft limit ${formatCurrency(quota.softLimitUsd)}`}
+      />
+    </div>
+  );
+}
+
+export function PlanUsageCard() {
+  const { data: summary, isLoading } = useUsageSummary();
+
+  if (isLoading || !summary) {
+    return (
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { quota, activity } = summary;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Plan</CardTitle>
+          <CardDescription>AI usage is metered monthly against your plan&apos;s limits</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-between rounded-lg border bg-primary/5 p-6">
+            <div className="flex items-center gap-4">
+              <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+                <Zap className="h-6 w-6" />
+              </div>
+              <div>
+                <div className="flex items-center gap-2">
+                  <h3 className="text-lg font-semibold">{quota.planLabel} Plan</h3>
+                  <Badge variant="success">Active</Badge>
+                </div>
+                <p className="text-muted-foreground">
+                  {quota.monthlyPriceUsd !== null
+                    ? `${formatCurrency(quota.monthlyPriceUsd)}/month • Billed monthly`
+                    : 'Custom pricing'}
+                </p>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Usage This Month</CardTitle>
+          <CardDescription>Your usage resets on the 1st of each month</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {quota.state !== 'ok' && (
+            <div
+              className={cn(
+                'flex items-start gap-2 rounded-lg border p-3 text-sm',
+                quota.state === 'hard_limit'
+                  ? 'border-destructive/50 bg-destructive/5 text-destructive'
+                  : 'border-warning/50 bg-warning/5 text-warning'
+              )}
+            >
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              {quota.state === 'hard_limit'
+                ? 'The monthly AI limit has been reached. Document processing, chronologies and letter generation are paused until next month.'
+                : `AI spend has passed the ${formatCurrency(quota.softLimitUsd)} warning threshold for this month.`}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                <Sparkles className="h-4 w-4 text-muted-foreground" />
+                <span>AI Spend (estimated)</span>
+              </div>
+              <span className="font-medium">
+                {formatCurrency(quota.usedUsd)}
+                {quota.hardLimitUsd !== null && ` / ${formatCurrency(quota.hardLimitUsd)}`}
+              </span>
+            </div>
+            <QuotaBar quota={quota} />
+            <p className="text-xs text-muted-foreground">
+              {formatTokens(summary.totals.inputTokens)} input and {formatTokens(summary.totals.outputTokens)} output
+              tokens across {summary.totals.calls.toLocaleString()} AI calls
+            </p>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-4">
+            {[
+              { label: 'Cases Created', value: activity.casesCreated, icon: FileText },
+              { label: 'Documents Processed', value: activity.documentsProcessed, icon: FileText },
+              { label: 'Letters Generated', value: activity.lettersGenerated, icon: Zap },
+              { label: 'Team Members', value: activity.teamMembers, icon: Users },
+            ].map((item) => (
+              <div key={item.label} className="rounded-lg border p-4">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <item.icon className="h-4 w-4" />
+                  {item.label}
+                </div>
+                <p className="mt-1 text-2xl font-semibold">{item.value.toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+export function UsageHistoryCard() {
+  const [interval, setUsageInterval] = useState<'day' | 'month'>('day');
+  const { data: history, isLoading } = useUsageHistory(interval);
+
+  const maxCost = Math.max(...(history?.series.map((point) => point.costUsd) ?? []), 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Usage History</CardTitle>
+          <CardDescription>
+            {interval === 'day' ? 'Estimated AI spend over the last 30 days' : 'Estimated AI spend over the last 12 months'}
+          </CardDescription>
+        </div>
+        <div className="flex gap-1">
+          <Button variant={interval === 'day' ? 'secondary' : 'ghost'} size="sm" onClick={() => setUsageInterval('day')}>
+            Daily
+          </Button>
+          <Button variant={interval === 'month' ? 'secondary' : 'ghost'} size="sm" onClick={() => setUsageInterval('month')}>
+            Monthly
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !history ? (
+          <Skeleton className="h-40 w-full" />
+        ) : history.series.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No AI usage in this period</p>
+        ) : (
+          <>
+            <div className="flex h-40 items-end gap-1">
+              {history.series.map((point) => (
+                <div
+                  key={point.period}
+                  className="flex-1 rounded-t bg-primary/80 hover:bg-primary transition-colors"
+                  style={{ height: `${maxCost > 0 ? Math.max((point.costUsd / maxCost) * 100, 2) : 2}%` }}
+                  title={`${formatPeriod(point.period, interval)}: ${formatCurrency(point.costUsd)} (${point.calls} calls)`}
+                />
+              ))}
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    <TableHead className="text-right">Tokens</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.byTask.map((row) => (
+                    <TableRow key={row.task}>
+                      <TableCell>{TASK_LABELS[row.task] ?? row.task}</TableCell>
+                      <TableCell className="text-right">{formatTokens(row.inputTokens + row.outputTokens)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.costUsd)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Case</TableHead>
+                    <TableHead className="text-right">Calls</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.byCase.map((row) => (
+                    <TableRow key={row.caseId}>
+                      <TableCell>
+                        {row.clientName ?? 'Deleted case'}
+                        {row.caseNumber && (
+                          <span className="ml-2 text-xs text-muted-foreground">{row.caseNumber}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{row.calls.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.costUsd)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,2 @@
+export { LienTable, lienTypeLabels, lienStatusLabels } from './lien-table';
+export { SettlementWorksheetCard } from './settlement-worksheet';
@@ -0,0 +1,351 @@
+'use client';
+
+import { useState } from 'react';
+import { cn, formatCurrency } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { EmptyState } from '@/components/ui/empty-state';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FileText, Landmark, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Lien, LienStatus, LienType } from '@/types';
+import { useCreateLien, useDeleteLien, useLiens, useUpdateLien } from '@/hooks/use-settlement';
+import { usePermissions } from '@/hooks/use-permissions';
+
+interface LienTableProps {
+  caseId: string;
+  className?: string;
+}
+
+export const lienTypeLabels: Record<LienType, string> = {
+  MEDICAL_PROVIDER: 'Medical provider',
+  HEALTH_INSURER: 'Health insurer',
+  MEDICARE: 'Medicare',
+  MEDI_CAL: 'Medi-Cal',
+  ERISA: 'ERISA plan',
+  OTHER: 'Other',
+};
+
+export const lienStatusLabels: Record<LienStatus, string> = {
+  ASSERTED: 'Asserted',
+  NEGOTIATING: 'Negotiating',
+  REDUCED: 'Reduced',
+  PAID: 'Paid',
+  WAIVED: 'Waived',
+  DISPUTED: 'Disputed',
+};
+
+const statusVariants: Record<LienStatus, 'intake' | 'review' | 'success' | 'secondary' | 'destructive'> = {
+  ASSERTED: 'intake',
+  NEGOTIATING: 'review',
+  REDUCED: 'success',
+  PAID: 'secondary',
+  WAIVED: 'success',
+  DISPUTED: 'destructive',
+};
+
+function LienDialog({
+  caseId,
+  open,
+  onOpenChange,
+}: {
+  caseId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const createLien = useCreateLien(caseId);
+  const [holderName, setHolderName] = useState('');
+  const [type, setType] = useState<LienType>('MEDICAL_PROVIDER');
+  const [amountClaimed, setAmountClaimed] = useState('');
+  const [claimNumber, setClaimNumber] = useState('');
+
+  const amount = parseFloat(amountClaimed);
+  const isValid = holderName.trim().length > 0 && Number.isFinite(amount) && amount >= 0;
+
+  const handleSubmit = async () => {
+    try {
+      await createLien.mutateAsync({
+        holderName: holderName.trim(),
+        type,
+        amountClaimed: amount,
+        claimNumber: claimNumber.trim() || null,
+      });
+      toast.success('Lien added');
+      setHolderName('');
+      setAmountClaimed('');
+      setClaimNumber('');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add lien');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Lien</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="lien-holder">Lien holder</Label>
+            <Input
+              id="lien-holder"
+              value={holderName}
+              onChange={(e) => setHolderName(e.target.value)}
+              placeholder="e.g. Kaiser Permanente"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as LienType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(lienTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="lien-amount">Amount claimed</Label>
+              <Input
+                id="lien-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={amountClaimed}
+                onChange={(e) => setAmountClaimed(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="lien-claim">Claim number</Label>
+              <Input
+                id="lien-claim"
+                value={claimNumber}
+                onChange={(e) => setClaimNumber(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || createLien.isPending}>
+            {createLien.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add Lien
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function NegotiatedAmountInput({ caseId, lien }: { caseId: string; lien: Lien }) {
+  const updateLien = useUpdateLien(caseId);
+  const [value, setValue] = useState(lien.negotiatedAmount ?? '');
+
+  const handleBlur = async () => {
+    const trimmed = String(value).trim();
+    const negotiatedAmount = trimmed === '' ? null : parseFloat(trimmed);
+    const current = lien.negotiatedAmount === null ? null : Number(lien.negotiatedAmount);
+    if (negotiatedAmount === current) return;
+    if (negotiatedAmount !== null && (!Number.isFinite(negotiatedAmount) || negotiatedAmount < 0)) {
+      setValue(lien.negotiatedAmount ?? '');
+      return;
+    }
+
+    try {
+      await updateLien.mutateAsync({
+        lienId: lien.id,
+        negotiatedAmount,
+        // Recording a reduction moves an open lien to Reduced
+        ...(negotiatedAmount !== null && ['ASSERTED', 'NEGOTIATING'].includes(lien.status)
+          ? { status: 'REDUCED' as LienStatus }
+          : {}),
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update lien');
+    }
+  };
+
+  return (
+    <Input
+      type="number"
+      min={0}
+      step="0.01"
+      className="h-8 w-32"
+      placeholder="—"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={handleBlur}
+      aria-label={`Negotiated amount for ${lien.holderName}`}
+    />
+  );
+}
+
+export function LienTable({ caseId, className }: LienTableProps) {
+  const { data: liens = [], isLoading } = useLiens(caseId);
+  const updateLien = useUpdateLien(caseId);
+  const deleteLien = useDeleteLien(caseId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { can } = usePermissions();
+  const canEdit = can('settlement:edit');
+
+  const handleStatusChange = async (lien: Lien, status: LienStatus) => {
+    try {
+      await updateLien.mutateAsync({ lienId: lien.id, status });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update lien');
+    }
+  };
+
+  const handleDelete = async (lien: Lien) => {
+    if (!window.confirm(`Delete the lien from ${lien.holderName}?`)) return;
+    try {
+      await deleteLien.mutateAsync(lien.id);
+      toast.success('Lien deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete lien');
+    }
+  };
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Landmark className="h-4 w-4 text-muted-foreground" />
+          Liens
+        </CardTitle>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Lien
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : liens.length === 0 ? (
+          <EmptyState
+            icon={Landmark}
+            title="No liens"
+            description="Liens are added automatically when lien letters are uploaded, or you can add them manually."
+            size="sm"
+          />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Holder</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Claimed</TableHead>
+                <TableHead>Negotiated</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {liens.map((lien) => (
+                <TableRow key={lien.id}>
+                  <TableCell>
+                    <div className="font-medium">{lien.holderName}</div>
+                    {lien.claimNumber && (
+                      <div className="text-xs text-muted-foreground">#{lien.claimNumber}</div>
+                    )}
+                    {lien.sourceDocument && (
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <FileText className="h-3 w-3" />
+                        {lien.sourceDocument.originalFilename}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{lienTypeLabels[lien.type]}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(Number(lien.amountClaimed))}
+                  </TableCell>
+                  <TableCell>
+                    {canEdit ? (
+                      <NegotiatedAmountInput key={lien.negotiatedAmount ?? 'none'} caseId={caseId} lien={lien} />
+                    ) : lien.negotiatedAmount !== null ? (
+                      formatCurrency(Number(lien.negotiatedAmount))
+                    ) : (
+                      '—'
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={lien.status}
+                      disabled={!canEdit}
+                      onValueChange={(value) => handleStatusChange(lien, value as LienStatus)}
+                    >
+                      <SelectTrigger className="h-8 w-[140px]">
+                        <Badge variant={statusVariants[lien.status]} size="sm">
+                          {lienStatusLabels[lien.status]}
+                        </Badge>
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(lienStatusLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleDelete(lien)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete lien</span>
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      {canEdit && <LienDialog caseId={caseId} open={dialogOpen} onOpenChange={setDialogOpen} />}
+    </Card>
+  );
+}
@@ -0,0 +1,278 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { cn, formatCurrency } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertTriangle, Download, Loader2, Plus, Receipt, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { SettlementWorksheetInputs } from '@/types';
+import { usePermissions } from '@/hooks/use-permissions';
+import {
+  downloadSettlementWorksheet,
+  useSettlementWorksheet,
+  useUpdateSettlementWorksheet,
+} from '@/hooks/use-settlement';
+
+interface SettlementWorksheetCardProps {
+  caseId: string;
+  clientName: string;
+  /** Target total from the damages calculator, offered as a starting amount */
+  suggestedAmount?: number;
+  className?: string;
+}
+
+function parseAmount(value: string): number {
+  const number = parseFloat(value);
+  return Number.isFinite(number) && number >= 0 ? number : 0;
+}
+
+function Line({
+  label,
+  amount,
+  deduction,
+  bold,
+}: {
+  label: string;
+  amount: number;
+  deduction?: boolean;
+  bold?: boolean;
+}) {
+  return (
+    <div className={cn('flex justify-between text-sm', bold && 'font-medium')}>
+      <span className={cn(!bold && 'text-muted-foreground')}>{label}</span>
+      <span>{deduction && amount > 0 ? `(${formatCurrency(amount)})` : formatCurrency(amount)}</span>
+    </div>
+  );
+}
+
+export function SettlementWorksheetCard({
+  caseId,
+  clientName,
+  suggestedAmount,
+  className,
+}: SettlementWorksheetCardProps) {
+  const { data: worksheet, isLoading } = useSettlementWorksheet(caseId);
+  const updateWorksheet = useUpdateSettlementWorksheet(caseId);
+  const { can } = usePermissions();
+  const canEdit = can('settlement:edit');
+  const [inputs, setInputs] = useState<SettlementWorksheetInputs | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  // Reset the form whenever the worksheet is saved
+  useEffect(() => {
+    if (worksheet) {
+      setInputs(worksheet.inputs);
+    }
+  }, [worksheet]);
+
+  if (isLoading || !worksheet || !inputs) {
+    return <Skeleton className={cn('h-96 rounded-lg', className)} />;
+  }
+
+  const isDirty = JSON.stringify(inputs) !== JSON.stringify(worksheet.inputs);
+
+  const handleSave = async () => {
+    try {
+      await updateWorksheet.mutateAsync({
+        ...inputs,
+        costs: inputs.costs.filter((cost) => cost.description.trim()),
+      });
+      toast.success('Worksheet saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save worksheet');
+    }
+  };
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadSettlementWorksheet(caseId, clientName);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download worksheet');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const updateCost = (index: number, field: 'description' | 'amount', value: string) =>
+    setInputs({
+      ...inputs,
+      costs: inputs.costs.map((cost, i) =>
+        i === index ? { ...cost, [field]: field === 'amount' ? parseAmount(value) : value } : cost
+      ),
+    });
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Receipt className="h-4 w-4 text-muted-foreground" />
+          Settlement Worksheet
+        </CardTitle>
+        {can('export') && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownload}
+            disabled={isDirty || isDownloading || worksheet.settlementAmount === 0}
+          >
+            {isDownloading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Word
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Inputs (read-only without settlement:edit) */}
+        <fieldset className="space-y-6" disabled={!canEdit}>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="settlement-amount">Proposed settlement</Label>
+              <Input
+                id="settlement-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={inputs.settlementAmount}
+                onChange={(e) => setInputs({ ...inputs, settlementAmount: parseAmount(e.target.value) })}
+              />
+              {suggestedAmount !== undefined && suggestedAmount > 0 && inputs.settlementAmount === 0 && (
+                <button
+                  type="button"
+                  className="text-xs text-primary hover:underline"
+                  onClick={() => setInputs({ ...inputs, settlementAmount: suggestedAmount })}
+                >
+                  Use damages target ({formatCurrency(suggestedAmount)})
+                </button>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fee-percent">Attorney fee (%)</Label>
+              <Input
+                id="fee-percent"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={inputs.attorneyFeePercent}
+                onChange={(e) =>
+                  setInputs({ ...inputs, attorneyFeePercent: Math.min(100, parseAmount(e.target.value)) })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Case costs</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setInputs({ ...inputs, costs: [...inputs.costs, { description: '', amount: 0 }] })}
+              >
+                <Plus className="mr-1 h-3 w-3" />
+                Add
+              </Button>
+            </div>
+            {inputs.costs.map((cost, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={cost.description}
+                  placeholder="e.g. Filing fee, records copies"
+                  maxLength={200}
+                  onChange={(e) => updateCost(index, 'description', e.target.value)}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  className="w-32"
+                  value={cost.amount}
+                  onChange={(e) => updateCost(index, 'amount', e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => setInputs({ ...inputs, costs: inputs.costs.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove cost</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {isDirty && canEdit && (
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setInputs(worksheet.inputs)}>
+                Reset
+              </Button>
+              <Button onClick={handleSave} disabled={updateWorksheet.isPending}>
+                {updateWorksheet.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save & Recalculate
+              </Button>
+            </div>
+          )}
+        </fieldset>
+
+        <Separator />
+
+        <div className="space-y-1.5">
+          <Line label="Gross settlement" amount={worksheet.settlementAmount} bold />
+          <Line
+            label={`Attorney fee (${worksheet.attorneyFeePercent}%)`}
+            amount={worksheet.attorneyFee}
+            deduction
+          />
+          <Line label="Case costs" amount={worksheet.costsTotal} deduction />
+          {worksheet.liens.map((lien) => (
+            <Line
+              key={lien.id}
+              label={`Lien: ${lien.holderName}${lien.status === 'WAIVED' ? ' (waived)' : ''}`}
+              amount={lien.payoff}
+              deduction
+            />
+          ))}
+          {worksheet.lienReductions > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Lien reductions negotiated: {formatCurrency(worksheet.lienReductions)}
+            </p>
+          )}
+          <div className="flex justify-between border-t pt-2">
+            <span className="font-medium">Net to client</span>
+            <span
+              className={cn(
+                'text-lg font-bold',
+                worksheet.netToClient < 0 ? 'text-destructive' : 'text-primary'
+              )}
+            >
+              {formatCurrency(worksheet.netToClient)}
+            </span>
+          </div>
+          {worksheet.settlementAmount > 0 && (
+            <p className="text-xs text-muted-foreground text-right">
+              {worksheet.clientPercent}% of gross settlement
+            </p>
+          )}
+          {worksheet.netToClient < 0 && (
+            <p className="flex items-center gap-2 rounded-md bg-destructive/10 p-2 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              Deductions exceed the settlement. Negotiate lien reductions or revisit the fee.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
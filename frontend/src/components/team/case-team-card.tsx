@@ -0,0 +1,300 @@
+'use client';
+
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Loader2, Lock, MoreVertical, Plus, Repeat, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { CaseTeamMember, CaseTeamRole } from '@/types';
+import {
+  useAddTeamMember,
+  useCaseTeam,
+  useFirmMembers,
+  useReassignTeamMember,
+  useRemoveTeamMember,
+  useSetCaseRestricted,
+  useUpdateTeamRole,
+} from '@/hooks/use-case-team';
+import { usePermissions } from '@/hooks/use-permissions';
+
+interface CaseTeamCardProps {
+  caseId: string;
+  restricted?: boolean;
+  className?: string;
+}
+
+export const caseTeamRoleLabels: Record<CaseTeamRole, string> = {
+  RESPONSIBLE_ATTORNEY: 'Responsible attorney',
+  ATTORNEY: 'Attorney',
+  PARALEGAL: 'Paralegal',
+  STAFF: 'Staff',
+};
+
+const TEAM_ROLES = Object.keys(caseTeamRoleLabels) as CaseTeamRole[];
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+export function CaseTeamCard({ caseId, restricted = false, className }: CaseTeamCardProps) {
+  const { data: team, isLoading } = useCaseTeam(caseId);
+  const { data: members } = useFirmMembers();
+  const { can } = usePermissions();
+  const canEdit = can('case:edit');
+
+  const addMember = useAddTeamMember(caseId);
+  const setRestricted = useSetCaseRestricted(caseId);
+  const [newUserId, setNewUserId] = useState('');
+  const [newRole, setNewRole] = useState<CaseTeamRole>('ATTORNEY');
+
+  const teamUserIds = new Set(team?.map((member) => member.userId));
+  const available = members?.filter((member) => !teamUserIds.has(member.id)) ?? [];
+
+  const handleAdd = async () => {
+    try {
+      await addMember.mutateAsync({ userId: newUserId, role: newRole });
+      setNewUserId('');
+      toast.success('Team member added');
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to add team member'));
+    }
+  };
+
+  const handleRestrictedChange = async (value: boolean) => {
+    try {
+      await setRestricted.mutateAsync(value);
+      toast.success(value ? 'Case restricted to its team' : 'Case visible to the whole firm');
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to update case access'));
+    }
+  };
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Users className="h-4 w-4 text-muted-foreground" />
+          Case Team
+          {restricted && (
+            <Badge variant="warning" size="sm" className="ml-auto">
+              <Lock className="mr-1 h-3 w-3" />
+              Restricted
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <div className="divide-y">
+            {team?.map((member) => (
+              <TeamMemberRow
+                key={member.id}
+                caseId={caseId}
+                member={member}
+                canEdit={canEdit}
+                canRemove={team.length > 1}
+                candidates={available}
+              />
+            ))}
+          </div>
+        )}
+
+        {canEdit && available.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <Select value={newUserId} onValueChange={setNewUserId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Add a firm member" />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Select value={newRole} onValueChange={(value) => setNewRole(value as CaseTeamRole)}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEAM_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {caseTeamRoleLabels[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" onClick={handleAdd} disabled={!newUserId || addMember.isPending}>
+                {addMember.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {canEdit && (
+          <label className="flex items-start gap-2 border-t pt-4 text-sm">
+            <input
+              type="checkbox"
+              className="mt-0.5 h-4 w-4 accent-primary"
+              checked={restricted}
+              disabled={setRestricted.isPending}
+              onChange={(e) => handleRestrictedChange(e.target.checked)}
+            />
+            <span>
+              <span className="font-medium">Restrict to case team</span>
+              <span className="block text-xs text-muted-foreground">
+                Ethical wall: firm members not on the team can&apos;t see this case. Admins keep access.
+              </span>
+            </span>
+          </label>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TeamMemberRow({
+  caseId,
+  member,
+  canEdit,
+  canRemove,
+  candidates,
+}: {
+  caseId: string;
+  member: CaseTeamMember;
+  canEdit: boolean;
+  canRemove: boolean;
+  candidates: { id: string; name: string }[];
+}) {
+  const updateRole = useUpdateTeamRole(caseId);
+  const removeMember = useRemoveTeamMember(caseId);
+  const reassign = useReassignTeamMember(caseId);
+  const [reassigning, setReassigning] = useState(false);
+
+  const handleRoleChange = async (role: CaseTeamRole) => {
+    try {
+      await updateRole.mutateAsync({ userId: member.userId, role });
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to change role'));
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await removeMember.mutateAsync(member.userId);
+      toast.success(`${member.user.name} removed from the team`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to remove team member'));
+    }
+  };
+
+  const handleReassign = async (toUserId: string) => {
+    try {
+      const updated = await reassign.mutateAsync({ fromUserId: member.userId, toUserId });
+      setReassigning(false);
+      toast.success(`Reassigned to ${updated.user.name}`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to reassign'));
+    }
+  };
+
+  return (
+    <div className="space-y-2 py-2">
+      <div className="flex items-center gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium">{member.user.name}</p>
+          {canEdit ? (
+            <Select
+              value={member.role}
+              onValueChange={(value) => handleRoleChange(value as CaseTeamRole)}
+              disabled={updateRole.isPending}
+            >
+              <SelectTrigger className="mt-1 h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TEAM_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {caseTeamRoleLabels[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="text-xs text-muted-foreground">{caseTeamRoleLabels[member.role]}</p>
+          )}
+        </div>
+        {canEdit && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Manage ${member.user.name}`}>
+                <MoreVertical className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setReassigning(true)} disabled={candidates.length === 0}>
+                <Repeat className="mr-2 h-4 w-4" />
+                Reassign
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={handleRemove}
+                disabled={!canRemove}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Remove
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+      {reassigning && (
+        <div className="flex gap-2">
+          <Select onValueChange={handleReassign} disabled={reassign.isPending}>
+            <SelectTrigger className="h-8 flex-1 text-xs">
+              <SelectValue placeholder={`Reassign ${caseTeamRoleLabels[member.role].toLowerCase()} to...`} />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" onClick={() => setReassigning(false)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
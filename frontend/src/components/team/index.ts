@@ -0,0 +1 @@
+export { CaseTeamCard, caseTeamRoleLabels } from './case-team-card';
@@ -3,6 +3,10 @@ export {
   useDocument,
   useDeleteDocument,
   useReprocessDocument,
+  useResolveDuplicate,
+  useSplitDocument,
+  useInboundEmail,
+  useResetInboundEmail,
   useUpdateDocumentCategory,
   groupDocumentsByCategory,
   getCategoryDisplayName,
@@ -12,9 +16,16 @@ export {
 export {
   useDocumentUpload,
   ALLOWED_FILE_TYPES,
+  ARCHIVE_FILE_TYPES,
   MAX_FILE_SIZE,
+  MAX_ARCHIVE_SIZE,
+  MAX_IMPORT_SIZE,
+  isArchive,
+  getRelativePath,
   validateFile,
   type UploadFile,
+  type ImportReport,
+  type ImportSkippedFile,
 } from './use-document-upload';
 
 export {
@@ -23,4 +34,86 @@ export {
   documentTypeOptions,
 } from './use-generation';
 
+export { useCaseJobs, isJobActive } from './use-case-jobs';
+
 export { useDebounce } from './use-debounce';
+
+export { useFirm, useUpdateFirm } from './use-firm';
+
+export {
+  useExhibitPackets,
+  useCreateExhibitPacket,
+  downloadExhibitPacket,
+  type CreateExhibitPacketInput,
+} from './use-exhibit-packets';
+
+export { useSearch, MIN_SEARCH_LENGTH } from './use-search';
+
+export {
+  useSaveDraftEdit,
+  useFinalizeVersion,
+  useVersionRedline,
+  type SaveDraftEditInput,
+} from './use-drafts';
+
+export {
+  useLetterSections,
+  useRegenerateSection,
+  type RegenerateSectionInput,
+} from './use-letter-sections';
+
+export { useDamages, useUpdateDamages } from './use-damages';
+
+export {
+  useLiens,
+  useCreateLien,
+  useUpdateLien,
+  useDeleteLien,
+  useSettlementWorksheet,
+  useUpdateSettlementWorksheet,
+  downloadSettlementWorksheet,
+  type LienInput,
+} from './use-settlement';
+
+export {
+  useUpcomingDeadlines,
+  useUpdateGovernmentClaim,
+  type GovernmentClaimDates,
+} from './use-deadlines';
+
+export { useAuditEvents, useAuditFacets, downloadAuditLog } from './use-audit';
+
+export {
+  useCurrentUser,
+  usePermissions,
+  useRolePermissions,
+  useUpdateRolePermissions,
+} from './use-permissions';
+
+export {
+  useFirmMembers,
+  useCaseTeam,
+  useAddTeamMember,
+  useUpdateTeamRole,
+  useRemoveTeamMember,
+  useReassignTeamMember,
+  useSetCaseRestricted,
+} from './use-case-team';
+
+export {
+  useOnboardingStatus,
+  useCreateFirm,
+  useInvitation,
+  useAcceptInvitation,
+} from './use-onboarding';
+
+export {
+  useFirmUsers,
+  useUpdateUserRole,
+  useSetUserActive,
+  useInvitations,
+  useCreateInvitation,
+  useRevokeInvitation,
+} from './use-firm-users';
+
+export { useUsageSummary, useUsageHistory } from './use-usage';
@@ -0,0 +1,55 @@
+'use client';
+
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { AuditEvent, AuditEventFilters, AuditFacets } from '@/types';
+
+function filterParams(filters: AuditEventFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  return params;
+}
+
+export function useAuditEvents(filters: AuditEventFilters, page: number = 1, limit: number = 50) {
+  return useQuery({
+    queryKey: ['audit-events', filters, page, limit],
+    queryFn: async (): Promise<{ events: AuditEvent[]; total: number; totalPages: number }> => {
+      const params = filterParams(filters);
+      params.set('page', String(page));
+      params.set('limit', String(limit));
+
+      const response = await api.get<AuditEvent[]>(`/admin/audit?${params.toString()}`);
+      return {
+        events: response.data,
+        total: response.meta?.total ?? response.data.length,
+        totalPages: response.meta?.totalPages ?? 1,
+      };
+    },
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useAuditFacets() {
+  return useQuery({
+    queryKey: ['audit-facets'],
+    queryFn: async (): Promise<AuditFacets> => {
+      const response = await api.get<AuditFacets>('/admin/audit/facets');
+      return response.data;
+    },
+  });
+}
+
+export async function downloadAuditLog(filters: AuditEventFilters): Promise<void> {
+  const params = filterParams(filters);
+  const blob = await api.download(`/admin/audit/export?${params.toString()}`);
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
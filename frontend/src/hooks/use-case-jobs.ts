@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { Job } from '@/types';
+
+const ACTIVE_STATUSES = ['QUEUED', 'RUNNING'];
+
+// Queries to refresh once a job of the given type finishes
+const INVALIDATE_ON_COMPLETE: Record<string, string[]> = {
+  'process-document': ['documents', 'case', 'medical-events', 'damages', 'liens', 'settlement-worksheet'],
+  'generate-chronology': ['chronology', 'medical-events'],
+  'generate-document': ['generated-documents', 'case'],
+  'regenerate-section': ['generated-documents'],
+};
+
+export function isJobActive(job: Job): boolean {
+  return ACTIVE_STATUSES.includes(job.status);
+}
+
+export function useCaseJobs(caseId: string) {
+  const queryClient = useQueryClient();
+  const activeIdsRef = useRef<Set<string>>(new Set());
+
+  const query = useQuery({
+    queryKey: ['case-jobs', caseId],
+    queryFn: async (): Promise<Job[]> => {
+      const response = await api.get<Job[]>(`/cases/${caseId}/jobs`);
+      return Array.isArray(response.data) ? response.data : [];
+    },
+    refetchInterval: (query) => {
+      // Poll every 3 seconds while any job is queued or running
+      const jobs = query.state.data;
+      return jobs?.some(isJobActive) ? 3000 : false;
+    },
+    enabled: !!caseId,
+  });
+
+  const jobs = query.data;
+
+  useEffect(() => {
+    if (!jobs) return;
+
+    const previouslyActive = activeIdsRef.current;
+    for (const job of jobs) {
+      if (previouslyActive.has(job.id) && !isJobActive(job)) {
+        for (const key of INVALIDATE_ON_COMPLETE[job.type] || []) {
+          queryClient.invalidateQueries({ queryKey: [key, caseId] });
+        }
+      }
+    }
+
+    activeIdsRef.current = new Set(jobs.filter(isJobActive).map((job) => job.id));
+  }, [jobs, caseId, queryClient]);
+
+  return {
+    ...query,
+    jobs: jobs || [],
+    activeJobs: (jobs || []).filter(isJobActive),
+  };
+}
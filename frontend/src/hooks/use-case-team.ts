@@ -0,0 +1,99 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { CaseTeamMember, CaseTeamRole, FirmMember } from '@/types';
+
+export function useFirmMembers() {
+  return useQuery({
+    queryKey: ['firm-members'],
+    queryFn: async (): Promise<FirmMember[]> => {
+      const response = await api.get<FirmMember[]>('/firm/members');
+      return response.data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCaseTeam(caseId: string) {
+  return useQuery({
+    queryKey: ['case-team', caseId],
+    queryFn: async (): Promise<CaseTeamMember[]> => {
+      const response = await api.get<CaseTeamMember[]>(`/cases/${caseId}/team`);
+      return response.data;
+    },
+  });
+}
+
+// Team changes alter "my cases" and who can see a restricted case
+function useInvalidateCaseTeam(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['case-team', caseId] });
+    queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+    queryClient.invalidateQueries({ queryKey: ['cases'] });
+  };
+}
+
+export function useAddTeamMember(caseId: string) {
+  const invalidate = useInvalidateCaseTeam(caseId);
+
+  return useMutation({
+    mutationFn: async (input: { userId: string; role: CaseTeamRole }) => {
+      const response = await api.post<CaseTeamMember>(`/cases/${caseId}/team`, input);
+      return response.data;
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateTeamRole(caseId: string) {
+  const invalidate = useInvalidateCaseTeam(caseId);
+
+  return useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: CaseTeamRole }) => {
+      const response = await api.put<CaseTeamMember>(`/cases/${caseId}/team/${userId}`, { role });
+      return response.data;
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useRemoveTeamMember(caseId: string) {
+  const invalidate = useInvalidateCaseTeam(caseId);
+
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      await api.delete(`/cases/${caseId}/team/${userId}`);
+    },
+    onSuccess: invalidate,
+  });
+}
+
+/** Hand one member's role on the case to another firm member */
+export function useReassignTeamMember(caseId: string) {
+  const invalidate = useInvalidateCaseTeam(caseId);
+
+  return useMutation({
+    mutationFn: async (input: { fromUserId: string; toUserId: string }) => {
+      const response = await api.post<CaseTeamMember>(`/cases/${caseId}/team/reassign`, input);
+      return response.data;
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useSetCaseRestricted(caseId: string) {
+  const invalidate = useInvalidateCaseTeam(caseId);
+
+  return useMutation({
+    mutationFn: async (restricted: boolean) => {
+      const response = await api.put<{ id: string; restricted: boolean }>(`/cases/${caseId}/restriction`, {
+        restricted,
+      });
+      return response.data;
+    },
+    onSuccess: invalidate,
+  });
+}
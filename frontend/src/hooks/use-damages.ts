@@ -0,0 +1,31 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { DamagesCalculation, DamagesInputs } from '@/types';
+
+export function useDamages(caseId: string) {
+  return useQuery({
+    queryKey: ['damages', caseId],
+    queryFn: async (): Promise<DamagesCalculation> => {
+      const response = await api.get<DamagesCalculation>(`/cases/${caseId}/damages`);
+      return response.data;
+    },
+    enabled: !!caseId,
+  });
+}
+
+export function useUpdateDamages(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (inputs: Partial<DamagesInputs>) => {
+      const response = await api.put<DamagesCalculation>(`/cases/${caseId}/damages`, inputs);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['damages', caseId], data);
+      queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+    },
+  });
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { Case, UpcomingDeadline } from '@/types';
+
+export function useUpcomingDeadlines(withinDays = 180) {
+  return useQuery({
+    queryKey: ['deadlines', withinDays],
+    queryFn: async (): Promise<UpcomingDeadline[]> => {
+      const response = await api.get<UpcomingDeadline[]>(`/cases/deadlines?days=${withinDays}`);
+      return response.data;
+    },
+  });
+}
+
+export interface GovernmentClaimDates {
+  governmentClaimFiledAt?: string | null;
+  governmentClaimRejectedAt?: string | null;
+}
+
+/**
+ * Record when the notice of claim was filed or rejected. The server
+ * recomputes the suit deadline from the rejection date.
+ */
+export function useUpdateGovernmentClaim(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (dates: GovernmentClaimDates) => {
+      const response = await api.put<Case>(`/cases/${caseId}`, dates);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+      queryClient.invalidateQueries({ queryKey: ['deadlines'] });
+    },
+  });
+}
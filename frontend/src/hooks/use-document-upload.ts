@@ -4,13 +4,36 @@ import { useState, useCallback } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
 
+export interface UploadEntry {
+  file: File;
+  /** Path within the dropped folder, or the file name */
+  path: string;
+}
+
+export interface ImportSkippedFile {
+  path: string;
+  reason: string;
+}
+
+export interface ImportReport {
+  documentCount: number;
+  skipped: ImportSkippedFile[];
+}
+
 export interface UploadFile {
   id: string;
-  file: File;
+  /** File name, or the archive or folder name for an import */
+  name: string;
+  size: number;
+  /** A single document, or a ZIP archive or folder unpacked on the server */
+  kind: 'file' | 'import';
+  files: UploadEntry[];
   progress: number;
   status: 'pending' | 'uploading' | 'completed' | 'error';
   error?: string;
   documentId?: string;
+  /** What an import created and skipped, once it completes */
+  report?: ImportReport;
 }
 
 interface UseDocumentUploadOptions {
@@ -42,43 +65,47 @@ export function useDocumentUpload({
   const uploadFile = useCallback(
     async (uploadFile: UploadFile) => {
       const formData = new FormData();
-      formData.append('file', uploadFile.file);
+      uploadFile.files.forEach(({ file, path }) => {
+        // The path travels as the part's filename so the server sees the folders
+        formData.append(uploadFile.kind === 'import' ? 'files' : 'file', file, path);
+      });
 
       updateFile(uploadFile.id, { status: 'uploading', progress: 0 });
 
-      try {
-        // Simulate progress updates during upload
-        const progressInterval = setInterval(() => {
-          setFiles((prev) => {
-            const file = prev.find((f) => f.id === uploadFile.id);
-            if (file && file.status === 'uploading' && file.progress < 90) {
-              return prev.map((f) =>
-                f.id === uploadFile.id
-                  ? { ...f, progress: Math.min(f.progress + 10, 90) }
-                  : f
-              );
-            }
-            return prev;
-          });
-        }, 200);
-
-        const response = await api.upload<Array<{ id: string }>>(
-          `/documents/${caseId}`,
-          formData
-        );
-
-        clearInterval(progressInterval);
+      // Hold the last few percent for the server's response
+      const onProgress = (percent: number) =>
+        updateFile(uploadFile.id, { progress: Math.min(percent, 95) });
 
-        const doc = Array.isArray(response.data) ? response.data[0] : response.data;
-        const documentId = doc?.id;
+      try {
+        let completed: Partial<UploadFile>;
+        if (uploadFile.kind === 'import') {
+          const response = await api.upload<{
+            documents: Array<{ id: string }>;
+            skipped: ImportSkippedFile[];
+          }>(`/documents/${caseId}/import`, formData, onProgress);
+          completed = {
+            report: {
+              documentCount: response.data.documents.length,
+              skipped: response.data.skipped,
+            },
+          };
+        } else {
+          const response = await api.upload<Array<{ id: string }>>(
+            `/documents/${caseId}`,
+            formData,
+            onProgress
+          );
+          const doc = Array.isArray(response.data) ? response.data[0] : response.data;
+          completed = { documentId: doc?.id };
+        }
 
         updateFile(uploadFile.id, {
           status: 'completed',
           progress: 100,
-          documentId,
+          ...completed,
         });
 
-        onSuccess?.({ ...uploadFile, status: 'completed', documentId });
+        onSuccess?.({ ...uploadFile, status: 'completed', ...completed });
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Upload failed';
         updateFile(uploadFile.id, {
@@ -103,12 +130,45 @@ export function useDocumentUpload({
 
   const addFiles = useCallback(
     (newFiles: File[]) => {
-      const uploadFiles: UploadFile[] = newFiles.map((file) => ({
-        id: `${Date.now()}-${Math.random().toString(36).substring(7)}`,
-        file,
-        progress: 0,
-        status: 'pending' as const,
-      }));
+      const newId = () => `${Date.now()}-${Math.random().toString(36).substring(7)}`;
+      const uploadFiles: UploadFile[] = [];
+      const folders = new Map<string, UploadEntry[]>();
+
+      newFiles.forEach((file) => {
+        const path = getRelativePath(file);
+        const folder = path.includes('/') ? path.split('/')[0] : null;
+
+        if (folder) {
+          // Everything dropped from one folder is imported as one batch
+          folders.set(folder, [...(folders.get(folder) ?? []), { file, path }]);
+        } else {
+          uploadFiles.push({
+            id: newId(),
+            name: file.name,
+            size: file.size,
+            kind: isArchive(file) ? 'import' : 'file',
+            files: [{ file, path: file.name }],
+            progress: 0,
+            status: 'pending' as const,
+          });
+        }
+      });
+
+      folders.forEach((entries, folder) => {
+        const size = entries.reduce((sum, { file }) => sum + file.size, 0);
+        uploadFiles.push({
+          id: newId(),
+          name: folder,
+          size,
+          kind: 'import',
+          files: entries,
+          progress: 0,
+          // The server turns away larger imports before reading them
+          ...(size > MAX_IMPORT_SIZE
+            ? { status: 'error' as const, error: 'Folder exceeds the 1GB import limit; upload its subfolders separately' }
+            : { status: 'pending' as const }),
+        });
+      });
 
       setFiles((prev) => [...prev, ...uploadFiles]);
       return uploadFiles;
@@ -206,17 +266,57 @@ export const ALLOWED_FILE_TYPES = {
   'image/tiff': ['.tiff', '.tif'],
   'application/msword': ['.doc'],
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  // Emails are filed as their text plus each attachment
+  'message/rfc822': ['.eml'],
+  'application/vnd.ms-outlook': ['.msg'],
+  // C-CDA and FHIR health records are read without the model
+  'application/xml': ['.xml'],
+  'text/xml': ['.xml'],
+  'application/json': ['.json'],
+  'application/fhir+json': ['.json'],
+};
+
+// ZIP archives are unpacked on the server
+export const ARCHIVE_FILE_TYPES = {
+  'application/zip': ['.zip'],
+  'application/x-zip-compressed': ['.zip'],
 };
 
 export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+export const MAX_ARCHIVE_SIZE = 500 * 1024 * 1024; // 500MB
+export const MAX_IMPORT_SIZE = 1024 * 1024 * 1024; // 1GB per folder import
+
+export function isArchive(file: File): boolean {
+  return /\.zip$/i.test(file.name) || Object.keys(ARCHIVE_FILE_TYPES).includes(file.type);
+}
+
+/**
+ * A file's path within the folder it was dropped or chosen from, without a
+ * leading slash; just the name for loose files.
+ */
+export function getRelativePath(file: File): string {
+  // react-dropzone sets `path` on dropped files; folder pickers set webkitRelativePath
+  const path = (file as File & { path?: string }).path || file.webkitRelativePath || file.name;
+  return path.replace(/^\.?\/+/, '');
+}
 
 export function validateFile(file: File): { valid: boolean; error?: string } {
+  if (isArchive(file)) {
+    return file.size > MAX_ARCHIVE_SIZE
+      ? { valid: false, error: 'Archive size exceeds 500MB limit' }
+      : { valid: true };
+  }
+
   if (file.size > MAX_FILE_SIZE) {
     return { valid: false, error: `File size exceeds 50MB limit` };
   }
 
   const allowedTypes = Object.keys(ALLOWED_FILE_TYPES);
-  if (!allowedTypes.includes(file.type)) {
+  // Browsers often give .msg files no type, or a generic one
+  const allowedExtensions = Object.values(ALLOWED_FILE_TYPES).flat();
+  const hasAllowedExtension = allowedExtensions.some((ext) => file.name.toLowerCase().endsWith(ext));
+  const isUntyped = file.type === '' || file.type === 'application/octet-stream';
+  if (!allowedTypes.includes(file.type) && !(isUntyped && hasAllowedExtension)) {
     return { valid: false, error: `File type ${file.type} is not supported` };
   }
 
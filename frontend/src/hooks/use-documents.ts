@@ -2,7 +2,7 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import { Document, DocumentCategory } from '@/types';
+import { CaseInboundEmail, Document, DocumentCategory, DuplicateAction } from '@/types';
 
 interface DocumentsResponse {
   documents: Document[];
@@ -73,6 +73,60 @@ export function useReprocessDocument(caseId: string) {
   });
 }
 
+export function useResolveDuplicate(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, action }: { documentId: string; action: DuplicateAction }) => {
+      const response = await api.post<Document>(`/documents/${caseId}/${documentId}/duplicate`, { action });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['documents', caseId] });
+      queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+    },
+  });
+}
+
+export function useSplitDocument(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, splitPoints }: { documentId: string; splitPoints: number[] }) => {
+      const response = await api.put<Document>(`/documents/${caseId}/${documentId}/split`, { splitPoints });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['documents', caseId] });
+      queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+    },
+  });
+}
+
+export function useInboundEmail(caseId: string) {
+  return useQuery({
+    queryKey: ['inbound-email', caseId],
+    queryFn: async () => {
+      const response = await api.get<CaseInboundEmail>(`/documents/${caseId}/inbound-email`);
+      return response.data;
+    },
+  });
+}
+
+export function useResetInboundEmail(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await api.post<{ address: string }>(`/documents/${caseId}/inbound-email/reset`);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inbound-email', caseId] });
+    },
+  });
+}
+
 export function useUpdateDocumentCategory(caseId: string) {
   const queryClient = useQueryClient();
 
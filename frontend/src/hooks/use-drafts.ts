@@ -0,0 +1,64 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { GeneratedDocument, Redline } from '@/types';
+
+export interface SaveDraftEditInput {
+  /** Version the edit was made from */
+  documentId: string;
+  content: string;
+  editNote?: string;
+}
+
+export function useSaveDraftEdit(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, content, editNote }: SaveDraftEditInput) => {
+      const response = await api.post<GeneratedDocument>(
+        `/generate/${caseId}/generated/${documentId}/edits`,
+        { content, editNote: editNote || undefined }
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['generated-documents', caseId] });
+    },
+  });
+}
+
+/** Mark a version as the one to send, replacing any earlier final version of its type */
+export function useFinalizeVersion(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (documentId: string) => {
+      const response = await api.post<GeneratedDocument>(
+        `/generate/${caseId}/generated/${documentId}/finalize`
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['generated-documents', caseId] });
+    },
+  });
+}
+
+/**
+ * Redline from baseId to documentId. Without a base, the server compares
+ * against the version the document was edited from (or the previous version).
+ */
+export function useVersionRedline(caseId: string, documentId?: string, baseId?: string) {
+  return useQuery({
+    queryKey: ['redline', caseId, documentId, baseId],
+    queryFn: async (): Promise<Redline> => {
+      const query = baseId ? `?base=${encodeURIComponent(baseId)}` : '';
+      const response = await api.get<Redline>(
+        `/generate/${caseId}/generated/${documentId}/diff${query}`
+      );
+      return response.data;
+    },
+    enabled: !!caseId && !!documentId,
+  });
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { ExhibitPacket, GeneratedDocument } from '@/types';
+
+export interface CreateExhibitPacketInput {
+  documentIds: string[];
+  batesPrefix?: string;
+  batesStartNumber?: number;
+  /** Letter version to cross-reference; a new version is saved with the exhibit index */
+  generatedDocumentId?: string;
+}
+
+export function useExhibitPackets(caseId: string) {
+  return useQuery({
+    queryKey: ['exhibit-packets', caseId],
+    queryFn: async (): Promise<ExhibitPacket[]> => {
+      const response = await api.get<ExhibitPacket[]>(`/export/${caseId}/exhibit-packets`);
+      return response.data;
+    },
+    enabled: !!caseId,
+  });
+}
+
+export function useCreateExhibitPacket(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateExhibitPacketInput) => {
+      const response = await api.post<{
+        packet: ExhibitPacket;
+        generatedDocument: GeneratedDocument | null;
+      }>(`/export/${caseId}/exhibit-packets`, input);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['exhibit-packets', caseId] });
+      if (data.generatedDocument) {
+        queryClient.invalidateQueries({ queryKey: ['generated-documents', caseId] });
+      }
+    },
+  });
+}
+
+export async function downloadExhibitPacket(caseId: string, packet: ExhibitPacket): Promise<void> {
+  const blob = await api.download(`/export/${caseId}/exhibit-packets/${packet.id}/pdf`);
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `exhibits-${packet.batesPrefix || 'packet'}-${packet.batesStart}.pdf`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { FirmUser, Invitation, UserRole } from '@/types';
+
+export function useFirmUsers() {
+  return useQuery({
+    queryKey: ['firm-users'],
+    queryFn: async (): Promise<FirmUser[]> => {
+      const response = await api.get<FirmUser[]>('/admin/users');
+      return response.data;
+    },
+  });
+}
+
+// Role and status changes also change who can be put on a case team
+function useInvalidateFirmUsers() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['firm-users'] });
+    queryClient.invalidateQueries({ queryKey: ['firm-members'] });
+  };
+}
+
+export function useUpdateUserRole() {
+  const invalidate = useInvalidateFirmUsers();
+
+  return useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: UserRole }) => {
+      const response = await api.put<FirmUser>(`/admin/users/${userId}/role`, { role });
+      return response.data;
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useSetUserActive() {
+  const invalidate = useInvalidateFirmUsers();
+
+  return useMutation({
+    mutationFn: async ({ userId, active }: { userId: string; active: boolean }) => {
+      const response = await api.post<FirmUser>(`/admin/users/${userId}/${active ? 'reactivate' : 'deactivate'}`);
+      return response.data;
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useInvitations() {
+  return useQuery({
+    queryKey: ['invitations'],
+    queryFn: async (): Promise<Invitation[]> => {
+      const response = await api.get<Invitation[]>('/admin/invitations?status=PENDING');
+      return response.data;
+    },
+  });
+}
+
+export function useCreateInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { email: string; role: UserRole }) => {
+      const response = await api.post<Invitation>('/admin/invitations', input);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invitations'] });
+    },
+  });
+}
+
+export function useRevokeInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invitationId: string) => {
+      const response = await api.delete<Invitation>(`/admin/invitations/${invitationId}`);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invitations'] });
+    },
+  });
+}
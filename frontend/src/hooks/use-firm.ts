@@ -0,0 +1,29 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { Firm } from '@/types';
+
+export function useFirm() {
+  return useQuery({
+    queryKey: ['firm'],
+    queryFn: async (): Promise<Firm> => {
+      const response = await api.get<Firm>('/firm');
+      return response.data;
+    },
+  });
+}
+
+export function useUpdateFirm() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: Partial<Firm>) => {
+      const response = await api.put<Firm>('/firm', data);
+      return response.data;
+    },
+    onSuccess: (firm) => {
+      queryClient.setQueryData(['firm'], firm);
+    },
+  });
+}
@@ -3,7 +3,7 @@
 import { useState, useCallback, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import { GeneratedDocument, GeneratedDocType, Warning } from '@/types';
+import { GeneratedDocument, GeneratedDocType, Job, Warning } from '@/types';
 
 interface GenerateParams {
   documentType: GeneratedDocType;
@@ -37,10 +37,8 @@ export function useGeneration(caseId: string) {
   } = useQuery({
     queryKey: ['generated-documents', caseId],
     queryFn: async (): Promise<GeneratedDocument[]> => {
-      const response = await api.get<{ documents: GeneratedDocument[] }>(
-        `/cases/${caseId}/generated-documents`
-      );
-      return response.data.documents || [];
+      const response = await api.get<GeneratedDocument[]>(`/generate/${caseId}/generated`);
+      return response.data || [];
     },
     enabled: !!caseId,
   });
@@ -56,18 +54,14 @@ export function useGeneration(caseId: string) {
     [generatedDocuments]
   );
 
-  // Generate document mutation (non-streaming fallback)
+  // Generate document mutation (non-streaming fallback) - queues a background job
   const generateMutation = useMutation({
     mutationFn: async (params: GenerateParams) => {
-      const response = await api.post<GeneratedDocument>(
-        `/cases/${caseId}/generate`,
-        params
-      );
+      const response = await api.post<Job>(`/generate/${caseId}`, params);
       return response.data;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['generated-documents', caseId] });
-      queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+      queryClient.invalidateQueries({ queryKey: ['case-jobs', caseId] });
     },
   });
 
@@ -185,12 +179,12 @@ export function useGeneration(caseId: string) {
       } else {
         setState((prev) => ({ ...prev, isGenerating: true, error: null }));
         try {
-          const result = await generateMutation.mutateAsync(params);
+          // The document is generated in the background; the new version
+          // appears in generated documents once the job completes
+          await generateMutation.mutateAsync(params);
           setState((prev) => ({
             ...prev,
             isGenerating: false,
-            content: result.content,
-            warnings: result.warnings || [],
           }));
         } catch (error) {
           setState((prev) => ({
@@ -297,4 +291,10 @@ export const documentTypeOptions = [
     description: 'Detailed damages calculation breakdown',
     icon: 'Calculator',
   },
+  {
+    value: 'GOVERNMENT_CLAIM' as GeneratedDocType,
+    label: 'Government Claim',
+    description: 'Notice of claim for a public entity defendant',
+    icon: 'Landmark',
+  },
 ] as const;
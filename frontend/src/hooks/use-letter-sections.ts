@@ -0,0 +1,43 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { Job, LetterSection, LetterSectionKey } from '@/types';
+
+export interface RegenerateSectionInput {
+  documentId: string;
+  sectionKey: LetterSectionKey;
+  instructions?: string;
+  /** Defaults to the letter's tone */
+  tone?: string;
+}
+
+export function useLetterSections(caseId: string, documentId?: string) {
+  return useQuery({
+    queryKey: ['letter-sections', caseId, documentId],
+    queryFn: async (): Promise<LetterSection[]> => {
+      const response = await api.get<LetterSection[]>(
+        `/generate/${caseId}/generated/${documentId}/sections`
+      );
+      return response.data;
+    },
+    enabled: !!caseId && !!documentId,
+  });
+}
+
+export function useRegenerateSection(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, sectionKey, instructions, tone }: RegenerateSectionInput) => {
+      const response = await api.post<Job>(
+        `/generate/${caseId}/generated/${documentId}/sections/${sectionKey}/regenerate`,
+        { instructions: instructions || undefined, tone: tone || undefined }
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['case-jobs', caseId] });
+    },
+  });
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { Invitation, OnboardingStatus } from '@/types';
+
+export function useOnboardingStatus() {
+  return useQuery({
+    queryKey: ['onboarding-status'],
+    queryFn: async (): Promise<OnboardingStatus> => {
+      const response = await api.get<OnboardingStatus>('/onboarding/status');
+      return response.data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateFirm() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { firmName: string; name?: string }) => {
+      const response = await api.post('/onboarding/firm', input);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['onboarding-status'] });
+      queryClient.invalidateQueries({ queryKey: ['current-user'] });
+    },
+  });
+}
+
+export function useInvitation(token: string) {
+  return useQuery({
+    queryKey: ['invitation', token],
+    queryFn: async (): Promise<Invitation> => {
+      const response = await api.get<Invitation>(`/onboarding/invitations/${token}`);
+      return response.data;
+    },
+    retry: false,
+  });
+}
+
+export function useAcceptInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const response = await api.post(`/onboarding/invitations/${token}/accept`);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['onboarding-status'] });
+      queryClient.invalidateQueries({ queryKey: ['current-user'] });
+    },
+  });
+}
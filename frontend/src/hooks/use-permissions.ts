@@ -0,0 +1,58 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { CurrentUser, Permission, PermissionMatrix, RolePermissionOverrides } from '@/types';
+
+export function useCurrentUser() {
+  return useQuery({
+    queryKey: ['current-user'],
+    queryFn: async (): Promise<CurrentUser> => {
+      const response = await api.get<CurrentUser>('/firm/me');
+      return response.data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * The signed-in user's permissions. `can` is false until they load, so
+ * gated actions stay hidden rather than flashing in.
+ */
+export function usePermissions() {
+  const { data, isLoading } = useCurrentUser();
+  const permissions = data?.permissions;
+
+  const can = useCallback(
+    (permission: Permission) => permissions?.includes(permission) ?? false,
+    [permissions]
+  );
+
+  return { can, role: data?.user.role, isLoading };
+}
+
+export function useRolePermissions() {
+  return useQuery({
+    queryKey: ['role-permissions'],
+    queryFn: async (): Promise<PermissionMatrix> => {
+      const response = await api.get<PermissionMatrix>('/firm/permissions');
+      return response.data;
+    },
+  });
+}
+
+export function useUpdateRolePermissions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (overrides: RolePermissionOverrides) => {
+      const response = await api.put<PermissionMatrix>('/firm/permissions', { overrides });
+      return response.data;
+    },
+    onSuccess: (matrix) => {
+      queryClient.setQueryData(['role-permissions'], matrix);
+      queryClient.invalidateQueries({ queryKey: ['current-user'] });
+    },
+  });
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { SearchFilters, SearchResult } from '@/types';
+import { useDebounce } from './use-debounce';
+
+export const MIN_SEARCH_LENGTH = 2;
+
+export function useSearch(query: string, filters: SearchFilters = {}, limit: number = 20) {
+  const debouncedQuery = useDebounce(query.trim(), 250);
+
+  return useQuery({
+    queryKey: ['search', debouncedQuery, filters, limit],
+    queryFn: async (): Promise<{ results: SearchResult[]; total: number }> => {
+      const params = new URLSearchParams({ q: debouncedQuery, limit: String(limit) });
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
+
+      const response = await api.get<SearchResult[]>(`/search?${params.toString()}`);
+      return { results: response.data, total: response.meta?.total ?? response.data.length };
+    },
+    enabled: debouncedQuery.length >= MIN_SEARCH_LENGTH,
+    placeholderData: keepPreviousData,
+  });
+}
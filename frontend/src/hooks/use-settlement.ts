@@ -0,0 +1,106 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { Lien, LienStatus, LienType, SettlementWorksheet, SettlementWorksheetInputs } from '@/types';
+
+export interface LienInput {
+  holderName: string;
+  type: LienType;
+  status?: LienStatus;
+  amountClaimed: number;
+  negotiatedAmount?: number | null;
+  claimNumber?: string | null;
+  notes?: string | null;
+}
+
+export function useLiens(caseId: string) {
+  return useQuery({
+    queryKey: ['liens', caseId],
+    queryFn: async (): Promise<Lien[]> => {
+      const response = await api.get<Lien[]>(`/settlement/${caseId}/liens`);
+      return response.data;
+    },
+    enabled: !!caseId,
+  });
+}
+
+function useInvalidateSettlement(caseId: string) {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['liens', caseId] });
+    queryClient.invalidateQueries({ queryKey: ['settlement-worksheet', caseId] });
+  };
+}
+
+export function useCreateLien(caseId: string) {
+  const invalidate = useInvalidateSettlement(caseId);
+
+  return useMutation({
+    mutationFn: async (input: LienInput) => {
+      const response = await api.post<Lien>(`/settlement/${caseId}/liens`, input);
+      return response.data;
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateLien(caseId: string) {
+  const invalidate = useInvalidateSettlement(caseId);
+
+  return useMutation({
+    mutationFn: async ({ lienId, ...input }: Partial<LienInput> & { lienId: string }) => {
+      const response = await api.put<Lien>(`/settlement/${caseId}/liens/${lienId}`, input);
+      return response.data;
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteLien(caseId: string) {
+  const invalidate = useInvalidateSettlement(caseId);
+
+  return useMutation({
+    mutationFn: async (lienId: string) => {
+      await api.delete(`/settlement/${caseId}/liens/${lienId}`);
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useSettlementWorksheet(caseId: string) {
+  return useQuery({
+    queryKey: ['settlement-worksheet', caseId],
+    queryFn: async (): Promise<SettlementWorksheet> => {
+      const response = await api.get<SettlementWorksheet>(`/settlement/${caseId}/worksheet`);
+      return response.data;
+    },
+    enabled: !!caseId,
+  });
+}
+
+export function useUpdateSettlementWorksheet(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (inputs: Partial<SettlementWorksheetInputs>) => {
+      const response = await api.put<SettlementWorksheet>(`/settlement/${caseId}/worksheet`, inputs);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['settlement-worksheet', caseId], data);
+    },
+  });
+}
+
+export async function downloadSettlementWorksheet(caseId: string, clientName: string): Promise<void> {
+  const blob = await api.download(`/settlement/${caseId}/worksheet/docx`);
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${clientName.replace(/\s+/g, '_')}_settlement_worksheet.docx`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { UsageHistory, UsageSummary } from '@/types';
+
+export function useUsageSummary() {
+  return useQuery({
+    queryKey: ['usage-summary'],
+    queryFn: async (): Promise<UsageSummary> => {
+      const response = await api.get<UsageSummary>('/usage/summary');
+      return response.data;
+    },
+  });
+}
+
+export function useUsageHistory(interval: 'day' | 'month', caseId?: string) {
+  return useQuery({
+    queryKey: ['usage-history', interval, caseId],
+    queryFn: async (): Promise<UsageHistory> => {
+      const params = new URLSearchParams({ interval });
+      if (caseId) params.set('caseId', caseId);
+      const response = await api.get<UsageHistory>(`/usage?${params.toString()}`);
+      return response.data;
+    },
+  });
+}
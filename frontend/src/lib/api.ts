@@ -88,11 +88,60 @@ class ApiClient {
     return this.request<T>(endpoint, { method: 'DELETE' });
   }
 
-  async upload<T>(endpoint: string, formData: FormData): Promise<ApiResponse<T>> {
+  async download(endpoint: string): Promise<Blob> {
+    const authHeaders = await this.getAuthHeaders();
+    const { 'Content-Type': _, ...headersWithoutContentType } = authHeaders as Record<string, string>;
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'GET',
+      headers: headersWithoutContentType,
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error?.message || 'Download failed');
+    }
+
+    return response.blob();
+  }
+
+  async upload<T>(
+    endpoint: string,
+    formData: FormData,
+    onProgress?: (percent: number) => void
+  ): Promise<ApiResponse<T>> {
     const authHeaders = await this.getAuthHeaders();
     // Remove Content-Type for FormData (browser sets it with boundary)
     const { 'Content-Type': _, ...headersWithoutContentType } = authHeaders as Record<string, string>;
 
+    if (onProgress) {
+      // fetch can't report upload progress, so large batches go through XHR
+      return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', `${this.baseUrl}${endpoint}`);
+        Object.entries(headersWithoutContentType).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+        xhr.upload.onprogress = (event) => {
+          if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+        };
+        xhr.onload = () => {
+          let data;
+          try {
+            data = JSON.parse(xhr.responseText);
+          } catch {
+            reject(new Error('An error occurred'));
+            return;
+          }
+          if (xhr.status < 200 || xhr.status >= 300) {
+            reject(new Error(data.error?.message || 'An error occurred'));
+            return;
+          }
+          resolve(data);
+        };
+        xhr.onerror = () => reject(new Error('Network error during upload'));
+        xhr.send(formData);
+      });
+    }
+
     const response = await fetch(`${this.baseUrl}${endpoint}`, {
       method: 'POST',
       body: formData,
@@ -12,6 +12,16 @@ export const incidentTypes = [
   { value: 'other', label: 'Other' },
 ] as const;
 
+// Defendant types; public entities need a notice of claim before suit
+export const defendantTypes = [
+  { value: 'PRIVATE', label: 'Private party' },
+  { value: 'CITY', label: 'City' },
+  { value: 'COUNTY', label: 'County' },
+  { value: 'STATE', label: 'State agency' },
+  { value: 'FEDERAL', label: 'Federal agency' },
+  { value: 'OTHER_PUBLIC_ENTITY', label: 'Other public entity' },
+] as const;
+
 // US States for jurisdiction
 export const jurisdictions = [
   { value: 'AL', label: 'Alabama' },
@@ -121,6 +131,7 @@ export const createCaseSchema = z.object({
     .string()
     .max(100, 'Defendant name must be 100 characters or less')
     .optional(),
+  defendantType: z.enum(defendantTypes.map((t) => t.value) as [string, ...string[]]),
   defendantInsuranceCompany: z
     .string()
     .max(100, 'Insurance company name must be 100 characters or less')
@@ -133,6 +144,8 @@ export const createCaseSchema = z.object({
     jurisdictions.map((j) => j.value) as [string, ...string[]],
     { required_error: 'Please select a jurisdiction' }
   ),
+  // Leave blank to calculate from the incident date and jurisdiction
+  statuteOfLimitations: z.string().optional(),
 });
 
 export type CreateCaseInput = z.infer<typeof createCaseSchema>;
@@ -14,18 +14,32 @@ export interface Case {
   incidentDescription?: string;
   incidentType: string;
   defendantName?: string;
+  defendantType: DefendantType;
   defendantInsuranceCompany?: string;
   claimNumber?: string;
   jurisdiction: string;
+  statuteOfLimitations?: string | null;
+  /** True when the statute deadline was entered by hand */
+  statuteOfLimitationsManual?: boolean;
+  governmentClaimFiledAt?: string | null;
+  governmentClaimRejectedAt?: string | null;
+  /** Ethical wall: hidden from firm members who aren't on the team */
+  restricted?: boolean;
+  /** Full team on the detail endpoint; just the responsible attorney in lists */
+  team?: CaseTeamMember[];
   extractedData?: Record<string, unknown>;
   treatmentTimeline?: Record<string, unknown>;
-  damagesCalculation?: Record<string, unknown>;
+  /** Older cases may hold a legacy summary; fetch /cases/:id/damages for the full shape */
+  damagesCalculation?: Partial<DamagesCalculation>;
   attorneyWarnings?: Array<{
     severity: 'critical' | 'moderate' | 'minor';
     category: string;
     message: string;
     recommendation: string;
   }>;
+  /** Computed on the case detail endpoint */
+  deadlines?: CaseDeadline[];
+  deadlineWarnings?: Case['attorneyWarnings'];
   createdAt: string;
   updatedAt: string;
   _count?: {
@@ -34,6 +48,127 @@ export interface Case {
   };
 }
 
+// Case team types
+export type CaseTeamRole = 'RESPONSIBLE_ATTORNEY' | 'ATTORNEY' | 'PARALEGAL' | 'STAFF';
+
+export interface CaseTeamMember {
+  id: string;
+  caseId: string;
+  userId: string;
+  role: CaseTeamRole;
+  addedById: string | null;
+  createdAt: string;
+  user: FirmMember;
+}
+
+export type FirmMember = Pick<User, 'id' | 'name' | 'email' | 'role'>;
+
+/** "My cases" filter on the cases list */
+export type MyCasesFilter = 'team' | 'responsible';
+
+export type DefendantType = 'PRIVATE' | 'CITY' | 'COUNTY' | 'STATE' | 'FEDERAL' | 'OTHER_PUBLIC_ENTITY';
+
+// Filing deadline types
+export type DeadlineAlertLevel = 'ok' | 'notice' | 'warning' | 'critical' | 'expired';
+
+export type DeadlineType = 'statute_of_limitations' | 'property_damage' | 'government_claim';
+
+export interface CaseDeadline {
+  type: DeadlineType;
+  label: string;
+  dueDate: string;
+  daysRemaining: number;
+  level: DeadlineAlertLevel;
+  citation: string | null;
+  basis: string;
+  manual: boolean;
+  /** The required filing has been made */
+  completed: boolean;
+}
+
+export interface UpcomingDeadline extends CaseDeadline {
+  caseId: string;
+  caseNumber?: string;
+  clientName: string;
+}
+
+// Damages calculation types
+export type GeneralDamagesMethod = 'multiplier' | 'per_diem' | 'blended';
+
+export interface DamagesRangeValues {
+  low: number;
+  target: number;
+  high: number;
+}
+
+export interface DamagesLineItem {
+  description: string;
+  amount: number;
+}
+
+export interface DamagesInputs {
+  method: GeneralDamagesMethod;
+  multiplierBase: 'billed' | 'paid';
+  multiplier: DamagesRangeValues;
+  perDiem: {
+    dailyRate: DamagesRangeValues;
+    /** null uses the incident date through the last treatment date */
+    days: number | null;
+  };
+  futureMedical: DamagesLineItem[];
+  otherSpecials: DamagesLineItem[];
+  wageLossOverride: number | null;
+}
+
+export interface DamagesRangeEntry {
+  generalDamages: number;
+  specialDamages: number;
+  total: number;
+}
+
+export interface DamagesCalculation {
+  calculatedAt: string;
+  inputs: DamagesInputs;
+  specialDamages: {
+    medicalBills: number;
+    medicalPaid: number;
+    medicalAdjustments: number;
+    medicalOutstanding: number;
+    futureMedical: number;
+    wageLoss: number;
+    otherSpecials: number;
+    total: number;
+  };
+  generalDamages: {
+    method: GeneralDamagesMethod;
+    multiplierBase: number;
+    multiplier: DamagesRangeValues;
+    perDiem: DamagesRangeValues & { days: number; dailyRate: DamagesRangeValues };
+    total: number;
+  };
+  range: {
+    low: DamagesRangeEntry;
+    target: DamagesRangeEntry;
+    high: DamagesRangeEntry;
+  };
+  demandAmount: number;
+  total: number;
+  treatment: {
+    firstDate: string | null;
+    lastDate: string | null;
+    days: number;
+  };
+  itemizedCharges: Array<{
+    provider: string;
+    date: string | null;
+    description: string;
+    billed: number;
+    paid: number;
+    adjustments: number;
+    outstanding: number;
+  }>;
+}
+
 export type CaseStatus =
   | 'INTAKE'
   | 'DOCUMENTS_UPLOADED'
@@ -56,6 +191,8 @@ export interface Document {
   fileSize: number;
   mimeType: string;
   pageCount?: number;
+  pageMap?: DocumentPage[] | null;
+  ocrConfidence?: number | null;
   category: DocumentCategory;
   subcategory?: string;
   processingStatus: ProcessingStatus;
@@ -64,10 +201,68 @@ export interface Document {
   extractedData?: Record<string, unknown>;
   documentDate?: string;
   providerName?: string;
+  validationReport?: OutputValidationRecord[] | null;
+  duplicateStatus?: DuplicateStatus | null;
+  /** Share of this document's pages found in the original, 1 for identical files */
+  duplicateScore?: number | null;
+  duplicateOfId?: string | null;
+  duplicateOf?: { id: string; originalFilename: string } | null;
+  /** Set on parts of a split upload, which cover pageStart-pageEnd of the parent's file */
+  parentDocumentId?: string | null;
+  parentDocument?: { id: string; originalFilename: string } | null;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  splitEditedAt?: string | null;
+  /** Path within an imported ZIP archive or folder */
+  sourcePath?: string | null;
+  /** Set on documents filed from an email; the body itself has isEmailBody */
+  inboundEmailId?: string | null;
+  inboundEmail?: Pick<InboundEmail, 'id' | 'subject' | 'from' | 'sentAt'> | null;
+  isEmailBody?: boolean;
+  downloadUrl?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface InboundEmail {
+  id: string;
+  source: 'EMAIL_IN' | 'UPLOAD';
+  messageId?: string | null;
+  from?: string | null;
+  fromAddress?: string | null;
+  to: string[];
+  subject?: string | null;
+  sentAt?: string | null;
+  skipped?: { path: string; reason: string }[] | null;
+  createdAt: string;
+  _count?: { documents: number };
+}
+
+export interface CaseInboundEmail {
+  address: string;
+  emails: InboundEmail[];
+}
+
+export type DuplicateStatus = 'POSSIBLE' | 'MERGED' | 'IGNORED';
+
+export type DuplicateAction = 'merge' | 'ignore';
+
+export interface OutputValidationRecord {
+  task: string;
+  status: 'valid' | 'repaired' | 'failed';
+  attempts: number;
+  issues: { path: string; message: string }[];
+  label?: string;
+}
+
+export interface DocumentPage {
+  page: number;
+  method: 'text' | 'ocr';
+  confidence: number | null;
+  start: number;
+  end: number;
+}
+
 export type DocumentCategory =
   | 'MEDICAL_RECORDS'
   | 'MEDICAL_BILLS'
@@ -100,16 +295,84 @@ export interface GeneratedDocument {
   content: string;
   contentHtml?: string;
   warnings?: Warning[];
+  source: GeneratedDocSource;
+  editNote?: string | null;
+  parentId?: string | null;
   createdById: string;
+  createdBy?: { id: string; name: string | null };
+  /** Set on the version signed off for sending; at most one per document type */
+  finalizedAt?: string | null;
+  finalizedBy?: { id: string; name: string | null } | null;
   createdAt: string;
 }
 
+export type GeneratedDocSource = 'AI' | 'USER';
+
 export type GeneratedDocType =
   | 'DEMAND_LETTER'
   | 'EXECUTIVE_SUMMARY'
   | 'GAP_ANALYSIS'
   | 'TREATMENT_TIMELINE'
-  | 'DAMAGES_WORKSHEET';
+  | 'DAMAGES_WORKSHEET'
+  | 'GOVERNMENT_CLAIM';
+
+// Demand letter sections, as structured by the generation system prompt
+export type LetterSectionKey =
+  | 'header'
+  | 'introduction'
+  | 'factual_background'
+  | 'liability'
+  | 'injuries'
+  | 'impact'
+  | 'damages'
+  | 'demand';
+
+export interface LetterSection {
+  key: LetterSectionKey | null;
+  label: string;
+  heading: string;
+  start: number;
+  end: number;
+  regenerable: boolean;
+}
+
+// Redline (tracked changes) between generated document versions
+export interface VersionAuthor {
+  versionId: string;
+  version: number;
+  source: GeneratedDocSource;
+  userName: string | null;
+  createdAt: string;
+}
+
+export type RedlineChange = 'equal' | 'insert' | 'delete';
+
+export interface RedlineSegment {
+  type: RedlineChange;
+  text: string;
+  author: VersionAuthor | null;
+}
+
+export interface RedlineParagraph {
+  type: RedlineChange | 'modify';
+  segments: RedlineSegment[];
+}
+
+export interface RedlineCounts {
+  insertedWords: number;
+  deletedWords: number;
+}
+
+export interface Redline {
+  from: VersionAuthor;
+  to: VersionAuthor;
+  versions: VersionAuthor[];
+  paragraphs: RedlineParagraph[];
+  summary: RedlineCounts & {
+    paragraphsChanged: number;
+    bySource: Record<GeneratedDocSource, RedlineCounts>;
+  };
+}
 
 export interface Warning {
   severity: 'critical' | 'moderate' | 'minor';
@@ -127,10 +390,16 @@ export interface Firm {
   primaryColor: string;
   letterheadHtml?: string;
   settings: Record<string, unknown>;
+  batesPrefix: string;
+  batesStartNumber: number;
+  batesDigits: number;
+  plan: FirmPlan;
   createdAt: string;
   updatedAt: string;
 }
 
+export type FirmPlan = 'STARTER' | 'PROFESSIONAL' | 'ENTERPRISE';
+
 // User types
 export interface User {
   id: string;
@@ -139,12 +408,179 @@ export interface User {
   name: string;
   role: UserRole;
   firmId: string;
+  /** Set when an admin has blocked the user from signing in */
+  deactivatedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
 export type UserRole = 'ADMIN' | 'ATTORNEY' | 'PARALEGAL' | 'VIEWER';
 
+/** A firm user as listed on the settings Team tab */
+export interface FirmUser extends Pick<User, 'id' | 'email' | 'name' | 'role' | 'createdAt'> {
+  deactivatedAt: string | null;
+  _count: { cases: number };
+}
+
+// Invitation and onboarding types
+export type InvitationStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED';
+
+export interface Invitation {
+  id: string;
+  firmId: string;
+  email: string;
+  role: UserRole;
+  status: InvitationStatus;
+  /** Pending but past its expiry */
+  expired: boolean;
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  firm: { id: string; name: string };
+  invitedBy: { id: string; name: string; email: string };
+  /** Only on invitations addressed to the signed-in user during onboarding */
+  token?: string;
+}
+
+export type OnboardingState = 'active' | 'deactivated' | 'needs_onboarding';
+
+export interface OnboardingStatus {
+  status: OnboardingState;
+  user?: Pick<User, 'id' | 'name' | 'email' | 'role' | 'deactivatedAt'> & { firm: { id: string; name: string } };
+  profile?: { email: string | null; name: string | null };
+  invitations: Invitation[];
+}
+
+// Role permission types, mirroring the backend's permission matrix
+export type Permission =
+  | 'case:create'
+  | 'case:edit'
+  | 'case:close'
+  | 'document:upload'
+  | 'document:delete'
+  | 'document:reprocess'
+  | 'medical_event:edit'
+  | 'chronology:generate'
+  | 'letter:generate'
+  | 'letter:edit'
+  | 'letter:finalize'
+  | 'export'
+  | 'settlement:edit'
+  | 'firm:manage'
+  | 'audit:view'
+  | 'usage:view';
+
+export interface CurrentUser {
+  user: Pick<User, 'id' | 'clerkId' | 'email' | 'name' | 'role' | 'firmId'>;
+  firm: { id: string; name: string; slug: string };
+  permissions: Permission[];
+}
+
+export type RolePermissionOverrides = Partial<Record<UserRole, Partial<Record<Permission, boolean>>>>;
+
+export interface PermissionMatrix {
+  permissions: { key: Permission; label: string; locked: UserRole[] }[];
+  defaults: Record<UserRole, Permission[]>;
+  overrides: RolePermissionOverrides;
+  effective: Record<UserRole, Permission[]>;
+}
+
+// Exhibit packet types
+export interface ExhibitEntry {
+  exhibitNumber: number;
+  documentId: string;
+  title: string;
+  documentDate: string | null;
+  batesStart: number;
+  batesEnd: number;
+  batesRange: string;
+  pageCount: number;
+}
+
+export interface ExhibitPacket {
+  id: string;
+  caseId: string;
+  fileKey: string;
+  fileSize: number;
+  pageCount: number;
+  batesPrefix: string;
+  batesStart: number;
+  batesEnd: number;
+  batesDigits: number;
+  exhibits: ExhibitEntry[];
+  createdBy?: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+}
+
+// Lien and settlement types
+export type LienType =
+  | 'MEDICAL_PROVIDER'
+  | 'HEALTH_INSURER'
+  | 'MEDICARE'
+  | 'MEDI_CAL'
+  | 'ERISA'
+  | 'OTHER';
+
+export type LienStatus = 'ASSERTED' | 'NEGOTIATING' | 'REDUCED' | 'PAID' | 'WAIVED' | 'DISPUTED';
+
+export interface Lien {
+  id: string;
+  caseId: string;
+  holderName: string;
+  type: LienType;
+  status: LienStatus;
+  /** Decimal amounts are serialized as strings */
+  amountClaimed: string;
+  negotiatedAmount: string | null;
+  claimNumber: string | null;
+  notes: string | null;
+  sourceDocumentId: string | null;
+  sourceDocument?: {
+    id: string;
+    originalFilename: string;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SettlementCost {
+  description: string;
+  amount: number;
+}
+
+export interface SettlementWorksheetInputs {
+  settlementAmount: number;
+  attorneyFeePercent: number;
+  costs: SettlementCost[];
+}
+
+export interface SettlementWorksheet {
+  inputs: SettlementWorksheetInputs;
+  settlementAmount: number;
+  attorneyFeePercent: number;
+  attorneyFee: number;
+  costs: SettlementCost[];
+  costsTotal: number;
+  liens: Array<{
+    id: string;
+    holderName: string;
+    type: LienType;
+    status: LienStatus;
+    amountClaimed: number;
+    negotiatedAmount: number | null;
+    payoff: number;
+    reduction: number;
+  }>;
+  lienTotal: number;
+  lienReductions: number;
+  netToClient: number;
+  clientPercent: number;
+}
+
 // Medical Event types
 export interface MedicalEvent {
   id: string;
@@ -202,6 +638,7 @@ export interface MedicalEvent {
   totalCharge?: number;
   insurancePaid?: number;
   patientResponsibility?: number;
+  citations?: SourceCitation[];
   document?: {
     id: string;
     originalFilename: string;
@@ -211,6 +648,26 @@ export interface MedicalEvent {
   updatedAt: string;
 }
 
+export type CitationField =
+  | 'date_of_service'
+  | 'chief_complaint'
+  | 'diagnoses'
+  | 'pain_score'
+  | 'key_quotes'
+  | 'causation_statements'
+  | 'charges';
+
+export interface SourceCitation {
+  field: CitationField;
+  value: string;
+  page: number | null;
+  quote: string | null;
+  start: number | null;
+  end: number | null;
+  /** True when the quote was found verbatim in the document text */
+  verified: boolean;
+}
+
 // Medical Chronology types
 export interface MedicalChronology {
   id: string;
@@ -272,3 +729,140 @@ export interface BodyPartSummary {
   diagnoses: string[];
   treatments: string[];
 }
+
+// Background job types
+export type JobStatus =
+  | 'QUEUED'
+  | 'RUNNING'
+  | 'SUCCEEDED'
+  | 'DEAD'
+  | 'CANCELLED';
+
+export interface Job {
+  id: string;
+  type: string;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  firmId?: string;
+  caseId?: string;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError?: string;
+  startedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Full-text search types
+export type SearchType = 'all' | 'documents' | 'events';
+
+export interface SearchResult {
+  type: 'document' | 'medical_event';
+  id: string;
+  documentId: string;
+  caseId: string;
+  caseNumber: string | null;
+  clientName: string;
+  title: string;
+  category: DocumentCategory;
+  providerName: string | null;
+  date: string | null;
+  rank: number;
+  /** HTML-escaped excerpt with matches wrapped in <mark> */
+  snippet: string;
+}
+
+export interface SearchFilters {
+  type?: SearchType;
+  caseId?: string;
+  category?: DocumentCategory;
+  provider?: string;
+  from?: string;
+  to?: string;
+}
+
+// Audit log types
+export interface AuditEvent {
+  id: string;
+  firmId: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  actorName: string | null;
+  action: string;
+  resourceType: string;
+  resourceId: string | null;
+  caseId: string | null;
+  method: string;
+  path: string;
+  statusCode: number;
+  /** Field-level before/after values for edits */
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface AuditEventFilters {
+  actorId?: string;
+  action?: string;
+  resourceType?: string;
+  caseId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditFacets {
+  actors: { actorId: string; actorName: string | null; actorEmail: string | null }[];
+  resourceTypes: string[];
+}
+
+// AI usage types
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageQuota {
+  plan: FirmPlan;
+  planLabel: string;
+  monthlyPriceUsd: number | null;
+  /** Monthly AI spend at which admins are warned */
+  softLimitUsd: number;
+  /** Monthly AI spend at which new AI work is refused; null for no cap */
+  hardLimitUsd: number | null;
+  periodStart: string;
+  usedUsd: number;
+  state: 'ok' | 'soft_limit' | 'hard_limit';
+}
+
+export interface UsageBreakdown {
+  totals: UsageTotals;
+  documentsProcessed: number;
+  byTask: (UsageTotals & { task: string })[];
+  byModel: (UsageTotals & { model: string })[];
+  byCase: (UsageTotals & { caseId: string; caseNumber: string | null; clientName: string | null })[];
+}
+
+export interface UsageSummary extends UsageBreakdown {
+  quota: UsageQuota;
+  activity: {
+    casesCreated: number;
+    documentsProcessed: number;
+    lettersGenerated: number;
+    teamMembers: number;
+  };
+}
+
+export interface UsageHistory extends UsageBreakdown {
+  from: string;
+  to: string;
+  interval: 'day' | 'month';
+  /** `period` is YYYY-MM-DD for days, YYYY-MM for months */
+  series: (UsageTotals & { period: string })[];
+}